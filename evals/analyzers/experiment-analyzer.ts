@@ -1,8 +1,10 @@
 /**
  * Experiment Analyzer
  *
- * Orchestrates fetching, analyzing, and displaying experiment results.
- * Used by both the CLI and automatic post-evaluation analysis.
+ * Orchestrates loading, analyzing, and displaying experiment results.
+ * Used by both the CLI and automatic post-evaluation analysis. Experiments
+ * are read from the local store (evals/store/experiment-store.ts); older
+ * experiments that only exist in Braintrust can still be fetched from there.
  */
 
 import {
@@ -12,6 +14,34 @@ import {
 } from './braintrust-fetcher.js';
 import { analyzeExperiment } from './results-analyzer.js';
 import { formatAnalysisReport } from './report-formatter.js';
+import { findExperiment, loadStoredEvaluations } from '../store/experiment-store.js';
+import { AnalysisReport } from '../types.js';
+
+/**
+ * Analyze an experiment from the local store (no network access)
+ *
+ * @param experimentRef - Stored experiment ID or its directory
+ * @param display - Print the console report (default: true)
+ * @returns Analysis report
+ */
+export async function analyzeStoredExperiment(
+  experimentRef: string,
+  display: boolean = true
+): Promise<AnalysisReport> {
+  const experiment = await findExperiment(experimentRef);
+  const evaluations = await loadStoredEvaluations(experiment);
+
+  if (evaluations.length === 0) {
+    throw new Error(`No evaluations stored for experiment ${experiment.experimentId}`);
+  }
+
+  const report = analyzeExperiment(evaluations, experiment.experimentId);
+
+  if (display) {
+    console.log(formatAnalysisReport(report));
+  }
+  return report;
+}
 
 /**
  * Analyze an experiment from Braintrust and display results
@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { JudgeRating, Verdict } from '../types.js';
+import { analyzeAgreement, cohensKappa, pearson, ratingKey, spearman } from './judge-agreement.js';
+
+function close(actual: number | null, expected: number): void {
+  assert.ok(actual !== null && Math.abs(actual - expected) < 1e-9, `expected ${expected}, got ${actual}`);
+}
+
+describe('statistics', () => {
+  it("computes Cohen's kappa", () => {
+    const pairs: Array<[Verdict, Verdict]> = [
+      ['PASS', 'PASS'],
+      ['PASS', 'PASS'],
+      ['FAIL', 'FAIL'],
+      ['FAIL', 'PASS'],
+    ];
+    // observed 0.75, expected 0.5 * 0.75 + 0.5 * 0.25 = 0.5
+    close(cohensKappa(pairs), 0.5);
+    close(cohensKappa([['PASS', 'FAIL'], ['FAIL', 'PASS']]), -1);
+  });
+
+  it('leaves kappa undefined without pairs or with a single verdict', () => {
+    assert.equal(cohensKappa([]), null);
+    assert.equal(cohensKappa([['PASS', 'PASS'], ['PASS', 'PASS']]), null);
+  });
+
+  it('computes Pearson and Spearman correlations', () => {
+    close(pearson([1, 2, 3], [2, 4, 6]), 1);
+    close(pearson([1, 2, 3], [3, 2, 1]), -1);
+    assert.equal(pearson([1, 1, 1], [1, 2, 3]), null);
+    assert.equal(pearson([1], [1]), null);
+
+    // Monotonic but not linear, with a tie
+    close(spearman([1, 2, 3, 4], [1, 10, 100, 1000]), 1);
+    close(spearman([1, 2, 2, 3], [1, 2, 2, 3]), 1);
+  });
+});
+
+describe('analyzeAgreement', () => {
+  const ratings: JudgeRating[] = [
+    { rater: 'claude', decisionId: 'D1', language: 'FR', verdict: 'PASS', score: 90 },
+    { rater: 'gpt5', decisionId: 'D1', language: 'FR', verdict: 'PASS', score: 85 },
+    { rater: 'claude', decisionId: 'D2', language: 'NL', verdict: 'FAIL', score: 40 },
+    { rater: 'gpt5', decisionId: 'D2', language: 'NL', verdict: 'PASS', score: 80 },
+    { rater: 'claude', decisionId: 'D3', language: 'FR', verdict: 'FAIL', score: 30 },
+  ];
+  const metadata = new Map<string, Record<string, string | undefined>>([
+    [ratingKey('D1', 'FR'), { language: 'FR', court_ecli_code: 'CASS' }],
+    [ratingKey('D2', 'NL'), { language: 'NL', court_ecli_code: 'CASS' }],
+    [ratingKey('D3', 'FR'), { language: 'FR', court_ecli_code: 'GHCC' }],
+  ]);
+  const report = analyzeAgreement('extract-parties', ratings, metadata, [{ decisionId: 'D2', verdict: 'FAIL' }], 10);
+
+  it('compares each pair of raters over decisions both rated', () => {
+    assert.deepEqual(report.raters, ['claude', 'gpt5']);
+    const [pair] = report.pairs;
+    assert.equal(pair.count, 2);
+    assert.equal(pair.verdictAgreement, 0.5);
+    assert.equal(pair.confusion.FAIL.PASS, 1);
+    close(pair.meanScoreBias, -17.5);
+  });
+
+  it('lists verdict disagreements first', () => {
+    assert.deepEqual(report.topDisagreements.map((d) => [d.decisionId, d.verdictsDiffer]), [['D2', true], ['D1', false]]);
+    assert.equal(report.topDisagreements[0].humanVerdict, 'FAIL');
+  });
+
+  it('breaks agreement down by metadata, least agreement first', () => {
+    assert.deepEqual(report.byLanguage.groups.map((g) => [g.label, g.verdictAgreement]), [['NL', 0], ['FR', 1]]);
+    assert.deepEqual(report.byCourt.groups.map((g) => g.label), ['CASS']);
+  });
+
+  it('calibrates every rater against human labels of any language', () => {
+    const byRater = Object.fromEntries(report.calibration.map((c) => [c.raterA, c]));
+    assert.equal(byRater.claude.count, 1);
+    assert.equal(byRater.claude.verdictAgreement, 1);
+    assert.equal(byRater.gpt5.verdictAgreement, 0);
+    assert.equal(byRater.gpt5.meanAbsScoreDiff, null);
+  });
+});
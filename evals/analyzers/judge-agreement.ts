@@ -0,0 +1,303 @@
+/**
+ * Judge Agreement Analyzer
+ *
+ * Compares ratings of the same extractions by several judges (or several
+ * samples of one judge), and each judge against hand-labelled verdicts:
+ * Cohen's kappa on Verdict, Pearson/Spearman score correlation, agreement
+ * per metadata dimension, and the decisions the judges disagree on most.
+ */
+
+import {
+  AgreementBreakdown,
+  AgreementGroupStats,
+  AgreementReport,
+  Disagreement,
+  HumanLabel,
+  JudgeRating,
+  RaterAgreement,
+  Verdict,
+} from '../types.js';
+
+const VERDICTS: Verdict[] = ['PASS', 'FAIL', 'REVIEW_REQUIRED'];
+
+/**
+ * Verdict and (optional) score of one rater for one decision
+ */
+interface Rated {
+  verdict: Verdict;
+  score?: number;
+}
+
+/**
+ * Key of a rated decision (decisions exist in several languages)
+ */
+export function ratingKey(decisionId: string, language: string): string {
+  return `${decisionId}|${language}`;
+}
+
+// ========================================
+// STATISTICS
+// ========================================
+
+/**
+ * Cohen's kappa for paired verdicts (null when chance agreement is 1)
+ */
+export function cohensKappa(pairs: Array<[Verdict, Verdict]>): number | null {
+  const n = pairs.length;
+  if (n === 0) return null;
+
+  const observed = pairs.filter(([a, b]) => a === b).length / n;
+  const expected = VERDICTS.reduce((sum, v) => {
+    const a = pairs.filter(([x]) => x === v).length / n;
+    const b = pairs.filter(([, y]) => y === v).length / n;
+    return sum + a * b;
+  }, 0);
+
+  return expected === 1 ? null : (observed - expected) / (1 - expected);
+}
+
+/**
+ * Pearson correlation (null with fewer than 2 values or no variance)
+ */
+export function pearson(xs: number[], ys: number[]): number | null {
+  const n = xs.length;
+  if (n < 2) return null;
+  const meanX = xs.reduce((s, x) => s + x, 0) / n;
+  const meanY = ys.reduce((s, y) => s + y, 0) / n;
+
+  let cov = 0;
+  let varX = 0;
+  let varY = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (xs[i] - meanX) * (ys[i] - meanY);
+    varX += (xs[i] - meanX) ** 2;
+    varY += (ys[i] - meanY) ** 2;
+  }
+  return varX === 0 || varY === 0 ? null : cov / Math.sqrt(varX * varY);
+}
+
+/**
+ * Ranks with ties averaged (1-based)
+ */
+function ranks(values: number[]): number[] {
+  const order = values.map((v, i) => ({ v, i })).sort((a, b) => a.v - b.v);
+  const result = new Array<number>(values.length);
+  for (let start = 0; start < order.length; ) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].v === order[start].v) end++;
+    const rank = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k++) result[order[k].i] = rank;
+    start = end + 1;
+  }
+  return result;
+}
+
+/**
+ * Spearman rank correlation
+ */
+export function spearman(xs: number[], ys: number[]): number | null {
+  return pearson(ranks(xs), ranks(ys));
+}
+
+function mean(values: number[]): number | null {
+  return values.length === 0 ? null : values.reduce((s, v) => s + v, 0) / values.length;
+}
+
+// ========================================
+// AGREEMENT
+// ========================================
+
+/**
+ * Agreement of two raters over the decisions both rated
+ */
+export function compareRaters(
+  raterA: string,
+  raterB: string,
+  a: Map<string, Rated>,
+  b: Map<string, Rated>
+): RaterAgreement {
+  const confusion = Object.fromEntries(
+    VERDICTS.map((v) => [v, Object.fromEntries(VERDICTS.map((w) => [w, 0]))])
+  ) as RaterAgreement['confusion'];
+
+  const verdictPairs: Array<[Verdict, Verdict]> = [];
+  const scoresA: number[] = [];
+  const scoresB: number[] = [];
+
+  for (const [key, ratedA] of a) {
+    const ratedB = b.get(key);
+    if (!ratedB) continue;
+    verdictPairs.push([ratedA.verdict, ratedB.verdict]);
+    if (confusion[ratedA.verdict] && ratedB.verdict in confusion[ratedA.verdict]) {
+      confusion[ratedA.verdict][ratedB.verdict]++;
+    }
+    if (typeof ratedA.score === 'number' && typeof ratedB.score === 'number') {
+      scoresA.push(ratedA.score);
+      scoresB.push(ratedB.score);
+    }
+  }
+
+  const count = verdictPairs.length;
+  return {
+    raterA,
+    raterB,
+    count,
+    verdictAgreement: count === 0 ? 0 : verdictPairs.filter(([x, y]) => x === y).length / count,
+    kappa: cohensKappa(verdictPairs),
+    pearson: pearson(scoresA, scoresB),
+    spearman: spearman(scoresA, scoresB),
+    meanAbsScoreDiff: mean(scoresA.map((s, i) => Math.abs(s - scoresB[i]))),
+    meanScoreBias: mean(scoresA.map((s, i) => s - scoresB[i])),
+    confusion,
+  };
+}
+
+/**
+ * Agreement per value of a metadata dimension, all rater pairs pooled
+ */
+function breakdownAgreement(
+  dimension: string,
+  byRater: Map<string, Map<string, Rated>>,
+  metadata: Map<string, Record<string, string | undefined>>
+): AgreementBreakdown {
+  const raters = [...byRater.keys()];
+  const groups = new Map<string, string[]>();
+  for (const [key, meta] of metadata) {
+    const label = meta[dimension] || 'Unknown';
+    if (!groups.has(label)) groups.set(label, []);
+    groups.get(label)!.push(key);
+  }
+
+  const stats: AgreementGroupStats[] = [];
+  for (const [label, keys] of groups) {
+    const verdictPairs: Array<[Verdict, Verdict]> = [];
+    const diffs: number[] = [];
+    let rated = 0;
+
+    for (const key of keys) {
+      const ratings = raters.map((r) => byRater.get(r)!.get(key)).filter((x): x is Rated => Boolean(x));
+      if (ratings.length < 2) continue;
+      rated++;
+      for (let i = 0; i < ratings.length; i++) {
+        for (let j = i + 1; j < ratings.length; j++) {
+          verdictPairs.push([ratings[i].verdict, ratings[j].verdict]);
+          diffs.push(Math.abs((ratings[i].score ?? 0) - (ratings[j].score ?? 0)));
+        }
+      }
+    }
+    if (rated === 0) continue;
+
+    stats.push({
+      label,
+      count: rated,
+      verdictAgreement: verdictPairs.filter(([x, y]) => x === y).length / verdictPairs.length,
+      kappa: cohensKappa(verdictPairs),
+      meanAbsScoreDiff: mean(diffs) ?? 0,
+    });
+  }
+
+  // Least agreement first: that is where the judges need a look
+  stats.sort((a, b) => a.verdictAgreement - b.verdictAgreement || b.count - a.count);
+  return { dimension, groups: stats };
+}
+
+/**
+ * Human labels keyed like the ratings (labels without language match every language)
+ */
+function humanByKey(labels: HumanLabel[], keys: Iterable<string>): Map<string, Rated> {
+  const exact = new Map<string, HumanLabel>();
+  const anyLanguage = new Map<string, HumanLabel>();
+  for (const label of labels) {
+    if (label.language) exact.set(ratingKey(label.decisionId, label.language), label);
+    else anyLanguage.set(label.decisionId, label);
+  }
+
+  const result = new Map<string, Rated>();
+  for (const key of keys) {
+    const label = exact.get(key) ?? anyLanguage.get(key.substring(0, key.lastIndexOf('|')));
+    if (label) result.set(key, { verdict: label.verdict, score: label.score });
+  }
+  return result;
+}
+
+/**
+ * Full agreement report
+ *
+ * @param ratings - All ratings (several raters per decision)
+ * @param metadata - Decision metadata by ratingKey (language, court_ecli_code, ...)
+ * @param human - Hand-labelled verdicts for calibration (may be empty)
+ * @param top - Number of disagreements listed for review
+ */
+export function analyzeAgreement(
+  jobType: string,
+  ratings: JudgeRating[],
+  metadata: Map<string, Record<string, string | undefined>>,
+  human: HumanLabel[],
+  top: number
+): AgreementReport {
+  const byRater = new Map<string, Map<string, Rated>>();
+  for (const rating of ratings) {
+    if (!byRater.has(rating.rater)) byRater.set(rating.rater, new Map());
+    byRater.get(rating.rater)!.set(ratingKey(rating.decisionId, rating.language), rating);
+  }
+  const raters = [...byRater.keys()];
+
+  // Pairwise agreement
+  const pairs: RaterAgreement[] = [];
+  for (let i = 0; i < raters.length; i++) {
+    for (let j = i + 1; j < raters.length; j++) {
+      pairs.push(compareRaters(raters[i], raters[j], byRater.get(raters[i])!, byRater.get(raters[j])!));
+    }
+  }
+
+  // Decisions with the largest disagreement
+  const humanVerdicts = humanByKey(human, metadata.keys());
+  const disagreements: Disagreement[] = [];
+  for (const key of metadata.keys()) {
+    const rated = raters
+      .map((r) => [r, byRater.get(r)!.get(key)] as const)
+      .filter((entry): entry is readonly [string, Rated] => Boolean(entry[1]));
+    if (rated.length < 2) continue;
+
+    const scores = rated.map(([, r]) => r.score ?? 0);
+    const verdictsDiffer = new Set(rated.map(([, r]) => r.verdict)).size > 1;
+    const scoreSpread = Math.max(...scores) - Math.min(...scores);
+    if (!verdictsDiffer && scoreSpread === 0) continue;
+
+    const [decisionId, language] = [key.substring(0, key.lastIndexOf('|')), key.substring(key.lastIndexOf('|') + 1)];
+    disagreements.push({
+      decisionId,
+      language,
+      verdicts: Object.fromEntries(rated.map(([r, x]) => [r, x.verdict])),
+      scores: Object.fromEntries(rated.map(([r, x]) => [r, x.score ?? 0])),
+      scoreSpread,
+      verdictsDiffer,
+      humanVerdict: humanVerdicts.get(key)?.verdict,
+      metadata: metadata.get(key) ?? {},
+    });
+  }
+  disagreements.sort((a, b) =>
+    Number(b.verdictsDiffer) - Number(a.verdictsDiffer) ||
+    b.scoreSpread - a.scoreSpread ||
+    a.decisionId.localeCompare(b.decisionId)
+  );
+
+  // Calibration against human labels
+  const calibration = humanVerdicts.size === 0
+    ? []
+    : raters.map((r) => compareRaters(r, 'human', byRater.get(r)!, humanVerdicts));
+
+  return {
+    jobType,
+    raters,
+    generatedAt: new Date().toISOString(),
+    decisions: metadata.size,
+    pairs,
+    byLanguage: breakdownAgreement('language', byRater, metadata),
+    byCourt: breakdownAgreement('court_ecli_code', byRater, metadata),
+    byDecisionType: breakdownAgreement('decision_type_ecli_code', byRater, metadata),
+    byLength: breakdownAgreement('length_category', byRater, metadata),
+    topDisagreements: disagreements.slice(0, top),
+    calibration,
+  };
+}
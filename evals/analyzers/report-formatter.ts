@@ -231,7 +231,7 @@ export function formatAsMarkdown(report: AnalysisReport): string {
   // Footer
   lines.push('---');
   lines.push('');
-  lines.push('*Report generated by Braintrust Experiment Analyzer*');
+  lines.push('*Report generated by Experiment Analyzer*');
   lines.push('');
 
   return lines.join('\n');
@@ -276,3 +276,129 @@ function formatDimensionAsMarkdownTable(breakdown: DimensionBreakdown): string {
 
   return lines.join('\n');
 }
+
+// ========================================
+// HTML REPORT
+// ========================================
+
+const HTML_COLORS = ['#2563eb', '#ea580c', '#16a34a', '#9333ea', '#dc2626', '#0891b2'];
+
+const HTML_DIMENSIONS: Array<{ title: string; pick: (report: AnalysisReport) => DimensionBreakdown }> = [
+  { title: 'Language', pick: (r) => r.byLanguage },
+  { title: 'Court (ECLI Code)', pick: (r) => r.byCourt },
+  { title: 'Decision Type', pick: (r) => r.byDecisionType },
+  { title: 'Length Category', pick: (r) => r.byLength },
+];
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Horizontal bar (value 0-100) with its label
+ */
+function htmlBar(value: number, color: string, label: string): string {
+  const width = Math.max(0, Math.min(100, value));
+  return `<div class="bar"><span style="width:${width.toFixed(1)}%;background:${color}"></span><em>${label}</em></div>`;
+}
+
+/**
+ * Format one or more analysis reports as a self-contained HTML page
+ *
+ * Overall verdict distribution per experiment, then one bar chart per
+ * dimension (average score and pass rate per group, one bar per
+ * experiment). No scripts or external assets: the file opens offline.
+ *
+ * @param reports - Analysis reports (several for a comparison)
+ * @param title - Page title
+ * @returns HTML string
+ */
+export function formatAsHtml(reports: AnalysisReport[], title: string = 'Experiment Analysis Report'): string {
+  const color = (index: number) => HTML_COLORS[index % HTML_COLORS.length];
+  const multiple = reports.length > 1;
+  const body: string[] = [];
+
+  body.push(`<h1>${escapeHtml(title)}</h1>`);
+  body.push(`<p class="muted">Generated ${escapeHtml(new Date().toLocaleString())}</p>`);
+
+  // Overall statistics
+  body.push('<h2>Overall Statistics</h2>');
+  body.push('<table><thead><tr><th>Experiment</th><th>Evaluations</th><th>Avg Score</th><th>Verdicts</th></tr></thead><tbody>');
+  reports.forEach((report, i) => {
+    const s = report.overallStats;
+    body.push(
+      `<tr><td><i class="swatch" style="background:${color(i)}"></i>${escapeHtml(report.experimentId)}</td>` +
+      `<td>${report.totalEvaluations}</td>` +
+      `<td>${htmlBar(s.avgScore, color(i), `${s.avgScore.toFixed(1)}/100`)}</td>` +
+      `<td><div class="stack">` +
+      `<span class="pass" style="width:${s.passRate.toFixed(1)}%" title="PASS ${s.passCount}"></span>` +
+      `<span class="review" style="width:${s.reviewRate.toFixed(1)}%" title="REVIEW ${s.reviewCount}"></span>` +
+      `<span class="fail" style="width:${s.failRate.toFixed(1)}%" title="FAIL ${s.failCount}"></span>` +
+      `</div><small>✅ ${s.passRate.toFixed(1)}% · ⚠️ ${s.reviewRate.toFixed(1)}% · ❌ ${s.failRate.toFixed(1)}%</small></td></tr>`
+    );
+  });
+  body.push('</tbody></table>');
+
+  // Per-dimension charts
+  for (const dimension of HTML_DIMENSIONS) {
+    const breakdowns = reports.map(dimension.pick);
+    const labels = [...new Set(breakdowns.flatMap((b) => b.groups.map((g) => g.label)))];
+
+    body.push(`<h2>Breakdown by ${escapeHtml(dimension.title)}</h2>`);
+    if (labels.length === 0) {
+      body.push('<p class="muted">No data available</p>');
+      continue;
+    }
+
+    body.push(
+      `<table><thead><tr><th>${escapeHtml(dimension.title)}</th>${multiple ? '<th>Experiment</th>' : ''}` +
+      '<th>Count</th><th>Avg Score</th><th>Pass Rate</th><th>Avg Issues (C/M/m)</th></tr></thead><tbody>'
+    );
+    for (const label of labels) {
+      breakdowns.forEach((breakdown, i) => {
+        const group = breakdown.groups.find((g) => g.label === label);
+        const cells = group
+          ? `<td>${group.count}</td>` +
+            `<td>${htmlBar(group.avgScore, color(i), `${group.avgScore.toFixed(1)}/100`)}</td>` +
+            `<td>${htmlBar(group.passRate, color(i), `${group.passRate.toFixed(1)}%`)}</td>` +
+            `<td>${group.avgCriticalIssues.toFixed(1)}/${group.avgMajorIssues.toFixed(1)}/${group.avgMinorIssues.toFixed(1)}</td>`
+          : '<td colspan="4" class="muted">—</td>';
+        const labelCell = i === 0 ? `<th rowspan="${breakdowns.length}">${escapeHtml(label)}</th>` : '';
+        const experimentCell = multiple
+          ? `<td><i class="swatch" style="background:${color(i)}"></i>${escapeHtml(reports[i].experimentId)}</td>`
+          : '';
+        body.push(`<tr>${labelCell}${experimentCell}${cells}</tr>`);
+      });
+    }
+    body.push('</tbody></table>');
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2937; }
+  table { border-collapse: collapse; margin-bottom: 2rem; min-width: 60%; }
+  th, td { border-bottom: 1px solid #e5e7eb; padding: 0.35rem 0.6rem; text-align: left; vertical-align: middle; }
+  thead th { background: #f3f4f6; }
+  .muted { color: #6b7280; }
+  .swatch { display: inline-block; width: 0.7rem; height: 0.7rem; border-radius: 2px; margin-right: 0.4rem; }
+  .bar { position: relative; width: 14rem; height: 1.1rem; background: #f3f4f6; border-radius: 3px; }
+  .bar span { display: block; height: 100%; border-radius: 3px; opacity: 0.85; }
+  .bar em { position: absolute; left: 0.4rem; top: 0; font-size: 0.75rem; font-style: normal; line-height: 1.1rem; }
+  .stack { display: flex; width: 14rem; height: 1.1rem; border-radius: 3px; overflow: hidden; background: #f3f4f6; }
+  .stack .pass { background: #16a34a; } .stack .review { background: #f59e0b; } .stack .fail { background: #dc2626; }
+</style>
+</head>
+<body>
+${body.join('\n')}
+</body>
+</html>
+`;
+}
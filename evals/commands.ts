@@ -0,0 +1,349 @@
+/**
+ * Evaluation Commands
+ *
+ * Implementations behind `eval run|compare|list|experiments|test-connections|analyze|golden|agreement`
+ * in the CLI (src/cli/commands/eval.ts):
+ *   npm run eval extract-comprehensive --sample 50
+ *   npm run eval -- experiments --job extract-comprehensive --test-set comprehensive-197.csv
+ *   npm run eval golden extract-provisions-2a --threshold 0.01
+ *   npm run eval -- agreement extract-comprehensive --sample 30 --human evals/human-labels/comprehensive.json
+ *   npm run eval compare <experiment-id> <experiment-id>
+ *   npm run analyze-results -- <experiment-id> --format html --save
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { runEvaluation } from './runners/evaluation-runner.js';
+import { GoldenSetOptions, runGoldenSet } from './runners/golden-runner.js';
+import { AgreementOptions, runJudgeAgreement } from './runners/agreement-runner.js';
+import {
+  generateComparisonReport,
+  exportReportToHtml,
+  exportReportToMarkdown,
+} from './reporters/analysis-reporter.js';
+import { loadExperiments } from './store/experiment-store.js';
+import { listAvailableExtractionResults } from './loaders/extraction-result-loader.js';
+import { validateBraintrustConfig } from './config/braintrust.js';
+import { validateAzureJudgeConfig } from './config/openai.js';
+import { DatabaseConfig } from '../src/config/database.js';
+import { getConfiguredJobTypes, hasEvalConfigured } from './config/job-prompt-map.js';
+import {
+  getExperimentId,
+  fetchExperimentResults,
+  extractMetadataFromEvents,
+} from './analyzers/braintrust-fetcher.js';
+import { analyzeExperiment as analyzeEvaluations } from './analyzers/results-analyzer.js';
+import { analyzeStoredExperiment } from './analyzers/experiment-analyzer.js';
+import {
+  formatAnalysisReport,
+  formatAsHtml,
+  formatAsJson,
+  formatAsMarkdown,
+} from './analyzers/report-formatter.js';
+import {
+  AgreementReport,
+  AnalysisReport,
+  EvalOptions,
+  ExperimentQuery,
+  GoldenSetReport,
+  StoredExperiment,
+} from './types.js';
+
+/**
+ * Run evaluation on the latest (or a specific) result set of a job
+ */
+export async function runEval(
+  jobType: string,
+  timestamp: string | undefined,
+  options: EvalOptions
+): Promise<{ experimentId: string; evaluated: number }> {
+  // Validate job type has eval configured
+  if (!hasEvalConfigured(jobType)) {
+    const configured = getConfiguredJobTypes();
+    throw new Error(
+      `No eval configured for job type: ${jobType}. ` +
+      `Configured job types: ${configured.join(', ')}. ` +
+      `To add one, map '${jobType}' to a judge prompt in evals/config/job-prompt-map.ts`
+    );
+  }
+
+  const result = await runEvaluation(jobType, timestamp, options);
+
+  console.log(`\n✨ Evaluation complete!`);
+  console.log(`   Experiment ID: ${result.experimentId}`);
+  console.log(`   Analyze offline: npm run analyze-results -- ${result.experimentId}`);
+  console.log(`   View results in Braintrust: https://www.braintrustdata.com`);
+
+  return { experimentId: result.experimentId, evaluated: result.evaluations.length };
+}
+
+/**
+ * Score a job against its golden set and check for regressions
+ */
+export async function runGolden(
+  jobType: string,
+  options: GoldenSetOptions
+): Promise<{ passed: boolean; fields: GoldenSetReport['fields']; regression: GoldenSetReport['regression']; missingOutputs: string[] }> {
+  const report = await runGoldenSet(jobType, options);
+  return {
+    passed: report.regression.passed,
+    fields: report.fields,
+    regression: report.regression,
+    missingOutputs: report.missingOutputs,
+  };
+}
+
+/**
+ * Rate the same extractions with several judges and report their agreement
+ */
+export async function runAgreement(
+  jobType: string,
+  options: AgreementOptions
+): Promise<{ outputDir: string; pairs: AgreementReport['pairs']; calibration: AgreementReport['calibration'] }> {
+  if (!options.ratings && !hasEvalConfigured(jobType)) {
+    throw new Error(
+      `No eval configured for job type: ${jobType}. ` +
+      `Configured job types: ${getConfiguredJobTypes().join(', ')}`
+    );
+  }
+  const { report, outputDir } = await runJudgeAgreement(jobType, options);
+  return { outputDir, pairs: report.pairs, calibration: report.calibration };
+}
+
+/**
+ * Compare stored experiments and write evals/comparison-report.md (+ .html)
+ */
+export async function compareExperiments(experimentRefs: string[]): Promise<unknown> {
+  console.log(`\n📊 Comparing ${experimentRefs.length} experiments...\n`);
+
+  const report = await generateComparisonReport(experimentRefs);
+
+  // Save markdown and HTML reports
+  const outputPath = 'evals/comparison-report.md';
+  const htmlPath = 'evals/comparison-report.html';
+  await exportReportToMarkdown(report, outputPath);
+  await exportReportToHtml(report, htmlPath);
+
+  console.log(`\n✅ Comparison report generated: ${outputPath} (${htmlPath})`);
+
+  // Print summary
+  console.log(`\n📈 Summary:`);
+  for (const experiment of report.experiments) {
+    const passRate = experiment.stats.totalEvaluated === 0
+      ? 0
+      : (experiment.stats.verdictDistribution.pass / experiment.stats.totalEvaluated) * 100;
+    console.log(
+      `   ${experiment.name}: avg ${experiment.stats.avgScore.toFixed(1)}/100, ` +
+      `pass ${passRate.toFixed(1)}% (n=${experiment.stats.totalEvaluated})`
+    );
+  }
+  console.log(`   Better Experiment: ${report.comparisons.betterExperiment}`);
+  console.log(`   Score Diff (last vs first): ${report.comparisons.scoreDiff.toFixed(1)}`);
+  console.log(`   Pass Rate Diff (last vs first): ${report.comparisons.passRateDiff.toFixed(1)} pts`);
+  for (const finding of report.recommendations) {
+    console.log(`   - ${finding}`);
+  }
+
+  return { outputPath, htmlPath, comparisons: report.comparisons, recommendations: report.recommendations };
+}
+
+/**
+ * List experiments in the local store, filtered by job, model, prompt version and test set
+ */
+export async function listExperiments(query: ExperimentQuery): Promise<{ experiments: StoredExperiment[] }> {
+  const experiments = await loadExperiments(query);
+
+  if (experiments.length === 0) {
+    console.log('\nNo stored experiments match. Experiments are recorded by: npm run eval <job-type>');
+    return { experiments };
+  }
+
+  console.log(`\n🗄️  ${experiments.length} stored experiments:\n`);
+  for (const e of experiments) {
+    console.log(`  ${e.experimentId}`);
+    console.log(
+      `     ${e.jobType} · ${e.model} · prompt ${e.promptVersion ?? 'unversioned'} · ` +
+      `test set ${e.testSet ?? '-'} · judge ${e.judge}`
+    );
+    console.log(
+      `     ${e.evaluated} evaluated · avg ${e.avgScore.toFixed(1)}/100 · pass ${e.passRate.toFixed(1)}% · ${e.createdAt}`
+    );
+  }
+
+  return { experiments };
+}
+
+/**
+ * List result timestamps available for evaluation
+ */
+export async function listResults(jobType: string): Promise<{ timestamps: string[]; evalConfigured: boolean }> {
+  console.log(`\n📋 Available results for ${jobType}:\n`);
+
+  const timestamps = await listAvailableExtractionResults(jobType);
+  const evalConfigured = hasEvalConfigured(jobType);
+
+  if (timestamps.length === 0) {
+    console.log(`No results found for ${jobType}`);
+    console.log(`Run the job first:`);
+    console.log(`  npm run dev submit ${jobType}`);
+    console.log(`  npm run dev process ${jobType}`);
+    return { timestamps, evalConfigured };
+  }
+
+  for (const ts of timestamps) {
+    console.log(`  ${evalConfigured ? '✅' : '⚪'} ${ts}`);
+  }
+
+  console.log(`\nTotal: ${timestamps.length} result sets`);
+
+  if (evalConfigured) {
+    console.log(`\nTo evaluate a specific timestamp:`);
+    console.log(`  npm run eval ${jobType} --timestamp <timestamp>`);
+  } else {
+    console.log(`\n⚪ No eval configured for ${jobType} yet`);
+    console.log(`To add eval, edit: evals/config/job-prompt-map.ts`);
+  }
+
+  return { timestamps, evalConfigured };
+}
+
+/**
+ * Test database, judge and Braintrust configuration
+ */
+export async function testEvalConnections(): Promise<{ database: boolean; judge: boolean; braintrust: boolean }> {
+  console.log('\n🧪 Testing connections...\n');
+
+  // Test database
+  console.log('Testing PostgreSQL connection...');
+  const dbOk = await DatabaseConfig.testConnection();
+
+  if (dbOk) {
+    console.log('✅ Database connection successful\n');
+  } else {
+    console.log('❌ Database connection failed\n');
+  }
+
+  // Test Azure OpenAI GPT-4.1
+  console.log('Testing Azure OpenAI GPT-4.1 judge configuration...');
+  const azureOk = validateAzureJudgeConfig();
+  if (!azureOk) {
+    console.log('');
+  }
+
+  // Test Braintrust
+  console.log('\nTesting Braintrust configuration...');
+  const braintrustOk = validateBraintrustConfig();
+  if (!braintrustOk) {
+    console.log('');
+  }
+
+  if (dbOk && azureOk && braintrustOk) {
+    console.log('\n✅ All connections successful!');
+  } else {
+    console.log('\n❌ Some connections failed. Please check your .env file.');
+  }
+
+  return { database: dbOk, judge: azureOk, braintrust: braintrustOk };
+}
+
+/**
+ * Analyze an experiment by metadata dimensions
+ * (language, court, decision type, length category)
+ *
+ * Reads the local experiment store; with `braintrust`, fetches an experiment
+ * that was only logged to Braintrust instead.
+ */
+export async function analyzeExperiment(
+  experimentNameOrId: string,
+  options: { format: 'console' | 'json' | 'markdown' | 'html'; save: boolean; output?: string; braintrust?: boolean }
+): Promise<{ experimentId: string; savedTo: string | null; report: unknown }> {
+  const report = options.braintrust
+    ? await analyzeBraintrustExperiment(experimentNameOrId)
+    : await analyzeStoredExperiment(experimentNameOrId, false);
+  const experimentId = report.experimentId;
+
+  // Format based on output format
+  let formattedContent: string;
+  let defaultExtension: string;
+
+  switch (options.format) {
+    case 'json':
+      formattedContent = formatAsJson(report);
+      defaultExtension = 'json';
+      break;
+    case 'markdown':
+      formattedContent = formatAsMarkdown(report);
+      defaultExtension = 'md';
+      break;
+    case 'html':
+      formattedContent = formatAsHtml([report], `Experiment Analysis: ${experimentId}`);
+      defaultExtension = 'html';
+      break;
+    case 'console':
+    default:
+      formattedContent = formatAnalysisReport(report);
+      defaultExtension = 'txt';
+      break;
+  }
+
+  // Display output (unless saving to file only)
+  if (!options.save || options.format === 'console') {
+    console.log(formattedContent);
+  }
+
+  // Save to file if requested
+  let savedTo: string | null = null;
+  if (options.save) {
+    savedTo =
+      options.output ||
+      path.join(process.cwd(), 'evals', 'analysis', `${experimentId}.${defaultExtension}`);
+
+    await fs.mkdir(path.dirname(savedTo), { recursive: true });
+    await fs.writeFile(savedTo, formattedContent, 'utf-8');
+
+    console.log(`💾 Analysis saved to: ${savedTo}`);
+  }
+
+  console.log('✅ Analysis complete!');
+
+  return { experimentId, savedTo, report };
+}
+
+/**
+ * Fetch and analyze an experiment that only exists in Braintrust
+ */
+async function analyzeBraintrustExperiment(experimentNameOrId: string): Promise<AnalysisReport> {
+  if (!process.env.BRAINTRUST_API_KEY) {
+    throw new Error('BRAINTRUST_API_KEY not found in .env');
+  }
+
+  // Step 1: Resolve experiment name to ID
+  const experimentId = await getExperimentId(experimentNameOrId);
+
+  // Step 2: Fetch experiment results from Braintrust
+  const events = await fetchExperimentResults(experimentId);
+
+  if (events.length === 0) {
+    throw new Error('No events found for this experiment. Check that the experiment ID is correct');
+  }
+
+  // Step 3: Parse events into evaluations
+  const evaluations = extractMetadataFromEvents(events);
+
+  // Check if metadata is available
+  const hasMetadata = evaluations.some(
+    (e) => e.language || e.courtEcliCode || e.lengthCategory
+  );
+
+  if (!hasMetadata) {
+    console.warn('⚠️  Warning: No metadata found in evaluations');
+    console.warn('   Metadata was not logged to Braintrust and not found in extracted_data.');
+    console.warn('   Dimension breakdowns will show "Unknown" for all values.');
+    console.warn('');
+    console.warn('   Note: Most experiments should have metadata in extracted_data from CSV test set.');
+    console.warn('');
+  }
+
+  // Step 4: Analyze experiment
+  return analyzeEvaluations(evaluations, experimentId);
+}
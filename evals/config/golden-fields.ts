@@ -0,0 +1,154 @@
+/**
+ * Golden-Set Field Configuration
+ *
+ * Which fields of each job are compared against the hand-labelled gold
+ * JSONs in evals/golden-sets/<job-type>/, and how.
+ *
+ * ## How to Add a Job
+ *
+ * 1. Add an entry here: a key function (shared by output and gold records)
+ *    and one matcher per field
+ * 2. Put gold JSONs in evals/golden-sets/<job-type>/ (same shape as the job output)
+ * 3. Run: `npm run eval golden <job-type>`
+ */
+
+import { VALID_TOPICS } from '../../src/jobs/classify-legal-issues/validation.js';
+import { FieldItem, GoldenJobSpec } from '../types.js';
+
+function asArray(value: any): any[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * <decision_id>_<language>, as in the full-data JSON filenames
+ */
+function decisionKey(record: any): string | null {
+  const language = record?.language || record?.language_metadata;
+  return record?.decision_id && language ? `${record.decision_id}_${language}` : null;
+}
+
+/**
+ * Top match (highest score) of a mapping job output
+ */
+function topMatch(record: any, idField: string): FieldItem[] {
+  const [top] = asArray(record?.matches)
+    .filter((m) => m?.[idField])
+    .sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+  return top ? [{ text: String(top[idField]) }] : [];
+}
+
+const MAPPED_DOCUMENT_NUMBER: GoldenJobSpec = {
+  keyOf: (record) => record?.internal_parent_act_id ?? null,
+  fields: [
+    {
+      name: 'document_number',
+      description: 'Mapped document_number (top match)',
+      matcher: { kind: 'set', items: (record) => topMatch(record, 'document_number') },
+    },
+  ],
+};
+
+export const GOLDEN_FIELDS: Record<string, GoldenJobSpec> = {
+  'extract-comprehensive': {
+    keyOf: decisionKey,
+    fields: [
+      {
+        name: 'parties',
+        description: 'Party names (fuzzy)',
+        matcher: {
+          kind: 'fuzzy',
+          threshold: 0.8,
+          items: (record) => asArray(record?.parties)
+            .filter((p) => p?.name)
+            .map((p) => ({ text: p.name })),
+        },
+      },
+    ],
+  },
+
+  'extract-provisions-2a': {
+    keyOf: decisionKey,
+    fields: [
+      {
+        name: 'citedProvisions',
+        description: 'Article number (exact) + parent act name (fuzzy)',
+        matcher: {
+          kind: 'fuzzy',
+          threshold: 0.7,
+          items: (record) => asArray(record?.citedProvisions)
+            .filter((p) => p?.provisionNumberKey)
+            .map((p) => ({
+              key: String(p.provisionNumberKey).toLowerCase().replace(/\s+/g, ''),
+              text: p.parentActName ?? '',
+            })),
+        },
+      },
+    ],
+  },
+
+  'extract-cited-decisions': {
+    keyOf: decisionKey,
+    fields: [
+      {
+        name: 'citedDecisions',
+        description: 'Cited decisions by ECLI (citations without ECLI are ignored)',
+        matcher: {
+          kind: 'set',
+          items: (record) => asArray(record?.citedDecisions)
+            .filter((d) => d?.ecli)
+            .map((d) => ({ text: String(d.ecli).toUpperCase() })),
+        },
+      },
+    ],
+  },
+
+  'extract-legal-teachings': {
+    keyOf: decisionKey,
+    fields: [
+      {
+        name: 'teachingCount',
+        description: 'Number of legal teachings',
+        matcher: { kind: 'count', value: (record) => asArray(record?.legalTeachings).length },
+      },
+    ],
+  },
+
+  'classify-legal-issues': {
+    keyOf: (record) => record?.teaching_id ?? null,
+    fields: [
+      {
+        name: 'topics',
+        description: 'ULIT topic codes (VALID_TOPICS leaf nodes)',
+        matcher: {
+          kind: 'set',
+          items: (record) => asArray(record?.classification?.topic_set).map((code) => ({ text: String(code) })),
+        },
+      },
+    ],
+    validateGold: (gold) => asArray(gold?.classification?.topic_set)
+      .filter((code) => !VALID_TOPICS.has(code))
+      .map((code) => `Topic ${code} is not a valid ULIT leaf node`),
+  },
+
+  'map-provisions-standard': MAPPED_DOCUMENT_NUMBER,
+  'map-provisions-no-date': MAPPED_DOCUMENT_NUMBER,
+  'map-provisions-code': MAPPED_DOCUMENT_NUMBER,
+
+  'map-cited-decisions': {
+    keyOf: (record) => record?.internal_decision_id ?? null,
+    fields: [
+      {
+        name: 'decision_id',
+        description: 'Mapped decision ECLI (top match)',
+        matcher: { kind: 'set', items: (record) => topMatch(record, 'decision_id') },
+      },
+    ],
+  },
+};
+
+/**
+ * Job types with golden-set fields configured
+ */
+export function getGoldenJobTypes(): string[] {
+  return Object.keys(GOLDEN_FIELDS);
+}
@@ -11,6 +11,7 @@ import {
   loadSummary,
   listAvailableResults,
 } from '../../src/utils/jobResultLoader.js';
+import { versionKey } from '../../src/utils/versioning.js';
 import { ExperimentMetadata } from '../types.js';
 
 /**
@@ -57,6 +58,7 @@ export async function loadExtractionResults(
     failedRecords: summary.failed || 0,
     extractionDate: summary.processedAt || new Date().toISOString(),
     experimentConfig: summary.experimentConfig, // Include experimentConfig from summary
+    promptVersion: summary.promptSchemaVersion ? versionKey(summary.promptSchemaVersion) : undefined,
   };
 
   return {
@@ -0,0 +1,81 @@
+/**
+ * Golden-Set Loader
+ *
+ * Loads hand-labelled gold JSONs (evals/golden-sets/<job-type>/*.json) and
+ * job outputs to compare them with.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { GoldenJobSpec } from '../types.js';
+
+export const GOLDEN_SETS_DIR = path.join('evals', 'golden-sets');
+
+/**
+ * Gold records keyed like the job output
+ *
+ * @throws Error when the directory is missing or holds no usable gold JSON
+ */
+export async function loadGoldenSet(
+  jobType: string,
+  spec: GoldenJobSpec,
+  goldDir: string = path.join(GOLDEN_SETS_DIR, jobType)
+): Promise<{ gold: Map<string, any>; warnings: string[] }> {
+  let files: string[];
+  try {
+    files = (await fs.readdir(goldDir)).filter((f) => f.endsWith('.json')).sort();
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      throw new Error(`Golden set not found: ${goldDir}\nAdd hand-labelled JSONs (same shape as the ${jobType} output)`);
+    }
+    throw error;
+  }
+
+  const gold = new Map<string, any>();
+  const warnings: string[] = [];
+
+  for (const file of files) {
+    const record = JSON.parse(await fs.readFile(path.join(goldDir, file), 'utf-8'));
+    const key = spec.keyOf(record);
+    if (!key) {
+      warnings.push(`${file}: no key fields, skipped`);
+      continue;
+    }
+    if (gold.has(key)) {
+      warnings.push(`${file}: duplicate gold record for ${key}, skipped`);
+      continue;
+    }
+    for (const problem of spec.validateGold?.(record) ?? []) {
+      warnings.push(`${file}: ${problem}`);
+    }
+    gold.set(key, record);
+  }
+
+  if (gold.size === 0) {
+    throw new Error(`No gold records in ${goldDir}`);
+  }
+  return { gold, warnings };
+}
+
+/**
+ * Output records from a results directory: extracted-data.json
+ * (concurrent/batch results) or one JSON per record (full-data run, jsons/)
+ */
+export async function loadOutputRecords(resultsDir: string): Promise<any[]> {
+  const extractedData = path.join(resultsDir, 'extracted-data.json');
+  try {
+    return JSON.parse(await fs.readFile(extractedData, 'utf-8'));
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') throw error;
+  }
+
+  const jsonsDir = path.join(resultsDir, 'jsons');
+  const dir = await fs.access(jsonsDir).then(() => jsonsDir, () => resultsDir);
+  const files = (await fs.readdir(dir)).filter((f) => f.endsWith('.json')).sort();
+
+  const records: any[] = [];
+  for (const file of files) {
+    records.push(JSON.parse(await fs.readFile(path.join(dir, file), 'utf-8')));
+  }
+  return records;
+}
@@ -1,13 +1,240 @@
 /**
  * Analysis Reporter - Comparison Report Generation
  *
- * TODO: Implement when needed for comparing experiments
+ * Compares experiments from the local store (evals/store/experiment-store.ts):
+ * overall stats, common issues and per-dimension breakdowns. The first
+ * experiment is the baseline the others are compared with.
  */
 
-export async function generateComparisonReport(experimentPaths: string[]): Promise<any> {
-  throw new Error('Comparison report generation not yet implemented');
+import fs from 'fs/promises';
+import path from 'path';
+import { analyzeExperiment } from '../analyzers/results-analyzer.js';
+import { formatAsHtml } from '../analyzers/report-formatter.js';
+import { findExperiment, loadStoredEvaluations } from '../store/experiment-store.js';
+import {
+  AggregateStats,
+  AnalysisReport,
+  ComparisonReport,
+  Confidence,
+  DimensionBreakdown,
+  Recommendation,
+  StoredEvaluation,
+} from '../types.js';
+
+/** Pass-rate drop (percentage points) of a dimension group worth a recommendation */
+const GROUP_DROP_THRESHOLD = 10;
+
+/** Minimum group size for group-level recommendations */
+const MIN_GROUP_SIZE = 3;
+
+function topIssues(issues: string[], limit: number): Array<{ issue: string; count: number }> {
+  const counts = new Map<string, number>();
+  for (const issue of issues) counts.set(issue, (counts.get(issue) ?? 0) + 1);
+  return [...counts.entries()]
+    .map(([issue, count]) => ({ issue, count }))
+    .sort((a, b) => b.count - a.count || a.issue.localeCompare(b.issue))
+    .slice(0, limit);
+}
+
+/**
+ * Aggregate statistics of stored evaluations
+ */
+function aggregateStats(evaluations: StoredEvaluation[]): AggregateStats {
+  const n = evaluations.length;
+  const avg = (pick: (e: StoredEvaluation) => number) =>
+    n === 0 ? 0 : evaluations.reduce((sum, e) => sum + pick(e), 0) / n;
+
+  return {
+    totalEvaluated: n,
+    avgScore: avg((e) => e.overallScore),
+    verdictDistribution: {
+      pass: evaluations.filter((e) => e.verdict === 'PASS').length,
+      fail: evaluations.filter((e) => e.verdict === 'FAIL').length,
+      reviewRequired: evaluations.filter((e) => e.verdict === 'REVIEW_REQUIRED').length,
+    },
+    avgCriticalIssues: avg((e) => e.criticalIssuesCount),
+    avgMajorIssues: avg((e) => e.majorIssuesCount),
+    avgMinorIssues: avg((e) => e.minorIssuesCount),
+    topCriticalIssues: topIssues(evaluations.flatMap((e) => e.criticalIssues), 10),
+    topMajorIssues: topIssues(evaluations.flatMap((e) => e.majorIssues), 10),
+    recommendationDistribution: evaluations.reduce(
+      (acc, e) => {
+        acc[e.recommendation] = (acc[e.recommendation] || 0) + 1;
+        return acc;
+      },
+      {} as Record<Recommendation, number>
+    ),
+    confidenceDistribution: evaluations.reduce(
+      (acc, e) => {
+        acc[e.confidence] = (acc[e.confidence] || 0) + 1;
+        return acc;
+      },
+      {} as Record<Confidence, number>
+    ),
+  };
+}
+
+/**
+ * Issues reported in more than one experiment
+ */
+function commonIssues(
+  names: string[],
+  issueLists: string[][]
+): ComparisonReport['commonCriticalIssues'] {
+  const byIssue = new Map<string, { frequency: number; experiments: Set<string> }>();
+  issueLists.forEach((issues, i) => {
+    for (const issue of issues) {
+      const entry = byIssue.get(issue) ?? { frequency: 0, experiments: new Set<string>() };
+      entry.frequency++;
+      entry.experiments.add(names[i]);
+      byIssue.set(issue, entry);
+    }
+  });
+
+  return [...byIssue.entries()]
+    .filter(([, entry]) => entry.experiments.size > 1)
+    .map(([issue, entry]) => ({ issue, frequency: entry.frequency, affectedExperiments: [...entry.experiments] }))
+    .sort((a, b) => b.frequency - a.frequency)
+    .slice(0, 20);
+}
+
+/**
+ * Dimension groups whose pass rate dropped against the baseline
+ */
+function groupRegressions(baseline: AnalysisReport, candidate: AnalysisReport): string[] {
+  const findings: string[] = [];
+  const dimensions: Array<[string, (report: AnalysisReport) => DimensionBreakdown]> = [
+    ['language', (r) => r.byLanguage],
+    ['court', (r) => r.byCourt],
+    ['decision type', (r) => r.byDecisionType],
+    ['length', (r) => r.byLength],
+  ];
+
+  for (const [label, pick] of dimensions) {
+    const before = pick(baseline).groups;
+    for (const group of pick(candidate).groups) {
+      const previous = before.find((g) => g.label === group.label);
+      if (!previous || previous.count < MIN_GROUP_SIZE || group.count < MIN_GROUP_SIZE) continue;
+      const drop = previous.passRate - group.passRate;
+      if (drop >= GROUP_DROP_THRESHOLD) {
+        findings.push(
+          `${candidate.experimentId}: pass rate for ${label} ${group.label} dropped ` +
+          `${previous.passRate.toFixed(1)}% → ${group.passRate.toFixed(1)}% (n=${group.count})`
+        );
+      }
+    }
+  }
+  return findings;
 }
 
-export async function exportReportToMarkdown(report: any, outputPath: string): Promise<void> {
-  throw new Error('Report export not yet implemented');
+/**
+ * Compare stored experiments
+ *
+ * @param experimentRefs - Stored experiment IDs or directories (first = baseline)
+ * @returns Comparison report
+ */
+export async function generateComparisonReport(experimentRefs: string[]): Promise<ComparisonReport> {
+  const experiments = await Promise.all(experimentRefs.map((ref) => findExperiment(ref)));
+  const evaluations = await Promise.all(experiments.map((e) => loadStoredEvaluations(e)));
+
+  const names = experiments.map((e) => e.experimentId);
+  const stats = evaluations.map(aggregateStats);
+  const analyses = evaluations.map((evals, i) => analyzeExperiment(evals, names[i]));
+
+  const passRate = (s: AggregateStats) =>
+    s.totalEvaluated === 0 ? 0 : (s.verdictDistribution.pass / s.totalEvaluated) * 100;
+  const last = stats.length - 1;
+  const best = stats.reduce((bestIndex, s, i) => (s.avgScore > stats[bestIndex].avgScore ? i : bestIndex), 0);
+
+  // Recommendations: overall deltas against the baseline, then group-level drops
+  const recommendations: string[] = [];
+  for (let i = 1; i < stats.length; i++) {
+    const scoreDiff = stats[i].avgScore - stats[0].avgScore;
+    const passDiff = passRate(stats[i]) - passRate(stats[0]);
+    recommendations.push(
+      `${names[i]} vs ${names[0]}: avg score ${scoreDiff >= 0 ? '+' : ''}${scoreDiff.toFixed(1)}, ` +
+      `pass rate ${passDiff >= 0 ? '+' : ''}${passDiff.toFixed(1)} pts`
+    );
+    recommendations.push(...groupRegressions(analyses[0], analyses[i]));
+  }
+  if (new Set(experiments.map((e) => e.jobType)).size > 1) {
+    recommendations.push('⚠️ Experiments cover different job types: scores are not directly comparable');
+  }
+  if (new Set(experiments.map((e) => path.basename(e.testSet ?? ''))).size > 1) {
+    recommendations.push('⚠️ Experiments used different test sets: differences may come from the decisions, not the extraction');
+  }
+
+  return {
+    experiments: experiments.map((e, i) => ({
+      id: e.experimentId,
+      name: e.experimentId,
+      metadata: e.metadata,
+      stats: stats[i],
+    })),
+    comparisons: {
+      scoreDiff: stats[last].avgScore - stats[0].avgScore,
+      passRateDiff: passRate(stats[last]) - passRate(stats[0]),
+      betterExperiment: names[best],
+    },
+    commonCriticalIssues: commonIssues(names, evaluations.map((evals) => evals.flatMap((e) => e.criticalIssues))),
+    commonMajorIssues: commonIssues(names, evaluations.map((evals) => evals.flatMap((e) => e.majorIssues))),
+    recommendations,
+    analyses,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Write a comparison report as markdown
+ */
+export async function exportReportToMarkdown(report: ComparisonReport, outputPath: string): Promise<void> {
+  const lines = [
+    '# Extraction Evaluation Comparison Report',
+    '',
+    `Generated: ${report.generatedAt}`,
+    '',
+    '## Experiments',
+    '',
+    '| Experiment | Job | Model | Prompt Version | Evaluated | Avg Score | Pass | Fail | Review |',
+    '|------------|-----|-------|----------------|-----------|-----------|------|------|--------|',
+    ...report.experiments.map((e) => {
+      const v = e.stats.verdictDistribution;
+      return `| ${e.name} | ${e.metadata.jobType} | ${e.metadata.model} | ${e.metadata.promptVersion ?? '-'} | ` +
+        `${e.stats.totalEvaluated} | ${e.stats.avgScore.toFixed(1)} | ${v.pass} | ${v.fail} | ${v.reviewRequired} |`;
+    }),
+    '',
+    `**Best average score:** ${report.comparisons.betterExperiment}`,
+    '',
+    '## Findings',
+    '',
+    ...report.recommendations.map((r) => `- ${r}`),
+    '',
+  ];
+
+  for (const [title, issues] of [
+    ['Common Critical Issues', report.commonCriticalIssues],
+    ['Common Major Issues', report.commonMajorIssues],
+  ] as const) {
+    if (issues.length === 0) continue;
+    lines.push(`## ${title}`, '', '| Issue | Frequency | Experiments |', '|-------|-----------|-------------|');
+    for (const i of issues) {
+      lines.push(`| ${i.issue.replace(/\|/g, '\\|')} | ${i.frequency} | ${i.affectedExperiments.join(', ')} |`);
+    }
+    lines.push('');
+  }
+
+  await fs.mkdir(path.dirname(outputPath), { recursive: true });
+  await fs.writeFile(outputPath, lines.join('\n'), 'utf-8');
+}
+
+/**
+ * Write a comparison report as HTML (per-dimension charts)
+ */
+export async function exportReportToHtml(report: ComparisonReport, outputPath: string): Promise<void> {
+  await fs.mkdir(path.dirname(outputPath), { recursive: true });
+  await fs.writeFile(
+    outputPath,
+    formatAsHtml(report.analyses, `Comparison: ${report.experiments.map((e) => e.name).join(' vs ')}`),
+    'utf-8'
+  );
 }
@@ -0,0 +1,327 @@
+/**
+ * Judge Agreement Runner
+ *
+ * Scores the same extraction set with several judges (default: GPT and
+ * Claude), or with repeated samples of one judge, and reports how much they
+ * agree (evals/analyzers/judge-agreement.ts). With hand-labelled verdicts,
+ * each judge is also calibrated against the human labels.
+ *
+ *   evals/agreement/<job-type>/<timestamp>/ratings.json     raw ratings (re-analyze with --ratings)
+ *   evals/agreement/<job-type>/<timestamp>/agreement.json   report
+ *   evals/agreement/<job-type>/<timestamp>/agreement.md     report for review
+ *
+ * Agreement runs are not logged to Braintrust.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { prepareEvaluationInputs } from './evaluation-runner.js';
+import { scoreExtraction as scoreWithGpt } from '../scorers/gpt5-judge-scorer.js';
+import { scoreExtraction as scoreWithClaude } from '../scorers/claude-judge-scorer.js';
+import { filterToExtractionFields } from '../utils/extraction-filter.js';
+import { analyzeAgreement, ratingKey } from '../analyzers/judge-agreement.js';
+import {
+  AgreementBreakdown,
+  AgreementReport,
+  DecisionEvaluationInput,
+  EvaluationResult,
+  HumanLabel,
+  JudgeConfig,
+  JudgeRating,
+  RaterAgreement,
+  RFTCSourceData,
+  Verdict,
+} from '../types.js';
+
+export type JudgeProvider = JudgeConfig['provider'];
+
+export interface AgreementOptions {
+  /** Judges to compare (default: gpt5 and claude) */
+  judges?: JudgeProvider[];
+  /** Runs per judge (default: 1; use 2+ with one judge for test-retest agreement) */
+  samples?: number;
+  timestamp?: string;
+  batch?: boolean;
+  sampleSize?: number;
+  parallelWorkers?: number;
+  /** Hand-labelled verdicts (JSON array of HumanLabel) */
+  human?: string;
+  /** Re-analyze a saved ratings.json instead of calling the judges */
+  ratings?: string;
+  /** Disagreements listed for review (default: 20) */
+  top?: number;
+}
+
+/**
+ * What the judge checks the extraction against: RFTC data for citation
+ * jobs, the decision markdown otherwise
+ */
+function groundTruthOf(input: DecisionEvaluationInput): string | RFTCSourceData {
+  const data = input.rftcData ?? input.sourceDocument;
+  if (!data) {
+    throw new Error(`No source document or RFTC data for ${input.decisionId}`);
+  }
+  return data;
+}
+
+const SCORERS: Record<JudgeProvider, (
+  input: DecisionEvaluationInput,
+  extraction: any,
+  judgePromptTemplate: string,
+  jobType: string
+) => Promise<EvaluationResult>> = {
+  gpt5: (input, extraction, template, jobType) => scoreWithGpt(
+    input.decisionId,
+    groundTruthOf(input),
+    extraction,
+    template,
+    jobType,
+    input.teachingInput
+  ),
+  claude: (input, extraction, template, jobType) => scoreWithClaude(
+    input.decisionId,
+    groundTruthOf(input),
+    extraction,
+    template,
+    jobType
+  ),
+};
+
+const VALID_VERDICTS = new Set<Verdict>(['PASS', 'FAIL', 'REVIEW_REQUIRED']);
+
+// ========================================
+// LOADING
+// ========================================
+
+async function loadHumanLabels(filePath: string): Promise<HumanLabel[]> {
+  const labels = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  if (!Array.isArray(labels)) {
+    throw new Error(`${filePath} must contain a JSON array of { decisionId, verdict, score? }`);
+  }
+  for (const label of labels) {
+    if (!label?.decisionId || !VALID_VERDICTS.has(label.verdict)) {
+      throw new Error(`Invalid human label in ${filePath}: ${JSON.stringify(label)}`);
+    }
+  }
+  return labels;
+}
+
+/**
+ * Rate every input with one judge, a few decisions at a time
+ */
+async function rateAll(
+  rater: string,
+  provider: JudgeProvider,
+  inputs: DecisionEvaluationInput[],
+  judgePromptTemplate: string,
+  jobType: string,
+  concurrency: number
+): Promise<JudgeRating[]> {
+  const ratings: JudgeRating[] = [];
+  let failed = 0;
+
+  for (let start = 0; start < inputs.length; start += concurrency) {
+    const batch = inputs.slice(start, start + concurrency);
+    const results = await Promise.all(batch.map(async (input): Promise<JudgeRating | null> => {
+      try {
+        const extraction = filterToExtractionFields(input.extractedData, jobType);
+        const evaluation = await SCORERS[provider](input, extraction, judgePromptTemplate, jobType);
+        return {
+          rater,
+          decisionId: input.decisionId,
+          language: input.metadata?.language || 'FR',
+          verdict: evaluation.verdict,
+          score: evaluation.score,
+          summary: evaluation.summary,
+        };
+      } catch (error: any) {
+        failed++;
+        console.error(`\n❌ ${rater} failed on ${input.decisionId}: ${error.message}`);
+        return null;
+      }
+    }));
+
+    ratings.push(...results.filter((r): r is JudgeRating => r !== null));
+    process.stdout.write(`\r   ${rater}: [${Math.min(start + concurrency, inputs.length)}/${inputs.length}]`);
+  }
+
+  console.log(`\n   ✅ ${rater}: ${ratings.length} rated${failed > 0 ? `, ${failed} failed` : ''}`);
+  return ratings;
+}
+
+// ========================================
+// REPORTING
+// ========================================
+
+function fmt(value: number | null, digits = 2): string {
+  return value === null ? 'n/a' : value.toFixed(digits);
+}
+
+function pct(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function agreementTable(rows: RaterAgreement[]): string[] {
+  return [
+    '| Raters | n | Verdict agreement | Kappa | Pearson | Spearman | Mean abs. score diff | Mean bias |',
+    '|--------|---|-------------------|-------|---------|----------|----------------------|-----------|',
+    ...rows.map((p) =>
+      `| ${p.raterA} vs ${p.raterB} | ${p.count} | ${pct(p.verdictAgreement)} | ${fmt(p.kappa)} | ` +
+      `${fmt(p.pearson)} | ${fmt(p.spearman)} | ${fmt(p.meanAbsScoreDiff, 1)} | ${fmt(p.meanScoreBias, 1)} |`
+    ),
+  ];
+}
+
+function breakdownTable(breakdown: AgreementBreakdown): string[] {
+  return [
+    `### By ${breakdown.dimension}`,
+    '',
+    '| Value | n | Verdict agreement | Kappa | Mean abs. score diff |',
+    '|-------|---|-------------------|-------|----------------------|',
+    ...breakdown.groups.map((g) =>
+      `| ${g.label} | ${g.count} | ${pct(g.verdictAgreement)} | ${fmt(g.kappa)} | ${g.meanAbsScoreDiff.toFixed(1)} |`
+    ),
+    '',
+  ];
+}
+
+function formatMarkdown(report: AgreementReport): string {
+  const lines = [
+    `# Judge Agreement: ${report.jobType}`,
+    '',
+    `- Generated: ${report.generatedAt}`,
+    `- Raters: ${report.raters.join(', ')}`,
+    `- Decisions: ${report.decisions}`,
+    '',
+    '## Pairwise Agreement',
+    '',
+    ...agreementTable(report.pairs),
+    '',
+  ];
+
+  if (report.calibration.length > 0) {
+    lines.push('## Calibration Against Human Labels', '', ...agreementTable(report.calibration), '');
+  }
+
+  lines.push(
+    '## Agreement by Dimension',
+    '',
+    ...breakdownTable(report.byLanguage),
+    ...breakdownTable(report.byCourt),
+    ...breakdownTable(report.byDecisionType),
+    ...breakdownTable(report.byLength),
+    '## Largest Disagreements (for human review)',
+    '',
+    `| Decision | Language | ${report.raters.join(' | ')} | Spread | Human |`,
+    `|----------|----------|${report.raters.map(() => '---').join('|')}|--------|-------|`,
+    ...report.topDisagreements.map((d) =>
+      `| ${d.decisionId} | ${d.language} | ` +
+      report.raters.map((r) => (d.verdicts[r] ? `${d.verdicts[r]} (${d.scores[r]})` : '-')).join(' | ') +
+      ` | ${d.scoreSpread} | ${d.humanVerdict ?? '-'} |`
+    ),
+  );
+
+  return lines.join('\n') + '\n';
+}
+
+// ========================================
+// RUNNER
+// ========================================
+
+/**
+ * Rate a job's extractions with several judges and report their agreement
+ */
+export async function runJudgeAgreement(
+  jobType: string,
+  options: AgreementOptions = {}
+): Promise<{ report: AgreementReport; outputDir: string }> {
+  const human = options.human ? await loadHumanLabels(options.human) : [];
+  let ratings: JudgeRating[];
+  let metadata: Map<string, Record<string, string | undefined>>;
+
+  if (options.ratings) {
+    // Re-analyze saved ratings (no judge calls)
+    const saved = JSON.parse(await fs.readFile(options.ratings, 'utf-8'));
+    ratings = saved.ratings;
+    metadata = new Map(Object.entries(saved.metadata));
+    console.log(`\n📥 Loaded ${ratings.length} ratings from ${options.ratings}`);
+  } else {
+    const judges = options.judges?.length ? options.judges : (['gpt5', 'claude'] as JudgeProvider[]);
+    const samples = options.samples ?? 1;
+    const raters = judges.flatMap((judge) =>
+      samples === 1 ? [{ name: judge, judge }] : Array.from({ length: samples }, (_, i) => ({ name: `${judge}#${i + 1}`, judge }))
+    );
+    if (new Set(raters.map((r) => r.name)).size < 2) {
+      throw new Error('Need at least 2 raters: two different judges, or one judge with --samples 2 or more');
+    }
+
+    console.log(`\n⚖️  Judge agreement for ${jobType}: ${raters.map((r) => r.name).join(', ')}\n`);
+
+    const { evaluationInputs, judgePromptTemplate } = await prepareEvaluationInputs(
+      jobType,
+      options.timestamp,
+      options.batch ? 'results' : 'concurrent/results',
+      options.sampleSize,
+      new Set(human.map((h) => h.decisionId))
+    );
+
+    metadata = new Map(evaluationInputs.map((input) => [
+      ratingKey(input.decisionId, input.metadata?.language || 'FR'),
+      {
+        language: input.metadata?.language,
+        court_ecli_code: input.metadata?.court_ecli_code,
+        decision_type_ecli_code: input.metadata?.decision_type_ecli_code,
+        length_category: input.metadata?.length_category,
+      },
+    ]));
+
+    console.log(`\n🎯 Rating ${evaluationInputs.length} decisions with ${raters.length} raters...\n`);
+    ratings = [];
+    for (const rater of raters) {
+      ratings.push(...await rateAll(
+        rater.name,
+        rater.judge,
+        evaluationInputs,
+        judgePromptTemplate,
+        jobType,
+        options.parallelWorkers ?? 5
+      ));
+    }
+  }
+
+  const report = analyzeAgreement(jobType, ratings, metadata, human, options.top ?? 20);
+
+  // Console summary
+  console.log('\n📊 Pairwise agreement:');
+  for (const p of report.pairs) {
+    console.log(
+      `   ${`${p.raterA} vs ${p.raterB}`.padEnd(24)} kappa ${fmt(p.kappa)}  ` +
+      `verdicts ${pct(p.verdictAgreement)}  pearson ${fmt(p.pearson)}  (n=${p.count})`
+    );
+  }
+  if (report.calibration.length > 0) {
+    console.log('\n🎯 Calibration against human labels:');
+    for (const c of report.calibration) {
+      console.log(
+        `   ${c.raterA.padEnd(24)} kappa ${fmt(c.kappa)}  verdicts ${pct(c.verdictAgreement)}  ` +
+        `score bias ${fmt(c.meanScoreBias, 1)}  (n=${c.count})`
+      );
+    }
+  }
+  const verdictDisagreements = report.topDisagreements.filter((d) => d.verdictsDiffer).length;
+  console.log(`\n🔍 ${verdictDisagreements} of the top ${report.topDisagreements.length} disagreements differ on verdict`);
+
+  // Write outputs
+  const outputDir = path.join('evals', 'agreement', jobType, report.generatedAt.replace(/[:.]/g, '-'));
+  await fs.mkdir(outputDir, { recursive: true });
+  await fs.writeFile(
+    path.join(outputDir, 'ratings.json'),
+    JSON.stringify({ jobType, ratings, metadata: Object.fromEntries(metadata) }, null, 2),
+    'utf-8'
+  );
+  await fs.writeFile(path.join(outputDir, 'agreement.json'), JSON.stringify(report, null, 2), 'utf-8');
+  await fs.writeFile(path.join(outputDir, 'agreement.md'), formatMarkdown(report), 'utf-8');
+  console.log(`\n💾 Report saved to: ${outputDir}/`);
+
+  return { report, outputDir };
+}
@@ -15,6 +15,7 @@ import { getJudgePromptFile } from '../config/job-prompt-map.js';
 import { loadJudgePrompt } from '../utils/prompt-loader.js';
 import { generateEnhancedExperimentName, generateExperimentName } from '../utils/experiment-naming.js';
 import { filterToExtractionFields } from '../utils/extraction-filter.js';
+import { experimentDir, saveExperiment, toStoredEvaluation } from '../store/experiment-store.js';
 import {
   EvalOptions,
   EvaluationResult,
@@ -23,6 +24,7 @@ import {
   ExperimentMetadata,
   GroundTruthData,
   RFTCSourceData,
+  StoredEvaluation,
 } from '../types.js';
 
 /**
@@ -64,6 +66,236 @@ export async function runEvaluation(
   // Using Azure GPT-4.1 as LLM judge
   console.log(`🤖 Using LLM Judge: Azure GPT-4.1\n`);
 
+  const { evaluationInputs, judgePromptTemplate, metadata, resultsDir } = await prepareEvaluationInputs(
+    jobType,
+    timestamp,
+    baseDir,
+    options.sampleSize
+  );
+
+  // Create Braintrust experiment with enhanced naming (includes config params)
+  let experimentName: string;
+  if (metadata.experimentConfig) {
+    // Enhanced naming with reasoningEffort, maxTokens, etc.
+    experimentName = generateEnhancedExperimentName(jobType, {
+      model: metadata.experimentConfig.model,
+      reasoningEffort: metadata.experimentConfig.reasoningEffort,
+      maxCompletionTokens: metadata.experimentConfig.maxCompletionTokens,
+      verbosity: metadata.experimentConfig.verbosity,
+      temperature: metadata.experimentConfig.temperature,
+    });
+    console.log(`\n🧪 Creating Braintrust experiment: ${experimentName}`);
+    console.log(`   Using enhanced naming with config parameters`);
+  } else {
+    // Fallback to legacy naming (for old results without experimentConfig)
+    experimentName = generateExperimentName(jobType, metadata.model);
+    console.log(`\n🧪 Creating Braintrust experiment: ${experimentName}`);
+    console.log(`   ⚠️  Using legacy naming (experimentConfig not found in summary.json)`);
+  }
+
+  const experiment = await createExperiment(
+    'belgian-legal-extraction', // Project name
+    experimentName,
+    {
+      jobType,
+      model: metadata.model,
+      extractionDate: metadata.extractionDate,
+      totalRecords: metadata.totalRecords,
+      sampleSize: options.sampleSize,
+      // Include full experiment config for traceability
+      experimentConfig: metadata.experimentConfig,
+    }
+  );
+
+  console.log(`✅ Experiment created`);
+
+  console.log(`\n🎯 Evaluating ${evaluationInputs.length} decisions...\n`);
+
+  // Determine concurrency
+  const concurrency = 100; // Default to 5 parallel workers
+  console.log(`   Using ${concurrency} parallel workers\n`);
+
+  // Run evaluations in parallel batches
+  const evaluations: EvaluationResult[] = [];
+  const storedEvaluations: StoredEvaluation[] = [];
+  const progress: EvaluationProgress = {
+    total: evaluationInputs.length,
+    completed: 0,
+    failed: 0,
+    startTime: new Date(),
+  };
+
+  // Process in batches
+  for (let batchStart = 0; batchStart < evaluationInputs.length; batchStart += concurrency) {
+    const batch = evaluationInputs.slice(batchStart, batchStart + concurrency);
+
+    // Process batch in parallel
+    const batchPromises = batch.map(async (input, batchIndex) => {
+      const globalIndex = batchStart + batchIndex;
+
+      try {
+        // Filter extraction data to remove metadata (judge should only see model output)
+        const extractionOnly = filterToExtractionFields(input.extractedData, jobType);
+
+        // Determine ground truth data based on job type
+        const groundTruthData = input.rftcData || input.sourceDocument!;
+
+        // Score the extraction with job type and language
+        const evaluation = await evaluateSingleDecision(
+          input.decisionId,
+          extractionOnly,  // Pass filtered data (no metadata)
+          groundTruthData,  // Either RFTC data or markdown
+          judgePromptTemplate,
+          jobType,
+          input.metadata?.language || 'FR',
+          scoreExtraction,  // Pass the selected scorer function
+          input.teachingInput  // Pass teaching input for classify-legal-issues
+        );
+
+        // Log to Braintrust with FULL data (metadata preserved for clustering/analysis)
+        const scores = extractScoresForBraintrust(evaluation);
+        logEvaluation(
+          experiment,
+          {
+            decisionId: input.decisionId,
+            sourceDocument: input.sourceDocument,
+            extractedData: input.extractedData,  // Full data with metadata
+            url: input.metadata?.url,
+            rftcData: input.rftcData,  // RFTC data (transformed HTML + dependencies)
+          },
+          evaluation,
+          scores,
+          input.metadata // Pass full metadata for aggregation/analysis
+        );
+
+        progress.completed++;
+
+        // Display progress
+        const percent = Math.round((progress.completed / evaluationInputs.length) * 100);
+        process.stdout.write(
+          `\r[${progress.completed}/${evaluationInputs.length}] (${percent}%) Last: ${input.decisionId.substring(0, 35)}...`
+        );
+
+        return { success: true, evaluation, input };
+      } catch (error: any) {
+        progress.failed++;
+        console.error(`\n❌ Error evaluating ${input.decisionId}: ${error.message}`);
+        console.error(`   Stack: ${error.stack}`);
+        return { success: false, error: error.message, input };
+      }
+    });
+
+    // Wait for batch to complete
+    const batchResults = await Promise.all(batchPromises);
+
+    // Collect successful evaluations
+    for (const result of batchResults) {
+      if (result.success && result.evaluation) {
+        evaluations.push(result.evaluation);
+        storedEvaluations.push(toStoredEvaluation(result.input, result.evaluation));
+      }
+    }
+
+    // Small delay between batches to respect rate limits
+    if (batchStart + concurrency < evaluationInputs.length) {
+      await new Promise((resolve) => setTimeout(resolve, 500)); // 500ms between batches
+    }
+  }
+
+  console.log(`\n\n✅ Evaluation complete!`);
+  console.log(`   Completed: ${progress.completed}/${progress.total}`);
+  console.log(`   Failed: ${progress.failed}`);
+
+  // Calculate summary stats
+  const avgScore =
+    evaluations.reduce((sum, e) => sum + e.score, 0) /
+    evaluations.length;
+  const passCount = evaluations.filter((e) => e.verdict === 'PASS').length;
+  const failCount = evaluations.filter((e) => e.verdict === 'FAIL').length;
+  const reviewCount = evaluations.filter((e) => e.verdict === 'REVIEW_REQUIRED').length;
+
+  console.log(`\n📊 Summary Statistics:`);
+  console.log(`   Average Score: ${avgScore.toFixed(1)}/100`);
+  console.log(`   Verdict Distribution:`);
+  console.log(`     ✅ PASS: ${passCount} (${((passCount / evaluations.length) * 100).toFixed(1)}%)`);
+  console.log(`     ❌ FAIL: ${failCount} (${((failCount / evaluations.length) * 100).toFixed(1)}%)`);
+  console.log(`     ⚠️  REVIEW: ${reviewCount} (${((reviewCount / evaluations.length) * 100).toFixed(1)}%)`);
+
+  // Always record the run in the local experiment store (offline analysis)
+  const stored = await saveExperiment(
+    {
+      experimentId: experimentName,
+      jobType,
+      model: metadata.model,
+      promptVersion: metadata.promptVersion ?? null,
+      testSet: options.testSet ?? null,
+      judge: options.judge?.provider ?? 'gpt5',
+      resultsDir,
+      sampleSize: options.sampleSize ?? null,
+      failed: progress.failed,
+      metadata,
+    },
+    storedEvaluations
+  );
+  console.log(`\n🗄️  Stored as experiment: ${stored.experimentId}`);
+
+  // Save local results if requested (job-first directory structure)
+  if (options.saveLocal !== false) {
+    const outputDir = options.outputDir || experimentDir(jobType, stored.experimentId);
+    await saveLocalResults(evaluations, outputDir, metadata);
+    console.log(`\n💾 Results saved to: ${outputDir}`);
+  }
+
+  // Summarize experiment in Braintrust
+  await summarizeExperiment(experiment);
+
+  // Automatically run analysis and display results
+  console.log('\n📊 Running automatic analysis...\n');
+  try {
+    const { analyzeStoredExperiment } = await import('../analyzers/experiment-analyzer.js');
+    await analyzeStoredExperiment(stored.experimentId);
+  } catch (error: any) {
+    console.warn('⚠️  Could not run automatic analysis:', error.message);
+    console.warn('   You can run it manually: npm run analyze-results --', stored.experimentId);
+  }
+
+  return {
+    evaluations,
+    experimentId: stored.experimentId,
+    metadata,
+  };
+}
+
+/**
+ * Entity key of an extraction result (teaching_id for classify-legal-issues, else decision ID)
+ */
+export function entityKey(extracted: any): string {
+  return extracted.teaching_id || extracted.data?.teaching_id ||
+    extracted.decision_id || extracted.decisionId || extracted.internal_decision_id;
+}
+
+/**
+ * Load the judge prompt, extraction results and source documents of a job,
+ * and build one evaluation input per decision
+ *
+ * @param jobType - Job type to evaluate
+ * @param timestamp - Optional specific timestamp, or use latest
+ * @param baseDir - 'concurrent/results' or 'results' (batch)
+ * @param sampleSize - Evaluate the first N decisions only
+ * @param include - Entity keys (see entityKey) to evaluate even when outside the sample
+ */
+export async function prepareEvaluationInputs(
+  jobType: string,
+  timestamp: string | undefined,
+  baseDir: string,
+  sampleSize?: number,
+  include?: Set<string>
+): Promise<{
+  evaluationInputs: DecisionEvaluationInput[];
+  judgePromptTemplate: string;
+  metadata: ExperimentMetadata;
+  resultsDir: string;
+}> {
   // Load judge prompt for this job type
   const promptFile = getJudgePromptFile(jobType);
   const judgePromptTemplate = await loadJudgePrompt(promptFile);
@@ -84,11 +316,18 @@ export async function runEvaluation(
   // Validate results
   validateExtractionResults(data);
 
-  // Apply sample size if specified
+  // Apply sample size if specified (plus any decisions that must be included)
   let decisionsToEvaluate = data;
-  if (options.sampleSize && options.sampleSize < data.length) {
-    decisionsToEvaluate = data.slice(0, options.sampleSize);
-    console.log(`\n📊 Sampling ${options.sampleSize} decisions for evaluation`);
+  if (sampleSize && sampleSize < data.length) {
+    decisionsToEvaluate = data.slice(0, sampleSize);
+    console.log(`\n📊 Sampling ${sampleSize} decisions for evaluation`);
+  }
+  if (include && include.size > 0) {
+    const extra = data.filter((d) => !decisionsToEvaluate.includes(d) && include.has(entityKey(d)));
+    if (extra.length > 0) {
+      decisionsToEvaluate = [...decisionsToEvaluate, ...extra];
+      console.log(`   Added ${extra.length} required decisions outside the sample`);
+    }
   }
 
   console.log(`   Decisions to evaluate: ${decisionsToEvaluate.length}`);
@@ -140,42 +379,6 @@ export async function runEvaluation(
     console.log(`✅ Loaded ${sourceDocuments.size} source documents`);
   }
 
-  // Create Braintrust experiment with enhanced naming (includes config params)
-  let experimentName: string;
-  if (metadata.experimentConfig) {
-    // Enhanced naming with reasoningEffort, maxTokens, etc.
-    experimentName = generateEnhancedExperimentName(jobType, {
-      model: metadata.experimentConfig.model,
-      reasoningEffort: metadata.experimentConfig.reasoningEffort,
-      maxCompletionTokens: metadata.experimentConfig.maxCompletionTokens,
-      verbosity: metadata.experimentConfig.verbosity,
-      temperature: metadata.experimentConfig.temperature,
-    });
-    console.log(`\n🧪 Creating Braintrust experiment: ${experimentName}`);
-    console.log(`   Using enhanced naming with config parameters`);
-  } else {
-    // Fallback to legacy naming (for old results without experimentConfig)
-    experimentName = generateExperimentName(jobType, metadata.model);
-    console.log(`\n🧪 Creating Braintrust experiment: ${experimentName}`);
-    console.log(`   ⚠️  Using legacy naming (experimentConfig not found in summary.json)`);
-  }
-
-  const experiment = await createExperiment(
-    'belgian-legal-extraction', // Project name
-    experimentName,
-    {
-      jobType,
-      model: metadata.model,
-      extractionDate: metadata.extractionDate,
-      totalRecords: metadata.totalRecords,
-      sampleSize: options.sampleSize,
-      // Include full experiment config for traceability
-      experimentConfig: metadata.experimentConfig,
-    }
-  );
-
-  console.log(`✅ Experiment created`);
-
   // Prepare evaluation inputs
   const evaluationInputs: DecisionEvaluationInput[] = [];
 
@@ -292,143 +495,7 @@ export async function runEvaluation(
     }
   }
 
-  console.log(`\n🎯 Evaluating ${evaluationInputs.length} decisions...\n`);
-
-  // Determine concurrency
-  const concurrency = 100; // Default to 5 parallel workers
-  console.log(`   Using ${concurrency} parallel workers\n`);
-
-  // Run evaluations in parallel batches
-  const evaluations: EvaluationResult[] = [];
-  const progress: EvaluationProgress = {
-    total: evaluationInputs.length,
-    completed: 0,
-    failed: 0,
-    startTime: new Date(),
-  };
-
-  // Process in batches
-  for (let batchStart = 0; batchStart < evaluationInputs.length; batchStart += concurrency) {
-    const batch = evaluationInputs.slice(batchStart, batchStart + concurrency);
-
-    // Process batch in parallel
-    const batchPromises = batch.map(async (input, batchIndex) => {
-      const globalIndex = batchStart + batchIndex;
-
-      try {
-        // Filter extraction data to remove metadata (judge should only see model output)
-        const extractionOnly = filterToExtractionFields(input.extractedData, jobType);
-
-        // Determine ground truth data based on job type
-        const groundTruthData = input.rftcData || input.sourceDocument!;
-
-        // Score the extraction with job type and language
-        const evaluation = await evaluateSingleDecision(
-          input.decisionId,
-          extractionOnly,  // Pass filtered data (no metadata)
-          groundTruthData,  // Either RFTC data or markdown
-          judgePromptTemplate,
-          jobType,
-          input.metadata?.language || 'FR',
-          scoreExtraction,  // Pass the selected scorer function
-          input.teachingInput  // Pass teaching input for classify-legal-issues
-        );
-
-        // Log to Braintrust with FULL data (metadata preserved for clustering/analysis)
-        const scores = extractScoresForBraintrust(evaluation);
-        logEvaluation(
-          experiment,
-          {
-            decisionId: input.decisionId,
-            sourceDocument: input.sourceDocument,
-            extractedData: input.extractedData,  // Full data with metadata
-            url: input.metadata?.url,
-            rftcData: input.rftcData,  // RFTC data (transformed HTML + dependencies)
-          },
-          evaluation,
-          scores,
-          input.metadata // Pass full metadata for aggregation/analysis
-        );
-
-        progress.completed++;
-
-        // Display progress
-        const percent = Math.round((progress.completed / evaluationInputs.length) * 100);
-        process.stdout.write(
-          `\r[${progress.completed}/${evaluationInputs.length}] (${percent}%) Last: ${input.decisionId.substring(0, 35)}...`
-        );
-
-        return { success: true, evaluation, input };
-      } catch (error: any) {
-        progress.failed++;
-        console.error(`\n❌ Error evaluating ${input.decisionId}: ${error.message}`);
-        console.error(`   Stack: ${error.stack}`);
-        return { success: false, error: error.message, input };
-      }
-    });
-
-    // Wait for batch to complete
-    const batchResults = await Promise.all(batchPromises);
-
-    // Collect successful evaluations
-    for (const result of batchResults) {
-      if (result.success && result.evaluation) {
-        evaluations.push(result.evaluation);
-      }
-    }
-
-    // Small delay between batches to respect rate limits
-    if (batchStart + concurrency < evaluationInputs.length) {
-      await new Promise((resolve) => setTimeout(resolve, 500)); // 500ms between batches
-    }
-  }
-
-  console.log(`\n\n✅ Evaluation complete!`);
-  console.log(`   Completed: ${progress.completed}/${progress.total}`);
-  console.log(`   Failed: ${progress.failed}`);
-
-  // Calculate summary stats
-  const avgScore =
-    evaluations.reduce((sum, e) => sum + e.score, 0) /
-    evaluations.length;
-  const passCount = evaluations.filter((e) => e.verdict === 'PASS').length;
-  const failCount = evaluations.filter((e) => e.verdict === 'FAIL').length;
-  const reviewCount = evaluations.filter((e) => e.verdict === 'REVIEW_REQUIRED').length;
-
-  console.log(`\n📊 Summary Statistics:`);
-  console.log(`   Average Score: ${avgScore.toFixed(1)}/100`);
-  console.log(`   Verdict Distribution:`);
-  console.log(`     ✅ PASS: ${passCount} (${((passCount / evaluations.length) * 100).toFixed(1)}%)`);
-  console.log(`     ❌ FAIL: ${failCount} (${((failCount / evaluations.length) * 100).toFixed(1)}%)`);
-  console.log(`     ⚠️  REVIEW: ${reviewCount} (${((reviewCount / evaluations.length) * 100).toFixed(1)}%)`);
-
-  // Save local results if requested (job-first directory structure)
-  if (options.saveLocal !== false) {
-    const outputDir =
-      options.outputDir ||
-      path.join(process.cwd(), 'evals', 'results', jobType, experimentName);
-    await saveLocalResults(evaluations, outputDir, metadata);
-    console.log(`\n💾 Results saved to: ${outputDir}`);
-  }
-
-  // Summarize experiment in Braintrust
-  await summarizeExperiment(experiment);
-
-  // Automatically run analysis and display results
-  console.log('\n📊 Running automatic analysis...\n');
-  try {
-    const { analyzeExperimentFromBraintrust } = await import('../analyzers/experiment-analyzer.js');
-    await analyzeExperimentFromBraintrust(experimentName);
-  } catch (error: any) {
-    console.warn('⚠️  Could not run automatic analysis:', error.message);
-    console.warn('   You can run it manually: npm run analyze-results --', experimentName);
-  }
-
-  return {
-    evaluations,
-    experimentId: experimentName,
-    metadata,
-  };
+  return { evaluationInputs, judgePromptTemplate, metadata, resultsDir };
 }
 
 /**
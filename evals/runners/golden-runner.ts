@@ -0,0 +1,282 @@
+/**
+ * Golden-Set Regression Runner
+ *
+ * Compares a job's outputs with hand-labelled gold JSONs, computes
+ * precision / recall / F1 per field (evals/config/golden-fields.ts) and
+ * checks them against a pinned baseline:
+ *
+ *   evals/golden-sets/<job-type>/*.json        gold records
+ *   evals/golden-sets/<job-type>.baseline.json  baseline metrics (--save-baseline)
+ *   evals/golden-results/<job-type>/<ts>.json   reports (+ .md)
+ *
+ * The check fails when any metric drops more than the threshold below the
+ * baseline. Unlike judge scores, the metrics only change when the outputs do.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { GOLDEN_FIELDS, getGoldenJobTypes } from '../config/golden-fields.js';
+import { GOLDEN_SETS_DIR, loadGoldenSet, loadOutputRecords } from '../loaders/golden-set-loader.js';
+import { getResultsByTimestamp, JobResultLoader } from '../../src/utils/jobResultLoader.js';
+import { compareField, computeMetrics } from '../scorers/field-matchers.js';
+import {
+  FieldMetrics,
+  GoldenRecordResult,
+  GoldenSetReport,
+  MetricRegression,
+  RegressionCheck,
+} from '../types.js';
+
+export interface GoldenSetOptions {
+  /** Result timestamp (default: latest) */
+  timestamp?: string;
+  /** Results directory (extracted-data.json or full-data run), overrides timestamp */
+  resultsDir?: string;
+  /** Load batch results (results/) instead of concurrent results */
+  batch?: boolean;
+  /** Gold directory (default: evals/golden-sets/<job-type>) */
+  goldDir?: string;
+  /** Baseline report (default: evals/golden-sets/<job-type>.baseline.json) */
+  baseline?: string;
+  /** Maximum allowed drop of any metric, 0-1 (default: 0.02) */
+  threshold?: number;
+  /** Pin this run's metrics as the new baseline */
+  saveBaseline?: boolean;
+}
+
+const METRICS: Array<MetricRegression['metric']> = ['precision', 'recall', 'f1'];
+
+// ========================================
+// SCORING
+// ========================================
+
+/**
+ * Compare outputs with the gold records, field by field
+ */
+function scoreGoldenSet(
+  jobType: string,
+  outputs: any[],
+  gold: Map<string, any>
+): Pick<GoldenSetReport, 'matchedRecords' | 'missingOutputs' | 'fields' | 'records'> {
+  const spec = GOLDEN_FIELDS[jobType];
+
+  const byKey = new Map<string, any>();
+  for (const record of outputs) {
+    const key = spec.keyOf(record);
+    if (key && gold.has(key) && !byKey.has(key)) byKey.set(key, record);
+  }
+
+  const totals = new Map(spec.fields.map((f) => [f.name, { tp: 0, fp: 0, fn: 0 }]));
+  const records: GoldenRecordResult[] = [];
+  const missingOutputs: string[] = [];
+
+  for (const [key, goldRecord] of gold) {
+    const output = byKey.get(key) ?? null;
+    if (!output) missingOutputs.push(key);
+
+    const result: GoldenRecordResult = { key, found: output !== null, fields: {} };
+    for (const field of spec.fields) {
+      const comparison = compareField(field.matcher, output, goldRecord);
+      const total = totals.get(field.name)!;
+      total.tp += comparison.truePositives;
+      total.fp += comparison.falsePositives;
+      total.fn += comparison.falseNegatives;
+      result.fields[field.name] = comparison;
+    }
+    records.push(result);
+  }
+
+  const fields: Record<string, FieldMetrics> = {};
+  for (const [name, total] of totals) {
+    fields[name] = computeMetrics(total.tp, total.fp, total.fn);
+  }
+
+  return { matchedRecords: byKey.size, missingOutputs, fields, records };
+}
+
+/**
+ * Metrics that dropped more than the threshold below the baseline
+ */
+function checkRegressions(
+  fields: Record<string, FieldMetrics>,
+  baseline: { path: string; fields: Record<string, FieldMetrics> } | null,
+  threshold: number
+): RegressionCheck {
+  const regressions: MetricRegression[] = [];
+
+  for (const [field, current] of Object.entries(fields)) {
+    const previous = baseline?.fields[field];
+    if (!previous) continue;
+    for (const metric of METRICS) {
+      const delta = current[metric] - previous[metric];
+      // Rounded so float noise never trips an exact-threshold drop
+      if (Number((-delta).toFixed(6)) > threshold) {
+        regressions.push({ field, metric, baseline: previous[metric], current: current[metric], delta });
+      }
+    }
+  }
+
+  return {
+    baselinePath: baseline?.path ?? null,
+    threshold,
+    regressions,
+    passed: regressions.length === 0,
+  };
+}
+
+// ========================================
+// REPORTING
+// ========================================
+
+function pct(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function formatMarkdown(report: GoldenSetReport): string {
+  const lines = [
+    `# Golden-Set Report: ${report.jobType}`,
+    '',
+    `- Generated: ${report.generatedAt}`,
+    `- Results: \`${report.resultsDir}\``,
+    `- Gold: \`${report.goldDir}\` (${report.goldRecords} records, ${report.matchedRecords} with output)`,
+    `- Baseline: ${report.regression.baselinePath ? `\`${report.regression.baselinePath}\`` : 'none'}`,
+    `- Result: ${report.regression.passed ? '✅ PASS' : `❌ FAIL (${report.regression.regressions.length} regressions)`}`,
+    '',
+    '| Field | Precision | Recall | F1 | TP | FP | FN |',
+    '|-------|-----------|--------|----|----|----|----|',
+    ...Object.entries(report.fields).map(([name, m]) =>
+      `| ${name} | ${pct(m.precision)} | ${pct(m.recall)} | ${pct(m.f1)} | ${m.truePositives} | ${m.falsePositives} | ${m.falseNegatives} |`
+    ),
+  ];
+
+  if (report.regression.regressions.length > 0) {
+    lines.push('', `## Regressions (threshold ${pct(report.regression.threshold)})`, '');
+    for (const r of report.regression.regressions) {
+      lines.push(`- ${r.field} ${r.metric}: ${pct(r.baseline)} → ${pct(r.current)} (${(r.delta * 100).toFixed(1)} pts)`);
+    }
+  }
+
+  if (report.missingOutputs.length > 0) {
+    lines.push('', '## Gold Records Without Output', '', ...report.missingOutputs.map((k) => `- ${k}`));
+  }
+
+  const errors = report.records.filter((r) =>
+    Object.values(r.fields).some((f) => f.missing.length > 0 || f.unexpected.length > 0)
+  );
+  if (errors.length > 0) {
+    lines.push('', '## Differences', '');
+    for (const record of errors) {
+      lines.push(`### ${record.key}`, '');
+      for (const [name, f] of Object.entries(record.fields)) {
+        for (const item of f.missing) lines.push(`- ${name} missing: ${item}`);
+        for (const item of f.unexpected) lines.push(`- ${name} unexpected: ${item}`);
+      }
+      lines.push('');
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// ========================================
+// RUNNER
+// ========================================
+
+/**
+ * Run the golden set of a job and write the regression report
+ */
+export async function runGoldenSet(jobType: string, options: GoldenSetOptions = {}): Promise<GoldenSetReport> {
+  if (!GOLDEN_FIELDS[jobType]) {
+    throw new Error(
+      `No golden-set fields configured for job type: ${jobType}. ` +
+      `Configured job types: ${getGoldenJobTypes().join(', ')}. ` +
+      `To add one, edit evals/config/golden-fields.ts`
+    );
+  }
+  const threshold = options.threshold ?? 0.02;
+  const goldDir = options.goldDir ?? path.join(GOLDEN_SETS_DIR, jobType);
+  const baselinePath = options.baseline ?? path.join(GOLDEN_SETS_DIR, `${jobType}.baseline.json`);
+
+  console.log(`\n🥇 Golden-set evaluation: ${jobType}\n`);
+
+  // Load gold records and outputs
+  const { gold, warnings } = await loadGoldenSet(jobType, GOLDEN_FIELDS[jobType], goldDir);
+  for (const warning of warnings) console.warn(`⚠️  ${warning}`);
+
+  const baseDir = options.batch ? 'results' : 'concurrent/results';
+  const resultsDir = options.resultsDir
+    ?? (options.timestamp
+      ? await getResultsByTimestamp(jobType, options.timestamp, baseDir)
+      : await JobResultLoader.findLatestResultsDirectory(jobType, baseDir));
+  const outputs = await loadOutputRecords(resultsDir);
+
+  console.log(`📥 ${gold.size} gold records from ${goldDir}`);
+  console.log(`📥 ${outputs.length} output records from ${resultsDir}\n`);
+
+  // Score and compare with the baseline
+  const scored = scoreGoldenSet(jobType, outputs, gold);
+
+  let baseline: { path: string; fields: Record<string, FieldMetrics> } | null = null;
+  try {
+    const content = JSON.parse(await fs.readFile(baselinePath, 'utf-8'));
+    baseline = { path: baselinePath, fields: content.fields ?? {} };
+  } catch (error: any) {
+    if (error.code !== 'ENOENT' || options.baseline) {
+      throw new Error(`Failed to load baseline ${baselinePath}: ${error.message}`);
+    }
+  }
+
+  const report: GoldenSetReport = {
+    jobType,
+    resultsDir,
+    goldDir,
+    generatedAt: new Date().toISOString(),
+    goldRecords: gold.size,
+    matchedRecords: scored.matchedRecords,
+    missingOutputs: scored.missingOutputs,
+    fields: scored.fields,
+    regression: checkRegressions(scored.fields, baseline, threshold),
+    records: scored.records,
+  };
+
+  // Console summary
+  for (const [name, m] of Object.entries(report.fields)) {
+    const previous = baseline?.fields[name];
+    const trend = previous ? ` (baseline F1 ${pct(previous.f1)})` : '';
+    console.log(`   ${name.padEnd(18)} P ${pct(m.precision).padStart(6)}  R ${pct(m.recall).padStart(6)}  F1 ${pct(m.f1).padStart(6)}${trend}`);
+  }
+  if (report.missingOutputs.length > 0) {
+    console.log(`\n⚠️  ${report.missingOutputs.length} gold records have no output (counted as misses)`);
+  }
+
+  if (!baseline) {
+    console.log('\n⚪ No baseline yet: run with --save-baseline to pin these metrics');
+  } else if (report.regression.passed) {
+    console.log(`\n✅ No metric dropped more than ${pct(threshold)} below the baseline`);
+  } else {
+    console.log(`\n❌ ${report.regression.regressions.length} regressions:`);
+    for (const r of report.regression.regressions) {
+      console.log(`   ${r.field} ${r.metric}: ${pct(r.baseline)} → ${pct(r.current)}`);
+    }
+  }
+
+  // Write reports
+  const outputDir = path.join('evals', 'golden-results', jobType);
+  await fs.mkdir(outputDir, { recursive: true });
+  const fileBase = path.join(outputDir, report.generatedAt.replace(/[:.]/g, '-'));
+  await fs.writeFile(`${fileBase}.json`, JSON.stringify(report, null, 2), 'utf-8');
+  await fs.writeFile(`${fileBase}.md`, formatMarkdown(report), 'utf-8');
+  console.log(`\n💾 Report saved to: ${fileBase}.json (.md)`);
+
+  if (options.saveBaseline) {
+    await fs.writeFile(baselinePath, JSON.stringify({
+      jobType,
+      savedAt: report.generatedAt,
+      resultsDir,
+      fields: report.fields,
+    }, null, 2), 'utf-8');
+    console.log(`📌 Baseline saved to: ${baselinePath}`);
+  }
+
+  return report;
+}
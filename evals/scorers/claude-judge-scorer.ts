@@ -7,13 +7,13 @@
 
 import { formatJudgePrompt } from '../utils/prompt-loader.js';
 import { callClaudeJudge } from '../config/claude-judge.js';
-import { EvaluationResult, Verdict, Recommendation, Confidence, GroundTruthData } from '../types.js';
+import { EvaluationResult, Verdict, Recommendation, Confidence, GroundTruthData, RFTCSourceData } from '../types.js';
 
 /**
  * Score a single extraction using Claude judge
  *
  * @param decisionId - ECLI identifier
- * @param groundTruthData - Ground truth data (full text OR snippets)
+ * @param groundTruthData - Ground truth data (full text, snippets or RFTC data)
  * @param extractedJSON - Extracted data object
  * @param judgePromptTemplate - The loaded judge prompt markdown content
  * @param jobType - Optional job type for context
@@ -21,7 +21,7 @@ import { EvaluationResult, Verdict, Recommendation, Confidence, GroundTruthData
  */
 export async function scoreExtraction(
   decisionId: string,
-  groundTruthData: GroundTruthData,
+  groundTruthData: GroundTruthData | RFTCSourceData,
   extractedJSON: any,
   judgePromptTemplate: string,
   jobType?: string
@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { FieldMatcher } from '../types.js';
+import { compareField, computeMetrics, normalizeText, textSimilarity } from './field-matchers.js';
+
+const parties = (record: any) => record.parties.map((text: string) => ({ text }));
+
+const names: FieldMatcher = { kind: 'fuzzy', items: parties };
+
+const eclis: FieldMatcher = {
+  kind: 'set',
+  items: (record) => record.citations.map((c: any) => ({ key: c.type, text: c.ecli })),
+};
+
+const count: FieldMatcher = { kind: 'count', value: (record) => record.count };
+
+describe('text similarity', () => {
+  it('normalizes case, accents and punctuation', () => {
+    assert.equal(normalizeText('  Société Générale, S.A. '), 'societe generale s a');
+  });
+
+  it('tolerates typos and word order', () => {
+    assert.ok(textSimilarity('Jean Dupont', 'Jean Dupond') >= 0.8);
+    assert.equal(textSimilarity('Dupont Jean', 'Jean Dupont'), 1);
+    assert.ok(textSimilarity('Jean Dupont', 'Marie Claes') < 0.5);
+  });
+});
+
+describe('compareField', () => {
+  it('matches fuzzy items one to one', () => {
+    const result = compareField(
+      names,
+      { parties: ['Jean Dupond', 'Jean Dupont', 'Belfius'] },
+      { parties: ['Jean Dupont', 'Marie Claes'] }
+    );
+    assert.equal(result.truePositives, 1);
+    assert.equal(result.falsePositives, 2);
+    assert.equal(result.falseNegatives, 1);
+    assert.deepEqual(result.missing, ['Marie Claes']);
+  });
+
+  it('respects a custom fuzzy threshold', () => {
+    const strict: FieldMatcher = { kind: 'fuzzy', items: parties, threshold: 0.95 };
+    const result = compareField(strict, { parties: ['Jean Dupond'] }, { parties: ['Jean Dupont'] });
+    assert.equal(result.truePositives, 0);
+  });
+
+  it('requires exact text and the same key for set items', () => {
+    const result = compareField(
+      eclis,
+      { citations: [{ type: 'PRECEDENT', ecli: 'ecli:be:cass:2020:arr.1' }, { type: 'PROCEDURAL', ecli: 'ECLI:BE:CASS:2021:ARR.2' }] },
+      { citations: [{ type: 'PRECEDENT', ecli: 'ECLI:BE:CASS:2020:ARR.1' }, { type: 'PRECEDENT', ecli: 'ECLI:BE:CASS:2021:ARR.2' }] }
+    );
+    assert.equal(result.truePositives, 1);
+    assert.deepEqual(result.unexpected, ['PROCEDURAL: ECLI:BE:CASS:2021:ARR.2']);
+    assert.deepEqual(result.missing, ['PRECEDENT: ECLI:BE:CASS:2021:ARR.2']);
+  });
+
+  it('compares counts', () => {
+    assert.deepEqual(compareField(count, { count: 5 }, { count: 3 }), {
+      truePositives: 3,
+      falsePositives: 2,
+      falseNegatives: 0,
+      missing: [],
+      unexpected: ['2 more than 3'],
+    });
+  });
+
+  it('misses every gold item without an output record', () => {
+    const result = compareField(names, null, { parties: ['Jean Dupont', 'Marie Claes'] });
+    assert.equal(result.falseNegatives, 2);
+    assert.equal(compareField(count, null, { count: 4 }).falseNegatives, 4);
+  });
+});
+
+describe('computeMetrics', () => {
+  it('computes precision, recall and F1', () => {
+    const metrics = computeMetrics(2, 2, 0);
+    assert.equal(metrics.precision, 0.5);
+    assert.equal(metrics.recall, 1);
+    assert.ok(Math.abs(metrics.f1 - 2 / 3) < 1e-9);
+  });
+
+  it('scores an empty field on both sides as perfect', () => {
+    const metrics = computeMetrics(0, 0, 0);
+    assert.deepEqual([metrics.precision, metrics.recall, metrics.f1], [1, 1, 1]);
+  });
+
+  it('scores no overlap as zero', () => {
+    assert.equal(computeMetrics(0, 3, 2).f1, 0);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Field Matchers (golden-set harness)
+ *
+ * Deterministic field-level comparison of a job output against a
+ * hand-labelled gold JSON. No LLM involved: the same output always gets
+ * the same score, whichever judge model is current.
+ */
+
+import { FieldItem, FieldMatcher, FieldMetrics } from '../types.js';
+
+export interface FieldComparison {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  missing: string[];
+  unexpected: string[];
+}
+
+const DEFAULT_FUZZY_THRESHOLD = 0.8;
+
+// ========================================
+// TEXT SIMILARITY
+// ========================================
+
+/**
+ * Lowercase, strip accents and punctuation, collapse whitespace
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function levenshteinRatio(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a.length || !b.length) return 0;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
+
+function tokenDice(a: string, b: string): number {
+  const left = new Set(a.split(' ').filter(Boolean));
+  const right = new Set(b.split(' ').filter(Boolean));
+  if (left.size === 0 || right.size === 0) return 0;
+  const shared = [...left].filter((t) => right.has(t)).length;
+  return (2 * shared) / (left.size + right.size);
+}
+
+/**
+ * 0-1 similarity tolerant to typos (edit distance) and word order (token overlap)
+ */
+export function textSimilarity(a: string, b: string): number {
+  const left = normalizeText(a);
+  const right = normalizeText(b);
+  return Math.max(levenshteinRatio(left, right), tokenDice(left, right));
+}
+
+// ========================================
+// MATCHING
+// ========================================
+
+function label(item: FieldItem): string {
+  return item.key !== undefined ? `${item.key}: ${item.text}` : item.text;
+}
+
+/**
+ * One-to-one matching, best pairs first (greedy)
+ */
+function matchItems(output: FieldItem[], gold: FieldItem[], fuzzy: boolean, threshold: number): FieldComparison {
+  const pairs: Array<{ o: number; g: number; score: number }> = [];
+  output.forEach((o, oi) => {
+    gold.forEach((g, gi) => {
+      if ((o.key ?? '') !== (g.key ?? '')) return;
+      const score = fuzzy
+        ? textSimilarity(o.text, g.text)
+        : normalizeText(o.text) === normalizeText(g.text) ? 1 : 0;
+      if (score >= (fuzzy ? threshold : 1)) pairs.push({ o: oi, g: gi, score });
+    });
+  });
+  pairs.sort((a, b) => b.score - a.score || a.g - b.g || a.o - b.o);
+
+  const usedOutput = new Set<number>();
+  const usedGold = new Set<number>();
+  for (const pair of pairs) {
+    if (usedOutput.has(pair.o) || usedGold.has(pair.g)) continue;
+    usedOutput.add(pair.o);
+    usedGold.add(pair.g);
+  }
+
+  return {
+    truePositives: usedGold.size,
+    falsePositives: output.length - usedOutput.size,
+    falseNegatives: gold.length - usedGold.size,
+    missing: gold.filter((_, i) => !usedGold.has(i)).map(label),
+    unexpected: output.filter((_, i) => !usedOutput.has(i)).map(label),
+  };
+}
+
+/**
+ * Compare one field of an output record with its gold record
+ *
+ * @param output Output record, null when the job produced none (everything in gold is missed)
+ */
+export function compareField(matcher: FieldMatcher, output: any | null, gold: any): FieldComparison {
+  if (matcher.kind === 'count') {
+    const expected = matcher.value(gold);
+    const actual = output ? matcher.value(output) : 0;
+    return {
+      truePositives: Math.min(actual, expected),
+      falsePositives: Math.max(0, actual - expected),
+      falseNegatives: Math.max(0, expected - actual),
+      missing: actual < expected ? [`${expected - actual} fewer than ${expected}`] : [],
+      unexpected: actual > expected ? [`${actual - expected} more than ${expected}`] : [],
+    };
+  }
+
+  const goldItems = matcher.items(gold);
+  const outputItems = output ? matcher.items(output) : [];
+  return matcher.kind === 'fuzzy'
+    ? matchItems(outputItems, goldItems, true, matcher.threshold ?? DEFAULT_FUZZY_THRESHOLD)
+    : matchItems(outputItems, goldItems, false, 1);
+}
+
+/**
+ * Precision / recall / F1 from summed counts (empty field on both sides = 1.0)
+ */
+export function computeMetrics(truePositives: number, falsePositives: number, falseNegatives: number): FieldMetrics {
+  const precision = truePositives + falsePositives === 0 ? 1 : truePositives / (truePositives + falsePositives);
+  const recall = truePositives + falseNegatives === 0 ? 1 : truePositives / (truePositives + falseNegatives);
+  const f1 = precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+  return { truePositives, falsePositives, falseNegatives, precision, recall, f1 };
+}
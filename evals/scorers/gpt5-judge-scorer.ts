@@ -7,7 +7,7 @@
 
 import { formatJudgePrompt, isMapCitedDecisionsPrompt, isClassifyLegalIssuesPrompt } from '../utils/prompt-loader.js';
 import { callAzureJudge } from '../config/openai.js';
-import { EvaluationResult, Verdict, Recommendation, Confidence } from '../types.js';
+import { EvaluationResult, Verdict, Recommendation, Confidence, GroundTruthData, RFTCSourceData } from '../types.js';
 
 /**
  * Map-cited-decisions specific evaluation result
@@ -31,7 +31,7 @@ export interface MapDecisionsEvaluation {
  * Score a single extraction using Azure GPT-4.1 judge
  *
  * @param decisionId - ECLI identifier
- * @param originalDocument - Source markdown text
+ * @param originalDocument - Source markdown text (or snippets / RFTC data)
  * @param extractedJSON - Extracted data object
  * @param judgePromptTemplate - The loaded judge prompt markdown content
  * @param jobType - Optional job type for context
@@ -40,7 +40,7 @@ export interface MapDecisionsEvaluation {
  */
 export async function scoreExtraction(
   decisionId: string,
-  originalDocument: string,
+  originalDocument: GroundTruthData | RFTCSourceData,
   extractedJSON: any,
   judgePromptTemplate: string,
   jobType?: string,
@@ -0,0 +1,164 @@
+/**
+ * Local Experiment Store
+ *
+ * Every evaluation run is recorded on disk, so analysis and comparison work
+ * offline (no Braintrust account or network access):
+ *
+ *   evals/results/experiments.jsonl                              one line per experiment
+ *   evals/results/<job-type>/<experiment-id>/evaluations.jsonl   one line per judged decision
+ *
+ * Both files are append-only JSONL; the experiment directory is shared with
+ * the evaluations.json / summary.json written by saveLocalResults.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  DecisionEvaluationInput,
+  EvaluationResult,
+  ExperimentQuery,
+  StoredEvaluation,
+  StoredExperiment,
+} from '../types.js';
+
+export const RESULTS_DIR = path.join('evals', 'results');
+export const EXPERIMENTS_INDEX = path.join(RESULTS_DIR, 'experiments.jsonl');
+
+/**
+ * Directory of a stored experiment
+ */
+export function experimentDir(jobType: string, experimentId: string): string {
+  return path.join(RESULTS_DIR, jobType, experimentId);
+}
+
+async function readJsonl<T>(filePath: string): Promise<T[]> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  return content
+    .split('\n')
+    .filter((line) => line.trim().length > 0)
+    .map((line) => JSON.parse(line));
+}
+
+// ========================================
+// WRITING
+// ========================================
+
+/**
+ * Store record of one judged decision
+ */
+export function toStoredEvaluation(input: DecisionEvaluationInput, evaluation: EvaluationResult): StoredEvaluation {
+  return {
+    decisionId: input.decisionId,
+    verdict: evaluation.verdict,
+    overallScore: evaluation.score,
+    productionReady: evaluation.verdict === 'PASS',
+    criticalIssuesCount: evaluation.criticalIssues.length,
+    majorIssuesCount: evaluation.majorIssues.length,
+    minorIssuesCount: evaluation.minorIssues.length,
+    recommendation: evaluation.recommendation,
+    confidence: evaluation.confidence,
+    language: input.metadata?.language,
+    decisionTypeEcliCode: input.metadata?.decision_type_ecli_code,
+    decisionTypeName: input.metadata?.decision_type_name,
+    courtEcliCode: input.metadata?.court_ecli_code,
+    courtName: input.metadata?.court_name,
+    decisionDate: input.metadata?.decision_date,
+    mdLength: input.metadata?.md_length,
+    lengthCategory: input.metadata?.length_category,
+    summary: evaluation.summary,
+    criticalIssues: evaluation.criticalIssues,
+    majorIssues: evaluation.majorIssues,
+    minorIssues: evaluation.minorIssues,
+  };
+}
+
+/**
+ * Record an experiment and its evaluations
+ *
+ * The ID gets a numeric suffix when it is already taken (experiment names
+ * only carry the date, so reruns on the same day would collide).
+ *
+ * @returns The stored experiment (with its final ID)
+ */
+export async function saveExperiment(
+  experiment: Omit<StoredExperiment, 'evaluated' | 'avgScore' | 'passRate' | 'createdAt'>,
+  evaluations: StoredEvaluation[]
+): Promise<StoredExperiment> {
+  const taken = new Set((await loadExperiments()).map((e) => e.experimentId));
+  let experimentId = experiment.experimentId;
+  for (let n = 2; taken.has(experimentId); n++) {
+    experimentId = `${experiment.experimentId}-${n}`;
+  }
+
+  const evaluated = evaluations.length;
+  const stored: StoredExperiment = {
+    ...experiment,
+    experimentId,
+    evaluated,
+    avgScore: evaluated === 0 ? 0 : evaluations.reduce((sum, e) => sum + e.overallScore, 0) / evaluated,
+    passRate: evaluated === 0 ? 0 : (evaluations.filter((e) => e.verdict === 'PASS').length / evaluated) * 100,
+    createdAt: new Date().toISOString(),
+  };
+
+  const dir = experimentDir(stored.jobType, experimentId);
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(
+    path.join(dir, 'evaluations.jsonl'),
+    evaluations.map((e) => JSON.stringify(e)).join('\n') + '\n',
+    'utf-8'
+  );
+  // Index last: an experiment is only listed once its evaluations are on disk
+  await fs.appendFile(EXPERIMENTS_INDEX, JSON.stringify(stored) + '\n', 'utf-8');
+
+  return stored;
+}
+
+// ========================================
+// QUERYING
+// ========================================
+
+/**
+ * Stored experiments matching a query, oldest first
+ */
+export async function loadExperiments(query: ExperimentQuery = {}): Promise<StoredExperiment[]> {
+  let experiments: StoredExperiment[];
+  try {
+    experiments = await readJsonl<StoredExperiment>(EXPERIMENTS_INDEX);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  return experiments
+    .filter((e) => !query.jobType || e.jobType === query.jobType)
+    .filter((e) => !query.model || e.model.toLowerCase() === query.model.toLowerCase())
+    .filter((e) => !query.promptVersion || (e.promptVersion ?? '').startsWith(query.promptVersion))
+    .filter((e) => !query.testSet || (e.testSet !== null && path.basename(e.testSet) === path.basename(query.testSet)))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Find a stored experiment by ID or by its directory (evals/results/<job-type>/<id>)
+ *
+ * @throws Error when the experiment is not in the store
+ */
+export async function findExperiment(ref: string): Promise<StoredExperiment> {
+  const experimentId = path.basename(ref.replace(/[/\\]+$/, ''));
+  const experiment = (await loadExperiments()).find((e) => e.experimentId === experimentId);
+  if (!experiment) {
+    throw new Error(
+      `Experiment not found in the local store: ${ref}\n` +
+      `List stored experiments with: npm run eval experiments`
+    );
+  }
+  return experiment;
+}
+
+/**
+ * Judged decisions of a stored experiment
+ */
+export async function loadStoredEvaluations(experiment: StoredExperiment): Promise<StoredEvaluation[]> {
+  return readJsonl<StoredEvaluation>(
+    path.join(experimentDir(experiment.jobType, experiment.experimentId), 'evaluations.jsonl')
+  );
+}
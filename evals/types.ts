@@ -88,6 +88,8 @@ export interface ExperimentMetadata {
   failedRecords: number;
   extractionDate: string;
   experimentConfig?: ExperimentConfig;
+  /** Prompt/schema version of the job run ("<promptHash>/<schemaHash>", from summary.json) */
+  promptVersion?: string;
 }
 
 /**
@@ -125,6 +127,9 @@ export interface EvalOptions {
 
   /** Judge configuration (defaults to Claude Sonnet 4.5) */
   judge?: JudgeConfig;
+
+  /** Test set the results were produced from (recorded in the local experiment store) */
+  testSet?: string;
 }
 
 /**
@@ -244,6 +249,10 @@ export interface ComparisonReport {
   }>;
 
   recommendations: string[];
+
+  /** Dimension breakdowns per experiment (same order as experiments) */
+  analyses: AnalysisReport[];
+
   generatedAt: string;
 }
 
@@ -415,3 +424,263 @@ export interface AnalysisReport {
 
   generatedAt: string;
 }
+
+// ========================================
+// GOLDEN-SET REGRESSION HARNESS
+// ========================================
+
+/**
+ * One comparable item of a field (a party, a provision, an ECLI, ...)
+ *
+ * Items only match when their keys are equal; `text` is compared fuzzily
+ * for fuzzy fields and exactly otherwise.
+ */
+export interface FieldItem {
+  key?: string;
+  text: string;
+}
+
+/**
+ * How one output field is compared against the gold JSON
+ * - set:   exact items (ECLIs, topic codes, document numbers)
+ * - fuzzy: text similarity >= threshold (party names, act names)
+ * - count: numbers (min(output, gold) count as true positives)
+ */
+export type FieldMatcher =
+  | { kind: 'set'; items: (record: any) => FieldItem[] }
+  | { kind: 'fuzzy'; items: (record: any) => FieldItem[]; threshold?: number }
+  | { kind: 'count'; value: (record: any) => number };
+
+export interface GoldenFieldSpec {
+  name: string;
+  description: string;
+  matcher: FieldMatcher;
+}
+
+/**
+ * Golden-set configuration of a job
+ */
+export interface GoldenJobSpec {
+  /** Key shared by an output record and its gold JSON */
+  keyOf: (record: any) => string | null;
+  fields: GoldenFieldSpec[];
+  /** Problems in a gold JSON (e.g. invalid codes), reported as warnings */
+  validateGold?: (gold: any) => string[];
+}
+
+/**
+ * Micro-averaged metrics of one field over the golden set
+ */
+export interface FieldMetrics {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+/**
+ * Per-record comparison (what was missed or invented)
+ */
+export interface GoldenRecordResult {
+  key: string;
+  /** False when the job produced no output for this gold record */
+  found: boolean;
+  fields: Record<string, {
+    truePositives: number;
+    falsePositives: number;
+    falseNegatives: number;
+    missing: string[];
+    unexpected: string[];
+  }>;
+}
+
+export interface MetricRegression {
+  field: string;
+  metric: 'precision' | 'recall' | 'f1';
+  baseline: number;
+  current: number;
+  delta: number;
+}
+
+export interface RegressionCheck {
+  baselinePath: string | null;
+  /** Maximum allowed drop of any metric (0-1) */
+  threshold: number;
+  regressions: MetricRegression[];
+  passed: boolean;
+}
+
+/**
+ * Golden-set report (evals/golden-results/<job>/<timestamp>.json)
+ */
+export interface GoldenSetReport {
+  jobType: string;
+  resultsDir: string;
+  goldDir: string;
+  generatedAt: string;
+  goldRecords: number;
+  matchedRecords: number;
+  /** Gold keys without output (all their gold items count as false negatives) */
+  missingOutputs: string[];
+  fields: Record<string, FieldMetrics>;
+  regression: RegressionCheck;
+  records: GoldenRecordResult[];
+}
+
+// ========================================
+// INTER-JUDGE AGREEMENT
+// ========================================
+
+/**
+ * One judge's rating of one decision
+ *
+ * Raters are judge providers ('gpt5', 'claude'), suffixed with the sample
+ * number when one judge is run several times ('gpt5#1', 'gpt5#2').
+ */
+export interface JudgeRating {
+  rater: string;
+  decisionId: string;
+  language: string;
+  verdict: Verdict;
+  score: number;
+  summary?: string;
+}
+
+/**
+ * Hand-labelled verdict (and optional score) used to calibrate the judges
+ */
+export interface HumanLabel {
+  decisionId: string;
+  /** Optional: matches every language version when omitted */
+  language?: string;
+  verdict: Verdict;
+  score?: number;
+  notes?: string;
+}
+
+/**
+ * Agreement between two raters (or a rater and the human labels)
+ */
+export interface RaterAgreement {
+  raterA: string;
+  raterB: string;
+  /** Decisions rated by both */
+  count: number;
+  /** Share of identical verdicts (0-1) */
+  verdictAgreement: number;
+  /** Cohen's kappa on Verdict (null when undefined, e.g. one verdict only) */
+  kappa: number | null;
+  /** Pearson correlation of scores */
+  pearson: number | null;
+  /** Spearman rank correlation of scores */
+  spearman: number | null;
+  /** Null when no decision has a score from both (human labels without scores) */
+  meanAbsScoreDiff: number | null;
+  /** Mean of raterA score - raterB score */
+  meanScoreBias: number | null;
+  /** confusion[verdictA][verdictB] */
+  confusion: Record<Verdict, Record<Verdict, number>>;
+}
+
+/**
+ * Agreement within one dimension value (e.g. one court), all rater pairs pooled
+ */
+export interface AgreementGroupStats {
+  label: string;
+  count: number;
+  verdictAgreement: number;
+  kappa: number | null;
+  meanAbsScoreDiff: number;
+}
+
+/**
+ * Agreement broken down by a metadata dimension (same dimensions as DimensionBreakdown)
+ */
+export interface AgreementBreakdown {
+  dimension: string;
+  groups: AgreementGroupStats[];
+}
+
+/**
+ * Decision the raters disagree on
+ */
+export interface Disagreement {
+  decisionId: string;
+  language: string;
+  verdicts: Record<string, Verdict>;
+  scores: Record<string, number>;
+  /** Max - min score across raters */
+  scoreSpread: number;
+  verdictsDiffer: boolean;
+  humanVerdict?: Verdict;
+  metadata: Record<string, string | undefined>;
+}
+
+/**
+ * Inter-judge agreement and calibration report
+ */
+export interface AgreementReport {
+  jobType: string;
+  raters: string[];
+  generatedAt: string;
+  decisions: number;
+  pairs: RaterAgreement[];
+  byLanguage: AgreementBreakdown;
+  byCourt: AgreementBreakdown;
+  byDecisionType: AgreementBreakdown;
+  byLength: AgreementBreakdown;
+  /** Verdict disagreements first, then largest score spread */
+  topDisagreements: Disagreement[];
+  /** Each rater against the human labels */
+  calibration: RaterAgreement[];
+}
+
+// ========================================
+// LOCAL EXPERIMENT STORE
+// ========================================
+
+/**
+ * Experiment entry in the local store (evals/results/experiments.jsonl)
+ */
+export interface StoredExperiment {
+  experimentId: string;
+  jobType: string;
+  model: string;
+  promptVersion: string | null;
+  testSet: string | null;
+  judge: string;
+  resultsDir: string;
+  sampleSize: number | null;
+  evaluated: number;
+  failed: number;
+  avgScore: number;
+  passRate: number; // Percentage
+  createdAt: string;
+  metadata: ExperimentMetadata;
+}
+
+/**
+ * One judged decision in the local store
+ * (evals/results/<job-type>/<experiment-id>/evaluations.jsonl)
+ */
+export interface StoredEvaluation extends ExperimentEvaluation {
+  summary: string;
+  criticalIssues: string[];
+  majorIssues: string[];
+  minorIssues: string[];
+}
+
+/**
+ * Filter for stored experiments (all given fields must match)
+ */
+export interface ExperimentQuery {
+  jobType?: string;
+  /** Model name (case-insensitive) */
+  model?: string;
+  /** Prompt version prefix ("<promptHash>" or "<promptHash>/<schemaHash>") */
+  promptVersion?: string;
+  /** Test set name or path (matched on file name) */
+  testSet?: string;
+}
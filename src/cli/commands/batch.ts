@@ -0,0 +1,193 @@
+import { DatabaseConfig } from '../../config/database.js';
+import { AzureConfig } from '../../config/azure.js';
+import { OpenAIConfig } from '../../config/openai.js';
+import { BatchJobRunner } from '../../core/BatchJobRunner.js';
+import { JobStatusTracker } from '../../core/JobStatusTracker.js';
+import { logger } from '../../utils/logger.js';
+import { CommandSpec } from '../framework.js';
+import { loadJobConfig } from '../discovery.js';
+
+/**
+ * Batch API commands: submit, status, process, list, test-connections
+ */
+
+const JOB_TYPE = { name: 'job-type', description: 'Job config in src/jobs/configs', complete: 'jobs' } as const;
+
+/**
+ * Load a job and create its batch runner (with fresh provider clients)
+ */
+async function createRunner(jobType: string): Promise<BatchJobRunner> {
+  // Reset client caches to pick up any .env changes
+  AzureConfig.resetClient();
+  OpenAIConfig.resetClient();
+
+  const config = await loadJobConfig(jobType);
+  return new BatchJobRunner(config);
+}
+
+export const submitCommand: CommandSpec = {
+  name: 'submit',
+  summary: 'Submit a new batch job',
+  positionals: [JOB_TYPE],
+  flags: [{ name: 'wait', type: 'boolean', description: 'Wait for completion and process results' }],
+  examples: ['npm run dev submit extract-comprehensive', 'npm run dev -- submit extract-comprehensive --wait'],
+  run: async (ctx) => {
+    const jobType = ctx.arg('job-type')!;
+    logger.info(`Submitting batch job: ${jobType}`);
+
+    const runner = await createRunner(jobType);
+    await runner.run({
+      waitForCompletion: ctx.boolean('wait'),
+      pollIntervalMs: 30000, // 30 seconds
+    });
+
+    return { data: await new JobStatusTracker(jobType).load() };
+  },
+};
+
+export const statusCommand: CommandSpec = {
+  name: 'status',
+  summary: 'Check status of a job',
+  positionals: [JOB_TYPE],
+  examples: ['npm run dev status extract-comprehensive'],
+  run: async (ctx) => {
+    const jobType = ctx.arg('job-type')!;
+    logger.info(`Checking status for: ${jobType}`);
+
+    const runner = await createRunner(jobType);
+    await runner.checkStatus();
+
+    return { data: await new JobStatusTracker(jobType).load() };
+  },
+};
+
+export const processCommand: CommandSpec = {
+  name: 'process',
+  summary: 'Download and process completed results',
+  positionals: [JOB_TYPE],
+  examples: ['npm run dev process extract-comprehensive'],
+  run: async (ctx) => {
+    const jobType = ctx.arg('job-type')!;
+    logger.info(`Processing results for: ${jobType}`);
+
+    const runner = await createRunner(jobType);
+    await runner.processResults();
+
+    return { data: await new JobStatusTracker(jobType).load() };
+  },
+};
+
+export const listCommand: CommandSpec = {
+  name: 'list',
+  summary: 'List all batch jobs and their statuses',
+  run: async () => {
+    logger.info('Listing all jobs');
+
+    const statuses = await JobStatusTracker.getAllStatuses();
+
+    if (statuses.size === 0) {
+      console.log('\nNo jobs found.');
+      return { data: [] };
+    }
+
+    console.log('\n📋 All Jobs:\n');
+
+    for (const [jobType, metadata] of statuses) {
+      const statusEmoji = {
+        pending: '⏳',
+        generated: '📝',
+        submitted: '🚀',
+        validating: '🔍',
+        in_progress: '⚙️',
+        finalizing: '🏁',
+        completed: '✅',
+        failed: '❌',
+        cancelled: '🚫',
+        processed: '✨',
+      }[metadata.status] || '❓';
+
+      console.log(`${statusEmoji} ${jobType}`);
+      console.log(`   Status: ${metadata.status}`);
+      console.log(`   Job ID: ${metadata.jobId}`);
+      console.log(`   Created: ${new Date(metadata.createdAt).toLocaleString()}`);
+
+      if (metadata.totalRecords) {
+        console.log(`   Records: ${metadata.recordsProcessed || 0}/${metadata.totalRecords}`);
+      }
+
+      if (metadata.azureBatchJobId) {
+        console.log(`   Azure Batch ID: ${metadata.azureBatchJobId}`);
+      }
+
+      if (metadata.errors.length > 0) {
+        console.log(`   Errors: ${metadata.errors.length}`);
+      }
+
+      console.log('');
+    }
+
+    return { data: [...statuses.entries()].map(([jobType, metadata]) => ({ ...metadata, jobType })) };
+  },
+};
+
+export const testConnectionsCommand: CommandSpec = {
+  name: 'test-connections',
+  summary: 'Test database and provider connections',
+  run: async () => {
+    console.log('\n🧪 Testing connections...\n');
+
+    // Test database
+    console.log('Testing PostgreSQL connection...');
+    const dbOk = await DatabaseConfig.testConnection();
+
+    if (dbOk) {
+      console.log('✅ Database connection successful\n');
+    } else {
+      console.log('❌ Database connection failed\n');
+    }
+
+    // Test Azure OpenAI
+    console.log('Testing Azure OpenAI configuration...');
+    const azureOk = AzureConfig.validate();
+
+    if (azureOk) {
+      console.log('✅ Azure OpenAI configuration valid\n');
+    } else {
+      console.log('⚠️  Azure OpenAI configuration invalid (optional)\n');
+    }
+
+    // Test standard OpenAI
+    console.log('Testing OpenAI configuration...');
+    const openaiOk = OpenAIConfig.validate();
+
+    if (openaiOk) {
+      console.log('✅ OpenAI configuration valid\n');
+    } else {
+      console.log('⚠️  OpenAI configuration invalid (optional)\n');
+    }
+
+    // At least one provider must be configured
+    if (!azureOk && !openaiOk) {
+      console.log('❌ No batch provider configured. Please configure either Azure OpenAI or OpenAI.\n');
+    }
+
+    const allOk = dbOk && (azureOk || openaiOk);
+    if (allOk) {
+      console.log('✅ All required connections successful!');
+      if (azureOk && openaiOk) {
+        console.log('   Both Azure and OpenAI providers available');
+      } else if (azureOk) {
+        console.log('   Azure OpenAI provider available');
+      } else {
+        console.log('   OpenAI provider available');
+      }
+    } else {
+      console.log('❌ Some required connections failed. Please check your .env file.');
+    }
+
+    return {
+      data: { database: dbOk, azure: azureOk, openai: openaiOk },
+      exitCode: allOk ? 0 : 1,
+    };
+  },
+};
@@ -0,0 +1,220 @@
+import path from 'path';
+import { ConcurrentRunner } from '../../concurrent/ConcurrentRunner.js';
+import { RetryOrchestrator } from '../../utils/retryOrchestrator.js';
+import { mergeRetryResults } from '../../utils/mergeRetryResults.js';
+import {
+  FAILURE_CLASSES,
+  FailureClass,
+  RETRY_REMEDIES,
+  RetryPolicyOverrides,
+  RetryRemedy,
+  printTriage,
+  resolveRetryPolicy,
+  triageRuns,
+} from '../../utils/failureTriage.js';
+import { CliUsageError, CommandContext, CommandSpec } from '../framework.js';
+import { assertJobType, loadJobConfig } from '../discovery.js';
+import { MAX_COST_FLAG, MAX_TOKENS_FLAG } from '../flags.js';
+
+/**
+ * Concurrent (non-batch) commands: concurrent, retry, triage, merge
+ */
+
+const JOB_TYPE = { name: 'job-type', description: 'Job config in src/jobs/configs', complete: 'jobs' } as const;
+
+const REMEDY_FLAG = {
+  name: 'remedy', type: 'string', repeatable: true, valueName: '<class>=<remedy>',
+  description: `Remedy for a failure class (${RETRY_REMEDIES.join(', ')})`,
+} as const;
+
+const ESCALATE_MODEL_FLAG = {
+  name: 'escalate-model', type: 'string', valueName: '<model>',
+  description: 'Model for the escalate-model remedy (default: job retryPolicy; without one, those failures go to manual review)',
+} as const;
+
+/**
+ * Retry policy overrides from --remedy and --escalate-model
+ */
+function policyFromFlags(ctx: CommandContext): RetryPolicyOverrides {
+  const remedies: Partial<Record<FailureClass, RetryRemedy>> = {};
+  for (const value of ctx.strings('remedy')) {
+    const [failureClass, remedy] = value.split('=');
+    if (!FAILURE_CLASSES.includes(failureClass as FailureClass) || !RETRY_REMEDIES.includes(remedy as RetryRemedy)) {
+      throw new CliUsageError(
+        `--remedy expects <class>=<remedy> with class one of ${FAILURE_CLASSES.join(', ')} ` +
+        `and remedy one of ${RETRY_REMEDIES.join(', ')}, got "${value}"`,
+        ctx.path
+      );
+    }
+    remedies[failureClass as FailureClass] = remedy as RetryRemedy;
+  }
+  return { remedies, escalationModel: ctx.string('escalate-model') };
+}
+
+export const concurrentCommand: CommandSpec = {
+  name: 'concurrent',
+  summary: 'Process decisions concurrently (fast, non-batch)',
+  positionals: [JOB_TYPE],
+  flags: [
+    {
+      name: 'resume-from', type: 'string', repeatable: true, valueName: '<dir>', complete: 'files',
+      description: 'Skip decisions with a JSON in this full-data run',
+    },
+    { name: 'only-changed', type: 'boolean', description: 'Only process new or changed decisions' },
+    { name: 'concurrency', type: 'integer', positive: true, valueName: '<n>', description: 'Concurrent requests (default: job config)' },
+    {
+      name: 'samples', type: 'integer', positive: true, valueName: '<n>',
+      description: 'Self-consistency samples per row (job must define selfConsistency)',
+    },
+    {
+      name: 'repair-attempts', type: 'integer', valueName: '<n>',
+      description: 'Repair prompts per row for truncated or schema-invalid output (default: job config or 2; 0 disables)',
+    },
+    MAX_COST_FLAG,
+    MAX_TOKENS_FLAG,
+  ],
+  examples: [
+    'npm run dev concurrent extract-comprehensive',
+    'npm run dev -- concurrent extract-comprehensive --only-changed',
+    'npm run dev -- concurrent extract-comprehensive --resume-from full-data/extract-comprehensive/2025-10-25T06-02-48-674Z',
+    'npm run dev -- concurrent extract-comprehensive --max-cost 25',
+    'npm run dev -- concurrent extract-legal-teachings --samples 3',
+    'npm run dev -- concurrent extract-legal-teachings --repair-attempts 0',
+  ],
+  run: async (ctx) => {
+    const repairAttempts = ctx.number('repair-attempts');
+    if (repairAttempts !== undefined && repairAttempts < 0) {
+      throw new CliUsageError('--repair-attempts must be 0 or more', ctx.path);
+    }
+    const config = await loadJobConfig(ctx.arg('job-type')!);
+    const runner = new ConcurrentRunner(config, {
+      resumeFrom: ctx.strings('resume-from'),
+      onlyChanged: ctx.boolean('only-changed'),
+      concurrencyLimit: ctx.number('concurrency'),
+      samples: ctx.number('samples'),
+      repairAttempts,
+      maxCostUsd: ctx.number('max-cost'),
+      maxTokens: ctx.number('max-tokens'),
+    });
+    return { data: await runner.run() };
+  },
+};
+
+export const retryCommand: CommandSpec = {
+  name: 'retry',
+  summary: 'Retry failed decisions from a specific run',
+  positionals: [JOB_TYPE, { name: 'timestamp', description: 'Run timestamp under full-data/<job-type>/' }],
+  flags: [
+    { name: 'dry-run', type: 'boolean', description: 'Analyze failures without retrying' },
+    { name: 'reason', type: 'string', valueName: '<text>', description: 'Only retry failures whose reason contains this text' },
+    {
+      name: 'class', type: 'string', repeatable: true, valueName: '<class>', choices: [...FAILURE_CLASSES],
+      description: 'Only retry failures of this class',
+    },
+    REMEDY_FLAG,
+    ESCALATE_MODEL_FLAG,
+    { name: 'concurrency', type: 'integer', positive: true, valueName: '<n>', description: 'Concurrent requests (default: job config)' },
+  ],
+  examples: [
+    'npm run dev retry extract-comprehensive 2025-10-25T06-02-48-674Z',
+    'npm run dev -- retry extract-comprehensive 2025-10-25T06-02-48-674Z --dry-run',
+    'npm run dev -- retry extract-comprehensive 2025-10-25T06-02-48-674Z --class timeout --class rate_limit',
+    'npm run dev -- retry extract-comprehensive 2025-10-25T06-02-48-674Z --escalate-model gpt-5 --remedy empty_output=retry',
+  ],
+  run: async (ctx) => {
+    const jobType = ctx.arg('job-type')!;
+    const timestamp = ctx.arg('timestamp')!;
+    await assertJobType(jobType);
+
+    await RetryOrchestrator.retryFailedDecisions(jobType, timestamp, {
+      dryRun: ctx.boolean('dry-run'),
+      filterReason: ctx.string('reason'),
+      failureClasses: ctx.strings('class') as FailureClass[],
+      policy: policyFromFlags(ctx),
+      concurrencyLimit: ctx.number('concurrency'),
+    });
+    return { data: { jobType, timestamp, dryRun: ctx.boolean('dry-run') } };
+  },
+};
+
+export const triageCommand: CommandSpec = {
+  name: 'triage',
+  summary: 'Classify failures by class and show the retry remedy for each',
+  description:
+    'Reads failures.json of the canonical run of each job (or the runs given with --run) and writes ' +
+    'triage-report.json and triage-report.md with counts per failure class, job, remedy and schema field.',
+  positionals: [{ name: 'job-type', description: 'Jobs to triage (default: jobs given with --run)', optional: true, variadic: true, complete: 'jobs' }],
+  flags: [
+    { name: 'base-dir', type: 'string', valueName: '<dir>', complete: 'files', description: 'Directory with <job>/<timestamp>/failures.json (default: full-data)' },
+    {
+      name: 'run', type: 'string', repeatable: true, valueName: '<job>=<dir>',
+      description: 'Run directory to use for a job instead of its canonical run (see: runs canonical)',
+    },
+    REMEDY_FLAG,
+    ESCALATE_MODEL_FLAG,
+    { name: 'output', type: 'string', valueName: '<dir>', complete: 'files', description: 'Report directory (default: triage-reports/<timestamp>)' },
+  ],
+  examples: [
+    'npm run dev triage extract-comprehensive extract-legal-teachings',
+    'npm run dev -- triage --run extract-comprehensive=full-data/extract-comprehensive/2025-10-25T06-02-48-674Z',
+  ],
+  run: async (ctx) => {
+    const runs: Record<string, string> = {};
+    for (const value of ctx.strings('run')) {
+      const separator = value.indexOf('=');
+      if (separator <= 0 || separator === value.length - 1) {
+        throw new CliUsageError(`--run expects <job>=<dir>, got "${value}"`, ctx.path);
+      }
+      runs[value.slice(0, separator)] = value.slice(separator + 1);
+    }
+    const jobs = [...new Set([...ctx.args('job-type'), ...Object.keys(runs)])];
+    if (jobs.length === 0) {
+      throw new CliUsageError('Give at least one job type or --run <job>=<dir>', ctx.path);
+    }
+    for (const job of jobs) await assertJobType(job);
+
+    const policy = policyFromFlags(ctx);
+    const outputDir = ctx.string('output') ?? path.join('triage-reports', new Date().toISOString().replace(/[:.]/g, '-'));
+    console.log('\n🩺 Triaging failures...\n');
+    const report = await triageRuns({ jobs, baseDir: ctx.string('base-dir'), runs, policy, outputDir });
+    printTriage(report, resolveRetryPolicy(policy));
+    console.log(`Report: ${path.join(outputDir, 'triage-report.md')}\n`);
+
+    return { data: { outputDir, total: report.total, byClass: report.byClass, byRemedy: report.byRemedy } };
+  },
+};
+
+export const mergeCommand: CommandSpec = {
+  name: 'merge',
+  summary: 'Merge successful retry JSONs into the original run',
+  positionals: [
+    JOB_TYPE,
+    { name: 'original-timestamp', description: 'Original run timestamp' },
+    { name: 'retry-timestamp', description: 'Retry run timestamp (e.g. <original>-retry-1)' },
+  ],
+  flags: [
+    { name: 'strict-versions', type: 'boolean', description: 'Refuse to merge a retry produced by another prompt/schema version' },
+    { name: 'ignore-versions', type: 'boolean', description: 'Merge without reporting a prompt/schema version mismatch' },
+  ],
+  examples: [
+    'npm run dev merge extract-comprehensive 2025-10-25T06-02-48-674Z 2025-10-25T06-02-48-674Z-retry-1',
+    'npm run dev -- merge extract-comprehensive 2025-10-25T06-02-48-674Z 2025-10-25T06-02-48-674Z-retry-1 --strict-versions',
+  ],
+  run: async (ctx) => {
+    const jobType = ctx.arg('job-type')!;
+    await assertJobType(jobType);
+    if (ctx.boolean('strict-versions') && ctx.boolean('ignore-versions')) {
+      throw new CliUsageError('Use either --strict-versions or --ignore-versions, not both', ctx.path);
+    }
+
+    const originalTimestamp = ctx.arg('original-timestamp')!;
+    const retryTimestamp = ctx.arg('retry-timestamp')!;
+    await mergeRetryResults(
+      jobType,
+      originalTimestamp,
+      retryTimestamp,
+      ctx.boolean('strict-versions') ? 'strict' : ctx.boolean('ignore-versions') ? 'ignore' : 'warn'
+    );
+    return { data: { jobType, originalTimestamp, retryTimestamp } };
+  },
+};
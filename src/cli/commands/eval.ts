@@ -0,0 +1,302 @@
+import { CliUsageError, CommandSpec } from '../framework.js';
+
+/**
+ * Evaluation commands: eval run, compare, list, experiments, test-connections, analyze, golden, agreement
+ *
+ * The implementations live in evals/commands.ts, outside the compiled
+ * src/ tree, and are loaded when an eval command runs (tsx only).
+ */
+
+interface EvalCommands {
+  runEval(
+    jobType: string,
+    timestamp: string | undefined,
+    options: { sampleSize?: number; parallelWorkers?: number; saveLocal?: boolean; batch?: boolean; testSet?: string }
+  ): Promise<unknown>;
+  compareExperiments(experimentRefs: string[]): Promise<unknown>;
+  listResults(jobType: string): Promise<unknown>;
+  listExperiments(query: { jobType?: string; model?: string; promptVersion?: string; testSet?: string }): Promise<unknown>;
+  testEvalConnections(): Promise<{ database: boolean; judge: boolean; braintrust: boolean }>;
+  analyzeExperiment(
+    experimentNameOrId: string,
+    options: { format: 'console' | 'json' | 'markdown' | 'html'; save: boolean; output?: string; braintrust?: boolean }
+  ): Promise<unknown>;
+  runGolden(
+    jobType: string,
+    options: {
+      timestamp?: string; resultsDir?: string; batch?: boolean; goldDir?: string;
+      baseline?: string; threshold?: number; saveBaseline?: boolean;
+    }
+  ): Promise<{ passed: boolean }>;
+  runAgreement(
+    jobType: string,
+    options: {
+      judges?: Array<'gpt5' | 'claude'>; samples?: number; timestamp?: string; batch?: boolean;
+      sampleSize?: number; parallelWorkers?: number; human?: string; ratings?: string; top?: number;
+    }
+  ): Promise<unknown>;
+}
+
+async function loadEvalCommands(): Promise<EvalCommands> {
+  const url = new URL('../../../evals/commands.js', import.meta.url).href;
+  try {
+    return await import(url);
+  } catch (error: any) {
+    if (error.code === 'ERR_MODULE_NOT_FOUND' && error.message.includes('evals/commands')) {
+      throw new Error('Eval commands are only available from source: npm run eval <job-type>');
+    }
+    throw error;
+  }
+}
+
+const JOB_TYPE = { name: 'job-type', description: 'Job type with a judge prompt in evals/config/job-prompt-map.ts', complete: 'jobs' } as const;
+
+const runCommand: CommandSpec = {
+  name: 'run',
+  summary: 'Evaluate the latest (or a specific) result set of a job',
+  positionals: [JOB_TYPE],
+  flags: [
+    { name: 'timestamp', type: 'string', valueName: '<ts>', description: 'Result timestamp to evaluate (default: latest)' },
+    { name: 'sample', type: 'integer', positive: true, valueName: '<n>', description: 'Evaluate the first n decisions' },
+    { name: 'workers', type: 'integer', positive: true, valueName: '<n>', description: 'Parallel workers (default: 5)' },
+    { name: 'batch', type: 'boolean', description: 'Evaluate batch results (results/) instead of concurrent results' },
+    { name: 'no-save', type: 'boolean', description: 'Do not save evaluations.json/summary.json (the experiment store is always written)' },
+    {
+      name: 'test-set', type: 'string', valueName: '<name>', complete: 'files',
+      description: 'Test set the results were produced from, recorded for `eval experiments --test-set`',
+    },
+  ],
+  examples: [
+    'npm run eval extract-comprehensive',
+    'npm run eval -- extract-comprehensive --sample 50 --workers 10',
+    'npm run eval -- extract-comprehensive --batch --timestamp 2025-10-18T22-45-00-000Z',
+    'npm run eval -- extract-comprehensive --test-set evals/test-sets/comprehensive-197.csv',
+  ],
+  run: async (ctx) => {
+    const evals = await loadEvalCommands();
+    const data = await evals.runEval(ctx.arg('job-type')!, ctx.string('timestamp'), {
+      sampleSize: ctx.number('sample'),
+      parallelWorkers: ctx.number('workers'),
+      saveLocal: ctx.boolean('no-save') ? false : undefined,
+      batch: ctx.boolean('batch') || undefined,
+      testSet: ctx.string('test-set'),
+    });
+    return { data };
+  },
+};
+
+const compareCommand: CommandSpec = {
+  name: 'compare',
+  summary: 'Compare stored experiments and write evals/comparison-report.md (+ .html)',
+  description: 'Works offline from the local experiment store. The first experiment is the baseline.',
+  positionals: [
+    { name: 'experiment', description: 'Stored experiment IDs or directories (at least 2)', variadic: true, complete: 'files' },
+  ],
+  examples: [
+    'npm run eval compare extract-comprehensive-gpt-5-mini-2025-10-24 extract-comprehensive-gpt-5-mini-2025-10-25',
+    'npm run eval compare evals/results/extract-comprehensive/exp1 evals/results/extract-comprehensive/exp2',
+  ],
+  run: async (ctx) => {
+    const refs = ctx.args('experiment');
+    if (refs.length < 2) {
+      throw new CliUsageError('Need at least 2 experiments to compare', ctx.path);
+    }
+    const evals = await loadEvalCommands();
+    return { data: await evals.compareExperiments(refs) };
+  },
+};
+
+const experimentsCommand: CommandSpec = {
+  name: 'experiments',
+  summary: 'List stored experiments by job, model, prompt version and test set',
+  description: 'Reads evals/results/experiments.jsonl, written by every `eval run`.',
+  flags: [
+    { name: 'job', type: 'string', valueName: '<job-type>', complete: 'jobs', description: 'Job type' },
+    { name: 'model', type: 'string', valueName: '<model>', description: 'Extraction model (case-insensitive)' },
+    { name: 'prompt-version', type: 'string', valueName: '<hash>', description: 'Prompt version prefix (<promptHash>[/<schemaHash>])' },
+    { name: 'test-set', type: 'string', valueName: '<name>', complete: 'files', description: 'Test set (matched on file name)' },
+  ],
+  examples: [
+    'npm run eval experiments',
+    'npm run eval -- experiments --job extract-comprehensive --model gpt-5-mini',
+    'npm run eval -- experiments --test-set comprehensive-197.csv --prompt-version 3f2a9c',
+  ],
+  run: async (ctx) => {
+    const evals = await loadEvalCommands();
+    const data = await evals.listExperiments({
+      jobType: ctx.string('job'),
+      model: ctx.string('model'),
+      promptVersion: ctx.string('prompt-version'),
+      testSet: ctx.string('test-set'),
+    });
+    return { data };
+  },
+};
+
+const listCommand: CommandSpec = {
+  name: 'list',
+  summary: 'List result timestamps available for evaluation',
+  positionals: [JOB_TYPE],
+  examples: ['npm run eval list extract-comprehensive'],
+  run: async (ctx) => {
+    const evals = await loadEvalCommands();
+    return { data: await evals.listResults(ctx.arg('job-type')!) };
+  },
+};
+
+const testConnectionsCommand: CommandSpec = {
+  name: 'test-connections',
+  summary: 'Test database, judge and Braintrust configuration',
+  run: async () => {
+    const evals = await loadEvalCommands();
+    const status = await evals.testEvalConnections();
+    const ok = status.database && status.judge && status.braintrust;
+    return { data: status, exitCode: ok ? 0 : 1 };
+  },
+};
+
+const analyzeCommand: CommandSpec = {
+  name: 'analyze',
+  summary: 'Analyze an experiment by language, court, decision type and length',
+  description:
+    'Reads the local experiment store (no network access). Use --braintrust for experiments that were ' +
+    'only logged to Braintrust (requires BRAINTRUST_API_KEY).',
+  positionals: [{ name: 'experiment', description: 'Stored experiment ID or directory (Braintrust name or ID with --braintrust)' }],
+  flags: [
+    {
+      name: 'format', type: 'string', valueName: '<type>', choices: ['console', 'json', 'markdown', 'html'],
+      description: 'Report format (default: console; html has per-dimension charts)',
+    },
+    { name: 'save', type: 'boolean', description: 'Save the report to a file' },
+    {
+      name: 'output', type: 'string', valueName: '<path>', complete: 'files',
+      description: 'Report path (default: evals/analysis/<experimentId>.<ext>)',
+    },
+    { name: 'braintrust', type: 'boolean', description: 'Fetch the experiment from Braintrust instead of the local store' },
+  ],
+  examples: [
+    'npm run analyze-results -- extract-comprehensive-gpt-5-mini-2025-10-24',
+    'npm run analyze-results -- extract-comprehensive-gpt-5-mini-2025-10-24 --format html --save',
+    'npm run analyze-results -- c2193b43-8eb3-4354-802f-adc51883fa72 --braintrust',
+  ],
+  run: async (ctx) => {
+    const evals = await loadEvalCommands();
+    const data = await evals.analyzeExperiment(ctx.arg('experiment')!, {
+      format: (ctx.string('format') ?? 'console') as 'console' | 'json' | 'markdown' | 'html',
+      save: ctx.boolean('save'),
+      output: ctx.string('output'),
+      braintrust: ctx.boolean('braintrust') || undefined,
+    });
+    return { data };
+  },
+};
+
+const goldenCommand: CommandSpec = {
+  name: 'golden',
+  summary: 'Score a job against hand-labelled gold JSONs and fail on metric regressions',
+  description:
+    'Deterministic precision/recall/F1 per field (evals/config/golden-fields.ts) against ' +
+    'evals/golden-sets/<job-type>/. Exits 1 when a metric drops more than --threshold below ' +
+    'the baseline (evals/golden-sets/<job-type>.baseline.json).',
+  positionals: [{ name: 'job-type', description: 'Job type with fields in evals/config/golden-fields.ts', complete: 'jobs' }],
+  flags: [
+    { name: 'timestamp', type: 'string', valueName: '<ts>', description: 'Result timestamp to score (default: latest)' },
+    {
+      name: 'results', type: 'string', valueName: '<dir>', complete: 'files',
+      description: 'Results directory (extracted-data.json or full-data run) instead of the latest',
+    },
+    { name: 'batch', type: 'boolean', description: 'Score batch results (results/) instead of concurrent results' },
+    { name: 'gold', type: 'string', valueName: '<dir>', complete: 'files', description: 'Gold directory (default: evals/golden-sets/<job-type>)' },
+    { name: 'baseline', type: 'string', valueName: '<path>', complete: 'files', description: 'Baseline metrics file' },
+    { name: 'threshold', type: 'number', valueName: '<0-1>', description: 'Maximum allowed metric drop (default: 0.02)' },
+    { name: 'save-baseline', type: 'boolean', description: 'Pin this run\'s metrics as the baseline' },
+  ],
+  examples: [
+    'npm run eval golden extract-cited-decisions',
+    'npm run eval -- golden map-provisions-standard --threshold 0.01',
+    'npm run eval -- golden extract-comprehensive --results full-data/extract-comprehensive/2025-12-01T10-00-00-000Z --save-baseline',
+  ],
+  run: async (ctx) => {
+    const threshold = ctx.number('threshold');
+    if (threshold !== undefined && (threshold < 0 || threshold > 1)) {
+      throw new CliUsageError('--threshold must be between 0 and 1', ctx.path);
+    }
+    const evals = await loadEvalCommands();
+    const data = await evals.runGolden(ctx.arg('job-type')!, {
+      timestamp: ctx.string('timestamp'),
+      resultsDir: ctx.string('results'),
+      batch: ctx.boolean('batch') || undefined,
+      goldDir: ctx.string('gold'),
+      baseline: ctx.string('baseline'),
+      threshold,
+      saveBaseline: ctx.boolean('save-baseline'),
+    });
+    return { data, exitCode: data.passed ? 0 : 1 };
+  },
+};
+
+const agreementCommand: CommandSpec = {
+  name: 'agreement',
+  summary: 'Compare judges (or repeated runs of one judge) on the same extractions',
+  description:
+    'Reports Cohen\'s kappa on verdicts, score correlation, agreement by language, court, decision type ' +
+    'and length, and the decisions the judges disagree on most. With --human, each judge is also ' +
+    'calibrated against hand-labelled verdicts. Not logged to Braintrust.',
+  positionals: [JOB_TYPE],
+  flags: [
+    {
+      name: 'judge', type: 'string', repeatable: true, valueName: '<judge>', choices: ['gpt5', 'claude'],
+      description: 'Judge to include (default: gpt5 and claude)',
+    },
+    { name: 'samples', type: 'integer', positive: true, valueName: '<n>', description: 'Runs per judge (default: 1)' },
+    { name: 'timestamp', type: 'string', valueName: '<ts>', description: 'Result timestamp to evaluate (default: latest)' },
+    { name: 'batch', type: 'boolean', description: 'Evaluate batch results (results/) instead of concurrent results' },
+    { name: 'sample', type: 'integer', positive: true, valueName: '<n>', description: 'Evaluate the first n decisions (plus human-labelled ones)' },
+    { name: 'workers', type: 'integer', positive: true, valueName: '<n>', description: 'Parallel judge calls (default: 5)' },
+    {
+      name: 'human', type: 'string', valueName: '<file>', complete: 'files',
+      description: 'Hand-labelled verdicts: JSON array of { decisionId, language?, verdict, score? }',
+    },
+    {
+      name: 'ratings', type: 'string', valueName: '<file>', complete: 'files',
+      description: 'Re-analyze a saved ratings.json without calling the judges',
+    },
+    { name: 'top', type: 'integer', positive: true, valueName: '<n>', description: 'Disagreements listed for review (default: 20)' },
+  ],
+  examples: [
+    'npm run eval -- agreement extract-comprehensive --sample 50',
+    'npm run eval -- agreement extract-cited-decisions --judge gpt5 --samples 3 --sample 30',
+    'npm run eval -- agreement extract-comprehensive --human evals/human-labels/comprehensive.json',
+    'npm run eval -- agreement extract-comprehensive --ratings evals/agreement/extract-comprehensive/<ts>/ratings.json',
+  ],
+  run: async (ctx) => {
+    const judges = ctx.strings('judge') as Array<'gpt5' | 'claude'>;
+    const samples = ctx.number('samples') ?? 1;
+    if (!ctx.has('ratings') && new Set(judges).size === 1 && samples < 2) {
+      throw new CliUsageError('One --judge needs --samples 2 or more', ctx.path);
+    }
+    const evals = await loadEvalCommands();
+    const data = await evals.runAgreement(ctx.arg('job-type')!, {
+      judges,
+      samples,
+      timestamp: ctx.string('timestamp'),
+      batch: ctx.boolean('batch') || undefined,
+      sampleSize: ctx.number('sample'),
+      parallelWorkers: ctx.number('workers'),
+      human: ctx.string('human'),
+      ratings: ctx.string('ratings'),
+      top: ctx.number('top'),
+    });
+    return { data };
+  },
+};
+
+export const evalCommand: CommandSpec = {
+  name: 'eval',
+  summary: 'LLM-as-a-judge evaluations, offline experiment analysis and golden-set regression checks',
+  defaultSubcommand: 'run',
+  subcommands: [
+    runCommand, compareCommand, listCommand, experimentsCommand, testConnectionsCommand,
+    analyzeCommand, goldenCommand, agreementCommand,
+  ],
+};
@@ -0,0 +1,84 @@
+import { exportBundle } from '../../export/BundleExporter.js';
+import { EXPORT_PROFILES, getExportProfile } from '../../export/profiles.js';
+import { createTarget } from '../../export/targets.js';
+import { ShardFormat } from '../../export/types.js';
+import { CliUsageError, CommandSpec } from '../framework.js';
+
+/**
+ * Export commands: export bundle, export profiles
+ */
+
+const bundleCommand: CommandSpec = {
+  name: 'bundle',
+  summary: 'Publish a versioned bundle of an export profile',
+  description:
+    'Reads the latest full-data run of each source job (or the runs given with --run), applies the profile ' +
+    '(fields, renames, filters) and writes NDJSON or Parquet shards, manifest.json (counts, checksums, source runs, ' +
+    'prompt versions) and diff.json (changes since the previous bundle) to a directory or s3://bucket/prefix.',
+  positionals: [{ name: 'profile', description: `Export profile (${EXPORT_PROFILES.map((p) => p.name).join(', ')})` }],
+  flags: [
+    { name: 'target', type: 'string', valueName: '<dir|s3://bucket/prefix>', complete: 'files', description: 'Where bundles are published (default: exports)' },
+    { name: 'format', type: 'string', valueName: '<format>', choices: ['ndjson', 'parquet'], description: 'Shard format (default: ndjson)' },
+    { name: 'shard-size', type: 'integer', positive: true, valueName: '<n>', description: 'Records per shard (default: 50000)' },
+    { name: 'base-dir', type: 'string', valueName: '<dir>', complete: 'files', description: 'Directory with <job>/<timestamp>/jsons (default: full-data)' },
+    {
+      name: 'run', type: 'string', repeatable: true, valueName: '<job>=<dir>',
+      description: 'Run directory to use for a source job instead of its canonical run (see: runs canonical)',
+    },
+    { name: 'version', type: 'string', valueName: '<label>', description: 'Bundle version (default: current timestamp)' },
+  ],
+  examples: [
+    'npm run dev -- export bundle teaching-classifications',
+    'npm run dev -- export bundle provision-mappings --run map-provisions-standard=full-data/map-provisions-standard/new-results',
+    'npm run dev -- export bundle decision-mappings --format parquet --target s3://legal-exports/bundles',
+  ],
+  run: async (ctx) => {
+    let profile;
+    try {
+      profile = getExportProfile(ctx.arg('profile')!);
+    } catch (error: any) {
+      throw new CliUsageError(error.message, ctx.path);
+    }
+
+    const runs: Record<string, string> = {};
+    for (const value of ctx.strings('run')) {
+      const separator = value.indexOf('=');
+      if (separator <= 0 || separator === value.length - 1) {
+        throw new CliUsageError(`--run expects <job>=<dir>, got "${value}"`, ctx.path);
+      }
+      runs[value.slice(0, separator)] = value.slice(separator + 1);
+    }
+
+    const result = await exportBundle({
+      profile,
+      target: createTarget(ctx.string('target') ?? 'exports'),
+      baseDir: ctx.string('base-dir'),
+      runs,
+      format: (ctx.string('format') ?? 'ndjson') as ShardFormat,
+      shardSize: ctx.number('shard-size'),
+      version: ctx.string('version'),
+    });
+    return { data: result };
+  },
+};
+
+const profilesCommand: CommandSpec = {
+  name: 'profiles',
+  summary: 'List export profiles',
+  examples: ['npm run dev export profiles'],
+  run: async () => {
+    for (const profile of EXPORT_PROFILES) {
+      console.log(`${profile.name}`);
+      console.log(`   ${profile.description}`);
+      console.log(`   Jobs:   ${profile.jobs.join(', ')}`);
+      console.log(`   Fields: ${Object.keys(profile.fields).join(', ')}\n`);
+    }
+    return { data: EXPORT_PROFILES.map(({ name, description, jobs, fields, key }) => ({ name, description, jobs, fields, key })) };
+  },
+};
+
+export const exportCommand: CommandSpec = {
+  name: 'export',
+  summary: 'Publish versioned export bundles for downstream consumers',
+  subcommands: [bundleCommand, profilesCommand],
+};
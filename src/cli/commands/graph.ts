@@ -0,0 +1,153 @@
+import { exportGraph, ExportFormat } from '../../graph/export-graph.js';
+import { analyzeCitationNetwork } from '../../graph/analyze-citations.js';
+import { propagateTreatments } from '../../graph/propagate-treatments.js';
+import { DEFAULT_BASE_URI } from '../../graph/uris.js';
+import { CliUsageError, CommandSpec } from '../framework.js';
+
+/**
+ * Knowledge graph commands: graph export, graph citations, graph treatments
+ */
+
+const exportCommand: CommandSpec = {
+  name: 'export',
+  summary: 'Export aggregated decisions to Cypher and/or RDF',
+  description:
+    'Node keys are derived from source identifiers, so re-exporting with more input directories ' +
+    'and re-running import.cypher updates the graph in place.',
+  flags: [
+    {
+      name: 'input', type: 'string', repeatable: true, valueName: '<dir>', complete: 'files',
+      description: 'Directory of aggregated decision JSONs (required)',
+    },
+    {
+      name: 'act-mappings', type: 'string', valueName: '<dir>', complete: 'files',
+      description: 'Directory of parent act mappings (internal_parent_act_id → document_number)',
+    },
+    { name: 'output', type: 'string', valueName: '<dir>', complete: 'files', description: 'Output directory (default: graph-export)' },
+    { name: 'format', type: 'string', valueName: '<format>', choices: ['cypher', 'rdf', 'all'], description: 'Output format (default: all)' },
+    {
+      name: 'base-uri', type: 'string', valueName: '<uri>',
+      description: `Base URI for minted resources (default: KG_BASE_URI or ${DEFAULT_BASE_URI})`,
+    },
+  ],
+  examples: [
+    'npm run graph:export -- --input merged-full-data/2025-12-01T10-00-00Z',
+    'npm run graph:export -- --input dirA --input dirB --act-mappings full-data/provision-mappings-aggregated/jsons',
+    'npm run graph:export -- --input src/pipeline/output --format rdf --base-uri https://kg.example.be/',
+  ],
+  run: async (ctx) => {
+    const inputs = ctx.strings('input');
+    if (inputs.length === 0) {
+      throw new CliUsageError('At least one --input is required', ctx.path);
+    }
+
+    const result = await exportGraph({
+      inputs,
+      actMappings: ctx.string('act-mappings'),
+      output: ctx.string('output') ?? 'graph-export',
+      format: (ctx.string('format') ?? 'all') as ExportFormat,
+      baseUri: ctx.string('base-uri') ?? (process.env.KG_BASE_URI || DEFAULT_BASE_URI),
+    });
+    return { data: result };
+  },
+};
+
+const citationsCommand: CommandSpec = {
+  name: 'citations',
+  summary: 'Citation network analytics over cited-decision mappings',
+  description:
+    'Builds the decision → decision citation graph from map-cited-decisions results and reports ' +
+    'in/out degree, PageRank authority, most-cited decisions per court and year, citation chains ' +
+    'and orphaned citations (JSON and CSV).',
+  flags: [
+    {
+      name: 'input', type: 'string', repeatable: true, valueName: '<dir>', complete: 'files',
+      description: 'map-cited-decisions full-data run, or mapping pipeline output (required)',
+    },
+    { name: 'output', type: 'string', valueName: '<dir>', complete: 'files', description: 'Output directory (default: citation-network)' },
+    { name: 'min-score', type: 'integer', valueName: '<0-100>', description: 'Minimum match score to resolve a citation (default: 80)' },
+    { name: 'top', type: 'integer', positive: true, valueName: '<n>', description: 'Decisions listed per court and per year (default: 25)' },
+    { name: 'chains', type: 'integer', positive: true, valueName: '<n>', description: 'Longest chains reported (default: 20)' },
+    { name: 'court', type: 'string', repeatable: true, valueName: '<code>', description: 'Only list most-cited decisions of these courts (e.g. CASS)' },
+    { name: 'from', type: 'string', valueName: '<ecli>', description: 'Report the shortest citation chain from this decision...' },
+    { name: 'to', type: 'string', valueName: '<ecli>', description: '...to this decision' },
+  ],
+  examples: [
+    'npm run dev -- graph citations --input full-data/map-cited-decisions/2025-12-04T22-23-20-074Z',
+    'npm run dev -- graph citations --input src/pipeline/mapping/output --court CASS --top 50',
+  ],
+  run: async (ctx) => {
+    const inputs = ctx.strings('input');
+    if (inputs.length === 0) {
+      throw new CliUsageError('At least one --input is required', ctx.path);
+    }
+    if (ctx.has('from') !== ctx.has('to')) {
+      throw new CliUsageError('--from and --to must be used together', ctx.path);
+    }
+    const minScore = ctx.number('min-score') ?? 80;
+    if (minScore < 0 || minScore > 100) {
+      throw new CliUsageError('--min-score must be between 0 and 100', ctx.path);
+    }
+
+    const result = await analyzeCitationNetwork({
+      inputs,
+      output: ctx.string('output') ?? 'citation-network',
+      minScore,
+      top: ctx.number('top') ?? 25,
+      chains: ctx.number('chains') ?? 20,
+      courts: ctx.strings('court'),
+      from: ctx.string('from'),
+      to: ctx.string('to'),
+    });
+    return { data: result };
+  },
+};
+
+const treatmentsCommand: CommandSpec = {
+  name: 'treatments',
+  summary: 'Flag teachings whose decision was later overruled, criticised or distinguished',
+  description:
+    'Joins the treatment of incoming citations back to the cited decision\'s legal teachings and ' +
+    'writes a "still good law" status per teaching with the evidence citations ' +
+    '(teaching-status/ next to the aggregated decision JSONs; overwritten on every run).',
+  flags: [
+    {
+      name: 'input', type: 'string', repeatable: true, valueName: '<dir>', complete: 'files',
+      description: 'Directory of aggregated decision JSONs (required)',
+    },
+    {
+      name: 'mappings', type: 'string', repeatable: true, valueName: '<dir>', complete: 'files',
+      description: 'map-cited-decisions results, to resolve citations extracted without an ECLI',
+    },
+    { name: 'output', type: 'string', valueName: '<dir>', complete: 'files', description: 'Output directory (default: <first input>/teaching-status)' },
+    { name: 'min-score', type: 'integer', valueName: '<0-100>', description: 'Minimum mapping score to resolve a citation (default: 80)' },
+  ],
+  examples: [
+    'npm run dev -- graph treatments --input merged-full-data/gpt-5-mini/2025-12-01T10-00-00Z',
+    'npm run dev -- graph treatments --input dirA --mappings full-data/map-cited-decisions/2025-12-04T22-23-20-074Z',
+  ],
+  run: async (ctx) => {
+    const inputs = ctx.strings('input');
+    if (inputs.length === 0) {
+      throw new CliUsageError('At least one --input is required', ctx.path);
+    }
+    const minScore = ctx.number('min-score') ?? 80;
+    if (minScore < 0 || minScore > 100) {
+      throw new CliUsageError('--min-score must be between 0 and 100', ctx.path);
+    }
+
+    const result = await propagateTreatments({
+      inputs,
+      output: ctx.string('output'),
+      mappings: ctx.strings('mappings'),
+      minScore,
+    });
+    return { data: result };
+  },
+};
+
+export const graphCommand: CommandSpec = {
+  name: 'graph',
+  summary: 'Knowledge graph export, citation network analytics and teaching status',
+  subcommands: [exportCommand, citationsCommand, treatmentsCommand],
+};
@@ -0,0 +1,30 @@
+import { CommandSpec } from '../framework.js';
+import { discoverJobTypes, loadJobConfig } from '../discovery.js';
+
+/**
+ * jobs: list the job configs discovered in src/jobs/configs
+ */
+export const jobsCommand: CommandSpec = {
+  name: 'jobs',
+  summary: 'List job types discovered in src/jobs/configs',
+  run: async () => {
+    const jobs = [];
+
+    console.log('\n📚 Job Types:\n');
+    for (const jobType of await discoverJobTypes()) {
+      try {
+        const config = await loadJobConfig(jobType);
+        const model = config.model || config.deploymentName || '-';
+        const mode = config.useFullDataPipeline ? 'full-data' : 'standard';
+        jobs.push({ id: jobType, description: config.description, provider: config.provider ?? null, model, mode });
+        console.log(`   ${jobType.padEnd(32)} ${model.padEnd(14)} ${mode.padEnd(10)} ${config.description}`);
+      } catch (error: any) {
+        jobs.push({ id: jobType, error: error.message });
+        console.log(`   ${jobType.padEnd(32)} ⚠️  failed to load: ${error.message}`);
+      }
+    }
+    console.log('');
+
+    return { data: jobs };
+  },
+};
@@ -0,0 +1,219 @@
+import { DEFAULT_MAX_CONCURRENT_STEPS } from '../../pipeline/PipelineOrchestrator.js';
+import { runDecisionPipeline } from '../../pipeline/run-decision.js';
+import { runBatchPipeline } from '../../pipeline/run-batch.js';
+import { DecisionFilter, hasDecisionFilter } from '../../pipeline/decision-loader.js';
+import { runMappingPipeline } from '../../pipeline/mapping/run-mapping.js';
+import { ProvisionCandidateIndex } from '../../pipeline/mapping/CandidateIndex.js';
+import { CliUsageError, CommandContext, CommandSpec } from '../framework.js';
+import {
+  budgetLimitsFrom,
+  DECISION_FLAGS,
+  MAX_COST_FLAG,
+  MAX_ESCALATION_COST_FLAG,
+  MAX_TOKENS_FLAG,
+  ON_BUDGET_EXCEEDED_FLAG,
+  SAMPLES_FLAG,
+} from '../flags.js';
+
+/**
+ * Pipeline commands: pipeline run, pipeline batch, mapping run, mapping index
+ */
+
+/**
+ * Required --decision-id and --language
+ */
+function decisionFrom(ctx: CommandContext): { decisionId: string; language: string } {
+  const decisionId = ctx.string('decision-id');
+  const language = ctx.string('language');
+  if (!decisionId || !language) {
+    throw new CliUsageError('--decision-id and --language are required', ctx.path);
+  }
+  return { decisionId, language };
+}
+
+const pipelineRunCommand: CommandSpec = {
+  name: 'run',
+  summary: 'Run (or resume) the full pipeline for one decision',
+  flags: [
+    ...DECISION_FLAGS,
+    {
+      name: 'max-concurrent-steps', type: 'integer', positive: true, valueName: '<n>',
+      description: `Steps run in parallel (default: ${DEFAULT_MAX_CONCURRENT_STEPS})`,
+    },
+    SAMPLES_FLAG,
+    MAX_COST_FLAG,
+    MAX_TOKENS_FLAG,
+    MAX_ESCALATION_COST_FLAG,
+  ],
+  examples: [
+    'npm run pipeline -- --decision-id "ECLI:BE:CASS:2023:ARR.20230131.1F.1" --language FR',
+    'npm run pipeline -- --decision-id "ECLI:BE:CASS:2023:ARR.20230131.1F.1" --language FR --max-cost 2',
+    'npm run pipeline -- --decision-id "ECLI:BE:CASS:2023:ARR.20230131.1F.1" --language FR --samples 3',
+  ],
+  run: async (ctx) => {
+    const result = await runDecisionPipeline({
+      ...decisionFrom(ctx),
+      stateFile: ctx.string('state-file'),
+      maxConcurrentSteps: ctx.number('max-concurrent-steps'),
+      samples: ctx.number('samples'),
+      budget: budgetLimitsFrom(ctx),
+    });
+    const paused = result.summary.status === 'paused';
+    return { data: result, exitCode: result.success || paused ? 0 : 1 };
+  },
+};
+
+const pipelineBatchCommand: CommandSpec = {
+  name: 'batch',
+  summary: 'Run the pipeline over many decisions',
+  description: 'Decision files contain one "<ECLI> <FR|NL>" (or "<ECLI>,<FR|NL>") per line; .csv and .json files are read as test sets.',
+  flags: [
+    {
+      name: 'file', type: 'string', aliases: ['test-set'], valueName: '<path>', complete: 'files',
+      description: 'Decision list, or a test-set CSV/JSON',
+    },
+    { name: 'court', type: 'string', valueName: '<code>', description: 'Filter by court ECLI code (e.g. CASS)' },
+    { name: 'decision-type', type: 'string', valueName: '<code>', description: 'Filter by decision type ECLI code (e.g. ARR)' },
+    { name: 'language', type: 'string', valueName: '<lang>', choices: ['FR', 'NL'], description: 'Filter by language' },
+    { name: 'from', type: 'string', valueName: '<date>', description: 'Filter by decision date on or after (YYYY-MM-DD)' },
+    { name: 'to', type: 'string', valueName: '<date>', description: 'Filter by decision date on or before (YYYY-MM-DD)' },
+    { name: 'limit', type: 'integer', positive: true, valueName: '<n>', description: 'Max decisions to run' },
+    { name: 'concurrency', type: 'integer', positive: true, valueName: '<n>', description: 'Decisions run in parallel (default: 4)' },
+    {
+      name: 'max-concurrent-steps', type: 'integer', positive: true, valueName: '<n>',
+      description: `Steps run in parallel per decision (default: ${DEFAULT_MAX_CONCURRENT_STEPS})`,
+    },
+    { name: 'max-api-calls', type: 'integer', positive: true, valueName: '<n>', description: 'Shared per-model API concurrency (default: 50)' },
+    SAMPLES_FLAG,
+    { ...MAX_COST_FLAG, description: 'Budget in USD for the whole batch' },
+    { ...MAX_TOKENS_FLAG, description: 'Token budget for the whole batch' },
+    MAX_ESCALATION_COST_FLAG,
+    ON_BUDGET_EXCEEDED_FLAG,
+    { name: 'force', type: 'boolean', description: 'Re-run decisions already completed' },
+  ],
+  examples: [
+    'npm run pipeline:batch -- --file decisions.txt',
+    'npm run pipeline:batch -- --test-set evals/test-sets/comprehensive-197.csv --concurrency 8',
+    'npm run pipeline:batch -- --court CASS --from 2023-01-01 --limit 50',
+    'npm run pipeline:batch -- --file decisions.txt --max-cost 20 --max-escalation-cost 5',
+  ],
+  run: async (ctx) => {
+    const file = ctx.string('file');
+    const filter: DecisionFilter = {
+      court: ctx.string('court'),
+      decisionType: ctx.string('decision-type'),
+      language: ctx.string('language'),
+      from: ctx.string('from'),
+      to: ctx.string('to'),
+    };
+    if (!file === !hasDecisionFilter(filter)) {
+      throw new CliUsageError('Use exactly one of --file/--test-set or filter flags (--court, --decision-type, --language, --from, --to)', ctx.path);
+    }
+
+    const limits = budgetLimitsFrom(ctx);
+    const { report, exitCode } = await runBatchPipeline({
+      file,
+      filter,
+      limit: ctx.number('limit'),
+      concurrency: ctx.number('concurrency'),
+      maxConcurrentSteps: ctx.number('max-concurrent-steps'),
+      maxConcurrentApiCalls: ctx.number('max-api-calls'),
+      samples: ctx.number('samples'),
+      maxCostUsd: limits.maxCostUsd,
+      maxTokens: limits.maxTokens,
+      maxEscalationCostUsd: limits.maxEscalationCostUsd,
+      onBudgetExceeded: limits.onExceeded,
+      force: ctx.boolean('force'),
+    });
+    return { data: report, exitCode };
+  },
+};
+
+export const pipelineCommand: CommandSpec = {
+  name: 'pipeline',
+  summary: 'Full extraction pipeline (single decision or batch)',
+  defaultSubcommand: 'run',
+  subcommands: [pipelineRunCommand, pipelineBatchCommand],
+};
+
+const mappingRunCommand: CommandSpec = {
+  name: 'run',
+  summary: 'Run (or resume) the 4 mapping steps for one decision',
+  flags: [...DECISION_FLAGS, MAX_COST_FLAG, MAX_TOKENS_FLAG, MAX_ESCALATION_COST_FLAG],
+  examples: [
+    'npm run mapping-pipeline -- --decision-id "ECLI:BE:CASS:2023:ARR.20230131.1F.1" --language FR',
+    'npm run mapping-pipeline -- --decision-id "ECLI:..." --language FR --max-cost 1 --max-escalation-cost 0.25',
+  ],
+  run: async (ctx) => {
+    const result = await runMappingPipeline({
+      ...decisionFrom(ctx),
+      stateFile: ctx.string('state-file'),
+      budget: budgetLimitsFrom(ctx),
+    });
+    const paused = result.summary.status === 'paused';
+    return { data: result, exitCode: result.success || paused ? 0 : 1 };
+  },
+};
+
+const mappingIndexCommand: CommandSpec = {
+  name: 'index',
+  summary: 'Build or inspect the provision candidate index',
+  description:
+    'The mapping steps rank candidate documents from a local index of the documents table ' +
+    '(MAPPING_INDEX_PATH, rebuilt after MAPPING_INDEX_MAX_AGE_HOURS). Use --query to preview candidates.',
+  flags: [
+    { name: 'rebuild', type: 'boolean', description: 'Rebuild from the database even if the index is fresh' },
+    { name: 'query', type: 'string', valueName: '<act-name>', description: 'Show the candidates for a cited act name' },
+    { name: 'date', type: 'string', valueName: '<yyyy-mm-dd>', description: 'Act date for --query (±3 days, day/month swapped)' },
+    { name: 'type', type: 'string', valueName: '<type>', repeatable: true, description: 'Document type filter for --query (LOI, ARRETE, ...)' },
+    { name: 'limit', type: 'integer', positive: true, valueName: '<n>', description: 'Candidates shown for --query (default: 20)' },
+  ],
+  examples: [
+    'npm run dev -- mapping index --rebuild',
+    'npm run dev -- mapping index --query "Ger.W." --type LOI',
+    'npm run dev -- mapping index --query "loi du 10 mai 2007" --date 2007-05-10',
+  ],
+  run: async (ctx) => {
+    let index: ProvisionCandidateIndex;
+    if (ctx.boolean('rebuild')) {
+      index = await ProvisionCandidateIndex.build();
+      await index.save();
+    } else {
+      index = await ProvisionCandidateIndex.shared();
+    }
+
+    const status = {
+      path: ProvisionCandidateIndex.getIndexPath(),
+      builtAt: index.builtAt,
+      documents: index.documents.length,
+    };
+    console.log(`\n📇 Candidate index: ${status.documents} documents, built ${status.builtAt}`);
+    console.log(`   ${status.path}`);
+
+    const query = ctx.string('query');
+    if (!query) {
+      return { data: status };
+    }
+
+    const types = ctx.strings('type');
+    const { candidates, dateFallback } = index.search(query, {
+      date: ctx.string('date'),
+      types: types.length > 0 ? types : undefined,
+      limit: ctx.number('limit') ?? 20,
+    });
+
+    console.log(`\n🔎 ${candidates.length} candidates for "${query}"${dateFallback ? ' (no document near the date, ranked by title)' : ''}:\n`);
+    for (const c of candidates) {
+      console.log(`   ${c.score.toFixed(3)}  [${c.documentNumber}] (${c.documentType}, ${c.date ?? 'no date'}) ${c.title}`);
+    }
+
+    return { data: { ...status, dateFallback, candidates } };
+  },
+};
+
+export const mappingCommand: CommandSpec = {
+  name: 'mapping',
+  summary: 'Provision and citation mapping pipeline',
+  defaultSubcommand: 'run',
+  subcommands: [mappingRunCommand, mappingIndexCommand],
+};
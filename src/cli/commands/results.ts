@@ -0,0 +1,212 @@
+import path from 'path';
+import { ResultsDatabaseConfig } from '../../config/resultsDatabase.js';
+import { mergeAllJobResults } from '../../utils/aggregator/mergeJobResults.js';
+import { migrateResults, syncResults } from '../../results-sink/sync-results.js';
+import { DatabaseConfig } from '../../config/database.js';
+import { auditGrounding } from '../../utils/groundingAudit.js';
+import { IntegrityChecker } from '../../integrity/IntegrityChecker.js';
+import { INTEGRITY_RULES } from '../../integrity/rules.js';
+import { CliUsageError, CommandSpec } from '../framework.js';
+
+/**
+ * Results commands: results merge, results migrate, results sync, results grounding, results integrity
+ */
+
+const mergeResultsCommand: CommandSpec = {
+  name: 'merge',
+  summary: 'Merge job results into one aggregated JSON per decision',
+  description:
+    'Uses (decision_id, language) as composite key and only merges decisions that exist in ALL jobs. ' +
+    'Writes {decision_id}_{language}.json files and merge-statistics.json (skipped decisions, prompt/schema versions per job).',
+  flags: [
+    { name: 'model', type: 'string', valueName: '<name>', description: 'Model directory to use (default: gpt-5-mini)' },
+    { name: 'output', type: 'string', valueName: '<dir>', complete: 'files', description: 'Output directory (default: concurrent/results/aggregated)' },
+    { name: 'base-dir', type: 'string', valueName: '<dir>', complete: 'files', description: 'Base directory with job results (default: concurrent/results)' },
+    { name: 'verbose', type: 'boolean', aliases: ['v'], description: 'Log skipped decisions and progress' },
+    { name: 'strict-versions', type: 'boolean', description: 'Refuse to merge jobs with results from mixed prompt/schema versions' },
+    { name: 'ignore-versions', type: 'boolean', description: 'Merge without reporting prompt/schema version mismatches' },
+  ],
+  examples: [
+    'npm run merge:results',
+    'npm run merge:results -- --verbose',
+    'npm run merge:results -- --model gpt-5-mini --output data/aggregated',
+    'npm run merge:results -- --strict-versions',
+  ],
+  run: async (ctx) => {
+    if (ctx.boolean('strict-versions') && ctx.boolean('ignore-versions')) {
+      throw new CliUsageError('Use either --strict-versions or --ignore-versions, not both', ctx.path);
+    }
+
+    const result = await mergeAllJobResults({
+      model: ctx.string('model') ?? 'gpt-5-mini',
+      outputDir: ctx.string('output') ?? 'concurrent/results/aggregated',
+      baseDir: ctx.string('base-dir') ?? 'concurrent/results',
+      verbose: ctx.boolean('verbose'),
+      versionPolicy: ctx.boolean('strict-versions') ? 'strict' : ctx.boolean('ignore-versions') ? 'ignore' : 'warn',
+    });
+    return { data: result };
+  },
+};
+
+const migrateCommand: CommandSpec = {
+  name: 'migrate',
+  summary: 'Create the results schema and apply pending migrations',
+  examples: ['npm run results:sync -- migrate'],
+  run: async () => {
+    try {
+      return { data: { migrationsApplied: await migrateResults() } };
+    } finally {
+      await ResultsDatabaseConfig.close();
+    }
+  },
+};
+
+const syncCommand: CommandSpec = {
+  name: 'sync',
+  summary: 'Upsert validated results from run directories into the results database',
+  flags: [
+    {
+      name: 'run', type: 'string', repeatable: true, valueName: '<dir>', complete: 'files',
+      description: 'Run directory (full-data/<job>/<timestamp> or a results dir)',
+    },
+    {
+      name: 'job-root', type: 'string', repeatable: true, valueName: '<dir>', complete: 'files',
+      description: 'Sync every run directory under full-data/<job>',
+    },
+    { name: 'job', type: 'string', valueName: '<id>', complete: 'jobs', description: 'Override job id (default: summary.json jobType)' },
+  ],
+  examples: [
+    'npm run results:sync -- sync --run full-data/extract-keywords/2025-10-13T12-00-00-000Z',
+    'npm run results:sync -- sync --job-root full-data/extract-keywords',
+  ],
+  run: async (ctx) => {
+    const runs = ctx.strings('run');
+    const jobRoots = ctx.strings('job-root');
+    if (runs.length === 0 && jobRoots.length === 0) {
+      throw new CliUsageError('At least one --run or --job-root is required', ctx.path);
+    }
+
+    try {
+      const result = await syncResults({ runs, jobRoots, jobId: ctx.string('job') });
+      return { data: result, exitCode: result.failed.length > 0 ? 1 : 0 };
+    } finally {
+      await ResultsDatabaseConfig.close();
+    }
+  },
+};
+
+const groundingCommand: CommandSpec = {
+  name: 'grounding',
+  summary: 'Check verbatim quotes and citation snippets of a run against the decision text',
+  description:
+    'Locates courtVerbatim / relevantSnippet quotes in full_md or the transformed HTML blocks and reports ' +
+    'exact, near and missing quotes. Writes grounding-report.json and grounding-report.md into the run directory.',
+  flags: [
+    { name: 'run', type: 'string', valueName: '<dir>', complete: 'files', description: 'Run directory (full-data/<job>/<timestamp> or a results dir)' },
+    { name: 'job', type: 'string', valueName: '<id>', complete: 'jobs', description: 'Override job id (default: summary.json jobType)' },
+    { name: 'near-threshold', type: 'number', positive: true, valueName: '<0-1>', description: 'Minimum share of quote words for a near match (default: 0.8)' },
+  ],
+  examples: [
+    'npm run dev -- results grounding --run full-data/extract-legal-teachings/2025-10-13T12-00-00-000Z',
+    'npm run dev -- results grounding --run full-data/enrich-teaching-citations/2025-10-13T12-00-00-000Z --near-threshold 0.9',
+  ],
+  run: async (ctx) => {
+    const runDirectory = ctx.string('run');
+    if (!runDirectory) {
+      throw new CliUsageError('--run is required', ctx.path);
+    }
+    const nearThreshold = ctx.number('near-threshold');
+    if (nearThreshold !== undefined && nearThreshold > 1) {
+      throw new CliUsageError('--near-threshold must be between 0 and 1', ctx.path);
+    }
+
+    try {
+      const result = await auditGrounding({ runDirectory, jobId: ctx.string('job'), nearThreshold });
+      return { data: result, exitCode: result.missing > 0 ? 1 : 0 };
+    } finally {
+      await DatabaseConfig.close();
+    }
+  },
+};
+
+const integrityCommand: CommandSpec = {
+  name: 'integrity',
+  summary: 'Check ID formats, uniqueness and cross-job references of full-data outputs',
+  description:
+    'Checks the rules of src/integrity/rules.ts against the canonical run of each job (or the runs given with --run). ' +
+    'Writes integrity-report.json (every violation) and fix-plan.json (auto-fixable violations) to the output directory; ' +
+    '--apply also applies the fix plan to the output JSONs in place.',
+  flags: [
+    { name: 'base-dir', type: 'string', valueName: '<dir>', complete: 'files', description: 'Directory with <job>/<timestamp>/jsons (default: full-data)' },
+    {
+      name: 'run', type: 'string', repeatable: true, valueName: '<job>=<dir>',
+      description: 'Run directory to use for a job instead of its canonical run (see: runs canonical)',
+    },
+    {
+      name: 'rule', type: 'string', repeatable: true, valueName: '<id>',
+      choices: INTEGRITY_RULES.map((rule) => rule.id),
+      description: 'Only check these rules (default: all)',
+    },
+    { name: 'output', type: 'string', valueName: '<dir>', complete: 'files', description: 'Report directory (default: integrity-reports/<timestamp>)' },
+    { name: 'apply', type: 'boolean', description: 'Apply the fix plan to the output JSONs' },
+  ],
+  examples: [
+    'npm run dev results integrity',
+    'npm run dev -- results integrity --rule teaching-provision-refs --rule teaching-ids-unique',
+    'npm run dev -- results integrity --run extract-legal-teachings=full-data/extract-legal-teachings/2025-10-13T12-00-00-000Z',
+    'npm run dev -- results integrity --apply',
+  ],
+  run: async (ctx) => {
+    const runs: Record<string, string> = {};
+    for (const value of ctx.strings('run')) {
+      const separator = value.indexOf('=');
+      if (separator <= 0 || separator === value.length - 1) {
+        throw new CliUsageError(`--run expects <job>=<dir>, got "${value}"`, ctx.path);
+      }
+      runs[value.slice(0, separator)] = value.slice(separator + 1);
+    }
+    const ruleIds = ctx.strings('rule');
+
+    const checker = new IntegrityChecker({
+      baseDir: ctx.string('base-dir'),
+      runs,
+      rules: ruleIds.length > 0 ? INTEGRITY_RULES.filter((rule) => ruleIds.includes(rule.id)) : undefined,
+    });
+
+    console.log('\n🔗 Checking cross-job integrity...\n');
+    const report = await checker.check();
+    const outputDir = ctx.string('output') ?? path.join('integrity-reports', new Date().toISOString().replace(/[:.]/g, '-'));
+    const written = await IntegrityChecker.writeReport(report, outputDir);
+
+    console.log('');
+    for (const rule of report.rules) {
+      if (rule.skipped) {
+        console.log(`   ⏭️  ${rule.id}: skipped (${rule.skipped})`);
+      } else {
+        const icon = rule.violations === 0 ? '✅' : rule.severity === 'error' ? '❌' : '⚠️ ';
+        const missing = rule.missingTarget ? `, ${rule.missingTarget} outputs without target` : '';
+        console.log(`   ${icon} ${rule.id}: ${rule.violations} violations / ${rule.checked} checked${missing}`);
+      }
+    }
+    console.log(`\n📊 ${report.errors} errors, ${report.warnings} warnings`);
+    console.log(`   Report:   ${written.report}`);
+    console.log(`   Fix plan: ${written.fixPlan}\n`);
+
+    let fixes: Awaited<ReturnType<typeof IntegrityChecker.applyFixPlan>> | undefined;
+    if (ctx.boolean('apply')) {
+      fixes = await IntegrityChecker.applyFixPlan(IntegrityChecker.buildFixPlan(report));
+      console.log(`🔧 Applied ${fixes.applied} fixes to ${fixes.files} files (${fixes.skipped} stale actions skipped)\n`);
+    }
+
+    return {
+      data: { ...written, errors: report.errors, warnings: report.warnings, fixes },
+      exitCode: report.errors > 0 ? 1 : 0,
+    };
+  },
+};
+
+export const resultsCommand: CommandSpec = {
+  name: 'results',
+  summary: 'Aggregate results and write them back to PostgreSQL',
+  subcommands: [mergeResultsCommand, migrateCommand, syncCommand, groundingCommand, integrityCommand],
+};
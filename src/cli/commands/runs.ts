@@ -0,0 +1,194 @@
+import { RunRegistry, scanRuns } from '../../lineage/RunRegistry.js';
+import { RunRecord, SourceNode } from '../../lineage/types.js';
+import { CliUsageError, CommandContext, CommandSpec } from '../framework.js';
+
+/**
+ * Run registry commands: runs list, show, canonical, sources, pin, unpin, scan
+ */
+
+const RUN_ID = { name: 'run', description: 'Run ID (<job>/[<model>/]<run directory>, see: runs list)' } as const;
+const JOB = { name: 'job', description: 'Job ID', complete: 'jobs' } as const;
+
+function describeRun(record: RunRecord, pinned?: string): string {
+  const flags = [
+    record.kind,
+    record.model,
+    record.configHash && `config ${record.configHash}`,
+    record.retryOf && `retry of ${record.retryOf}`,
+    record.mergedInto && `merged into ${record.mergedInto}`,
+    record.id === pinned && '📌 pinned',
+  ].filter(Boolean);
+  return `${record.id}  (${flags.join(', ')})`;
+}
+
+function printSources(node: SourceNode, depth = 0): void {
+  const location = !node.registered ? 'not registered' : node.file ?? 'no output for this decision';
+  console.log(`${'   '.repeat(depth)}${depth === 0 ? '📄' : '└─'} ${node.run}  ${location}`);
+  for (const input of node.inputs) printSources(input, depth + 1);
+}
+
+/**
+ * Registered run from a RUN_ID positional
+ */
+function requireRun(ctx: CommandContext, registry: RunRegistry): RunRecord {
+  const id = ctx.arg('run')!;
+  const record = registry.get(id);
+  if (!record) {
+    throw new CliUsageError(`Run not registered: ${id} (see: npm run dev runs list)`, ctx.path);
+  }
+  return record;
+}
+
+const listCommand: CommandSpec = {
+  name: 'list',
+  summary: 'List registered runs, newest first',
+  positionals: [{ ...JOB, description: 'Only runs of this job', optional: true }],
+  examples: ['npm run dev runs list', 'npm run dev runs list extract-legal-teachings'],
+  run: async (ctx) => {
+    const registry = RunRegistry.load();
+    const runs = registry.list(ctx.arg('job'));
+    if (runs.length === 0) {
+      console.log('No registered runs (register existing result directories with: npm run dev runs scan)');
+    }
+    for (const record of runs) {
+      console.log(describeRun(record, registry.pinned(record.jobId)));
+    }
+    return { data: runs };
+  },
+};
+
+const showCommand: CommandSpec = {
+  name: 'show',
+  summary: 'Show a run with its inputs, consumers, retries and merges',
+  positionals: [RUN_ID],
+  examples: ['npm run dev runs show interpret-provisions/2025-10-13T12-00-00-000Z'],
+  run: async (ctx) => {
+    const registry = RunRegistry.load();
+    const record = requireRun(ctx, registry);
+    const upstream = registry.upstream(record.id);
+    const downstream = registry.downstream(record.id).map((run) => run.id);
+    const retries = registry.retries(record.id).map((run) => run.id);
+
+    console.log(`\n${describeRun(record, registry.pinned(record.jobId))}`);
+    console.log(`   Directory:  ${record.directory}`);
+    console.log(`   Registered: ${record.registeredAt}`);
+    console.log(`   Inputs:     ${record.inputs.join(', ') || '-'}`);
+    console.log(`   Upstream:   ${upstream.join(', ') || '-'}`);
+    console.log(`   Consumers:  ${downstream.join(', ') || '-'}`);
+    console.log(`   Retries:    ${retries.join(', ') || '-'}`);
+    console.log(`   Merged in:  ${record.mergeChildren.join(', ') || '-'}\n`);
+
+    return { data: { ...record, upstream, downstream, retries } };
+  },
+};
+
+const canonicalCommand: CommandSpec = {
+  name: 'canonical',
+  summary: 'Show the run dependent jobs use for a job',
+  description: 'The pinned run of the job, else its newest registered run that is not a retry.',
+  positionals: [JOB],
+  examples: ['npm run dev runs canonical extract-legal-teachings'],
+  run: async (ctx) => {
+    const registry = RunRegistry.load();
+    const jobId = ctx.arg('job')!;
+    const record = registry.canonical(jobId);
+    if (!record) {
+      console.log(`No registered run for ${jobId}`);
+      return { data: null, exitCode: 1 };
+    }
+    console.log(describeRun(record, registry.pinned(jobId)));
+    return { data: record };
+  },
+};
+
+const sourcesCommand: CommandSpec = {
+  name: 'sources',
+  summary: "Which runs fed one decision's output",
+  description:
+    'Follows the run (or the canonical run of a job) and its inputs. At each step, the output comes from a merged ' +
+    'retry run when that run holds the decision, else from the run itself.',
+  positionals: [{ name: 'run', description: 'Run ID, or a job ID for its canonical run' }],
+  flags: [
+    { name: 'decision', type: 'string', valueName: '<ecli>', description: 'Decision ID' },
+    { name: 'language', type: 'string', valueName: '<lang>', description: 'Decision language (FR, NL)' },
+  ],
+  examples: [
+    'npm run dev -- runs sources classify-legal-issues --decision ECLI:BE:CASS:2023:ARR.20230117.2N.7 --language FR',
+  ],
+  run: async (ctx) => {
+    const decisionId = ctx.string('decision');
+    const language = ctx.string('language');
+    if (!decisionId || !language) {
+      throw new CliUsageError('--decision and --language are required', ctx.path);
+    }
+
+    const registry = RunRegistry.load();
+    const ref = ctx.arg('run')!;
+    const start = ref.includes('/') ? registry.get(ref) : registry.canonical(ref);
+    if (!start) {
+      throw new CliUsageError(`No registered run for ${ref} (see: npm run dev runs list)`, ctx.path);
+    }
+
+    console.log(`\n🔎 Sources of ${decisionId} (${language}):\n`);
+    const sources = registry.sourcesOf(start.id, decisionId, language);
+    printSources(sources);
+    console.log('');
+    return { data: sources };
+  },
+};
+
+const pinCommand: CommandSpec = {
+  name: 'pin',
+  summary: 'Make a run the canonical run of its job',
+  description: 'Dependent jobs read the pinned run until it is unpinned, even when newer runs exist.',
+  positionals: [RUN_ID],
+  examples: ['npm run dev runs pin interpret-provisions/2025-10-13T12-00-00-000Z'],
+  run: async (ctx) => {
+    let record: RunRecord | undefined;
+    await RunRegistry.update((registry) => {
+      requireRun(ctx, registry);
+      record = registry.pin(ctx.arg('run')!);
+    });
+    console.log(`📌 ${record!.jobId} → ${record!.id}`);
+    return { data: record };
+  },
+};
+
+const unpinCommand: CommandSpec = {
+  name: 'unpin',
+  summary: 'Go back to the newest registered run for a job',
+  positionals: [JOB],
+  examples: ['npm run dev runs unpin interpret-provisions'],
+  run: async (ctx) => {
+    const jobId = ctx.arg('job')!;
+    let unpinned = false;
+    await RunRegistry.update((registry) => {
+      unpinned = registry.unpin(jobId);
+    });
+    console.log(unpinned ? `✓ Unpinned ${jobId}` : `${jobId} was not pinned`);
+    return { data: { jobId, unpinned } };
+  },
+};
+
+const scanCommand: CommandSpec = {
+  name: 'scan',
+  summary: 'Register result directories that predate the registry',
+  description:
+    'Registers every directory with a summary.json under full-data/, concurrent/results/ and results/. ' +
+    'Retry runs are linked to their parent through retry-metadata.json; inputs of past runs are unknown.',
+  examples: ['npm run dev runs scan'],
+  run: async () => {
+    let added = 0;
+    const registry = await RunRegistry.update(async (registry) => {
+      added = await scanRuns(registry);
+    });
+    console.log(`✓ Registered ${added} runs (${registry.list().length} total) in ${registry.file}`);
+    return { data: { added, total: registry.list().length } };
+  },
+};
+
+export const runsCommand: CommandSpec = {
+  name: 'runs',
+  summary: 'Run registry: lineage of result directories and canonical runs per job',
+  subcommands: [listCommand, showCommand, canonicalCommand, sourcesCommand, pinCommand, unpinCommand, scanCommand],
+};
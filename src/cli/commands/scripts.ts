@@ -0,0 +1,55 @@
+import { spawn } from 'child_process';
+import { CommandSpec } from '../framework.js';
+import { discoverScripts, resolveScript } from '../discovery.js';
+
+/**
+ * Maintenance script commands: scripts list, scripts run
+ *
+ * Scripts in src/scripts keep their own arguments; `scripts run` starts
+ * them in a child process with the same runtime (tsx or node) and passes
+ * everything after `--` through unchanged.
+ */
+
+const listScriptsCommand: CommandSpec = {
+  name: 'list',
+  summary: 'List maintenance scripts in src/scripts',
+  run: async () => {
+    const scripts = await discoverScripts();
+    console.log('\n🛠️  Scripts:\n');
+    for (const script of scripts) console.log(`   ${script}`);
+    console.log('');
+    return { data: scripts };
+  },
+};
+
+const runScriptCommand: CommandSpec = {
+  name: 'run',
+  summary: 'Run a maintenance script (arguments after -- are passed through)',
+  positionals: [{ name: 'script', description: 'Script name (see scripts list)', complete: 'scripts' }],
+  passthrough: true,
+  examples: [
+    'npm run dev -- scripts run analyze-provision-mapping',
+    'npm run dev -- scripts run analyze-cited-decisions -- full-data/extract-cited-decisions/<timestamp>/jsons',
+  ],
+  run: async (ctx) => {
+    const script = ctx.arg('script')!;
+    const scriptPath = await resolveScript(script);
+
+    // process.execArgv carries the tsx loader when running from source
+    const exitCode = await new Promise<number>((resolve, reject) => {
+      const child = spawn(process.execPath, [...process.execArgv, scriptPath, ...ctx.rest], {
+        stdio: ['inherit', ctx.json ? process.stderr : 'inherit', 'inherit'],
+      });
+      child.on('error', reject);
+      child.on('exit', (code, signal) => resolve(code ?? (signal ? 1 : 0)));
+    });
+
+    return { data: { script, args: ctx.rest, exitCode }, exitCode };
+  },
+};
+
+export const scriptsCommand: CommandSpec = {
+  name: 'scripts',
+  summary: 'Maintenance scripts (src/scripts)',
+  subcommands: [listScriptsCommand, runScriptCommand],
+};
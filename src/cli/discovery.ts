@@ -0,0 +1,95 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { JobConfig } from '../jobs/JobConfig.js';
+import { CliUsageError } from './framework.js';
+
+/**
+ * Job config and script discovery
+ *
+ * Job types are the module names in src/jobs/configs (dist/jobs/configs
+ * when built); scripts are the modules in src/scripts. Adding a file is
+ * enough to make it available to the CLI, help and shell completion.
+ */
+
+const CONFIGS_DIR = fileURLToPath(new URL('../jobs/configs/', import.meta.url));
+const SCRIPTS_DIR = fileURLToPath(new URL('../scripts/', import.meta.url));
+
+/**
+ * Job types with a config module, sorted
+ */
+export async function discoverJobTypes(): Promise<string[]> {
+  return listModules(CONFIGS_DIR);
+}
+
+/**
+ * Check that a job type has a config module
+ *
+ * @throws CliUsageError for unknown job types
+ */
+export async function assertJobType(jobType: string): Promise<void> {
+  const jobTypes = await discoverJobTypes();
+  if (!jobTypes.includes(jobType)) {
+    throw new CliUsageError(
+      `Unknown job type: ${jobType}. Available job types: ${jobTypes.join(', ')}. ` +
+      `To add one, create src/jobs/configs/${jobType}.ts`
+    );
+  }
+}
+
+/**
+ * Load a job config by job type
+ *
+ * @throws CliUsageError for job types without a config module
+ */
+export async function loadJobConfig(jobType: string): Promise<JobConfig> {
+  await assertJobType(jobType);
+
+  const module = await import(`../jobs/configs/${jobType}.js`);
+  return module.default || module;
+}
+
+/**
+ * Scripts in src/scripts, sorted
+ */
+export async function discoverScripts(): Promise<string[]> {
+  return listModules(SCRIPTS_DIR);
+}
+
+/**
+ * File path of a script module
+ *
+ * @throws CliUsageError for unknown scripts
+ */
+export async function resolveScript(name: string): Promise<string> {
+  const scripts = await discoverScripts();
+  if (!scripts.includes(name)) {
+    throw new CliUsageError(`Unknown script: ${name}. Run "scripts list" to see available scripts.`, ['scripts', 'run']);
+  }
+
+  const entries = await fs.readdir(SCRIPTS_DIR);
+  const file = entries.find((f) => isModule(f) && stripExtension(f) === name)!;
+  return path.join(SCRIPTS_DIR, file);
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function listModules(directory: string): Promise<string[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(directory);
+  } catch {
+    return [];
+  }
+  return [...new Set(entries.filter(isModule).map(stripExtension))].sort();
+}
+
+function isModule(file: string): boolean {
+  return (file.endsWith('.ts') && !file.endsWith('.d.ts')) || file.endsWith('.js');
+}
+
+function stripExtension(file: string): string {
+  return file.replace(/\.(ts|js)$/, '');
+}
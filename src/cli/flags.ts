@@ -0,0 +1,52 @@
+import { BudgetAction, BudgetLimits } from '../core/BudgetTracker.js';
+import { CommandContext, FlagSpec } from './framework.js';
+
+/**
+ * Flags shared by several commands
+ */
+
+export const MAX_COST_FLAG: FlagSpec = {
+  name: 'max-cost', type: 'number', positive: true, valueName: '<usd>',
+  description: 'Stop starting API calls once this much (USD) is spent',
+};
+
+export const MAX_TOKENS_FLAG: FlagSpec = {
+  name: 'max-tokens', type: 'integer', positive: true, valueName: '<n>',
+  description: 'Stop starting API calls once this many tokens are used',
+};
+
+export const MAX_ESCALATION_COST_FLAG: FlagSpec = {
+  name: 'max-escalation-cost', type: 'number', positive: true, valueName: '<usd>',
+  description: 'Budget (USD) for gpt-5.2 escalation retries',
+};
+
+export const ON_BUDGET_EXCEEDED_FLAG: FlagSpec = {
+  name: 'on-budget-exceeded', type: 'string', valueName: '<action>', choices: ['pause', 'abort'],
+  description: 'What to do once the budget is crossed (default: pause)',
+};
+
+export const SAMPLES_FLAG: FlagSpec = {
+  name: 'samples', type: 'integer', positive: true, valueName: '<n>',
+  description: 'Self-consistency samples for the legal-teachings and classification steps',
+};
+
+/**
+ * Single-decision selection (pipeline run, mapping run)
+ */
+export const DECISION_FLAGS: FlagSpec[] = [
+  { name: 'decision-id', type: 'string', valueName: '<ecli>', description: 'ECLI identifier (required)' },
+  { name: 'language', type: 'string', valueName: '<lang>', choices: ['FR', 'NL'], description: 'Decision language (required)' },
+  { name: 'state-file', type: 'string', valueName: '<path>', complete: 'files', description: 'State file to resume from' },
+];
+
+/**
+ * Budget limits from the budget flags
+ */
+export function budgetLimitsFrom(ctx: CommandContext): BudgetLimits {
+  return {
+    maxCostUsd: ctx.number('max-cost'),
+    maxTokens: ctx.number('max-tokens'),
+    maxEscalationCostUsd: ctx.number('max-escalation-cost'),
+    onExceeded: ctx.string('on-budget-exceeded') as BudgetAction | undefined,
+  };
+}
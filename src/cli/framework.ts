@@ -0,0 +1,650 @@
+/**
+ * Command Tree
+ *
+ * Declarative subcommands with shared flag parsing, generated help and
+ * shell completion for the unified CLI (src/cli.ts).
+ *
+ * Every command accepts:
+ * - --json   Print one JSON document on stdout ({ command, ok, exitCode, result });
+ *            human-readable output (console, logger) moves to stderr
+ * - --help   Show generated help for the command
+ *
+ * Unknown flags, unknown subcommands and extra arguments are usage errors.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type FlagType = 'boolean' | 'string' | 'number' | 'integer';
+
+/**
+ * Dynamic completion candidates (files are completed by the shell)
+ */
+export type CompletionSource = 'jobs' | 'scripts' | 'files';
+
+export interface FlagSpec {
+  /** Long name without dashes (e.g. 'max-cost') */
+  name: string;
+  type: FlagType;
+  description: string;
+  /** Other long names, or single letters for short flags (e.g. 'v' → -v) */
+  aliases?: string[];
+  /** Placeholder shown in help (default: <value>) */
+  valueName?: string;
+  repeatable?: boolean;
+  choices?: readonly string[];
+  /** Numeric values must be > 0 */
+  positive?: boolean;
+  complete?: CompletionSource;
+}
+
+export interface PositionalSpec {
+  name: string;
+  description: string;
+  optional?: boolean;
+  /** Consumes all remaining arguments (last positional only) */
+  variadic?: boolean;
+  complete?: CompletionSource;
+}
+
+export interface CommandSpec {
+  name: string;
+  summary: string;
+  description?: string;
+  positionals?: PositionalSpec[];
+  flags?: FlagSpec[];
+  examples?: string[];
+  subcommands?: CommandSpec[];
+  /** Subcommand used when the next argument is not a subcommand name */
+  defaultSubcommand?: string;
+  /** Arguments after `--` are passed through (ctx.rest) instead of parsed */
+  passthrough?: boolean;
+  run?: (ctx: CommandContext) => Promise<CommandResult | void>;
+}
+
+/**
+ * Outcome of a command
+ */
+export interface CommandResult {
+  /** Machine-readable result (printed with --json) */
+  data?: unknown;
+  /** Process exit code (default 0) */
+  exitCode?: number;
+}
+
+export interface CliProgram {
+  /** How the CLI is invoked in help text (e.g. 'npm run dev') */
+  invocation: string;
+  /** Executable name for shell completion */
+  bin: string;
+  title: string;
+  commands: CommandSpec[];
+  /** Extra help sections appended to the root help */
+  footer?: string;
+  completionSources: Record<Exclude<CompletionSource, 'files'>, () => Promise<string[]>>;
+  /** Runs after every command (close connections, ...) */
+  cleanup?: () => Promise<void>;
+}
+
+/**
+ * Invalid command line (exit code 1, with a pointer to the help)
+ */
+export class CliUsageError extends Error {
+  constructor(message: string, readonly commandPath: string[] = []) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+const GLOBAL_FLAGS: FlagSpec[] = [
+  { name: 'json', type: 'boolean', description: 'Print the result as JSON on stdout (logs go to stderr)' },
+  { name: 'help', type: 'boolean', aliases: ['h'], description: 'Show help' },
+];
+
+// ============================================================================
+// Command context
+// ============================================================================
+
+/**
+ * Parsed arguments of the command being run
+ */
+export class CommandContext {
+  constructor(
+    readonly path: string[],
+    private positionals: Map<string, string[]>,
+    private flags: Map<string, Array<string | number | boolean>>,
+    readonly rest: string[],
+    readonly json: boolean
+  ) {}
+
+  /** Positional argument */
+  arg(name: string): string | undefined {
+    return this.positionals.get(name)?.[0];
+  }
+
+  /** Variadic positional argument */
+  args(name: string): string[] {
+    return this.positionals.get(name) ?? [];
+  }
+
+  string(name: string): string | undefined {
+    return this.flags.get(name)?.at(-1) as string | undefined;
+  }
+
+  /** Repeatable string flag */
+  strings(name: string): string[] {
+    return (this.flags.get(name) ?? []) as string[];
+  }
+
+  number(name: string): number | undefined {
+    return this.flags.get(name)?.at(-1) as number | undefined;
+  }
+
+  boolean(name: string): boolean {
+    return this.flags.get(name)?.at(-1) === true;
+  }
+
+  has(name: string): boolean {
+    return this.flags.has(name);
+  }
+}
+
+// ============================================================================
+// Entry point
+// ============================================================================
+
+/**
+ * Resolve, parse and run a command line
+ *
+ * @returns Process exit code
+ */
+export async function runCli(program: CliProgram, argv: string[]): Promise<number> {
+  const root = rootSpec(program);
+  const json = wantsJson(argv);
+
+  // Keep stdout clean for the JSON document
+  const writeStdout = process.stdout.write.bind(process.stdout);
+  if (json) {
+    process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write;
+  }
+
+  let commandPath: string[] = [];
+  let exitCode = 0;
+  let envelope: Record<string, unknown>;
+
+  try {
+    const { chain, remaining } = resolveCommand(root, argv);
+    const spec = chain.at(-1) ?? root;
+    commandPath = chain.map((c) => c.name);
+
+    const ctx = parseArguments(spec, remaining, commandPath, json);
+
+    let result: CommandResult | void;
+    if (ctx.boolean('help') || !spec.run) {
+      const help = renderHelp(program, spec, commandPath);
+      console.log(help);
+      result = { data: describeCommand(spec, commandPath) };
+    } else {
+      result = await spec.run(ctx);
+    }
+
+    exitCode = result?.exitCode ?? 0;
+    envelope = { command: commandPath.join(' '), ok: exitCode === 0, exitCode, result: result?.data ?? null };
+  } catch (error: any) {
+    exitCode = 1;
+    envelope = { command: commandPath.join(' '), ok: false, exitCode, error: error?.message ?? String(error) };
+
+    if (error instanceof CliUsageError) {
+      const helpPath = [program.invocation, 'help', ...error.commandPath].join(' ');
+      console.error(`\n❌ ${error.message}`);
+      console.error(`   Run "${helpPath}" for usage.\n`);
+    } else {
+      console.error('\n❌ Command failed:', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  if (program.cleanup) {
+    try {
+      await program.cleanup();
+    } catch {
+      // Connections may never have been opened
+    }
+  }
+
+  if (json) {
+    await new Promise<void>((resolve) => writeStdout(JSON.stringify(envelope, null, 2) + '\n', () => resolve()));
+  }
+
+  return exitCode;
+}
+
+function wantsJson(argv: string[]): boolean {
+  const end = argv.indexOf('--');
+  return (end === -1 ? argv : argv.slice(0, end)).includes('--json');
+}
+
+function rootSpec(program: CliProgram): CommandSpec {
+  return {
+    name: program.invocation,
+    summary: program.title,
+    subcommands: [...program.commands, helpCommand(program), completionCommand(program)],
+  };
+}
+
+// ============================================================================
+// Resolution and parsing
+// ============================================================================
+
+/**
+ * Walk subcommands from the start of argv
+ */
+function resolveCommand(root: CommandSpec, argv: string[]): { chain: CommandSpec[]; remaining: string[] } {
+  const chain: CommandSpec[] = [];
+  let spec = root;
+  let index = 0;
+
+  while (spec.subcommands && spec.subcommands.length > 0) {
+    const token = argv[index];
+    const sub = spec.subcommands.find((c) => c.name === token);
+
+    if (sub) {
+      chain.push(sub);
+      spec = sub;
+      index++;
+      continue;
+    }
+
+    const wantsHelp = token === undefined || token === '--help' || token === '-h';
+    if (wantsHelp && !spec.run) break;
+
+    const fallback = spec.subcommands.find((c) => c.name === spec.defaultSubcommand);
+    if (fallback) {
+      chain.push(fallback);
+      spec = fallback;
+      continue;
+    }
+
+    if (token !== undefined && !token.startsWith('-')) {
+      const path = chain.map((c) => c.name);
+      const suggestion = closest(token, spec.subcommands.map((c) => c.name));
+      throw new CliUsageError(
+        `Unknown command: ${[...path, token].join(' ')}` + (suggestion ? ` (did you mean "${suggestion}"?)` : ''),
+        path
+      );
+    }
+    break;
+  }
+
+  return { chain, remaining: argv.slice(index) };
+}
+
+/**
+ * Parse flags and positionals against a command spec
+ */
+function parseArguments(spec: CommandSpec, argv: string[], path: string[], json: boolean): CommandContext {
+  const flagSpecs = [...(spec.flags ?? []), ...GLOBAL_FLAGS];
+  const byName = new Map<string, FlagSpec>();
+  for (const flag of flagSpecs) {
+    byName.set(flag.name, flag);
+    for (const alias of flag.aliases ?? []) byName.set(alias, flag);
+  }
+
+  const flags = new Map<string, Array<string | number | boolean>>();
+  const values: string[] = [];
+  const rest: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const token = argv[i];
+
+    if (token === '--') {
+      (spec.passthrough ? rest : values).push(...argv.slice(i + 1));
+      break;
+    }
+
+    const isLong = token.startsWith('--');
+    const isShort = /^-[a-zA-Z]$/.test(token);
+    if (!isLong && !isShort) {
+      values.push(token);
+      continue;
+    }
+
+    const [rawName, inlineValue] = isLong ? splitInline(token.slice(2)) : [token.slice(1), undefined];
+    const flag = byName.get(rawName);
+    if (!flag) {
+      const suggestion = closest(rawName, flagSpecs.map((f) => f.name));
+      throw new CliUsageError(
+        `Unknown flag ${token}${path.length ? ` for "${path.join(' ')}"` : ''}` +
+        (suggestion ? ` (did you mean --${suggestion}?)` : ''),
+        path
+      );
+    }
+
+    if (flag.type === 'boolean') {
+      if (inlineValue !== undefined) {
+        throw new CliUsageError(`--${flag.name} does not take a value`, path);
+      }
+      flags.set(flag.name, [true]);
+      continue;
+    }
+
+    const raw = inlineValue ?? argv[++i];
+    if (raw === undefined) {
+      throw new CliUsageError(`--${flag.name} requires a value`, path);
+    }
+
+    const value = convertValue(flag, raw, path);
+    if (flag.repeatable) {
+      flags.set(flag.name, [...(flags.get(flag.name) ?? []), value]);
+    } else {
+      flags.set(flag.name, [value]);
+    }
+  }
+
+  const positionals = new Map<string, string[]>();
+  const specs = spec.positionals ?? [];
+  const helpRequested = flags.has('help');
+
+  for (const positional of specs) {
+    const taken = positional.variadic ? values.splice(0) : values.splice(0, 1);
+    if (taken.length === 0 && !positional.optional && !helpRequested && spec.run) {
+      throw new CliUsageError(`Missing argument <${positional.name}>`, path);
+    }
+    if (taken.length > 0) positionals.set(positional.name, taken);
+  }
+
+  if (values.length > 0) {
+    throw new CliUsageError(`Unexpected argument: ${values[0]}`, path);
+  }
+
+  return new CommandContext(path, positionals, flags, rest, json);
+}
+
+function splitInline(token: string): [string, string | undefined] {
+  const eq = token.indexOf('=');
+  return eq === -1 ? [token, undefined] : [token.slice(0, eq), token.slice(eq + 1)];
+}
+
+function convertValue(flag: FlagSpec, raw: string, path: string[]): string | number {
+  if (flag.choices && !flag.choices.includes(raw)) {
+    throw new CliUsageError(`Invalid --${flag.name}: ${raw} (expected ${flag.choices.join(', ')})`, path);
+  }
+
+  if (flag.type === 'string') return raw;
+
+  const value = Number(raw);
+  if (raw.trim() === '' || isNaN(value) || (flag.type === 'integer' && !Number.isInteger(value))) {
+    throw new CliUsageError(`Invalid --${flag.name}: ${raw} (expected ${flag.type === 'integer' ? 'an integer' : 'a number'})`, path);
+  }
+  if (flag.positive && value <= 0) {
+    throw new CliUsageError(`Invalid --${flag.name}: ${raw} (must be positive)`, path);
+  }
+  return value;
+}
+
+/**
+ * Closest candidate by edit distance (for "did you mean" hints)
+ */
+function closest(input: string, candidates: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Math.max(2, Math.floor(input.length / 3)) + 1;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(input, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+// ============================================================================
+// Help
+// ============================================================================
+
+/**
+ * Render help for a command (or the root)
+ */
+export function renderHelp(program: CliProgram, spec: CommandSpec, path: string[]): string {
+  const lines: string[] = [];
+  const invocation = [program.invocation, ...path].join(' ');
+  const isRoot = path.length === 0;
+
+  lines.push('', isRoot ? program.title : `${invocation} - ${spec.summary}`);
+  if (spec.description) lines.push('', spec.description);
+
+  lines.push('', 'USAGE:');
+  if (spec.run) {
+    const positionals = (spec.positionals ?? []).map(formatPositional).join(' ');
+    lines.push(`  ${[invocation, positionals, '[options]'].filter(Boolean).join(' ')}`);
+  }
+  if (spec.subcommands?.length) {
+    lines.push(`  ${invocation} <command> [options]`);
+  }
+
+  if (spec.subcommands?.length) {
+    lines.push('', 'COMMANDS:');
+    const rows = (isRoot ? flattenCommands(spec.subcommands, []) : spec.subcommands.map((c) => ({ path: [c.name], spec: c })))
+      .map((row) => ({ ...row, label: [...row.path, ...(row.spec.positionals ?? []).map(formatPositional)].join(' ') }));
+    const width = Math.max(...rows.map((r) => r.label.length)) + 3;
+    for (const row of rows) {
+      const isDefault = !isRoot && row.spec.name === spec.defaultSubcommand ? ' (default)' : '';
+      lines.push(`  ${row.label.padEnd(width)}${row.spec.summary}${isDefault}`);
+    }
+  }
+
+  if (spec.positionals?.length) {
+    lines.push('', 'ARGUMENTS:');
+    const width = Math.max(...spec.positionals.map((p) => formatPositional(p).length)) + 3;
+    for (const positional of spec.positionals) {
+      lines.push(`  ${formatPositional(positional).padEnd(width)}${positional.description}`);
+    }
+  }
+
+  const flags = [...(spec.flags ?? []), ...GLOBAL_FLAGS];
+  lines.push('', 'OPTIONS:');
+  const width = Math.max(...flags.map((f) => formatFlag(f).length)) + 3;
+  for (const flag of flags) {
+    const extras = [
+      flag.choices ? `one of: ${flag.choices.join(', ')}` : '',
+      flag.repeatable ? 'repeatable' : '',
+    ].filter(Boolean);
+    lines.push(`  ${formatFlag(flag).padEnd(width)}${flag.description}${extras.length ? ` (${extras.join('; ')})` : ''}`);
+  }
+
+  if (spec.examples?.length) {
+    lines.push('', 'EXAMPLES:');
+    for (const example of spec.examples) lines.push(`  ${example}`);
+  }
+
+  if (isRoot && program.footer) lines.push('', program.footer.trim());
+
+  lines.push('');
+  return lines.join('\n');
+}
+
+function flattenCommands(commands: CommandSpec[], prefix: string[]): Array<{ path: string[]; spec: CommandSpec }> {
+  const rows: Array<{ path: string[]; spec: CommandSpec }> = [];
+  for (const command of commands) {
+    const path = [...prefix, command.name];
+    if (command.subcommands?.length) {
+      rows.push(...flattenCommands(command.subcommands, path));
+    } else {
+      rows.push({ path, spec: command });
+    }
+  }
+  return rows;
+}
+
+function formatPositional(positional: PositionalSpec): string {
+  const name = `<${positional.name}>${positional.variadic ? '...' : ''}`;
+  return positional.optional ? `[${name}]` : name;
+}
+
+function formatFlag(flag: FlagSpec): string {
+  const short = (flag.aliases ?? []).filter((a) => a.length === 1).map((a) => `-${a}`);
+  const long = [flag.name, ...(flag.aliases ?? []).filter((a) => a.length > 1)].map((a) => `--${a}`);
+  const value = flag.type === 'boolean' ? '' : ` ${flag.valueName ?? '<value>'}`;
+  return `${[...short, ...long].join(', ')}${value}`;
+}
+
+/**
+ * Machine-readable description of a command (help --json)
+ */
+function describeCommand(spec: CommandSpec, path: string[]): unknown {
+  return {
+    command: path.join(' '),
+    summary: spec.summary,
+    positionals: spec.positionals ?? [],
+    flags: (spec.flags ?? []).map(({ complete: _complete, ...flag }) => flag),
+    subcommands: (spec.subcommands ?? []).map((c) => describeCommand(c, [...path, c.name])),
+    defaultSubcommand: spec.defaultSubcommand,
+  };
+}
+
+function helpCommand(program: CliProgram): CommandSpec {
+  return {
+    name: 'help',
+    summary: 'Show help for a command',
+    positionals: [{ name: 'command', description: 'Command path (e.g. pipeline batch)', optional: true, variadic: true }],
+    run: async (ctx) => {
+      const root = rootSpec(program);
+      const target = ctx.args('command');
+      const { chain, remaining } = resolveCommand(root, target);
+      if (remaining.length > 0) {
+        throw new CliUsageError(`Unknown command: ${target.join(' ')}`);
+      }
+      const spec = chain.at(-1) ?? root;
+      const path = chain.map((c) => c.name);
+      console.log(renderHelp(program, spec, path));
+      return { data: describeCommand(spec, path) };
+    },
+  };
+}
+
+// ============================================================================
+// Shell completion
+// ============================================================================
+
+function completionCommand(program: CliProgram): CommandSpec {
+  return {
+    name: 'completion',
+    summary: 'Print a shell completion script',
+    description:
+      'Completes commands, flags, flag values and job types (job types and scripts are listed when the script is generated).',
+    positionals: [{ name: 'shell', description: 'bash or zsh' }],
+    flags: [
+      { name: 'name', type: 'string', valueName: '<bin>', description: `Executable to complete (default: ${program.bin})` },
+    ],
+    examples: [
+      `${program.invocation} completion bash > ~/.local/share/bash-completion/completions/${program.bin}`,
+      `${program.invocation} completion zsh >> ~/.zshrc`,
+    ],
+    run: async (ctx) => {
+      const shell = ctx.arg('shell');
+      if (shell !== 'bash' && shell !== 'zsh') {
+        throw new CliUsageError(`Unsupported shell: ${shell} (expected bash or zsh)`, ['completion']);
+      }
+      const script = await renderCompletion(program, shell, ctx.string('name') ?? program.bin);
+      process.stdout.write(script);
+      return { data: { shell, script } };
+    },
+  };
+}
+
+/**
+ * Generate a bash (or zsh via bashcompinit) completion script
+ */
+async function renderCompletion(program: CliProgram, shell: 'bash' | 'zsh', bin: string): Promise<string> {
+  const sources = {
+    jobs: await program.completionSources.jobs(),
+    scripts: await program.completionSources.scripts(),
+  };
+  const candidatesFor = (source?: CompletionSource): string[] =>
+    source && source !== 'files' ? sources[source] : [];
+
+  const nodes: Array<{ path: string; spec: CommandSpec }> = [];
+  const visit = (spec: CommandSpec, path: string[]) => {
+    nodes.push({ path: path.join(' '), spec });
+    for (const sub of spec.subcommands ?? []) visit(sub, [...path, sub.name]);
+  };
+  visit(rootSpec(program), []);
+
+  const quote = (s: string) => `'${s.replace(/'/g, `'\\''`)}'`;
+  const wordsFor = (spec: CommandSpec): string[] => {
+    const fallback = spec.subcommands?.find((c) => c.name === spec.defaultSubcommand);
+    const own = [
+      ...(spec.subcommands ?? []).map((c) => c.name),
+      ...[...(spec.flags ?? []), ...GLOBAL_FLAGS].map((f) => `--${f.name}`),
+      ...candidatesFor(spec.positionals?.[0]?.complete),
+    ];
+    return [...new Set([...own, ...(fallback ? wordsFor(fallback) : [])])];
+  };
+
+  const fn = `_${bin.replace(/[^a-zA-Z0-9]/g, '_')}_complete`;
+  const commandPaths = nodes.filter((n) => n.path).map((n) => quote(n.path));
+
+  const valueCases: string[] = [];
+  for (const { path, spec } of nodes) {
+    const specs = [spec, spec.subcommands?.find((c) => c.name === spec.defaultSubcommand)].filter(
+      (s): s is CommandSpec => !!s
+    );
+    for (const flag of specs.flatMap((s) => s.flags ?? [])) {
+      if (flag.type === 'boolean') continue;
+      const key = quote(`${path}:--${flag.name}`);
+      const values = flag.choices ?? candidatesFor(flag.complete);
+      if (values.length > 0) {
+        valueCases.push(`    ${key}) COMPREPLY=($(compgen -W ${quote(values.join(' '))} -- "$cur")); return ;;`);
+      } else if (flag.complete === 'files') {
+        valueCases.push(`    ${key}) COMPREPLY=($(compgen -f -- "$cur")); return ;;`);
+      } else {
+        valueCases.push(`    ${key}) COMPREPLY=(); return ;;`);
+      }
+    }
+  }
+
+  const wordCases = nodes.map(({ path, spec }) => `    ${quote(path)}) words=${quote(wordsFor(spec).join(' '))} ;;`);
+
+  const lines = [
+    `# ${shell} completion for ${bin} (generated by "${program.invocation} completion ${shell}")`,
+    ...(shell === 'zsh' ? ['autoload -U +X bashcompinit && bashcompinit'] : []),
+    `${fn}() {`,
+    '  local cur prev cmd word words i',
+    '  cur="${COMP_WORDS[COMP_CWORD]}"',
+    '  prev="${COMP_WORDS[COMP_CWORD-1]}"',
+    '  cmd=""',
+    '  for ((i = 1; i < COMP_CWORD; i++)); do',
+    '    word="${COMP_WORDS[i]}"',
+    '    case "${cmd:+$cmd }$word" in',
+    `      ${commandPaths.join('|')}) cmd="\${cmd:+$cmd }$word" ;;`,
+    '    esac',
+    '  done',
+    '  case "$cmd:$prev" in',
+    ...valueCases,
+    '  esac',
+    '  case "$cmd" in',
+    ...wordCases,
+    '    *) words="" ;;',
+    '  esac',
+    '  COMPREPLY=($(compgen -W "$words" -- "$cur"))',
+    '}',
+    `complete -o default -F ${fn} ${bin}`,
+    '',
+  ];
+  return lines.join('\n');
+}
@@ -0,0 +1,215 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { JobConfig } from '../jobs/JobConfig.js';
+import { JobLogger } from '../utils/logger.js';
+import { sha256, stableStringify } from '../utils/hashing.js';
+import { computeJobVersion, versionKey } from '../utils/versioning.js';
+import { ConcurrentProcessor } from './ConcurrentProcessor.js';
+
+/**
+ * Fingerprint of one input row
+ *
+ * `key` is the output file name the row produces (same naming as
+ * ConcurrentProcessor.generateFileName), so fingerprints line up with
+ * per-decision JSONs and --resume-from.
+ */
+export interface InputFingerprint {
+  key: string;
+  contentHash: string;
+  promptVersion: string;
+  model: string;
+  fingerprint: string;
+}
+
+/**
+ * Change detection statistics
+ */
+export interface ChangeDetectionStats {
+  total: number;
+  new: number;
+  changed: number;
+  unchanged: number;
+  /** Rows without decision/provision identifiers (always dispatched) */
+  unkeyed: number;
+}
+
+/**
+ * Change Detector
+ *
+ * Fingerprints input rows as hash(content, prompt version, model) and
+ * compares them against the fingerprints of prior successful outputs
+ * across every run of the job:
+ * - full-data/<job>/<timestamp>/fingerprints.jsonl
+ * - concurrent/results/<job>/<model>/<timestamp>/fingerprints.jsonl
+ *
+ * Content is `full_md` when the row has it, otherwise every row field
+ * (override with JobConfig.changeDetectionFields). The prompt version is
+ * the job's prompt/schema version (see computeJobVersion).
+ */
+export class ChangeDetector {
+  static readonly FINGERPRINTS_FILE = 'fingerprints.jsonl';
+
+  private config: JobConfig;
+  private logger: JobLogger;
+  private promptVersion: string;
+  private model: string;
+
+  constructor(config: JobConfig) {
+    this.config = config;
+    this.logger = new JobLogger(`ChangeDetector:${config.id}`);
+    this.promptVersion = versionKey(computeJobVersion(config));
+    this.model = config.model || config.deploymentName || 'gpt-5-mini';
+  }
+
+  /**
+   * Fingerprint a raw input row
+   *
+   * @param metadata Row metadata (decision_id, language, ...)
+   * @returns null when the row has no stable identifier
+   */
+  fingerprint(row: any, metadata: Record<string, any> = {}): InputFingerprint | null {
+    const key = ConcurrentProcessor.generateFileName(
+      metadata,
+      metadata.decision_id || null,
+      metadata.language || null,
+      ''
+    );
+    if (!key) return null;
+
+    const contentHash = sha256(stableStringify(this.selectContent(row)));
+    const fingerprint = sha256(`${contentHash}|${this.promptVersion}|${this.model}`);
+
+    return { key, contentHash, promptVersion: this.promptVersion, model: this.model, fingerprint };
+  }
+
+  /**
+   * Keep rows that are new or whose fingerprint differs from every prior
+   * successful output
+   *
+   * @param rows Raw input rows
+   * @param metadataOf Metadata extractor (same as used for output naming)
+   */
+  async filterChanged(
+    rows: any[],
+    metadataOf: (row: any) => Record<string, any>
+  ): Promise<{ rows: any[]; stats: ChangeDetectionStats }> {
+    const prior = await this.loadPriorFingerprints();
+    const stats: ChangeDetectionStats = { total: rows.length, new: 0, changed: 0, unchanged: 0, unkeyed: 0 };
+
+    const changedRows = rows.filter((row) => {
+      const current = this.fingerprint(row, metadataOf(row));
+      if (!current) {
+        stats.unkeyed++;
+        return true;
+      }
+
+      const seen = prior.get(current.key);
+      if (!seen) {
+        stats.new++;
+        return true;
+      }
+      if (!seen.has(current.fingerprint)) {
+        stats.changed++;
+        return true;
+      }
+
+      stats.unchanged++;
+      return false;
+    });
+
+    this.logger.info('Change detection complete', { ...stats, promptVersion: this.promptVersion, model: this.model });
+
+    return { rows: changedRows, stats };
+  }
+
+  /**
+   * Load fingerprints of prior successful outputs (key → fingerprints)
+   */
+  async loadPriorFingerprints(): Promise<Map<string, Set<string>>> {
+    const prior = new Map<string, Set<string>>();
+    const files = await this.findFingerprintFiles();
+
+    for (const file of files) {
+      const content = await fs.readFile(file, 'utf-8');
+      for (const line of content.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          const entry = JSON.parse(line) as InputFingerprint;
+          if (!prior.has(entry.key)) prior.set(entry.key, new Set());
+          prior.get(entry.key)!.add(entry.fingerprint);
+        } catch {
+          // Partially written line from an interrupted run
+        }
+      }
+    }
+
+    this.logger.info(`Loaded fingerprints for ${prior.size} outputs from ${files.length} prior runs`);
+    return prior;
+  }
+
+  /**
+   * Append fingerprints of successful outputs to a run directory
+   */
+  static async append(directory: string, entries: InputFingerprint[]): Promise<void> {
+    if (entries.length === 0) return;
+    await fs.mkdir(directory, { recursive: true });
+    await fs.appendFile(
+      path.join(directory, ChangeDetector.FINGERPRINTS_FILE),
+      entries.map((e) => JSON.stringify(e)).join('\n') + '\n',
+      'utf-8'
+    );
+  }
+
+  private selectContent(row: any): any {
+    const fields = this.config.changeDetectionFields
+      ?? (row.full_md !== undefined ? ['full_md'] : Object.keys(row).filter((k) => !k.startsWith('_')));
+
+    const content: Record<string, any> = {};
+    for (const field of fields) {
+      content[field] = row[field];
+    }
+    return content;
+  }
+
+  private async findFingerprintFiles(): Promise<string[]> {
+    const roots = [
+      { dir: path.join(process.cwd(), 'full-data', this.config.id), depth: 1 },
+      { dir: path.join(process.cwd(), 'concurrent', 'results', this.config.id), depth: 2 },
+    ];
+
+    const files: string[] = [];
+    for (const { dir, depth } of roots) {
+      for (const runDir of await listDirectories(dir, depth)) {
+        const file = path.join(runDir, ChangeDetector.FINGERPRINTS_FILE);
+        try {
+          await fs.access(file);
+          files.push(file);
+        } catch {
+          // Run predates change detection
+        }
+      }
+    }
+    return files;
+  }
+}
+
+/**
+ * Directories exactly `depth` levels below `root` (empty if root is missing)
+ */
+async function listDirectories(root: string, depth: number): Promise<string[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(root, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const dirs = entries.filter((e) => e.isDirectory()).map((e) => path.join(root, e.name));
+  if (depth <= 1) return dirs;
+
+  const nested: string[] = [];
+  for (const dir of dirs) {
+    nested.push(...await listDirectories(dir, depth - 1));
+  }
+  return nested;
+}
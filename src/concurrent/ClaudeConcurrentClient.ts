@@ -1,5 +1,10 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { AnthropicConfig } from '../config/anthropic.js';
+import { MockConfig } from '../config/mock.js';
+import { MockResponseStore } from '../core/providers/MockResponseStore.js';
+import { CassetteConfig } from '../config/cassette.js';
+import { LLMCassette } from './LLMCassette.js';
+import { BudgetScope, BudgetTracker } from '../core/BudgetTracker.js';
 import { JobLogger } from '../utils/logger.js';
 
 /**
@@ -20,16 +25,46 @@ export interface CompletionSettings {
  * Handles retry logic, rate limiting, and error handling for concurrent requests.
  */
 export class ClaudeConcurrentClient {
-  private client: Anthropic;
+  /** Null when no SDK client is needed (mock, cassette replay) */
+  private client: Anthropic | null = null;
   private logger: JobLogger;
   private defaultModel: string;
+  private mockStore: MockResponseStore | null = null;
+  private cassette: LLMCassette | null = null;
 
   constructor(jobId: string) {
+    if (MockConfig.isEnabled()) {
+      // Offline mock (LLM_PROVIDER=mock): no SDK client is created
+      this.defaultModel = 'mock';
+      this.mockStore = new MockResponseStore();
+      this.logger = new JobLogger(`Mock:${jobId}`);
+      return;
+    }
+
+    // Record/replay cassettes (LLM_CASSETTE_MODE)
+    this.cassette = LLMCassette.fromEnv(jobId);
+    if (this.cassette && CassetteConfig.isReplay()) {
+      // Replay serves cassettes only: no SDK client or credentials needed
+      this.defaultModel = 'default';
+      this.logger = new JobLogger(`Replay:${jobId}`);
+      return;
+    }
+
     this.client = AnthropicConfig.getClient();
     this.defaultModel = AnthropicConfig.getModel();
     this.logger = new JobLogger(`Claude:${jobId}`);
   }
 
+  /**
+   * SDK client for live API calls
+   */
+  private requireClient(): Anthropic {
+    if (!this.client) {
+      throw new Error('No Anthropic client configured for this provider');
+    }
+    return this.client;
+  }
+
   /**
    * Make a Messages API request with structured outputs
    *
@@ -42,6 +77,59 @@ export class ClaudeConcurrentClient {
     messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
     responseFormat: any,
     settings: CompletionSettings
+  ): Promise<any> {
+    const budget = BudgetTracker.current();
+    budget?.tracker.assertCanCall();
+
+    if (this.mockStore) {
+      return this.recordUsage(budget, 'mock', await this.mockStore.complete(messages, responseFormat));
+    }
+
+    const callApi = async () => this.recordUsage(
+      budget,
+      settings.model || this.defaultModel,
+      await this.callApi(messages, responseFormat, settings)
+    );
+
+    if (this.cassette) {
+      return this.cassette.wrap(
+        {
+          provider: 'anthropic',
+          model: settings.model || 'default',
+          messages,
+          responseFormat,
+          settings: { ...settings },
+        },
+        callApi
+      );
+    }
+
+    return callApi();
+  }
+
+  /**
+   * Record a response's usage against the caller's budget scope
+   */
+  private recordUsage(budget: BudgetScope | undefined, model: string, completion: any): any {
+    if (budget && completion?.usage) {
+      budget.tracker.record(
+        { ...budget.context, model },
+        {
+          promptTokens: completion.usage.prompt_tokens || 0,
+          completionTokens: completion.usage.completion_tokens || 0,
+        }
+      );
+    }
+    return completion;
+  }
+
+  /**
+   * Call the Messages API with retry
+   */
+  private async callApi(
+    messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
+    responseFormat: any,
+    settings: CompletionSettings
   ): Promise<any> {
     return this.retryWithBackoff(async () => {
       try {
@@ -51,7 +139,7 @@ export class ClaudeConcurrentClient {
           settings
         );
 
-        const response = await this.client.messages.create({
+        const response = await this.requireClient().messages.create({
           ...requestBody,
           stream: false, // Ensure we get a Message, not a Stream
         }) as Anthropic.Message;
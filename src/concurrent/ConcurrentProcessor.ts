@@ -2,6 +2,13 @@ import fs from 'fs/promises';
 import path from 'path';
 import { JobConfig } from '../jobs/JobConfig.js';
 import { JobLogger } from '../utils/logger.js';
+import { MockConfig } from '../config/mock.js';
+import { ResultsDatabaseConfig } from '../config/resultsDatabase.js';
+import { ResultsSink } from '../results-sink/ResultsSink.js';
+import { ChangeDetector, InputFingerprint } from './ChangeDetector.js';
+import { computeJobVersion, PromptSchemaVersion, VERSION_FIELD } from '../utils/versioning.js';
+import { applyReviewTiers, CONSENSUS_FIELD, ConsensusReport } from '../core/SelfConsistency.js';
+import { RepairReport, RepairSummary, summarizeRepairs } from '../core/OutputRepair.js';
 import {
   validator,
   ValidationResult,
@@ -21,6 +28,10 @@ export interface ProcessedResult {
     completionTokens: number;
     totalTokens: number;
   };
+  fingerprint?: InputFingerprint; // Input fingerprint (recorded on success for change detection)
+  consensus?: ConsensusReport; // Self-consistency report (written with the result)
+  repair?: RepairReport; // Structured-output repair attempts (set only when a repair was sent)
+  chunks?: number; // Chunks of a long decision (set only when the row was chunked)
 }
 
 /**
@@ -30,7 +41,7 @@ export interface ProcessedResult {
  * at the time of execution for full reproducibility.
  */
 export interface ExperimentConfig {
-  provider: 'azure' | 'openai' | 'anthropic';
+  provider: 'azure' | 'openai' | 'anthropic' | 'mock';
   model: string;
   maxCompletionTokens?: number;
   temperature?: number;
@@ -59,7 +70,10 @@ export interface ConcurrentSummary {
   fullDataDirectory?: string;
   jsonDirectory?: string;
   errorsByType?: Record<string, number>;
+  repairs?: RepairSummary;
+  chunkedRecords?: number;
   experimentConfig: ExperimentConfig;
+  promptSchemaVersion: PromptSchemaVersion;
 }
 
 interface FailureRecord {
@@ -90,6 +104,7 @@ interface FailureRecord {
 export class ConcurrentProcessor {
   private config: JobConfig;
   private logger: JobLogger;
+  private version: PromptSchemaVersion;
   private streamingState?: {
     jsonDirectory: string;
     successCount: number;
@@ -101,6 +116,7 @@ export class ConcurrentProcessor {
   constructor(config: JobConfig) {
     this.config = config;
     this.logger = new JobLogger(`ConcurrentProcessor:${config.id}`);
+    this.version = computeJobVersion(config);
 
     // Compile the output schema for validation
     validator.compileSchema(config.id, config.outputSchema);
@@ -204,10 +220,10 @@ export class ConcurrentProcessor {
         }
       }
 
-      // Success - merge metadata and write immediately
-      const finalData = metadata && Object.keys(metadata).length > 0
+      // Success - merge metadata, stamp version and write immediately
+      const finalData = this.stampVersion(metadata && Object.keys(metadata).length > 0
         ? { ...metadata, ...processedData }
-        : processedData;
+        : processedData, result.consensus);
 
       try {
         await this.writeSuccessJson(
@@ -218,6 +234,9 @@ export class ConcurrentProcessor {
           result.customId,
           metadata
         );
+        if (result.fingerprint) {
+          await ChangeDetector.append(path.dirname(this.streamingState.jsonDirectory), [result.fingerprint]);
+        }
         this.streamingState.successCount++;
         if (result.tokenUsage) {
           this.streamingState.totalTokens += result.tokenUsage.totalTokens;
@@ -311,7 +330,10 @@ export class ConcurrentProcessor {
       fullDataDirectory,
       jsonDirectory: this.streamingState.jsonDirectory,
       errorsByType: this.streamingState.errorsByType,
+      repairs: summarizeRepairs(results.map((r) => r.repair)),
+      chunkedRecords: results.filter((r) => r.chunks !== undefined).length,
       experimentConfig: this.extractExperimentConfig(),
+      promptSchemaVersion: this.version,
     };
 
     // Write summary and failures to both locations
@@ -320,6 +342,8 @@ export class ConcurrentProcessor {
       this.persistRunArtifacts(legacyOutputDir, summary, this.streamingState.failures),
     ]);
 
+    await this.writeBackResults(fullDataDirectory);
+
     this.logger.info('Streaming results finalized', {
       fullDataDirectory,
       jsonDirectory: this.streamingState.jsonDirectory,
@@ -368,6 +392,7 @@ export class ConcurrentProcessor {
     const successfulResults: any[] = [];
     const allResults: any[] = []; // All results (successes + failures)
     const failures: FailureRecord[] = [];
+    const fingerprints: InputFingerprint[] = [];
     const errorsByType: Record<string, number> = {};
 
     let validationErrors = 0;
@@ -460,14 +485,17 @@ export class ConcurrentProcessor {
       }
 
       // Success - merge metadata with model output
-      const dataWithMetadata = metadata && Object.keys(metadata).length > 0
+      const dataWithMetadata = this.stampVersion(metadata && Object.keys(metadata).length > 0
         ? { ...metadata, ...processedData }
-        : processedData;
+        : processedData, result.consensus);
 
       // Both extracted-data and successful-results include metadata
       // This ensures evaluation and dependency systems always have decision_id, language, etc.
       extractedData.push(dataWithMetadata);
       successfulResults.push(dataWithMetadata);
+      if (result.fingerprint) {
+        fingerprints.push(result.fingerprint);
+      }
 
       // Add to all-results with success
       allResults.push({
@@ -500,7 +528,10 @@ export class ConcurrentProcessor {
       successRate: totalRecords > 0 ? `${((successfulRecords / totalRecords) * 100).toFixed(1)}%` : '0.0%',
       outputDirectory: outputDir,
       errorsByType,
+      repairs: summarizeRepairs(results.map((r) => r.repair)),
+      chunkedRecords: results.filter((r) => r.chunks !== undefined).length,
       experimentConfig: this.extractExperimentConfig(),
+      promptSchemaVersion: this.version,
     };
 
     // Write all 5 files
@@ -530,6 +561,7 @@ export class ConcurrentProcessor {
         JSON.stringify(summary, null, 2),
         'utf-8'
       ),
+      ChangeDetector.append(outputDir, fingerprints),
     ]);
 
     this.logger.info('Standard pipeline completed', {
@@ -585,6 +617,7 @@ export class ConcurrentProcessor {
     ]);
 
     const failures: FailureRecord[] = [];
+    const fingerprints: InputFingerprint[] = [];
     const errorsByType: Record<string, number> = {};
 
     let successfulRecords = 0;
@@ -656,13 +689,16 @@ export class ConcurrentProcessor {
         }
       }
 
-      // Success - merge metadata and write immediately
-      const finalData = metadata && Object.keys(metadata).length > 0
+      // Success - merge metadata, stamp version and write immediately
+      const finalData = this.stampVersion(metadata && Object.keys(metadata).length > 0
         ? { ...metadata, ...processedData }
-        : processedData;
+        : processedData, result.consensus);
 
       try {
         await this.writeSuccessJson(jsonDirectory, finalData, decisionId, language, result.customId, metadata);
+        if (result.fingerprint) {
+          fingerprints.push(result.fingerprint);
+        }
         successfulRecords++;
         if (result.tokenUsage) {
           totalTokens += result.tokenUsage.totalTokens;
@@ -698,15 +734,21 @@ export class ConcurrentProcessor {
       fullDataDirectory,
       jsonDirectory,
       errorsByType,
+      repairs: summarizeRepairs(results.map((r) => r.repair)),
+      chunkedRecords: results.filter((r) => r.chunks !== undefined).length,
       experimentConfig: this.extractExperimentConfig(),
+      promptSchemaVersion: this.version,
     };
 
     // Write summary and failures to both locations
     await Promise.all([
       this.persistRunArtifacts(fullDataDirectory, summary, failures),
       this.persistRunArtifacts(legacyOutputDir, summary, failures),
+      ChangeDetector.append(fullDataDirectory, fingerprints),
     ]);
 
+    await this.writeBackResults(fullDataDirectory);
+
     this.logger.info('Full-data pipeline completed', {
       fullDataDirectory,
       jsonDirectory,
@@ -726,7 +768,7 @@ export class ConcurrentProcessor {
    */
   private extractExperimentConfig(): ExperimentConfig {
     return {
-      provider: this.config.provider || 'azure',
+      provider: MockConfig.isEnabled() ? 'mock' : this.config.provider || 'azure',
       model: this.config.model || this.config.deploymentName || 'unknown',
       maxCompletionTokens: this.config.maxCompletionTokens,
       temperature: this.config.temperature,
@@ -879,6 +921,47 @@ export class ConcurrentProcessor {
 
 
 
+  /**
+   * Stamp the prompt/schema version (and self-consistency report and review
+   * tiers) into a result object
+   *
+   * Added after schema validation, so strict output schemas stay unchanged.
+   */
+  private stampVersion(data: any, consensus?: ConsensusReport): any {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      return data;
+    }
+    return {
+      ...(consensus && this.config.selfConsistency
+        ? applyReviewTiers(data, consensus, this.config.selfConsistency)
+        : data),
+      [VERSION_FIELD]: this.version,
+      ...(consensus ? { [CONSENSUS_FIELD]: consensus } : {}),
+    };
+  }
+
+  /**
+   * Upsert the run into the results database when RESULTS_WRITE_BACK=true
+   *
+   * JSON files remain the source of truth, so a failed write-back is logged
+   * and can be repeated later with `npm run results:sync`.
+   */
+  private async writeBackResults(fullDataDirectory: string): Promise<void> {
+    if (!ResultsDatabaseConfig.isWriteBackEnabled()) {
+      return;
+    }
+
+    try {
+      const stats = await ResultsSink.syncDirectory(fullDataDirectory, this.config.id);
+      this.logger.info('Results written back to results database', stats);
+    } catch (error) {
+      this.logger.error('Results write-back failed', error, { fullDataDirectory });
+    } finally {
+      // Idle pool connections would otherwise keep the process alive
+      await ResultsDatabaseConfig.close();
+    }
+  }
+
   /**
    * Persist summary and failures to directory
    */
@@ -3,11 +3,18 @@ import fs from 'fs/promises';
 import { JobConfig } from '../jobs/JobConfig.js';
 import { DatabaseConfig } from '../config/database.js';
 import { JobLogger } from '../utils/logger.js';
+import { validator } from '../utils/validators.js';
 import { OpenAIConcurrentClient, CompletionSettings as OpenAICompletionSettings } from './OpenAIConcurrentClient.js';
 import { ClaudeConcurrentClient, CompletionSettings as ClaudeCompletionSettings } from './ClaudeConcurrentClient.js';
-import { ConcurrentProcessor, ProcessedResult } from './ConcurrentProcessor.js';
-import { extractJsonFromResponse } from '../utils/validators.js';
+import { ConcurrentProcessor, ConcurrentSummary, ProcessedResult } from './ConcurrentProcessor.js';
+import { ChangeDetector } from './ChangeDetector.js';
 import { DependencyResolver } from '../core/DependencyResolver.js';
+import { BudgetExceededError, BudgetStopPoint, BudgetTracker, CostReport } from '../core/BudgetTracker.js';
+import { reconcileSamples, sampleModels, SelfConsistencyConfig } from '../core/SelfConsistency.js';
+import { buildRepairPrompt, checkOutput, DEFAULT_REPAIR_ATTEMPTS, OutputProblem, RepairReport, repairTokenLimit } from '../core/OutputRepair.js';
+import { chunkRow, DecisionChunk, planChunks } from '../core/Chunking.js';
+import { configHash, RunRegistry } from '../lineage/RunRegistry.js';
+import { RunRecord } from '../lineage/types.js';
 import pLimit from 'p-limit';
 
 // Union type for completion settings
@@ -20,6 +27,49 @@ export interface ConcurrentOptions {
   concurrencyLimit?: number;
   timeout?: number; // Timeout per request in milliseconds
   resumeFrom?: string | string[]; // Directory to resume from (full-data pipeline)
+  onlyChanged?: boolean; // Skip rows whose fingerprint matches a prior successful output
+  maxCostUsd?: number; // Budget override (default: JobConfig.maxCostUsd)
+  maxTokens?: number; // Budget override (default: JobConfig.maxTokens)
+  samples?: number; // Self-consistency samples per row (default: JobConfig.selfConsistency.samples)
+  repairAttempts?: number; // Repair prompts per row for invalid output (default: JobConfig.repairAttempts)
+}
+
+/**
+ * Outcome of a row: one completion, or reconciled samples (error set when it failed)
+ */
+interface RowOutcome {
+  data?: any;
+  error?: string;
+  tokenUsage?: ProcessedResult['tokenUsage'];
+  consensus?: ProcessedResult['consensus'];
+  repair?: ProcessedResult['repair'];
+  chunks?: ProcessedResult['chunks'];
+}
+
+/**
+ * Token usage of several completions (samples or chunks of one row)
+ */
+function sumTokenUsage(outcomes: RowOutcome[]): NonNullable<RowOutcome['tokenUsage']> {
+  return outcomes.reduce(
+    (sum, o) => ({
+      promptTokens: sum.promptTokens + (o.tokenUsage?.promptTokens ?? 0),
+      completionTokens: sum.completionTokens + (o.tokenUsage?.completionTokens ?? 0),
+      totalTokens: sum.totalTokens + (o.tokenUsage?.totalTokens ?? 0),
+    }),
+    { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+  );
+}
+
+/**
+ * Repair reports of several completions of one row, as one report
+ */
+function mergeRepairs(outcomes: RowOutcome[]): RepairReport | undefined {
+  const repairs = outcomes.flatMap((o) => (o.repair ? [o.repair] : []));
+  return repairs.length === 0 ? undefined : {
+    attempts: repairs.reduce((sum, r) => sum + r.attempts, 0),
+    repaired: repairs.every((r) => r.repaired),
+    problems: repairs.flatMap((r) => r.problems),
+  };
 }
 
 /**
@@ -28,6 +78,15 @@ export interface ConcurrentOptions {
  */
 export type ResultCallback = (result: ProcessedResult) => Promise<void> | void;
 
+/**
+ * Outcome of a concurrent run (summary is null when nothing was dispatched)
+ */
+export interface ConcurrentRunResult {
+  summary: ConcurrentSummary | null;
+  cost: CostReport;
+  budgetStop?: BudgetStopPoint;
+}
+
 /**
  * Concurrent Runner
  *
@@ -41,6 +100,12 @@ export class ConcurrentRunner {
   private client: OpenAIConcurrentClient | ClaudeConcurrentClient;
   private processor: ConcurrentProcessor;
   private dependencyResolver: DependencyResolver | null;
+  private changeDetector: ChangeDetector;
+  private budget: BudgetTracker;
+  private deferredCount = 0;
+  private selfConsistency: SelfConsistencyConfig | null;
+  private sampleClients = new Map<string, OpenAIConcurrentClient>();
+  private repairAttempts: number;
 
   constructor(config: JobConfig, options: ConcurrentOptions = {}) {
     this.config = config;
@@ -51,20 +116,35 @@ export class ConcurrentRunner {
         200,
       timeout: options.timeout || 600000, // 10 minutes default (required for Claude)
       resumeFrom: options.resumeFrom,
+      onlyChanged: options.onlyChanged,
     };
     this.logger = new JobLogger(`ConcurrentRunner:${config.id}`);
+    this.budget = new BudgetTracker({
+      maxCostUsd: options.maxCostUsd ?? config.maxCostUsd,
+      maxTokens: options.maxTokens ?? config.maxTokens,
+      onExceeded: config.onBudgetExceeded,
+    });
 
     // Select client based on provider
     this.client = config.provider === 'anthropic'
       ? new ClaudeConcurrentClient(config.id)
       : new OpenAIConcurrentClient(config.id, {
-          openaiProvider: config.openaiProvider,
+          openaiProvider: config.provider === 'mock' ? 'mock' : config.openaiProvider,
           model: config.model,
           maxConcurrentApiCalls: config.maxConcurrentApiCalls,
           requestsPerSecond: config.requestsPerSecond,
         });
 
+    // Self-consistency voting (more than one sample per row)
+    const samples = options.samples ?? config.selfConsistency?.samples ?? 1;
+    if (samples > 1 && !config.selfConsistency) {
+      throw new Error(`Job ${config.id} has no selfConsistency config: samples cannot be aligned`);
+    }
+    this.selfConsistency = samples > 1 ? { ...config.selfConsistency!, samples } : null;
+    this.repairAttempts = options.repairAttempts ?? config.repairAttempts ?? DEFAULT_REPAIR_ATTEMPTS;
+
     this.processor = new ConcurrentProcessor(config);
+    this.changeDetector = new ChangeDetector(config);
 
     // Initialize dependency resolver if dependencies are configured
     this.dependencyResolver =
@@ -80,9 +160,12 @@ export class ConcurrentRunner {
    * 1. Loads decisions from database
    * 2. Executes concurrent API calls with optional streaming
    * 3. Processes and validates results
-   * 4. Displays summary
+   * 4. Displays summary and cost report
+   *
+   * When the budget is crossed, rows not yet sent are deferred: results so
+   * far are persisted and budget-stop.json records how to resume.
    */
-  async run(): Promise<void> {
+  async run(): Promise<ConcurrentRunResult> {
     this.logger.started();
 
     try {
@@ -91,6 +174,12 @@ export class ConcurrentRunner {
       const decisions = await this.loadDecisions();
       this.logger.info(`Loaded ${decisions.length} decisions`);
 
+      if (decisions.length === 0 && this.options.onlyChanged) {
+        console.log('\n✅ No new or changed decisions - nothing to process\n');
+        this.logger.completed();
+        return { summary: null, cost: this.budget.buildReport() };
+      }
+
       // Step 2: Setup streaming callback for full-data pipeline
       let streamingCallback: ResultCallback | undefined;
       if (this.config.useFullDataPipeline) {
@@ -103,7 +192,10 @@ export class ConcurrentRunner {
         concurrencyLimit: this.options.concurrencyLimit,
         streamingEnabled: !!streamingCallback,
       });
-      const results = await this.executeConcurrent(decisions, streamingCallback);
+      const results = await this.budget.run(
+        { job: this.config.id, tier: 'standard' },
+        () => this.executeConcurrent(decisions, streamingCallback)
+      );
 
       // Step 4: Process and validate results (or finalize streaming results)
       this.logger.info(`Step ${streamingCallback ? '4' : '3'}: ${streamingCallback ? 'Finalizing' : 'Processing and validating'} results`);
@@ -116,9 +208,20 @@ export class ConcurrentRunner {
       console.log(`Successful: ${summary.successfulRecords} (${summary.successRate})`);
       console.log(`Failed: ${summary.failedRecords}`);
       console.log(`Validation errors: ${summary.validationErrors}`);
+      if (summary.chunkedRecords) {
+        console.log(`Chunked (long decisions): ${summary.chunkedRecords}`);
+      }
+      if (summary.repairs && summary.repairs.attempted > 0) {
+        console.log(`Repaired outputs: ${summary.repairs.repaired} repaired, ${summary.repairs.failed} failed (${summary.repairs.attempts} repair calls)`);
+      }
       console.log(`Total tokens: ${summary.totalTokens.toLocaleString()}`);
       console.log(`Average tokens per request: ${summary.averageTokensPerRequest.toLocaleString()}`);
 
+      if (this.selfConsistency) {
+        const mandatory = results.filter((r) => r.consensus?.reviewTier === 'mandatory_review').length;
+        console.log(`Self-consistency: ${this.selfConsistency.samples} samples per row, ${mandatory} rows need mandatory review`);
+      }
+
       if (summary.errorsByType && Object.keys(summary.errorsByType).length > 0) {
         console.log('\nErrors by type:');
         for (const [type, count] of Object.entries(summary.errorsByType)) {
@@ -139,15 +242,77 @@ export class ConcurrentRunner {
         console.log(`  - Failures: ${path.join(summary.outputDirectory, 'failures.json')} (${summary.failedRecords} records)`);
         console.log(`  - Summary: ${path.join(summary.outputDirectory, 'summary.json')}`);
       }
-      console.log('');
+
+      const runRecord = await this.registerRun(summary);
+      console.log(`  - Run registry: ${runRecord.id}${runRecord.inputs.length > 0 ? ` (inputs: ${runRecord.inputs.join(', ')})` : ''}`);
+
+      const costReport = this.budget.buildReport();
+      const costReportPath = await BudgetTracker.writeReport(summary.outputDirectory, costReport);
+      console.log(`  - Cost report: ${costReportPath}`);
+      BudgetTracker.printReport(costReport);
+
+      let budgetStop: BudgetStopPoint | undefined;
+      if (this.budget.isExceeded) {
+        budgetStop = await this.writeBudgetStop(summary.outputDirectory, results.length);
+        if (this.budget.action === 'abort') {
+          throw new BudgetExceededError(`Budget exceeded: ${this.budget.reason}`);
+        }
+      }
 
       this.logger.completed();
+      return { summary, cost: costReport, budgetStop };
     } catch (error) {
       this.logger.failed(error);
       throw error;
     }
   }
 
+  /**
+   * Record the run in the run registry with the upstream runs it read
+   */
+  private async registerRun(summary: ConcurrentSummary): Promise<RunRecord> {
+    let record: RunRecord | undefined;
+    await RunRegistry.update((registry) => {
+      record = registry.register({
+        jobId: this.config.id,
+        kind: this.config.useFullDataPipeline ? 'full-data' : 'concurrent',
+        directory: summary.outputDirectory,
+        configHash: configHash(summary.experimentConfig, summary.promptSchemaVersion),
+        model: summary.model,
+        promptSchemaVersion: summary.promptSchemaVersion,
+        inputs: [...(this.config.inputRuns ?? []), ...(this.dependencyResolver?.inputRuns() ?? [])],
+      });
+    });
+    return record!;
+  }
+
+  /**
+   * Write the resumable stop point after a budget stop
+   *
+   * Full-data runs resume with --resume-from (completed JSONs are skipped);
+   * standard runs resume with --only-changed (fingerprints of successful
+   * outputs are skipped).
+   */
+  private async writeBudgetStop(outputDirectory: string, processed: number): Promise<BudgetStopPoint> {
+    const resumeArgs = this.config.useFullDataPipeline
+      ? [...this.resumePaths(), outputDirectory].map((dir) => `--resume-from ${dir}`).join(' ')
+      : '--only-changed';
+    const resume = `npm run dev concurrent ${this.config.id} ${resumeArgs}`;
+
+    const stopPoint = this.budget.stopPoint(processed, this.deferredCount, resume);
+    const stopPath = await BudgetTracker.writeStopPoint(outputDirectory, stopPoint);
+
+    console.log(`${this.budget.action === 'abort' ? '🛑 Aborted' : '⏸️  Paused'}: ${this.deferredCount} decisions deferred (${this.budget.reason})`);
+    console.log(`   Stop point: ${stopPath}`);
+    console.log(`   Resume with: ${resume}\n`);
+    return stopPoint;
+  }
+
+  private resumePaths(): string[] {
+    const { resumeFrom } = this.options;
+    return Array.isArray(resumeFrom) ? resumeFrom : resumeFrom ? [resumeFrom] : [];
+  }
+
   /**
    * Load decisions from database
    *
@@ -225,13 +390,25 @@ export class ConcurrentRunner {
         });
         
         this.logger.info(`Resuming: Skipped ${originalCount - filteredRows.length} already processed records. Remaining: ${filteredRows.length}`);
-        return filteredRows;
+        rows = filteredRows;
       } else {
         this.logger.warn('Resume director(y/ies) found but contained no valid JSON files. Processing all records.');
       }
       }
     }
 
+    // Step 4: Keep only new or changed rows (fingerprint comparison across prior runs)
+    if (this.options.onlyChanged) {
+      const { rows: changedRows, stats } = await this.changeDetector.filterChanged(
+        rows,
+        (row) => this.extractMetadata(row) || {}
+      );
+
+      console.log(`\n🔍 Change detection: ${stats.new} new, ${stats.changed} changed, ${stats.unchanged} unchanged` +
+        (stats.unkeyed > 0 ? `, ${stats.unkeyed} without identifiers` : ''));
+      rows = changedRows;
+    }
+
     return rows;
   }
 
@@ -290,59 +467,219 @@ export class ConcurrentRunner {
         };
       }
 
-      // Check for custom execution (e.g., two-stage processing)
-      if (this.config.customExecution) {
-        const data = await this.config.customExecution(row, this.client);
+      const outcome = this.selfConsistency
+        ? await this.executeSamples(row, this.selfConsistency)
+        : await this.executeRow(row, this.defaultModel(), this.client);
+
+      if (outcome.error !== undefined) {
         return {
           customId,
-          success: true,
-          data,
+          success: false,
+          error: outcome.error,
           metadata,
+          repair: outcome.repair,
+          chunks: outcome.chunks,
         };
       }
 
-      // Standard single-stage execution
-      // Generate prompt
-      const prompt = this.config.promptTemplate!(row);
-
-      // Prepare messages
-      const messages = [
-        {
-          role: 'system' as const,
-          content:
-            'Return ONLY a single JSON object matching the schema. No markdown, no prose, no code blocks.',
-        },
-        {
-          role: 'user' as const,
-          content: prompt,
-        },
-      ];
-
-      // Prepare response format
-      const responseFormat = this.config.outputSchemaName
-        ? {
-            type: 'json_schema' as const,
-            json_schema: {
-              name: this.config.outputSchemaName,
-              schema: this.config.outputSchema,
-              strict: true,
-            },
-          }
-        : { type: 'json_object' as const };
-
-      // Prepare completion settings
-      const settings: CompletionSettings = {
-        model: this.config.model || this.config.deploymentName || 'gpt-5-mini',
-        maxOutputTokens: this.config.maxCompletionTokens,
-        reasoningEffort: this.config.reasoningEffort,
-        verbosity: this.config.verbosity,
-        temperature: this.config.temperature,
-        top_p: this.config.top_p,
+      // Success!
+      return {
+        customId,
+        success: true,
+        data: outcome.data, // Pure model output (not merged yet)
+        metadata, // Metadata to merge after validation
+        tokenUsage: outcome.tokenUsage,
+        consensus: outcome.consensus,
+        repair: outcome.repair,
+        chunks: outcome.chunks,
+      };
+    } catch (error: any) {
+      this.logger.error(`Error processing decision ${customId}`, error);
+
+      return {
+        customId,
+        success: false,
+        error: `Processing error: ${error instanceof Error ? error.message : String(error)}`,
+        metadata,
+      };
+    }
+  }
+  
+  private defaultModel(): string {
+    return this.config.model || this.config.deploymentName || 'gpt-5-mini';
+  }
+
+  /**
+   * Client for a sample model (Claude clients take the model per request)
+   */
+  private clientFor(model: string): OpenAIConcurrentClient | ClaudeConcurrentClient {
+    if (model === this.defaultModel() || this.client instanceof ClaudeConcurrentClient) {
+      return this.client;
+    }
+    if (!this.sampleClients.has(model)) {
+      this.sampleClients.set(model, new OpenAIConcurrentClient(this.config.id, {
+        openaiProvider: this.config.provider === 'mock' ? 'mock' : this.config.openaiProvider,
+        model,
+        maxConcurrentApiCalls: this.config.maxConcurrentApiCalls,
+        requestsPerSecond: this.config.requestsPerSecond,
+      }));
+    }
+    return this.sampleClients.get(model)!;
+  }
+
+  /**
+   * Sample a row several times and reconcile the outputs
+   *
+   * Samples run in parallel; a failed sample, or one that violates the
+   * output schema, counts as a sample without any item (see
+   * reconcileSamples). The row fails only when every sample failed.
+   */
+  private async executeSamples(
+    row: any,
+    consistency: SelfConsistencyConfig
+  ): Promise<RowOutcome> {
+    const models = sampleModels(consistency, this.defaultModel());
+    const outcomes = await Promise.all(models.map((model) =>
+      this.executeRow(row, model, this.clientFor(model)).catch((error): RowOutcome => ({
+        error: `Processing error: ${error instanceof Error ? error.message : String(error)}`,
+      }))
+    ));
+
+    const tokenUsage = sumTokenUsage(outcomes);
+    // Repairs of all samples count as one row
+    const repair = mergeRepairs(outcomes);
+
+    if (outcomes.every((o) => o.error !== undefined)) {
+      return { error: `All ${outcomes.length} samples failed: ${outcomes[0].error}`, tokenUsage, repair };
+    }
+
+    const outputs = outcomes.map((o) =>
+      o.error === undefined && validator.validate(this.config.id, o.data).valid ? o.data : null
+    );
+    if (outputs.every((o) => o === null)) {
+      // No valid sample to vote on: the processor records the schema failure
+      return { data: outcomes.find((o) => o.error === undefined)!.data, tokenUsage, repair };
+    }
+
+    const { data, report } = reconcileSamples(outputs, consistency, models);
+    return { data, tokenUsage, consensus: report, repair };
+  }
+
+  /**
+   * Run a row chunk by chunk and merge the outputs with the job's reducer
+   *
+   * Chunks run in parallel; the row fails when any chunk fails, since a
+   * partial merge would silently drop whatever the failed chunk contained.
+   * Chunk outputs only need to parse: one chunk may legitimately miss
+   * required content, so the schema is checked on the reduced output (by
+   * the processor, like any other row).
+   */
+  private async executeChunks(
+    row: any,
+    chunks: DecisionChunk[],
+    model: string,
+    client: OpenAIConcurrentClient | ClaudeConcurrentClient
+  ): Promise<RowOutcome> {
+    const chunking = this.config.chunking!;
+    this.logger.info(`Decision ${row.decision_id} exceeds the input budget: processing ${chunks.length} chunks`);
+
+    const outcomes = await Promise.all(
+      chunks.map((chunk) => this.executeRow(chunkRow(row, chunk, chunking), model, client))
+    );
+    const tokenUsage = sumTokenUsage(outcomes);
+    const repair = mergeRepairs(outcomes);
+
+    const failed = outcomes.findIndex((outcome) => outcome.error !== undefined);
+    if (failed >= 0) {
+      return {
+        error: `Chunk ${failed + 1}/${chunks.length} failed: ${outcomes[failed].error}`,
+        tokenUsage,
+        repair,
+        chunks: chunks.length,
       };
+    }
+
+    return {
+      data: chunking.reduce(outcomes.map((o) => o.data), row),
+      tokenUsage,
+      repair,
+      chunks: chunks.length,
+    };
+  }
+
+  /**
+   * Run one completion (or customExecution) for a row
+   *
+   * @param row Decision row
+   * @param model Model for the completion settings
+   * @param client Client for that model
+   * @returns Parsed output, or the reason it failed
+   */
+  private async executeRow(
+    row: any,
+    model: string,
+    client: OpenAIConcurrentClient | ClaudeConcurrentClient
+  ): Promise<RowOutcome> {
+    // Oversized decisions run chunk by chunk (map-reduce)
+    if (this.config.chunking && !row._chunk) {
+      const textField = this.config.chunking.textField ?? 'full_md';
+      const prompt = this.config.promptTemplate ? this.config.promptTemplate(row) : String(row[textField] ?? '');
+      const chunks = planChunks(row, prompt, this.config.chunking);
+      if (chunks) {
+        return this.executeChunks(row, chunks, model, client);
+      }
+    }
+
+    // Check for custom execution (e.g., two-stage processing)
+    if (this.config.customExecution) {
+      return { data: await this.config.customExecution(row, client) };
+    }
+
+    // Standard single-stage execution
+    // Generate prompt
+    const prompt = this.config.promptTemplate!(row);
+
+    // Prepare messages
+    const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
+      {
+        role: 'system' as const,
+        content:
+          'Return ONLY a single JSON object matching the schema. No markdown, no prose, no code blocks.',
+      },
+      {
+        role: 'user' as const,
+        content: prompt,
+      },
+    ];
+
+    // Prepare response format
+    const responseFormat = this.config.outputSchemaName
+      ? {
+          type: 'json_schema' as const,
+          json_schema: {
+            name: this.config.outputSchemaName,
+            schema: this.config.outputSchema,
+            strict: true,
+          },
+        }
+      : { type: 'json_object' as const };
+
+    // Prepare completion settings
+    const settings: CompletionSettings = {
+      model,
+      maxOutputTokens: this.config.maxCompletionTokens,
+      reasoningEffort: this.config.reasoningEffort,
+      verbosity: this.config.verbosity,
+      temperature: this.config.temperature,
+      top_p: this.config.top_p,
+    };
 
-      // Call API with timeout
+    // Call the model; invalid output is sent back for repair (bounded)
+    let tokenUsage: RowOutcome['tokenUsage'];
+    const problems: OutputProblem[] = [];
+    for (let attempt = 0; ; attempt++) {
       const completion = await Promise.race([
-        this.client.complete(messages, responseFormat, settings),
+        client.complete(messages, responseFormat, settings),
         new Promise<never>((_, reject) =>
           setTimeout(
             () => reject(new Error(`Request timeout after ${this.options.timeout}ms`)),
@@ -351,68 +688,72 @@ export class ConcurrentRunner {
         ),
       ]);
 
+      if (completion.usage) {
+        tokenUsage = {
+          promptTokens: (tokenUsage?.promptTokens ?? 0) + completion.usage.prompt_tokens,
+          completionTokens: (tokenUsage?.completionTokens ?? 0) + completion.usage.completion_tokens,
+          totalTokens: (tokenUsage?.totalTokens ?? 0) + completion.usage.total_tokens,
+        };
+      }
+
       // Extract response content from Chat Completions API
       const messageContent = completion.choices[0]?.message?.content;
+      const finishReason = completion.choices[0]?.finish_reason;
 
-      if (!messageContent) {
-        return {
-          customId,
-          success: false,
-          error: 'No content in response',
-          metadata,
-        };
+      if (!messageContent && finishReason !== 'length') {
+        return { error: 'No content in response', tokenUsage, repair: this.repairReport(problems, attempt, false) };
       }
 
-      // Check finish reason
-      const finishReason = completion.choices[0]?.finish_reason;
-      if (finishReason === 'length') {
-        return {
-          customId,
-          success: false,
-          error: `Response truncated - hit token limit (${completion.usage?.completion_tokens || 'unknown'} tokens)`,
-          metadata,
-        };
+      // Chunk outputs are only parsed here; the reduced output is validated
+      const { data, problem } = checkOutput(messageContent ?? '', finishReason, row._chunk ? undefined : this.config.id);
+      if (!problem) {
+        return { data, tokenUsage, repair: this.repairReport(problems, attempt, true) };
       }
 
-      // Parse JSON
-      let parsedData: any;
-      try {
-        parsedData = extractJsonFromResponse(messageContent);
-      } catch (error) {
-        return {
-          customId,
-          success: false,
-          error: `JSON parse error: ${error instanceof Error ? error.message : String(error)}`,
-          metadata,
-        };
+      if (problem.kind === 'truncated') {
+        problem.message += ` (${completion.usage?.completion_tokens || 'unknown'} tokens)`;
+      }
+      problems.push(problem);
+
+      if (attempt >= this.repairAttempts) {
+        const repair = this.repairReport(problems, attempt, false);
+        // Schema violations go to the processor, which records them as validation failures
+        return problem.kind === 'schema'
+          ? { data, tokenUsage, repair }
+          : { error: problem.message, tokenUsage, repair };
       }
 
-      // Success!
-      return {
-        customId,
-        success: true,
-        data: parsedData, // Pure model output (not merged yet)
-        metadata, // Metadata to merge after validation
-        tokenUsage: completion.usage
-          ? {
-              promptTokens: completion.usage.prompt_tokens,
-              completionTokens: completion.usage.completion_tokens,
-              totalTokens: completion.usage.total_tokens,
-            }
-          : undefined,
-      };
-    } catch (error: any) {
-      this.logger.error(`Error processing decision ${customId}`, error);
+      // A truncated output is repaired with a higher token limit, or not at all
+      if (problem.kind === 'truncated') {
+        const raised = repairTokenLimit(settings.maxOutputTokens);
+        if (raised === undefined) {
+          return { error: problem.message, tokenUsage, repair: this.repairReport(problems, attempt, false) };
+        }
+        settings.maxOutputTokens = raised;
+      }
 
-      return {
-        customId,
-        success: false,
-        error: `Processing error: ${error instanceof Error ? error.message : String(error)}`,
-        metadata,
-      };
+      this.logger.debug(`Repairing output (attempt ${attempt + 1}/${this.repairAttempts}): ${problem.message.split('\n')[0]}`);
+      messages.push(
+        { role: 'assistant', content: messageContent ?? '' },
+        { role: 'user', content: buildRepairPrompt(problem) }
+      );
     }
   }
-  
+
+  /**
+   * Repair report of a row (undefined when no repair was sent)
+   *
+   * @param attempts Repair completions sent
+   */
+  private repairReport(problems: OutputProblem[], attempts: number, repaired: boolean): RepairReport | undefined {
+    if (attempts === 0) return undefined;
+    return {
+      attempts,
+      repaired,
+      problems: problems.map((p) => ({ kind: p.kind, message: p.message.split('\n')[0] })),
+    };
+  }
+
   private extractMetadata(row: any): Record<string, any> | undefined {
     const metadata: Record<string, any> = {};
     const fields = this.config.rowMetadataFields ?? [];
@@ -463,6 +804,12 @@ export class ConcurrentRunner {
 
     // Process in batches
     for (let batchStart = 0; batchStart < decisions.length; batchStart += batchSize) {
+      // Budget crossed: defer the remaining rows
+      if (this.budget.isExceeded) {
+        this.deferredCount += decisions.length - batchStart;
+        break;
+      }
+
       const rawBatch = decisions.slice(batchStart, Math.min(batchStart + batchSize, decisions.length));
       
       // JIT Preprocessing for this batch
@@ -471,6 +818,8 @@ export class ConcurrentRunner {
       
       const preprocessedBatchPromises = rawBatch.map((row) => 
         limit(async () => {
+          // Fingerprint the raw row (before enrichment) for change detection
+          const fingerprint = this.changeDetector.fingerprint(row, this.extractMetadata(row) || {});
           let enrichedRow = row;
           
           // 1. Enrich with dependencies
@@ -483,16 +832,16 @@ export class ConcurrentRunner {
             enrichedRow = await this.config.preprocessRow(enrichedRow);
           }
           
-          return enrichedRow;
+          return { row: enrichedRow, fingerprint };
         })
       );
 
       const preprocessedBatchResults = await Promise.all(preprocessedBatchPromises);
 
       // Filter out nulls (skipped by preprocessRow, e.g., resume mode)
-      const validBatchItems: any[] = [];
+      const validBatchItems: typeof preprocessedBatchResults = [];
       for (const item of preprocessedBatchResults) {
-        if (item !== null) {
+        if (item.row !== null) {
           validBatchItems.push(item);
         }
       }
@@ -503,12 +852,15 @@ export class ConcurrentRunner {
       }
 
       // Process valid items in parallel
-      const batchPromises = validBatchItems.map(async (decision) => {
+      const batchPromises = validBatchItems.map(async ({ row: decision, fingerprint }) => {
         // Use a running count for the ID to ensure uniqueness and stability across batches
         // This replaces the global index from the pre-filtered array approach
         const currentIdIndex = processedCount++; 
         
         const result = await this.processSingleDecision(decision, currentIdIndex);
+        if (result.success && fingerprint) {
+          result.fingerprint = fingerprint;
+        }
 
         // Stream result immediately if callback provided
         if (onResult) {
@@ -0,0 +1,123 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { CassetteConfig, CassetteMode } from '../config/cassette.js';
+import { JobLogger } from '../utils/logger.js';
+import { sha256, stableStringify } from '../utils/hashing.js';
+
+/**
+ * Request fields that identify a cassette
+ *
+ * `model` is the model the caller asked for (not the resolved deployment),
+ * so replay does not depend on credentials or deployment env vars.
+ */
+export interface CassetteRequest {
+  provider: string;
+  model: string;
+  messages: Array<{ role: string; content: string }>;
+  responseFormat: any;
+  settings: Record<string, any>;
+}
+
+/**
+ * Cassette file format (<dir>/<key>.json)
+ */
+export interface CassetteEntry {
+  key: string;
+  recordedAt: string;
+  request: CassetteRequest;
+  response: any;
+}
+
+/**
+ * LLM Cassette
+ *
+ * Record/replay layer for the concurrent clients' complete() calls.
+ * Cassettes are keyed by a stable hash of model, messages, response schema
+ * and completion settings (reasoning effort, verbosity, token limits, ...).
+ */
+export class LLMCassette {
+  private mode: Exclude<CassetteMode, 'off'>;
+  private dir: string;
+  private logger: JobLogger;
+
+  constructor(mode: Exclude<CassetteMode, 'off'>, dir: string, jobId: string) {
+    this.mode = mode;
+    this.dir = dir;
+    this.logger = new JobLogger(`Cassette:${jobId}`);
+  }
+
+  /**
+   * Create a cassette from LLM_CASSETTE_MODE / LLM_CASSETTE_DIR
+   *
+   * @returns Cassette, or null when mode is 'off'
+   */
+  static fromEnv(jobId: string): LLMCassette | null {
+    const { mode, dir } = CassetteConfig.getConfig();
+    if (mode === 'off') return null;
+
+    console.log(`📼 LLM cassette ${mode} mode: ${dir}`);
+    return new LLMCassette(mode, dir, jobId);
+  }
+
+  /**
+   * Compute the cassette key for a request
+   */
+  static key(request: CassetteRequest): string {
+    const { model, settings, messages, responseFormat } = request;
+    const { model: _ignored, ...keyedSettings } = settings;
+
+    const material = stableStringify({
+      model,
+      messages: messages.map((m) => ({ role: m.role, content: m.content })),
+      responseFormat: responseFormat ?? null,
+      settings: keyedSettings,
+    });
+
+    return sha256(material);
+  }
+
+  /**
+   * Serve a call from the cassette (replay) or run and save it (record)
+   *
+   * @param request Request identity
+   * @param call The real API call
+   */
+  async wrap(request: CassetteRequest, call: () => Promise<any>): Promise<any> {
+    const key = LLMCassette.key(request);
+    const cassettePath = path.join(this.dir, `${key}.json`);
+
+    if (this.mode === 'replay') {
+      let content: string;
+      try {
+        content = await fs.readFile(cassettePath, 'utf-8');
+      } catch (error: any) {
+        if (error.code === 'ENOENT') {
+          throw new Error(
+            `Cassette miss (replay mode): no recording for ${request.provider}/${request.model} ` +
+            `at ${cassettePath}. Re-record with LLM_CASSETTE_MODE=record.`
+          );
+        }
+        throw error;
+      }
+
+      const entry: CassetteEntry = JSON.parse(content);
+      this.logger.debug('Cassette hit', { key, model: request.model });
+      return entry.response;
+    }
+
+    const response = await call();
+
+    const entry: CassetteEntry = {
+      key,
+      recordedAt: new Date().toISOString(),
+      request,
+      response,
+    };
+
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(cassettePath, JSON.stringify(entry, null, 2), 'utf-8');
+    this.logger.debug('Cassette recorded', { key, model: request.model });
+
+    return response;
+  }
+}
@@ -2,6 +2,11 @@ import OpenAI from "openai";
 import pLimit from "p-limit";
 import { AzureConfig } from "../config/azure.js";
 import { OpenAIConfig } from "../config/openai.js";
+import { MockConfig } from "../config/mock.js";
+import { MockResponseStore } from "../core/providers/MockResponseStore.js";
+import { CassetteConfig } from "../config/cassette.js";
+import { LLMCassette } from "./LLMCassette.js";
+import { BudgetScope, BudgetTracker } from "../core/BudgetTracker.js";
 import { JobLogger } from "../utils/logger.js";
 
 /**
@@ -20,7 +25,11 @@ export interface CompletionSettings {
  * OpenAI Concurrent Client Options
  */
 export interface OpenAIConcurrentClientOptions {
-  openaiProvider?: 'azure' | 'standard';
+  /**
+   * 'mock' answers from MockResponseStore without network access.
+   * LLM_PROVIDER=mock overrides this for every client.
+   */
+  openaiProvider?: 'azure' | 'standard' | 'mock';
   model?: string;
   /**
    * Maximum concurrent API calls allowed.
@@ -35,6 +44,11 @@ export interface OpenAIConcurrentClientOptions {
    * Default: undefined (no rate limiting, only concurrency limiting)
    */
   requestsPerSecond?: number;
+  /**
+   * Budget tier for calls made by this client (e.g. 'fallback').
+   * Default: the tier of the active BudgetTracker scope
+   */
+  costTier?: string;
 }
 
 /**
@@ -44,19 +58,25 @@ export interface OpenAIConcurrentClientOptions {
  * Handles retry logic, rate limiting, and error handling for concurrent requests.
  */
 export class OpenAIConcurrentClient {
-  private client: OpenAI;
+  /** Null when no SDK client is needed (mock, cassette replay) */
+  private client: OpenAI | null = null;
   private logger: JobLogger;
   private defaultDeployment: string;
   private apiLimiter: ReturnType<typeof pLimit>;
   private minDelayMs: number;
   private lastRequestTime: number = 0;
   private rateLimitMutex: Promise<void> = Promise.resolve();
+  private mockStore: MockResponseStore | null = null;
+  private cassette: LLMCassette | null = null;
+  private provider: string;
+  private requestedModel: string;
+  private costTier?: string;
 
   constructor(
     jobId: string,
     options?: OpenAIConcurrentClientOptions
   ) {
-    const provider = options?.openaiProvider || 'azure';
+    const provider = MockConfig.isEnabled() ? 'mock' : options?.openaiProvider || 'azure';
     const model = options?.model;
     const maxConcurrentApiCalls = options?.maxConcurrentApiCalls ?? 200;
     const requestsPerSecond = options?.requestsPerSecond;
@@ -67,7 +87,22 @@ export class OpenAIConcurrentClient {
     // Calculate minimum delay between requests (if rate limiting enabled)
     this.minDelayMs = requestsPerSecond ? Math.ceil(1000 / requestsPerSecond) : 0;
 
-    if (provider === 'standard') {
+    // Record/replay cassettes (LLM_CASSETTE_MODE); not applied to the mock
+    this.provider = provider;
+    this.requestedModel = model || 'default';
+    this.costTier = options?.costTier;
+    this.cassette = provider === 'mock' ? null : LLMCassette.fromEnv(jobId);
+
+    if (provider === 'mock') {
+      // Offline mock: no SDK client is created
+      this.mockStore = new MockResponseStore();
+      this.defaultDeployment = model || 'mock';
+      this.logger = new JobLogger(`Mock:${jobId}:${model || 'default'}`);
+    } else if (this.cassette && CassetteConfig.isReplay()) {
+      // Replay serves cassettes only: no SDK client or credentials needed
+      this.defaultDeployment = this.requestedModel;
+      this.logger = new JobLogger(`Replay:${jobId}:${model || 'default'}`);
+    } else if (provider === 'standard') {
       // Use standard OpenAI (api.openai.com)
       this.client = OpenAIConfig.getClient();
       this.defaultDeployment = model || OpenAIConfig.getModel();
@@ -91,6 +126,16 @@ export class OpenAIConcurrentClient {
     console.log(`\n🔧 OpenAI Client Config: maxConcurrentApiCalls=${maxConcurrentApiCalls}, requestsPerSecond=${requestsPerSecond ?? 'unlimited'}, minDelayMs=${this.minDelayMs}\n`);
   }
 
+  /**
+   * SDK client for live API calls
+   */
+  private requireClient(): OpenAI {
+    if (!this.client) {
+      throw new Error('No OpenAI client configured for this provider');
+    }
+    return this.client;
+  }
+
   /**
    * Enforce rate limiting by waiting if necessary
    * Uses a mutex to ensure sequential timing even with concurrent calls
@@ -128,9 +173,14 @@ export class OpenAIConcurrentClient {
     responseFormat: any,
     settings: CompletionSettings
   ): Promise<any> {
+    // Budget scope of the caller (captured before queueing)
+    const budget = BudgetTracker.current();
+
     // Log current queue state for debugging
     // Queue through API limiter to control concurrent calls
     return this.apiLimiter(async () => {
+      budget?.tracker.assertCanCall();
+
       // Log when we acquire a slot
       this.logger.debug(`API slot acquired`, {
         activeCount: this.apiLimiter.activeCount,
@@ -140,7 +190,13 @@ export class OpenAIConcurrentClient {
       // Enforce rate limiting before making the request
       await this.enforceRateLimit();
 
-      return this.retryWithBackoff(async () => {
+      if (this.mockStore) {
+        const completion = await this.mockStore.complete(messages, responseFormat);
+        this.recordUsage(budget, 'mock', completion);
+        return completion;
+      }
+
+      const callApi = async () => this.recordUsage(budget, this.pricingModel(), await this.retryWithBackoff(async () => {
         try {
           const requestBody = this.buildRequestBody(
           messages,
@@ -148,7 +204,7 @@ export class OpenAIConcurrentClient {
           settings
         );
 
-        const response: any = await this.client.responses.create(requestBody);
+        const response: any = await this.requireClient().responses.create(requestBody);
 
         let content = "";
         if (response.output_parsed) {
@@ -207,10 +263,48 @@ export class OpenAIConcurrentClient {
         this.logger.error("API call failed", error);
         throw error;
       }
-      });
+      }));
+
+      if (!this.cassette) {
+        return callApi();
+      }
+
+      return this.cassette.wrap(
+        {
+          provider: this.provider,
+          model: this.requestedModel,
+          messages,
+          responseFormat,
+          settings: { ...settings },
+        },
+        callApi
+      );
     });
   }
 
+  /**
+   * Record a response's usage against the caller's budget scope
+   */
+  private recordUsage(budget: BudgetScope | undefined, model: string, completion: any): any {
+    if (budget && completion?.usage) {
+      budget.tracker.record(
+        { ...budget.context, tier: this.costTier ?? budget.context.tier, model },
+        {
+          promptTokens: completion.usage.prompt_tokens || 0,
+          completionTokens: completion.usage.completion_tokens || 0,
+        }
+      );
+    }
+    return completion;
+  }
+
+  /**
+   * Model name used for pricing (requested model, else the deployment)
+   */
+  private pricingModel(): string {
+    return this.requestedModel === 'default' ? this.defaultDeployment : this.requestedModel;
+  }
+
   /**
    * Retry with Retry-After header support
    *
@@ -0,0 +1,54 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Cassette mode
+ * - off:    calls go to the API (default)
+ * - record: calls go to the API and request/response pairs are saved
+ * - replay: saved responses are served; a missing cassette is an error
+ */
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+/**
+ * LLM Cassette Configuration
+ *
+ * Record/replay for OpenAIConcurrentClient and ClaudeConcurrentClient.
+ *
+ * Environment variables (all optional):
+ * - LLM_CASSETTE_MODE   off | record | replay (default: off)
+ * - LLM_CASSETTE_DIR    Cassette directory (default: cassettes)
+ */
+export class CassetteConfig {
+  /**
+   * Get cassette configuration with defaults applied
+   */
+  static getConfig(): { mode: CassetteMode; dir: string } {
+    const mode = (process.env.LLM_CASSETTE_MODE || 'off').toLowerCase();
+
+    if (mode !== 'off' && mode !== 'record' && mode !== 'replay') {
+      throw new Error(
+        `Invalid LLM_CASSETTE_MODE: ${mode}. Valid options: 'off', 'record', 'replay'`
+      );
+    }
+
+    return {
+      mode,
+      dir: process.env.LLM_CASSETTE_DIR || 'cassettes',
+    };
+  }
+
+  /**
+   * Whether cassettes are active (record or replay)
+   */
+  static isEnabled(): boolean {
+    return this.getConfig().mode !== 'off';
+  }
+
+  /**
+   * Whether calls must be served from cassettes only
+   */
+  static isReplay(): boolean {
+    return this.getConfig().mode === 'replay';
+  }
+}
@@ -0,0 +1,49 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Export Target Configuration
+ *
+ * Credentials for `s3://bucket/prefix` export targets. Requests use
+ * path-style URLs (<endpoint>/<bucket>/<key>) and AWS Signature V4, so any
+ * S3-compatible store works: AWS S3, MinIO, LocalStack, or a local stand-in.
+ *
+ * Environment variables:
+ * - EXPORT_S3_ENDPOINT            Endpoint URL (default: https://s3.<region>.amazonaws.com)
+ * - EXPORT_S3_REGION              Signing region (default: AWS_REGION or us-east-1)
+ * - EXPORT_S3_ACCESS_KEY_ID       Access key (default: AWS_ACCESS_KEY_ID)
+ * - EXPORT_S3_SECRET_ACCESS_KEY   Secret key (default: AWS_SECRET_ACCESS_KEY)
+ * - EXPORT_S3_SESSION_TOKEN       Session token for temporary credentials (default: AWS_SESSION_TOKEN)
+ */
+export class ExportConfig {
+  /**
+   * Get S3 configuration with defaults applied
+   */
+  static getS3Config() {
+    const region = process.env.EXPORT_S3_REGION || process.env.AWS_REGION || 'us-east-1';
+    return {
+      endpoint: (process.env.EXPORT_S3_ENDPOINT || `https://s3.${region}.amazonaws.com`).replace(/\/+$/, ''),
+      region,
+      accessKeyId: process.env.EXPORT_S3_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID || '',
+      secretAccessKey: process.env.EXPORT_S3_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY || '',
+      sessionToken: process.env.EXPORT_S3_SESSION_TOKEN || process.env.AWS_SESSION_TOKEN || undefined,
+    };
+  }
+
+  /**
+   * Validate S3 credentials
+   *
+   * @throws Error if credentials are missing
+   */
+  static validate(): boolean {
+    const config = this.getS3Config();
+    if (!config.accessKeyId || !config.secretAccessKey) {
+      throw new Error(
+        'Missing S3 credentials for export target: set EXPORT_S3_ACCESS_KEY_ID and EXPORT_S3_SECRET_ACCESS_KEY ' +
+        '(or AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY)'
+      );
+    }
+    return true;
+  }
+}
@@ -0,0 +1,49 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Mock LLM Configuration
+ *
+ * Offline stand-in for Azure/OpenAI/Anthropic. When LLM_PROVIDER=mock,
+ * OpenAIConcurrentClient and ClaudeConcurrentClient answer from local
+ * fixtures instead of calling the API, and ProviderFactory defaults to
+ * the mock batch provider.
+ *
+ * Environment variables (all optional):
+ * - LLM_PROVIDER=mock              Route every LLM call to the mock
+ * - MOCK_LLM_FIXTURES_DIR          Fixture directory (default: fixtures/mock-llm)
+ * - MOCK_LLM_LATENCY_MS            Simulated latency per call (default: 0)
+ * - MOCK_BATCH_DIR                 Simulated batch storage (default: mock-batches)
+ * - MOCK_BATCH_POLLS_PER_STATE     Status polls before each lifecycle transition (default: 1)
+ * - MOCK_BATCH_POLL_INTERVAL_MS    Upper bound on poll interval (default: 100)
+ */
+export class MockConfig {
+  /**
+   * Get mock configuration with defaults applied
+   */
+  static getConfig() {
+    return {
+      fixturesDir: process.env.MOCK_LLM_FIXTURES_DIR || 'fixtures/mock-llm',
+      latencyMs: parseInt(process.env.MOCK_LLM_LATENCY_MS || '0', 10) || 0,
+      batchDir: process.env.MOCK_BATCH_DIR || 'mock-batches',
+      pollsPerState: Math.max(1, parseInt(process.env.MOCK_BATCH_POLLS_PER_STATE || '1', 10) || 1),
+      pollIntervalMs: parseInt(process.env.MOCK_BATCH_POLL_INTERVAL_MS || '100', 10) || 100,
+    };
+  }
+
+  /**
+   * Whether all LLM calls should be served by the mock
+   */
+  static isEnabled(): boolean {
+    return process.env.LLM_PROVIDER === 'mock';
+  }
+
+  /**
+   * Mock needs no credentials; always valid
+   */
+  static validate(): boolean {
+    console.log('✅ Mock LLM configuration valid');
+    return true;
+  }
+}
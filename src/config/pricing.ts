@@ -0,0 +1,107 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Price per 1M tokens (USD, standard/synchronous API)
+ */
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/**
+ * Per-model price table
+ *
+ * Keys are model names as passed to the clients (`JobConfig.model`).
+ * Dated variants (e.g. gpt-5-mini-2025-08-07) match the longest key prefix.
+ */
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-5': { inputPerMillion: 1.25, outputPerMillion: 10.0 },
+  'gpt-5-mini': { inputPerMillion: 0.25, outputPerMillion: 2.0 },
+  'gpt-5-nano': { inputPerMillion: 0.05, outputPerMillion: 0.4 },
+  'gpt-5.2': { inputPerMillion: 1.75, outputPerMillion: 14.0 },
+  'gpt-4.1': { inputPerMillion: 2.0, outputPerMillion: 8.0 },
+  'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10.0 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'o4-mini': { inputPerMillion: 1.1, outputPerMillion: 4.4 },
+  'claude-sonnet-4': { inputPerMillion: 3.0, outputPerMillion: 15.0 },
+  'claude-opus-4': { inputPerMillion: 15.0, outputPerMillion: 75.0 },
+  'claude-haiku-4': { inputPerMillion: 1.0, outputPerMillion: 5.0 },
+  mock: { inputPerMillion: 0, outputPerMillion: 0 },
+};
+
+/**
+ * Pricing Configuration
+ *
+ * Converts token usage into USD for budget accounting and cost reports.
+ *
+ * Environment variables (optional):
+ * - LLM_PRICES   JSON object merged over the built-in table, e.g.
+ *                {"my-deployment": {"inputPerMillion": 0.25, "outputPerMillion": 2}}
+ *
+ * Unknown models are priced at the most expensive known rate, so budgets
+ * err on the side of stopping early.
+ */
+export class PricingConfig {
+  /** Batch APIs bill at half the synchronous price */
+  static readonly BATCH_DISCOUNT = 0.5;
+
+  private static warnedModels = new Set<string>();
+
+  /**
+   * Price table with LLM_PRICES overrides applied
+   */
+  static getPrices(): Record<string, ModelPrice> {
+    const overrides = process.env.LLM_PRICES;
+    if (!overrides) return MODEL_PRICES;
+
+    try {
+      return { ...MODEL_PRICES, ...JSON.parse(overrides) };
+    } catch (error: any) {
+      throw new Error(`Invalid LLM_PRICES: ${error.message}`);
+    }
+  }
+
+  /**
+   * Price for a model (exact match, then longest prefix, then most expensive)
+   */
+  static getPrice(model: string): ModelPrice {
+    const prices = this.getPrices();
+    if (prices[model]) return prices[model];
+
+    const prefix = Object.keys(prices)
+      .filter((key) => model.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+    if (prefix) return prices[prefix];
+
+    if (!this.warnedModels.has(model)) {
+      this.warnedModels.add(model);
+      console.warn(`⚠️  No price for model "${model}" - using the most expensive known rate (set LLM_PRICES to override)`);
+    }
+
+    const known = Object.values(prices);
+    return {
+      inputPerMillion: Math.max(...known.map((p) => p.inputPerMillion)),
+      outputPerMillion: Math.max(...known.map((p) => p.outputPerMillion)),
+    };
+  }
+
+  /**
+   * Cost of one call (or a sum of calls) in USD
+   */
+  static costOf(
+    model: string,
+    promptTokens: number,
+    completionTokens: number,
+    options: { batch?: boolean } = {}
+  ): number {
+    const price = this.getPrice(model);
+    const cost =
+      (promptTokens / 1_000_000) * price.inputPerMillion +
+      (completionTokens / 1_000_000) * price.outputPerMillion;
+
+    return options.batch ? cost * this.BATCH_DISCOUNT : cost;
+  }
+}
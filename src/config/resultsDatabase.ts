@@ -0,0 +1,170 @@
+import pg from 'pg';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const { Pool } = pg;
+
+/**
+ * Results database connection settings
+ */
+export interface ResultsDatabaseSettings {
+  host: string;
+  port: number;
+  user: string;
+  password?: string;
+  database: string;
+  schema: string;
+  writeBack: boolean;
+}
+
+/**
+ * Results Database Configuration (WRITE connection)
+ *
+ * Separate pool used only by the results sink to persist validated
+ * extractions. It never shares settings or a pool with DatabaseConfig,
+ * which stays READ-ONLY.
+ *
+ * Environment variables:
+ * - RESULTS_PGHOST        Required
+ * - RESULTS_PGPORT        Default: 5432
+ * - RESULTS_PGUSER        Required
+ * - RESULTS_PGPASSWORD
+ * - RESULTS_PGDATABASE    Required
+ * - RESULTS_PGSCHEMA      Target schema (default: extraction_results)
+ * - RESULTS_WRITE_BACK    'true' to upsert full-data runs automatically
+ *                         after concurrent processing (default: false)
+ */
+export class ResultsDatabaseConfig {
+  private static pool: pg.Pool | null = null;
+
+  /**
+   * Get results database settings
+   *
+   * @throws Error if the connection is not explicitly configured
+   */
+  static getConfig(): ResultsDatabaseSettings {
+    if (!this.isConfigured()) {
+      throw new Error(
+        'Results database is not configured. ' +
+        'Set RESULTS_PGHOST, RESULTS_PGUSER and RESULTS_PGDATABASE ' +
+        '(the read-only PG* connection is never used for writes).'
+      );
+    }
+
+    const schema = process.env.RESULTS_PGSCHEMA || 'extraction_results';
+    if (!/^[a-z_][a-z0-9_]*$/.test(schema)) {
+      throw new Error(
+        `Invalid RESULTS_PGSCHEMA: ${schema}. Use lowercase letters, digits and underscores.`
+      );
+    }
+
+    return {
+      host: process.env.RESULTS_PGHOST!,
+      port: parseInt(process.env.RESULTS_PGPORT || '5432', 10),
+      user: process.env.RESULTS_PGUSER!,
+      password: process.env.RESULTS_PGPASSWORD,
+      database: process.env.RESULTS_PGDATABASE!,
+      schema,
+      writeBack: process.env.RESULTS_WRITE_BACK === 'true',
+    };
+  }
+
+  /**
+   * Whether all required RESULTS_PG* variables are set
+   */
+  static isConfigured(): boolean {
+    return !!(
+      process.env.RESULTS_PGHOST &&
+      process.env.RESULTS_PGUSER &&
+      process.env.RESULTS_PGDATABASE
+    );
+  }
+
+  /**
+   * Whether concurrent runs should write results back automatically
+   */
+  static isWriteBackEnabled(): boolean {
+    return this.isConfigured() && this.getConfig().writeBack;
+  }
+
+  /**
+   * Validate configuration
+   *
+   * Refuses to write with the exact role/database of the read-only source
+   * connection, so the write path always needs its own credentials.
+   */
+  static validate(): void {
+    const config = this.getConfig();
+
+    const sourceDatabase = process.env.PGDATABASE || process.env.POSTGRES_DB;
+    const sourcePort = parseInt(process.env.PGPORT || '5432', 10);
+
+    if (
+      config.host === process.env.PGHOST &&
+      config.port === sourcePort &&
+      config.database === sourceDatabase &&
+      config.user === process.env.PGUSER
+    ) {
+      throw new Error(
+        'Results database uses the same host, database and user as the read-only source connection. ' +
+        'Configure a dedicated RESULTS_PGUSER (or RESULTS_PGDATABASE) for write-back.'
+      );
+    }
+  }
+
+  /**
+   * Get or create the results connection pool
+   */
+  static getPool(): pg.Pool {
+    if (!this.pool) {
+      this.validate();
+      const config = this.getConfig();
+
+      this.pool = new Pool({
+        host: config.host,
+        port: config.port,
+        user: config.user,
+        password: config.password,
+        database: config.database,
+        max: 10,
+        idleTimeoutMillis: 30000,
+        connectionTimeoutMillis: 30000,
+      });
+
+      console.log(`📝 Results database pool initialized: ${config.user}@${config.host}:${config.port}/${config.database} (schema ${config.schema})`);
+    }
+
+    return this.pool;
+  }
+
+  /**
+   * Run a function inside a transaction on the results pool
+   */
+  static async transaction<T>(fn: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.getPool().connect();
+
+    try {
+      await client.query('BEGIN');
+      const result = await fn(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Close the results pool
+   */
+  static async close(): Promise<void> {
+    if (this.pool) {
+      await this.pool.end();
+      this.pool = null;
+      console.log('🔌 Results database pool closed');
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import fs from "fs/promises";
 import path from "path";
 import { DatabaseConfig } from "../config/database.js";
+import { PricingConfig } from "../config/pricing.js";
 import { JobConfig, BatchRequestItem } from "../jobs/JobConfig.js";
 import { JobLogger } from "../utils/logger.js";
 import { DependencyResolver } from "./DependencyResolver.js";
@@ -392,11 +393,11 @@ export class BatchJobGenerator {
       // Rough estimate: 1 token ≈ 4 characters
       const estimatedPromptTokens = Math.ceil(totalPromptChars / 4);
 
-      // Azure Batch API is 50% off standard pricing
-      // GPT-4o: ~$2.50 per 1M input tokens (standard), so $1.25 for batch
-      const costPerMillionTokens = 1.25;
-      const estimatedCostUSD =
-        (estimatedPromptTokens / 1_000_000) * costPerMillionTokens;
+      // Input tokens only, at the batch rate (50% off standard pricing)
+      const model = this.config.model || this.config.deploymentName || "gpt-4o";
+      const estimatedCostUSD = PricingConfig.costOf(model, estimatedPromptTokens, 0, {
+        batch: true,
+      });
 
       this.logger.info("Cost estimation", {
         records: lines.length,
@@ -5,6 +5,9 @@ import { ProviderFactory, ProviderType } from './providers/ProviderFactory.js';
 import { JobStatusTracker } from './JobStatusTracker.js';
 import { ResultProcessor } from './ResultProcessor.js';
 import { JobLogger } from '../utils/logger.js';
+import { MockConfig } from '../config/mock.js';
+import { BudgetTracker } from './BudgetTracker.js';
+import { computeJobVersion, isSameVersion, versionKey } from '../utils/versioning.js';
 
 /**
  * Batch Job Runner
@@ -38,7 +41,10 @@ export class BatchJobRunner {
         'Use concurrent mode instead: npm run dev concurrent <job-type>'
       );
     }
-    this.providerType = configuredProvider || ProviderFactory.getDefaultProvider();
+    // LLM_PROVIDER=mock forces the offline mock regardless of job config
+    this.providerType = MockConfig.isEnabled()
+      ? 'mock'
+      : configuredProvider || ProviderFactory.getDefaultProvider();
 
     // Provider will be initialized with specific job ID during run
     this.provider = null as any;
@@ -78,6 +84,7 @@ export class BatchJobRunner {
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
       const jobId = `${this.config.id}-${timestamp}`;
       let metadata = this.statusTracker.initializeJob(jobId);
+      metadata.promptSchemaVersion = computeJobVersion(this.config);
       await this.statusTracker.save(metadata);
 
       // Initialize provider with job ID
@@ -106,6 +113,10 @@ export class BatchJobRunner {
         estimatedCostUSD: `$${estimatedCostUSD.toFixed(2)}`,
       });
 
+      // Budgets are enforced before submission: a batch cannot be paused
+      // once submitted. The estimate covers input tokens only.
+      this.assertWithinBudget(estimatedPromptTokens, estimatedCostUSD);
+
       // Step 2: Submit batch job to provider
       this.logger.info(`Step 2: Submitting batch job to ${this.provider.getProviderName()}`);
       const { batchId, fileId } = await this.provider.submitBatchJob(filePath, {
@@ -268,11 +279,22 @@ export class BatchJobRunner {
     this.logger.info(`Downloading results from ${this.provider.getProviderName()}`);
     await this.provider.downloadFile(batchStatus.outputFileId, outputPath);
 
+    // Results are stamped with the version the batch was generated with
+    // (jobs submitted before versioning stay unversioned)
+    const currentVersion = computeJobVersion(this.config);
+    if (metadata.promptSchemaVersion && !isSameVersion(metadata.promptSchemaVersion, currentVersion)) {
+      this.logger.warn('Prompt/schema changed since submission; results keep the submitted version', {
+        submitted: versionKey(metadata.promptSchemaVersion),
+        current: versionKey(currentVersion),
+      });
+    }
+
     // Process results
     this.logger.info('Processing and validating results');
     const summary = await this.resultProcessor.process(
       outputPath,
-      metadata.inputFile // Pass input file path for metadata mapping
+      metadata.inputFile, // Pass input file path for metadata mapping
+      metadata.promptSchemaVersion
     );
 
     // Update job metadata
@@ -298,6 +320,44 @@ export class BatchJobRunner {
     console.log(`Successful: ${summary.successfulRecords}/${summary.totalRecords}`);
     console.log(`Failed: ${summary.failedRecords}/${summary.totalRecords}`);
     console.log(`Total tokens: ${summary.totalTokens.toLocaleString()}`);
+
+    // Cost report from the usage the provider actually billed
+    const budget = new BudgetTracker({
+      maxCostUsd: this.config.maxCostUsd,
+      maxTokens: this.config.maxTokens,
+    });
+    budget.record(
+      { job: this.config.id, tier: 'standard', model: this.config.model || this.config.deploymentName || 'gpt-4o' },
+      { promptTokens: summary.promptTokens, completionTokens: summary.completionTokens, calls: summary.totalRecords },
+      { batch: true }
+    );
+    const report = budget.buildReport();
+    await BudgetTracker.writeReport(summary.outputDirectory, report);
+    BudgetTracker.printReport(report);
+
+    if (report.exceeded) {
+      this.logger.warn('Actual batch usage exceeded the job budget', { reason: report.exceededReason });
+    }
+  }
+
+  /**
+   * Refuse to submit a batch whose estimate exceeds the job budget
+   */
+  private assertWithinBudget(estimatedPromptTokens: number, estimatedCostUSD: number): void {
+    const { maxCostUsd, maxTokens } = this.config;
+
+    if (maxCostUsd !== undefined && estimatedCostUSD > maxCostUsd) {
+      throw new Error(
+        `Estimated batch cost $${estimatedCostUSD.toFixed(2)} exceeds maxCostUsd $${maxCostUsd.toFixed(2)} ` +
+        '(input tokens only; output tokens add to this). Batch not submitted.'
+      );
+    }
+    if (maxTokens !== undefined && estimatedPromptTokens > maxTokens) {
+      throw new Error(
+        `Estimated ${estimatedPromptTokens.toLocaleString()} input tokens exceed maxTokens ${maxTokens.toLocaleString()}. ` +
+        'Batch not submitted.'
+      );
+    }
   }
 
   /**
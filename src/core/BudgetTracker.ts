@@ -0,0 +1,383 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import { PricingConfig } from '../config/pricing.js';
+
+/**
+ * What happens once a budget is crossed
+ * - pause: stop starting API calls, persist results, exit cleanly with a stop point
+ * - abort: same, but the run ends with BudgetExceededError (non-zero exit)
+ */
+export type BudgetAction = 'pause' | 'abort';
+
+/**
+ * Budget limits (all optional; without limits the tracker only reports)
+ */
+export interface BudgetLimits {
+  maxCostUsd?: number;
+  maxTokens?: number;
+  /** Spend cap for the 'escalation' tier; once reached, retries stay on the default model */
+  maxEscalationCostUsd?: number;
+  onExceeded?: BudgetAction;
+}
+
+/**
+ * Attribution of LLM calls: job (or pipeline step) and escalation tier
+ */
+export interface CostContext {
+  job: string;
+  tier: string;
+}
+
+/**
+ * Token and cost totals
+ */
+export interface CostBucket {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Final cost report (cost-report.json)
+ */
+export interface CostReport {
+  generatedAt: string;
+  limits: BudgetLimits;
+  exceeded: boolean;
+  exceededReason: string | null;
+  totals: CostBucket;
+  byJob: Record<string, CostBucket>;
+  byModel: Record<string, CostBucket>;
+  byTier: Record<string, CostBucket>;
+}
+
+/**
+ * Resumable stop point (budget-stop.json)
+ */
+export interface BudgetStopPoint {
+  stoppedAt: string;
+  reason: string;
+  action: BudgetAction;
+  spentUsd: number;
+  spentTokens: number;
+  processed: number;
+  remaining: number;
+  /** Command that continues the run where it stopped */
+  resume: string;
+}
+
+/**
+ * Thrown for API calls started after the budget was crossed
+ */
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Active tracker and attribution for the current async call chain
+ */
+export interface BudgetScope {
+  tracker: BudgetTracker;
+  context: CostContext;
+}
+
+/**
+ * Budget Tracker
+ *
+ * Live cost accounting for LLM calls. Runners and orchestrators enter a
+ * scope with `run({ job, tier }, fn)`; every OpenAIConcurrentClient and
+ * ClaudeConcurrentClient call made inside that scope (including clients
+ * created by job code) is priced from the usage in its response and
+ * recorded per job, model and tier.
+ *
+ * Once `maxCostUsd` or `maxTokens` is crossed, no new API call starts
+ * (`assertCanCall` throws). Requests already in flight complete and are
+ * recorded, so the final spend can exceed the limit by those requests.
+ *
+ * Only calls that reach the API (or the mock provider, priced at $0) are
+ * recorded; cassette replays cost nothing.
+ */
+export class BudgetTracker {
+  static readonly REPORT_FILE = 'cost-report.json';
+  static readonly STOP_FILE = 'budget-stop.json';
+
+  private static scopes = new AsyncLocalStorage<BudgetScope>();
+
+  readonly limits: BudgetLimits;
+  private totals: CostBucket = emptyBucket();
+  private byJob = new Map<string, CostBucket>();
+  private byModel = new Map<string, CostBucket>();
+  private byTier = new Map<string, CostBucket>();
+  private exceededReason: string | null = null;
+  private escalationCapLogged = false;
+
+  constructor(limits: BudgetLimits = {}) {
+    for (const key of ['maxCostUsd', 'maxTokens', 'maxEscalationCostUsd'] as const) {
+      const value = limits[key];
+      if (value !== undefined && (isNaN(value) || value <= 0)) {
+        throw new Error(`Invalid ${key}: ${value} (must be a positive number)`);
+      }
+    }
+    this.limits = limits;
+  }
+
+  /**
+   * Scope of the current async call chain (undefined outside any run())
+   */
+  static current(): BudgetScope | undefined {
+    return this.scopes.getStore();
+  }
+
+  /**
+   * Run fn with LLM calls attributed to this tracker and context
+   */
+  run<T>(context: CostContext, fn: () => Promise<T>): Promise<T> {
+    return BudgetTracker.scopes.run({ tracker: this, context }, fn);
+  }
+
+  get action(): BudgetAction {
+    return this.limits.onExceeded ?? 'pause';
+  }
+
+  get isExceeded(): boolean {
+    return this.exceededReason !== null;
+  }
+
+  get reason(): string | null {
+    return this.exceededReason;
+  }
+
+  get spentUsd(): number {
+    return this.totals.costUsd;
+  }
+
+  get spentTokens(): number {
+    return this.totals.totalTokens;
+  }
+
+  /**
+   * Throw BudgetExceededError when no new API call may start
+   */
+  assertCanCall(): void {
+    if (this.exceededReason) {
+      throw new BudgetExceededError(`Budget exceeded: ${this.exceededReason}`);
+    }
+  }
+
+  /**
+   * Whether another escalation (e.g. gpt-5.2 retry) fits the escalation cap
+   */
+  canEscalate(): boolean {
+    const cap = this.limits.maxEscalationCostUsd;
+    if (cap === undefined) return true;
+
+    const spent = this.byTier.get('escalation')?.costUsd ?? 0;
+    if (spent < cap) return true;
+
+    if (!this.escalationCapLogged) {
+      this.escalationCapLogged = true;
+      console.log(`\n⚠️  Escalation budget reached ($${spent.toFixed(2)} of $${cap.toFixed(2)}) - retries stay on the default model`);
+    }
+    return false;
+  }
+
+  /**
+   * Record the usage of one response (or a sum of responses)
+   */
+  record(
+    context: CostContext & { model: string },
+    usage: { promptTokens: number; completionTokens: number; calls?: number },
+    options: { batch?: boolean } = {}
+  ): void {
+    const costUsd = PricingConfig.costOf(context.model, usage.promptTokens, usage.completionTokens, options);
+    const entry: CostBucket = {
+      calls: usage.calls ?? 1,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens: usage.promptTokens + usage.completionTokens,
+      costUsd,
+    };
+
+    addTo(this.totals, entry);
+    addTo(bucketFor(this.byJob, context.job), entry);
+    addTo(bucketFor(this.byModel, context.model), entry);
+    addTo(bucketFor(this.byTier, context.tier), entry);
+
+    this.checkLimits();
+  }
+
+  private checkLimits(): void {
+    if (this.exceededReason) return;
+
+    const { maxCostUsd, maxTokens } = this.limits;
+    if (maxCostUsd !== undefined && this.totals.costUsd > maxCostUsd) {
+      this.exceededReason = `cost $${this.totals.costUsd.toFixed(2)} > maxCostUsd $${maxCostUsd.toFixed(2)}`;
+    } else if (maxTokens !== undefined && this.totals.totalTokens > maxTokens) {
+      this.exceededReason = `${this.totals.totalTokens.toLocaleString()} tokens > maxTokens ${maxTokens.toLocaleString()}`;
+    }
+
+    if (this.exceededReason) {
+      console.log(`\n🛑 Budget exceeded (${this.exceededReason}) - no new API calls will be started`);
+    }
+  }
+
+  /**
+   * Build the cost report (per job, model and tier)
+   */
+  buildReport(): CostReport {
+    return {
+      generatedAt: new Date().toISOString(),
+      limits: this.limits,
+      exceeded: this.isExceeded,
+      exceededReason: this.exceededReason,
+      totals: roundBucket(this.totals),
+      byJob: toRecord(this.byJob),
+      byModel: toRecord(this.byModel),
+      byTier: toRecord(this.byTier),
+    };
+  }
+
+  /**
+   * Write cost-report.json to a run directory
+   */
+  static async writeReport(directory: string, report: CostReport): Promise<string> {
+    await fs.mkdir(directory, { recursive: true });
+    const reportPath = path.join(directory, BudgetTracker.REPORT_FILE);
+    await fs.writeFile(reportPath, JSON.stringify(report, null, 2), 'utf-8');
+    return reportPath;
+  }
+
+  /**
+   * Write budget-stop.json to a run directory
+   */
+  static async writeStopPoint(directory: string, stopPoint: BudgetStopPoint): Promise<string> {
+    await fs.mkdir(directory, { recursive: true });
+    const stopPath = path.join(directory, BudgetTracker.STOP_FILE);
+    await fs.writeFile(stopPath, JSON.stringify(stopPoint, null, 2), 'utf-8');
+    return stopPath;
+  }
+
+  /**
+   * Sum the cost reports of several runs into one (e.g. the remedy groups of a retry)
+   */
+  static mergeReports(reports: CostReport[]): CostReport {
+    const totals = emptyBucket();
+    const byJob = new Map<string, CostBucket>();
+    const byModel = new Map<string, CostBucket>();
+    const byTier = new Map<string, CostBucket>();
+    for (const report of reports) {
+      addTo(totals, report.totals);
+      for (const [target, buckets] of [
+        [byJob, report.byJob],
+        [byModel, report.byModel],
+        [byTier, report.byTier],
+      ] as const) {
+        for (const [key, bucket] of Object.entries(buckets)) addTo(bucketFor(target, key), bucket);
+      }
+    }
+    const exceeded = reports.find((report) => report.exceeded);
+    return {
+      generatedAt: new Date().toISOString(),
+      limits: reports[reports.length - 1]?.limits ?? {},
+      exceeded: exceeded !== undefined,
+      exceededReason: exceeded?.exceededReason ?? null,
+      totals: roundBucket(totals),
+      byJob: toRecord(byJob),
+      byModel: toRecord(byModel),
+      byTier: toRecord(byTier),
+    };
+  }
+
+  /**
+   * Build a stop point from the tracker state
+   */
+  stopPoint(processed: number, remaining: number, resume: string): BudgetStopPoint {
+    return {
+      stoppedAt: new Date().toISOString(),
+      reason: this.exceededReason || 'budget exceeded',
+      action: this.action,
+      spentUsd: Math.round(this.totals.costUsd * 1e6) / 1e6,
+      spentTokens: this.totals.totalTokens,
+      processed,
+      remaining,
+      resume,
+    };
+  }
+
+  /**
+   * Print the cost report as tables
+   */
+  static printReport(report: CostReport): void {
+    console.log('\n💰 Cost Report');
+    console.log(`   Total: $${report.totals.costUsd.toFixed(4)} | ${report.totals.totalTokens.toLocaleString()} tokens | ${report.totals.calls} calls`);
+
+    const limits: string[] = [];
+    if (report.limits.maxCostUsd !== undefined) limits.push(`maxCostUsd $${report.limits.maxCostUsd}`);
+    if (report.limits.maxTokens !== undefined) limits.push(`maxTokens ${report.limits.maxTokens.toLocaleString()}`);
+    if (report.limits.maxEscalationCostUsd !== undefined) limits.push(`maxEscalationCostUsd $${report.limits.maxEscalationCostUsd}`);
+    if (limits.length > 0) {
+      console.log(`   Budget: ${limits.join(', ')}${report.exceeded ? ` - EXCEEDED (${report.exceededReason})` : ''}`);
+    }
+
+    const sections: Array<[string, Record<string, CostBucket>]> = [
+      ['Job', report.byJob],
+      ['Model', report.byModel],
+      ['Tier', report.byTier],
+    ];
+    for (const [label, buckets] of sections) {
+      console.log(`\n   ${label.padEnd(32)}${'CALLS'.padStart(8)}${'TOKENS'.padStart(14)}${'COST (USD)'.padStart(14)}`);
+      for (const [key, bucket] of Object.entries(buckets)) {
+        console.log(
+          `   ${key.padEnd(32)}` +
+          String(bucket.calls).padStart(8) +
+          bucket.totalTokens.toLocaleString().padStart(14) +
+          bucket.costUsd.toFixed(4).padStart(14)
+        );
+      }
+    }
+    console.log('');
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function emptyBucket(): CostBucket {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+function bucketFor(map: Map<string, CostBucket>, key: string): CostBucket {
+  let bucket = map.get(key);
+  if (!bucket) {
+    bucket = emptyBucket();
+    map.set(key, bucket);
+  }
+  return bucket;
+}
+
+function addTo(target: CostBucket, entry: CostBucket): void {
+  target.calls += entry.calls;
+  target.promptTokens += entry.promptTokens;
+  target.completionTokens += entry.completionTokens;
+  target.totalTokens += entry.totalTokens;
+  target.costUsd += entry.costUsd;
+}
+
+function roundBucket(bucket: CostBucket): CostBucket {
+  return { ...bucket, costUsd: Math.round(bucket.costUsd * 1e6) / 1e6 };
+}
+
+function toRecord(map: Map<string, CostBucket>): Record<string, CostBucket> {
+  const record: Record<string, CostBucket> = {};
+  for (const [key, bucket] of [...map.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    record[key] = roundBucket(bucket);
+  }
+  return record;
+}
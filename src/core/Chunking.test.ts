@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  chunkRow,
+  dedupeByKey,
+  dedupeBySimilarity,
+  estimateTokens,
+  normalizeKey,
+  planChunks,
+  sequenceId,
+  splitDecision,
+} from './Chunking.js';
+
+/** ~`tokens` estimated tokens of paragraphs */
+function filler(tokens: number, word = 'attendu'): string {
+  const paragraph = `${Array(20).fill(word).join(' ')}.\n\n`;
+  return paragraph.repeat(Math.ceil((tokens * 3.5) / paragraph.length));
+}
+
+const DECISION =
+  'COUR DE CASSATION\n\n' +
+  '## Faits\n\n' + filler(400, 'faits') +
+  '## Moyen\n\n' + filler(400, 'moyen') +
+  '## Appréciation\n\n' + filler(400, 'motifs') +
+  'PAR CES MOTIFS\n\n' + filler(100, 'rejette');
+
+describe('splitDecision', () => {
+  it('keeps a decision that fits in one chunk', () => {
+    const chunks = splitDecision(DECISION, { chunkTokens: 10_000 });
+    assert.equal(chunks.length, 1);
+    assert.deepEqual(chunks[0].sections, ['header', 'facts', 'pleas', 'reasoning', 'dispositif']);
+    assert.equal(chunks[0].text, DECISION);
+  });
+
+  it('packs sections into chunks that cover the whole text', () => {
+    const chunks = splitDecision(DECISION, { chunkTokens: 500, overlapTokens: 20 });
+    assert.ok(chunks.length > 1);
+    assert.equal(chunks[0].start, 0);
+    assert.equal(chunks[chunks.length - 1].end, DECISION.length);
+    chunks.slice(1).forEach((chunk, i) => assert.equal(chunk.start, chunks[i].end));
+    assert.ok(chunks.every((chunk) => chunk.total === chunks.length));
+    assert.deepEqual(chunks[chunks.length - 1].sections.slice(-1), ['dispositif']);
+  });
+
+  it('cuts oversized sections at paragraph boundaries', () => {
+    const chunks = splitDecision('## Motifs\n\n' + filler(3_000), { chunkTokens: 500, overlapTokens: 0 });
+    assert.ok(chunks.length >= 6);
+    assert.ok(chunks.every((chunk) => estimateTokens(chunk.text) <= 500));
+    assert.ok(chunks.slice(0, -1).every((chunk) => chunk.text.endsWith('\n')));
+  });
+
+  it('repeats the end of the previous chunk, from a line start', () => {
+    const [first, second] = splitDecision(DECISION, { chunkTokens: 500, overlapTokens: 50 });
+    assert.ok(second.text.length > second.end - second.start);
+    const overlap = second.text.slice(0, second.text.length - (second.end - second.start));
+    assert.ok(first.text.endsWith(overlap));
+    assert.equal(DECISION[second.end - second.text.length - 1], '\n');
+  });
+});
+
+describe('planChunks', () => {
+  const config = { reduce: (outputs: any[]) => outputs[0], maxInputTokens: 1_000, chunkTokens: 500 };
+
+  it('only chunks rows whose prompt exceeds the budget', () => {
+    const row = { decision_id: 'D1', full_md: DECISION };
+    assert.equal(planChunks(row, 'short prompt', config), null);
+    assert.ok(planChunks(row, DECISION, config)!.length > 1);
+  });
+
+  it('leaves rows without decision text alone', () => {
+    assert.equal(planChunks({ full_md: '' }, DECISION, config), null);
+  });
+
+  it('replaces the text field with the annotated chunk', () => {
+    const [chunk] = splitDecision(DECISION, { chunkTokens: 500 });
+    const row = chunkRow({ decision_id: 'D1', full_md: DECISION }, chunk, config);
+    assert.match(row.full_md, /^\[Part 1 of 4 of a long decision \(header, facts, pleas\)\. /);
+    assert.deepEqual(row._chunk, { index: 0, total: chunk.total, sections: chunk.sections });
+  });
+});
+
+describe('reducer helpers', () => {
+  it('normalizes keys', () => {
+    assert.equal(normalizeKey('  Art. 1382,  C. civ. '), 'art 1382 c civ');
+    assert.equal(normalizeKey('Société'), 'societe');
+  });
+
+  it('dedupes by key and maps duplicates to the merged item', () => {
+    const a = { name: 'SA Belfius', roles: ['defendeur'] };
+    const b = { name: 'sa belfius', roles: ['appelant'] };
+    const c = { name: 'X', roles: [] };
+    const { items, keptFor } = dedupeByKey(
+      [[a, c], [b]],
+      (party) => normalizeKey(party.name),
+      (kept, duplicate) => ({ ...kept, roles: [...kept.roles, ...duplicate.roles] })
+    );
+    assert.deepEqual(items.map((p) => p.roles), [['defendeur', 'appelant'], []]);
+    assert.equal(keptFor[1].get(b), items[0]);
+    assert.equal(keptFor[0].get(a), items[0]);
+  });
+
+  it('drops near-duplicate texts', () => {
+    const { items, keptFor } = dedupeBySimilarity(
+      [['La charge de la preuve incombe au demandeur'], ['la charge de la preuve incombe au demandeur.', 'Autre chose']],
+      (text) => text
+    );
+    assert.equal(items.length, 2);
+    assert.equal(keptFor[1].get('la charge de la preuve incombe au demandeur.'), items[0]);
+  });
+
+  it('builds sequential IDs', () => {
+    assert.equal(sequenceId('ART', 'ECLI:BE:CASS:2020:ARR.1', 7), 'ART-ECLI:BE:CASS:2020:ARR.1-007');
+  });
+});
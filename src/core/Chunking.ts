@@ -0,0 +1,309 @@
+import { textSimilarity } from './SelfConsistency.js';
+
+/**
+ * Long-Decision Chunking (map-reduce execution)
+ *
+ * Decisions whose prompt would not fit the model's context window are split
+ * into overlapping chunks along the decision structure (facts, pleas,
+ * reasoning, dispositif). The job runs once per chunk, with the chunk in
+ * place of the full text, and the chunk outputs are merged by the job's
+ * reducer (dedupe provisions, merge parties, renumber teachings, ...).
+ *
+ * Token counts are estimated before the call, so oversized rows take this
+ * path automatically instead of failing with a context-window 400.
+ */
+
+/** Prompt size (estimated tokens) above which a row is chunked */
+export const DEFAULT_MAX_INPUT_TOKENS = 200_000;
+
+/** Decision text per chunk (estimated tokens) */
+export const DEFAULT_CHUNK_TOKENS = 60_000;
+
+/** Text repeated from the end of the previous chunk (estimated tokens) */
+export const DEFAULT_OVERLAP_TOKENS = 1_500;
+
+/**
+ * Chunked execution of a job (JobConfig.chunking)
+ */
+export interface ChunkingConfig {
+  /** Row field holding the decision text (default: 'full_md') */
+  textField?: string;
+  /** Chunk rows whose prompt exceeds this many estimated tokens (default: 200000) */
+  maxInputTokens?: number;
+  /** Decision text per chunk in estimated tokens (default: 60000) */
+  chunkTokens?: number;
+  /** Estimated tokens of overlap between consecutive chunks (default: 1500) */
+  overlapTokens?: number;
+  /**
+   * Merge the chunk outputs (in text order) into one output of the job's schema
+   *
+   * @param outputs - Output of each chunk
+   * @param row - The original (unchunked) row
+   */
+  reduce: (outputs: any[], row: any) => any;
+}
+
+export type SectionKind = 'header' | 'facts' | 'pleas' | 'reasoning' | 'dispositif' | 'other';
+
+/**
+ * One chunk of a decision
+ */
+export interface DecisionChunk {
+  index: number;
+  total: number;
+  /** Section kinds covered by the chunk, in order */
+  sections: SectionKind[];
+  /** Chunk text (with the overlap from the previous chunk) */
+  text: string;
+  /** Character offsets of the chunk in the decision text (overlap excluded) */
+  start: number;
+  end: number;
+}
+
+/**
+ * Rough token estimate
+ *
+ * ~3.5 characters per token for French/Dutch legal text; deliberately on
+ * the high side so rows are chunked before the API rejects them.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 3.5);
+}
+
+// ============================================================================
+// Decision structure
+// ============================================================================
+
+/**
+ * Section headings of Belgian decisions (FR / NL), matched at line start
+ */
+const SECTION_MARKERS: Array<[SectionKind, RegExp]> = [
+  ['dispositif', /^(par ces motifs|dispositif|d[ée]cision\b|om die redenen|om deze redenen|beslissing\b|beschikkend gedeelte)/i],
+  ['facts', /^((les |de )?faits|ant[ée]c[ée]dents|proc[ée]dure|objet (de la demande|du recours)|(de )?feiten|voorgaanden|rechtspleging|procedure|voorwerp van)/i],
+  ['pleas', /^(moyens?\b|(le |het )?(premier |deuxi[èe]me |eerste |tweede )?(moyen|middel)|griefs?|grieven|thèse des parties|standpunt(en)? van (de )?partijen)/i],
+  ['reasoning', /^(en droit|discussion|appr[ée]ciation|motivation|examen|quant au (fond|premier|deuxi[èe]me|moyen)|in rechte|beoordeling|overwegingen|motivering|ten gronde|wat het .* middel betreft)/i],
+];
+
+/**
+ * Kind of a heading line, or null when the line does not start a section
+ */
+function sectionOf(line: string): SectionKind | null {
+  const isHeading = /^#{1,6}\s/.test(line) || /^\*\*[^*]+\*\*:?$/.test(line) || /^[A-ZÀ-Ý0-9 .,'’:()-]{6,80}$/.test(line);
+  const text = line.replace(/^#{1,6}\s+|\*\*/g, '').replace(/^([IVXLC]+|[A-Z]|\d+)[.)]\s*/, '').trim();
+  if (!text) return null;
+
+  for (const [kind, pattern] of SECTION_MARKERS) {
+    if (pattern.test(text)) return kind;
+  }
+  return isHeading ? 'other' : null;
+}
+
+/**
+ * Sections of a decision: [start offset, kind], first section is the header
+ */
+function findSections(text: string): Array<{ start: number; kind: SectionKind }> {
+  const sections: Array<{ start: number; kind: SectionKind }> = [{ start: 0, kind: 'header' }];
+  let offset = 0;
+  for (const line of text.split('\n')) {
+    const kind = line.trim().length <= 120 ? sectionOf(line.trim()) : null;
+    // 'other' headings only split; they inherit the kind of the enclosing section
+    if (kind && offset > 0) {
+      sections.push({ start: offset, kind: kind === 'other' ? sections[sections.length - 1].kind : kind });
+    }
+    offset += line.length + 1;
+  }
+  return sections;
+}
+
+/**
+ * Split a span at paragraph boundaries into pieces of at most maxChars
+ */
+function splitParagraphs(text: string, start: number, end: number, maxChars: number): Array<[number, number]> {
+  const pieces: Array<[number, number]> = [];
+  let pieceStart = start;
+  while (end - pieceStart > maxChars) {
+    const limit = pieceStart + maxChars;
+    // Prefer a blank line, then a line break, then a sentence end, in the second half of the piece
+    const window = text.slice(pieceStart + Math.floor(maxChars / 2), limit);
+    const sentenceEnds = [...window.matchAll(/[.;:]\s/g)];
+    const cut = [
+      window.lastIndexOf('\n\n'),
+      window.lastIndexOf('\n'),
+      sentenceEnds.length > 0 ? sentenceEnds[sentenceEnds.length - 1].index! + 1 : -1,
+    ].find((index) => index >= 0);
+    const splitAt = cut === undefined ? limit : pieceStart + Math.floor(maxChars / 2) + cut + 1;
+    pieces.push([pieceStart, splitAt]);
+    pieceStart = splitAt;
+  }
+  pieces.push([pieceStart, end]);
+  return pieces;
+}
+
+/**
+ * Split a decision into overlapping chunks along its sections
+ *
+ * Consecutive sections are packed up to `chunkTokens`; a section longer than
+ * that is cut at paragraph boundaries. Each chunk after the first starts with
+ * the last `overlapTokens` of the previous one, so items straddling a cut
+ * are seen whole at least once (reducers dedupe them).
+ */
+export function splitDecision(
+  text: string,
+  options: Pick<ChunkingConfig, 'chunkTokens' | 'overlapTokens'> = {}
+): DecisionChunk[] {
+  const maxChars = Math.floor((options.chunkTokens ?? DEFAULT_CHUNK_TOKENS) * 3.5);
+  const overlapChars = Math.floor((options.overlapTokens ?? DEFAULT_OVERLAP_TOKENS) * 3.5);
+
+  // Sections as [start, end, kind], oversized ones split further
+  const sections = findSections(text);
+  const spans: Array<{ start: number; end: number; kind: SectionKind }> = [];
+  sections.forEach((section, i) => {
+    const end = i + 1 < sections.length ? sections[i + 1].start : text.length;
+    for (const [start, pieceEnd] of splitParagraphs(text, section.start, end, maxChars)) {
+      spans.push({ start, end: pieceEnd, kind: section.kind });
+    }
+  });
+
+  // Pack spans into chunks
+  const packed: Array<{ start: number; end: number; sections: SectionKind[] }> = [];
+  for (const span of spans) {
+    const current = packed[packed.length - 1];
+    if (current && span.end - current.start <= maxChars) {
+      current.end = span.end;
+      if (current.sections[current.sections.length - 1] !== span.kind) current.sections.push(span.kind);
+    } else {
+      packed.push({ start: span.start, end: span.end, sections: [span.kind] });
+    }
+  }
+
+  return packed.map((chunk, index) => {
+    const overlapStart = index === 0 ? chunk.start : Math.max(0, chunk.start - overlapChars);
+    // Start the overlap at a line boundary
+    const lineStart = text.lastIndexOf('\n', overlapStart);
+    const from = index === 0 || lineStart < packed[index - 1].start ? overlapStart : lineStart + 1;
+    return {
+      index,
+      total: packed.length,
+      sections: chunk.sections,
+      text: text.slice(from, chunk.end),
+      start: chunk.start,
+      end: chunk.end,
+    };
+  });
+}
+
+/**
+ * Chunks of a row, or null when its prompt fits
+ *
+ * @param prompt - The prompt the row would be sent with (text field for customExecution jobs)
+ */
+export function planChunks(row: any, prompt: string, config: ChunkingConfig): DecisionChunk[] | null {
+  if (estimateTokens(prompt) <= (config.maxInputTokens ?? DEFAULT_MAX_INPUT_TOKENS)) {
+    return null;
+  }
+  const text = row[config.textField ?? 'full_md'];
+  if (typeof text !== 'string' || !text.trim()) {
+    return null;
+  }
+  const chunks = splitDecision(text, config);
+  return chunks.length > 1 ? chunks : null;
+}
+
+/**
+ * Row with the decision text replaced by a chunk
+ *
+ * The chunk text starts with a note telling the model it sees part of the
+ * decision; `_chunk` carries the chunk position for custom executors.
+ */
+export function chunkRow(row: any, chunk: DecisionChunk, config: ChunkingConfig): any {
+  const note =
+    `[Part ${chunk.index + 1} of ${chunk.total} of a long decision (${chunk.sections.join(', ')}). ` +
+    'Extract only what appears in this part; the parts are merged afterwards.]\n\n';
+  return {
+    ...row,
+    [config.textField ?? 'full_md']: note + chunk.text,
+    _chunk: { index: chunk.index, total: chunk.total, sections: chunk.sections },
+  };
+}
+
+// ============================================================================
+// Reducer helpers
+// ============================================================================
+
+/**
+ * Lowercase, accent-free, whitespace-collapsed text for comparisons
+ */
+export function normalizeKey(value: unknown): string {
+  return String(value ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Items of all chunks, first occurrence per key kept (in chunk order)
+ *
+ * @param merge - Called with (kept, duplicate) to fold a duplicate into the kept item
+ * @returns Kept items, and for each chunk a map from its items to the kept item
+ */
+export function dedupeByKey<T>(
+  chunks: T[][],
+  key: (item: T) => string,
+  merge?: (kept: T, duplicate: T) => T
+): { items: T[]; keptFor: Array<Map<T, T>> } {
+  const indexByKey = new Map<string, number>();
+  const items: T[] = [];
+  const indexes = chunks.map((chunkItems) => chunkItems.map((item) => {
+    const k = key(item);
+    const existing = indexByKey.get(k);
+    if (existing === undefined) {
+      indexByKey.set(k, items.length);
+      items.push(item);
+      return items.length - 1;
+    }
+    if (merge) items[existing] = merge(items[existing], item);
+    return existing;
+  }));
+
+  // Resolved after merging, so mappings point at the merged items
+  const keptFor = chunks.map((chunkItems, c) =>
+    new Map(chunkItems.map((item, i): [T, T] => [item, items[indexes[c][i]]]))
+  );
+  return { items, keptFor };
+}
+
+/**
+ * Items of all chunks, near-duplicate texts (overlap between chunks) dropped
+ *
+ * @returns Kept items, and for each chunk a map from its items to the kept item
+ */
+export function dedupeBySimilarity<T>(
+  chunks: T[][],
+  text: (item: T) => string,
+  threshold = 0.85
+): { items: T[]; keptFor: Array<Map<T, T>> } {
+  const items: T[] = [];
+  const keptFor = chunks.map((chunkItems) => {
+    const mapping = new Map<T, T>();
+    for (const item of chunkItems) {
+      const duplicate = items.find((kept) => textSimilarity(text(kept), text(item)) >= threshold);
+      if (duplicate) {
+        mapping.set(item, duplicate);
+      } else {
+        items.push(item);
+        mapping.set(item, item);
+      }
+    }
+    return mapping;
+  });
+  return { items, keptFor };
+}
+
+/**
+ * Sequential ID: PREFIX-{decisionId}-001
+ */
+export function sequenceId(prefix: string, decisionId: string, sequence: number): string {
+  return `${prefix}-${decisionId}-${String(sequence).padStart(3, '0')}`;
+}
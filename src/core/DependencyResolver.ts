@@ -7,6 +7,8 @@ import {
   JobResultLoader,
 } from '../utils/jobResultLoader.js';
 import { JobLogger } from '../utils/logger.js';
+import { RunRegistry, runId, runPath } from '../lineage/RunRegistry.js';
+import { RunKind } from '../lineage/types.js';
 
 interface PreparedMatchField {
   row: string;
@@ -19,6 +21,8 @@ interface PreparedDependency {
   required: boolean;
   baseDir: string;
   timestamp?: string;
+  /** Run the records were loaded from (set by preload) */
+  runId?: string;
   matchOn: PreparedMatchField[];
   cache?: Map<string, any>;
   unavailable?: boolean;
@@ -34,6 +38,11 @@ const SOURCE_TO_DIR: Record<string, string> = {
   concurrent: 'concurrent/results',
 };
 
+const DIR_TO_RUN_KIND: Record<string, RunKind> = {
+  results: 'batch',
+  'concurrent/results': 'concurrent',
+};
+
 function getByPath(source: any, path: string): any {
   if (!source || !path) return undefined;
   if (!path.includes('.')) return source[path];
@@ -140,13 +149,23 @@ export class DependencyResolver {
   }
 
   async preload(): Promise<void> {
+    const registry = RunRegistry.load();
     await Promise.all(
       this.prepared.map(async (prepared) => {
         try {
+          // Without an explicit timestamp, prefer the job's canonical registered run
+          const kind = DIR_TO_RUN_KIND[prepared.baseDir];
+          const canonical = kind ? registry.canonical(prepared.config.jobId, [kind]) : undefined;
+          const timestamp = prepared.timestamp ?? (canonical ? runPath(canonical.id) : undefined);
+
           const records = await JobResultLoader.loadAllResults(
             prepared.config.jobId,
             prepared.baseDir,
-            prepared.timestamp
+            timestamp
+          );
+          prepared.runId = runId(
+            prepared.config.jobId,
+            await JobResultLoader.findLatestResultsDirectory(prepared.config.jobId, prepared.baseDir, timestamp)
           );
 
           const map = new Map<string, any>();
@@ -195,6 +214,15 @@ export class DependencyResolver {
     );
   }
 
+  /**
+   * Runs the preloaded dependencies were read from (for the run registry)
+   */
+  inputRuns(): string[] {
+    return this.prepared
+      .filter((prepared) => prepared.runId && !prepared.unavailable)
+      .map((prepared) => prepared.runId!);
+  }
+
   async enrichRow(row: any): Promise<any> {
     if (this.prepared.length === 0) {
       return row;
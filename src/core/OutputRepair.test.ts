@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { validator } from '../utils/validators.js';
+import {
+  buildRepairPrompt,
+  checkOutput,
+  MAX_REPAIR_COMPLETION_TOKENS,
+  repairTokenLimit,
+  summarizeRepairs,
+} from './OutputRepair.js';
+
+const SCHEMA_ID = 'output-repair-test';
+
+validator.compileSchema(SCHEMA_ID, {
+  type: 'object',
+  required: ['parties'],
+  additionalProperties: false,
+  properties: {
+    parties: { type: 'array', items: { type: 'string', minLength: 2 } },
+  },
+});
+
+describe('checkOutput', () => {
+  it('accepts valid output', () => {
+    assert.deepEqual(checkOutput('{"parties": ["Belfius"]}', 'stop', SCHEMA_ID), { data: { parties: ['Belfius'] } });
+  });
+
+  it('flags truncation before parsing', () => {
+    assert.equal(checkOutput('{"parties": [', 'length', SCHEMA_ID).problem?.kind, 'truncated');
+  });
+
+  it('flags output that does not parse', () => {
+    assert.equal(checkOutput('no json here', 'stop', SCHEMA_ID).problem?.kind, 'parse');
+  });
+
+  it('keeps the data and Ajv errors of schema violations', () => {
+    const { data, problem } = checkOutput('{"parties": ["A"], "extra": 1}', 'stop', SCHEMA_ID);
+    assert.deepEqual(data, { parties: ['A'], extra: 1 });
+    assert.equal(problem?.kind, 'schema');
+    assert.equal(problem?.errors?.length, 2);
+  });
+
+  it('only requires a JSON object without a schema', () => {
+    assert.deepEqual(checkOutput('{"anything": true}', 'stop', undefined), { data: { anything: true } });
+    assert.equal(checkOutput('[1, 2]', 'stop', undefined).problem?.kind, 'parse');
+  });
+});
+
+describe('repairTokenLimit', () => {
+  it('doubles the limit up to the cap', () => {
+    assert.equal(repairTokenLimit(16_000), 32_000);
+    assert.equal(repairTokenLimit(100_000), MAX_REPAIR_COMPLETION_TOKENS);
+  });
+
+  it('does not repair at the cap or without a limit', () => {
+    assert.equal(repairTokenLimit(MAX_REPAIR_COMPLETION_TOKENS), undefined);
+    assert.equal(repairTokenLimit(undefined), undefined);
+  });
+});
+
+describe('buildRepairPrompt', () => {
+  it('lists schema errors, summarizing the overflow', () => {
+    const { problem } = checkOutput(JSON.stringify({ parties: Array(30).fill('A') }), 'stop', SCHEMA_ID);
+    const prompt = buildRepairPrompt(problem!);
+    assert.match(prompt, /does not match the required JSON schema/);
+    assert.match(prompt, /… and 5 more/);
+  });
+
+  it('repeats the parse error', () => {
+    const { problem } = checkOutput('{', 'stop', SCHEMA_ID);
+    assert.ok(buildRepairPrompt(problem!).includes(problem!.message));
+  });
+});
+
+describe('summarizeRepairs', () => {
+  it('totals rows with a repair attempt', () => {
+    assert.deepEqual(
+      summarizeRepairs([
+        undefined,
+        { attempts: 1, repaired: true, problems: [] },
+        { attempts: 2, repaired: false, problems: [] },
+      ]),
+      { attempted: 2, repaired: 1, failed: 1, attempts: 3 }
+    );
+  });
+});
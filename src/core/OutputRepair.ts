@@ -0,0 +1,175 @@
+import { ErrorObject } from 'ajv';
+import { extractJsonFromResponse, validator } from '../utils/validators.js';
+
+/**
+ * Structured-output repair
+ *
+ * When a completion is truncated, is not valid JSON, or violates the output
+ * schema, the same model is asked to fix its own output: the invalid output
+ * goes back as the assistant turn, followed by a repair prompt listing the
+ * problems (Ajv errors for schema violations). Bounded by `repairAttempts`
+ * (JobConfig / `concurrent --repair-attempts`).
+ *
+ * Truncated completions are repaired with a doubled completion token limit
+ * (see `repairTokenLimit`); at the cap they are not repaired.
+ */
+
+/** Repair attempts per row when the job does not configure any */
+export const DEFAULT_REPAIR_ATTEMPTS = 2;
+
+/** Highest completion token limit a truncation repair raises to */
+export const MAX_REPAIR_COMPLETION_TOKENS = 128_000;
+
+/** Ajv errors listed in a repair prompt (the rest are summarized) */
+const MAX_LISTED_ERRORS = 25;
+
+/**
+ * Why a completion cannot be used as-is
+ */
+export interface OutputProblem {
+  kind: 'truncated' | 'parse' | 'schema';
+  message: string;
+  errors?: ErrorObject[];
+}
+
+/**
+ * Repair outcome of a row (only set when a repair was attempted)
+ */
+export interface RepairReport {
+  attempts: number;
+  repaired: boolean;
+  /** Problem of each invalid completion, in order */
+  problems: Array<{ kind: OutputProblem['kind']; message: string }>;
+}
+
+/**
+ * Repair totals of a run (written to summary.json)
+ */
+export interface RepairSummary {
+  /** Rows with at least one repair attempt */
+  attempted: number;
+  repaired: number;
+  failed: number;
+  /** Repair completions sent */
+  attempts: number;
+}
+
+/**
+ * Parse and validate a completion
+ *
+ * @param schemaId - Compiled schema ID (the job ID, see SchemaValidator.compileSchema);
+ *   undefined to only check that the output parses (e.g. one chunk of a decision)
+ * @returns Parsed data, and the problem when the output cannot be used as-is
+ */
+export function checkOutput(
+  content: string,
+  finishReason: string | undefined,
+  schemaId: string | undefined
+): { data?: any; problem?: OutputProblem } {
+  if (finishReason === 'length') {
+    return {
+      problem: {
+        kind: 'truncated',
+        message: 'Response truncated - hit token limit',
+      },
+    };
+  }
+
+  let data: any;
+  try {
+    data = extractJsonFromResponse(content);
+  } catch (error) {
+    return {
+      problem: {
+        kind: 'parse',
+        message: `JSON parse error: ${error instanceof Error ? error.message : String(error)}`,
+      },
+    };
+  }
+
+  if (schemaId === undefined) {
+    if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+      return { problem: { kind: 'parse', message: 'JSON parse error: expected a JSON object' } };
+    }
+    return { data };
+  }
+
+  const validation = validator.validate(schemaId, data);
+  if (!validation.valid) {
+    return {
+      data,
+      problem: {
+        kind: 'schema',
+        message: `Schema validation failed: ${validator.formatErrors(validation.errors)}`,
+        errors: validation.errors,
+      },
+    };
+  }
+  return { data };
+}
+
+/**
+ * Completion token limit for repairing a truncated completion
+ *
+ * The same limit would truncate the repaired output again, so it is doubled
+ * up to MAX_REPAIR_COMPLETION_TOKENS.
+ *
+ * @param current - Limit of the truncated completion (undefined: provider default)
+ * @returns Raised limit, or undefined when it cannot be raised (repair is skipped)
+ */
+export function repairTokenLimit(current: number | undefined): number | undefined {
+  if (current === undefined || current >= MAX_REPAIR_COMPLETION_TOKENS) {
+    return undefined;
+  }
+  return Math.min(current * 2, MAX_REPAIR_COMPLETION_TOKENS);
+}
+
+/**
+ * Follow-up prompt asking the model to fix its previous output
+ */
+export function buildRepairPrompt(problem: OutputProblem): string {
+  const instructions =
+    'Return ONLY the corrected, complete JSON object. Keep every correct value unchanged, ' +
+    'fix only what is listed, and do not add commentary.';
+
+  switch (problem.kind) {
+    case 'truncated':
+      return (
+        'Your previous response was cut off at the output token limit, so the JSON is incomplete.\n\n' +
+        'Return the complete JSON object again. Write more concisely (shorter free-text fields) ' +
+        'so that it fits, but keep every required field and every extracted item.\n\n' +
+        instructions
+      );
+    case 'parse':
+      return (
+        `Your previous response is not valid JSON (${problem.message}).\n\n` +
+        instructions
+      );
+    case 'schema': {
+      const errors = problem.errors ?? [];
+      const listed = validator.formatErrors(errors.slice(0, MAX_LISTED_ERRORS));
+      const more = errors.length > MAX_LISTED_ERRORS ? `\n  … and ${errors.length - MAX_LISTED_ERRORS} more` : '';
+      return (
+        'Your previous response does not match the required JSON schema. Validation errors ' +
+        '(JSON pointer: problem {parameters}):\n' +
+        `${listed}${more}\n\n` +
+        'For length constraints, rewrite the value from the source text instead of padding or cutting it mid-sentence.\n\n' +
+        instructions
+      );
+    }
+  }
+}
+
+/**
+ * Repair totals over the rows of a run
+ */
+export function summarizeRepairs(reports: Array<RepairReport | undefined>): RepairSummary {
+  const attempted = reports.filter((r): r is RepairReport => r !== undefined);
+  const repaired = attempted.filter((r) => r.repaired).length;
+  return {
+    attempted: attempted.length,
+    repaired,
+    failed: attempted.length - repaired,
+    attempts: attempted.reduce((sum, r) => sum + r.attempts, 0),
+  };
+}
@@ -8,6 +8,8 @@ import {
   extractJsonFromResponse,
   ValidationResult,
 } from '../utils/validators.js';
+import { PromptSchemaVersion, VERSION_FIELD } from '../utils/versioning.js';
+import { configHash, RunRegistry } from '../lineage/RunRegistry.js';
 
 /**
  * Processed Result
@@ -32,6 +34,8 @@ export interface ProcessingSummary {
   successfulRecords: number;
   failedRecords: number;
   validationErrors: number;
+  promptTokens: number;
+  completionTokens: number;
   totalTokens: number;
   outputDirectory: string;
 }
@@ -58,11 +62,13 @@ export class ResultProcessor {
    *
    * @param outputFilePath Path to the JSONL output file from Azure
    * @param inputFilePath Optional path to input JSONL file (used to derive metadata file path)
+   * @param version Prompt/schema version the batch was generated with (stamped into results)
    * @returns Processing summary
    */
   async process(
     outputFilePath: string,
-    inputFilePath?: string
+    inputFilePath?: string,
+    version?: PromptSchemaVersion
   ): Promise<ProcessingSummary> {
     this.logger.info('Starting result processing', { path: outputFilePath });
 
@@ -82,6 +88,8 @@ export class ResultProcessor {
 
       // Process each response
       const results: ProcessedResult[] = [];
+      let promptTokens = 0;
+      let completionTokens = 0;
       let totalTokens = 0;
       let validationErrors = 0;
       let successCount = 0;
@@ -103,6 +111,9 @@ export class ResultProcessor {
         }
 
         const result = await this.processResponse(response, metadataMap);
+        if (version && result.success && result.data && typeof result.data === 'object' && !Array.isArray(result.data)) {
+          result.data = { ...result.data, [VERSION_FIELD]: version };
+        }
         results.push(result);
 
         // Update counters incrementally (avoid filtering large arrays)
@@ -113,6 +124,8 @@ export class ResultProcessor {
         }
 
         if (result.tokenUsage) {
+          promptTokens += result.tokenUsage.promptTokens;
+          completionTokens += result.tokenUsage.completionTokens;
           totalTokens += result.tokenUsage.totalTokens;
         }
 
@@ -133,13 +146,28 @@ export class ResultProcessor {
         timestamp
       );
 
-      await this.saveResults(outputDir, results);
+      await this.saveResults(outputDir, results, version);
+
+      const model = this.config.model || this.config.deploymentName;
+      await RunRegistry.update((registry) => {
+        registry.register({
+          jobId: this.config.id,
+          kind: 'batch',
+          directory: outputDir,
+          configHash: configHash({ ...this.config, provider: 'azure', model }, version),
+          model,
+          promptSchemaVersion: version ?? null,
+          inputs: this.config.inputRuns,
+        });
+      });
 
       const summary: ProcessingSummary = {
         totalRecords: results.length,
         successfulRecords: results.filter((r) => r.success).length,
         failedRecords: results.filter((r) => !r.success).length,
         validationErrors,
+        promptTokens,
+        completionTokens,
         totalTokens,
         outputDirectory: outputDir,
       };
@@ -372,7 +400,8 @@ export class ResultProcessor {
    */
   private async saveResults(
     outputDir: string,
-    results: ProcessedResult[]
+    results: ProcessedResult[],
+    version?: PromptSchemaVersion
   ): Promise<void> {
     // Create output directory
     await fs.mkdir(outputDir, { recursive: true });
@@ -444,6 +473,7 @@ export class ResultProcessor {
               ) / results.length
             )
           : 0,
+      promptSchemaVersion: version ?? null,
     };
 
     const summaryPath = path.join(outputDir, 'summary.json');
@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  applyReviewTiers,
+  reconcileSamples,
+  sampleModels,
+  SelfConsistencyConfig,
+  textSimilarity,
+  tierForAgreement,
+} from './SelfConsistency.js';
+
+const MODELS = ['gpt-5-mini', 'gpt-5-mini', 'gpt-5-mini'];
+
+function teachings(...texts: string[]): any {
+  return { legalTeachings: texts.map((text, i) => ({ teachingId: `T-${i + 1}`, text })) };
+}
+
+const TEACHINGS: SelfConsistencyConfig = {
+  samples: 3,
+  arrays: [{ path: 'legalTeachings', textField: 'text', reviewTierField: 'reviewTier' }],
+};
+
+const PROOF = 'La charge de la preuve incombe au demandeur';
+const DELAY = 'Le délai de prescription court à partir de la connaissance du dommage';
+
+describe('helpers', () => {
+  it('compares texts regardless of case, accents and word order', () => {
+    assert.equal(textSimilarity('Délai de recours', 'recours DELAI de'), 1);
+    assert.equal(textSimilarity('', ''), 1);
+    assert.equal(textSimilarity('preuve', ''), 0);
+  });
+
+  it('maps agreement to review tiers', () => {
+    const config: SelfConsistencyConfig = { samples: 3 };
+    assert.equal(tierForAgreement(1, config), 'auto_accept');
+    assert.equal(tierForAgreement(2 / 3, config), 'expedited_review');
+    assert.equal(tierForAgreement(1 / 3, config), 'mandatory_review');
+  });
+
+  it('assigns sample models round-robin', () => {
+    assert.deepEqual(sampleModels({ samples: 3, models: ['a', 'b'] }, 'c'), ['a', 'b', 'a']);
+    assert.deepEqual(sampleModels({ samples: 2 }, 'c'), ['c', 'c']);
+  });
+});
+
+describe('reconcileSamples', () => {
+  it('picks the sample that agrees most and scores its items', () => {
+    const { data, report } = reconcileSamples(
+      [teachings(PROOF), teachings(PROOF, DELAY), teachings(DELAY, PROOF)],
+      TEACHINGS,
+      MODELS
+    );
+
+    assert.equal(report.baseSample, 1);
+    assert.deepEqual(data, teachings(PROOF, DELAY));
+    assert.deepEqual(report.arrays[0].items.map((i) => [i.support, i.reviewTier]), [
+      [3, 'auto_accept'],
+      [2, 'expedited_review'],
+    ]);
+    assert.equal(report.agreement, 2 / 3);
+    assert.equal(report.reviewTier, 'expedited_review');
+  });
+
+  it('counts failed samples against agreement', () => {
+    const { report } = reconcileSamples([teachings(PROOF), null, null], TEACHINGS, MODELS);
+    assert.equal(report.succeeded, 1);
+    assert.equal(report.reviewTier, 'mandatory_review');
+    assert.equal(report.mandatoryReview, 1);
+  });
+
+  it('takes the base output from the majority of voteFields', () => {
+    const { data, report } = reconcileSamples(
+      [{ kind: 'A', ...teachings(PROOF, DELAY) }, { kind: 'B', ...teachings(PROOF) }, { kind: 'B', ...teachings(PROOF) }],
+      { ...TEACHINGS, voteFields: ['kind'] },
+      MODELS
+    );
+    assert.equal(data.kind, 'B');
+    assert.equal(report.voteAgreement, 2 / 3);
+  });
+
+  it('escalates the row when items missing from the base reach minAgreement', () => {
+    const { report } = reconcileSamples(
+      [{ kind: 'A', ...teachings(PROOF) }, { kind: 'A', ...teachings(PROOF) }, { kind: 'B', ...teachings(DELAY) }],
+      { samples: 3, voteFields: ['kind'], arrays: [{ path: 'legalTeachings', textField: 'text' }], minAgreement: 0.3 },
+      MODELS
+    );
+    assert.deepEqual(report.arrays[0].unmatched.map((u) => u.support), [1]);
+    assert.equal(report.arrays[0].items[0].reviewTier, 'expedited_review');
+    assert.equal(report.reviewTier, 'mandatory_review');
+  });
+
+  it('requires compareFields to match for a sample to agree', () => {
+    const classification = (issue: string) => ({ classifications: [{ teaching_id: 'T-1', classification: { issue_key: issue } }] });
+    const { report } = reconcileSamples(
+      [classification('X'), classification('X'), classification('Y')],
+      { samples: 3, arrays: [{ path: 'classifications', key: 'teaching_id', compareFields: ['classification.issue_key'] }] },
+      MODELS
+    );
+    assert.equal(report.arrays[0].items[0].support, 2);
+  });
+
+  it('leaves tier fields out of the reconciled output', () => {
+    const { data } = reconcileSamples([teachings(PROOF), null, null], TEACHINGS, MODELS);
+    assert.equal('reviewTier' in data.legalTeachings[0], false);
+  });
+
+  it('throws when every sample failed', () => {
+    assert.throws(() => reconcileSamples([null, null], TEACHINGS, MODELS), /All 2 self-consistency samples failed/);
+  });
+});
+
+describe('applyReviewTiers', () => {
+  it('writes item and row tiers without changing the input', () => {
+    const config: SelfConsistencyConfig = { ...TEACHINGS, reviewTierField: 'review_tier' };
+    const { data, report } = reconcileSamples(
+      [teachings(PROOF), teachings(PROOF, DELAY), teachings(DELAY, PROOF)],
+      config,
+      MODELS
+    );
+    const tiered = applyReviewTiers(data, report, config);
+
+    assert.deepEqual(tiered.legalTeachings.map((t: any) => t.reviewTier), ['auto_accept', 'expedited_review']);
+    assert.equal(tiered.review_tier, 'expedited_review');
+    assert.equal('review_tier' in data, false);
+  });
+
+  it('never lowers a tier already set', () => {
+    const config: SelfConsistencyConfig = { samples: 3, reviewTierField: 'review_tier' };
+    const output = { review_tier: 'mandatory_review' };
+    const { data, report } = reconcileSamples([output, output, output], config, MODELS);
+    assert.equal(applyReviewTiers(data, report, config).review_tier, 'mandatory_review');
+  });
+});
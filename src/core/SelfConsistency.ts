@@ -0,0 +1,401 @@
+import { stableStringify } from '../utils/hashing.js';
+import { ReviewTier } from '../jobs/classify-legal-issues/validation.js';
+
+/**
+ * Self-Consistency Voting
+ *
+ * A job (or pipeline step) is sampled N times for the same row, optionally
+ * across several models, and the outputs are reconciled:
+ *
+ * 1. Entity arrays (teachings, provisions, topic sets, ...) are aligned
+ *    across samples by key or by text similarity.
+ * 2. Each item gets an agreement score: the share of samples containing it.
+ * 3. The base output is the sample that agrees most with the others (within
+ *    the majority of `voteFields`, when set). Its items are kept as-is, so
+ *    IDs and cross-references inside the output stay consistent.
+ * 4. Low-agreement items are routed to a ReviewTier; items found by other
+ *    samples but missing from the base are reported as unmatched.
+ * 5. Once the output is validated, applyReviewTiers writes the tiers into
+ *    its reviewTierFields.
+ *
+ * Failed samples count as samples without the item, so a row where most
+ * samples failed is never auto-accepted.
+ */
+
+/**
+ * How to align one entity array across samples
+ */
+export interface ConsensusArraySpec {
+  /** Dot path of the array in the output (e.g. 'legalTeachings', 'classification.topic_set') */
+  path: string;
+  /** Item field identifying an entity across samples (string items are their own key) */
+  key?: string;
+  /** Item field compared by text similarity when no key is set */
+  textField?: string;
+  /** Minimum token similarity (0-1) for two items to be the same entity (default: 0.6) */
+  similarityThreshold?: number;
+  /** Item fields that must also match for a sample to agree (e.g. 'classification.issue_key') */
+  compareFields?: string[];
+  /** Item ReviewTier field escalated to the item's consensus tier (never lowered) */
+  reviewTierField?: string;
+}
+
+/**
+ * Self-consistency settings of a job or pipeline step
+ */
+export interface SelfConsistencyConfig {
+  /** Completions per row (1 = single call, voting off) */
+  samples: number;
+  /** Models used round-robin per sample (default: the job's model) */
+  models?: string[];
+  /** Entity arrays reconciled item by item */
+  arrays?: ConsensusArraySpec[];
+  /** Output fields voted on as a whole; the base output comes from the majority */
+  voteFields?: string[];
+  /** Agreement at or above which an item is auto-accepted (default: 1, all samples) */
+  autoAcceptAgreement?: number;
+  /** Agreement below which an item needs mandatory review (default: 0.6) */
+  minAgreement?: number;
+  /** Output ReviewTier field escalated to the row's consensus tier (never lowered) */
+  reviewTierField?: string;
+}
+
+/**
+ * Agreement of one item of the base output
+ */
+export interface ConsensusItem {
+  /** Index in the reconciled array */
+  index: number;
+  /** Key or text excerpt identifying the item */
+  label: string;
+  /** Samples containing the item (matching compareFields) */
+  support: number;
+  agreement: number;
+  reviewTier: ReviewTier;
+}
+
+/**
+ * Item produced by other samples but missing from the base output
+ */
+export interface UnmatchedItem {
+  label: string;
+  support: number;
+  agreement: number;
+}
+
+export interface ConsensusArrayReport {
+  path: string;
+  items: ConsensusItem[];
+  unmatched: UnmatchedItem[];
+}
+
+/**
+ * Consensus report of one row (written as the `selfConsistency` field)
+ */
+export interface ConsensusReport {
+  samples: number;
+  succeeded: number;
+  models: string[];
+  /** Sample used as the base output (0-based) */
+  baseSample: number;
+  /** Share of samples agreeing with the base on voteFields (null without voteFields) */
+  voteAgreement: number | null;
+  arrays: ConsensusArrayReport[];
+  /** Lowest agreement over votes and items (1 when there is nothing to compare) */
+  agreement: number;
+  /** Most severe tier over votes, items and unmatched majority items */
+  reviewTier: ReviewTier;
+  mandatoryReview: number;
+}
+
+/**
+ * Field name used when writing consensus reports into result JSONs
+ */
+export const CONSENSUS_FIELD = 'selfConsistency';
+
+const TIER_ORDER: ReviewTier[] = ['auto_accept', 'expedited_review', 'mandatory_review'];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function getPath(source: any, path: string): any {
+  return path.split('.').reduce((current: any, key) => (current == null ? undefined : current[key]), source);
+}
+
+function setPath(target: any, path: string, value: any): void {
+  const keys = path.split('.');
+  const parent = keys.slice(0, -1).reduce((current: any, key) => (current == null ? undefined : current[key]), target);
+  if (parent != null && typeof parent === 'object') {
+    parent[keys[keys.length - 1]] = value;
+  }
+}
+
+function tokens(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length > 1);
+}
+
+/**
+ * Dice coefficient of word multisets (0-1)
+ */
+export function textSimilarity(a: string, b: string): number {
+  const ta = tokens(a);
+  const tb = tokens(b);
+  if (ta.length === 0 && tb.length === 0) return 1;
+  if (ta.length === 0 || tb.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  for (const t of ta) counts.set(t, (counts.get(t) ?? 0) + 1);
+  let shared = 0;
+  for (const t of tb) {
+    const n = counts.get(t) ?? 0;
+    if (n > 0) {
+      shared++;
+      counts.set(t, n - 1);
+    }
+  }
+  return (2 * shared) / (ta.length + tb.length);
+}
+
+function worstTier(tiers: ReviewTier[]): ReviewTier {
+  return tiers.reduce((worst, t) => (TIER_ORDER.indexOf(t) > TIER_ORDER.indexOf(worst) ? t : worst), 'auto_accept');
+}
+
+/**
+ * Review tier of an agreement score
+ */
+export function tierForAgreement(agreement: number, config: SelfConsistencyConfig): ReviewTier {
+  if (agreement >= (config.autoAcceptAgreement ?? 1)) return 'auto_accept';
+  if (agreement >= (config.minAgreement ?? 0.6)) return 'expedited_review';
+  return 'mandatory_review';
+}
+
+/**
+ * Model of each sample (round-robin over config.models)
+ */
+export function sampleModels(config: SelfConsistencyConfig, defaultModel: string): string[] {
+  const models = config.models?.length ? config.models : [defaultModel];
+  return Array.from({ length: Math.max(1, config.samples) }, (_, i) => models[i % models.length]);
+}
+
+// ============================================================================
+// Alignment
+// ============================================================================
+
+/**
+ * Items of one entity, at most one per sample
+ */
+interface Cluster {
+  members: Map<number, any>;
+  seed: any;
+}
+
+function itemLabel(item: any, spec: ConsensusArraySpec): string {
+  if (typeof item !== 'object' || item === null) return String(item);
+  const value = spec.key ? getPath(item, spec.key) : spec.textField ? getPath(item, spec.textField) : undefined;
+  const text = value === undefined ? stableStringify(item) : String(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+/**
+ * Match score of an item against a cluster seed (0 = not the same entity)
+ */
+function matchScore(item: any, seed: any, spec: ConsensusArraySpec): number {
+  if (typeof item !== 'object' || item === null) {
+    return String(item).trim().toLowerCase() === String(seed).trim().toLowerCase() ? 1 : 0;
+  }
+  if (spec.key) {
+    const a = getPath(item, spec.key);
+    return a !== undefined && stableStringify(a) === stableStringify(getPath(seed, spec.key)) ? 1 : 0;
+  }
+  if (spec.textField) {
+    const similarity = textSimilarity(String(getPath(item, spec.textField) ?? ''), String(getPath(seed, spec.textField) ?? ''));
+    return similarity >= (spec.similarityThreshold ?? 0.6) ? similarity : 0;
+  }
+  return stableStringify(item) === stableStringify(seed) ? 1 : 0;
+}
+
+/**
+ * Align the items of one array across samples (greedy, best match first)
+ *
+ * @returns All clusters, and the cluster of each item per sample
+ */
+function alignArray(
+  outputs: Array<any | null>,
+  spec: ConsensusArraySpec
+): { clusters: Cluster[]; bySample: Cluster[][] } {
+  const clusters: Cluster[] = [];
+  const bySample: Cluster[][] = outputs.map(() => []);
+
+  outputs.forEach((output, sample) => {
+    const items = getPath(output, spec.path);
+    if (!Array.isArray(items)) return;
+
+    for (const item of items) {
+      let best: Cluster | null = null;
+      let bestScore = 0;
+      for (const cluster of clusters) {
+        if (cluster.members.has(sample)) continue;
+        const score = matchScore(item, cluster.seed, spec);
+        if (score > bestScore) {
+          best = cluster;
+          bestScore = score;
+        }
+      }
+      if (!best) {
+        best = { members: new Map(), seed: item };
+        clusters.push(best);
+      }
+      best.members.set(sample, item);
+      bySample[sample].push(best);
+    }
+  });
+
+  return { clusters, bySample };
+}
+
+/**
+ * Samples agreeing with a cluster member (present, and equal on compareFields)
+ */
+function supportFor(cluster: Cluster, member: any, spec: ConsensusArraySpec): number {
+  if (!spec.compareFields?.length || typeof member !== 'object' || member === null) {
+    return cluster.members.size;
+  }
+  const signature = stableStringify(spec.compareFields.map((f) => getPath(member, f)));
+  return [...cluster.members.values()]
+    .filter((m) => stableStringify(spec.compareFields!.map((f) => getPath(m, f))) === signature)
+    .length;
+}
+
+// ============================================================================
+// Reconciliation
+// ============================================================================
+
+/**
+ * Reconcile the outputs of N samples of the same row
+ *
+ * @param outputs - Parsed output per sample (null for failed samples)
+ * @param config - Self-consistency settings
+ * @param models - Model of each sample
+ * @returns Base output and the consensus report (see applyReviewTiers)
+ * @throws Error when every sample failed
+ */
+export function reconcileSamples(
+  outputs: Array<any | null>,
+  config: SelfConsistencyConfig,
+  models: string[]
+): { data: any; report: ConsensusReport } {
+  const n = outputs.length;
+  const succeeded = outputs.map((o, i) => (o != null ? i : -1)).filter((i) => i >= 0);
+  if (succeeded.length === 0) {
+    throw new Error(`All ${n} self-consistency samples failed`);
+  }
+
+  // Vote on whole-output fields: candidates for the base are the majority
+  let candidates = succeeded;
+  let voteAgreement: number | null = null;
+  if (config.voteFields?.length) {
+    const groups = new Map<string, number[]>();
+    for (const i of succeeded) {
+      const signature = stableStringify(config.voteFields.map((f) => getPath(outputs[i], f)));
+      groups.set(signature, [...(groups.get(signature) ?? []), i]);
+    }
+    candidates = [...groups.values()].reduce((best, g) => (g.length > best.length ? g : best));
+    voteAgreement = candidates.length / n;
+  }
+
+  // Align arrays; the base is the candidate whose items have the most support
+  const specs = config.arrays ?? [];
+  const aligned = specs.map((spec) => alignArray(outputs, spec));
+  const consistency = (sample: number) =>
+    aligned.reduce((sum, { bySample }) => sum + bySample[sample].reduce((s, c) => s + c.members.size, 0), 0);
+  const baseSample = candidates.reduce((best, i) => (consistency(i) > consistency(best) ? i : best));
+  const data = structuredClone(outputs[baseSample]);
+
+  // Score base items and collect what the base is missing
+  const arrays: ConsensusArrayReport[] = specs.map((spec, s) => {
+    const { clusters, bySample } = aligned[s];
+    const baseItems: any[] = Array.isArray(getPath(data, spec.path)) ? getPath(data, spec.path) : [];
+
+    const items = baseItems.map((item, index): ConsensusItem => {
+      const cluster = bySample[baseSample][index];
+      const support = supportFor(cluster, cluster.members.get(baseSample), spec);
+      const agreement = support / n;
+      const reviewTier = tierForAgreement(agreement, config);
+      return { index, label: itemLabel(item, spec), support, agreement, reviewTier };
+    });
+
+    const unmatched = clusters
+      .filter((c) => !c.members.has(baseSample))
+      .map((c) => ({ label: itemLabel(c.seed, spec), support: c.members.size, agreement: c.members.size / n }))
+      .sort((a, b) => b.support - a.support);
+
+    return { path: spec.path, items, unmatched };
+  });
+
+  // Row-level agreement and tier
+  const tiers: ReviewTier[] = arrays.flatMap((a) => a.items.map((i) => i.reviewTier));
+  if (voteAgreement !== null) tiers.push(tierForAgreement(voteAgreement, config));
+  // A majority found an item the base output lacks
+  if (arrays.some((a) => a.unmatched.some((u) => u.agreement >= (config.minAgreement ?? 0.6)))) {
+    tiers.push('mandatory_review');
+  }
+  const agreements = [
+    ...(voteAgreement !== null ? [voteAgreement] : []),
+    ...arrays.flatMap((a) => a.items.map((i) => i.agreement)),
+  ];
+  const reviewTier = worstTier(tiers);
+
+  return {
+    data,
+    report: {
+      samples: n,
+      succeeded: succeeded.length,
+      models,
+      baseSample,
+      voteAgreement,
+      arrays,
+      agreement: agreements.length === 0 ? 1 : Math.min(...agreements),
+      reviewTier,
+      mandatoryReview: arrays.reduce((sum, a) => sum + a.items.filter((i) => i.reviewTier === 'mandatory_review').length, 0),
+    },
+  };
+}
+
+/**
+ * Escalate the reviewTierFields of a reconciled output to the consensus tiers
+ *
+ * Run once the output passed schema validation: strict output schemas need
+ * not declare the tier fields.
+ *
+ * @returns Copy of the output with tiers raised (never lowered)
+ */
+export function applyReviewTiers(data: any, report: ConsensusReport, config: SelfConsistencyConfig): any {
+  const result = structuredClone(data);
+  const raise = (target: any, field: string, tier: ReviewTier) => {
+    const current = getPath(target, field) as ReviewTier | null | undefined;
+    setPath(target, field, worstTier([current ?? 'auto_accept', tier]));
+  };
+
+  for (const spec of config.arrays ?? []) {
+    const items = getPath(result, spec.path);
+    const arrayReport = report.arrays.find((a) => a.path === spec.path);
+    if (!spec.reviewTierField || !Array.isArray(items) || !arrayReport) continue;
+
+    for (const { index, reviewTier } of arrayReport.items) {
+      if (typeof items[index] === 'object' && items[index] !== null) {
+        raise(items[index], spec.reviewTierField, reviewTier);
+      }
+    }
+  }
+
+  if (config.reviewTierField) {
+    raise(result, config.reviewTierField, report.reviewTier);
+  }
+  return result;
+}
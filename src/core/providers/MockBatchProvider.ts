@@ -0,0 +1,289 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { MockConfig } from '../../config/mock.js';
+import { JobLogger } from '../../utils/logger.js';
+import { BatchProvider, BatchStatus, BatchSubmitResult } from './BatchProvider.js';
+import { MockResponseStore } from './MockResponseStore.js';
+
+/**
+ * Persisted state of a simulated batch
+ */
+interface MockBatchRecord extends BatchStatus {
+  /** Status polls seen in the current lifecycle state */
+  polls: number;
+}
+
+/**
+ * Mock Batch Provider
+ *
+ * Simulates the Batch API on the local filesystem (MOCK_BATCH_DIR) so
+ * BatchJobRunner can run end to end without network or spend.
+ *
+ * Lifecycle: validating → in_progress → completed, advancing one state
+ * every MOCK_BATCH_POLLS_PER_STATE status polls. On completion every
+ * request is answered by MockResponseStore; fixture errors go to a
+ * separate error file, like the real API.
+ */
+export class MockBatchProvider implements BatchProvider {
+  private logger: JobLogger;
+  private store: MockResponseStore;
+  private filesDir: string;
+  private batchesDir: string;
+
+  constructor(jobId: string) {
+    const config = MockConfig.getConfig();
+    this.logger = new JobLogger(`Mock:${jobId}`);
+    this.store = new MockResponseStore(config.fixturesDir);
+    this.filesDir = path.join(config.batchDir, 'files');
+    this.batchesDir = path.join(config.batchDir, 'batches');
+  }
+
+  getProviderName(): string {
+    return 'Mock';
+  }
+
+  /**
+   * Copy JSONL file into mock storage
+   */
+  async uploadFile(filePath: string): Promise<string> {
+    const fileId = `mock-file-${crypto.randomUUID()}`;
+    await fs.mkdir(this.filesDir, { recursive: true });
+    await fs.copyFile(filePath, this.getFilePath(fileId));
+
+    this.logger.info('File uploaded to mock storage', { fileId, path: filePath });
+    return fileId;
+  }
+
+  /**
+   * Create a simulated batch in 'validating' state
+   */
+  async createBatch(
+    inputFileId: string,
+    metadata?: Record<string, string>
+  ): Promise<string> {
+    const batchId = `mock-batch-${crypto.randomUUID()}`;
+    const record: MockBatchRecord = {
+      id: batchId,
+      status: 'validating',
+      inputFileId,
+      createdAt: Math.floor(Date.now() / 1000),
+      metadata,
+      polls: 0,
+    };
+
+    await this.saveRecord(record);
+    this.logger.info('Batch job created', { batchId, status: record.status });
+    return batchId;
+  }
+
+  /**
+   * Get batch status, advancing the simulated lifecycle
+   */
+  async getBatchStatus(batchId: string): Promise<BatchStatus> {
+    const record = await this.loadRecord(batchId);
+    const { pollsPerState } = MockConfig.getConfig();
+
+    if (record.status === 'validating' || record.status === 'in_progress') {
+      record.polls++;
+      if (record.polls >= pollsPerState) {
+        record.polls = 0;
+        if (record.status === 'validating') {
+          record.status = 'in_progress';
+        } else {
+          await this.completeBatch(record);
+        }
+      }
+      await this.saveRecord(record);
+    }
+
+    this.logger.debug('Batch status retrieved', {
+      batchId,
+      status: record.status,
+      requestCounts: record.requestCounts,
+    });
+
+    const { polls: _polls, ...status } = record;
+    return status;
+  }
+
+  /**
+   * Wait for batch to complete
+   *
+   * Polls at most every MOCK_BATCH_POLL_INTERVAL_MS regardless of the
+   * requested interval, so simulated batches finish in seconds.
+   */
+  async waitForCompletion(
+    batchId: string,
+    pollIntervalMs: number = 30000,
+    maxWaitMs: number = 24 * 60 * 60 * 1000
+  ): Promise<BatchStatus> {
+    const interval = Math.min(pollIntervalMs, MockConfig.getConfig().pollIntervalMs);
+    const startTime = Date.now();
+    const terminalStatuses: BatchStatus['status'][] = [
+      'completed',
+      'failed',
+      'expired',
+      'cancelled',
+    ];
+
+    while (true) {
+      if (Date.now() - startTime > maxWaitMs) {
+        throw new Error(
+          `Batch job did not complete within ${maxWaitMs / (60 * 60 * 1000)} hours`
+        );
+      }
+
+      const status = await this.getBatchStatus(batchId);
+      if (terminalStatuses.includes(status.status)) {
+        this.logger.info('Batch reached terminal state', {
+          status: status.status,
+          batchId,
+        });
+        return status;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, interval));
+    }
+  }
+
+  /**
+   * Copy output or error file out of mock storage
+   */
+  async downloadFile(fileId: string, outputPath: string): Promise<void> {
+    await fs.mkdir(path.dirname(outputPath), { recursive: true });
+    await fs.copyFile(this.getFilePath(fileId), outputPath);
+    this.logger.info('File downloaded successfully', { fileId, outputPath });
+  }
+
+  /**
+   * Cancel a simulated batch
+   */
+  async cancelBatch(batchId: string): Promise<void> {
+    const record = await this.loadRecord(batchId);
+    record.status = 'cancelled';
+    await this.saveRecord(record);
+    this.logger.info('Batch job cancelled', { batchId });
+  }
+
+  /**
+   * Complete workflow: Upload file and create batch
+   */
+  async submitBatchJob(
+    filePath: string,
+    metadata?: Record<string, string>
+  ): Promise<BatchSubmitResult> {
+    const fileId = await this.uploadFile(filePath);
+    const batchId = await this.createBatch(fileId, metadata);
+    return { batchId, fileId };
+  }
+
+  /**
+   * Answer every request in the input file and write output/error files
+   */
+  private async completeBatch(record: MockBatchRecord): Promise<void> {
+    const input = await fs.readFile(this.getFilePath(record.inputFileId), 'utf-8');
+    const lines = input.trim().split('\n').filter((line) => line.trim());
+    const created = Math.floor(Date.now() / 1000);
+
+    const outputLines: string[] = [];
+    const errorLines: string[] = [];
+
+    for (const line of lines) {
+      const request = JSON.parse(line);
+      const requestId = `mock-req-${crypto.randomUUID()}`;
+      const completion = this.store.resolve(
+        request.body?.messages || [],
+        request.body?.response_format
+      );
+
+      if (completion.error) {
+        errorLines.push(JSON.stringify({
+          id: requestId,
+          custom_id: request.custom_id,
+          response: null,
+          error: {
+            message: completion.error.message,
+            type: 'mock_error',
+            code: completion.error.code,
+          },
+        }));
+        continue;
+      }
+
+      outputLines.push(JSON.stringify({
+        id: requestId,
+        custom_id: request.custom_id,
+        response: {
+          status_code: 200,
+          request_id: requestId,
+          body: {
+            id: `chatcmpl-${requestId}`,
+            object: 'chat.completion',
+            created,
+            model: request.body?.model || 'mock',
+            choices: [
+              {
+                index: 0,
+                message: { role: 'assistant', content: completion.content },
+                finish_reason: completion.finishReason,
+              },
+            ],
+            usage: completion.usage,
+          },
+        },
+        error: null,
+      }));
+    }
+
+    await fs.mkdir(this.filesDir, { recursive: true });
+
+    const outputFileId = `mock-file-${crypto.randomUUID()}`;
+    await fs.writeFile(this.getFilePath(outputFileId), outputLines.join('\n') + '\n', 'utf-8');
+    record.outputFileId = outputFileId;
+
+    if (errorLines.length > 0) {
+      const errorFileId = `mock-file-${crypto.randomUUID()}`;
+      await fs.writeFile(this.getFilePath(errorFileId), errorLines.join('\n') + '\n', 'utf-8');
+      record.errorFileId = errorFileId;
+    }
+
+    record.status = 'completed';
+    record.completedAt = created;
+    record.requestCounts = {
+      total: lines.length,
+      completed: outputLines.length,
+      failed: errorLines.length,
+    };
+
+    this.logger.info('Batch completed', {
+      batchId: record.id,
+      ...record.requestCounts,
+    });
+  }
+
+  private getFilePath(fileId: string): string {
+    return path.join(this.filesDir, `${fileId}.jsonl`);
+  }
+
+  private async loadRecord(batchId: string): Promise<MockBatchRecord> {
+    const recordPath = path.join(this.batchesDir, `${batchId}.json`);
+    try {
+      return JSON.parse(await fs.readFile(recordPath, 'utf-8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new Error(`Mock batch not found: ${batchId}`);
+      }
+      throw error;
+    }
+  }
+
+  private async saveRecord(record: MockBatchRecord): Promise<void> {
+    await fs.mkdir(this.batchesDir, { recursive: true });
+    await fs.writeFile(
+      path.join(this.batchesDir, `${record.id}.json`),
+      JSON.stringify(record, null, 2),
+      'utf-8'
+    );
+  }
+}
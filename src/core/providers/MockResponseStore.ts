@@ -0,0 +1,239 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { MockConfig } from '../../config/mock.js';
+
+/**
+ * Chat message as sent by the concurrent clients and batch JSONL
+ */
+export type MockMessage = { role: string; content: string };
+
+/**
+ * Fixture file format (<fixturesDir>/<promptHash>.json)
+ *
+ * `content` may be a string (returned verbatim) or any JSON value
+ * (stringified). `error` makes the request fail instead.
+ */
+export interface MockFixture {
+  content?: unknown;
+  finish_reason?: 'stop' | 'length' | 'content_filter';
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+/**
+ * Resolved mock completion
+ */
+export interface MockCompletion {
+  content: string;
+  finishReason: 'stop' | 'length' | 'content_filter';
+  usage: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+  error?: {
+    code: string;
+    message: string;
+  };
+  /** 'fixture' when served from disk, 'canned' when synthesized */
+  source: 'fixture' | 'canned';
+}
+
+/**
+ * Mock Response Store
+ *
+ * Serves LLM responses keyed by prompt hash (SHA-256 of the message list).
+ * Fixture files take precedence; without a fixture, a canned response is
+ * synthesized from the request's JSON schema so downstream validation passes.
+ */
+export class MockResponseStore {
+  private fixturesDir: string;
+
+  constructor(fixturesDir?: string) {
+    this.fixturesDir = fixturesDir || MockConfig.getConfig().fixturesDir;
+  }
+
+  /**
+   * Hash a message list into a fixture key
+   *
+   * Only role and content are hashed, so the same prompt maps to the same
+   * fixture regardless of model or completion settings.
+   */
+  static hashPrompt(messages: MockMessage[]): string {
+    const normalized = messages.map((m) => ({ role: m.role, content: m.content }));
+    return crypto.createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+  }
+
+  /**
+   * Path of the fixture file for a prompt hash
+   */
+  getFixturePath(hash: string): string {
+    return path.join(this.fixturesDir, `${hash}.json`);
+  }
+
+  /**
+   * Resolve a completion for a request
+   *
+   * @param messages Chat messages
+   * @param responseFormat Response format (json_schema or json_object)
+   */
+  resolve(messages: MockMessage[], responseFormat: any): MockCompletion {
+    const hash = MockResponseStore.hashPrompt(messages);
+    const fixturePath = this.getFixturePath(hash);
+    const promptTokens = this.estimateTokens(messages.map((m) => m.content).join('\n'));
+
+    if (fs.existsSync(fixturePath)) {
+      const fixture: MockFixture = JSON.parse(fs.readFileSync(fixturePath, 'utf-8'));
+      const content =
+        fixture.content === undefined
+          ? ''
+          : typeof fixture.content === 'string'
+            ? fixture.content
+            : JSON.stringify(fixture.content);
+      const completionTokens = this.estimateTokens(content);
+
+      return {
+        content,
+        finishReason: fixture.finish_reason || 'stop',
+        usage: fixture.usage || {
+          prompt_tokens: promptTokens,
+          completion_tokens: completionTokens,
+          total_tokens: promptTokens + completionTokens,
+        },
+        error: fixture.error,
+        source: 'fixture',
+      };
+    }
+
+    const schema = responseFormat?.json_schema?.schema;
+    const content = JSON.stringify(schema ? MockResponseStore.synthesizeFromSchema(schema) : {});
+    const completionTokens = this.estimateTokens(content);
+
+    return {
+      content,
+      finishReason: 'stop',
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+      source: 'canned',
+    };
+  }
+
+  /**
+   * Resolve a completion in the normalized shape returned by
+   * OpenAIConcurrentClient.complete() / ClaudeConcurrentClient.complete()
+   *
+   * Fixture errors are thrown, like a failed API call.
+   */
+  async complete(messages: MockMessage[], responseFormat: any): Promise<any> {
+    const { latencyMs } = MockConfig.getConfig();
+    if (latencyMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, latencyMs));
+    }
+
+    const completion = this.resolve(messages, responseFormat);
+    if (completion.error) {
+      const error: any = new Error(`Mock error: ${completion.error.message}`);
+      error.code = completion.error.code;
+      throw error;
+    }
+
+    return {
+      choices: [
+        {
+          message: {
+            content: completion.content,
+          },
+          finish_reason: completion.finishReason,
+        },
+      ],
+      usage: completion.usage,
+    };
+  }
+
+  /**
+   * Rough token estimate (~4 characters per token)
+   */
+  private estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  /**
+   * Build the smallest value that satisfies a JSON schema
+   *
+   * Handles the subset used by job schemas: type, enum, const,
+   * required properties, minItems, minLength, minimum, anyOf/oneOf/allOf
+   * and local $ref.
+   */
+  static synthesizeFromSchema(schema: any, root: any = schema, depth: number = 0): any {
+    if (!schema || typeof schema !== 'object' || depth > 32) return null;
+
+    if (typeof schema.$ref === 'string' && schema.$ref.startsWith('#/')) {
+      const target = schema.$ref
+        .slice(2)
+        .split('/')
+        .reduce((node: any, key: string) => node?.[key], root);
+      return this.synthesizeFromSchema(target, root, depth + 1);
+    }
+
+    if ('const' in schema) return schema.const;
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+
+    const variants = schema.anyOf || schema.oneOf;
+    if (Array.isArray(variants) && variants.length > 0) {
+      const nonNull = variants.find((v: any) => v?.type !== 'null') || variants[0];
+      return this.synthesizeFromSchema(nonNull, root, depth + 1);
+    }
+    if (Array.isArray(schema.allOf) && schema.allOf.length > 0) {
+      return this.synthesizeFromSchema(Object.assign({}, ...schema.allOf), root, depth + 1);
+    }
+
+    const type = Array.isArray(schema.type)
+      ? schema.type.find((t: string) => t !== 'null') || schema.type[0]
+      : schema.type || (schema.properties ? 'object' : undefined);
+
+    switch (type) {
+      case 'object': {
+        const result: Record<string, any> = {};
+        const properties = schema.properties || {};
+        const required: string[] = schema.required || [];
+        for (const key of required) {
+          result[key] = this.synthesizeFromSchema(properties[key] || {}, root, depth + 1);
+        }
+        return result;
+      }
+      case 'array': {
+        const count = schema.minItems || 0;
+        return Array.from({ length: count }, () =>
+          this.synthesizeFromSchema(schema.items || {}, root, depth + 1)
+        );
+      }
+      case 'string': {
+        const minLength = schema.minLength || 0;
+        return 'mock'.padEnd(minLength, ' ').slice(0, Math.max(minLength, schema.maxLength ?? 4));
+      }
+      case 'integer':
+      case 'number': {
+        if (schema.minimum !== undefined) return schema.minimum;
+        if (schema.exclusiveMinimum !== undefined) {
+          return type === 'integer' ? Math.floor(schema.exclusiveMinimum) + 1 : schema.exclusiveMinimum + 1;
+        }
+        return 0;
+      }
+      case 'boolean':
+        return false;
+      default:
+        return null;
+    }
+  }
+}
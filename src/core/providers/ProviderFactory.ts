@@ -1,11 +1,13 @@
 import { BatchProvider } from './BatchProvider.js';
 import { AzureBatchProvider } from './AzureBatchProvider.js';
 import { OpenAIBatchProvider } from './OpenAIBatchProvider.js';
+import { MockBatchProvider } from './MockBatchProvider.js';
+import { MockConfig } from '../../config/mock.js';
 
 /**
  * Provider type
  */
-export type ProviderType = 'azure' | 'openai';
+export type ProviderType = 'azure' | 'openai' | 'mock';
 
 /**
  * Provider Factory
@@ -16,9 +18,13 @@ export class ProviderFactory {
   /**
    * Get default provider from environment variable
    *
-   * @returns Default provider type (defaults to 'azure')
+   * @returns Default provider type (defaults to 'azure'; 'mock' when LLM_PROVIDER=mock)
    */
   static getDefaultProvider(): ProviderType {
+    if (MockConfig.isEnabled()) {
+      return 'mock';
+    }
+
     const envProvider = 'openai';
 
     if (envProvider === 'openai') {
@@ -32,7 +38,7 @@ export class ProviderFactory {
   /**
    * Create batch provider instance
    *
-   * @param providerType Provider type ('azure' or 'openai')
+   * @param providerType Provider type ('azure', 'openai' or 'mock')
    * @param jobId Job identifier for logging
    * @returns BatchProvider implementation
    */
@@ -49,9 +55,13 @@ export class ProviderFactory {
         console.log(`🟢 Using OpenAI Batch API for job: ${jobId}`);
         return new OpenAIBatchProvider(jobId);
 
+      case 'mock':
+        console.log(`🧪 Using mock Batch API for job: ${jobId}`);
+        return new MockBatchProvider(jobId);
+
       default:
         throw new Error(
-          `Unknown provider type: ${providerType}. Valid options: 'azure', 'openai'`
+          `Unknown provider type: ${providerType}. Valid options: 'azure', 'openai', 'mock'`
         );
     }
   }
@@ -70,6 +80,8 @@ export class ProviderFactory {
       } else if (providerType === 'openai') {
         const { OpenAIConfig } = require('../../config/openai.js');
         return OpenAIConfig.validate();
+      } else if (providerType === 'mock') {
+        return MockConfig.validate();
       }
       return false;
     } catch (error) {
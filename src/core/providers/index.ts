@@ -7,4 +7,6 @@
 export { BatchProvider, BatchStatus, BatchSubmitResult } from './BatchProvider.js';
 export { AzureBatchProvider } from './AzureBatchProvider.js';
 export { OpenAIBatchProvider } from './OpenAIBatchProvider.js';
+export { MockBatchProvider } from './MockBatchProvider.js';
+export { MockResponseStore, MockFixture, MockCompletion } from './MockResponseStore.js';
 export { ProviderFactory, ProviderType } from './ProviderFactory.js';
@@ -0,0 +1,377 @@
+/**
+ * Bundle Exporter
+ *
+ * Publishes a versioned bundle of an export profile to a target (local
+ * directory or S3-compatible store):
+ *
+ *   <profile>/<version>/part-00000.ndjson     (or .parquet)
+ *   <profile>/<version>/record-index.ndjson   key → content hash, for the next diff
+ *   <profile>/<version>/diff.json             added / removed / changed records and decisions
+ *   <profile>/<version>/manifest.json         counts, checksums, source runs, prompt versions
+ *   <profile>/latest.json                     pointer to the newest bundle (written last)
+ *
+ * Backs `npm run dev -- export bundle <profile>` (src/cli/commands/export.ts).
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ResultsSink } from '../results-sink/ResultsSink.js';
+import { resolveRunDirectory } from '../lineage/RunRegistry.js';
+import { sha256, stableStringify } from '../utils/hashing.js';
+import { PromptSchemaVersion, VERSION_FIELD, versionKey } from '../utils/versioning.js';
+import { BundleTarget } from './targets.js';
+import {
+  BundleDiff,
+  BundleManifest,
+  BundleSource,
+  ExportProfile,
+  LatestPointer,
+  ShardFormat,
+} from './types.js';
+
+/** Records per shard when not configured */
+export const DEFAULT_SHARD_SIZE = 50_000;
+
+/** Optional dependency used for Parquet shards */
+const PARQUET_MODULE = 'parquetjs-lite';
+
+export interface ExportBundleOptions {
+  profile: ExportProfile;
+  target: BundleTarget;
+  /** Directory holding <job>/<timestamp>/jsons (default: full-data) */
+  baseDir?: string;
+  /** Run directory per job, instead of the latest run under baseDir */
+  runs?: Record<string, string>;
+  format?: ShardFormat;
+  shardSize?: number;
+  /** Bundle version (default: current timestamp, run directory style) */
+  version?: string;
+}
+
+export interface ExportBundleResult {
+  manifest: BundleManifest;
+  location: string;
+}
+
+/**
+ * Export one profile as a new bundle
+ *
+ * @throws Error when a source job has no run, or the target already holds the version
+ */
+export async function exportBundle(options: ExportBundleOptions): Promise<ExportBundleResult> {
+  const { profile, target } = options;
+  const format = options.format ?? 'ndjson';
+  const shardSize = options.shardSize ?? DEFAULT_SHARD_SIZE;
+  const version = options.version ?? new Date().toISOString().replace(/[:.]/g, '-');
+  const baseDir = options.baseDir ?? path.join(process.cwd(), 'full-data');
+  const prefix = `${profile.name}/${version}`;
+
+  if (await target.read(`${prefix}/manifest.json`)) {
+    throw new Error(`Bundle already exists: ${target.describe(`${prefix}/manifest.json`)}`);
+  }
+
+  console.log(`\n📦 Export: ${profile.name} (${format})`);
+  console.log(`   Version: ${version}`);
+  console.log(`   Target:  ${target.describe(prefix)}\n`);
+
+  const parquet = format === 'parquet' ? await loadParquet() : null;
+  const previous = await loadPreviousIndex(target, profile.name);
+
+  const manifest: BundleManifest = {
+    profile: profile.name,
+    version,
+    createdAt: new Date().toISOString(),
+    format,
+    fields: Object.keys(profile.fields),
+    key: profile.key,
+    records: 0,
+    filteredOut: 0,
+    duplicateKeys: 0,
+    errors: 0,
+    shards: [],
+    files: {},
+    sources: [],
+    diff: { previousVersion: previous?.version ?? null, added: 0, removed: 0, changed: 0, unchanged: 0 },
+  };
+
+  const index = new Map<string, string>();
+  let pending: any[] = [];
+  const flush = async () => {
+    if (pending.length === 0) return;
+    const file = `part-${String(manifest.shards.length).padStart(5, '0')}.${format}`;
+    const body = format === 'parquet'
+      ? await encodeParquet(parquet, pending, manifest.fields)
+      : Buffer.from(pending.map((record) => JSON.stringify(record)).join('\n') + '\n', 'utf-8');
+    await target.write(`${prefix}/${file}`, body, format === 'parquet' ? 'application/vnd.apache.parquet' : 'application/x-ndjson');
+    manifest.shards.push({ file, records: pending.length, bytes: body.length, sha256: sha256Hex(body) });
+    pending = [];
+  };
+
+  // ========================================
+  // RECORDS
+  // ========================================
+  for (const job of profile.jobs) {
+    const runDirectory = options.runs?.[job]
+      ? path.resolve(options.runs[job])
+      : await resolveRunDirectory(baseDir, job);
+    if (!runDirectory) {
+      throw new Error(`No full-data run found for ${job} in ${baseDir}; pass --run ${job}=<dir>`);
+    }
+
+    const { source, runVersion } = await describeSource(job, runDirectory);
+    const files = (await fs.readdir(path.join(runDirectory, 'jsons'))).filter((f) => f.endsWith('.json')).sort();
+    console.log(`📂 ${job}: ${files.length} files (${runDirectory})`);
+
+    for (const file of files) {
+      let data: any;
+      try {
+        data = JSON.parse(await fs.readFile(path.join(runDirectory, 'jsons', file), 'utf-8'));
+      } catch {
+        manifest.errors++;
+        continue;
+      }
+      source.files++;
+
+      const record = projectRecord(profile, data);
+      if (!record) {
+        manifest.filteredOut++;
+        continue;
+      }
+      const key = recordKey(profile, record);
+      if (index.has(key)) {
+        manifest.duplicateKeys++;
+        continue;
+      }
+
+      const recordVersion = versionKey(data?.[VERSION_FIELD] ?? runVersion);
+      source.promptSchemaVersions[recordVersion] = (source.promptSchemaVersions[recordVersion] ?? 0) + 1;
+
+      index.set(key, sha256(stableStringify(record)).slice(0, 16));
+      pending.push(record);
+      manifest.records++;
+      if (pending.length >= shardSize) await flush();
+    }
+
+    manifest.sources.push(source);
+  }
+  await flush();
+
+  // ========================================
+  // DIFF AGAINST THE PREVIOUS BUNDLE
+  // ========================================
+  const diff: BundleDiff = { previousVersion: previous?.version ?? null, added: [], removed: [], changed: [] };
+  for (const [key, hash] of index) {
+    const before = previous?.index.get(key);
+    if (before === undefined) diff.added.push(key);
+    else if (before !== hash) diff.changed.push(key);
+  }
+  if (previous) {
+    for (const key of previous.index.keys()) {
+      if (!index.has(key)) diff.removed.push(key);
+    }
+  }
+
+  if (profile.decisionField) {
+    const keyPosition = profile.key.indexOf(profile.decisionField);
+    const decisionsOf = (keys: string[]) =>
+      [...new Set(keys.map((key) => decisionIdOf(keyPosition >= 0 ? key.split('|')[keyPosition] : key)))].sort();
+    diff.decisions = { added: decisionsOf(diff.added), removed: decisionsOf(diff.removed), changed: decisionsOf(diff.changed) };
+    manifest.diff.decisionsAffected = new Set([...diff.decisions.added, ...diff.decisions.removed, ...diff.decisions.changed]).size;
+  }
+
+  manifest.diff.added = diff.added.length;
+  manifest.diff.removed = diff.removed.length;
+  manifest.diff.changed = diff.changed.length;
+  manifest.diff.unchanged = index.size - diff.added.length - diff.changed.length;
+
+  // ========================================
+  // SIDE FILES, MANIFEST, POINTER
+  // ========================================
+  const indexBody = Buffer.from(
+    [...index].map(([key, hash]) => JSON.stringify({ key, hash })).join('\n') + (index.size > 0 ? '\n' : ''),
+    'utf-8'
+  );
+  const diffBody = Buffer.from(JSON.stringify(diff, null, 2), 'utf-8');
+  await target.write(`${prefix}/record-index.ndjson`, indexBody, 'application/x-ndjson');
+  await target.write(`${prefix}/diff.json`, diffBody, 'application/json');
+  manifest.files = { 'record-index.ndjson': sha256Hex(indexBody), 'diff.json': sha256Hex(diffBody) };
+
+  await target.write(`${prefix}/manifest.json`, JSON.stringify(manifest, null, 2), 'application/json');
+  const pointer: LatestPointer = { version, manifest: `${prefix}/manifest.json`, createdAt: manifest.createdAt };
+  await target.write(`${profile.name}/latest.json`, JSON.stringify(pointer, null, 2), 'application/json');
+
+  console.log(`\n✅ Exported ${manifest.records} records in ${manifest.shards.length} shards`);
+  if (manifest.filteredOut > 0) console.log(`   Filtered out: ${manifest.filteredOut}`);
+  if (manifest.duplicateKeys > 0) console.log(`   ⚠️  Duplicate keys skipped: ${manifest.duplicateKeys}`);
+  if (manifest.errors > 0) console.log(`   ⚠️  Unreadable files: ${manifest.errors}`);
+  console.log(
+    `   Diff vs ${manifest.diff.previousVersion ?? '(none)'}: +${manifest.diff.added} -${manifest.diff.removed} ` +
+    `~${manifest.diff.changed}` +
+    (manifest.diff.decisionsAffected !== undefined ? ` (${manifest.diff.decisionsAffected} decisions)` : '')
+  );
+  console.log(`   Manifest: ${target.describe(`${prefix}/manifest.json`)}\n`);
+
+  return { manifest, location: target.describe(`${prefix}/manifest.json`) };
+}
+
+// ============================================================================
+// Profiles
+// ============================================================================
+
+/**
+ * Output record of a source JSON, or null when the profile filters it out
+ */
+export function projectRecord(profile: ExportProfile, data: any): Record<string, unknown> | null {
+  let source = data;
+  if (profile.top) {
+    const items = getPath(data, profile.top.array);
+    const best = Array.isArray(items) && items.length > 0
+      ? items.reduce((a, b) => ((b?.[profile.top!.by] ?? 0) > (a?.[profile.top!.by] ?? 0) ? b : a))
+      : undefined;
+    source = { ...data, [profile.top.as]: best };
+  }
+
+  for (const filter of profile.filters ?? []) {
+    const value = getPath(source, filter.field);
+    const empty = value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+    if (filter.exists !== undefined && filter.exists === empty) return null;
+    if (filter.equals !== undefined && value !== filter.equals) return null;
+    if (filter.min !== undefined && !(typeof value === 'number' && value >= filter.min)) return null;
+    if (filter.max !== undefined && !(typeof value === 'number' && value <= filter.max)) return null;
+  }
+
+  const record: Record<string, unknown> = {};
+  for (const [name, spec] of Object.entries(profile.fields)) {
+    const value = getPath(source, typeof spec === 'string' ? spec : spec.from);
+    record[name] = value ?? (typeof spec === 'string' ? null : spec.default);
+  }
+  return record;
+}
+
+function recordKey(profile: ExportProfile, record: Record<string, unknown>): string {
+  return profile.key.map((field) => String(record[field] ?? '')).join('|');
+}
+
+/**
+ * Decision of a decision-scoped ID: ACT-ECLI:BE:...-003 → ECLI:BE:...
+ */
+function decisionIdOf(id: string): string {
+  return id.replace(/^[A-Z]+-/, '').replace(/-\d{3,}$/, '');
+}
+
+function getPath(data: any, fieldPath: string): any {
+  return fieldPath.split('.').reduce((node, field) => node?.[field], data);
+}
+
+// ============================================================================
+// Sources and previous bundle
+// ============================================================================
+
+async function describeSource(
+  job: string,
+  runDirectory: string
+): Promise<{ source: BundleSource; runVersion: PromptSchemaVersion | undefined }> {
+  let summary: any = null;
+  try {
+    summary = JSON.parse(await fs.readFile(path.join(runDirectory, 'summary.json'), 'utf-8'));
+  } catch {
+    // Runs without summary.json (merged or hand-made directories)
+  }
+
+  let runTimestamp: string | null;
+  try {
+    runTimestamp = ResultsSink.parseRunTimestamp(path.basename(runDirectory), summary?.processedAt);
+  } catch {
+    runTimestamp = null;
+  }
+
+  return {
+    source: { job, runDirectory, runTimestamp, files: 0, promptSchemaVersions: {} },
+    runVersion: summary?.[VERSION_FIELD],
+  };
+}
+
+/**
+ * Record index of the profile's latest bundle, or null for the first bundle
+ */
+async function loadPreviousIndex(
+  target: BundleTarget,
+  profileName: string
+): Promise<{ version: string; index: Map<string, string> } | null> {
+  const pointerBody = await target.read(`${profileName}/latest.json`);
+  if (!pointerBody) return null;
+
+  const pointer: LatestPointer = JSON.parse(pointerBody.toString('utf-8'));
+  const indexBody = await target.read(`${profileName}/${pointer.version}/record-index.ndjson`);
+  if (!indexBody) {
+    throw new Error(`Previous bundle ${pointer.version} of ${profileName} has no record-index.ndjson`);
+  }
+
+  const index = new Map<string, string>();
+  for (const line of indexBody.toString('utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    const { key, hash } = JSON.parse(line);
+    index.set(key, hash);
+  }
+  return { version: pointer.version, index };
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/**
+ * Load the optional Parquet writer
+ *
+ * @throws Error when parquetjs-lite is not installed
+ */
+async function loadParquet(): Promise<any> {
+  try {
+    const parquet = await import(PARQUET_MODULE);
+    return parquet.default ?? parquet;
+  } catch {
+    throw new Error(`Parquet shards need the ${PARQUET_MODULE} package (npm install ${PARQUET_MODULE}), or use --format ndjson`);
+  }
+}
+
+/**
+ * Parquet shard
+ *
+ * Column types come from the first non-null value: numbers → DOUBLE,
+ * booleans → BOOLEAN, everything else → UTF8 (arrays/objects as JSON).
+ */
+async function encodeParquet(lib: any, records: any[], fields: string[]): Promise<Buffer> {
+
+  const types: Record<string, string> = {};
+  for (const field of fields) {
+    const sample = records.find((r) => r[field] !== null && r[field] !== undefined)?.[field];
+    types[field] = typeof sample === 'number' ? 'DOUBLE' : typeof sample === 'boolean' ? 'BOOLEAN' : 'UTF8';
+  }
+  const schema = new lib.ParquetSchema(
+    Object.fromEntries(fields.map((field) => [field, { type: types[field], optional: true }]))
+  );
+
+  const file = path.join(os.tmpdir(), `export-${process.pid}-${Date.now()}.parquet`);
+  try {
+    const writer = await lib.ParquetWriter.openFile(schema, file);
+    for (const record of records) {
+      const row: Record<string, unknown> = {};
+      for (const field of fields) {
+        const value = record[field];
+        if (value === null || value === undefined) continue;
+        row[field] = types[field] === 'UTF8' && typeof value !== 'string' ? JSON.stringify(value) : value;
+      }
+      await writer.appendRow(row);
+    }
+    await writer.close();
+    return await fs.readFile(file);
+  } finally {
+    await fs.rm(file, { force: true });
+  }
+}
+
+function sha256Hex(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
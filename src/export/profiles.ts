@@ -0,0 +1,66 @@
+import { ExportProfile } from './types.js';
+
+/**
+ * Export Profiles
+ *
+ * Minimal shapes handed to downstream consumers. These replace the
+ * hand-written "for S3 upload" scripts (clean-classification-jsons,
+ * aggregate-provision-mappings, aggregate-decision-mappings).
+ */
+export const EXPORT_PROFILES: ExportProfile[] = [
+  {
+    name: 'teaching-classifications',
+    description: 'Topic and issue type sets per teaching (classify-legal-issues)',
+    jobs: ['classify-legal-issues'],
+    fields: {
+      teaching_id: 'teaching_id',
+      confidence: { from: 'confidence.overall', default: 0 },
+      topic_set: { from: 'classification.topic_set', default: [] },
+      issue_type_set: { from: 'classification.issue_type_set', default: [] },
+    },
+    key: ['teaching_id'],
+    decisionField: 'teaching_id',
+  },
+  {
+    name: 'provision-mappings',
+    description: 'Parent act → Justel document number, top match with score ≥ 80',
+    jobs: ['map-provisions-standard', 'map-provisions-code', 'map-provisions-no-date'],
+    top: { array: 'matches', by: 'score', as: 'top' },
+    filters: [{ field: 'top.score', min: 80 }],
+    fields: {
+      id: { from: 'id', default: null },
+      internal_parent_act_id: 'internal_parent_act_id',
+      document_number: 'top.document_number',
+      score: 'top.score',
+    },
+    key: ['internal_parent_act_id'],
+    decisionField: 'internal_parent_act_id',
+  },
+  {
+    name: 'decision-mappings',
+    description: 'Cited decision → ECLI, top match with score ≥ 80',
+    jobs: ['map-cited-decisions'],
+    top: { array: 'matches', by: 'score', as: 'top' },
+    filters: [{ field: 'top.score', min: 80 }],
+    fields: {
+      internal_decision_id: 'internal_decision_id',
+      ecli: 'top.decision_id',
+      score: 'top.score',
+    },
+    key: ['internal_decision_id'],
+    decisionField: 'internal_decision_id',
+  },
+];
+
+/**
+ * Look up a profile by name
+ *
+ * @throws Error listing the known profiles
+ */
+export function getExportProfile(name: string): ExportProfile {
+  const profile = EXPORT_PROFILES.find((p) => p.name === name);
+  if (!profile) {
+    throw new Error(`Unknown export profile: ${name}. Known profiles: ${EXPORT_PROFILES.map((p) => p.name).join(', ')}`);
+  }
+  return profile;
+}
@@ -0,0 +1,176 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { ExportConfig } from '../config/export.js';
+
+/**
+ * Where export bundles are published
+ *
+ * Keys are '/'-separated paths relative to the target root
+ * (e.g. provision-mappings/2025-12-05T10-00-00-000Z/manifest.json).
+ */
+export interface BundleTarget {
+  /** Human-readable location of a key (path or s3:// URL) */
+  describe(key: string): string;
+  write(key: string, body: Buffer | string, contentType?: string): Promise<void>;
+  /** Contents of a key, or null when it does not exist */
+  read(key: string): Promise<Buffer | null>;
+}
+
+/**
+ * Target from a CLI location: a directory, or s3://bucket/prefix
+ */
+export function createTarget(location: string): BundleTarget {
+  const match = location.match(/^s3:\/\/([^/]+)\/?(.*)$/);
+  if (match) {
+    return new S3Target(match[1], match[2].replace(/\/+$/, ''));
+  }
+  return new LocalTarget(location);
+}
+
+// ============================================================================
+// Local directory
+// ============================================================================
+
+export class LocalTarget implements BundleTarget {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  describe(key: string): string {
+    return path.join(this.root, ...key.split('/'));
+  }
+
+  async write(key: string, body: Buffer | string): Promise<void> {
+    const file = this.describe(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, body);
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.describe(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+}
+
+// ============================================================================
+// S3-compatible object store
+// ============================================================================
+
+/**
+ * S3 target over plain HTTP (PUT/GET object, Signature V4)
+ *
+ * Endpoint and credentials come from ExportConfig; path-style URLs keep
+ * MinIO, LocalStack and local stand-ins working without DNS tricks.
+ */
+export class S3Target implements BundleTarget {
+  private bucket: string;
+  private prefix: string;
+
+  constructor(bucket: string, prefix: string) {
+    ExportConfig.validate();
+    this.bucket = bucket;
+    this.prefix = prefix;
+  }
+
+  describe(key: string): string {
+    return `s3://${this.bucket}/${this.objectKey(key)}`;
+  }
+
+  async write(key: string, body: Buffer | string, contentType = 'application/octet-stream'): Promise<void> {
+    const payload = typeof body === 'string' ? Buffer.from(body, 'utf-8') : body;
+    const response = await this.request('PUT', key, payload, { 'content-type': contentType });
+    if (!response.ok) {
+      throw new Error(`S3 PUT ${this.describe(key)} failed: ${response.status} ${await response.text()}`);
+    }
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`S3 GET ${this.describe(key)} failed: ${response.status} ${await response.text()}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  private objectKey(key: string): string {
+    return this.prefix ? `${this.prefix}/${key}` : key;
+  }
+
+  private async request(
+    method: 'GET' | 'PUT',
+    key: string,
+    body?: Buffer,
+    extraHeaders: Record<string, string> = {}
+  ): Promise<Response> {
+    const config = ExportConfig.getS3Config();
+    const url = new URL(config.endpoint);
+    const canonicalUri =
+      `${url.pathname.replace(/\/+$/, '')}/${encodeS3(this.bucket)}/` +
+      this.objectKey(key).split('/').map(encodeS3).join('/');
+
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const date = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body ?? Buffer.alloc(0));
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      ...extraHeaders,
+    };
+    if (config.sessionToken) headers['x-amz-security-token'] = config.sessionToken;
+
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      canonicalUri,
+      '',
+      ...signedHeaders.map((name) => `${name}:${headers[name].trim()}`),
+      '',
+      signedHeaders.join(';'),
+      payloadHash,
+    ].join('\n');
+
+    const scope = `${date}/${config.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(Buffer.from(canonicalRequest))].join('\n');
+    const dateKey = hmac(Buffer.from(`AWS4${config.secretAccessKey}`), date);
+    const signingKey = hmac(hmac(hmac(dateKey, config.region), 's3'), 'aws4_request');
+    const signature = hmac(signingKey, stringToSign).toString('hex');
+
+    // host is signed but set by fetch itself
+    const sentHeaders = Object.fromEntries(Object.entries(headers).filter(([name]) => name !== 'host'));
+    return fetch(`${url.protocol}//${url.host}${canonicalUri}`, {
+      method,
+      headers: {
+        ...sentHeaders,
+        authorization:
+          `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, ` +
+          `SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+      },
+      body,
+    });
+  }
+}
+
+/**
+ * URI-encode one path segment the way Signature V4 expects
+ */
+function encodeS3(segment: string): string {
+  return encodeURIComponent(segment).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function sha256Hex(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data, 'utf-8').digest();
+}
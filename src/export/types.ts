@@ -0,0 +1,126 @@
+/**
+ * Export Types
+ *
+ * Declarative export profiles and the versioned bundles BundleExporter
+ * publishes from them (shards, manifest, diff against the previous bundle).
+ */
+
+export type ShardFormat = 'ndjson' | 'parquet';
+
+/**
+ * Output field: source path ('confidence.overall'), or path with a default
+ */
+export type FieldSpec = string | { from: string; default: unknown };
+
+/**
+ * Condition a record must meet to be exported (on source paths)
+ */
+export interface ExportFilter {
+  field: string;
+  min?: number;
+  max?: number;
+  equals?: unknown;
+  /** Field must be present and non-empty (true) or absent/empty (false) */
+  exists?: boolean;
+}
+
+/**
+ * Named export profile
+ */
+export interface ExportProfile {
+  name: string;
+  description: string;
+  /** Source jobs; records of all jobs are exported together */
+  jobs: string[];
+  /**
+   * Best element of an array, exposed as a source field before filters and
+   * fields apply, e.g. { array: 'matches', by: 'score', as: 'top' } → top.score
+   */
+  top?: { array: string; by: string; as: string };
+  filters?: ExportFilter[];
+  /** Output field name → source */
+  fields: Record<string, FieldSpec>;
+  /** Output fields identifying a record (first record per key is kept) */
+  key: string[];
+  /**
+   * Output field holding a decision ID or a decision-scoped ID
+   * (PREFIX-{decision_id}-NNN), used to list changed decisions in the diff
+   */
+  decisionField?: string;
+}
+
+/**
+ * Source run of a bundle
+ */
+export interface BundleSource {
+  job: string;
+  runDirectory: string;
+  runTimestamp: string | null;
+  files: number;
+  /** promptSchemaVersion key ("<promptHash>/<schemaHash>") → records */
+  promptSchemaVersions: Record<string, number>;
+}
+
+export interface BundleShard {
+  file: string;
+  records: number;
+  bytes: number;
+  sha256: string;
+}
+
+/**
+ * Change summary against the previous bundle of the same profile
+ */
+export interface BundleDiffSummary {
+  previousVersion: string | null;
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+  /** Decisions with at least one added, removed or changed record */
+  decisionsAffected?: number;
+}
+
+/**
+ * manifest.json of a bundle
+ */
+export interface BundleManifest {
+  profile: string;
+  version: string;
+  createdAt: string;
+  format: ShardFormat;
+  fields: string[];
+  key: string[];
+  records: number;
+  /** Records dropped by the profile filters */
+  filteredOut: number;
+  /** Records dropped because their key was already exported */
+  duplicateKeys: number;
+  /** Unreadable source files */
+  errors: number;
+  shards: BundleShard[];
+  /** Checksums of the side files (record index, diff) */
+  files: Record<string, string>;
+  sources: BundleSource[];
+  diff: BundleDiffSummary;
+}
+
+/**
+ * diff.json of a bundle: record keys (key fields joined with |)
+ */
+export interface BundleDiff {
+  previousVersion: string | null;
+  added: string[];
+  removed: string[];
+  changed: string[];
+  decisions?: { added: string[]; removed: string[]; changed: string[] };
+}
+
+/**
+ * latest.json of a profile: pointer to its newest bundle
+ */
+export interface LatestPointer {
+  version: string;
+  manifest: string;
+  createdAt: string;
+}
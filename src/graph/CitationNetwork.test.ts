@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CitationNetwork, CitationRecord, parseEcli } from './CitationNetwork.js';
+
+const A = 'ECLI:BE:CASS:2020:ARR.1';
+const B = 'ECLI:BE:CASS:2021:ARR.2';
+const C = 'ECLI:BE:GHCC:2022:ARR.3';
+const D = 'ECLI:BE:CABRL:2023:ARR.4';
+
+let counter = 0;
+function citation(sourceEcli: string, targetEcli: string | null, overrides: Partial<CitationRecord> = {}): CitationRecord {
+  return {
+    sourceEcli,
+    internalDecisionId: `DEC-${++counter}`,
+    targetEcli,
+    score: 90,
+    treatment: 'FOLLOWED',
+    citedCourtName: null,
+    citedDate: null,
+    ...overrides,
+  };
+}
+
+/** D → C → B → A and D → A, C → A */
+function network(): CitationNetwork {
+  const net = new CitationNetwork();
+  for (const [from, to] of [[D, C], [C, B], [B, A], [D, A], [C, A]]) {
+    net.addCitation(citation(from, to));
+  }
+  return net;
+}
+
+describe('parseEcli', () => {
+  it('reads court and year', () => {
+    assert.deepEqual(parseEcli(A), { court: 'CASS', year: 2020 });
+    assert.deepEqual(parseEcli('not-an-ecli'), { court: null, year: null });
+  });
+});
+
+describe('CitationNetwork', () => {
+  it('deduplicates mappings and drops self-citations', () => {
+    const net = new CitationNetwork();
+    const record = citation(B, A);
+    assert.equal(net.addCitation(record), true);
+    assert.equal(net.addCitation({ ...record }), false);
+    assert.equal(net.addCitation(citation(A, A)), false);
+    net.addCitation(citation(B, null, { orphanReason: 'Low score' }));
+
+    assert.deepEqual(net.getStats(), { decisions: 2, edges: 1, citations: 2, resolved: 1, orphaned: 1 });
+    assert.equal(net.getOrphans()[0].reason, 'Low score');
+  });
+
+  describe('pageRank', () => {
+    it('sums to 1 and ranks the most cited decision first', () => {
+      const ranks = network().pageRank();
+      const total = [...ranks.values()].reduce((sum, r) => sum + r, 0);
+      assert.ok(Math.abs(total - 1) < 1e-6);
+      assert.ok(ranks.get(A)! > ranks.get(B)!);
+      assert.ok(ranks.get(B)! > ranks.get(D)!);
+    });
+
+    it('gives every decision the same rank in a cycle', () => {
+      const net = new CitationNetwork();
+      net.addCitation(citation(A, B));
+      net.addCitation(citation(B, C));
+      net.addCitation(citation(C, A));
+      for (const rank of net.pageRank().values()) {
+        assert.ok(Math.abs(rank - 1 / 3) < 1e-6);
+      }
+    });
+
+    it('matches the closed form for a single edge', () => {
+      // A is dangling and spreads its rank uniformly: B = (1 - d) / 2 + d * A / 2, A = B + d * B
+      const net = new CitationNetwork();
+      net.addCitation(citation(B, A));
+      const ranks = net.pageRank();
+      const d = 0.85;
+      const b = 1 / (2 + d);
+      assert.ok(Math.abs(ranks.get(B)! - b) < 1e-6);
+      assert.ok(Math.abs(ranks.get(A)! - (1 - b)) < 1e-6);
+    });
+  });
+
+  it('reports degrees, counts and authority per decision', () => {
+    const net = network();
+    net.addCitation(citation(D, null));
+    const metrics = net.getDecisionMetrics();
+
+    assert.equal(metrics[0].ecli, A);
+    const a = metrics.find((m) => m.ecli === A)!;
+    assert.equal(a.inDegree, 3);
+    assert.equal(a.outDegree, 0);
+    assert.equal(a.court, 'CASS');
+    const d = metrics.find((m) => m.ecli === D)!;
+    assert.equal(d.outDegree, 2);
+    assert.equal(d.orphanedCitations, 1);
+
+    const averageAuthority = metrics.reduce((sum, m) => sum + m.authority, 0) / metrics.length;
+    assert.ok(Math.abs(averageAuthority - 1) < 1e-6);
+  });
+
+  it('groups most-cited decisions by court', () => {
+    const byCourt = CitationNetwork.mostCitedBy(network().getDecisionMetrics(), (m) => m.court, 1);
+    assert.deepEqual(byCourt.get('CASS')?.map((m) => m.ecli), [A]);
+    assert.equal(byCourt.has('CABRL'), false);
+  });
+
+  it('finds the longest and shortest chains', () => {
+    const net = network();
+    assert.deepEqual(net.longestChains(5), [{ length: 4, path: [D, C, B, A] }]);
+    assert.deepEqual(net.findChain(D, A), { length: 2, path: [D, A] });
+    assert.equal(net.findChain(A, D), null);
+  });
+});
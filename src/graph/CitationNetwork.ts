@@ -0,0 +1,372 @@
+/**
+ * Citation Network
+ *
+ * Directed decision → decision citation graph built from cited-decision
+ * mappings (map-cited-decisions), with network metrics:
+ * - in/out degree (distinct citing/cited decisions) and citation counts
+ * - PageRank authority (1.0 = average decision)
+ * - most-cited decisions per court and per year
+ * - citation chains (longest paths, and the shortest path between two decisions)
+ * - orphaned citations (mappings that never resolved to a decision)
+ *
+ * Court and year come from the ECLI (ECLI:BE:CASS:2023:...), so no
+ * database access is needed.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One cited-decision mapping, resolved or not
+ */
+export interface CitationRecord {
+  sourceEcli: string;
+  internalDecisionId: string;
+  /** Resolved target ECLI, null when the citation is orphaned */
+  targetEcli: string | null;
+  score: number | null;
+  treatment: string | null;
+  citedCourtName: string | null;
+  citedDate: string | null;
+  /** Why the citation did not resolve */
+  orphanReason?: string;
+}
+
+export interface DecisionMetrics {
+  ecli: string;
+  court: string | null;
+  year: number | null;
+  /** Distinct decisions citing this one */
+  inDegree: number;
+  /** Distinct decisions this one cites */
+  outDegree: number;
+  citationsReceived: number;
+  citationsMade: number;
+  /** Citations made by this decision that never resolved */
+  orphanedCitations: number;
+  pageRank: number;
+  /** PageRank × number of decisions (1.0 = average) */
+  authority: number;
+}
+
+export interface CitationEdge {
+  source: string;
+  target: string;
+  count: number;
+  treatments: Record<string, number>;
+}
+
+export interface CitationChain {
+  length: number;
+  /** Citing decision first: path[0] cites path[1], ... */
+  path: string[];
+}
+
+export interface OrphanedCitation {
+  sourceEcli: string;
+  internalDecisionId: string;
+  citedCourtName: string | null;
+  citedDate: string | null;
+  reason: string;
+}
+
+export interface PageRankOptions {
+  damping?: number;
+  maxIterations?: number;
+  tolerance?: number;
+}
+
+/**
+ * Court and year from an ECLI (ECLI:<country>:<court>:<year>:<number>)
+ */
+export function parseEcli(ecli: string): { court: string | null; year: number | null } {
+  const parts = ecli.split(':');
+  const year = parseInt(parts[3], 10);
+  return {
+    court: parts[2] || null,
+    year: Number.isFinite(year) ? year : null,
+  };
+}
+
+// ============================================================================
+// Citation Network
+// ============================================================================
+
+export class CitationNetwork {
+  private nodes = new Set<string>();
+  private edges = new Map<string, CitationEdge>();
+  private outgoing = new Map<string, Set<string>>();
+  private incoming = new Map<string, Set<string>>();
+  private orphans: OrphanedCitation[] = [];
+  private citationKeys = new Set<string>();
+  private pageRanks: Map<string, number> | null = null;
+
+  /**
+   * Add one mapping record
+   *
+   * Records are deduplicated by source + internalDecisionId, so the same
+   * mapping from several runs is counted once (first one wins).
+   *
+   * @returns false for duplicates and self-citations
+   */
+  addCitation(record: CitationRecord): boolean {
+    const key = `${record.sourceEcli}|${record.internalDecisionId}`;
+    if (this.citationKeys.has(key)) return false;
+    this.citationKeys.add(key);
+
+    this.nodes.add(record.sourceEcli);
+
+    if (!record.targetEcli) {
+      this.orphans.push({
+        sourceEcli: record.sourceEcli,
+        internalDecisionId: record.internalDecisionId,
+        citedCourtName: record.citedCourtName,
+        citedDate: record.citedDate,
+        reason: record.orphanReason || 'No match',
+      });
+      return true;
+    }
+
+    if (record.targetEcli === record.sourceEcli) return false;
+
+    this.nodes.add(record.targetEcli);
+    this.pageRanks = null;
+
+    const edgeKey = `${record.sourceEcli}→${record.targetEcli}`;
+    let edge = this.edges.get(edgeKey);
+    if (!edge) {
+      edge = { source: record.sourceEcli, target: record.targetEcli, count: 0, treatments: {} };
+      this.edges.set(edgeKey, edge);
+      this.link(this.outgoing, record.sourceEcli, record.targetEcli);
+      this.link(this.incoming, record.targetEcli, record.sourceEcli);
+    }
+    edge.count++;
+    const treatment = record.treatment || 'UNKNOWN';
+    edge.treatments[treatment] = (edge.treatments[treatment] ?? 0) + 1;
+    return true;
+  }
+
+  private link(index: Map<string, Set<string>>, from: string, to: string): void {
+    let set = index.get(from);
+    if (!set) {
+      set = new Set();
+      index.set(from, set);
+    }
+    set.add(to);
+  }
+
+  getEdges(): CitationEdge[] {
+    return [...this.edges.values()];
+  }
+
+  getOrphans(): OrphanedCitation[] {
+    return this.orphans;
+  }
+
+  getStats(): { decisions: number; edges: number; citations: number; resolved: number; orphaned: number } {
+    const resolved = this.getEdges().reduce((sum, e) => sum + e.count, 0);
+    return {
+      decisions: this.nodes.size,
+      edges: this.edges.size,
+      citations: resolved + this.orphans.length,
+      resolved,
+      orphaned: this.orphans.length,
+    };
+  }
+
+  // ==========================================================================
+  // Metrics
+  // ==========================================================================
+
+  /**
+   * PageRank over distinct citation edges (dangling decisions spread their
+   * rank uniformly)
+   */
+  pageRank(options: PageRankOptions = {}): Map<string, number> {
+    if (this.pageRanks && Object.keys(options).length === 0) return this.pageRanks;
+
+    const damping = options.damping ?? 0.85;
+    const maxIterations = options.maxIterations ?? 100;
+    const tolerance = options.tolerance ?? 1e-9;
+
+    const ids = [...this.nodes];
+    const n = ids.length;
+    const position = new Map(ids.map((id, i) => [id, i]));
+    const outDegree = ids.map((id) => this.outgoing.get(id)?.size ?? 0);
+    const sources = ids.map((id) => [...(this.incoming.get(id) ?? [])].map((s) => position.get(s)!));
+
+    let rank = new Array<number>(n).fill(1 / n);
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+      const dangling = rank.reduce((sum, r, i) => sum + (outDegree[i] === 0 ? r : 0), 0);
+      const base = (1 - damping) / n + (damping * dangling) / n;
+
+      const next = sources.map((from) => base + damping * from.reduce((sum, s) => sum + rank[s] / outDegree[s], 0));
+      const delta = next.reduce((sum, r, i) => sum + Math.abs(r - rank[i]), 0);
+      rank = next;
+      if (delta < tolerance) break;
+    }
+
+    const ranks = new Map(ids.map((id, i) => [id, rank[i]]));
+    if (Object.keys(options).length === 0) this.pageRanks = ranks;
+    return ranks;
+  }
+
+  /**
+   * Per-decision metrics, most authoritative first
+   */
+  getDecisionMetrics(): DecisionMetrics[] {
+    const ranks = this.pageRank();
+    const n = this.nodes.size;
+
+    const received = new Map<string, number>();
+    const made = new Map<string, number>();
+    for (const edge of this.edges.values()) {
+      received.set(edge.target, (received.get(edge.target) ?? 0) + edge.count);
+      made.set(edge.source, (made.get(edge.source) ?? 0) + edge.count);
+    }
+    const orphaned = new Map<string, number>();
+    for (const orphan of this.orphans) {
+      orphaned.set(orphan.sourceEcli, (orphaned.get(orphan.sourceEcli) ?? 0) + 1);
+    }
+
+    return [...this.nodes]
+      .map((ecli) => {
+        const pageRank = ranks.get(ecli) ?? 0;
+        return {
+          ecli,
+          ...parseEcli(ecli),
+          inDegree: this.incoming.get(ecli)?.size ?? 0,
+          outDegree: this.outgoing.get(ecli)?.size ?? 0,
+          citationsReceived: received.get(ecli) ?? 0,
+          citationsMade: made.get(ecli) ?? 0,
+          orphanedCitations: orphaned.get(ecli) ?? 0,
+          pageRank,
+          authority: pageRank * n,
+        };
+      })
+      .sort((a, b) => b.pageRank - a.pageRank || b.inDegree - a.inDegree || a.ecli.localeCompare(b.ecli));
+  }
+
+  /**
+   * Most-cited decisions per group (court, year, ...), by in-degree then authority
+   */
+  static mostCitedBy<K extends string | number>(
+    metrics: DecisionMetrics[],
+    keyOf: (m: DecisionMetrics) => K | null,
+    limit: number
+  ): Map<K, DecisionMetrics[]> {
+    const groups = new Map<K, DecisionMetrics[]>();
+    for (const m of metrics) {
+      const key = keyOf(m);
+      if (key === null || m.inDegree === 0) continue;
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(m);
+    }
+
+    for (const [key, list] of groups) {
+      list.sort((a, b) => b.inDegree - a.inDegree || b.pageRank - a.pageRank || a.ecli.localeCompare(b.ecli));
+      groups.set(key, list.slice(0, limit));
+    }
+    return groups;
+  }
+
+  // ==========================================================================
+  // Chains
+  // ==========================================================================
+
+  /**
+   * Longest citation chains (decision cites decision cites decision ...)
+   *
+   * Cycles (e.g. decisions citing each other) are broken at the first
+   * revisited decision. Chains starting inside an already reported chain
+   * are skipped.
+   *
+   * @param minLength Minimum number of decisions in a chain
+   */
+  longestChains(limit: number, minLength = 3): CitationChain[] {
+    const longest = new Map<string, number>();
+    const next = new Map<string, string | null>();
+    const state = new Map<string, 'visiting' | 'done'>();
+
+    // Iterative post-order DFS (chains can be deeper than the call stack)
+    for (const root of this.nodes) {
+      if (state.has(root)) continue;
+      const stack: Array<{ id: string; children: string[]; index: number }> = [];
+      const push = (id: string) => {
+        state.set(id, 'visiting');
+        stack.push({ id, children: [...(this.outgoing.get(id) ?? [])], index: 0 });
+      };
+      push(root);
+
+      while (stack.length > 0) {
+        const frame = stack[stack.length - 1];
+        if (frame.index < frame.children.length) {
+          const child = frame.children[frame.index++];
+          if (!state.has(child)) push(child);
+          continue;
+        }
+
+        let best = 1;
+        let bestChild: string | null = null;
+        for (const child of frame.children) {
+          if (state.get(child) !== 'done') continue; // back edge (cycle)
+          const length = 1 + longest.get(child)!;
+          if (length > best || (length === best && bestChild !== null && child < bestChild)) {
+            best = length;
+            bestChild = child;
+          }
+        }
+        longest.set(frame.id, best);
+        next.set(frame.id, bestChild);
+        state.set(frame.id, 'done');
+        stack.pop();
+      }
+    }
+
+    const starts = [...longest.entries()]
+      .filter(([, length]) => length >= minLength)
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+
+    const chains: CitationChain[] = [];
+    const covered = new Set<string>();
+    for (const [start, length] of starts) {
+      if (chains.length >= limit) break;
+      if (covered.has(start)) continue;
+
+      const path: string[] = [];
+      for (let id: string | null = start; id; id = next.get(id) ?? null) {
+        path.push(id);
+        covered.add(id);
+      }
+      chains.push({ length, path });
+    }
+    return chains;
+  }
+
+  /**
+   * Shortest citation path from one decision to another (null when `to` is
+   * not reachable by following citations)
+   */
+  findChain(from: string, to: string): CitationChain | null {
+    if (!this.nodes.has(from) || !this.nodes.has(to)) return null;
+
+    const previous = new Map<string, string | null>([[from, null]]);
+    const queue = [from];
+    for (let i = 0; i < queue.length; i++) {
+      const id = queue[i];
+      if (id === to) {
+        const path: string[] = [];
+        for (let step: string | null = to; step; step = previous.get(step) ?? null) path.unshift(step);
+        return { length: path.length, path };
+      }
+      for (const child of this.outgoing.get(id) ?? []) {
+        if (!previous.has(child)) {
+          previous.set(child, id);
+          queue.push(child);
+        }
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,160 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { GraphBuilder } from './GraphBuilder.js';
+import {
+  EDGE_PROPERTIES,
+  EdgeType,
+  NODE_PROPERTIES,
+  NodeLabel,
+  PropertyType,
+  PropertyValue,
+} from './types.js';
+
+/**
+ * Separator for list properties inside a CSV cell
+ */
+const LIST_SEPARATOR = '|';
+
+/**
+ * Cypher Writer
+ *
+ * Writes one CSV per node label and per (edge type, endpoint labels), plus
+ * import.cypher with uniqueness constraints and LOAD CSV / MERGE statements.
+ * Every statement MERGEs on `key`, so the script can be re-run against an
+ * existing database to add or refresh decisions incrementally.
+ *
+ * Copy the contents of csv/ into the Neo4j import directory, then:
+ *   cypher-shell -f import.cypher
+ */
+export class CypherWriter {
+  /**
+   * Write CSVs and import script
+   *
+   * @param builder Populated graph builder
+   * @param outputDir Target directory (csv/ and import.cypher)
+   * @returns Paths of written files
+   */
+  static async write(builder: GraphBuilder, outputDir: string): Promise<string[]> {
+    const csvDir = path.join(outputDir, 'csv');
+    await fs.mkdir(csvDir, { recursive: true });
+
+    const written: string[] = [];
+    const statements: string[] = [
+      '// Decisions knowledge graph import',
+      '// Generated by "graph export" (src/graph/export-graph.ts). Safe to re-run (MERGE on key).',
+      '',
+    ];
+
+    // Constraints
+    for (const label of Object.keys(NODE_PROPERTIES) as NodeLabel[]) {
+      statements.push(
+        `CREATE CONSTRAINT ${constraintName(label)} IF NOT EXISTS FOR (n:${label}) REQUIRE n.key IS UNIQUE;`
+      );
+    }
+    statements.push('');
+
+    // Nodes
+    const nodesByLabel = groupBy(builder.getNodes(), (n) => n.label);
+    for (const [label, nodes] of nodesByLabel) {
+      const columns = Object.keys(NODE_PROPERTIES[label]);
+      const fileName = `nodes_${label}.csv`;
+      const rows = nodes.map((n) => [n.key, n.uri, ...columns.map((c) => n.properties[c] ?? null)]);
+
+      written.push(await writeCsv(path.join(csvDir, fileName), ['key', 'uri', ...columns], rows));
+
+      const sets = ['n.uri = row.uri', ...columns.map((c) => `n.${c} = ${castColumn(c, NODE_PROPERTIES[label][c])}`)];
+      statements.push(
+        `LOAD CSV WITH HEADERS FROM 'file:///${fileName}' AS row`,
+        `MERGE (n:${label} {key: row.key})`,
+        `SET ${sets.join(',\n    ')};`,
+        ''
+      );
+    }
+
+    // Edges (one file per type and endpoint labels)
+    const edgesByShape = groupBy(builder.getEdges(), (e) => `${e.type}|${e.fromLabel}|${e.toLabel}`);
+    for (const [, edges] of edgesByShape) {
+      const { type, fromLabel, toLabel } = edges[0];
+      const columns = Object.keys(EDGE_PROPERTIES[type]);
+      const fileName = `edges_${type}_${fromLabel}_${toLabel}.csv`;
+      const rows = edges.map((e) => [e.fromKey, e.toKey, ...columns.map((c) => e.properties[c] ?? null)]);
+
+      written.push(await writeCsv(path.join(csvDir, fileName), ['from', 'to', ...columns], rows));
+
+      statements.push(
+        `LOAD CSV WITH HEADERS FROM 'file:///${fileName}' AS row`,
+        `MATCH (a:${fromLabel} {key: row.from})`,
+        `MATCH (b:${toLabel} {key: row.to})`,
+        `MERGE (a)-[r:${type}]->(b)${edgeSetClause(type, columns)};`,
+        ''
+      );
+    }
+
+    const scriptPath = path.join(outputDir, 'import.cypher');
+    await fs.writeFile(scriptPath, statements.join('\n'), 'utf-8');
+    written.push(scriptPath);
+
+    return written;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function constraintName(label: string): string {
+  return `${label.replace(/([a-z])([A-Z])/g, '$1_$2').toLowerCase()}_key`;
+}
+
+function castColumn(column: string, type: PropertyType): string {
+  const value = `row.${column}`;
+  switch (type) {
+    case 'int':
+      return `toInteger(${value})`;
+    case 'float':
+      return `toFloat(${value})`;
+    case 'bool':
+      return `toBoolean(${value})`;
+    case 'string[]':
+      return `CASE WHEN ${value} IS NULL THEN [] ELSE split(${value}, '${LIST_SEPARATOR}') END`;
+    default:
+      return value;
+  }
+}
+
+function edgeSetClause(type: EdgeType, columns: string[]): string {
+  if (columns.length === 0) return '';
+  const sets = columns.map((c) => `r.${c} = ${castColumn(c, EDGE_PROPERTIES[type][c])}`);
+  return `\nSET ${sets.join(',\n    ')}`;
+}
+
+function groupBy<T, K>(items: T[], keyOf: (item: T) => K): Map<K, T[]> {
+  const groups = new Map<K, T[]>();
+  for (const item of items) {
+    const key = keyOf(item);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(item);
+  }
+  return groups;
+}
+
+/**
+ * Format a CSV cell: nulls are written unquoted-empty so LOAD CSV reads
+ * them as null; everything else is quoted
+ */
+function csvCell(value: PropertyValue | string): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value) && value.length === 0) return '';
+  const text = Array.isArray(value) ? value.join(LIST_SEPARATOR) : String(value);
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+async function writeCsv(
+  filePath: string,
+  header: string[],
+  rows: Array<Array<PropertyValue | string>>
+): Promise<string> {
+  const lines = [header.join(','), ...rows.map((row) => row.map(csvCell).join(','))];
+  await fs.writeFile(filePath, lines.join('\n') + '\n', 'utf-8');
+  return filePath;
+}
@@ -0,0 +1,365 @@
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  ActMapping,
+  EdgeType,
+  GraphEdge,
+  GraphNode,
+  NodeLabel,
+  PropertyValue,
+} from './types.js';
+import { DEFAULT_BASE_URI, ecliUri, eliUri, isEcli, localUri } from './uris.js';
+
+/**
+ * Graph Builder Options
+ */
+export interface GraphBuilderOptions {
+  /** Base URI for locally minted resources */
+  baseUri?: string;
+  /** Parent act mappings keyed by internal_parent_act_id */
+  actMappings?: Map<string, ActMapping>;
+}
+
+/**
+ * Graph Builder
+ *
+ * Turns aggregated decisions (merged-full-data / pipeline output schema)
+ * into deduplicated nodes and edges.
+ *
+ * Node keys come from source identifiers only, so adding the same decision
+ * twice, or decisions from several full-data runs, converges on one graph.
+ * When a decision is seen again, non-empty property values win over empty
+ * ones and list properties are unioned.
+ */
+export class GraphBuilder {
+  private nodes: Map<string, GraphNode> = new Map();
+  private edges: Map<string, GraphEdge> = new Map();
+  private baseUri: string;
+  private actMappings: Map<string, ActMapping>;
+  private decisionCount = 0;
+
+  constructor(options: GraphBuilderOptions = {}) {
+    this.baseUri = options.baseUri || DEFAULT_BASE_URI;
+    this.actMappings = options.actMappings || new Map();
+  }
+
+  /**
+   * Load parent act mappings from a directory of mapping JSONs
+   *
+   * Expects the aggregated format written by aggregate-provision-mappings
+   * ({ internal_parent_act_id, document_number, score }). When an act is
+   * mapped more than once, the highest score wins.
+   */
+  static async loadActMappings(dir: string): Promise<Map<string, ActMapping>> {
+    const mappings = new Map<string, ActMapping>();
+    const files = (await fs.readdir(dir)).filter((f) => f.endsWith('.json'));
+
+    for (const file of files) {
+      const data = JSON.parse(await fs.readFile(path.join(dir, file), 'utf-8'));
+      if (!data?.internal_parent_act_id || !data?.document_number) continue;
+
+      const existing = mappings.get(data.internal_parent_act_id);
+      if (!existing || (data.score ?? 0) > existing.score) {
+        mappings.set(data.internal_parent_act_id, {
+          internal_parent_act_id: data.internal_parent_act_id,
+          document_number: String(data.document_number),
+          score: data.score ?? 0,
+        });
+      }
+    }
+
+    return mappings;
+  }
+
+  /**
+   * Add one aggregated decision to the graph
+   *
+   * @returns false when the object is not a decision (no decision_id)
+   */
+  addDecision(decision: any): boolean {
+    const decisionId: string | undefined = decision?.decision_id;
+    if (!decisionId) return false;
+
+    this.decisionCount++;
+
+    this.upsertNode('Decision', decisionId, ecliUri(decisionId), {
+      decisionId,
+      languages: decision.language ? [decision.language] : [],
+      decisionDate: asString(decision.decision_date),
+      courtEcliCode: asString(decision.court_ecli_code),
+      citationReference: asString(decision.citationReference),
+      microSummary: asString(decision.microSummary),
+    });
+
+    this.addParties(decisionId, decision.parties);
+    this.addProvisions(decisionId, decision.citedProvisions);
+    this.addCitedDecisions(decisionId, decision.citedDecisions);
+    this.addTeachings(decisionId, decision.legalTeachings);
+    this.addClassifications(decision.legalIssueClassifications);
+
+    return true;
+  }
+
+  /**
+   * Nodes sorted by label and key (stable output across runs)
+   */
+  getNodes(): GraphNode[] {
+    return [...this.nodes.values()].sort(
+      (a, b) => a.label.localeCompare(b.label) || a.key.localeCompare(b.key)
+    );
+  }
+
+  /**
+   * Edges sorted by type and endpoints (stable output across runs)
+   */
+  getEdges(): GraphEdge[] {
+    return [...this.edges.values()].sort(
+      (a, b) =>
+        a.type.localeCompare(b.type) ||
+        a.fromKey.localeCompare(b.fromKey) ||
+        a.toLabel.localeCompare(b.toLabel) ||
+        a.toKey.localeCompare(b.toKey)
+    );
+  }
+
+  /**
+   * Get a node's URI (for RDF edges)
+   */
+  getNodeUri(label: NodeLabel, key: string): string {
+    return this.nodes.get(nodeId(label, key))?.uri || localUri(this.baseUri, label, key);
+  }
+
+  getBaseUri(): string {
+    return this.baseUri;
+  }
+
+  /**
+   * Counts per node label and edge type
+   */
+  getStats(): { decisions: number; nodes: Record<string, number>; edges: Record<string, number> } {
+    const nodes: Record<string, number> = {};
+    const edges: Record<string, number> = {};
+    for (const node of this.nodes.values()) {
+      nodes[node.label] = (nodes[node.label] || 0) + 1;
+    }
+    for (const edge of this.edges.values()) {
+      edges[edge.type] = (edges[edge.type] || 0) + 1;
+    }
+    return { decisions: this.decisionCount, nodes, edges };
+  }
+
+  // ==========================================================================
+  // Decision parts
+  // ==========================================================================
+
+  private addParties(decisionId: string, parties: any): void {
+    for (const party of asArray(parties)) {
+      if (!party?.id) continue;
+
+      this.upsertNode('Party', party.id, null, {
+        name: asString(party.name),
+        type: asString(party.type),
+        proceduralRole: asString(party.proceduralRole),
+      });
+      this.addEdge('HAS_PARTY', 'Decision', decisionId, 'Party', party.id);
+    }
+  }
+
+  private addProvisions(decisionId: string, provisions: any): void {
+    for (const provision of asArray(provisions)) {
+      const provisionKey: string | undefined = provision?.internalProvisionId;
+      if (!provisionKey) continue;
+
+      this.upsertNode('Provision', provisionKey, null, {
+        provisionNumber: asString(provision.provisionNumber),
+        provisionNumberKey: asString(provision.provisionNumberKey),
+        provisionInterpretation: asString(provision.provisionInterpretation),
+      });
+      this.addEdge('CITES_PROVISION', 'Decision', decisionId, 'Provision', provisionKey);
+
+      const internalActId: string | undefined = provision.internalParentActId;
+      if (!internalActId) continue;
+
+      // Mapped acts are shared across decisions (keyed by NUMAC);
+      // unmapped acts stay local to the citing decision
+      const mapping = this.actMappings.get(internalActId);
+      const actKey = mapping ? mapping.document_number : internalActId;
+      const eli = mapping
+        ? eliUri(provision.parentActType, provision.parentActDate, mapping.document_number)
+        : null;
+
+      this.upsertNode('ParentAct', actKey, eli, {
+        name: asString(provision.parentActName),
+        type: asString(provision.parentActType),
+        date: asString(provision.parentActDate),
+        number: asString(provision.parentActNumber),
+        numac: mapping ? mapping.document_number : null,
+        eli,
+      });
+      this.addEdge('MAPPED_TO_ACT', 'Provision', provisionKey, 'ParentAct', actKey, {
+        score: mapping ? mapping.score : null,
+      });
+    }
+  }
+
+  private addCitedDecisions(decisionId: string, citedDecisions: any): void {
+    for (const cited of asArray(citedDecisions)) {
+      const citedKey: string | undefined = isEcli(cited?.ecli) ? cited.ecli : cited?.internalDecisionId;
+      if (!citedKey) continue;
+
+      this.upsertNode('CitedDecision', citedKey, ecliUri(citedKey), {
+        ecli: isEcli(cited.ecli) ? cited.ecli : null,
+        courtName: asString(cited.courtName),
+        courtJurisdictionCode: asString(cited.courtJurisdictionCode),
+        date: asString(cited.date),
+        caseNumber: asString(cited.caseNumber),
+      });
+      this.addEdge('CITES_DECISION', 'Decision', decisionId, 'CitedDecision', citedKey, {
+        treatment: asString(cited.treatment),
+        type: asString(cited.type),
+      });
+    }
+  }
+
+  private addTeachings(decisionId: string, teachings: any): void {
+    for (const teaching of asArray(teachings)) {
+      if (!teaching?.teachingId) continue;
+
+      this.upsertNode('LegalTeaching', teaching.teachingId, null, {
+        text: asString(teaching.text),
+        principleType: asString(teaching.principleType),
+        legalArea: asString(teaching.legalArea),
+        courtLevel: asString(teaching.precedentialWeight?.courtLevel),
+        sourceAuthor: asString(teaching.sourceAuthor),
+      });
+      this.addEdge('TEACHES', 'Decision', decisionId, 'LegalTeaching', teaching.teachingId);
+    }
+  }
+
+  /**
+   * Classifications: pipeline output wraps them in { classifications },
+   * merged-full-data may store the bare array
+   */
+  private addClassifications(result: any): void {
+    const classifications = Array.isArray(result) ? result : asArray(result?.classifications);
+
+    for (const entry of classifications) {
+      const teachingId: string | undefined = entry?.teaching_id;
+      if (!teachingId) continue;
+
+      this.upsertNode('LegalTeaching', teachingId, null, {});
+
+      const classification = entry.classification || {};
+      const topics = asArray(classification.topic_set_details).length > 0
+        ? asArray(classification.topic_set_details)
+        : asArray(classification.topic_set).map((id: string) => ({ topic_id: id }));
+      const issueTypes = asArray(classification.issue_type_set_details).length > 0
+        ? asArray(classification.issue_type_set_details)
+        : asArray(classification.issue_type_set).map((id: string) => ({ issue_type_id: id }));
+
+      for (const topic of topics) {
+        if (!topic?.topic_id) continue;
+        this.upsertNode('Topic', topic.topic_id, null, { name: asString(topic.topic_name) });
+        this.addEdge('CLASSIFIED_AS', 'LegalTeaching', teachingId, 'Topic', topic.topic_id, {
+          confidence: typeof topic.confidence === 'number' ? topic.confidence : null,
+        });
+      }
+
+      for (const issueType of issueTypes) {
+        if (!issueType?.issue_type_id) continue;
+        this.upsertNode('IssueType', issueType.issue_type_id, null, { name: asString(issueType.issue_type_name) });
+        this.addEdge('CLASSIFIED_AS', 'LegalTeaching', teachingId, 'IssueType', issueType.issue_type_id, {
+          confidence: typeof issueType.confidence === 'number' ? issueType.confidence : null,
+        });
+      }
+    }
+  }
+
+  // ==========================================================================
+  // Upserts
+  // ==========================================================================
+
+  private upsertNode(
+    label: NodeLabel,
+    key: string,
+    uri: string | null,
+    properties: Record<string, PropertyValue>
+  ): void {
+    const id = nodeId(label, key);
+    const existing = this.nodes.get(id);
+
+    if (!existing) {
+      this.nodes.set(id, {
+        label,
+        key,
+        uri: uri || localUri(this.baseUri, label, key),
+        properties: { ...properties },
+      });
+      return;
+    }
+
+    if (uri && existing.uri === localUri(this.baseUri, label, key)) {
+      existing.uri = uri;
+    }
+    mergeProperties(existing.properties, properties);
+  }
+
+  private addEdge(
+    type: EdgeType,
+    fromLabel: NodeLabel,
+    fromKey: string,
+    toLabel: NodeLabel,
+    toKey: string,
+    properties: Record<string, PropertyValue> = {}
+  ): void {
+    const id = `${type}|${nodeId(fromLabel, fromKey)}|${nodeId(toLabel, toKey)}`;
+    const existing = this.edges.get(id);
+
+    if (!existing) {
+      this.edges.set(id, { type, fromLabel, fromKey, toLabel, toKey, properties: { ...properties } });
+      return;
+    }
+
+    mergeProperties(existing.properties, properties);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function nodeId(label: NodeLabel, key: string): string {
+  return `${label}|${key}`;
+}
+
+function asArray(value: any): any[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asString(value: any): string | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string') return value.trim() === '' ? null : value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return null;
+}
+
+/**
+ * Merge incoming properties: lists are unioned, empty values never
+ * overwrite existing ones
+ */
+function mergeProperties(
+  target: Record<string, PropertyValue>,
+  incoming: Record<string, PropertyValue>
+): void {
+  for (const [name, value] of Object.entries(incoming)) {
+    const current = target[name];
+    if (Array.isArray(value)) {
+      const merged = new Set([...(Array.isArray(current) ? current : []), ...value]);
+      target[name] = [...merged].sort();
+    } else if (value !== null && value !== undefined) {
+      target[name] = value;
+    } else if (!(name in target)) {
+      target[name] = null;
+    }
+  }
+}
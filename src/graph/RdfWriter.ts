@@ -0,0 +1,195 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { GraphBuilder } from './GraphBuilder.js';
+import {
+  EDGE_PROPERTIES,
+  EdgeType,
+  GraphEdge,
+  NODE_PROPERTIES,
+  PropertyType,
+  PropertyValue,
+} from './types.js';
+import { localUri, vocabUri } from './uris.js';
+
+const RDF = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+const XSD = 'http://www.w3.org/2001/XMLSchema#';
+
+type Term = { iri: string } | { literal: string; datatype?: string };
+type Triple = [string, string, Term];
+
+/**
+ * RDF Writer
+ *
+ * Serializes the graph as N-Triples (graph.nt) and Turtle (graph.ttl).
+ * Node labels become classes and edge types become predicates in the
+ * `<base>vocab#` namespace. Edge properties (e.g. citation treatment,
+ * mapping score) are attached through rdf:Statement reification; statement
+ * URIs are hashed from the edge identity so reruns produce the same triples.
+ */
+export class RdfWriter {
+  /**
+   * Write graph.nt and graph.ttl
+   *
+   * @param builder Populated graph builder
+   * @param outputDir Target directory
+   * @returns Paths of written files
+   */
+  static async write(builder: GraphBuilder, outputDir: string): Promise<string[]> {
+    await fs.mkdir(outputDir, { recursive: true });
+
+    const triples = this.buildTriples(builder);
+
+    const ntPath = path.join(outputDir, 'graph.nt');
+    await fs.writeFile(ntPath, triples.map(formatNTriple).join('\n') + '\n', 'utf-8');
+
+    const ttlPath = path.join(outputDir, 'graph.ttl');
+    await fs.writeFile(ttlPath, formatTurtle(triples, vocabUri(builder.getBaseUri(), '')), 'utf-8');
+
+    return [ntPath, ttlPath];
+  }
+
+  /**
+   * Build triples for all nodes and edges
+   */
+  static buildTriples(builder: GraphBuilder): Triple[] {
+    const baseUri = builder.getBaseUri();
+    const term = (name: string) => vocabUri(baseUri, name);
+    const triples: Triple[] = [];
+
+    for (const node of builder.getNodes()) {
+      triples.push([node.uri, `${RDF}type`, { iri: term(node.label) }]);
+      triples.push([node.uri, term('key'), { literal: node.key }]);
+
+      for (const [name, type] of Object.entries(NODE_PROPERTIES[node.label])) {
+        for (const object of toTerms(node.properties[name], type)) {
+          triples.push([node.uri, term(name), object]);
+        }
+      }
+    }
+
+    for (const edge of builder.getEdges()) {
+      const subject = builder.getNodeUri(edge.fromLabel, edge.fromKey);
+      const predicate = term(predicateName(edge.type));
+      const object = builder.getNodeUri(edge.toLabel, edge.toKey);
+      triples.push([subject, predicate, { iri: object }]);
+
+      const propertyTriples = Object.entries(EDGE_PROPERTIES[edge.type]).flatMap(([name, type]) =>
+        toTerms(edge.properties[name], type).map((value) => [name, value] as const)
+      );
+      if (propertyTriples.length === 0) continue;
+
+      const statement = localUri(baseUri, 'statement', statementId(edge));
+      triples.push([statement, `${RDF}type`, { iri: `${RDF}Statement` }]);
+      triples.push([statement, `${RDF}subject`, { iri: subject }]);
+      triples.push([statement, `${RDF}predicate`, { iri: predicate }]);
+      triples.push([statement, `${RDF}object`, { iri: object }]);
+      for (const [name, value] of propertyTriples) {
+        triples.push([statement, term(name), value]);
+      }
+    }
+
+    return triples;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * HAS_PARTY → hasParty
+ */
+function predicateName(type: EdgeType): string {
+  return type.toLowerCase().replace(/_([a-z])/g, (_, c: string) => c.toUpperCase());
+}
+
+function statementId(edge: GraphEdge): string {
+  return crypto
+    .createHash('sha1')
+    .update(`${edge.type}|${edge.fromLabel}|${edge.fromKey}|${edge.toLabel}|${edge.toKey}`)
+    .digest('hex');
+}
+
+function toTerms(value: PropertyValue | undefined, type: PropertyType): Term[] {
+  if (value === null || value === undefined) return [];
+  if (Array.isArray(value)) return value.map((v) => ({ literal: v }));
+
+  switch (type) {
+    case 'int':
+      return [{ literal: String(value), datatype: `${XSD}integer` }];
+    case 'float':
+      return [{ literal: String(value), datatype: `${XSD}double` }];
+    case 'bool':
+      return [{ literal: String(value), datatype: `${XSD}boolean` }];
+    default:
+      return [{ literal: String(value) }];
+  }
+}
+
+function escapeLiteral(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+}
+
+function escapeIri(iri: string): string {
+  return iri.replace(/[<>"{}|^`\\\s]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+}
+
+function formatTerm(object: Term, prefixed?: (iri: string) => string): string {
+  if ('iri' in object) {
+    return prefixed ? prefixed(object.iri) : `<${escapeIri(object.iri)}>`;
+  }
+  const literal = `"${escapeLiteral(object.literal)}"`;
+  if (!object.datatype) return literal;
+  return `${literal}^^${prefixed ? prefixed(object.datatype) : `<${object.datatype}>`}`;
+}
+
+function formatNTriple([subject, predicate, object]: Triple): string {
+  return `<${escapeIri(subject)}> <${escapeIri(predicate)}> ${formatTerm(object)} .`;
+}
+
+/**
+ * Turtle with prefixes, one block per subject
+ */
+function formatTurtle(triples: Triple[], vocabNamespace: string): string {
+  const prefixes: Array<[string, string]> = [
+    ['rdf', RDF],
+    ['xsd', XSD],
+    ['kg', vocabNamespace],
+  ];
+
+  const prefixed = (iri: string): string => {
+    for (const [prefix, namespace] of prefixes) {
+      const local = iri.slice(namespace.length);
+      if (iri.startsWith(namespace) && /^[A-Za-z][A-Za-z0-9_]*$/.test(local)) {
+        return local === 'type' && prefix === 'rdf' ? 'a' : `${prefix}:${local}`;
+      }
+    }
+    return `<${escapeIri(iri)}>`;
+  };
+
+  const bySubject = new Map<string, Triple[]>();
+  for (const triple of triples) {
+    if (!bySubject.has(triple[0])) bySubject.set(triple[0], []);
+    bySubject.get(triple[0])!.push(triple);
+  }
+
+  const lines = prefixes.map(([prefix, namespace]) => `@prefix ${prefix}: <${namespace}> .`);
+  lines.push('');
+
+  for (const [subject, subjectTriples] of bySubject) {
+    const predicateLines = subjectTriples.map(
+      ([, predicate, object]) => `    ${prefixed(predicate)} ${formatTerm(object, prefixed)}`
+    );
+    lines.push(`<${escapeIri(subject)}>`);
+    lines.push(predicateLines.join(' ;\n') + ' .');
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
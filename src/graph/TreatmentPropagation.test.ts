@@ -0,0 +1,117 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CourtLevel, TeachingTreatment, TreatmentPropagator } from './TreatmentPropagation.js';
+
+const CASS = 'ECLI:BE:CASS:2015:ARR.1';
+const APPEAL = 'ECLI:BE:CABRL:2020:ARR.2';
+const CASS_LATER = 'ECLI:BE:CASS:2022:ARR.3';
+
+function decision(
+  decisionId: string,
+  courtLevel: CourtLevel | null,
+  citedDecisions: any[] = [],
+  extra: Record<string, any> = {}
+): any {
+  return {
+    decision_id: decisionId,
+    language: 'FR',
+    decision_date: `${decisionId.split(':')[3]}-01-01`,
+    legalTeachings: courtLevel
+      ? [{ teachingId: `TEACH-${decisionId.slice(-1)}`, text: 'Principle', precedentialWeight: { courtLevel } }]
+      : [],
+    citedDecisions,
+    ...extra,
+  };
+}
+
+function cites(internalDecisionId: string, ecli: string | null, treatment: string): any {
+  return { internalDecisionId, ecli, treatment, type: 'PRECEDENT' };
+}
+
+function teachingOf(teachings: TeachingTreatment[], decisionId: string): TeachingTreatment {
+  return teachings.find((t) => t.decisionId === decisionId)!;
+}
+
+describe('TreatmentPropagator', () => {
+  it('rejects JSONs without a decision id', () => {
+    assert.equal(new TreatmentPropagator().addDecision({ foo: 1 }), false);
+  });
+
+  it('marks teachings without incoming citations as not cited', () => {
+    const propagator = new TreatmentPropagator();
+    propagator.addDecision(decision(CASS, 'CASSATION'));
+    const [teaching] = propagator.propagate().teachings;
+    assert.equal(teaching.status, 'not-cited');
+    assert.equal(teaching.stillGoodLaw, true);
+  });
+
+  it('overrules when a court at the same level overrules', () => {
+    const propagator = new TreatmentPropagator();
+    propagator.addDecision(decision(CASS, 'CASSATION'));
+    propagator.addDecision(decision(APPEAL, 'APPEAL', [cites('DEC-1', CASS, 'FOLLOWED')]));
+    propagator.addDecision(decision(CASS_LATER, 'CASSATION', [cites('DEC-1', CASS, 'OVERRULED')]));
+
+    const teaching = teachingOf(propagator.propagate().teachings, CASS);
+    assert.equal(teaching.status, 'overruled');
+    assert.equal(teaching.stillGoodLaw, false);
+    assert.equal(teaching.counts.overruled, 1);
+    assert.equal(teaching.counts.followed, 1);
+    assert.deepEqual(teaching.evidence.map((e) => e.citingDecisionId), [CASS_LATER, APPEAL]);
+  });
+
+  it('treats a lower court overruling as criticism', () => {
+    const propagator = new TreatmentPropagator();
+    propagator.addDecision(decision(CASS, 'CASSATION'));
+    propagator.addDecision(decision(APPEAL, 'APPEAL', [cites('DEC-1', CASS, 'OVERRULED')]));
+
+    const teaching = teachingOf(propagator.propagate().teachings, CASS);
+    assert.equal(teaching.status, 'criticised');
+    assert.equal(teaching.stillGoodLaw, true);
+  });
+
+  it('overrules when a court level is unknown', () => {
+    const propagator = new TreatmentPropagator();
+    propagator.addDecision(decision(CASS, 'CASSATION'));
+    propagator.addDecision(decision(APPEAL, null, [cites('DEC-1', CASS, 'OVERRULED')]));
+    assert.equal(teachingOf(propagator.propagate().teachings, CASS).status, 'overruled');
+  });
+
+  it('resolves citations without ECLI through the resolver and counts language versions once', () => {
+    const propagator = new TreatmentPropagator();
+    propagator.addDecision(decision(CASS, 'CASSATION'));
+    const citing = decision(APPEAL, 'APPEAL', [cites('DEC-1', null, 'DISTINGUISHED')]);
+    propagator.addDecision(citing);
+    propagator.addDecision({ ...citing, language: 'NL' });
+
+    const { teachings, stats } = propagator.propagate((source, internal) =>
+      source === APPEAL && internal === 'DEC-1' ? CASS : null
+    );
+    const teaching = teachingOf(teachings, CASS);
+    assert.equal(teaching.status, 'distinguished');
+    assert.equal(teaching.evidence.length, 1);
+    assert.equal(teaching.evidence[0].resolvedBy, 'mapping');
+    assert.equal(stats.citations, 1);
+    assert.equal(stats.resolvedByMapping, 1);
+  });
+
+  it('counts unresolved citations and citations to decisions outside the inputs', () => {
+    const propagator = new TreatmentPropagator();
+    propagator.addDecision(decision(APPEAL, 'APPEAL', [
+      cites('DEC-1', null, 'FOLLOWED'),
+      cites('DEC-2', 'ECLI:BE:GHCC:2010:ARR.9', 'FOLLOWED'),
+    ]));
+    const { stats } = propagator.propagate();
+    assert.equal(stats.unresolved, 1);
+    assert.equal(stats.outsideInputs, 1);
+  });
+
+  it('lists citing teachings that rely on the citation', () => {
+    const propagator = new TreatmentPropagator();
+    propagator.addDecision(decision(CASS, 'CASSATION'));
+    propagator.addDecision(decision(APPEAL, 'APPEAL', [cites('DEC-1', CASS, 'FOLLOWED')], {
+      legalTeachings: [{ teachingId: 'TEACH-A', relatedCitedDecisionsId: ['DEC-1'], precedentialWeight: { courtLevel: 'APPEAL' } }],
+    }));
+    const [evidence] = teachingOf(propagator.propagate().teachings, CASS).evidence;
+    assert.deepEqual(evidence.citingTeachingIds, ['TEACH-A']);
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Treatment Propagation
+ *
+ * Joins the treatment of every incoming citation (extract-cited-decisions)
+ * back to the legal teachings of the cited decision, and derives a
+ * "still good law" status per teaching:
+ *
+ *   overruled      cited with OVERRULED by a court at the same or a higher level
+ *   criticised     cited with OVERRULED by a lower court (a lower court cannot
+ *                  overrule, departing from the precedent is a criticism)
+ *   distinguished  cited with DISTINGUISHED
+ *   followed       cited with FOLLOWED
+ *   cited          only neutral citations (CITED, UNCERTAIN)
+ *   not-cited      no incoming citation
+ *
+ * The most severe treatment wins (same priority as the extraction prompt:
+ * OVERRULED > DISTINGUISHED > FOLLOWED > CITED > UNCERTAIN).
+ *
+ * Citations target decisions, not teachings: every teaching of a cited
+ * decision inherits the decision's evidence. Evidence lists the citing
+ * teachings (relatedCitedDecisionsId) to narrow it down by hand.
+ *
+ * Court levels come from the teachings' precedentialWeight.courtLevel
+ * (CASS decisions without teachings are CASSATION). When either level is
+ * unknown, OVERRULED counts as overruled.
+ */
+
+import { isEcli } from './uris.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CourtLevel = 'CASSATION' | 'APPEAL' | 'FIRST_INSTANCE';
+
+export type TeachingStatus = 'overruled' | 'criticised' | 'distinguished' | 'followed' | 'cited' | 'not-cited';
+
+/**
+ * One incoming citation supporting a teaching's status
+ */
+export interface TreatmentEvidence {
+  citingDecisionId: string;
+  citingLanguage: string | null;
+  citingDate: string | null;
+  citingCourtLevel: CourtLevel | null;
+  internalDecisionId: string;
+  treatment: string;
+  /** PRECEDENT or PROCEDURAL */
+  type: string | null;
+  /** Status this citation alone supports */
+  status: TeachingStatus;
+  /** How the cited decision was identified: ECLI in the extraction, or cited-decision mapping */
+  resolvedBy: 'ecli' | 'mapping';
+  /** Teachings of the citing decision that rely on this citation */
+  citingTeachingIds: string[];
+}
+
+export interface TeachingTreatment {
+  teachingId: string;
+  decisionId: string;
+  language: string | null;
+  decisionDate: string | null;
+  courtLevel: CourtLevel | null;
+  principleType: string | null;
+  text: string | null;
+  status: TeachingStatus;
+  /** False once overruled */
+  stillGoodLaw: boolean;
+  counts: Record<TeachingStatus, number>;
+  /** Most severe first, then most recent */
+  evidence: TreatmentEvidence[];
+}
+
+/**
+ * Resolves a citation without ECLI (sourceEcli + internalDecisionId → target ECLI)
+ */
+export type CitationResolver = (sourceEcli: string, internalDecisionId: string) => string | null;
+
+const SEVERITY: TeachingStatus[] = ['overruled', 'criticised', 'distinguished', 'followed', 'cited', 'not-cited'];
+
+const LEVEL_RANK: Record<CourtLevel, number> = { CASSATION: 3, APPEAL: 2, FIRST_INSTANCE: 1 };
+
+interface DecisionEntry {
+  decisionId: string;
+  language: string | null;
+  decisionDate: string | null;
+  courtLevel: CourtLevel | null;
+  teachings: any[];
+  citedDecisions: any[];
+}
+
+function asArray(value: any): any[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asString(value: any): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+/**
+ * Court level of a decision: most frequent teaching courtLevel, else CASS → CASSATION
+ */
+function courtLevelOf(decision: any, teachings: any[]): CourtLevel | null {
+  const counts = new Map<CourtLevel, number>();
+  for (const teaching of teachings) {
+    const level = teaching?.precedentialWeight?.courtLevel;
+    if (level in LEVEL_RANK) counts.set(level, (counts.get(level) ?? 0) + 1);
+  }
+  const [top] = [...counts.entries()].sort((a, b) => b[1] - a[1] || LEVEL_RANK[b[0]] - LEVEL_RANK[a[0]]);
+  if (top) return top[0];
+  return decision?.court_ecli_code === 'CASS' ? 'CASSATION' : null;
+}
+
+/**
+ * Status supported by one citation
+ */
+function statusOf(treatment: string, citedLevel: CourtLevel | null, citingLevel: CourtLevel | null): TeachingStatus {
+  switch (treatment) {
+    case 'OVERRULED':
+      return citedLevel && citingLevel && LEVEL_RANK[citingLevel] < LEVEL_RANK[citedLevel] ? 'criticised' : 'overruled';
+    case 'DISTINGUISHED':
+      return 'distinguished';
+    case 'FOLLOWED':
+      return 'followed';
+    default:
+      return 'cited';
+  }
+}
+
+// ============================================================================
+// Treatment Propagator
+// ============================================================================
+
+export class TreatmentPropagator {
+  private decisions: DecisionEntry[] = [];
+  private decisionIds = new Set<string>();
+
+  /**
+   * Add one aggregated decision JSON
+   *
+   * @returns false when the JSON is not a decision
+   */
+  addDecision(decision: any): boolean {
+    const decisionId = asString(decision?.decision_id);
+    if (!decisionId) return false;
+
+    const teachings = asArray(decision.legalTeachings).filter((t) => t?.teachingId);
+    this.decisions.push({
+      decisionId,
+      language: asString(decision.language),
+      decisionDate: asString(decision.decision_date),
+      courtLevel: courtLevelOf(decision, teachings),
+      teachings,
+      citedDecisions: asArray(decision.citedDecisions),
+    });
+    this.decisionIds.add(decisionId);
+    return true;
+  }
+
+  /**
+   * Propagate incoming treatments to every teaching
+   *
+   * Citations are deduplicated by citing decision + internalDecisionId, so
+   * the FR and NL versions of a decision count once (first one wins).
+   *
+   * @param resolve Target ECLI for citations extracted without one (e.g. from map-cited-decisions)
+   */
+  propagate(resolve: CitationResolver | null = null): {
+    teachings: TeachingTreatment[];
+    stats: { citations: number; resolved: number; resolvedByMapping: number; outsideInputs: number; unresolved: number };
+  } {
+    const levels = new Map<string, CourtLevel | null>();
+    for (const entry of this.decisions) {
+      if (!levels.get(entry.decisionId)) levels.set(entry.decisionId, entry.courtLevel);
+    }
+
+    const incoming = new Map<string, Array<Omit<TreatmentEvidence, 'status'>>>();
+    const seen = new Set<string>();
+    const stats = { citations: 0, resolved: 0, resolvedByMapping: 0, outsideInputs: 0, unresolved: 0 };
+
+    for (const entry of this.decisions) {
+      for (const cited of entry.citedDecisions) {
+        const internalDecisionId = asString(cited?.internalDecisionId);
+        if (!internalDecisionId) continue;
+        const key = `${entry.decisionId}|${internalDecisionId}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        stats.citations++;
+
+        let target = isEcli(cited.ecli) ? cited.ecli : null;
+        const resolvedBy = target ? 'ecli' : 'mapping';
+        if (!target && resolve) target = resolve(entry.decisionId, internalDecisionId);
+
+        if (!target || target === entry.decisionId) {
+          stats.unresolved++;
+          continue;
+        }
+        stats.resolved++;
+        if (resolvedBy === 'mapping') stats.resolvedByMapping++;
+        if (!this.decisionIds.has(target)) {
+          stats.outsideInputs++;
+          continue;
+        }
+
+        if (!incoming.has(target)) incoming.set(target, []);
+        incoming.get(target)!.push({
+          citingDecisionId: entry.decisionId,
+          citingLanguage: entry.language,
+          citingDate: entry.decisionDate,
+          citingCourtLevel: levels.get(entry.decisionId) ?? null,
+          internalDecisionId,
+          treatment: asString(cited.treatment) ?? 'UNCERTAIN',
+          type: asString(cited.type),
+          resolvedBy,
+          citingTeachingIds: entry.teachings
+            .filter((t) => asArray(t.relatedCitedDecisionsId).includes(internalDecisionId))
+            .map((t) => t.teachingId),
+        });
+      }
+    }
+
+    const teachings: TeachingTreatment[] = [];
+    for (const entry of this.decisions) {
+      for (const teaching of entry.teachings) {
+        const courtLevel: CourtLevel | null = teaching.precedentialWeight?.courtLevel in LEVEL_RANK
+          ? teaching.precedentialWeight.courtLevel
+          : entry.courtLevel;
+
+        const evidence: TreatmentEvidence[] = (incoming.get(entry.decisionId) ?? [])
+          .map((e) => ({ ...e, status: statusOf(e.treatment, courtLevel, e.citingCourtLevel) }))
+          .sort((a, b) =>
+            SEVERITY.indexOf(a.status) - SEVERITY.indexOf(b.status) ||
+            (b.citingDate ?? '').localeCompare(a.citingDate ?? '') ||
+            a.citingDecisionId.localeCompare(b.citingDecisionId)
+          );
+
+        const counts = Object.fromEntries(SEVERITY.map((s) => [s, 0])) as Record<TeachingStatus, number>;
+        for (const e of evidence) counts[e.status]++;
+        const status = evidence[0]?.status ?? 'not-cited';
+
+        teachings.push({
+          teachingId: teaching.teachingId,
+          decisionId: entry.decisionId,
+          language: entry.language,
+          decisionDate: entry.decisionDate,
+          courtLevel,
+          principleType: asString(teaching.principleType),
+          text: asString(teaching.text),
+          status,
+          stillGoodLaw: status !== 'overruled',
+          counts,
+          evidence,
+        });
+      }
+    }
+
+    teachings.sort((a, b) =>
+      SEVERITY.indexOf(a.status) - SEVERITY.indexOf(b.status) ||
+      a.teachingId.localeCompare(b.teachingId) ||
+      (a.language ?? '').localeCompare(b.language ?? '')
+    );
+    return { teachings, stats };
+  }
+}
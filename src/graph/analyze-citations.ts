@@ -0,0 +1,308 @@
+/**
+ * Citation Network Analytics
+ *
+ * Builds the decision → decision citation network from cited-decision
+ * mappings and writes JSON and CSV reports. Backs `graph citations` in the
+ * CLI (src/cli/commands/graph.ts):
+ *   npm run dev -- graph citations --input full-data/map-cited-decisions/2025-12-04T22-23-20-074Z
+ *   npm run dev -- graph citations --input src/pipeline/mapping/output --court CASS
+ *   npm run dev -- graph citations --input dirA --from ECLI:BE:GHARB:2022:... --to ECLI:BE:CASS:2015:...
+ *
+ * Accepted inputs:
+ * - map-cited-decisions full-data runs (<timestamp>/ or <timestamp>/jsons/)
+ * - mapping pipeline output (src/pipeline/mapping/output, or one
+ *   <decision>_<lang>/ directory with step-map-cited-decisions.json)
+ *
+ * A citation resolves to the top match when its score reaches --min-score
+ * (default 80, as in aggregate-decision-mappings); otherwise it is orphaned.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  CitationChain,
+  CitationNetwork,
+  CitationRecord,
+  DecisionMetrics,
+} from './CitationNetwork.js';
+import { writeCsv } from './csv.js';
+
+export interface CitationAnalysisOptions {
+  inputs: string[];
+  output: string;
+  /** Minimum match score for a citation to resolve (0-100) */
+  minScore: number;
+  /** Decisions listed per court / year and in the JSON top list */
+  top: number;
+  /** Number of longest chains reported */
+  chains: number;
+  /** Only report most-cited lists for these courts (ECLI court codes) */
+  courts?: string[];
+  /** Shortest chain between two decisions */
+  from?: string;
+  to?: string;
+}
+
+export interface CitationAnalysisResult {
+  stats: ReturnType<CitationNetwork['getStats']> & { inputRecords: number; skippedFiles: number };
+  topAuthorities: DecisionMetrics[];
+  mostCitedByCourt: Record<string, DecisionMetrics[]>;
+  mostCitedByYear: Record<string, DecisionMetrics[]>;
+  longestChains: CitationChain[];
+  chain: CitationChain | null;
+  orphansByReason: Record<string, number>;
+  files: string[];
+}
+
+const STEP_RESULT_FILE = 'step-map-cited-decisions.json';
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Top match when it reaches the minimum score
+ */
+function resolveTarget(result: any, minScore: number): { targetEcli: string | null; score: number | null; reason?: string } {
+  const matches: any[] = Array.isArray(result?.matches) ? result.matches : [];
+  const top = [...matches].sort((a, b) => (b?.score ?? 0) - (a?.score ?? 0))[0];
+
+  if (!top?.decision_id) {
+    return { targetEcli: null, score: null, reason: result?.no_match_reason || 'No match' };
+  }
+  if ((top.score ?? 0) < minScore) {
+    return { targetEcli: null, score: top.score ?? null, reason: `Top match below score ${minScore}` };
+  }
+  return { targetEcli: String(top.decision_id), score: top.score ?? null };
+}
+
+/**
+ * Records from one full-data JSON (flat row metadata + LLM result)
+ */
+function fromFullDataJson(data: any, minScore: number): CitationRecord | null {
+  if (!data?.source_ecli || !data?.internal_decision_id) return null;
+  const { targetEcli, score, reason } = resolveTarget(data, minScore);
+  return {
+    sourceEcli: data.source_ecli,
+    internalDecisionId: String(data.internal_decision_id),
+    targetEcli,
+    score,
+    treatment: data.treatment ?? null,
+    citedCourtName: data.cited_court_name ?? null,
+    citedDate: data.cited_date ? String(data.cited_date).substring(0, 10) : null,
+    orphanReason: reason,
+  };
+}
+
+/**
+ * Records from a mapping pipeline step file ({ decisionId, items: [{ metadata, result }] })
+ */
+function fromStepResult(data: any, minScore: number): CitationRecord[] {
+  if (!data?.decisionId || !Array.isArray(data.items)) return [];
+  return data.items
+    .filter((item: any) => item?.metadata?.itemId)
+    .map((item: any) => {
+      const { targetEcli, score, reason } = resolveTarget(item.result, minScore);
+      return {
+        sourceEcli: data.decisionId,
+        internalDecisionId: String(item.metadata.itemId),
+        targetEcli,
+        score,
+        treatment: null,
+        citedCourtName: null,
+        citedDate: null,
+        orphanReason: reason,
+      };
+    });
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  return fs.access(filePath).then(() => true, () => false);
+}
+
+/**
+ * Read every citation record under an input directory
+ */
+export async function loadCitationRecords(input: string, minScore: number): Promise<{ records: CitationRecord[]; skipped: number }> {
+  // Single pipeline output directory
+  if (await exists(path.join(input, STEP_RESULT_FILE))) {
+    const data = JSON.parse(await fs.readFile(path.join(input, STEP_RESULT_FILE), 'utf-8'));
+    return { records: fromStepResult(data, minScore), skipped: 0 };
+  }
+
+  // Full-data run directory
+  const jsonsDir = path.join(input, 'jsons');
+  const dir = (await exists(jsonsDir)) ? jsonsDir : input;
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+
+  const records: CitationRecord[] = [];
+  let skipped = 0;
+
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    // Pipeline output root: one directory per decision
+    if (entry.isDirectory()) {
+      const stepFile = path.join(dir, entry.name, STEP_RESULT_FILE);
+      if (await exists(stepFile)) {
+        records.push(...fromStepResult(JSON.parse(await fs.readFile(stepFile, 'utf-8')), minScore));
+      }
+      continue;
+    }
+    if (!entry.name.endsWith('.json')) continue;
+
+    try {
+      const record = fromFullDataJson(JSON.parse(await fs.readFile(path.join(dir, entry.name), 'utf-8')), minScore);
+      if (record) records.push(record);
+      else skipped++;
+    } catch (error: any) {
+      console.warn(`⚠️  Skipping ${entry.name}: ${error.message}`);
+      skipped++;
+    }
+  }
+
+  return { records, skipped };
+}
+
+// ============================================================================
+// Reports
+// ============================================================================
+
+const METRIC_HEADER = [
+  'ecli', 'court', 'year', 'in_degree', 'out_degree', 'citations_received', 'citations_made',
+  'orphaned_citations', 'pagerank', 'authority',
+];
+
+function metricRow(m: DecisionMetrics): Array<string | number | null> {
+  return [
+    m.ecli, m.court, m.year, m.inDegree, m.outDegree, m.citationsReceived, m.citationsMade,
+    m.orphanedCitations, Number(m.pageRank.toPrecision(6)), Number(m.authority.toFixed(4)),
+  ];
+}
+
+/**
+ * Rows of a most-cited report (the group is the decision's own court or year)
+ */
+function rankedRows(groups: Record<string, DecisionMetrics[]>): Array<Array<string | number | null>> {
+  return Object.values(groups).flatMap((list) => list.map((m, i) => [i + 1, ...metricRow(m)]));
+}
+
+// ============================================================================
+// Analysis
+// ============================================================================
+
+/**
+ * Build the citation network from the inputs and write the reports
+ */
+export async function analyzeCitationNetwork(options: CitationAnalysisOptions): Promise<CitationAnalysisResult> {
+  console.log('\n🔗 Citation Network Analysis');
+  console.log(`   Inputs:    ${options.inputs.join(', ')}`);
+  console.log(`   Output:    ${options.output}`);
+  console.log(`   Min score: ${options.minScore}\n`);
+
+  const network = new CitationNetwork();
+  let inputRecords = 0;
+  let skippedFiles = 0;
+
+  for (const input of options.inputs) {
+    const { records, skipped } = await loadCitationRecords(input, options.minScore);
+    console.log(`📥 ${records.length} citations from ${input}`);
+    inputRecords += records.length;
+    skippedFiles += skipped;
+    for (const record of records) network.addCitation(record);
+  }
+
+  const stats = { ...network.getStats(), inputRecords, skippedFiles };
+  const metrics = network.getDecisionMetrics();
+
+  const courtFilter = options.courts?.length ? new Set(options.courts.map((c) => c.toUpperCase())) : null;
+  const byCourt = CitationNetwork.mostCitedBy(
+    metrics,
+    (m) => (m.court && (!courtFilter || courtFilter.has(m.court)) ? m.court : null),
+    options.top
+  );
+  const byYear = CitationNetwork.mostCitedBy(metrics, (m) => m.year, options.top);
+
+  const mostCitedByCourt = Object.fromEntries([...byCourt.entries()].sort((a, b) => a[0].localeCompare(b[0])));
+  const mostCitedByYear = Object.fromEntries([...byYear.entries()].sort((a, b) => a[0] - b[0]).map(([y, l]) => [String(y), l]));
+  const longestChains = network.longestChains(options.chains);
+  const chain = options.from && options.to ? network.findChain(options.from, options.to) : null;
+
+  const orphans = network.getOrphans();
+  const orphansByReason: Record<string, number> = {};
+  for (const orphan of orphans) {
+    orphansByReason[orphan.reason] = (orphansByReason[orphan.reason] ?? 0) + 1;
+  }
+
+  console.log(`\n✅ ${stats.decisions} decisions, ${stats.edges} citation edges`);
+  console.log(`   Citations: ${stats.citations} (${stats.resolved} resolved, ${stats.orphaned} orphaned)`);
+
+  console.log('\n🏛️  Top authorities (PageRank):');
+  for (const m of metrics.slice(0, 10)) {
+    console.log(`   ${m.authority.toFixed(2).padStart(8)}  ${m.ecli}  (cited by ${m.inDegree})`);
+  }
+
+  if (longestChains.length > 0) {
+    console.log(`\n⛓️  Longest chain (${longestChains[0].length} decisions):`);
+    console.log(`   ${longestChains[0].path.join(' → ')}`);
+  }
+
+  if (options.from && options.to) {
+    console.log(`\n🧭 Chain ${options.from} → ${options.to}:`);
+    console.log(chain ? `   ${chain.path.join(' → ')}` : '   No citation path found');
+  }
+
+  // Write reports
+  await fs.mkdir(options.output, { recursive: true });
+  const files: string[] = [];
+
+  const report = {
+    generatedAt: new Date().toISOString(),
+    options,
+    stats,
+    topAuthorities: metrics.slice(0, options.top),
+    mostCitedByCourt,
+    mostCitedByYear,
+    longestChains,
+    chain,
+    orphansByReason,
+    decisions: metrics,
+    orphans,
+  };
+  const jsonPath = path.join(options.output, 'citation-network.json');
+  await fs.writeFile(jsonPath, JSON.stringify(report, null, 2), 'utf-8');
+  files.push(jsonPath);
+
+  files.push(await writeCsv(path.join(options.output, 'decisions.csv'), METRIC_HEADER, metrics.map(metricRow)));
+  files.push(await writeCsv(
+    path.join(options.output, 'edges.csv'),
+    ['source_ecli', 'target_ecli', 'citations', 'treatments'],
+    network.getEdges().map((e) => [
+      e.source, e.target, e.count,
+      Object.entries(e.treatments).map(([t, n]) => `${t}:${n}`).join(';'),
+    ])
+  ));
+  files.push(await writeCsv(path.join(options.output, 'most-cited-by-court.csv'), ['rank', ...METRIC_HEADER], rankedRows(mostCitedByCourt)));
+  files.push(await writeCsv(path.join(options.output, 'most-cited-by-year.csv'), ['rank', ...METRIC_HEADER], rankedRows(mostCitedByYear)));
+  files.push(await writeCsv(
+    path.join(options.output, 'chains.csv'),
+    ['rank', 'length', 'path'],
+    longestChains.map((c, i) => [i + 1, c.length, c.path.join(' > ')])
+  ));
+  files.push(await writeCsv(
+    path.join(options.output, 'orphaned-citations.csv'),
+    ['source_ecli', 'internal_decision_id', 'cited_court_name', 'cited_date', 'reason'],
+    orphans.map((o) => [o.sourceEcli, o.internalDecisionId, o.citedCourtName, o.citedDate, o.reason])
+  ));
+
+  console.log(`\n📁 Wrote ${files.length} files to ${options.output}\n`);
+
+  return {
+    stats,
+    topAuthorities: report.topAuthorities,
+    mostCitedByCourt,
+    mostCitedByYear,
+    longestChains,
+    chain,
+    orphansByReason,
+    files,
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * CSV Reports
+ *
+ * Shared by the graph analysis reports (analyze-citations.ts,
+ * propagate-treatments.ts). Strings are always quoted; numbers, booleans
+ * and nulls are written bare (null as an empty cell).
+ */
+
+import fs from 'fs/promises';
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+/**
+ * Format one CSV cell
+ */
+export function csvCell(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value !== 'string') return String(value);
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Write a header line and rows to a CSV file
+ *
+ * @returns The file path
+ */
+export async function writeCsv(filePath: string, header: string[], rows: CsvValue[][]): Promise<string> {
+  const lines = [header.join(','), ...rows.map((row) => row.map(csvCell).join(','))];
+  await fs.writeFile(filePath, lines.join('\n') + '\n', 'utf-8');
+  return filePath;
+}
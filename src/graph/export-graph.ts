@@ -0,0 +1,101 @@
+/**
+ * Knowledge Graph Export
+ *
+ * Builds graph nodes/edges from aggregated decision JSONs (merged-full-data,
+ * mergeAllJobResults output, or pipeline output) and writes Cypher
+ * (LOAD CSV + MERGE) and/or RDF (N-Triples + Turtle). Backs `graph export`
+ * in the CLI (src/cli/commands/graph.ts):
+ *   npm run graph:export -- --input merged-full-data/2025-12-01T10-00-00Z
+ *   npm run graph:export -- --input dirA --input dirB --act-mappings full-data/provision-mappings-aggregated/jsons
+ *   npm run graph:export -- --input src/pipeline/output --format rdf --base-uri https://kg.example.be/
+ *
+ * Node keys are derived from source identifiers, so re-exporting with more
+ * input directories and re-running import.cypher updates the graph in place.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { GraphBuilder } from './GraphBuilder.js';
+import { CypherWriter } from './CypherWriter.js';
+import { RdfWriter } from './RdfWriter.js';
+import { ActMapping } from './types.js';
+
+export type ExportFormat = 'cypher' | 'rdf' | 'all';
+
+export interface GraphExportOptions {
+  inputs: string[];
+  actMappings?: string;
+  output: string;
+  format: ExportFormat;
+  baseUri: string;
+}
+
+export interface GraphExportResult {
+  decisions: number;
+  skipped: number;
+  nodes: Record<string, number>;
+  edges: Record<string, number>;
+  files: string[];
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Build the graph from the input directories and write the requested formats
+ */
+export async function exportGraph(args: GraphExportOptions): Promise<GraphExportResult> {
+  console.log('\n🕸️  Knowledge Graph Export');
+  console.log(`   Inputs:   ${args.inputs.join(', ')}`);
+  console.log(`   Output:   ${args.output}`);
+  console.log(`   Format:   ${args.format}`);
+  console.log(`   Base URI: ${args.baseUri}\n`);
+
+  let actMappings = new Map<string, ActMapping>();
+  if (args.actMappings) {
+    actMappings = await GraphBuilder.loadActMappings(args.actMappings);
+    console.log(`📥 Loaded ${actMappings.size} parent act mappings`);
+  }
+
+  const builder = new GraphBuilder({ baseUri: args.baseUri, actMappings });
+
+  let skipped = 0;
+  for (const inputDir of args.inputs) {
+    const files = (await fs.readdir(inputDir)).filter((f) => f.endsWith('.json')).sort();
+    console.log(`📥 Reading ${files.length} files from ${inputDir}`);
+
+    for (const file of files) {
+      try {
+        const data = JSON.parse(await fs.readFile(path.join(inputDir, file), 'utf-8'));
+        if (!builder.addDecision(data)) skipped++;
+      } catch (error: any) {
+        console.warn(`⚠️  Skipping ${file}: ${error.message}`);
+        skipped++;
+      }
+    }
+  }
+
+  const stats = builder.getStats();
+  console.log(`\n✅ ${stats.decisions} decisions added (${skipped} files skipped)`);
+  console.log('\n   Nodes:');
+  for (const [label, count] of Object.entries(stats.nodes)) {
+    console.log(`     ${label.padEnd(16)} ${count.toLocaleString()}`);
+  }
+  console.log('   Edges:');
+  for (const [type, count] of Object.entries(stats.edges)) {
+    console.log(`     ${type.padEnd(16)} ${count.toLocaleString()}`);
+  }
+
+  const written: string[] = [];
+  if (args.format === 'cypher' || args.format === 'all') {
+    written.push(...await CypherWriter.write(builder, path.join(args.output, 'cypher')));
+  }
+  if (args.format === 'rdf' || args.format === 'all') {
+    written.push(...await RdfWriter.write(builder, path.join(args.output, 'rdf')));
+  }
+
+  console.log(`\n📁 Wrote ${written.length} files to ${args.output}\n`);
+
+  return { ...stats, skipped, files: written };
+}
@@ -0,0 +1,150 @@
+/**
+ * Teaching Status (Treatment Propagation)
+ *
+ * Derives a "still good law" status for every legal teaching from the
+ * treatment of later citations to its decision (see TreatmentPropagation.ts).
+ * Backs `graph treatments` in the CLI (src/cli/commands/graph.ts):
+ *   npm run dev -- graph treatments --input merged-full-data/gpt-5-mini/2025-12-01T10-00-00Z
+ *   npm run dev -- graph treatments --input dirA --input dirB --mappings full-data/map-cited-decisions/2025-12-04T22-23-20-074Z
+ *
+ * Inputs are aggregated decision JSONs (merged-full-data, mergeAllJobResults
+ * output). Cited decisions extracted without an ECLI are resolved through
+ * map-cited-decisions results (--mappings, same --min-score as
+ * `graph citations`). Only decisions present in the inputs get statuses.
+ *
+ * The artifact is derived: it is written to <first input>/teaching-status/
+ * by default and overwritten on every run, so re-run it after new merges.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { loadCitationRecords } from './analyze-citations.js';
+import { writeCsv } from './csv.js';
+import { TeachingStatus, TeachingTreatment, TreatmentPropagator } from './TreatmentPropagation.js';
+
+export interface TreatmentPropagationOptions {
+  inputs: string[];
+  /** Default: <first input>/teaching-status */
+  output?: string;
+  /** map-cited-decisions runs or mapping pipeline output */
+  mappings?: string[];
+  /** Minimum mapping score for a citation to resolve (0-100) */
+  minScore: number;
+}
+
+export interface TreatmentPropagationResult {
+  stats: ReturnType<TreatmentPropagator['propagate']>['stats'] & {
+    decisions: number;
+    skippedFiles: number;
+    mappings: number;
+    teachings: number;
+  };
+  byStatus: Record<TeachingStatus, number>;
+  /** Teachings that are no longer good law */
+  overruled: Array<Pick<TeachingTreatment, 'teachingId' | 'decisionId' | 'language'>>;
+  files: string[];
+}
+
+// ============================================================================
+// Propagation
+// ============================================================================
+
+/**
+ * Compute teaching statuses for the input directories and write the artifact
+ */
+export async function propagateTreatments(options: TreatmentPropagationOptions): Promise<TreatmentPropagationResult> {
+  const output = options.output ?? path.join(options.inputs[0], 'teaching-status');
+
+  console.log('\n⚖️  Teaching Status (treatment propagation)');
+  console.log(`   Inputs:    ${options.inputs.join(', ')}`);
+  console.log(`   Mappings:  ${options.mappings?.length ? options.mappings.join(', ') : 'none (ECLI only)'}`);
+  console.log(`   Output:    ${output}\n`);
+
+  const propagator = new TreatmentPropagator();
+  let decisions = 0;
+  let skippedFiles = 0;
+
+  for (const inputDir of options.inputs) {
+    const files = (await fs.readdir(inputDir)).filter((f) => f.endsWith('.json')).sort();
+    console.log(`📥 Reading ${files.length} files from ${inputDir}`);
+
+    for (const file of files) {
+      try {
+        const data = JSON.parse(await fs.readFile(path.join(inputDir, file), 'utf-8'));
+        if (propagator.addDecision(data)) decisions++;
+        else skippedFiles++;
+      } catch (error: any) {
+        console.warn(`⚠️  Skipping ${file}: ${error.message}`);
+        skippedFiles++;
+      }
+    }
+  }
+
+  // sourceEcli|internalDecisionId → target ECLI (first mapping wins)
+  const targets = new Map<string, string>();
+  for (const input of options.mappings ?? []) {
+    const { records } = await loadCitationRecords(input, options.minScore);
+    let resolved = 0;
+    for (const record of records) {
+      const key = `${record.sourceEcli}|${record.internalDecisionId}`;
+      if (record.targetEcli && !targets.has(key)) {
+        targets.set(key, record.targetEcli);
+        resolved++;
+      }
+    }
+    console.log(`📥 ${resolved} resolved cited-decision mappings from ${input}`);
+  }
+
+  const { teachings, stats } = propagator.propagate(
+    targets.size > 0 ? (source, internalId) => targets.get(`${source}|${internalId}`) ?? null : null
+  );
+
+  const byStatus = { overruled: 0, criticised: 0, distinguished: 0, followed: 0, cited: 0, 'not-cited': 0 };
+  for (const teaching of teachings) byStatus[teaching.status]++;
+  const overruled = teachings
+    .filter((t) => t.status === 'overruled')
+    .map(({ teachingId, decisionId, language }) => ({ teachingId, decisionId, language }));
+
+  console.log(`\n✅ ${teachings.length} teachings from ${decisions} decisions (${skippedFiles} files skipped)`);
+  console.log(`   Citations: ${stats.citations} (${stats.resolved} resolved, ${stats.resolvedByMapping} via mappings, ` +
+    `${stats.outsideInputs} to decisions outside the inputs)`);
+  for (const [status, count] of Object.entries(byStatus)) {
+    console.log(`   ${status.padEnd(14)} ${count}`);
+  }
+
+  if (overruled.length > 0) {
+    console.log('\n🚫 No longer good law:');
+    for (const t of overruled.slice(0, 10)) console.log(`   ${t.teachingId} (${t.language})`);
+    if (overruled.length > 10) console.log(`   ... and ${overruled.length - 10} more`);
+  }
+
+  // Write artifact
+  await fs.mkdir(output, { recursive: true });
+  const files: string[] = [];
+  const fullStats = { ...stats, decisions, skippedFiles, mappings: targets.size, teachings: teachings.length };
+
+  const jsonPath = path.join(output, 'teaching-status.json');
+  await fs.writeFile(jsonPath, JSON.stringify({
+    generatedAt: new Date().toISOString(),
+    options: { ...options, output },
+    stats: fullStats,
+    byStatus,
+    teachings,
+  }, null, 2), 'utf-8');
+  files.push(jsonPath);
+
+  const header = [
+    'teaching_id', 'decision_id', 'language', 'court_level', 'status', 'still_good_law',
+    'overruled', 'criticised', 'distinguished', 'followed', 'cited', 'evidence',
+  ];
+  const rows = teachings.map((t) => [
+    t.teachingId, t.decisionId, t.language, t.courtLevel, t.status, t.stillGoodLaw,
+    t.counts.overruled, t.counts.criticised, t.counts.distinguished, t.counts.followed, t.counts.cited,
+    t.evidence.map((e) => `${e.citingDecisionId}:${e.treatment}`).join(';'),
+  ]);
+  files.push(await writeCsv(path.join(output, 'teaching-status.csv'), header, rows));
+
+  console.log(`\n📁 Wrote ${files.length} files to ${output}\n`);
+
+  return { stats: fullStats, byStatus, overruled, files };
+}
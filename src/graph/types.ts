@@ -0,0 +1,133 @@
+/**
+ * Knowledge Graph Types
+ *
+ * Node and edge model produced by GraphBuilder and serialized by the
+ * Cypher and RDF writers.
+ */
+
+export type NodeLabel =
+  | 'Decision'
+  | 'Party'
+  | 'Provision'
+  | 'ParentAct'
+  | 'LegalTeaching'
+  | 'CitedDecision'
+  | 'Topic'
+  | 'IssueType';
+
+export type EdgeType =
+  | 'HAS_PARTY'
+  | 'CITES_PROVISION'
+  | 'MAPPED_TO_ACT'
+  | 'CITES_DECISION'
+  | 'TEACHES'
+  | 'CLASSIFIED_AS';
+
+export type PropertyType = 'string' | 'int' | 'float' | 'bool' | 'string[]';
+
+export type PropertyValue = string | number | boolean | string[] | null;
+
+/**
+ * Graph node
+ *
+ * `key` is derived only from source identifiers (ECLI, PARTY-/ART-/ACT-/TEACH-
+ * IDs, NUMAC, topic IDs), so reruns over the same data produce the same keys.
+ */
+export interface GraphNode {
+  label: NodeLabel;
+  key: string;
+  uri: string;
+  properties: Record<string, PropertyValue>;
+}
+
+/**
+ * Graph edge (identified by type + endpoints)
+ */
+export interface GraphEdge {
+  type: EdgeType;
+  fromLabel: NodeLabel;
+  fromKey: string;
+  toLabel: NodeLabel;
+  toKey: string;
+  properties: Record<string, PropertyValue>;
+}
+
+/**
+ * Parent act mapping (from provision mapping jobs)
+ */
+export interface ActMapping {
+  internal_parent_act_id: string;
+  document_number: string;
+  score: number;
+}
+
+/**
+ * Property schema per node label (column order for CSV exports)
+ */
+export const NODE_PROPERTIES: Record<NodeLabel, Record<string, PropertyType>> = {
+  Decision: {
+    decisionId: 'string',
+    languages: 'string[]',
+    decisionDate: 'string',
+    courtEcliCode: 'string',
+    citationReference: 'string',
+    microSummary: 'string',
+  },
+  Party: {
+    name: 'string',
+    type: 'string',
+    proceduralRole: 'string',
+  },
+  Provision: {
+    provisionNumber: 'string',
+    provisionNumberKey: 'string',
+    provisionInterpretation: 'string',
+  },
+  ParentAct: {
+    name: 'string',
+    type: 'string',
+    date: 'string',
+    number: 'string',
+    numac: 'string',
+    eli: 'string',
+  },
+  LegalTeaching: {
+    text: 'string',
+    principleType: 'string',
+    legalArea: 'string',
+    courtLevel: 'string',
+    sourceAuthor: 'string',
+  },
+  CitedDecision: {
+    ecli: 'string',
+    courtName: 'string',
+    courtJurisdictionCode: 'string',
+    date: 'string',
+    caseNumber: 'string',
+  },
+  Topic: {
+    name: 'string',
+  },
+  IssueType: {
+    name: 'string',
+  },
+};
+
+/**
+ * Property schema per edge type
+ */
+export const EDGE_PROPERTIES: Record<EdgeType, Record<string, PropertyType>> = {
+  HAS_PARTY: {},
+  CITES_PROVISION: {},
+  MAPPED_TO_ACT: {
+    score: 'int',
+  },
+  CITES_DECISION: {
+    treatment: 'string',
+    type: 'string',
+  },
+  TEACHES: {},
+  CLASSIFIED_AS: {
+    confidence: 'float',
+  },
+};
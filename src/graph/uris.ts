@@ -0,0 +1,88 @@
+/**
+ * Knowledge Graph URIs
+ *
+ * Decisions with an ECLI resolve through the European ECLI search; Belgian
+ * acts mapped to a NUMAC get a Justel ELI when type and date are known.
+ * Everything else is minted under the configurable base URI.
+ */
+
+/**
+ * Default base URI for locally minted resources (override with --base-uri)
+ */
+export const DEFAULT_BASE_URI = 'https://data.example.org/decisions-kg/';
+
+const ECLI_RESOLVER = 'https://e-justice.europa.eu/ecli/';
+const JUSTEL_ELI = 'http://www.ejustice.just.fgov.be/eli/';
+
+/**
+ * Justel ELI type segment per parentActType (language-specific enum values)
+ */
+const ELI_TYPES: Record<string, string> = {
+  LOI: 'loi',
+  WET: 'wet',
+  ARRETE_ROYAL: 'arrete',
+  ARRETE_GOUVERNEMENT: 'arrete',
+  KONINKLIJK_BESLUIT: 'besluit',
+  BESLUIT_VAN_DE_REGERING: 'besluit',
+  DECRET: 'decret',
+  DECREET: 'decreet',
+  ORDONNANCE: 'ordonnance',
+  ORDONNANTIE: 'ordonnantie',
+  CONSTITUTION: 'constitution',
+  GRONDWET: 'grondwet',
+};
+
+/**
+ * Whether an identifier is an ECLI
+ */
+export function isEcli(id: string | null | undefined): id is string {
+  return !!id && /^ECLI:[A-Z]{2}:[^:]+:\d{4}:.+$/.test(id);
+}
+
+/**
+ * ECLI URI, or null when the identifier is not an ECLI
+ */
+export function ecliUri(id: string | null | undefined): string | null {
+  return isEcli(id) ? `${ECLI_RESOLVER}${id}` : null;
+}
+
+/**
+ * Belgian ELI for an act, or null when it cannot be derived
+ *
+ * Format: http://www.ejustice.just.fgov.be/eli/{type}/{yyyy}/{mm}/{dd}/{numac}/justel
+ *
+ * @param parentActType Extracted act type (e.g. LOI, KONINKLIJK_BESLUIT)
+ * @param date Act date (YYYY-MM-DD)
+ * @param numac Justel document number
+ */
+export function eliUri(
+  parentActType: string | null | undefined,
+  date: string | null | undefined,
+  numac: string | null | undefined
+): string | null {
+  const type = parentActType ? ELI_TYPES[parentActType] : undefined;
+  if (!type || !numac || !date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return null;
+  }
+
+  const [yyyy, mm, dd] = date.split('-');
+  return `${JUSTEL_ELI}${type}/${yyyy}/${mm}/${dd}/${numac}/justel`;
+}
+
+/**
+ * URI minted under the base URI for a node
+ */
+export function localUri(baseUri: string, label: string, key: string): string {
+  return `${withTrailingSlash(baseUri)}${label.toLowerCase()}/${encodeURIComponent(key)}`;
+}
+
+/**
+ * Vocabulary term URI (classes and predicates)
+ */
+export function vocabUri(baseUri: string, term: string): string {
+  return `${withTrailingSlash(baseUri)}vocab#${term}`;
+}
+
+function withTrailingSlash(uri: string): string {
+  return uri.endsWith('/') || uri.endsWith('#') ? uri : `${uri}/`;
+}
@@ -0,0 +1,125 @@
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { IntegrityChecker, selectValues } from './IntegrityChecker.js';
+import { INTEGRITY_RULES } from './rules.js';
+import { IntegrityReport } from './types.js';
+
+const D1 = 'ECLI:BE:CASS:2020:ARR.1';
+const D2 = 'ECLI:BE:CASS:2021:ARR.2';
+
+function rules(...ids: string[]) {
+  return INTEGRITY_RULES.filter((rule) => ids.includes(rule.id));
+}
+
+function teaching(teachingId: string, provisionIds: string[], extra: Record<string, any> = {}): any {
+  return { teachingId, relatedCitedProvisionsId: provisionIds, relatedCitedDecisionsId: [], ...extra };
+}
+
+describe('selectValues', () => {
+  it('iterates arrays and records each location', () => {
+    const data = { legalTeachings: [{ ids: ['a', 'b'] }, { ids: [] }, { other: 1 }] };
+    assert.deepEqual(selectValues(data, 'legalTeachings[].ids[]'), [
+      { value: 'a', path: ['legalTeachings', 0, 'ids', 0] },
+      { value: 'b', path: ['legalTeachings', 0, 'ids', 1] },
+    ]);
+    assert.deepEqual(selectValues({ id: null }, 'id'), [{ value: null, path: ['id'] }]);
+  });
+});
+
+describe('IntegrityChecker', () => {
+  let root: string;
+  const runs: Record<string, string> = {};
+
+  async function writeRun(job: string, outputs: any[]): Promise<void> {
+    const jsons = path.join(root, job, 'run', 'jsons');
+    await fs.mkdir(jsons, { recursive: true });
+    for (const [i, output] of outputs.entries()) {
+      await fs.writeFile(path.join(jsons, `${i}.json`), JSON.stringify(output), 'utf-8');
+    }
+    runs[job] = path.dirname(jsons);
+  }
+
+  before(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'integrity-'));
+    await writeRun('interpret-provisions', [
+      { decision_id: D1, language: 'FR', citedProvisions: [{ internalProvisionId: `ART-${D1}-001` }] },
+    ]);
+    await writeRun('extract-legal-teachings', [
+      {
+        decision_id: D1,
+        language: 'FR',
+        legalTeachings: [
+          teaching(`TEACH-${D1}-001`, [`ART-${D1}-001`, `ART-${D1}-002`]),
+          teaching(`TEACH-${D2}-002`, [], { hierarchicalRelationships: { refinesParentPrinciple: 'TEACH-X' } }),
+        ],
+      },
+      // No provisions for this decision: its references cannot be checked
+      { decision_id: D2, language: 'NL', legalTeachings: [teaching(`TEACH-${D2}-002`, [`ART-${D2}-001`])] },
+    ]);
+  });
+
+  after(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  async function check(...ids: string[]): Promise<IntegrityReport> {
+    return new IntegrityChecker({ baseDir: root, runs, rules: rules(...ids) }).check();
+  }
+
+  it('flags references missing from the target job of the same decision', async () => {
+    const report = await check('teaching-provision-refs');
+    const [result] = report.rules;
+    assert.equal(result.checked, 2);
+    assert.equal(result.missingTarget, 1);
+    assert.deepEqual(report.violations.map((v) => [v.path, v.value]), [
+      ['legalTeachings[0].relatedCitedProvisionsId[1]', `ART-${D1}-002`],
+    ]);
+    assert.equal(report.violations[0].fix?.action, 'remove');
+  });
+
+  it('nulls dangling single-value references', async () => {
+    const report = await check('teaching-hierarchy-refs');
+    assert.equal(report.warnings, 1);
+    assert.deepEqual(report.violations[0].fix, {
+      action: 'set',
+      file: path.join(runs['extract-legal-teachings'], 'jsons', '0.json'),
+      path: ['legalTeachings', 1, 'hierarchicalRelationships', 'refinesParentPrinciple'],
+      from: 'TEACH-X',
+      to: null,
+    });
+  });
+
+  it('rebuilds wrong prefixes and keeps the sequence', async () => {
+    const report = await check('teaching-ids-prefix');
+    assert.deepEqual(report.violations.map((v) => v.fix?.to), [`TEACH-${D1}-002`]);
+  });
+
+  it('finds IDs reused across decisions', async () => {
+    const report = await check('teaching-ids-unique');
+    assert.equal(report.errors, 1);
+    assert.match(report.violations[0].message, /already used at 0\.json legalTeachings\[1\]\.teachingId/);
+  });
+
+  it('skips rules whose jobs have no outputs', async () => {
+    const report = await check('teaching-decision-refs');
+    assert.equal(report.rules[0].skipped, 'No outputs for extract-cited-decisions');
+    assert.equal(report.totalViolations, 0);
+  });
+
+  it('applies a fix plan once', async () => {
+    const report = await check('teaching-provision-refs', 'teaching-ids-prefix');
+    const plan = IntegrityChecker.buildFixPlan(report);
+    assert.equal(plan.actions.length, 2);
+
+    assert.deepEqual(await IntegrityChecker.applyFixPlan(plan), { files: 1, applied: 2, skipped: 0 });
+    const fixed = JSON.parse(await fs.readFile(path.join(runs['extract-legal-teachings'], 'jsons', '0.json'), 'utf-8'));
+    assert.deepEqual(fixed.legalTeachings[0].relatedCitedProvisionsId, [`ART-${D1}-001`]);
+    assert.equal(fixed.legalTeachings[1].teachingId, `TEACH-${D1}-002`);
+
+    // The files no longer hold the planned `from` values
+    assert.deepEqual(await IntegrityChecker.applyFixPlan(plan), { files: 1, applied: 0, skipped: 2 });
+  });
+});
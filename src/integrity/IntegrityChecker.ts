@@ -0,0 +1,410 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { resolveRunDirectory } from '../lineage/RunRegistry.js';
+import { INTEGRITY_RULES } from './rules.js';
+import {
+  FixAction,
+  FixPlan,
+  IntegrityReport,
+  IntegrityRule,
+  PrefixRule,
+  ReferenceRule,
+  RuleResult,
+  UniqueRule,
+  ValuePath,
+  Violation,
+} from './types.js';
+
+/**
+ * Integrity Checker Options
+ */
+export interface IntegrityCheckerOptions {
+  /** Directory holding <job>/<timestamp>/jsons (default: full-data) */
+  baseDir?: string;
+  /** Run directory per job, instead of the latest run under baseDir */
+  runs?: Record<string, string>;
+  /** Rules to check (default: INTEGRITY_RULES) */
+  rules?: IntegrityRule[];
+}
+
+/**
+ * One output JSON of a job
+ */
+interface JobRecord {
+  decisionId: string | null;
+  language: string | null;
+  file: string;
+  data: any;
+}
+
+/**
+ * Selected value with its location in the output
+ */
+interface SelectedValue {
+  value: unknown;
+  path: Array<string | number>;
+}
+
+/**
+ * Integrity Checker
+ *
+ * Checks the declarative rules of src/integrity/rules.ts across the
+ * full-data outputs of several jobs: ID formats, uniqueness, and references
+ * from one job's output into another's for the same decision.
+ *
+ * Each job is read once (latest run, or the run given in `runs`); rules
+ * whose jobs have no outputs are skipped and reported as such.
+ * convert-md-to-html outputs are reduced to their block IDs on load.
+ */
+export class IntegrityChecker {
+  private baseDir: string;
+  private runOverrides: Record<string, string>;
+  private rules: IntegrityRule[];
+  private jobs: Map<string, { runDirectory: string; records: JobRecord[] } | null> = new Map();
+
+  constructor(options: IntegrityCheckerOptions = {}) {
+    this.baseDir = options.baseDir || path.join(process.cwd(), 'full-data');
+    this.runOverrides = options.runs || {};
+    this.rules = options.rules || INTEGRITY_RULES;
+  }
+
+  /**
+   * Check every rule
+   */
+  async check(): Promise<IntegrityReport> {
+    const results: RuleResult[] = [];
+    const violations: Violation[] = [];
+
+    for (const rule of this.rules) {
+      const jobs = rule.kind === 'reference' ? [rule.job, rule.target.job] : [rule.job];
+      const missing: string[] = [];
+      for (const job of jobs) {
+        if (!(await this.loadJob(job))) missing.push(job);
+      }
+
+      const result: RuleResult = {
+        id: rule.id,
+        description: rule.description,
+        severity: rule.severity,
+        checked: 0,
+        violations: 0,
+      };
+      if (missing.length > 0) {
+        result.skipped = `No outputs for ${missing.join(', ')}`;
+        results.push(result);
+        continue;
+      }
+
+      const found =
+        rule.kind === 'reference' ? this.checkReference(rule, result) :
+        rule.kind === 'prefix' ? this.checkPrefix(rule, result) :
+        this.checkUnique(rule, result);
+
+      result.violations = found.length;
+      violations.push(...found);
+      results.push(result);
+    }
+
+    const runs: Record<string, string> = {};
+    for (const [job, loaded] of this.jobs) {
+      if (loaded) runs[job] = loaded.runDirectory;
+    }
+
+    const errors = violations.filter((v) => v.severity === 'error').length;
+    return {
+      generatedAt: new Date().toISOString(),
+      runs,
+      rules: results,
+      totalViolations: violations.length,
+      errors,
+      warnings: violations.length - errors,
+      violations,
+    };
+  }
+
+  // ========================================
+  // RULES
+  // ========================================
+
+  private checkReference(rule: ReferenceRule, result: RuleResult): Violation[] {
+    const violations: Violation[] = [];
+    const targets = new Map<string, Set<unknown>>();
+    for (const record of this.jobs.get(rule.target.job)!.records) {
+      const key = decisionKey(record);
+      if (!targets.has(key)) targets.set(key, new Set());
+      const set = targets.get(key)!;
+      for (const { value } of selectValues(record.data, rule.target.select)) set.add(value);
+    }
+
+    result.missingTarget = 0;
+    for (const record of this.jobs.get(rule.job)!.records) {
+      const selected = selectAll(record.data, rule.select).filter(({ value }) => !isEmpty(value));
+      if (selected.length === 0) continue;
+
+      const known = targets.get(decisionKey(record));
+      if (!known) {
+        result.missingTarget++;
+        continue;
+      }
+
+      for (const { value, path: location } of selected) {
+        result.checked++;
+        if (known.has(value)) continue;
+
+        const isElement = typeof location[location.length - 1] === 'number';
+        violations.push(this.violation(rule, record, location, value,
+          `${String(value)} not found in ${rule.target.job} (${rule.target.select})`,
+          rule.fix === 'remove-reference'
+            ? { action: isElement ? 'remove' : 'set', file: record.file, path: location, from: value, ...(isElement ? {} : { to: null }) }
+            : undefined
+        ));
+      }
+    }
+    return violations;
+  }
+
+  private checkPrefix(rule: PrefixRule, result: RuleResult): Violation[] {
+    const violations: Violation[] = [];
+    for (const record of this.jobs.get(rule.job)!.records) {
+      const expected = rule.prefix(record.data);
+      for (const { value, path: location } of selectAll(record.data, rule.select)) {
+        if (isEmpty(value)) continue;
+        result.checked++;
+        if (typeof value === 'string' && value.startsWith(expected)) continue;
+
+        // Keep the item sequence: ART-<wrong id>-003 → ART-<decision id>-003
+        const sequence = typeof value === 'string' ? value.match(/-(\d{3,})$/) : null;
+        violations.push(this.violation(rule, record, location, value,
+          `${String(value)} does not start with ${expected}`,
+          rule.fix === 'rebuild-prefix' && sequence
+            ? { action: 'set', file: record.file, path: location, from: value, to: `${expected}${sequence[1]}` }
+            : undefined
+        ));
+      }
+    }
+    return violations;
+  }
+
+  private checkUnique(rule: UniqueRule, result: RuleResult): Violation[] {
+    const violations: Violation[] = [];
+    const firstSeen = new Map<string, { record: JobRecord; path: Array<string | number> }>();
+
+    for (const record of this.jobs.get(rule.job)!.records) {
+      for (const { value, path: location } of selectAll(record.data, rule.select)) {
+        if (isEmpty(value)) continue;
+        result.checked++;
+
+        const key = rule.scope === 'decision' ? `${decisionKey(record)}|${String(value)}` : String(value);
+        const first = firstSeen.get(key);
+        if (!first) {
+          firstSeen.set(key, { record, path: location });
+          continue;
+        }
+        violations.push(this.violation(rule, record, location, value,
+          `${String(value)} already used at ${path.basename(first.record.file)} ${formatPath(first.path)}`
+        ));
+      }
+    }
+    return violations;
+  }
+
+  private violation(
+    rule: IntegrityRule,
+    record: JobRecord,
+    location: Array<string | number>,
+    value: unknown,
+    message: string,
+    fix?: FixAction
+  ): Violation {
+    return {
+      rule: rule.id,
+      severity: rule.severity,
+      job: rule.job,
+      decisionId: record.decisionId,
+      language: record.language,
+      file: record.file,
+      path: formatPath(location),
+      value,
+      message,
+      ...(fix ? { fix } : {}),
+    };
+  }
+
+  // ========================================
+  // LOADING
+  // ========================================
+
+  /**
+   * Load the outputs of a job once
+   *
+   * @returns null when the job has no run directory
+   */
+  private async loadJob(job: string): Promise<{ runDirectory: string; records: JobRecord[] } | null> {
+    if (this.jobs.has(job)) return this.jobs.get(job)!;
+
+    const runDirectory = this.runOverrides[job]
+      ? path.resolve(this.runOverrides[job])
+      : await resolveRunDirectory(this.baseDir, job);
+    if (!runDirectory) {
+      this.jobs.set(job, null);
+      return null;
+    }
+
+    const jsonDirectory = path.join(runDirectory, 'jsons');
+    const files = (await fs.readdir(jsonDirectory)).filter((f) => f.endsWith('.json')).sort();
+    const records: JobRecord[] = [];
+    for (const file of files) {
+      const filePath = path.join(jsonDirectory, file);
+      let data = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      if (job === 'convert-md-to-html') {
+        data = {
+          decision_id: data.decision_id,
+          language: data.language,
+          blockIds: [...String(data.full_html ?? '').matchAll(/data-id="([^"]+)"/g)].map((m) => m[1]),
+        };
+      }
+      records.push({
+        decisionId: data?.decision_id ?? data?.decisionId ?? null,
+        language: data?.language ?? data?.language_metadata ?? null,
+        file: filePath,
+        data,
+      });
+    }
+
+    console.log(`📂 ${job}: ${records.length} outputs (${runDirectory})`);
+    const loaded = { runDirectory, records };
+    this.jobs.set(job, loaded);
+    return loaded;
+  }
+
+  // ========================================
+  // REPORTS AND FIXES
+  // ========================================
+
+  /**
+   * Fix plan of a report: one action per violation with an auto-fix
+   */
+  static buildFixPlan(report: IntegrityReport): FixPlan {
+    return {
+      generatedAt: new Date().toISOString(),
+      actions: report.violations
+        .filter((v): v is Violation & { fix: FixAction } => v.fix !== undefined)
+        .map((v) => ({ rule: v.rule, ...v.fix })),
+    };
+  }
+
+  /**
+   * Write integrity-report.json and fix-plan.json
+   *
+   * @returns Paths of the written files
+   */
+  static async writeReport(report: IntegrityReport, outputDir: string): Promise<{ report: string; fixPlan: string }> {
+    await fs.mkdir(outputDir, { recursive: true });
+    const reportPath = path.join(outputDir, 'integrity-report.json');
+    const fixPlanPath = path.join(outputDir, 'fix-plan.json');
+    await fs.writeFile(reportPath, JSON.stringify(report, null, 2), 'utf-8');
+    await fs.writeFile(fixPlanPath, JSON.stringify(IntegrityChecker.buildFixPlan(report), null, 2), 'utf-8');
+    return { report: reportPath, fixPlan: fixPlanPath };
+  }
+
+  /**
+   * Apply a fix plan to the output JSONs in place
+   *
+   * An action is skipped when the file no longer holds its `from` value at
+   * its path (the file changed since the plan was built). Removals in the
+   * same array run from the highest index down so indexes stay valid.
+   */
+  static async applyFixPlan(plan: FixPlan): Promise<{ files: number; applied: number; skipped: number }> {
+    const byFile = new Map<string, FixAction[]>();
+    for (const action of plan.actions) {
+      if (!byFile.has(action.file)) byFile.set(action.file, []);
+      byFile.get(action.file)!.push(action);
+    }
+
+    let applied = 0;
+    let skipped = 0;
+    for (const [file, actions] of byFile) {
+      const data = JSON.parse(await fs.readFile(file, 'utf-8'));
+      const ordered = [
+        ...actions.filter((a) => a.action === 'set'),
+        ...actions.filter((a) => a.action === 'remove').sort((a, b) => comparePathsDescending(a.path, b.path)),
+      ];
+
+      let changed = false;
+      for (const action of ordered) {
+        const parent = action.path.slice(0, -1).reduce<any>((node, key) => node?.[key], data);
+        const key = action.path[action.path.length - 1];
+        if (parent == null || JSON.stringify(parent[key]) !== JSON.stringify(action.from)) {
+          skipped++;
+          continue;
+        }
+        if (action.action === 'remove' && Array.isArray(parent) && typeof key === 'number') {
+          parent.splice(key, 1);
+        } else {
+          parent[key] = action.to;
+        }
+        applied++;
+        changed = true;
+      }
+
+      if (changed) await fs.writeFile(file, JSON.stringify(data, null, 2), 'utf-8');
+    }
+
+    return { files: byFile.size, applied, skipped };
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function decisionKey(record: JobRecord): string {
+  return `${record.decisionId}|${record.language}`;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+/**
+ * Values at a path such as 'legalTeachings[].citations[].blockId'
+ */
+export function selectValues(data: any, valuePath: ValuePath): SelectedValue[] {
+  let current: SelectedValue[] = [{ value: data, path: [] }];
+  for (const segment of valuePath.split('.')) {
+    const iterate = segment.endsWith('[]');
+    const field = iterate ? segment.slice(0, -2) : segment;
+    const next: SelectedValue[] = [];
+    for (const { value, path: location } of current) {
+      const child = (value as any)?.[field];
+      if (child === undefined) continue;
+      if (!iterate) {
+        next.push({ value: child, path: [...location, field] });
+      } else if (Array.isArray(child)) {
+        child.forEach((item, i) => next.push({ value: item, path: [...location, field, i] }));
+      }
+    }
+    current = next;
+  }
+  return current;
+}
+
+function selectAll(data: any, select: ValuePath | ValuePath[]): SelectedValue[] {
+  return (Array.isArray(select) ? select : [select]).flatMap((p) => selectValues(data, p));
+}
+
+/**
+ * legalTeachings[2].relatedCitedProvisionsId[0]
+ */
+function formatPath(location: Array<string | number>): string {
+  return location.map((key, i) => (typeof key === 'number' ? `[${key}]` : i === 0 ? key : `.${key}`)).join('');
+}
+
+function comparePathsDescending(a: Array<string | number>, b: Array<string | number>): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] === b[i]) continue;
+    if (typeof a[i] === 'number' && typeof b[i] === 'number') return (b[i] as number) - (a[i] as number);
+    return String(b[i]).localeCompare(String(a[i]));
+  }
+  return b.length - a.length;
+}
@@ -0,0 +1,142 @@
+import { IntegrityRule } from './types.js';
+
+/**
+ * Cross-job Integrity Rules
+ *
+ * One entry per invariant we have been bitten by. Adding a check means
+ * adding a rule here, not another script in src/scripts.
+ */
+export const INTEGRITY_RULES: IntegrityRule[] = [
+  // ========================================
+  // ID FORMAT (ID must embed the decision it belongs to)
+  // ========================================
+  {
+    id: 'provision-ids-prefix',
+    kind: 'prefix',
+    description: 'Provision IDs start with ART-/ACT-{decision_id}-',
+    severity: 'error',
+    job: 'extract-provisions-2a',
+    select: 'citedProvisions[].internalProvisionId',
+    prefix: (record) => `ART-${record.decision_id}-`,
+    fix: 'rebuild-prefix',
+  },
+  {
+    id: 'parent-act-ids-prefix',
+    kind: 'prefix',
+    description: 'Parent act IDs start with ACT-{decision_id}-',
+    severity: 'error',
+    job: 'extract-provisions-2a',
+    select: 'citedProvisions[].internalParentActId',
+    prefix: (record) => `ACT-${record.decision_id}-`,
+    fix: 'rebuild-prefix',
+  },
+  ...['map-provisions-standard', 'map-provisions-no-date', 'map-provisions-code'].map((job): IntegrityRule => ({
+    id: `${job}-parent-act-ids-prefix`,
+    kind: 'prefix',
+    description: 'internal_parent_act_id starts with ACT-{decision_id}-',
+    severity: 'error',
+    job,
+    select: 'internal_parent_act_id',
+    prefix: (record) => `ACT-${record.decision_id}-`,
+    fix: 'rebuild-prefix',
+  })),
+  {
+    id: 'teaching-ids-prefix',
+    kind: 'prefix',
+    description: 'Teaching IDs start with TEACH-{decision_id}-',
+    severity: 'error',
+    job: 'extract-legal-teachings',
+    select: 'legalTeachings[].teachingId',
+    prefix: (record) => `TEACH-${record.decision_id}-`,
+    fix: 'rebuild-prefix',
+  },
+
+  // ========================================
+  // UNIQUENESS
+  // ========================================
+  {
+    id: 'teaching-ids-unique',
+    kind: 'unique',
+    description: 'Teaching IDs are globally unique',
+    severity: 'error',
+    job: 'extract-legal-teachings',
+    select: 'legalTeachings[].teachingId',
+    scope: 'global',
+  },
+  {
+    id: 'classified-teaching-ids-unique',
+    kind: 'unique',
+    description: 'Each teaching is classified once',
+    severity: 'warning',
+    job: 'classify-legal-issues',
+    select: 'teaching_id',
+    scope: 'global',
+  },
+  {
+    id: 'provision-ids-unique',
+    kind: 'unique',
+    description: 'Provision IDs are unique within a decision',
+    severity: 'error',
+    job: 'extract-provisions-2a',
+    select: 'citedProvisions[].internalProvisionId',
+    scope: 'decision',
+  },
+
+  // ========================================
+  // REFERENCES ACROSS JOBS (same decision)
+  // ========================================
+  {
+    id: 'teaching-provision-refs',
+    kind: 'reference',
+    description: 'relatedCitedProvisionsId of a teaching exists in the decision’s provisions',
+    severity: 'error',
+    job: 'extract-legal-teachings',
+    select: 'legalTeachings[].relatedCitedProvisionsId[]',
+    target: { job: 'interpret-provisions', select: 'citedProvisions[].internalProvisionId' },
+    fix: 'remove-reference',
+  },
+  {
+    id: 'teaching-decision-refs',
+    kind: 'reference',
+    description: 'relatedCitedDecisionsId of a teaching exists in the decision’s cited decisions',
+    severity: 'error',
+    job: 'extract-legal-teachings',
+    select: 'legalTeachings[].relatedCitedDecisionsId[]',
+    target: { job: 'extract-cited-decisions', select: 'citedDecisions[].internalDecisionId' },
+    fix: 'remove-reference',
+  },
+  {
+    id: 'teaching-hierarchy-refs',
+    kind: 'reference',
+    description: 'Teaching hierarchy references point to teachings of the same decision',
+    severity: 'warning',
+    job: 'extract-legal-teachings',
+    select: [
+      'legalTeachings[].hierarchicalRelationships.refinesParentPrinciple',
+      'legalTeachings[].hierarchicalRelationships.refinedByChildPrinciples[]',
+      'legalTeachings[].hierarchicalRelationships.exceptionToPrinciple',
+      'legalTeachings[].hierarchicalRelationships.exceptedByPrinciples[]',
+      'legalTeachings[].hierarchicalRelationships.conflictsWith[]',
+    ],
+    target: { job: 'extract-legal-teachings', select: 'legalTeachings[].teachingId' },
+    fix: 'remove-reference',
+  },
+  {
+    id: 'teaching-citation-blocks',
+    kind: 'reference',
+    description: 'Teaching citation blockIds exist in the decision’s HTML blocks',
+    severity: 'error',
+    job: 'enrich-teaching-citations',
+    select: 'legalTeachings[].citations[].blockId',
+    target: { job: 'convert-md-to-html', select: 'blockIds[]' },
+  },
+  {
+    id: 'provision-citation-blocks',
+    kind: 'reference',
+    description: 'Provision citation blockIds exist in the decision’s HTML blocks',
+    severity: 'error',
+    job: 'enrich-provision-citations',
+    select: 'citedProvisions[].citations[].blockId',
+    target: { job: 'convert-md-to-html', select: 'blockIds[]' },
+  },
+];
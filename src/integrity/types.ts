@@ -0,0 +1,118 @@
+/**
+ * Integrity Types
+ *
+ * Declarative cross-job rules checked by IntegrityChecker over full-data
+ * outputs, and the violation report / fix plan it produces.
+ */
+
+export type Severity = 'error' | 'warning';
+
+/**
+ * Path of values in a job output
+ *
+ * Dot-separated fields; `[]` iterates an array, e.g.
+ * 'legalTeachings[].relatedCitedProvisionsId[]' or 'internal_parent_act_id'.
+ */
+export type ValuePath = string;
+
+interface RuleBase {
+  id: string;
+  description: string;
+  severity: Severity;
+  /** Job whose outputs are checked */
+  job: string;
+  /** Values checked (several paths are checked the same way) */
+  select: ValuePath | ValuePath[];
+}
+
+/**
+ * Every selected value must exist among the target values of the same decision
+ */
+export interface ReferenceRule extends RuleBase {
+  kind: 'reference';
+  target: { job: string; select: ValuePath };
+  /** Auto-fix: drop the dangling reference (null for single values) */
+  fix?: 'remove-reference';
+}
+
+/**
+ * Every selected value must start with a prefix built from the record
+ */
+export interface PrefixRule extends RuleBase {
+  kind: 'prefix';
+  /** Expected prefix, e.g. (record) => `ACT-${record.decision_id}-` */
+  prefix: (record: any) => string;
+  /** Auto-fix: keep the trailing -NNN sequence, rebuild the prefix */
+  fix?: 'rebuild-prefix';
+}
+
+/**
+ * Selected values must not repeat, across all decisions or within one
+ */
+export interface UniqueRule extends RuleBase {
+  kind: 'unique';
+  scope: 'global' | 'decision';
+}
+
+export type IntegrityRule = ReferenceRule | PrefixRule | UniqueRule;
+
+/**
+ * Change that resolves a violation, applied by applyFixPlan
+ */
+export interface FixAction {
+  action: 'set' | 'remove';
+  file: string;
+  /** JSON path segments (field names and array indexes) */
+  path: Array<string | number>;
+  from: unknown;
+  /** New value for 'set' */
+  to?: unknown;
+}
+
+export interface Violation {
+  rule: string;
+  severity: Severity;
+  job: string;
+  decisionId: string | null;
+  language: string | null;
+  file: string;
+  /** Location in the output, e.g. legalTeachings[2].relatedCitedProvisionsId[0] */
+  path: string;
+  value: unknown;
+  message: string;
+  fix?: FixAction;
+}
+
+export interface RuleResult {
+  id: string;
+  description: string;
+  severity: Severity;
+  checked: number;
+  violations: number;
+  /** Reference rules: checked outputs whose decision has no target output */
+  missingTarget?: number;
+  /** Why the rule was not run (a job without outputs) */
+  skipped?: string;
+}
+
+/**
+ * Machine-readable integrity report (integrity-report.json)
+ */
+export interface IntegrityReport {
+  generatedAt: string;
+  /** Run directory used per job */
+  runs: Record<string, string>;
+  rules: RuleResult[];
+  totalViolations: number;
+  errors: number;
+  warnings: number;
+  violations: Violation[];
+}
+
+/**
+ * Auto-fix plan (fix-plan.json): one action per fixable violation
+ */
+export interface FixPlan {
+  generatedAt: string;
+  actions: Array<FixAction & { rule: string }>;
+}
@@ -1,3 +1,8 @@
+import { PromptSchemaVersion } from '../utils/versioning.js';
+import { SelfConsistencyConfig } from '../core/SelfConsistency.js';
+import { ChunkingConfig } from '../core/Chunking.js';
+import { RetryPolicyOverrides } from '../utils/failureTriage.js';
+
 /**
  * Job Dependency
  *
@@ -170,16 +175,19 @@ export interface JobConfig {
 
   /**
    * Batch provider to use for this job
-   * Options: 'azure' | 'openai' | 'anthropic'
+   * Options: 'azure' | 'openai' | 'anthropic' | 'mock'
+   *
+   * For batch mode: 'azure', 'openai' or 'mock' (uses Batch API)
+   * For concurrent mode: 'openai', 'anthropic' or 'mock' (uses direct API)
    *
-   * For batch mode: 'azure' or 'openai' (uses Batch API)
-   * For concurrent mode: 'openai' or 'anthropic' (uses direct API)
+   * 'mock' serves fixture or schema-synthesized responses offline
+   * (see MockResponseStore). LLM_PROVIDER=mock forces it for every job.
    *
    * If not specified, falls back to:
    * 1. BATCH_PROVIDER environment variable
    * 2. Default: 'azure' (batch) or 'openai' (concurrent)
    */
-  provider?: 'azure' | 'openai' | 'anthropic';
+  provider?: 'azure' | 'openai' | 'anthropic' | 'mock';
 
   /**
    * OpenAI provider selection
@@ -336,6 +344,14 @@ export interface JobConfig {
    */
   dependencies?: JobDependency[];
 
+  /**
+   * Upstream runs this job reads outside `dependencies` (run IDs such as
+   * 'interpret-provisions/2025-10-13T12-00-00-000Z'), recorded as the
+   * inputs of each run in the run registry. Jobs that load full-data
+   * outputs themselves resolve them with `resolveInputRun`.
+   */
+  inputRuns?: string[];
+
   /**
    * Desired concurrency limit when running via the concurrent pipeline.
    * Overrides the default runner limit when provided.
@@ -393,6 +409,125 @@ export interface JobConfig {
    */
   useFullDataPipeline?: boolean;
 
+  /**
+   * Explicit prompt version label
+   *
+   * Replaces the computed prompt hash in the version stamped into results
+   * (see computeJobVersion) and in change-detection fingerprints. Leave
+   * unset to version prompts automatically. Set it when prompt assembly
+   * changes in code, which the computed hash does not see.
+   */
+  promptVersion?: string;
+
+  /**
+   * Extra prompt texts to include in the prompt hash
+   *
+   * For customExecution jobs whose prompts live in other modules
+   * (e.g. two-stage executors), so editing them changes the version.
+   */
+  versionedPrompts?: string[];
+
+  /**
+   * Row fields hashed as input content for change detection
+   *
+   * Default: ['full_md'] when the row has it, otherwise all row fields.
+   * Used by `concurrent <job> --only-changed`.
+   */
+  changeDetectionFields?: string[];
+
+  /**
+   * Budget: maximum spend in USD for one run
+   *
+   * Concurrent runs price every response from its usage (see PricingConfig)
+   * and stop starting API calls once the budget is crossed. Batch
+   * submissions are refused when the estimated cost exceeds it.
+   * Overridden by `concurrent <job> --max-cost`.
+   */
+  maxCostUsd?: number;
+
+  /**
+   * Budget: maximum tokens (prompt + completion) for one run
+   * Overridden by `concurrent <job> --max-tokens`.
+   */
+  maxTokens?: number;
+
+  /**
+   * What to do when the budget is crossed
+   * - 'pause': persist results, write budget-stop.json, exit cleanly (default)
+   * - 'abort': same, but the run fails
+   */
+  onBudgetExceeded?: 'pause' | 'abort';
+
+  /**
+   * Structured-output repair attempts per row (concurrent runs)
+   *
+   * When a completion is truncated, is not valid JSON or violates
+   * outputSchema, the same model gets its output back with the Ajv errors
+   * and is asked to fix it, up to this many times. Repaired and failed rows
+   * are counted in summary.json (`repairs`). Not applied to customExecution.
+   *
+   * Overridden by `concurrent <job> --repair-attempts`; 0 disables repair.
+   * Optional - defaults to 2
+   */
+  repairAttempts?: number;
+
+  /**
+   * Remedy per failure class when failed rows are retried
+   *
+   * `retry <job> <timestamp>` classifies failures (rate limit, timeout,
+   * context overflow, truncated, schema violation, JSON parse, empty output,
+   * refusal) and retries each class with its remedy: plain retry, escalate
+   * to `escalationModel`, raise maxCompletionTokens, route to chunking, or
+   * manual review (not re-sent). Merged over the defaults in
+   * src/utils/failureTriage.ts; `retry --remedy` overrides both.
+   *
+   * @example
+   * retryPolicy: {
+   *   escalationModel: 'gpt-5',
+   *   remedies: { schema_violation: 'escalate-model', empty_output: 'retry' },
+   * }
+   */
+  retryPolicy?: RetryPolicyOverrides;
+
+  /**
+   * Map-reduce execution for decisions that overflow the context window
+   * (concurrent runs)
+   *
+   * Rows whose prompt is estimated above `maxInputTokens` are split into
+   * overlapping chunks along the decision structure (facts, pleas,
+   * reasoning, dispositif). The job runs once per chunk with the chunk in
+   * place of `textField`, and `reduce` merges the chunk outputs into one
+   * output (see src/core/Chunking.ts). Also applies to customExecution.
+   *
+   * @example
+   * chunking: {
+   *   maxInputTokens: 200000,
+   *   reduce: (outputs, row) => reduceProvisionChunks(outputs),
+   * }
+   */
+  chunking?: ChunkingConfig;
+
+  /**
+   * Self-consistency voting (concurrent runs)
+   *
+   * Samples each row `samples` times (round-robin over `models`) and
+   * reconciles the outputs: entity arrays are aligned by key or text
+   * similarity, each item gets an agreement score, and low-agreement items
+   * are routed to mandatory_review. The report is written into each result
+   * as `selfConsistency` (see src/core/SelfConsistency.ts).
+   *
+   * Overridden by `concurrent <job> --samples`; samples: 1 declares the
+   * alignment without paying for extra calls.
+   *
+   * @example
+   * selfConsistency: {
+   *   samples: 3,
+   *   models: ['gpt-5-mini', 'gpt-5.2'],
+   *   arrays: [{ path: 'legalTeachings', textField: 'text' }],
+   * }
+   */
+  selfConsistency?: SelfConsistencyConfig;
+
   /**
    * Custom output directory override (internal use)
    *
@@ -488,6 +623,9 @@ export interface JobMetadata {
   /** Number of records that failed */
   recordsFailed?: number;
 
+  /** Prompt/schema version the batch was generated with */
+  promptSchemaVersion?: PromptSchemaVersion;
+
   /** Array of error messages */
   errors: string[];
 
@@ -18,6 +18,7 @@
  */
 
 import { JobConfig } from '../JobConfig.js';
+import { resolveInputRun, runId } from '../../lineage/RunRegistry.js';
 import { classifyLegalIssuesSchema, SCHEMA_NAME } from './schema.js';
 import {
   TeachingInput,
@@ -26,29 +27,19 @@ import {
   runStage3WithRetry,
 } from './stages.js';
 import { buildFinalClassification, validateClassification } from './validation.js';
+import {
+  STAGE1_SYSTEM_PROMPT,
+  STAGE2_SYSTEM_PROMPT,
+  STAGE3_SYSTEM_PROMPT,
+  buildStage1UserPrompt,
+  buildStage2UserPrompt,
+  buildStage3UserPrompt,
+  buildStage3RetryPrompt,
+} from './prompts.js';
 import { OpenAIConcurrentClient } from '../../concurrent/OpenAIConcurrentClient.js';
 import fs from 'fs';
 import path from 'path';
 
-/**
- * Get latest full-data run timestamp for a job
- */
-function getLatestFullDataTimestamp(jobId: string): string | null {
-  const resultsDir = path.join(process.cwd(), 'full-data', jobId);
-
-  if (!fs.existsSync(resultsDir)) {
-    return null;
-  }
-
-  const timestamps = fs
-    .readdirSync(resultsDir)
-    .filter((name) => /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z/.test(name))
-    .sort()
-    .reverse();
-
-  return timestamps[0] || null;
-}
-
 /**
  * Load ALL teachings from extract-legal-teachings full-data
  *
@@ -118,8 +109,8 @@ function loadAllTeachings(timestamp: string): TeachingInput[] {
   return allTeachings;
 }
 
-// Auto-detect latest extract-legal-teachings run
-const LATEST_TEACHINGS_TIMESTAMP = getLatestFullDataTimestamp('extract-legal-teachings');
+// Resolve the extract-legal-teachings run (pinned in the run registry, else latest)
+const LATEST_TEACHINGS_TIMESTAMP = resolveInputRun('extract-legal-teachings');
 
 if (!LATEST_TEACHINGS_TIMESTAMP) {
   throw new Error(
@@ -145,11 +136,46 @@ function getFallbackClient(): OpenAIConcurrentClient {
       model: 'gpt-4.1',
       maxConcurrentApiCalls: 50,
       requestsPerSecond: 20,
+      costTier: 'fallback',
     });
   }
   return fallbackClient;
 }
 
+/**
+ * Render the stage user prompts with placeholder data
+ *
+ * Gives their static text for the prompt version without hashing code.
+ */
+function renderUserPromptTemplates(): string[] {
+  const teaching = {
+    teachingId: '{teachingId}',
+    text: '{text}',
+    courtVerbatim: '{courtVerbatim}',
+    factualTrigger: '{factualTrigger}',
+    principleType: '{principleType}',
+    provisionsContext: '{provisionsContext}',
+  };
+  const stage1 = {
+    legal_concepts: ['{legalConcept}'],
+    candidate_topics: [
+      { topic_id: '{topicId}', topic_name: '{topicName}', reasoning: '{reasoning}', retrieval_queries: ['{query}'] },
+    ],
+    candidate_issue_types: [
+      { issue_type_id: '{issueTypeId}', issue_type_name: '{issueTypeName}', reasoning: '{reasoning}', engagement_level: '{engagementLevel}' },
+    ],
+  };
+  const stage2 = { topic_set: [{ topic_id: '{topicId}', topic_name: '{topicName}' }] };
+  const previousOutput = { issue_type_set: [{ issue_type_id: '{issueTypeId}', issue_type_name: '{issueTypeName}' }] };
+
+  return [
+    buildStage1UserPrompt(teaching),
+    buildStage2UserPrompt(teaching, stage1),
+    buildStage3UserPrompt(teaching, stage1, stage2),
+    buildStage3RetryPrompt(teaching, stage1, stage2, previousOutput, ['{validationError}']),
+  ];
+}
+
 const config: JobConfig = {
   id: 'classify-legal-issues',
 
@@ -161,6 +187,9 @@ const config: JobConfig = {
    */
   dependencies: [],
 
+  /** Full-data runs loaded above (recorded in the run registry) */
+  inputRuns: [runId('extract-legal-teachings', LATEST_TEACHINGS_TIMESTAMP)],
+
   /**
    * Static Rows (no database needed)
    *
@@ -244,6 +273,16 @@ const config: JobConfig = {
     };
   },
 
+  /**
+   * Stage prompts live in prompts.ts; include them in the prompt version
+   */
+  versionedPrompts: [
+    STAGE1_SYSTEM_PROMPT,
+    STAGE2_SYSTEM_PROMPT,
+    STAGE3_SYSTEM_PROMPT,
+    ...renderUserPromptTemplates(),
+  ],
+
   /**
    * Output JSON Schema
    */
@@ -265,6 +304,24 @@ const config: JobConfig = {
   model: 'gpt-5-mini',
   reasoningEffort: 'low',
 
+  /**
+   * Self-Consistency Voting
+   *
+   * Off by default (1 sample). With `--samples 3`, each teaching is
+   * classified three times: the majority issue key wins, topics and issue
+   * types are scored per sample, and review_tier is raised when samples
+   * disagree.
+   */
+  selfConsistency: {
+    samples: 1,
+    voteFields: ['classification.issue_key'],
+    arrays: [
+      { path: 'classification.topic_set' },
+      { path: 'classification.issue_type_set' },
+    ],
+    reviewTierField: 'review_tier',
+  },
+
   /**
    * Concurrency Configuration
    *
@@ -1,26 +1,9 @@
 import { JobConfig } from "../JobConfig.js";
+import { resolveInputRun, runId } from "../../lineage/RunRegistry.js";
 import { ReferenceExtractorN8N } from "../../utils/referenceExtractorN8N.js";
 import fs from "fs";
 import path from "path";
 
-/**
- * Get latest full-data run timestamp for a job
- */
-function getLatestFullDataTimestamp(jobId: string): string | null {
-  const resultsDir = path.join(process.cwd(), 'full-data', jobId);
-
-  if (!fs.existsSync(resultsDir)) {
-    return null;
-  }
-
-  const timestamps = fs.readdirSync(resultsDir)
-    .filter(name => /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z$/.test(name))
-    .sort()
-    .reverse();
-
-  return timestamps[0] || null;
-}
-
 /**
  * Load successful provision results from latest concurrent run
  *
@@ -71,8 +54,8 @@ function loadSuccessful2ADecisions(timestamp: string): Array<{ decision_id: stri
   return pairs;
 }
 
-// Auto-detect latest 2A run at module load time (from full-data directory)
-const LATEST_2A_TIMESTAMP_RAW = getLatestFullDataTimestamp('extract-provisions-2a');
+// Resolve the 2A run at module load time (pinned in the run registry, else latest full-data run)
+const LATEST_2A_TIMESTAMP_RAW = resolveInputRun('extract-provisions-2a');
 
 if (!LATEST_2A_TIMESTAMP_RAW) {
   throw new Error('No extract-provisions-2a full-data results found. Please run Agent 2A first with full-data pipeline:\n  npm run dev concurrent extract-provisions-2a');
@@ -186,6 +169,9 @@ const config: JobConfig = {
    */
   dependencies: [],
 
+  /** Full-data runs loaded above (recorded in the run registry) */
+  inputRuns: [runId("extract-provisions-2a", LATEST_2A_TIMESTAMP)],
+
   /**
    * Database Query
    *
@@ -1,4 +1,5 @@
 import { JobConfig } from "../JobConfig.js";
+import { resolveInputRun, runId } from "../../lineage/RunRegistry.js";
 import { ENRICH_TEACHING_CITATIONS_PROMPT } from "./prompt.js";
 import { enrichTeachingCitationsSchema, SCHEMA_NAME } from "./schema.js";
 
@@ -29,24 +30,6 @@ import path from "path";
  * EXECUTION MODE: Full-data pipeline on all decisions with all three dependencies
  */
 
-/**
- * Get latest full-data run timestamp for a job
- */
-function getLatestFullDataTimestamp(jobId: string): string | null {
-  const resultsDir = path.join(process.cwd(), 'full-data', jobId);
-
-  if (!fs.existsSync(resultsDir)) {
-    return null;
-  }
-
-  const timestamps = fs.readdirSync(resultsDir)
-    .filter(name => /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z/.test(name))
-    .sort()
-    .reverse();
-
-  return timestamps[0] || null;
-}
-
 /**
  * Load successful decisions from latest full-data run
  *
@@ -156,10 +139,10 @@ function loadDependencyData(
   }
 }
 
-// Auto-detect latest runs for all three dependencies at module load time
-const LATEST_5A_TIMESTAMP_RAW = getLatestFullDataTimestamp('extract-legal-teachings');
-const LATEST_2C_TIMESTAMP_RAW = getLatestFullDataTimestamp('interpret-provisions');
-const LATEST_3_TIMESTAMP_RAW = getLatestFullDataTimestamp('extract-cited-decisions');
+// Resolve the runs of all three dependencies at module load time (pinned in the run registry, else latest)
+const LATEST_5A_TIMESTAMP_RAW = resolveInputRun('extract-legal-teachings');
+const LATEST_2C_TIMESTAMP_RAW = resolveInputRun('interpret-provisions');
+const LATEST_3_TIMESTAMP_RAW = resolveInputRun('extract-cited-decisions');
 
 if (!LATEST_5A_TIMESTAMP_RAW) {
   throw new Error('No extract-legal-teachings full-data results found. Please run Agent 5A first with full-data pipeline:\n  npm run dev concurrent extract-legal-teachings');
@@ -281,6 +264,13 @@ const config: JobConfig = {
    */
   dependencies: [],
 
+  /** Full-data runs loaded above (recorded in the run registry) */
+  inputRuns: [
+    runId("extract-legal-teachings", LATEST_5A_TIMESTAMP),
+    runId("interpret-provisions", LATEST_2C_TIMESTAMP),
+    runId("extract-cited-decisions", LATEST_3_TIMESTAMP),
+  ],
+
   /**
    * Database Query
    *
@@ -1,5 +1,6 @@
 import { JobConfig } from "../JobConfig.js";
 import { executeTwoStageExtraction } from "./two-stage-executor.js";
+import { STAGE_2_PARSING_PROMPT } from "./stage2-prompt.js";
 
 /**
  * Helper: Extract decision date from ECLI code
@@ -208,6 +209,13 @@ const config: JobConfig = {
     return result;
   },
 
+  /**
+   * Stage prompts live in the executor modules; include them in the prompt version
+   */
+  versionedPrompts: [
+    STAGE_2_PARSING_PROMPT,
+  ],
+
   /**
    * Post-Processing: Filter Self-Citations & Construct IDs
    *
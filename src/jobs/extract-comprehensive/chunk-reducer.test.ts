@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { reduceComprehensiveChunks } from './chunk-reducer.js';
+
+describe('reduceComprehensiveChunks', () => {
+  const reduced = reduceComprehensiveChunks(
+    [
+      {
+        reference: { citationReference: 'Cass., 1 janvier 2020' },
+        parties: [{ id: 'PARTY-1', name: 'SA Belfius' }, { id: 'PARTY-2', name: 'Jean Dupont' }],
+        currentInstance: {
+          facts: 'Le demandeur a conclu un prêt.',
+          requests: [{ partyId: 'PARTY-2', requests: 'Condamner la banque' }],
+          arguments: [{ partyId: 'PARTY-2', argument: 'La banque a manqué à son devoir de conseil' }],
+          courtOrder: 'Partial order',
+          outcome: 'PARTIAL',
+        },
+      },
+      {
+        parties: [{ id: 'PARTY-1', name: 'Jean Dupont' }, { id: 'PARTY-2', name: 'Marie Claes' }],
+        currentInstance: {
+          facts: 'La banque a refusé de payer.',
+          requests: [{ partyId: 'PARTY-1', requests: 'condamner la banque' }],
+          arguments: [{ partyId: 'PARTY-2', argument: 'Intervention volontaire recevable' }],
+          courtOrder: 'Rejette le pourvoi',
+          outcome: 'REJECTED',
+        },
+      },
+    ],
+    { decision_id: 'D1' }
+  );
+
+  it('merges parties by name and renumbers them', () => {
+    assert.deepEqual(reduced.parties.map((p: any) => [p.id, p.name]), [
+      ['PARTY-D1-001', 'SA Belfius'],
+      ['PARTY-D1-002', 'Jean Dupont'],
+      ['PARTY-D1-003', 'Marie Claes'],
+    ]);
+  });
+
+  it('remaps requests and arguments to the merged party IDs', () => {
+    assert.deepEqual(reduced.currentInstance.requests, [{ partyId: 'PARTY-D1-002', requests: 'Condamner la banque' }]);
+    assert.deepEqual(reduced.currentInstance.arguments.map((a: any) => a.partyId), ['PARTY-D1-002', 'PARTY-D1-003']);
+  });
+
+  it('joins facts and takes the dispositif from the last chunk', () => {
+    assert.equal(reduced.currentInstance.facts, 'Le demandeur a conclu un prêt.\n\nLa banque a refusé de payer.');
+    assert.equal(reduced.currentInstance.outcome, 'REJECTED');
+    assert.equal(reduced.reference.citationReference, 'Cass., 1 janvier 2020');
+  });
+});
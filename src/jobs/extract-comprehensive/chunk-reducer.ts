@@ -0,0 +1,51 @@
+import { dedupeByKey, dedupeBySimilarity, normalizeKey, sequenceId } from '../../core/Chunking.js';
+
+/**
+ * Merge chunk outputs of a long decision (JobConfig.chunking)
+ *
+ * - parties: merged by name, renumbered PARTY-{decisionId}-001...; requests
+ *   and arguments are remapped to the merged party IDs
+ * - facts: distinct chunk narratives, in text order
+ * - requests / arguments: concatenated, overlap duplicates dropped
+ * - courtOrder / outcome: from the last chunk (the dispositif closes the decision)
+ * - reference: from the first chunk (the header opens it)
+ */
+export function reduceComprehensiveChunks(outputs: any[], row: any): any {
+  const decisionId = row.decision_id;
+
+  const { items: parties, keptFor } = dedupeByKey<any>(
+    outputs.map((output) => output?.parties ?? []),
+    (party) => normalizeKey(party.name)
+  );
+  const partyIds = new Map(parties.map((party, index) => [party, sequenceId('PARTY', decisionId, index + 1)]));
+
+  // Chunk-local party ID → merged party ID
+  const remap = (chunkIndex: number, partyId: string): string => {
+    const original = (outputs[chunkIndex]?.parties ?? []).find((party: any) => party.id === partyId);
+    return original ? partyIds.get(keptFor[chunkIndex].get(original)!)! : partyId;
+  };
+  const collect = (field: 'requests' | 'arguments') =>
+    outputs.map((output, chunkIndex) =>
+      (output?.currentInstance?.[field] ?? []).map((item: any) => ({ ...item, partyId: remap(chunkIndex, item.partyId) }))
+    );
+
+  const requests = dedupeByKey<any>(collect('requests'), (r) => `${r.partyId}|${normalizeKey(r.requests)}`).items;
+  const args = dedupeBySimilarity<any>(collect('arguments'), (a) => `${a.partyId} ${a.argument}`).items;
+  const facts = dedupeBySimilarity<string>(
+    outputs.map((output) => (output?.currentInstance?.facts ? [output.currentInstance.facts] : [])),
+    (text) => text
+  ).items;
+
+  const last = outputs[outputs.length - 1]?.currentInstance ?? {};
+  return {
+    reference: outputs[0]?.reference,
+    parties: parties.map((party) => ({ ...party, id: partyIds.get(party)! })),
+    currentInstance: {
+      facts: facts.join('\n\n'),
+      requests,
+      arguments: args,
+      courtOrder: last.courtOrder,
+      outcome: last.outcome,
+    },
+  };
+}
@@ -1,5 +1,6 @@
 import { JobConfig } from "../JobConfig.js";
 import { COMPREHENSIVE_PROMPT } from "./prompt.js";
+import { reduceComprehensiveChunks } from "./chunk-reducer.js";
 
 /**
  * Extract Comprehensive Job Configuration - Stage 1
@@ -473,6 +474,16 @@ const config: JobConfig = {
   reasoningEffort: "medium", // Medium reasoning effort
   verbosity: "low", // Low verbosity (valid values: low, medium, high)
 
+  /**
+   * Long-Decision Chunking
+   *
+   * Decisions too long for one prompt are extracted section by section;
+   * parties are merged by name and the dispositif comes from the last chunk.
+   */
+  chunking: {
+    reduce: reduceComprehensiveChunks,
+  },
+
   /**
    * Custom ID prefix
    */
@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { reduceTeachingChunks } from './chunk-reducer.js';
+
+const ROW = { decision_id: 'ECLI:BE:CASS:2020:ARR.1' };
+
+function teaching(teachingId: string, courtVerbatim: string, hierarchy: Record<string, any> = {}): any {
+  return {
+    teachingId,
+    text: courtVerbatim,
+    courtVerbatim,
+    hierarchicalRelationships: {
+      refinesParentPrinciple: null,
+      refinedByChildPrinciples: [],
+      exceptionToPrinciple: null,
+      exceptedByPrinciples: [],
+      conflictsWith: [],
+      ...hierarchy,
+    },
+  };
+}
+
+const PROOF = 'La charge de la preuve incombe au demandeur en responsabilité';
+const EXCEPTION = 'Sauf lorsque la loi prévoit un renversement de la charge de la preuve';
+const DELAY = 'Le délai de prescription court à partir de la connaissance du dommage';
+
+describe('reduceTeachingChunks', () => {
+  const reduced = reduceTeachingChunks(
+    [
+      {
+        legalTeachings: [
+          teaching('TEACH-1', PROOF, { exceptedByPrinciples: ['TEACH-2'] }),
+          teaching('TEACH-2', EXCEPTION, { exceptionToPrinciple: 'TEACH-1', conflictsWith: ['TEACH-9'] }),
+        ],
+        metadata: { totalTeachings: 2, teachingTypes: { RULE: 1, EXCEPTION: 1 }, courtLevelDistribution: { CASSATION: 2 } },
+      },
+      {
+        legalTeachings: [teaching('TEACH-1', EXCEPTION), teaching('TEACH-2', DELAY)],
+        metadata: { totalTeachings: 2, teachingTypes: { RULE: 2 }, courtLevelDistribution: { CASSATION: 2 } },
+      },
+    ],
+    ROW
+  );
+
+  it('drops teachings repeated across chunks and renumbers in text order', () => {
+    assert.deepEqual(
+      reduced.legalTeachings.map((t: any) => [t.teachingId, t.courtVerbatim]),
+      [
+        ['TEACH-ECLI:BE:CASS:2020:ARR.1-001', PROOF],
+        ['TEACH-ECLI:BE:CASS:2020:ARR.1-002', EXCEPTION],
+        ['TEACH-ECLI:BE:CASS:2020:ARR.1-003', DELAY],
+      ]
+    );
+  });
+
+  it('remaps hierarchy references within their chunk and drops unknown ones', () => {
+    const [proof, exception] = reduced.legalTeachings;
+    assert.deepEqual(proof.hierarchicalRelationships.exceptedByPrinciples, ['TEACH-ECLI:BE:CASS:2020:ARR.1-002']);
+    assert.equal(exception.hierarchicalRelationships.exceptionToPrinciple, 'TEACH-ECLI:BE:CASS:2020:ARR.1-001');
+    assert.deepEqual(exception.hierarchicalRelationships.conflictsWith, []);
+  });
+
+  it('recomputes totals and sums chunk counts', () => {
+    assert.equal(reduced.metadata.totalTeachings, 3);
+    assert.deepEqual(reduced.metadata.teachingTypes, { RULE: 3, EXCEPTION: 1 });
+    assert.deepEqual(reduced.metadata.hierarchicalRelationships, { parentChildPairs: 0, ruleExceptionPairs: 1, conflicts: 0 });
+  });
+});
@@ -0,0 +1,75 @@
+import { dedupeBySimilarity, sequenceId } from '../../core/Chunking.js';
+
+const HIERARCHY_REFS = ['refinesParentPrinciple', 'exceptionToPrinciple'] as const;
+const HIERARCHY_LISTS = ['refinedByChildPrinciples', 'exceptedByPrinciples', 'conflictsWith'] as const;
+
+/**
+ * Merge chunk outputs of a long decision (JobConfig.chunking)
+ *
+ * Teachings repeated across chunks (overlap, or restated reasoning) are kept
+ * once, matched on courtVerbatim. teachingIds are renumbered
+ * TEACH-{decisionId}-001... in text order and hierarchy references are
+ * remapped within their chunk (a reference to an ID the chunk does not
+ * contain is dropped).
+ *
+ * metadata comes from the first chunk, with totalTeachings and the
+ * hierarchy counts recomputed; teachingTypes and court-level counts are
+ * summed over chunks (approximate when duplicates were dropped).
+ */
+export function reduceTeachingChunks(outputs: any[], row: any): any {
+  const decisionId = row.decision_id;
+
+  const { items, keptFor } = dedupeBySimilarity<any>(
+    outputs.map((output) => output?.legalTeachings ?? []),
+    (teaching) => teaching.courtVerbatim || teaching.text
+  );
+  const newIds = new Map(items.map((teaching, index) => [teaching, sequenceId('TEACH', decisionId, index + 1)]));
+
+  // Old teachingId → new teachingId, per chunk (IDs restart in every chunk)
+  const idMaps = outputs.map((output, chunkIndex) => {
+    const ids = new Map<string, string>();
+    for (const teaching of output?.legalTeachings ?? []) {
+      ids.set(teaching.teachingId, newIds.get(keptFor[chunkIndex].get(teaching)!)!);
+    }
+    return ids;
+  });
+
+  const legalTeachings = items.map((teaching) => {
+    const chunkIndex = keptFor.findIndex((mapping) => mapping.has(teaching));
+    const ids = idMaps[chunkIndex];
+    const hierarchy = { ...teaching.hierarchicalRelationships };
+    for (const field of HIERARCHY_REFS) {
+      hierarchy[field] = hierarchy[field] ? ids.get(hierarchy[field]) ?? null : null;
+    }
+    for (const field of HIERARCHY_LISTS) {
+      hierarchy[field] = [...new Set((hierarchy[field] ?? []).flatMap((id: string) => (ids.has(id) ? [ids.get(id)!] : [])))];
+    }
+    return { ...teaching, teachingId: newIds.get(teaching)!, hierarchicalRelationships: hierarchy };
+  });
+
+  const sumCounts = (pick: (metadata: any) => Record<string, number> | undefined) => {
+    const total: Record<string, number> = {};
+    for (const output of outputs) {
+      for (const [key, value] of Object.entries(pick(output?.metadata) ?? {})) {
+        total[key] = (total[key] ?? 0) + value;
+      }
+    }
+    return total;
+  };
+
+  const metadata = {
+    ...outputs[0]?.metadata,
+    totalTeachings: legalTeachings.length,
+    teachingTypes: sumCounts((m) => m?.teachingTypes),
+    courtLevelDistribution: sumCounts((m) => m?.courtLevelDistribution),
+    hierarchicalRelationships: {
+      parentChildPairs: legalTeachings.filter((t) => t.hierarchicalRelationships.refinesParentPrinciple).length,
+      ruleExceptionPairs: legalTeachings.filter((t) => t.hierarchicalRelationships.exceptionToPrinciple).length,
+      conflicts: Math.floor(
+        legalTeachings.reduce((sum, t) => sum + t.hierarchicalRelationships.conflictsWith.length, 0) / 2
+      ),
+    },
+  };
+
+  return { ...outputs[0], legalTeachings, metadata };
+}
@@ -1,26 +1,10 @@
 import { JobConfig } from "../JobConfig.js";
+import { resolveInputRun, runId } from "../../lineage/RunRegistry.js";
 import { EXTRACT_LEGAL_TEACHINGS_PROMPT } from "./prompt.js";
+import { reduceTeachingChunks } from "./chunk-reducer.js";
 import fs from "fs";
 import path from "path";
 
-/**
- * Get latest full-data run timestamp for a job
- */
-function getLatestFullDataTimestamp(jobId: string): string | null {
-  const resultsDir = path.join(process.cwd(), 'full-data', jobId);
-
-  if (!fs.existsSync(resultsDir)) {
-    return null;
-  }
-
-  const timestamps = fs.readdirSync(resultsDir)
-    .filter(name => /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z/.test(name))
-    .sort()
-    .reverse();
-
-  return timestamps[0] || null;
-}
-
 /**
  * Load successful decisions from latest full-data run
  *
@@ -130,9 +114,9 @@ function loadDependencyData(
   }
 }
 
-// Auto-detect latest runs for both dependencies at module load time
-const LATEST_2C_TIMESTAMP_RAW = getLatestFullDataTimestamp('interpret-provisions');
-const LATEST_3_TIMESTAMP_RAW = getLatestFullDataTimestamp('extract-cited-decisions');
+// Resolve the runs of both dependencies at module load time (pinned in the run registry, else latest)
+const LATEST_2C_TIMESTAMP_RAW = resolveInputRun('interpret-provisions');
+const LATEST_3_TIMESTAMP_RAW = resolveInputRun('extract-cited-decisions');
 
 if (!LATEST_2C_TIMESTAMP_RAW) {
   throw new Error('No interpret-provisions full-data results found. Please run Agent 2C first with full-data pipeline:\n  npm run dev concurrent interpret-provisions');
@@ -219,6 +203,12 @@ const config: JobConfig = {
    */
   dependencies: [],
 
+  /** Full-data runs loaded above (recorded in the run registry) */
+  inputRuns: [
+    runId("interpret-provisions", LATEST_2C_TIMESTAMP),
+    runId("extract-cited-decisions", LATEST_3_TIMESTAMP),
+  ],
+
   /**
    * Database Query
    *
@@ -737,6 +727,30 @@ const config: JobConfig = {
   reasoningEffort: "medium",
   verbosity: "low",
 
+  /**
+   * Self-Consistency Voting
+   *
+   * Off by default (1 sample). With `--samples 3`, each decision is
+   * extracted three times; teachings are aligned by text (teachingIds are
+   * numbered per sample). Each teaching gets a reviewTier from its agreement
+   * across samples, added after schema validation (the model never sees it);
+   * teachings missing from other samples get mandatory_review.
+   */
+  selfConsistency: {
+    samples: 1,
+    arrays: [{ path: "legalTeachings", textField: "text", reviewTierField: "reviewTier" }],
+  },
+
+  /**
+   * Long-Decision Chunking
+   *
+   * Decisions too long for one prompt are extracted section by section;
+   * chunk teachings are deduplicated and teachingIds renumbered.
+   */
+  chunking: {
+    reduce: reduceTeachingChunks,
+  },
+
   /**
    * Concurrency Configuration
    *
@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { reduceProvisionChunks } from './chunk-reducer.js';
+
+function provision(provisionNumber: string, parentActName: string, extra: Record<string, any> = {}): any {
+  return { provisionNumber, parentActName, parentActType: 'CODE', parentActDate: null, parentActNumber: null, ...extra };
+}
+
+describe('reduceProvisionChunks', () => {
+  it('keeps provisions cited in several chunks once and renumbers sequences', () => {
+    const reduced = reduceProvisionChunks([
+      { decisionId: 'D1', citedProvisions: [provision('article 1382', 'Code civil'), provision('article 6', 'Code judiciaire')] },
+      { decisionId: 'D1', citedProvisions: [provision('Article 1382', 'code civil'), provision('article 1383', 'Code civil')] },
+    ]);
+
+    assert.equal(reduced.decisionId, 'D1');
+    assert.deepEqual(
+      reduced.citedProvisions.map((p: any) => [p.provisionNumber, p.provisionSequence, p.parentActSequence]),
+      [
+        ['article 1382', 1, 1],
+        ['article 6', 2, 2],
+        ['article 1383', 3, 1],
+      ]
+    );
+  });
+
+  it('keys acts by number when one is cited', () => {
+    const reduced = reduceProvisionChunks([
+      { citedProvisions: [provision('article 2', 'Loi du 10 mai 2007', { parentActNumber: '2007002098' })] },
+      { citedProvisions: [provision('article 2', 'Loi anti-discrimination', { parentActNumber: '2007002098' })] },
+    ]);
+    assert.equal(reduced.citedProvisions.length, 1);
+  });
+
+  it('prefers the normalized provision key', () => {
+    const reduced = reduceProvisionChunks([
+      { citedProvisions: [provision('art. 1382', 'Code civil', { provisionNumberKey: '1382' })] },
+      { citedProvisions: [provision('article 1382', 'Code civil', { provisionNumberKey: '1382' })] },
+    ]);
+    assert.equal(reduced.citedProvisions.length, 1);
+  });
+});
@@ -0,0 +1,35 @@
+import { dedupeByKey, normalizeKey } from '../../core/Chunking.js';
+
+/**
+ * Merge chunk outputs of a long decision (JobConfig.chunking)
+ *
+ * Provisions cited in several chunks (or in the overlap between two) are
+ * kept once, keyed by parent act and provision number. Sequences are
+ * renumbered across chunks so postProcessRow builds unique ART-/ACT- IDs:
+ * provisionSequence in text order, parentActSequence shared by all
+ * provisions of the same act.
+ */
+export function reduceProvisionChunks(outputs: any[]): any {
+  const actKey = (provision: any): string =>
+    provision.parentActNumber
+      ? `number:${normalizeKey(provision.parentActNumber)}`
+      : [provision.parentActType, provision.parentActName, provision.parentActDate].map(normalizeKey).join('|');
+
+  const { items } = dedupeByKey<any>(
+    outputs.map((output) => output?.citedProvisions ?? []),
+    (provision) => `${actKey(provision)}|${normalizeKey(provision.provisionNumberKey ?? provision.provisionNumber)}`
+  );
+
+  const actSequences = new Map<string, number>();
+  const citedProvisions = items.map((provision, index) => {
+    const key = actKey(provision);
+    if (!actSequences.has(key)) actSequences.set(key, actSequences.size + 1);
+    return {
+      ...provision,
+      provisionSequence: index + 1,
+      parentActSequence: actSequences.get(key)!,
+    };
+  });
+
+  return { ...outputs[0], citedProvisions };
+}
@@ -1,5 +1,8 @@
 import { JobConfig } from "../JobConfig.js";
 import { executeTwoStageExtraction } from "./two-stage-executor.js";
+import { STAGE_1_AGENTIC_SNIPPETS_PROMPT } from "./stage1-prompt.js";
+import { STAGE_2_PARSING_PROMPT } from "./stage2-prompt.js";
+import { reduceProvisionChunks } from "./chunk-reducer.js";
 
 /**
  * Extract Provisions 2A Job Configuration - TWO-STAGE AGENTIC SNIPPET ARCHITECTURE
@@ -172,6 +175,14 @@ const config: JobConfig = {
     return result;
   },
 
+  /**
+   * Stage prompts live in the executor modules; include them in the prompt version
+   */
+  versionedPrompts: [
+    STAGE_1_AGENTIC_SNIPPETS_PROMPT,
+    STAGE_2_PARSING_PROMPT,
+  ],
+
   /**
    * Post-Processing: Construct IDs from Sequences
    *
@@ -401,6 +412,16 @@ const config: JobConfig = {
   provider: "openai",
   model: "gpt-5-mini",
   maxCompletionTokens: 128000, // Full text processing requires more tokens
+  /**
+   * Long-Decision Chunking
+   *
+   * Both stages run per chunk; provisions are deduplicated by act and
+   * article before postProcessRow builds the IDs.
+   */
+  chunking: {
+    reduce: reduceProvisionChunks,
+  },
+
   /**
    * Custom ID prefix
    */
@@ -1,26 +1,9 @@
 import { JobConfig } from "../JobConfig.js";
+import { resolveInputRun, runId } from "../../lineage/RunRegistry.js";
 import { INTERPRET_PROVISIONS_PROMPT } from "./prompt.js";
 import fs from "fs";
 import path from "path";
 
-/**
- * Get latest full-data run timestamp for a job
- */
-function getLatestFullDataTimestamp(jobId: string): string | null {
-  const resultsDir = path.join(process.cwd(), 'full-data', jobId);
-
-  if (!fs.existsSync(resultsDir)) {
-    return null;
-  }
-
-  const timestamps = fs.readdirSync(resultsDir)
-    .filter(name => /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z$/.test(name))
-    .sort()
-    .reverse();
-
-  return timestamps[0] || null;
-}
-
 /**
  * Load successful enriched provision results from latest full-data run
  *
@@ -125,8 +108,8 @@ function load2BData(decisionId: string, language: string): any {
   }
 }
 
-// Auto-detect latest 2B run at module load time (from full-data directory)
-const LATEST_2B_TIMESTAMP_RAW = getLatestFullDataTimestamp('enrich-provisions');
+// Resolve the 2B run at module load time (pinned in the run registry, else latest full-data run)
+const LATEST_2B_TIMESTAMP_RAW = resolveInputRun('enrich-provisions');
 
 if (!LATEST_2B_TIMESTAMP_RAW) {
   throw new Error('No enrich-provisions full-data results found. Please run Agent 2B first with full-data pipeline:\n  npm run dev concurrent enrich-provisions');
@@ -179,6 +162,9 @@ const config: JobConfig = {
    */
   dependencies: [],
 
+  /** Full-data runs loaded above (recorded in the run registry) */
+  inputRuns: [runId("enrich-provisions", LATEST_2B_TIMESTAMP)],
+
   /**
    * Database Query
    *
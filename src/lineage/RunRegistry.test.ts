@@ -0,0 +1,123 @@
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { acquireLock, resolveRunDirectory, RunRegistry, runId } from './RunRegistry.js';
+
+describe('runId', () => {
+  it('keeps the path below the job folder', () => {
+    assert.equal(runId('extract-comprehensive', 'full-data/extract-comprehensive/2025-10-25T06-02-48-674Z'),
+      'extract-comprehensive/2025-10-25T06-02-48-674Z');
+    assert.equal(runId('extract-comprehensive', 'concurrent/results/extract-comprehensive/gpt-5-mini/2025-10-25T06-02-48-674Z/'),
+      'extract-comprehensive/gpt-5-mini/2025-10-25T06-02-48-674Z');
+  });
+
+  it('falls back to the directory name outside a job folder', () => {
+    assert.equal(runId('extract-comprehensive', '/tmp/2025-10-25T06-02-48-674Z'), 'extract-comprehensive/2025-10-25T06-02-48-674Z');
+  });
+});
+
+describe('registry files', () => {
+  let root: string;
+
+  before(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'run-registry-'));
+  });
+
+  after(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  describe('acquireLock', () => {
+    it('waits for the holder to release', async () => {
+      const lockFile = path.join(root, 'wait.lock');
+      const order: string[] = [];
+      const release = await acquireLock(lockFile);
+      const second = acquireLock(lockFile).then((releaseSecond) => {
+        order.push('second');
+        return releaseSecond();
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      order.push('first');
+      await release();
+      await second;
+      assert.deepEqual(order, ['first', 'second']);
+      await assert.rejects(fs.access(lockFile));
+    });
+
+    it('takes over a stale lock', async () => {
+      const lockFile = path.join(root, 'stale.lock');
+      await fs.writeFile(lockFile, '999999 crashed', 'utf-8');
+      const old = new Date(Date.now() - 60_000);
+      await fs.utimes(lockFile, old, old);
+
+      const release = await acquireLock(lockFile);
+      assert.match(await fs.readFile(lockFile, 'utf-8'), new RegExp(`^${process.pid} `));
+      await release();
+    });
+
+    it('refreshes the lock while held', async () => {
+      const lockFile = path.join(root, 'heartbeat.lock');
+      const release = await acquireLock(lockFile, 300);
+      await new Promise((resolve) => setTimeout(resolve, 600));
+      const { mtimeMs } = await fs.stat(lockFile);
+      assert.ok(Date.now() - mtimeMs < 300);
+      await release();
+    });
+
+    it('does not remove a lock taken over by another process', async () => {
+      const lockFile = path.join(root, 'stolen.lock');
+      const release = await acquireLock(lockFile);
+      await fs.writeFile(lockFile, '123 other', 'utf-8');
+      await release();
+      assert.equal(await fs.readFile(lockFile, 'utf-8'), '123 other');
+    });
+  });
+
+  it('keeps every record of concurrent updates', async () => {
+    const file = path.join(root, 'run-registry.json');
+    await Promise.all(['a', 'b', 'c'].map((job) =>
+      RunRegistry.update((registry) => {
+        registry.register({ jobId: job, kind: 'full-data', directory: path.join(root, job, '2025-10-25T06-02-48-674Z') });
+      }, file)
+    ));
+    assert.deepEqual(RunRegistry.load(file).list().map((r) => r.jobId).sort(), ['a', 'b', 'c']);
+  });
+
+  describe('resolveRunDirectory', () => {
+    const baseDir = () => path.join(root, 'full-data');
+    const jobDir = () => path.join(baseDir(), 'extract-comprehensive');
+
+    before(async () => {
+      for (const name of ['2025-01-01T00-00-00-000Z', '2025-02-01T00-00-00-000Z', '2025-02-01T00-00-00-000Z-retry-1']) {
+        await fs.mkdir(path.join(jobDir(), name, 'jsons'), { recursive: true });
+      }
+      await fs.mkdir(path.join(jobDir(), '2025-03-01T00-00-00-000Z'));
+    });
+
+    it('takes the newest run with outputs, skipping retries', async () => {
+      const registry = RunRegistry.load(path.join(root, 'empty-registry.json'));
+      assert.equal(
+        await resolveRunDirectory(baseDir(), 'extract-comprehensive', registry),
+        path.join(jobDir(), '2025-02-01T00-00-00-000Z')
+      );
+      assert.equal(await resolveRunDirectory(baseDir(), 'unknown-job', registry), null);
+    });
+
+    it('prefers the pinned run', async () => {
+      const registry = RunRegistry.load(path.join(root, 'pinned-registry.json'));
+      const record = registry.register({
+        jobId: 'extract-comprehensive',
+        kind: 'full-data',
+        directory: path.join(jobDir(), '2025-01-01T00-00-00-000Z'),
+      });
+      registry.pin(record.id);
+      assert.equal(
+        await resolveRunDirectory(baseDir(), 'extract-comprehensive', registry),
+        path.join(jobDir(), '2025-01-01T00-00-00-000Z')
+      );
+    });
+  });
+});
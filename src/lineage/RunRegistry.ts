@@ -0,0 +1,507 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+import { ConcurrentProcessor } from '../concurrent/ConcurrentProcessor.js';
+import { sha256, stableStringify } from '../utils/hashing.js';
+import { findLatestRun, RUN_DIRECTORY_PATTERN } from '../utils/runDirectories.js';
+import { PromptSchemaVersion } from '../utils/versioning.js';
+import { RegistryFile, RunId, RunKind, RunRecord, RunRegistration, SourceNode } from './types.js';
+
+/**
+ * Default registry location
+ */
+export const RUN_REGISTRY_FILE = path.join('full-data', 'run-registry.json');
+
+/**
+ * Run ID of a result directory (or bare run directory name): the job plus
+ * the directory's path below the job folder, so concurrent runs of
+ * different models with the same timestamp get different IDs
+ * (full-data/<job>/<ts> → <job>/<ts>, concurrent/results/<job>/<model>/<ts>
+ * → <job>/<model>/<ts>)
+ */
+export function runId(jobId: string, directory: string): RunId {
+  const segments = path.normalize(directory).split(/[\\/]/).filter(Boolean);
+  const jobIndex = segments.lastIndexOf(jobId);
+  const below = jobIndex >= 0 && jobIndex < segments.length - 1
+    ? segments.slice(jobIndex + 1)
+    : [path.basename(directory)];
+  return [jobId, ...below].join('/');
+}
+
+/**
+ * Run directory path below the job folder (run ID without the job)
+ */
+export function runPath(id: RunId): string {
+  return id.split('/').slice(1).join('/');
+}
+
+/**
+ * Hash of the settings that shape a run's output
+ *
+ * Execution-only settings (concurrency, pipeline mode, query) are left out,
+ * so a retry with the same model and prompts hashes like its parent run.
+ */
+export function configHash(
+  settings: {
+    provider?: string;
+    model?: string;
+    maxCompletionTokens?: number;
+    temperature?: number;
+    reasoningEffort?: string;
+    verbosity?: string;
+    outputSchemaName?: string;
+  },
+  version?: PromptSchemaVersion | null
+): string {
+  const { provider, model, maxCompletionTokens, temperature, reasoningEffort, verbosity, outputSchemaName } = settings;
+  return sha256(
+    stableStringify({
+      provider,
+      model,
+      maxCompletionTokens,
+      temperature,
+      reasoningEffort,
+      verbosity,
+      outputSchemaName,
+      version: version ?? null,
+    })
+  ).slice(0, 16);
+}
+
+/**
+ * Run Registry
+ *
+ * Records every result directory with the job, config hash and model that
+ * produced it, the upstream runs it consumed, the run it retried and the
+ * retry runs merged back into it. Dependent jobs resolve their inputs
+ * through the registry (`resolveInputRun`) instead of picking the newest
+ * timestamp folder, so a pinned run stays in use until it is unpinned.
+ *
+ * The registry is one JSON file (default: full-data/run-registry.json).
+ * Reads are synchronous because job configs resolve their inputs at module
+ * load; writes go through `update`, which re-reads the file under a lock
+ * file (run-registry.json.lock).
+ */
+export class RunRegistry {
+  readonly file: string;
+  private data: RegistryFile;
+
+  private constructor(file: string, data: RegistryFile) {
+    this.file = file;
+    this.data = data;
+  }
+
+  /**
+   * Load the registry (empty when the file does not exist yet)
+   */
+  static load(file: string = RUN_REGISTRY_FILE): RunRegistry {
+    const resolved = path.resolve(file);
+    if (!fs.existsSync(resolved)) {
+      return new RunRegistry(resolved, { runs: {}, pins: {} });
+    }
+    const data = JSON.parse(fs.readFileSync(resolved, 'utf-8')) as Partial<RegistryFile>;
+    return new RunRegistry(resolved, { runs: data.runs ?? {}, pins: data.pins ?? {} });
+  }
+
+  /**
+   * Load, apply changes and save, holding the registry lock throughout
+   *
+   * Parallel runs (several jobs, or remedy groups of a retry) finish at
+   * the same time; without the lock the last save would drop the others'
+   * records.
+   */
+  static async update(
+    change: (registry: RunRegistry) => void | Promise<void>,
+    file: string = RUN_REGISTRY_FILE
+  ): Promise<RunRegistry> {
+    const release = await acquireLock(`${path.resolve(file)}.lock`);
+    try {
+      const registry = this.load(file);
+      await change(registry);
+      await registry.save();
+      return registry;
+    } finally {
+      await release();
+    }
+  }
+
+  /**
+   * Write the registry (via a temp file, so readers never see half a file)
+   */
+  private async save(): Promise<void> {
+    await fsp.mkdir(path.dirname(this.file), { recursive: true });
+    const temp = `${this.file}.${process.pid}.tmp`;
+    await fsp.writeFile(temp, JSON.stringify(this.data, null, 2), 'utf-8');
+    await fsp.rename(temp, this.file);
+  }
+
+  // ==========================================================================
+  // Recording
+  // ==========================================================================
+
+  /**
+   * Add or update a run
+   *
+   * Registering an existing run keeps its registration time, merge links
+   * and inputs (new inputs are added), and replaces everything else.
+   */
+  register(registration: RunRegistration): RunRecord {
+    const directory = path.relative(process.cwd(), path.resolve(registration.directory)) || '.';
+    const id = runId(registration.jobId, directory);
+    const existing = this.data.runs[id];
+
+    const record: RunRecord = {
+      ...existing,
+      ...registration,
+      id,
+      directory,
+      registeredAt: existing?.registeredAt ?? new Date().toISOString(),
+      inputs: [...new Set([...(existing?.inputs ?? []), ...(registration.inputs ?? [])])],
+      mergeChildren: existing?.mergeChildren ?? [],
+    };
+    this.data.runs[id] = record;
+    return record;
+  }
+
+  /**
+   * Mark a run as the retry of another
+   */
+  linkRetry(retry: RunId, parent: RunId): void {
+    const record = this.require(retry);
+    record.kind = 'retry';
+    record.retryOf = parent;
+  }
+
+  /**
+   * Record that a retry run's outputs were merged into its parent
+   */
+  linkMerge(child: RunId, parent: RunId): void {
+    const childRecord = this.require(child);
+    const parentRecord = this.require(parent);
+    childRecord.mergedInto = parent;
+    parentRecord.mergeChildren = [...parentRecord.mergeChildren.filter((id) => id !== child), child];
+  }
+
+  /**
+   * Make a run the canonical run of its job
+   */
+  pin(id: RunId): RunRecord {
+    const record = this.require(id);
+    if (record.kind === 'retry') {
+      throw new Error(`Cannot pin ${id}: retry runs only hold the retried decisions (merge it into ${record.retryOf} instead)`);
+    }
+    this.data.pins[record.jobId] = id;
+    return record;
+  }
+
+  /**
+   * Go back to "latest registered run" for a job
+   */
+  unpin(jobId: string): boolean {
+    const pinned = jobId in this.data.pins;
+    delete this.data.pins[jobId];
+    return pinned;
+  }
+
+  // ==========================================================================
+  // Queries
+  // ==========================================================================
+
+  get(id: RunId): RunRecord | undefined {
+    return this.data.runs[id];
+  }
+
+  /**
+   * Runs, newest first (optionally of one job)
+   */
+  list(jobId?: string): RunRecord[] {
+    return Object.values(this.data.runs)
+      .filter((record) => !jobId || record.jobId === jobId)
+      .sort((a, b) => path.basename(b.directory).localeCompare(path.basename(a.directory)));
+  }
+
+  pinned(jobId: string): RunId | undefined {
+    return this.data.pins[jobId];
+  }
+
+  /**
+   * Canonical run of a job: the pinned run, else the newest complete
+   * (non-retry) run of the given kinds
+   */
+  canonical(jobId: string, kinds: RunKind[] = ['full-data', 'concurrent', 'batch']): RunRecord | undefined {
+    const pinned = this.data.runs[this.data.pins[jobId]];
+    if (pinned && kinds.includes(pinned.kind)) {
+      return pinned;
+    }
+    return this.list(jobId).find((record) => kinds.includes(record.kind));
+  }
+
+  /**
+   * Runs a run consumed (transitively: the whole upstream graph, nearest first)
+   */
+  upstream(id: RunId, transitive = true): RunId[] {
+    const seen = new Set<RunId>();
+    const queue = [...(this.data.runs[id]?.inputs ?? [])];
+    while (queue.length > 0) {
+      const next = queue.shift()!;
+      if (seen.has(next)) continue;
+      seen.add(next);
+      if (transitive) queue.push(...(this.data.runs[next]?.inputs ?? []));
+    }
+    return [...seen];
+  }
+
+  /**
+   * Registered runs that consumed a run
+   */
+  downstream(id: RunId): RunRecord[] {
+    return this.list().filter((record) => record.inputs.includes(id));
+  }
+
+  /**
+   * Retry runs of a run
+   */
+  retries(id: RunId): RunRecord[] {
+    return this.list().filter((record) => record.retryOf === id);
+  }
+
+  /**
+   * Which runs fed one decision's output
+   *
+   * Starts at `id`. A merged retry child holding the decision's JSON is the
+   * run that actually produced it, since merges override the parent's file.
+   * The same lookup is repeated for every input run, so the tree shows the
+   * producing run of each upstream output for that decision.
+   */
+  sourcesOf(id: RunId, decisionId: string, language: string): SourceNode {
+    const fileName = `${ConcurrentProcessor.generateFileName({}, decisionId, language, '')}.json`;
+    const visit = (current: RunId, trail: Set<RunId>): SourceNode => {
+      const record = this.data.runs[current];
+      if (!record) {
+        return { run: current, jobId: current.split('/')[0], file: null, registered: false, inputs: [] };
+      }
+
+      // Latest merge wins, then the run itself
+      const producers = [...record.mergeChildren].reverse().map((child) => this.data.runs[child]).filter(Boolean);
+      let producer = record;
+      let file: string | null = null;
+      for (const candidate of [...producers, record]) {
+        const candidateFile = path.join(candidate.directory, 'jsons', fileName);
+        if (fs.existsSync(candidateFile)) {
+          producer = candidate;
+          file = candidateFile;
+          break;
+        }
+      }
+
+      const next = new Set(trail).add(current);
+      return {
+        run: producer.id,
+        jobId: record.jobId,
+        file,
+        registered: true,
+        inputs: [...new Set([...record.inputs, ...producer.inputs])]
+          .filter((input) => !next.has(input))
+          .map((input) => visit(input, next)),
+      };
+    };
+    return visit(id, new Set());
+  }
+
+  private require(id: RunId): RunRecord {
+    const record = this.data.runs[id];
+    if (!record) {
+      throw new Error(`Run not registered: ${id} (register existing runs with: npm run dev runs scan)`);
+    }
+    return record;
+  }
+}
+
+// ============================================================================
+// Input resolution for dependent jobs
+// ============================================================================
+
+/**
+ * Run directory name of the full-data run a dependent job should read
+ *
+ * Uses the job's canonical registered run (pinned, else newest) when its
+ * directory still exists, and falls back to the newest timestamp folder
+ * under full-data/<job>/ for runs that predate the registry.
+ *
+ * @returns Run directory name (timestamp), or null when the job has no run
+ */
+export function resolveInputRun(jobId: string, registry: RunRegistry = RunRegistry.load()): string | null {
+  const canonical = registry.canonical(jobId, ['full-data']);
+  if (canonical && fs.existsSync(canonical.directory)) {
+    return path.basename(canonical.directory);
+  }
+
+  const resultsDir = path.join(process.cwd(), 'full-data', jobId);
+  if (!fs.existsSync(resultsDir)) {
+    return null;
+  }
+
+  const timestamps = fs.readdirSync(resultsDir)
+    .filter((name) => RUN_DIRECTORY_PATTERN.test(name))
+    .sort()
+    .reverse();
+
+  return timestamps[0] || null;
+}
+
+/**
+ * Run directory to read a job's full-data results from (exports, integrity
+ * checks, failure triage)
+ *
+ * Uses the job's canonical registered run when it lives under `baseDir`,
+ * else the newest run on disk (see findLatestRun).
+ *
+ * @param baseDir - Directory holding <job>/<timestamp> (e.g. full-data)
+ * @returns null when the job has no such run
+ */
+export async function resolveRunDirectory(
+  baseDir: string,
+  jobId: string,
+  registry: RunRegistry = RunRegistry.load()
+): Promise<string | null> {
+  const jobDir = path.resolve(baseDir, jobId);
+  const hasJsons = (dir: string) => fsp.access(path.join(dir, 'jsons')).then(() => true, () => false);
+
+  const canonical = registry.canonical(jobId, ['full-data']);
+  if (canonical && path.dirname(path.resolve(canonical.directory)) === jobDir && await hasJsons(canonical.directory)) {
+    return path.join(baseDir, jobId, path.basename(canonical.directory));
+  }
+
+  return findLatestRun(baseDir, jobId);
+}
+
+// ============================================================================
+// Backfill
+// ============================================================================
+
+/**
+ * Register result directories that already exist on disk
+ *
+ * Scans full-data/<job>/<run>/, concurrent/results/<job>/<model>/<run>/ and
+ * results/<job>/<run>/ for summary.json; retry runs are linked to their
+ * parent from retry-metadata.json. Upstream inputs of past runs are unknown
+ * and left empty. Runs already registered keep their record.
+ *
+ * @returns Number of newly registered runs
+ */
+export async function scanRuns(registry: RunRegistry, root: string = process.cwd()): Promise<number> {
+  const roots: Array<{ dir: string; kind: RunKind; modelLevel: boolean }> = [
+    { dir: path.join(root, 'full-data'), kind: 'full-data', modelLevel: false },
+    { dir: path.join(root, 'concurrent', 'results'), kind: 'concurrent', modelLevel: true },
+    { dir: path.join(root, 'results'), kind: 'batch', modelLevel: false },
+  ];
+
+  let added = 0;
+  for (const { dir, kind, modelLevel } of roots) {
+    for (const jobId of await subdirectories(dir)) {
+      const parents = modelLevel
+        ? (await subdirectories(path.join(dir, jobId))).map((model) => path.join(dir, jobId, model))
+        : [path.join(dir, jobId)];
+
+      for (const parent of parents) {
+        for (const name of await subdirectories(parent)) {
+          const directory = path.join(parent, name);
+          if (registry.get(runId(jobId, directory))) continue;
+
+          const summary = await readJson(path.join(directory, 'summary.json'));
+          if (!summary) continue;
+
+          const retry = await readJson(path.join(directory, 'retry-metadata.json'));
+          const settings = summary.experimentConfig ?? {};
+          registry.register({
+            jobId,
+            kind: retry ? 'retry' : kind,
+            directory,
+            configHash: configHash(settings, summary.promptSchemaVersion),
+            model: settings.model ?? summary.model,
+            promptSchemaVersion: summary.promptSchemaVersion ?? null,
+            ...(retry ? { retryOf: runId(jobId, retry.sourceRun.directory ?? retry.sourceRun.timestamp) } : {}),
+          });
+          added++;
+        }
+      }
+    }
+  }
+  return added;
+}
+
+/** Lock files not refreshed for this long are left over from a crashed process */
+const LOCK_STALE_MS = 30_000;
+const LOCK_TIMEOUT_MS = 60_000;
+
+/**
+ * Create a lock file exclusively, waiting while another process holds it
+ *
+ * The lock holds the owner's pid and a random token. Its mtime is refreshed
+ * while held, so a long update (e.g. `runs scan`) is never taken for a
+ * stale lock, and release only removes the file while it is still ours.
+ *
+ * @param staleMs - Age of an unrefreshed lock that counts as stale
+ * @returns Function that removes the lock
+ */
+export async function acquireLock(lockFile: string, staleMs: number = LOCK_STALE_MS): Promise<() => Promise<void>> {
+  await fsp.mkdir(path.dirname(lockFile), { recursive: true });
+  const owner = `${process.pid} ${crypto.randomUUID()}`;
+  const started = Date.now();
+  let delay = 25;
+  for (;;) {
+    try {
+      const handle = await fsp.open(lockFile, 'wx');
+      await handle.writeFile(owner, 'utf-8');
+      await handle.close();
+      break;
+    } catch (error: any) {
+      if (error.code !== 'EEXIST') throw error;
+    }
+
+    const stat = await fsp.stat(lockFile).catch(() => null);
+    if (stat && Date.now() - stat.mtimeMs > staleMs) {
+      await fsp.rm(lockFile, { force: true });
+      continue;
+    }
+    if (Date.now() - started > LOCK_TIMEOUT_MS) {
+      throw new Error(`Run registry is locked (${lockFile}); remove the file if no other run is writing it`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    delay = Math.min(delay * 2, 1000);
+  }
+
+  const heartbeat = setInterval(() => {
+    const now = new Date();
+    fsp.utimes(lockFile, now, now).catch(() => {});
+  }, staleMs / 3);
+  heartbeat.unref();
+
+  return async () => {
+    clearInterval(heartbeat);
+    const current = await fsp.readFile(lockFile, 'utf-8').catch(() => null);
+    if (current === owner) {
+      await fsp.rm(lockFile, { force: true });
+    }
+  };
+}
+
+async function subdirectories(dir: string): Promise<string[]> {
+  try {
+    const entries = await fsp.readdir(dir, { withFileTypes: true });
+    return entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name).sort();
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+async function readJson(file: string): Promise<any | null> {
+  try {
+    return JSON.parse(await fsp.readFile(file, 'utf-8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
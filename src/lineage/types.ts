@@ -0,0 +1,75 @@
+import { PromptSchemaVersion } from '../utils/versioning.js';
+
+/**
+ * Lineage Types
+ *
+ * Records of the run registry: one entry per result directory, with the
+ * runs it consumed, the run it retried and the retry runs merged into it.
+ */
+
+/**
+ * Where a run's results live
+ * - full-data:  full-data/<job>/<timestamp>/ (per-decision JSONs)
+ * - concurrent: concurrent/results/<job>/<model>/<timestamp>/
+ * - batch:      results/<job>/<timestamp>/
+ * - retry:      full-data/<job>/<timestamp>-retry-N/ (failed decisions of another run)
+ */
+export type RunKind = 'full-data' | 'concurrent' | 'batch' | 'retry';
+
+/**
+ * Run ID: '<job>/<run directory below the job folder>', e.g.
+ * 'extract-legal-teachings/2025-10-13T12-00-00-000Z' or, for concurrent
+ * runs, 'extract-legal-teachings/gpt-5-mini/2025-10-13T12-00-00-000Z'
+ */
+export type RunId = string;
+
+export interface RunRecord {
+  id: RunId;
+  jobId: string;
+  kind: RunKind;
+  /** Result directory, relative to the working directory */
+  directory: string;
+  registeredAt: string;
+  /** Hash of the settings that shape the output (model, sampling, prompt/schema version) */
+  configHash?: string;
+  /** Retry runs with several remedy groups keep the last group's model and hash */
+  model?: string;
+  promptSchemaVersion?: PromptSchemaVersion | null;
+  /** Upstream runs whose outputs this run consumed */
+  inputs: RunId[];
+  /** Run whose failures this run retried */
+  retryOf?: RunId;
+  /** Run this retry was merged into */
+  mergedInto?: RunId;
+  /** Retry runs merged into this run (later merges override earlier ones) */
+  mergeChildren: RunId[];
+}
+
+/**
+ * Fields supplied when registering a run
+ */
+export type RunRegistration = Omit<RunRecord, 'id' | 'registeredAt' | 'inputs' | 'mergeChildren'> & {
+  inputs?: RunId[];
+};
+
+/**
+ * On-disk registry (full-data/run-registry.json)
+ */
+export interface RegistryFile {
+  runs: Record<RunId, RunRecord>;
+  /** Canonical run per job, set with `runs pin` */
+  pins: Record<string, RunId>;
+}
+
+/**
+ * Run that produced one decision's output, and the same for each input
+ */
+export interface SourceNode {
+  run: RunId;
+  jobId: string;
+  /** Output file, or null when the run has no output for the decision */
+  file: string | null;
+  /** Whether the run is in the registry */
+  registered: boolean;
+  inputs: SourceNode[];
+}
@@ -0,0 +1,322 @@
+/**
+ * Batch Pipeline Runner
+ *
+ * Pushes a list of decisions through the single-decision pipeline with
+ * bounded parallelism across decisions. All orchestrators share one
+ * OpenAIConcurrentClient per model, so API call limits apply to the whole
+ * batch rather than per decision.
+ *
+ * Decisions whose state.json already reports `completed` are skipped.
+ * A batch report (per-decision outcome, per-step success/failure matrix,
+ * token totals, cost report) is written to src/pipeline/batch-runs/<timestamp>.json.
+ *
+ * All decisions share one BudgetTracker. Once the budget is crossed, no new
+ * decision starts and interrupted ones are paused; re-running the same
+ * command resumes them.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import pLimit from 'p-limit';
+import { OpenAIConcurrentClient } from '../concurrent/OpenAIConcurrentClient.js';
+import { DecisionKey } from '../utils/failureLoader.js';
+import { PipelineOrchestrator, PipelineState } from './PipelineOrchestrator.js';
+import { PIPELINE_STEPS } from './steps.js';
+import { fetchDecision } from './decision-loader.js';
+import { BudgetAction, BudgetStopPoint, BudgetTracker, CostReport } from '../core/BudgetTracker.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BatchPipelineOptions {
+  /** Decisions processed at the same time (default: 4) */
+  concurrency?: number;
+  /** Steps run in parallel within one decision (PipelineOrchestrator default when omitted) */
+  maxConcurrentSteps?: number;
+  /** Self-consistency samples for steps that declare selfConsistency */
+  samples?: number;
+  /** maxConcurrentApiCalls for each shared per-model client (default: 50) */
+  maxConcurrentApiCalls?: number;
+  /** Re-run decisions already completed in the state directory */
+  force?: boolean;
+  /** Base directory for per-decision state (default: src/pipeline/state) */
+  stateBaseDir?: string;
+  /** Directory for the batch report (default: src/pipeline/batch-runs) */
+  reportDir?: string;
+  /** Budget: maximum spend in USD for the batch */
+  maxCostUsd?: number;
+  /** Budget: maximum tokens for the batch */
+  maxTokens?: number;
+  /** Budget: maximum spend on gpt-5.2 escalations */
+  maxEscalationCostUsd?: number;
+  /** What to do when the budget is crossed (default: pause) */
+  onBudgetExceeded?: BudgetAction;
+}
+
+export interface BatchDecisionOutcome {
+  decisionId: string;
+  language: string;
+  status: 'completed' | 'failed' | 'skipped' | 'error' | 'deferred';
+  error?: string;
+  durationMs?: number;
+  totalTokens?: number;
+  steps?: PipelineState['steps'];
+}
+
+export interface StepMatrixRow {
+  completed: number;
+  failed: number;
+  /** Not run because a dependency failed */
+  skipped: number;
+  pending: number;
+  tokens: number;
+}
+
+export interface BatchPipelineReport {
+  startedAt: string;
+  completedAt: string;
+  totalDurationMs: number;
+  totalDecisions: number;
+  completed: number;
+  failed: number;
+  skipped: number;
+  errors: number;
+  /** Not started or paused because the budget was crossed */
+  deferred: number;
+  totalTokens: number;
+  cost: CostReport;
+  budgetStop?: BudgetStopPoint;
+  stepMatrix: Record<string, StepMatrixRow>;
+  decisions: BatchDecisionOutcome[];
+  reportPath?: string;
+}
+
+// ============================================================================
+// Batch Pipeline Runner
+// ============================================================================
+
+export class BatchPipelineRunner {
+  private clients: Map<string, OpenAIConcurrentClient> = new Map();
+  private budget: BudgetTracker;
+  private options: Required<Pick<BatchPipelineOptions, 'concurrency' | 'maxConcurrentApiCalls' | 'force' | 'reportDir'>> &
+    Pick<BatchPipelineOptions, 'maxConcurrentSteps' | 'samples' | 'stateBaseDir'>;
+
+  constructor(options: BatchPipelineOptions = {}) {
+    this.budget = new BudgetTracker({
+      maxCostUsd: options.maxCostUsd,
+      maxTokens: options.maxTokens,
+      maxEscalationCostUsd: options.maxEscalationCostUsd,
+      onExceeded: options.onBudgetExceeded,
+    });
+    this.options = {
+      concurrency: Math.max(1, options.concurrency ?? 4),
+      maxConcurrentSteps: options.maxConcurrentSteps,
+      samples: options.samples,
+      maxConcurrentApiCalls: options.maxConcurrentApiCalls ?? 50,
+      force: options.force ?? false,
+      stateBaseDir: options.stateBaseDir,
+      reportDir: options.reportDir || path.join(process.cwd(), 'src', 'pipeline', 'batch-runs'),
+    };
+  }
+
+  /**
+   * Run the pipeline for every decision key
+   */
+  async run(keys: DecisionKey[]): Promise<BatchPipelineReport> {
+    const startedAt = new Date();
+    const limit = pLimit(this.options.concurrency);
+    let finished = 0;
+
+    console.log(`\n${'='.repeat(80)}`);
+    console.log(`📦 Batch pipeline: ${keys.length} decisions`);
+    console.log(`   Decision concurrency: ${this.options.concurrency}`);
+    console.log(`   Shared client maxConcurrentApiCalls: ${this.options.maxConcurrentApiCalls}`);
+    console.log(`${'='.repeat(80)}\n`);
+
+    const outcomes = await Promise.all(keys.map(key => limit(async () => {
+      const outcome = await this.runDecision(key);
+      finished++;
+      console.log(`\n📦 [${finished}/${keys.length}] ${key.decision_id} (${key.language}): ${outcome.status}`);
+      return outcome;
+    })));
+
+    const report = this.buildReport(startedAt, outcomes);
+    if (this.budget.isExceeded) {
+      report.budgetStop = this.budget.stopPoint(
+        report.completed + report.failed + report.errors,
+        report.deferred,
+        'Re-run the same command (completed decisions are skipped, paused ones resume)'
+      );
+    }
+    report.reportPath = this.saveReport(report);
+    return report;
+  }
+
+  get budgetAction(): BudgetAction {
+    return this.budget.action;
+  }
+
+  /**
+   * Run (or skip) a single decision
+   */
+  private async runDecision(key: DecisionKey): Promise<BatchDecisionOutcome> {
+    const { decision_id: decisionId, language } = key;
+
+    if (this.budget.isExceeded) {
+      return { decisionId, language, status: 'deferred', error: `Budget exceeded: ${this.budget.reason}` };
+    }
+
+    if (!this.options.force && PipelineOrchestrator.isCompleted(decisionId, language, this.options.stateBaseDir)) {
+      console.log(`⏭️  Skipping ${decisionId} (${language}): already completed`);
+      return { decisionId, language, status: 'skipped' };
+    }
+
+    const start = Date.now();
+
+    try {
+      const row = await fetchDecision(decisionId, language);
+      const orchestrator = new PipelineOrchestrator(decisionId, language, row, this.options.stateBaseDir, {
+        maxConcurrentSteps: this.options.maxConcurrentSteps,
+        maxConcurrentApiCalls: this.options.maxConcurrentApiCalls,
+        clients: this.clients,
+        budget: this.budget,
+        samples: this.options.samples,
+      });
+
+      // Resume partially completed runs; --force restarts from scratch
+      if (!this.options.force) {
+        await orchestrator.loadState();
+      }
+
+      const { success, summary } = await orchestrator.run();
+
+      return {
+        decisionId,
+        language,
+        status: success ? 'completed' : summary.status === 'paused' ? 'deferred' : 'failed',
+        error: success ? undefined : this.firstStepError(summary),
+        durationMs: Date.now() - start,
+        totalTokens: summary.totalTokens || 0,
+        steps: summary.steps,
+      };
+    } catch (error: any) {
+      console.log(`💥 ${decisionId} (${language}): ${error.message}`);
+      return {
+        decisionId,
+        language,
+        status: 'error',
+        error: error.message,
+        durationMs: Date.now() - start,
+      };
+    }
+  }
+
+  /**
+   * First failed step error message, for the per-decision outcome
+   */
+  private firstStepError(summary: PipelineState): string | undefined {
+    for (const [stepId, stepState] of Object.entries(summary.steps)) {
+      if (stepState.status === 'failed') {
+        return `${stepId}: ${stepState.error || 'Unknown error'}`;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Build batch report with per-step success/failure matrix
+   */
+  private buildReport(startedAt: Date, outcomes: BatchDecisionOutcome[]): BatchPipelineReport {
+    const stepMatrix: Record<string, StepMatrixRow> = {};
+    for (const step of PIPELINE_STEPS) {
+      stepMatrix[step.id] = { completed: 0, failed: 0, skipped: 0, pending: 0, tokens: 0 };
+    }
+
+    for (const outcome of outcomes) {
+      if (!outcome.steps) continue;
+      for (const [stepId, stepState] of Object.entries(outcome.steps)) {
+        const row = stepMatrix[stepId] ??= { completed: 0, failed: 0, skipped: 0, pending: 0, tokens: 0 };
+        if (stepState.status === 'completed') row.completed++;
+        else if (stepState.status === 'failed') row.failed++;
+        else if (stepState.status === 'skipped') row.skipped++;
+        else row.pending++;
+        if (stepState.tokenUsage) row.tokens += stepState.tokenUsage.total;
+      }
+    }
+
+    const count = (status: BatchDecisionOutcome['status']) =>
+      outcomes.filter(o => o.status === status).length;
+
+    const completedAt = new Date();
+    return {
+      startedAt: startedAt.toISOString(),
+      completedAt: completedAt.toISOString(),
+      totalDurationMs: completedAt.getTime() - startedAt.getTime(),
+      totalDecisions: outcomes.length,
+      completed: count('completed'),
+      failed: count('failed'),
+      skipped: count('skipped'),
+      errors: count('error'),
+      deferred: count('deferred'),
+      totalTokens: outcomes.reduce((sum, o) => sum + (o.totalTokens || 0), 0),
+      cost: this.budget.buildReport(),
+      stepMatrix,
+      decisions: outcomes,
+    };
+  }
+
+  /**
+   * Persist batch report to disk
+   */
+  private saveReport(report: BatchPipelineReport): string {
+    fs.mkdirSync(this.options.reportDir, { recursive: true });
+    const timestamp = report.startedAt.replace(/[:.]/g, '-');
+    const reportPath = path.join(this.options.reportDir, `${timestamp}.json`);
+    fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
+    return reportPath;
+  }
+
+  /**
+   * Print the per-step success/failure matrix and failed decisions
+   */
+  static printReport(report: BatchPipelineReport): void {
+    console.log(`\n${'='.repeat(80)}`);
+    console.log('📊 Batch Summary');
+    console.log(`${'='.repeat(80)}`);
+    console.log(`   Decisions: ${report.totalDecisions} total / ${report.completed} completed / ${report.failed} failed / ${report.errors} errored / ${report.skipped} skipped / ${report.deferred} deferred`);
+    console.log(`   Duration:  ${(report.totalDurationMs / 1000).toFixed(1)}s`);
+    console.log(`   Tokens:    ${report.totalTokens.toLocaleString()}`);
+
+    console.log('\n   Step'.padEnd(34) + 'OK'.padStart(6) + 'FAIL'.padStart(6) + 'SKIP'.padStart(6) + 'PEND'.padStart(6) + 'TOKENS'.padStart(14));
+    for (const [stepId, row] of Object.entries(report.stepMatrix)) {
+      console.log(
+        `   ${stepId.padEnd(30)}` +
+        String(row.completed).padStart(6) +
+        String(row.failed).padStart(6) +
+        String(row.skipped).padStart(6) +
+        String(row.pending).padStart(6) +
+        row.tokens.toLocaleString().padStart(14)
+      );
+    }
+
+    const problems = report.decisions.filter(d => d.status === 'failed' || d.status === 'error');
+    if (problems.length > 0) {
+      console.log('\n   Failed decisions:');
+      for (const d of problems) {
+        console.log(`   ❌ ${d.decisionId} (${d.language}): ${d.error || d.status}`);
+      }
+    }
+
+    BudgetTracker.printReport(report.cost);
+
+    if (report.budgetStop) {
+      console.log(`   ⏸️  Budget stop: ${report.budgetStop.reason} - ${report.deferred} decisions deferred`);
+    }
+
+    if (report.reportPath) {
+      console.log(`\n   Report: ${report.reportPath}`);
+    }
+    console.log('');
+  }
+}
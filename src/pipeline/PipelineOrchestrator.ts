@@ -1,36 +1,55 @@
 /**
  * Pipeline Orchestrator
  *
- * Runs a single decision through all extraction steps sequentially.
- * Handles retry logic, model escalation (gpt-5-mini -> gpt-5.2),
- * state persistence for crash recovery, and result aggregation.
+ * Runs a single decision through all extraction steps as a dependency DAG.
+ * Every step whose `dependsOn` steps have completed is started immediately,
+ * bounded by a global step concurrency cap. Handles retry logic, model
+ * escalation (gpt-5-mini -> gpt-5.2), state persistence for crash recovery,
+ * and result aggregation.
+ *
+ * LLM calls are charged to a BudgetTracker per step and tier ('standard' or
+ * 'escalation'). Once the budget is crossed, running steps stop, stay
+ * pending, and the pipeline is marked 'paused' for resume.
  */
 
 import fs from 'fs';
 import path from 'path';
+import pLimit from 'p-limit';
 import { OpenAIConcurrentClient } from '../concurrent/OpenAIConcurrentClient.js';
-import { PIPELINE_STEPS, PipelineStep } from './steps.js';
+import { PIPELINE_STEPS, PipelineStep, computeStepVersion } from './steps.js';
 import { aggregatePipelineResults } from './aggregate.js';
+import { isSameVersion, PromptSchemaVersion, VERSION_FIELD, versionKey } from '../utils/versioning.js';
+import { BudgetTracker } from '../core/BudgetTracker.js';
+import { applyReviewTiers, ConsensusReport, reconcileSamples, sampleModels } from '../core/SelfConsistency.js';
 
 // ============================================================================
 // Types
 // ============================================================================
 
 export interface StepState {
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  /** 'skipped' when a dependency failed (re-run on resume, like 'pending') */
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
   attempts: number;
   model?: string;
   error?: string;
   durationMs?: number;
   tokenUsage?: { prompt: number; completion: number; total: number };
+  /** Prompt/schema version that produced the completed result */
+  promptSchemaVersion?: PromptSchemaVersion;
+  /** Self-consistency report when the step was sampled several times */
+  selfConsistency?: ConsensusReport;
 }
 
 export interface PipelineState {
   decisionId: string;
   language: string;
   startedAt: string;
-  status: 'running' | 'completed' | 'failed';
+  /** 'paused' when the budget stopped the run (resume re-runs pending steps) */
+  status: 'running' | 'completed' | 'failed' | 'paused';
+  /** Most recently started step (kept for backward compatibility with sequential runs) */
   currentStep: string | null;
+  /** Steps currently executing in parallel */
+  runningSteps?: string[];
   steps: Record<string, StepState>;
   completedAt?: string;
   totalDurationMs?: number;
@@ -44,8 +63,47 @@ export interface StepResult {
   attempt?: number;
   error?: Error;
   tokenUsage?: { prompt: number; completion: number; total: number };
+  /** Stopped by the budget (not a step failure) */
+  budgetExceeded?: boolean;
+  consensus?: ConsensusReport;
 }
 
+export interface PipelineOrchestratorOptions {
+  /**
+   * Maximum number of steps executing at the same time.
+   * Set to 1 to reproduce the old strictly sequential behaviour.
+   * Default: 4
+   */
+  maxConcurrentSteps?: number;
+
+  /**
+   * Client cache keyed by model. Pass the same map to several orchestrators
+   * to share OpenAIConcurrentClient instances (and their API call limiters)
+   * across decisions.
+   */
+  clients?: Map<string, OpenAIConcurrentClient>;
+
+  /**
+   * maxConcurrentApiCalls for clients created by this orchestrator.
+   * Default: 5 (single decision, low concurrency)
+   */
+  maxConcurrentApiCalls?: number;
+
+  /**
+   * Budget shared across orchestrators (cost accounting and limits).
+   * Default: a tracker without limits (reporting only)
+   */
+  budget?: BudgetTracker;
+
+  /**
+   * Self-consistency samples for steps that declare `selfConsistency`
+   * (overrides the step's own sample count). Default: the step's count
+   */
+  samples?: number;
+}
+
+export const DEFAULT_MAX_CONCURRENT_STEPS = 4;
+
 // ============================================================================
 // Pipeline Orchestrator
 // ============================================================================
@@ -54,19 +112,25 @@ export class PipelineOrchestrator {
   private state: PipelineState;
   private stepResults: Map<string, any> = new Map();
   private stateDir: string;
-  private clients: Map<string, OpenAIConcurrentClient> = new Map();
+  private clients: Map<string, OpenAIConcurrentClient>;
+  private maxConcurrentSteps: number;
+  private maxConcurrentApiCalls: number;
+  private budget: BudgetTracker;
+  private samples?: number;
 
   constructor(
     private decisionId: string,
     private language: string,
     private row: any,
-    stateBaseDir?: string
+    stateBaseDir?: string,
+    options: PipelineOrchestratorOptions = {}
   ) {
-    const safeId = decisionId.replace(/:/g, '_');
-    this.stateDir = path.join(
-      stateBaseDir || path.join(process.cwd(), 'src', 'pipeline', 'state'),
-      `${safeId}_${language}`
-    );
+    this.maxConcurrentSteps = Math.max(1, options.maxConcurrentSteps ?? DEFAULT_MAX_CONCURRENT_STEPS);
+    this.maxConcurrentApiCalls = options.maxConcurrentApiCalls ?? 5;
+    this.clients = options.clients ?? new Map();
+    this.budget = options.budget ?? new BudgetTracker();
+    this.samples = options.samples;
+    this.stateDir = PipelineOrchestrator.getStateDir(decisionId, language, stateBaseDir);
 
     this.state = {
       decisionId,
@@ -94,12 +158,40 @@ export class PipelineOrchestrator {
       this.clients.set(model, new OpenAIConcurrentClient('pipeline', {
         openaiProvider: 'azure',
         model,
-        maxConcurrentApiCalls: 5, // Single decision, low concurrency
+        maxConcurrentApiCalls: this.maxConcurrentApiCalls,
       }));
     }
     return this.clients.get(model)!;
   }
 
+  /**
+   * Resolve the state directory for a decision
+   */
+  static getStateDir(decisionId: string, language: string, stateBaseDir?: string): string {
+    const safeId = decisionId.replace(/:/g, '_');
+    return path.join(
+      stateBaseDir || path.join(process.cwd(), 'src', 'pipeline', 'state'),
+      `${safeId}_${language}`
+    );
+  }
+
+  /**
+   * Check whether a previous run already completed this decision
+   */
+  static isCompleted(decisionId: string, language: string, stateBaseDir?: string): boolean {
+    const statePath = path.join(PipelineOrchestrator.getStateDir(decisionId, language, stateBaseDir), 'state.json');
+    if (!fs.existsSync(statePath)) {
+      return false;
+    }
+
+    try {
+      const savedState = JSON.parse(fs.readFileSync(statePath, 'utf-8')) as PipelineState;
+      return savedState.status === 'completed';
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Load state from a previous run for resume
    */
@@ -173,19 +265,28 @@ export class PipelineOrchestrator {
 
   /**
    * Execute a single step with retry and model escalation
+   *
+   * Escalation is skipped once the budget's escalation cap is reached, and
+   * no attempt is made after the budget is crossed.
    */
   private async executeStepWithRetry(step: PipelineStep): Promise<StepResult> {
     const maxRetries = step.requiresLLM ? 3 : 2;
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      const useEscalation = step.requiresLLM && attempt === 3;
+      if (step.requiresLLM && this.budget.isExceeded) {
+        return { success: false, error: new Error(`Budget exceeded: ${this.budget.reason}`), attempt, budgetExceeded: true };
+      }
+
+      const useEscalation = step.requiresLLM && attempt === 3 && this.budget.canEscalate();
       const model = useEscalation ? 'gpt-5.2' : 'gpt-5-mini';
-      const client = this.getClient(model);
 
       const upstreamResults = this.getUpstreamResults(step);
 
       try {
-        const rawResult = await step.execute(this.row, upstreamResults, client);
+        const { rawResult, consensus } = await this.budget.run(
+          { job: step.id, tier: useEscalation ? 'escalation' : 'standard' },
+          () => this.executeSamples(step, upstreamResults, useEscalation ? model : null)
+        );
 
         // Apply postProcess if defined
         const result = step.postProcess
@@ -195,13 +296,15 @@ export class PipelineOrchestrator {
         return {
           success: true,
           data: result,
-          model,
+          model: consensus ? [...new Set(consensus.models)].join('+') : model,
           attempt,
           tokenUsage: rawResult?._tokenUsage,
+          consensus,
         };
       } catch (error: any) {
         console.log(`   ❌ Step ${step.id} attempt ${attempt}/${maxRetries} failed: ${error.message}`);
-        if (attempt === maxRetries) {
+        // A failed attempt is a failure even past the budget; only retries stop
+        if (attempt === maxRetries || this.budget.isExceeded) {
           return { success: false, error, model, attempt };
         }
         // Brief delay before retry
@@ -213,8 +316,159 @@ export class PipelineOrchestrator {
     return { success: false, error: new Error('Retry exhausted') };
   }
 
+  /**
+   * Execute a step once, or once per sample when it declares selfConsistency
+   *
+   * Samples run in parallel, each on its own model (round-robin over the
+   * step's models; all on the escalation model when escalating). Failed
+   * samples count against agreement; the step fails when all samples fail.
+   *
+   * @param escalationModel Model forced on every sample (null = regular models)
+   */
+  private async executeSamples(
+    step: PipelineStep,
+    upstreamResults: Record<string, any>,
+    escalationModel: string | null
+  ): Promise<{ rawResult: any; consensus?: ConsensusReport }> {
+    const samples = step.selfConsistency ? this.samples ?? step.selfConsistency.samples : 1;
+    if (!step.selfConsistency || samples <= 1) {
+      const client = this.getClient(escalationModel ?? 'gpt-5-mini');
+      return { rawResult: await step.execute(this.row, upstreamResults, client) };
+    }
+
+    const consistency = { ...step.selfConsistency, samples };
+    const models = escalationModel
+      ? Array.from({ length: samples }, () => escalationModel)
+      : sampleModels(consistency, 'gpt-5-mini');
+
+    const outcomes = await Promise.all(models.map((model) =>
+      step.execute(this.row, upstreamResults, this.getClient(model)).catch((error: any) => {
+        console.log(`   ⚠️  Step ${step.id} sample on ${model} failed: ${error.message}`);
+        return null;
+      })
+    ));
+
+    const { data: reconciled, report } = reconcileSamples(outcomes, consistency, models);
+    // Step outputs are not schema-validated afterwards, so tiers go in right away
+    const data = applyReviewTiers(reconciled, report, consistency);
+
+    // Token usage of all samples
+    const usages = outcomes.map((o) => o?._tokenUsage).filter(Boolean);
+    if (usages.length > 0) {
+      data._tokenUsage = usages.reduce((sum, u) => ({
+        prompt: sum.prompt + u.prompt,
+        completion: sum.completion + u.completion,
+        total: sum.total + u.total,
+      }), { prompt: 0, completion: 0, total: 0 });
+    }
+
+    console.log(
+      `   🗳️  ${step.id}: ${report.succeeded}/${samples} samples, agreement ${report.agreement.toFixed(2)}, ` +
+      `${report.mandatoryReview} items need mandatory review`
+    );
+    return { rawResult: data, consensus: report };
+  }
+
+  /**
+   * Check that every dependency exists and the step graph has no cycles
+   *
+   * A cycle would make the scheduler wait on itself forever, so it is
+   * rejected up front.
+   */
+  private validateStepGraph(): Map<string, PipelineStep> {
+    const stepsById = new Map(PIPELINE_STEPS.map(step => [step.id, step]));
+    const visiting = new Set<string>();
+    const visited = new Set<string>();
+
+    const visit = (step: PipelineStep, trail: string[]): void => {
+      if (visited.has(step.id)) return;
+      if (visiting.has(step.id)) {
+        throw new Error(`Pipeline step cycle detected: ${[...trail, step.id].join(' -> ')}`);
+      }
+      visiting.add(step.id);
+      for (const depId of step.dependsOn) {
+        const dep = stepsById.get(depId);
+        if (!dep) {
+          throw new Error(`Step ${step.id} depends on unknown step ${depId}`);
+        }
+        visit(dep, [...trail, step.id]);
+      }
+      visiting.delete(step.id);
+      visited.add(step.id);
+    };
+
+    for (const step of PIPELINE_STEPS) {
+      visit(step, []);
+    }
+
+    return stepsById;
+  }
+
+  /**
+   * Execute one step and record its outcome in state
+   *
+   * @returns true when the step completed successfully
+   */
+  private async runStep(step: PipelineStep): Promise<boolean> {
+    const stepState = this.state.steps[step.id];
+
+    console.log(`\n▶️  Step: ${step.id}`);
+    this.state.currentStep = step.id;
+    this.state.runningSteps = [...(this.state.runningSteps || []), step.id];
+    stepState.status = 'running';
+    this.saveState();
+
+    const stepStart = Date.now();
+    const result = await this.executeStepWithRetry(step);
+    const stepDuration = Date.now() - stepStart;
+
+    this.state.runningSteps = (this.state.runningSteps || []).filter(id => id !== step.id);
+    stepState.attempts = result.attempt || 1;
+    stepState.model = result.model;
+    stepState.durationMs = stepDuration;
+
+    if (result.success) {
+      stepState.status = 'completed';
+      stepState.promptSchemaVersion = computeStepVersion(step);
+      delete stepState.error;
+      if (result.tokenUsage) {
+        stepState.tokenUsage = result.tokenUsage;
+      }
+      if (result.consensus) {
+        stepState.selfConsistency = result.consensus;
+      } else {
+        delete stepState.selfConsistency;
+      }
+      this.stepResults.set(step.id, result.data);
+      this.saveStepResult(step.id, result.data);
+      this.saveState();
+      console.log(`   ✅ ${step.id} completed in ${(stepDuration / 1000).toFixed(1)}s (attempt ${result.attempt}, model: ${result.model})`);
+      return true;
+    }
+
+    if (result.budgetExceeded) {
+      stepState.status = 'pending';
+      stepState.error = result.error?.message;
+      this.saveState();
+      console.log(`   ⏸️  ${step.id} stopped: ${stepState.error}`);
+      return false;
+    }
+
+    stepState.status = 'failed';
+    stepState.error = result.error?.message || 'Unknown error';
+    this.saveState();
+    console.log(`   💥 ${step.id} FAILED after ${result.attempt} attempts: ${stepState.error}`);
+    return false;
+  }
+
   /**
    * Run the full pipeline
+   *
+   * Steps are scheduled topologically: each step waits only for its own
+   * `dependsOn` steps, so independent steps run side by side (bounded by
+   * maxConcurrentSteps). When a step fails, no new steps are started, but
+   * steps already in flight are allowed to finish so their results are
+   * persisted for resume.
    */
   async run(): Promise<{
     success: boolean;
@@ -222,66 +476,104 @@ export class PipelineOrchestrator {
     summary: PipelineState;
   }> {
     const pipelineStart = Date.now();
-    let totalTokens = 0;
 
     console.log(`\n${'='.repeat(80)}`);
     console.log(`🚀 Pipeline starting for ${this.decisionId} (${this.language})`);
+    console.log(`   Max concurrent steps: ${this.maxConcurrentSteps}`);
     console.log(`${'='.repeat(80)}\n`);
 
+    // Steps interrupted by a crash, or skipped after a failed dependency, are re-run from scratch
+    this.state.status = 'running';
+    this.state.runningSteps = [];
     for (const step of PIPELINE_STEPS) {
-      const stepState = this.state.steps[step.id];
-
-      // Skip completed steps (resume)
-      if (stepState.status === 'completed') {
-        console.log(`⏭️  Skipping ${step.id} (already completed)`);
-        continue;
+      if (!this.state.steps[step.id]) {
+        this.state.steps[step.id] = { status: 'pending', attempts: 0 };
+      } else if (['running', 'skipped'].includes(this.state.steps[step.id].status)) {
+        this.state.steps[step.id].status = 'pending';
+        delete this.state.steps[step.id].error;
       }
+    }
 
-      // Check dependencies
-      for (const depId of step.dependsOn) {
-        if (this.state.steps[depId]?.status !== 'completed') {
-          console.log(`⚠️  Skipping ${step.id}: dependency ${depId} not completed`);
-          stepState.status = 'failed';
-          stepState.error = `Dependency ${depId} not completed`;
-          this.state.status = 'failed';
-          this.saveState();
-          return { success: false, aggregated: null, summary: this.state };
+    const stepsById = this.validateStepGraph();
+    const limit = pLimit(this.maxConcurrentSteps);
+    const scheduled = new Map<string, Promise<boolean>>();
+    /** Step whose failure (or budget stop) stopped the run */
+    let aborted: string | null = null;
+
+    const schedule = (step: PipelineStep): Promise<boolean> => {
+      const existing = scheduled.get(step.id);
+      if (existing) return existing;
+
+      const promise = (async () => {
+        const stepState = this.state.steps[step.id];
+
+        // Skip completed steps (resume)
+        if (stepState.status === 'completed') {
+          console.log(`⏭️  Skipping ${step.id} (already completed)`);
+          const currentVersion = computeStepVersion(step);
+          if (!isSameVersion(stepState.promptSchemaVersion, currentVersion)) {
+            console.log(`   ⚠️  ${step.id} result was produced by version ${versionKey(stepState.promptSchemaVersion)} (current: ${versionKey(currentVersion)})`);
+          }
+          return true;
         }
-      }
 
-      // Execute step
-      console.log(`\n▶️  Step: ${step.id}`);
-      this.state.currentStep = step.id;
-      stepState.status = 'running';
-      this.saveState();
+        // Wait for dependencies
+        const depResults = await Promise.all(
+          step.dependsOn.map(depId => schedule(stepsById.get(depId)!))
+        );
+
+        const failedDep = step.dependsOn.find((_depId, i) => !depResults[i]);
+        if (failedDep) {
+          console.log(`⚠️  Skipping ${step.id}: dependency ${failedDep} not completed`);
+          // A dependency stopped by the budget stays pending, and so does this step
+          const depStatus = this.state.steps[failedDep].status;
+          if (depStatus === 'failed' || depStatus === 'skipped') {
+            stepState.status = 'skipped';
+            stepState.error = depStatus === 'failed'
+              ? `Dependency ${failedDep} failed`
+              : `Dependency ${failedDep} was skipped`;
+          }
+          return false;
+        }
 
-      const stepStart = Date.now();
-      const result = await this.executeStepWithRetry(step);
-      const stepDuration = Date.now() - stepStart;
+        return limit(async () => {
+          if (aborted) {
+            // After a failure (not a budget stop), steps that never started are skipped
+            if (this.state.steps[aborted].status === 'failed') {
+              stepState.status = 'skipped';
+              stepState.error = `Pipeline stopped after ${aborted} failed`;
+            }
+            return false;
+          }
+          const success = await this.runStep(step);
+          if (!success) aborted = step.id;
+          return success;
+        });
+      })();
+
+      scheduled.set(step.id, promise);
+      return promise;
+    };
 
-      stepState.attempts = result.attempt || 1;
-      stepState.model = result.model;
-      stepState.durationMs = stepDuration;
+    const outcomes = await Promise.all(PIPELINE_STEPS.map(step => schedule(step)));
 
-      if (result.success) {
-        stepState.status = 'completed';
-        if (result.tokenUsage) {
-          stepState.tokenUsage = result.tokenUsage;
-          totalTokens += result.tokenUsage.total;
-        }
-        this.stepResults.set(step.id, result.data);
-        this.saveStepResult(step.id, result.data);
-        console.log(`   ✅ Completed in ${(stepDuration / 1000).toFixed(1)}s (attempt ${result.attempt}, model: ${result.model})`);
-      } else {
-        stepState.status = 'failed';
-        stepState.error = result.error?.message || 'Unknown error';
-        this.state.status = 'failed';
-        this.saveState();
-        console.log(`   💥 FAILED after ${result.attempt} attempts: ${stepState.error}`);
-        return { success: false, aggregated: null, summary: this.state };
+    // Token total covers every completed step, including ones loaded on resume
+    let totalTokens = 0;
+    for (const stepState of Object.values(this.state.steps)) {
+      if (stepState.status === 'completed' && stepState.tokenUsage) {
+        totalTokens += stepState.tokenUsage.total;
       }
+    }
 
+    this.state.currentStep = null;
+    this.state.runningSteps = [];
+
+    if (outcomes.some(ok => !ok)) {
+      const anyFailed = Object.values(this.state.steps).some(s => s.status === 'failed');
+      this.state.status = !anyFailed && this.budget.isExceeded ? 'paused' : 'failed';
+      this.state.totalTokens = totalTokens;
       this.saveState();
+      return { success: false, aggregated: null, summary: this.state };
     }
 
     // All steps completed - aggregate results
@@ -292,7 +584,6 @@ export class PipelineOrchestrator {
     this.state.completedAt = new Date().toISOString();
     this.state.totalDurationMs = totalDuration;
     this.state.totalTokens = totalTokens;
-    this.state.currentStep = null;
     this.saveState();
 
     // Write aggregated output
@@ -312,9 +603,18 @@ export class PipelineOrchestrator {
   }
 
   /**
-   * Aggregate all step results into the final merged-full-data format
+   * Aggregate all step results into the final merged-full-data format,
+   * stamped with the prompt/schema version of every step
    */
   private aggregateResults(): any {
-    return aggregatePipelineResults(this.row, this.stepResults);
+    const versions: Record<string, PromptSchemaVersion | null> = {};
+    for (const [stepId, stepState] of Object.entries(this.state.steps)) {
+      versions[stepId] = stepState.promptSchemaVersion ?? null;
+    }
+
+    return {
+      ...aggregatePipelineResults(this.row, this.stepResults),
+      [`${VERSION_FIELD}s`]: versions,
+    };
   }
 }
@@ -0,0 +1,195 @@
+/**
+ * Pipeline Decision Loader
+ *
+ * Fetches decision rows for the single-decision pipeline and resolves
+ * lists of (decision_id, language) keys for batch runs from a plain
+ * text file, a test-set CSV/JSON, or a structured database filter.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { DatabaseConfig } from '../config/database.js';
+import { TestSetLoader } from '../utils/testSetLoader.js';
+import { DecisionKey } from '../utils/failureLoader.js';
+
+// ============================================================================
+// Row fetching
+// ============================================================================
+
+/**
+ * Categorize decision length (same logic as preprocessRow in configs)
+ */
+function computeLengthCategory(mdLength: number | null | undefined): string {
+  if (!mdLength) return 'unknown';
+  if (mdLength < 10000) return 'short';
+  if (mdLength < 30000) return 'medium';
+  if (mdLength < 60000) return 'long';
+  return 'very_long';
+}
+
+/**
+ * Fetch a single decision row with full markdown
+ */
+export async function fetchDecision(decisionId: string, language: string): Promise<any> {
+  const rows = await DatabaseConfig.executeReadOnlyQuery(
+    `SELECT
+      d.id,
+      d.decision_id,
+      d.language_metadata,
+      d.decision_type_ecli_code,
+      d.court_ecli_code,
+      d.decision_date,
+      dm.full_md,
+      LENGTH(dm.full_md) as md_length
+    FROM decisions1 d
+    INNER JOIN decisions_md dm
+      ON dm.decision_id = d.decision_id
+      AND dm.language = d.language_metadata
+    WHERE d.decision_id = $1
+      AND d.language_metadata = $2
+      AND dm.full_md IS NOT NULL
+      AND dm.full_md != ''
+    LIMIT 1`,
+    [decisionId, language]
+  );
+
+  if (rows.length === 0) {
+    throw new Error(`Decision not found: ${decisionId} (${language})`);
+  }
+
+  const row = rows[0] as any;
+  return { ...row, length_category: computeLengthCategory(row.md_length) };
+}
+
+// ============================================================================
+// Decision key sources
+// ============================================================================
+
+/**
+ * Load decision keys from a file
+ *
+ * - .csv / .json: parsed with TestSetLoader (e.g. evals/test-sets/comprehensive-197.csv)
+ * - anything else: one decision per line, "<decision_id> <language>" or
+ *   "<decision_id>,<language>". Blank lines and lines starting with # are ignored.
+ */
+export async function loadDecisionKeysFromFile(filePath: string): Promise<DecisionKey[]> {
+  const ext = path.extname(filePath).toLowerCase();
+  if (ext === '.csv' || ext === '.json') {
+    const testSet = await TestSetLoader.loadTestSet(filePath);
+    return testSet.map(entry => ({
+      decision_id: entry.decision_id,
+      language: entry.language.toUpperCase(),
+    }));
+  }
+
+  const resolvedPath = path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), filePath);
+  const content = await fs.readFile(resolvedPath, 'utf-8');
+  const keys: DecisionKey[] = [];
+
+  content.split('\n').forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const [decisionId, language] = line.split(/[\s,]+/);
+    if (!decisionId || !language) {
+      throw new Error(`Invalid line ${index + 1} in ${filePath}: expected "<decision_id> <language>"`);
+    }
+    keys.push({ decision_id: decisionId, language: language.toUpperCase() });
+  });
+
+  return keys;
+}
+
+/**
+ * Structured filter for loadDecisionKeysFromQuery
+ *
+ * Every field is bound as a query parameter; all set fields must match.
+ */
+export interface DecisionFilter {
+  /** decisions1.court_ecli_code, e.g. "CASS" */
+  court?: string;
+  /** decisions1.decision_type_ecli_code, e.g. "ARR" */
+  decisionType?: string;
+  /** FR or NL */
+  language?: string;
+  /** Earliest decision_date (YYYY-MM-DD, inclusive) */
+  from?: string;
+  /** Latest decision_date (YYYY-MM-DD, inclusive) */
+  to?: string;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * True when at least one filter field is set
+ */
+export function hasDecisionFilter(filter: DecisionFilter): boolean {
+  return Object.values(filter).some(value => value !== undefined && value !== '');
+}
+
+/**
+ * Load decision keys matching a structured filter
+ *
+ * Only decisions with markdown are returned. Filter values are passed as
+ * bound parameters, never interpolated into the SQL.
+ *
+ * @example
+ * loadDecisionKeysFromQuery({ court: 'CASS', from: '2023-01-01' }, 50)
+ */
+export async function loadDecisionKeysFromQuery(filter: DecisionFilter, limit?: number): Promise<DecisionKey[]> {
+  for (const [name, value] of [['from', filter.from], ['to', filter.to]] as const) {
+    if (value !== undefined && !ISO_DATE.test(value)) {
+      throw new Error(`Invalid ${name} date "${value}": expected YYYY-MM-DD`);
+    }
+  }
+
+  const params: any[] = [];
+  const conditions: string[] = [];
+  const bind = (condition: string, value: string | number) => {
+    params.push(value);
+    conditions.push(condition.replace('?', `$${params.length}`));
+  };
+
+  if (filter.court) bind('d.court_ecli_code = ?', filter.court);
+  if (filter.decisionType) bind('d.decision_type_ecli_code = ?', filter.decisionType);
+  if (filter.language) bind('d.language_metadata = ?', filter.language.toUpperCase());
+  if (filter.from) bind('d.decision_date >= ?', filter.from);
+  if (filter.to) bind('d.decision_date <= ?', filter.to);
+
+  let limitClause = '';
+  if (limit !== undefined) {
+    params.push(limit);
+    limitClause = `LIMIT $${params.length}`;
+  }
+
+  const rows = await DatabaseConfig.executeReadOnlyQuery<{ decision_id: string; language_metadata: string }>(
+    `SELECT
+      d.decision_id,
+      d.language_metadata
+    FROM decisions1 d
+    INNER JOIN decisions_md dm
+      ON dm.decision_id = d.decision_id
+      AND dm.language = d.language_metadata
+    WHERE dm.full_md IS NOT NULL
+      AND dm.full_md != ''
+      ${conditions.map(condition => `AND ${condition}`).join('\n      ')}
+    ORDER BY d.decision_id, d.language_metadata
+    ${limitClause}`,
+    params
+  );
+
+  return rows.map(row => ({ decision_id: row.decision_id, language: row.language_metadata }));
+}
+
+/**
+ * Remove duplicate (decision_id, language) pairs, keeping first occurrence
+ */
+export function dedupeDecisionKeys(keys: DecisionKey[]): DecisionKey[] {
+  const seen = new Set<string>();
+  return keys.filter(key => {
+    const id = `${key.decision_id}|${key.language}`;
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+}
@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { describe, it } from 'node:test';
+import { IndexedDocument, normalizeActName, ProvisionCandidateIndex, titleKey } from './CandidateIndex.js';
+
+const DOCUMENTS: IndexedDocument[] = [
+  { documentNumber: '1804032150', title: 'Code civil', documentType: 'CODE', date: '1804-03-21' },
+  { documentNumber: '1967101052', title: 'Gerechtelijk Wetboek', documentType: 'CODE', date: '1967-10-10' },
+  {
+    documentNumber: '2007002098',
+    title: 'Loi du 10 mai 2007 tendant à lutter contre certaines formes de discrimination',
+    documentType: 'LOI',
+    date: '2007-05-10',
+  },
+  { documentNumber: '2007202099', title: 'Arrêté royal du 10 mai 2007 relatif au personnel', documentType: 'AR', date: '2007-05-10' },
+  { documentNumber: '1978070335', title: 'Loi du 3 juillet 1978 relative aux contrats de travail', documentType: 'LOI', date: '1978-07-03' },
+];
+
+describe('normalizeActName', () => {
+  it('strips accents and expands abbreviations', () => {
+    assert.deepEqual(normalizeActName('C. civ.'), ['code', 'civil']);
+    assert.deepEqual(normalizeActName('Ger.W.'), ['gerechtelijk', 'wetboek']);
+    assert.deepEqual(normalizeActName('Arrêté'), ['arrete']);
+  });
+});
+
+describe('titleKey', () => {
+  it('ignores date phrases and stopwords unless dates are kept', () => {
+    assert.equal(titleKey('Loi du 10 mai 2007 tendant à lutter'), titleKey('Loi tendant à lutter'));
+    assert.notEqual(titleKey('Loi du 10 mai 2007 tendant à lutter', true), titleKey('Loi tendant à lutter', true));
+  });
+});
+
+describe('ProvisionCandidateIndex', () => {
+  const index = new ProvisionCandidateIndex(DOCUMENTS);
+
+  it('looks documents up by number and title key', () => {
+    assert.equal(index.get('1967101052')?.title, 'Gerechtelijk Wetboek');
+    assert.equal(index.get('0000000000'), undefined);
+    assert.deepEqual(
+      index.findByTitle('Loi tendant à lutter contre certaines formes de discrimination').map((d) => d.documentNumber),
+      ['2007002098']
+    );
+  });
+
+  it('ranks abbreviated and misspelled names', () => {
+    assert.equal(index.search('C. civ.').candidates[0].documentNumber, '1804032150');
+    assert.equal(index.search('Gerechtelijk Wetboeck').candidates[0].documentNumber, '1967101052');
+  });
+
+  it('filters by type and by date before', () => {
+    const byType = index.search('du 10 mai 2007', { types: ['AR'] }).candidates;
+    assert.deepEqual(byType.map((c) => c.documentNumber), ['2007202099']);
+
+    const before = index.search('Loi', { before: '2000-01-01' }).candidates;
+    assert.ok(before.every((c) => c.date! < '2000-01-01'));
+    assert.ok(before.some((c) => c.documentNumber === '1978070335'));
+  });
+
+  it('accepts dates within tolerance and with day/month swapped', () => {
+    const near = index.search('Loi tendant à lutter contre la discrimination', { date: '2007-05-12' });
+    assert.equal(near.dateFallback, false);
+    assert.equal(near.candidates[0].documentNumber, '2007002098');
+    assert.equal(near.candidates[0].dateDistance, 2);
+
+    const swapped = index.search('contrats de travail', { date: '1978-03-07' });
+    assert.equal(swapped.dateFallback, false);
+    assert.equal(swapped.candidates[0].documentNumber, '1978070335');
+  });
+
+  it('falls back to title ranking when no date matches', () => {
+    const result = index.search('contrats de travail', { date: '1990-01-01' });
+    assert.equal(result.dateFallback, true);
+    assert.equal(result.candidates[0].documentNumber, '1978070335');
+  });
+
+  it('round-trips through save and load', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'candidate-index-'));
+    try {
+      const indexPath = path.join(dir, 'index.json.gz');
+      await index.save(indexPath);
+      const loaded = await ProvisionCandidateIndex.load(indexPath);
+      assert.deepEqual(loaded?.documents, DOCUMENTS);
+      assert.equal(loaded?.builtAt, index.builtAt);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
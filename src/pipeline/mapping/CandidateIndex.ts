@@ -0,0 +1,567 @@
+/**
+ * Provision Candidate Index
+ *
+ * In-process search index over the `documents` table (document number,
+ * title, document type, dossier date) used by the provision mapping steps
+ * to build candidate lists without a database query per item.
+ *
+ * Ranking combines BM25 over title words with pg_trgm-style trigram
+ * similarity of the whole title. Cited names are normalized first:
+ * lowercase, accents stripped and abbreviations expanded ("Ger.W." →
+ * "gerechtelijk wetboek", see act-abbreviations.ts). Query words that do not
+ * occur in any title are matched to similar title words (typos).
+ *
+ * Date searches tolerate small mistakes: documents within
+ * ±dateToleranceDays and with day/month swapped are included, and when
+ * nothing falls in the window the search falls back to title ranking.
+ *
+ * The index is loaded once per process (ProvisionCandidateIndex.shared())
+ * and persisted to disk, rebuilt from the database when the file is older
+ * than MAPPING_INDEX_MAX_AGE_HOURS.
+ *
+ * Environment variables (optional):
+ * - MAPPING_INDEX_PATH            Index file (default: cache/provision-candidate-index.json.gz)
+ * - MAPPING_INDEX_MAX_AGE_HOURS   Rebuild after this many hours (default: 168)
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import zlib from 'zlib';
+import { promisify } from 'util';
+import { DatabaseConfig } from '../../config/database.js';
+import { ACT_ABBREVIATIONS } from './act-abbreviations.js';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface IndexedDocument {
+  documentNumber: string;
+  title: string;
+  documentType: string;
+  /** Dossier date (YYYY-MM-DD), null when the dossier number has none */
+  date: string | null;
+}
+
+export interface CandidateSearchOptions {
+  /** Only these document types (omit, or include 'unknown', for all) */
+  types?: string[];
+  /** Expected dossier date (YYYY-MM-DD); documents near it are preferred */
+  date?: string | null;
+  /** Days around `date` still accepted (default: 3) */
+  dateToleranceDays?: number;
+  /** Only documents dated strictly before this date (YYYY-MM-DD) */
+  before?: string | null;
+  /** Max candidates returned (default: 200) */
+  limit?: number;
+  /** Minimum combined score for title-only searches (default: 0.1) */
+  minScore?: number;
+}
+
+export interface CandidateMatch extends IndexedDocument {
+  /** Combined score (0-1) */
+  score: number;
+  /** Trigram similarity of normalized titles (0-1) */
+  trigram: number;
+  /** BM25 score normalized by the query's maximum (0-1) */
+  bm25: number;
+  /** Days between the document date and the searched date (null without date search) */
+  dateDistance: number | null;
+}
+
+export interface CandidateSearchResult {
+  candidates: CandidateMatch[];
+  /** True when a date search found nothing in the window and ranked titles instead */
+  dateFallback: boolean;
+}
+
+interface IndexFile {
+  version: number;
+  builtAt: string;
+  documentCount: number;
+  /** [documentNumber, title, documentType, date] */
+  documents: Array<[string, string, string, string | null]>;
+}
+
+// ============================================================================
+// Text normalization
+// ============================================================================
+
+const STOPWORDS = new Set([
+  // French
+  'le', 'la', 'les', 'l', 'de', 'du', 'des', 'd', 'et', 'en', 'a', 'au', 'aux', 'un', 'une', 'sur', 'par', 'pour',
+  // Dutch
+  'het', 'een', 'van', 'der', 'den', 'op', 'tot', 'met', 'voor', 'in', 'te',
+]);
+
+/**
+ * Lowercase, strip accents, expand abbreviations and split into words
+ */
+export function normalizeActName(text: string): string[] {
+  if (!text) return [];
+
+  // "C. civ." → "C.civ." so multi-part abbreviations are one token
+  const joined = text.replace(/\b([\p{L}]{1,6})\.\s+(?=[\p{L}]{1,6}\.)/gu, '$1.');
+
+  const words: string[] = [];
+  for (const raw of joined.split(/\s+/)) {
+    if (!raw) continue;
+    const lower = stripAccents(raw.toLowerCase());
+    const key = lower.replace(/[^a-z0-9]/g, '');
+    const looksAbbreviated = lower.includes('.') || (raw.length <= 5 && raw === raw.toUpperCase() && /[A-Z]/.test(raw));
+    const expanded = looksAbbreviated ? ACT_ABBREVIATIONS[key] : undefined;
+
+    for (const word of (expanded ?? lower).split(/[^a-z0-9]+/)) {
+      if (word) words.push(word);
+    }
+  }
+  return words;
+}
+
+const MONTHS = new Set([
+  'janvier', 'fevrier', 'mars', 'avril', 'mai', 'juin', 'juillet', 'aout', 'septembre', 'octobre', 'novembre', 'decembre',
+  'januari', 'februari', 'maart', 'april', 'mei', 'juni', 'juli', 'augustus', 'september', 'oktober', 'november', 'december',
+]);
+
+/**
+ * Title comparison key: normalized words without stopwords and (unless
+ * keepDates) without "du 10 mai 2007" / "van 10 mei 2007" date phrases, so
+ * "Loi du 10 mai 2007 tendant à ..." and "Loi tendant à ..." get the same key
+ */
+export function titleKey(text: string, keepDates = false): string {
+  const words = normalizeActName(text);
+  const kept: string[] = [];
+  for (let i = 0; i < words.length; i++) {
+    const isDate = /^(\d{1,2}|1er)$/.test(words[i]) && MONTHS.has(words[i + 1]) && /^\d{4}$/.test(words[i + 2] ?? '');
+    if (isDate && !keepDates) {
+      i += 2;
+      continue;
+    }
+    if (!STOPWORDS.has(words[i])) kept.push(words[i]);
+  }
+  return kept.join(' ');
+}
+
+function stripAccents(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * Word trigrams as in pg_trgm (each word padded with two leading and one trailing space)
+ */
+function trigramsOf(words: string[]): Set<string> {
+  const grams = new Set<string>();
+  for (const word of words) {
+    const padded = `  ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      grams.add(padded.slice(i, i + 3));
+    }
+  }
+  return grams;
+}
+
+function trigramSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const gram of a) {
+    if (b.has(gram)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Trigram similarity (0-1) of two normalized act names
+ */
+export function titleSimilarity(a: string, b: string): number {
+  return trigramSimilarity(trigramsOf(normalizeActName(a)), trigramsOf(normalizeActName(b)));
+}
+
+// ============================================================================
+// Dates
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function dayNumber(date: string): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(date);
+  if (!match) return null;
+  const [, y, m, d] = match.map(Number);
+  const time = Date.UTC(y, m - 1, d);
+  const check = new Date(time);
+  if (check.getUTCMonth() !== m - 1 || check.getUTCDate() !== d) return null;
+  return Math.floor(time / DAY_MS);
+}
+
+function dateOf(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Dates accepted for a searched date: the window around it, plus the
+ * day/month-swapped date (10-05 ↔ 05-10)
+ */
+function datesNear(date: string, toleranceDays: number): Map<string, number> {
+  const accepted = new Map<string, number>();
+  const center = dayNumber(date);
+  if (center === null) return accepted;
+
+  for (let offset = -toleranceDays; offset <= toleranceDays; offset++) {
+    accepted.set(dateOf(center + offset), Math.abs(offset));
+  }
+
+  const [y, m, d] = date.slice(0, 10).split('-');
+  const swapped = `${y}-${d}-${m}`;
+  const swappedDay = dayNumber(swapped);
+  if (swappedDay !== null && !accepted.has(swapped)) {
+    accepted.set(swapped, Math.abs(swappedDay - center));
+  }
+  return accepted;
+}
+
+// ============================================================================
+// Index
+// ============================================================================
+
+export class ProvisionCandidateIndex {
+  static readonly FORMAT_VERSION = 1;
+
+  private static sharedIndex: Promise<ProvisionCandidateIndex> | null = null;
+
+  // BM25 parameters
+  private static readonly K1 = 1.2;
+  private static readonly B = 0.75;
+
+  private words: string[][] = [];
+  private grams: Array<Set<string> | undefined> = [];
+  private postings = new Map<string, number[]>();
+  private byDate = new Map<string, number[]>();
+  private byTitle = new Map<string, number[]>();
+  private byNumber = new Map<string, number>();
+  private vocabularyGrams = new Map<string, string[]>();
+  private averageLength = 0;
+
+  constructor(readonly documents: IndexedDocument[], readonly builtAt: string = new Date().toISOString()) {
+    let totalLength = 0;
+
+    documents.forEach((doc, id) => {
+      const words = normalizeActName(doc.title);
+      this.words.push(words);
+      totalLength += words.length;
+
+      for (const word of new Set(words)) {
+        if (STOPWORDS.has(word)) continue;
+        let list = this.postings.get(word);
+        if (!list) {
+          list = [];
+          this.postings.set(word, list);
+          for (const gram of trigramsOf([word])) {
+            const vocab = this.vocabularyGrams.get(gram) ?? [];
+            vocab.push(word);
+            this.vocabularyGrams.set(gram, vocab);
+          }
+        }
+        list.push(id);
+      }
+
+      if (doc.date) {
+        const list = this.byDate.get(doc.date) ?? [];
+        list.push(id);
+        this.byDate.set(doc.date, list);
+      }
+
+      const key = titleKey(doc.title);
+      if (key) {
+        const list = this.byTitle.get(key) ?? [];
+        list.push(id);
+        this.byTitle.set(key, list);
+      }
+
+      this.byNumber.set(doc.documentNumber, id);
+    });
+
+    this.averageLength = documents.length > 0 ? totalLength / documents.length : 0;
+  }
+
+  // ==========================================================================
+  // Loading
+  // ==========================================================================
+
+  /**
+   * Index shared by every item and step in this process
+   *
+   * Loaded from disk when fresh, otherwise built from the database and saved.
+   */
+  static shared(): Promise<ProvisionCandidateIndex> {
+    if (!this.sharedIndex) {
+      this.sharedIndex = this.loadOrBuild().catch((error) => {
+        this.sharedIndex = null;
+        throw error;
+      });
+    }
+    return this.sharedIndex;
+  }
+
+  /**
+   * Drop the in-memory index (next shared() call loads it again)
+   */
+  static resetShared(): void {
+    this.sharedIndex = null;
+  }
+
+  static getIndexPath(): string {
+    return process.env.MAPPING_INDEX_PATH || path.join(process.cwd(), 'cache', 'provision-candidate-index.json.gz');
+  }
+
+  static getMaxAgeHours(): number {
+    const hours = parseFloat(process.env.MAPPING_INDEX_MAX_AGE_HOURS || '168');
+    return Number.isFinite(hours) && hours > 0 ? hours : 168;
+  }
+
+  private static async loadOrBuild(): Promise<ProvisionCandidateIndex> {
+    const indexPath = this.getIndexPath();
+    const cached = await this.load(indexPath);
+    const ageHours = cached ? (Date.now() - Date.parse(cached.builtAt)) / 3_600_000 : Infinity;
+
+    if (cached && ageHours <= this.getMaxAgeHours()) {
+      console.log(`📇 Candidate index loaded: ${cached.documents.length} documents (built ${cached.builtAt})`);
+      return cached;
+    }
+
+    const index = await this.build();
+    await index.save(indexPath);
+    return index;
+  }
+
+  /**
+   * Build the index from the documents table
+   */
+  static async build(): Promise<ProvisionCandidateIndex> {
+    console.log('📇 Building candidate index from documents...');
+    const start = Date.now();
+
+    const rows = await DatabaseConfig.executeReadOnlyQuery<{
+      document_number: string;
+      title: string | null;
+      document_type: string | null;
+      dossier_number: string | null;
+    }>(`SELECT document_number, title, document_type, dossier_number FROM documents`);
+
+    const documents: IndexedDocument[] = rows.map((row) => {
+      const date = row.dossier_number?.substring(0, 10) ?? null;
+      return {
+        documentNumber: row.document_number,
+        title: row.title || '',
+        documentType: row.document_type || '',
+        date: date && dayNumber(date) !== null ? date : null,
+      };
+    });
+
+    const index = new ProvisionCandidateIndex(documents);
+    console.log(`📇 Candidate index built: ${documents.length} documents in ${((Date.now() - start) / 1000).toFixed(1)}s`);
+    return index;
+  }
+
+  /**
+   * Read a saved index (null when missing or written by another format version)
+   */
+  static async load(indexPath: string = this.getIndexPath()): Promise<ProvisionCandidateIndex | null> {
+    let file: IndexFile;
+    try {
+      file = JSON.parse((await gunzip(await fs.readFile(indexPath))).toString('utf-8'));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.warn(`⚠️  Ignoring unreadable candidate index ${indexPath}: ${error.message}`);
+      }
+      return null;
+    }
+
+    if (file.version !== this.FORMAT_VERSION) return null;
+
+    const documents = file.documents.map(([documentNumber, title, documentType, date]) => ({
+      documentNumber,
+      title,
+      documentType,
+      date,
+    }));
+    return new ProvisionCandidateIndex(documents, file.builtAt);
+  }
+
+  async save(indexPath: string = ProvisionCandidateIndex.getIndexPath()): Promise<void> {
+    const file: IndexFile = {
+      version: ProvisionCandidateIndex.FORMAT_VERSION,
+      builtAt: this.builtAt,
+      documentCount: this.documents.length,
+      documents: this.documents.map((d) => [d.documentNumber, d.title, d.documentType, d.date]),
+    };
+
+    await fs.mkdir(path.dirname(indexPath), { recursive: true });
+    const tempPath = `${indexPath}.tmp`;
+    await fs.writeFile(tempPath, await gzip(JSON.stringify(file)));
+    await fs.rename(tempPath, indexPath);
+    console.log(`💾 Candidate index saved: ${indexPath}`);
+  }
+
+  // ==========================================================================
+  // Lookup
+  // ==========================================================================
+
+  /**
+   * Document by number (NUMAC)
+   */
+  get(documentNumber: string): IndexedDocument | undefined {
+    const id = this.byNumber.get(documentNumber);
+    return id === undefined ? undefined : this.documents[id];
+  }
+
+  /**
+   * Documents whose title has the same titleKey as `title`
+   */
+  findByTitle(title: string): IndexedDocument[] {
+    return (this.byTitle.get(titleKey(title)) ?? []).map((id) => this.documents[id]);
+  }
+
+  // ==========================================================================
+  // Search
+  // ==========================================================================
+
+  /**
+   * Rank candidate documents for a cited act name
+   */
+  search(actName: string, options: CandidateSearchOptions = {}): CandidateSearchResult {
+    const limit = options.limit ?? 200;
+    const queryWords = normalizeActName(actName);
+    const queryGrams = trigramsOf(queryWords);
+    const queryTerms = this.expandTerms(queryWords);
+
+    const typeFilter = options.types && !options.types.includes('unknown') ? new Set(options.types) : null;
+    const beforeDay = options.before ? dayNumber(options.before) : null;
+    const accept = (id: number): boolean => {
+      const doc = this.documents[id];
+      if (typeFilter && !typeFilter.has(doc.documentType)) return false;
+      if (beforeDay !== null) {
+        const day = doc.date ? dayNumber(doc.date) : null;
+        if (day === null || day >= beforeDay) return false;
+      }
+      return true;
+    };
+
+    // Date search: every document in the window, ranked by title and date distance
+    if (options.date) {
+      const accepted = datesNear(options.date, options.dateToleranceDays ?? 3);
+      const matches: CandidateMatch[] = [];
+
+      for (const [date, distance] of accepted) {
+        for (const id of this.byDate.get(date) ?? []) {
+          if (!accept(id)) continue;
+          const match = this.score(id, queryTerms, queryGrams, distance);
+          match.score *= distance === 0 ? 1 : 0.85;
+          matches.push(match);
+        }
+      }
+
+      if (matches.length > 0) {
+        return { candidates: this.top(matches, limit), dateFallback: false };
+      }
+    }
+
+    // Title search: BM25 shortlist, then trigram re-ranking
+    const accumulated = new Map<number, number>();
+    for (const { term, weight } of queryTerms) {
+      const idf = this.idf(term);
+      for (const id of this.postings.get(term) ?? []) {
+        accumulated.set(id, (accumulated.get(id) ?? 0) + idf * weight);
+      }
+    }
+
+    const shortlist = [...accumulated.entries()]
+      .filter(([id]) => accept(id))
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, Math.max(limit * 5, 500));
+
+    const minScore = options.minScore ?? 0.1;
+    const matches = shortlist
+      .map(([id]) => this.score(id, queryTerms, queryGrams, null))
+      .filter((match) => match.score >= minScore);
+
+    return { candidates: this.top(matches, limit), dateFallback: Boolean(options.date) };
+  }
+
+  /**
+   * Query words plus, for words no title contains, similar title words
+   * (weighted by their trigram similarity)
+   */
+  private expandTerms(words: string[]): Array<{ term: string; weight: number }> {
+    const terms = new Map<string, number>();
+
+    for (const word of new Set(words)) {
+      if (STOPWORDS.has(word)) continue;
+      if (this.postings.has(word) || word.length < 4 || /^\d+$/.test(word)) {
+        terms.set(word, Math.max(terms.get(word) ?? 0, 1));
+        continue;
+      }
+
+      const wordGrams = trigramsOf([word]);
+      const similar = new Set<string>();
+      for (const gram of wordGrams) {
+        for (const candidate of this.vocabularyGrams.get(gram) ?? []) similar.add(candidate);
+      }
+
+      for (const candidate of similar) {
+        const similarity = trigramSimilarity(wordGrams, trigramsOf([candidate]));
+        if (similarity >= 0.5) {
+          terms.set(candidate, Math.max(terms.get(candidate) ?? 0, similarity));
+        }
+      }
+    }
+
+    return [...terms.entries()].map(([term, weight]) => ({ term, weight }));
+  }
+
+  private idf(term: string): number {
+    const df = this.postings.get(term)?.length ?? 0;
+    return Math.log(1 + (this.documents.length - df + 0.5) / (df + 0.5));
+  }
+
+  private score(
+    id: number,
+    queryTerms: Array<{ term: string; weight: number }>,
+    queryGrams: Set<string>,
+    dateDistance: number | null
+  ): CandidateMatch {
+    const { K1, B } = ProvisionCandidateIndex;
+    const words = this.words[id];
+    const lengthNorm = K1 * (1 - B + (B * words.length) / (this.averageLength || 1));
+
+    let bm25 = 0;
+    let maxBm25 = 0;
+    for (const { term, weight } of queryTerms) {
+      const idf = this.idf(term) * weight;
+      maxBm25 += idf * (K1 + 1);
+      const tf = words.reduce((count, word) => count + (word === term ? 1 : 0), 0);
+      if (tf > 0) bm25 += (idf * tf * (K1 + 1)) / (tf + lengthNorm);
+    }
+    const bm25Norm = maxBm25 > 0 ? Math.min(1, bm25 / maxBm25) : 0;
+
+    let grams = this.grams[id];
+    if (!grams) {
+      grams = trigramsOf(words);
+      this.grams[id] = grams;
+    }
+    const trigram = trigramSimilarity(queryGrams, grams);
+
+    return {
+      ...this.documents[id],
+      score: 0.5 * trigram + 0.5 * bm25Norm,
+      trigram,
+      bm25: bm25Norm,
+      dateDistance,
+    };
+  }
+
+  private top(matches: CandidateMatch[], limit: number): CandidateMatch[] {
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
@@ -4,6 +4,9 @@
  * Runs a single decision through all 4 mapping steps sequentially.
  * Each step processes multiple items with per-item retry and model escalation.
  * Adapted from PipelineOrchestrator.ts with per-item state tracking.
+ *
+ * When the budget is crossed, the current step stays pending and the
+ * pipeline is marked 'paused'; re-running resumes the pending items.
  */
 
 import fs from 'fs';
@@ -13,6 +16,7 @@ import { MAPPING_STEPS } from './steps.js';
 import { MappingPipelineState, MappingStepState, StepContext } from './types.js';
 import { processItemsWithRetry } from './item-processor.js';
 import { loadRelatedContext, loadSourceMarkdown, loadDecisionDate, clearProvisionCache } from './data-loader.js';
+import { BudgetTracker } from '../../core/BudgetTracker.js';
 
 // ============================================================================
 // Mapping Orchestrator
@@ -28,7 +32,8 @@ export class MappingOrchestrator {
     private decisionId: string,
     private language: string,
     stateBaseDir?: string,
-    outputBaseDir?: string
+    outputBaseDir?: string,
+    private budget: BudgetTracker = new BudgetTracker()
   ) {
     const safeId = decisionId.replace(/:/g, '_');
     this.stateDir = path.join(
@@ -247,11 +252,21 @@ export class MappingOrchestrator {
         (model) => this.getClient(model),
         stepState,
         () => this.saveState(),
-        (stepId, itemId, result) => this.saveItemResult(stepId, itemId, result)
+        (stepId, itemId, result) => this.saveItemResult(stepId, itemId, result),
+        this.budget
       );
 
       stepState.durationMs = Date.now() - stepStart;
 
+      // Budget crossed: keep the step pending so resume picks up its pending items
+      if (this.budget.isExceeded) {
+        stepState.status = 'pending';
+        this.state.status = 'paused';
+        this.saveState();
+        console.log(`\n   Paused in ${step.id}: budget exceeded (${this.budget.reason})`);
+        return { success: false, summary: this.state };
+      }
+
       // Mark step as completed (even with some item failures)
       stepState.status = 'completed';
 
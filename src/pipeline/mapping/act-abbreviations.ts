@@ -0,0 +1,57 @@
+/**
+ * Act Name Abbreviations
+ *
+ * Common Belgian abbreviations of act and code names (FR and NL) as they
+ * appear in citations, expanded before candidate search so "Ger.W." finds
+ * "Code judiciaire" / "Gerechtelijk Wetboek" titles.
+ *
+ * Keys are lowercase, without accents and without dots or spaces
+ * ("C. civ." → "cciv"). Values are the expanded (unaccented) names.
+ */
+export const ACT_ABBREVIATIONS: Record<string, string> = {
+  // --- French ---
+  cciv: 'code civil',
+  cjud: 'code judiciaire',
+  cj: 'code judiciaire',
+  cpen: 'code penal',
+  cicr: "code d instruction criminelle",
+  ccom: 'code de commerce',
+  csoc: 'code des societes',
+  csa: 'code des societes et des associations',
+  cde: 'code de droit economique',
+  cir: 'code des impots sur les revenus',
+  cir92: 'code des impots sur les revenus 1992',
+  ctva: 'code de la taxe sur la valeur ajoutee',
+  ctrav: 'code du travail',
+  const: 'constitution',
+  ar: 'arrete royal',
+  am: 'arrete ministeriel',
+  ag: 'arrete du gouvernement',
+  agw: 'arrete du gouvernement wallon',
+  agrbc: 'arrete du gouvernement de la region de bruxelles capitale',
+  decr: 'decret',
+  ord: 'ordonnance',
+  coord: 'coordonne',
+  lc: 'lois coordonnees',
+
+  // --- Dutch ---
+  w: 'wet',
+  bw: 'burgerlijk wetboek',
+  gerw: 'gerechtelijk wetboek',
+  sw: 'strafwetboek',
+  sv: 'wetboek van strafvordering',
+  wkh: 'wetboek van koophandel',
+  wvenn: 'wetboek van vennootschappen',
+  wvv: 'wetboek van vennootschappen en verenigingen',
+  wer: 'wetboek van economisch recht',
+  wib: 'wetboek van de inkomstenbelastingen',
+  wib92: 'wetboek van de inkomstenbelastingen 1992',
+  wbtw: 'wetboek van de belasting over de toegevoegde waarde',
+  gw: 'grondwet',
+  kb: 'koninklijk besluit',
+  mb: 'ministerieel besluit',
+  bvr: 'besluit van de vlaamse regering',
+  bvlreg: 'besluit van de vlaamse regering',
+  gecoord: 'gecoordineerd',
+  gecw: 'gecoordineerde wetten',
+};
@@ -4,10 +4,14 @@
  * Processes items concurrently (up to step.concurrencyLimit) with per-item
  * retry and model escalation (gpt-5-mini -> gpt-5.2 on 3rd attempt).
  * Uses a sliding-window pattern so a new item starts as soon as one finishes.
+ *
+ * Calls are charged to the budget per step and tier. Items stopped by the
+ * budget stay pending (not failed) so a resumed run picks them up.
  */
 
 import { OpenAIConcurrentClient } from '../../concurrent/OpenAIConcurrentClient.js';
 import { MappingStep, MappingStepState, StepContext } from './types.js';
+import { BudgetTracker } from '../../core/BudgetTracker.js';
 
 const MAX_RETRIES = 3;
 const RETRY_DELAY_MS = 2000;
@@ -23,7 +27,8 @@ async function processSingleItem(
   context: StepContext,
   getClient: (model: string) => OpenAIConcurrentClient,
   stepState: MappingStepState,
-  saveItemResult: (stepId: string, itemId: string, result: any) => void
+  saveItemResult: (stepId: string, itemId: string, result: any) => void,
+  budget: BudgetTracker
 ): Promise<void> {
   const itemId = String(item.id || item.internal_decision_id || item.internal_parent_act_id);
   const existingState = stepState.items[itemId];
@@ -50,7 +55,13 @@ async function processSingleItem(
   let succeeded = false;
 
   for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-    const useEscalation = attempt === MAX_RETRIES;
+    if (budget.isExceeded) {
+      itemState.status = 'pending';
+      itemState.error = `Budget exceeded: ${budget.reason}`;
+      return;
+    }
+
+    const useEscalation = attempt === MAX_RETRIES && budget.canEscalate();
     const model = useEscalation ? ESCALATION_MODEL : DEFAULT_MODEL;
     const client = getClient(model);
 
@@ -58,7 +69,10 @@ async function processSingleItem(
     itemState.model = model;
 
     try {
-      const result = await step.processItem(item, client, context);
+      const result = await budget.run(
+        { job: step.id, tier: useEscalation ? 'escalation' : 'standard' },
+        () => step.processItem(item, client, context)
+      );
 
       itemState.durationMs = Date.now() - itemStart;
 
@@ -72,6 +86,7 @@ async function processSingleItem(
         });
       } else {
         itemState.status = 'completed';
+        delete itemState.error;
         if (result.tokenUsage) {
           itemState.tokenUsage = result.tokenUsage;
         }
@@ -88,6 +103,12 @@ async function processSingleItem(
       lastError = error;
       console.log(`      ❌ Item ${itemId} attempt ${attempt}/${MAX_RETRIES} failed: ${error.message}`);
 
+      if (budget.isExceeded) {
+        itemState.status = 'pending';
+        itemState.error = `Budget exceeded: ${budget.reason}`;
+        return;
+      }
+
       if (attempt < MAX_RETRIES) {
         await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS));
       }
@@ -117,7 +138,8 @@ export async function processItemsWithRetry(
   getClient: (model: string) => OpenAIConcurrentClient,
   stepState: MappingStepState,
   saveState: () => void,
-  saveItemResult: (stepId: string, itemId: string, result: any) => void
+  saveItemResult: (stepId: string, itemId: string, result: any) => void,
+  budget: BudgetTracker
 ): Promise<void> {
   const limit = step.concurrencyLimit;
   let nextIdx = 0;
@@ -145,7 +167,7 @@ export async function processItemsWithRetry(
         const item = items[nextIdx++];
         activeTasks++;
 
-        processSingleItem(item, step, context, getClient, stepState, saveItemResult)
+        processSingleItem(item, step, context, getClient, stepState, saveItemResult, budget)
           .then(() => {
             activeTasks--;
             maybeSaveState();
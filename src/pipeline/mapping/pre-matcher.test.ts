@@ -0,0 +1,125 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { IndexedDocument, ProvisionCandidateIndex } from './CandidateIndex.js';
+import { PreMatchInput, ProvisionPreMatcher } from './pre-matcher.js';
+
+const DOCUMENTS: IndexedDocument[] = [
+  { documentNumber: '1804032150', title: 'Code civil', documentType: 'CODE', date: '1804-03-21' },
+  { documentNumber: '1967101052', title: 'Gerechtelijk Wetboek', documentType: 'CODE', date: '1967-10-10' },
+  {
+    documentNumber: '2007002098',
+    title: 'Loi tendant à lutter contre certaines formes de discrimination',
+    documentType: 'LOI',
+    date: '2007-05-10',
+  },
+  { documentNumber: '1978070335', title: 'Loi relative aux contrats de travail', documentType: 'LOI', date: '1978-07-03' },
+  { documentNumber: '1991009999', title: 'Loi relative aux contrats de travail', documentType: 'LOI', date: '1991-01-01' },
+  { documentNumber: '2001000001', title: 'Loi portant des dispositions diverses', documentType: 'LOI', date: '2001-01-01' },
+];
+
+const ALIASES = [{ 'C. civ.': '1804032150', 'Gerechtelijk Wetboek': '1967101052' }];
+
+const matcher = new ProvisionPreMatcher(ALIASES);
+const index = new ProvisionCandidateIndex(DOCUMENTS);
+const minConfidence = ProvisionPreMatcher.getMinConfidence();
+
+function input(overrides: Partial<PreMatchInput>): PreMatchInput {
+  return { actName: '', types: ['unknown'], actDate: null, citationParagraph: null, ...overrides };
+}
+
+describe('ProvisionPreMatcher', () => {
+  describe('alias rule', () => {
+    it('fast-paths literal alias matches', () => {
+      const match = matcher.match(input({ actName: 'c. civ' }), index);
+      assert.equal(match?.rule, 'alias');
+      assert.equal(match?.documentNumber, '1804032150');
+      assert.equal(match?.confidence, 1.0);
+    });
+
+    it('scores alias matches found by abbreviation expansion below the threshold', () => {
+      const match = matcher.match(input({ actName: 'Ger.W.' }), index);
+      assert.equal(match?.rule, 'alias');
+      assert.equal(match?.documentNumber, '1967101052');
+      assert.ok(match!.confidence < minConfidence);
+    });
+
+    it('ignores aliases whose document has an incompatible type', () => {
+      const match = matcher.match(input({ actName: 'C. civ.', types: ['LOI'] }), index);
+      assert.notEqual(match?.rule, 'alias');
+    });
+  });
+
+  describe('identifier rule', () => {
+    const paragraph = 'Vu la loi du 10 mai 2007 (numac 2007002098).';
+
+    it('fast-paths a cited NUMAC whose title matches the cited act', () => {
+      const match = matcher.match(
+        input({ actName: 'Loi tendant à lutter contre certaines formes de discrimination', citationParagraph: paragraph }),
+        index
+      );
+      assert.equal(match?.rule, 'identifier');
+      assert.equal(match?.documentNumber, '2007002098');
+      assert.ok(match!.confidence >= minConfidence);
+    });
+
+    it('scores a cited NUMAC below the threshold when titles disagree and no date is cited', () => {
+      const match = matcher.match(
+        input({ actName: 'Loi portant des dispositions diverses', citationParagraph: paragraph }),
+        index
+      );
+      assert.equal(match?.rule, 'identifier');
+      assert.ok(match!.confidence < minConfidence);
+    });
+
+    it('scores a cited NUMAC with another date below the threshold', () => {
+      const match = matcher.match(
+        input({
+          actName: 'Loi tendant à lutter contre certaines formes de discrimination',
+          actDate: '2008-01-01',
+          citationParagraph: paragraph,
+        }),
+        index
+      );
+      assert.equal(match?.rule, 'identifier');
+      assert.ok(match!.confidence < minConfidence);
+    });
+
+    it('keeps the identifier dated like the citation when several are cited', () => {
+      const match = matcher.match(
+        input({
+          actName: 'Loi relative aux contrats de travail',
+          actDate: '1978-07-03',
+          citationParagraph: 'NUMAC: 1978070335 et 2007002098',
+        }),
+        index
+      );
+      assert.equal(match?.rule, 'identifier');
+      assert.equal(match?.documentNumber, '1978070335');
+    });
+  });
+
+  describe('title rules', () => {
+    it('fast-paths one document with the same title and date', () => {
+      const match = matcher.match(input({ actName: 'Loi relative aux contrats de travail', actDate: '1991-01-01' }), index);
+      assert.equal(match?.rule, 'title-date');
+      assert.equal(match?.documentNumber, '1991009999');
+      assert.ok(match!.confidence >= minConfidence);
+    });
+
+    it('scores a unique title without a date below the threshold', () => {
+      const match = matcher.match(input({ actName: 'Loi portant des dispositions diverses' }), index);
+      assert.equal(match?.rule, 'title');
+      assert.equal(match?.documentNumber, '2001000001');
+      assert.ok(match!.confidence < minConfidence);
+    });
+
+    it('does not resolve titles shared by several documents', () => {
+      assert.equal(matcher.match(input({ actName: 'Loi relative aux contrats de travail' }), index), null);
+    });
+  });
+
+  it('only checks aliases without an index', () => {
+    assert.equal(matcher.match(input({ actName: 'Loi portant des dispositions diverses' }), null), null);
+    assert.equal(matcher.match(input({ actName: 'C. civ.' }), null)?.documentNumber, '1804032150');
+  });
+});
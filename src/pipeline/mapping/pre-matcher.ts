@@ -0,0 +1,210 @@
+/**
+ * Provision Pre-Matcher
+ *
+ * Rule-based cascade run before the LLM in the provision mapping steps.
+ * Each rule either resolves the cited act to one document with a
+ * confidence score, or passes; the first rule that resolves wins:
+ *
+ * 1. alias       Known act names (popular-laws.json tables). Literal matches
+ *                (case, accents and punctuation aside) score 1.0; matches found
+ *                only after abbreviation expansion ("Ger.W." = "gerechtelijk
+ *                wetboek") score EXPANDED_ALIAS_CONFIDENCE and go to the model.
+ *                The aliased document must have a compatible type.
+ * 2. identifier  One NUMAC/ELI identifier in the citation paragraph
+ *                (ReferenceExtractorN8N) that exists in the documents table.
+ *                Fast-pathed only when the document's title matches the cited
+ *                name (same title, or trigram similarity of at least
+ *                IDENTIFIER_TITLE_SIMILARITY); otherwise the NUMAC may belong
+ *                to another act cited in the same paragraph.
+ * 3. title-date  One document with the same title and the same date
+ * 4. title       One document with the same title (no date to check). Scored
+ *                below the default threshold: the title alone does not show
+ *                that the document has the cited article.
+ *
+ * Matches at or above MAPPING_PRE_MATCH_MIN_CONFIDENCE (default: 0.9) are
+ * fast-pathed like popular-law matches; the others go to the model with
+ * the matched document listed first among the candidates.
+ */
+
+import { ReferenceExtractorN8N } from '../../utils/referenceExtractorN8N.js';
+import { IndexedDocument, ProvisionCandidateIndex, titleKey, titleSimilarity } from './CandidateIndex.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PreMatchRule = 'alias' | 'identifier' | 'title-date' | 'title';
+
+export interface PreMatch {
+  documentNumber: string;
+  rule: PreMatchRule;
+  /** 0-1; fast-pathed when >= ProvisionPreMatcher.getMinConfidence() */
+  confidence: number;
+  reasoning: string;
+}
+
+export interface PreMatchInput {
+  actName: string;
+  /** Document types compatible with the cited act type ('unknown' = any) */
+  types: string[];
+  /** Cited act date (YYYY-MM-DD), null when the citation has none */
+  actDate: string | null;
+  citationParagraph: string | null;
+}
+
+/** Confidence of alias hits that needed abbreviation expansion (below the default fast-path threshold) */
+const EXPANDED_ALIAS_CONFIDENCE = 0.85;
+
+/** Minimum title similarity for an identifier match to count as naming the cited act */
+const IDENTIFIER_TITLE_SIMILARITY = 0.6;
+
+/** Confidence of identifier matches whose title differs from the cited name (below the default fast-path threshold) */
+const IDENTIFIER_OTHER_TITLE_CONFIDENCE = 0.8;
+
+/** Confidence of unique-title matches without a date (below the default fast-path threshold) */
+const TITLE_ONLY_CONFIDENCE = 0.85;
+
+/**
+ * Alias comparison key without abbreviation expansion or stopword removal:
+ * lowercase, accents stripped, punctuation and whitespace collapsed
+ */
+function literalKey(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Alias key → document number; names that map to different documents
+ * across tables are dropped
+ */
+function buildAliases(aliasTables: Array<Record<string, string>>, keyOf: (name: string) => string): Map<string, string> {
+  const aliases = new Map<string, string>();
+  const conflicting = new Set<string>();
+  for (const table of aliasTables) {
+    for (const [name, documentNumber] of Object.entries(table)) {
+      const key = keyOf(name);
+      if (!key || conflicting.has(key)) continue;
+      const existing = aliases.get(key);
+      if (existing && existing !== documentNumber) {
+        aliases.delete(key);
+        conflicting.add(key);
+      } else {
+        aliases.set(key, documentNumber);
+      }
+    }
+  }
+  return aliases;
+}
+
+// ============================================================================
+// Pre-Matcher
+// ============================================================================
+
+export class ProvisionPreMatcher {
+  private aliases: Map<string, string>;
+  private literalAliases: Map<string, string>;
+  private extractor = new ReferenceExtractorN8N();
+
+  /**
+   * @param aliasTables Act name → document number tables (e.g. popular-laws.json).
+   *                    Names that map to different documents across tables are dropped.
+   */
+  constructor(aliasTables: Array<Record<string, string>>) {
+    this.aliases = buildAliases(aliasTables, (name) => titleKey(name, true));
+    this.literalAliases = buildAliases(aliasTables, literalKey);
+  }
+
+  static getMinConfidence(): number {
+    const value = parseFloat(process.env.MAPPING_PRE_MATCH_MIN_CONFIDENCE || '0.9');
+    return Number.isFinite(value) ? value : 0.9;
+  }
+
+  /**
+   * Run the cascade
+   *
+   * @param index Candidate index for identifier and title rules (null: aliases only)
+   * @returns The first resolved match (check confidence before trusting it), or null
+   */
+  match(input: PreMatchInput, index: ProvisionCandidateIndex | null): PreMatch | null {
+    const typeOk = (doc: IndexedDocument): boolean =>
+      input.types.includes('unknown') || input.types.includes(doc.documentType);
+
+    // 1. Known aliases (pre-verified mappings). Without an index, or for
+    // documents missing from it, the type cannot be checked.
+    const literal = this.literalAliases.get(literalKey(input.actName));
+    const aliased = literal ?? this.aliases.get(titleKey(input.actName, true));
+    const aliasedDoc = aliased ? index?.get(aliased) : undefined;
+    if (aliased && (!aliasedDoc || typeOk(aliasedDoc))) {
+      return {
+        documentNumber: aliased,
+        rule: 'alias',
+        confidence: literal ? 1.0 : EXPANDED_ALIAS_CONFIDENCE,
+        reasoning: literal
+          ? `Exact match to known act name: "${input.actName}"`
+          : `Known act name after abbreviation expansion: "${input.actName}"`,
+      };
+    }
+
+    if (!index) return null;
+
+    // 2. NUMAC / ELI identifiers in the citation paragraph
+    if (input.citationParagraph) {
+      const references = this.extractor.processDecision('', input.citationParagraph);
+      const docs = references.reference.be.verifiedNumac
+        .map((numac) => index.get(numac))
+        .filter((doc): doc is IndexedDocument => Boolean(doc) && typeOk(doc!));
+
+      // Several identifiers: keep the one dated like the citation
+      const resolved = docs.length > 1 && input.actDate ? docs.filter((d) => d.date === input.actDate) : docs;
+      if (resolved.length === 1) {
+        const doc = resolved[0];
+        const sameTitle = titleKey(doc.title) === titleKey(input.actName);
+        const similarTitle = sameTitle || titleSimilarity(doc.title, input.actName) >= IDENTIFIER_TITLE_SIMILARITY;
+        const dateOk = !input.actDate || !doc.date || doc.date === input.actDate;
+        return {
+          documentNumber: doc.documentNumber,
+          rule: 'identifier',
+          confidence: !dateOk ? 0.75 : sameTitle ? 0.99 : similarTitle ? 0.92 : IDENTIFIER_OTHER_TITLE_CONFIDENCE,
+          reasoning: `NUMAC ${doc.documentNumber} cited in the paragraph (${doc.title})` +
+            (dateOk ? '' : `, dated ${doc.date} instead of ${input.actDate}`) +
+            (similarTitle ? '' : `, titled unlike "${input.actName}"`),
+        };
+      }
+    }
+
+    // 3-4. Exact title (and date)
+    const sameTitle = index.findByTitle(input.actName).filter(typeOk);
+    if (input.actDate) {
+      const dated = sameTitle.filter((d) => d.date === input.actDate);
+      if (dated.length === 1) {
+        return {
+          documentNumber: dated[0].documentNumber,
+          rule: 'title-date',
+          confidence: 0.95,
+          reasoning: `Same title and date: "${dated[0].title}" (${input.actDate})`,
+        };
+      }
+      if (dated.length === 0 && sameTitle.length === 1) {
+        return {
+          documentNumber: sameTitle[0].documentNumber,
+          rule: 'title',
+          confidence: 0.7,
+          reasoning: `Same title "${sameTitle[0].title}", but dated ${sameTitle[0].date ?? 'unknown'} (cited ${input.actDate})`,
+        };
+      }
+    } else if (sameTitle.length === 1) {
+      return {
+        documentNumber: sameTitle[0].documentNumber,
+        rule: 'title',
+        confidence: TITLE_ONLY_CONFIDENCE,
+        reasoning: `Only document titled "${sameTitle[0].title}"`,
+      };
+    }
+
+    return null;
+  }
+}
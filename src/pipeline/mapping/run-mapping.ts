@@ -1,55 +1,29 @@
-#!/usr/bin/env tsx
 /**
- * Mapping Pipeline CLI
+ * Mapping Pipeline Run
  *
- * Runs all 4 mapping steps for a single decision.
- *
- * Usage:
+ * Runs all 4 mapping steps for a single decision. Backs `mapping run` in
+ * the CLI (src/cli/commands/pipeline.ts):
  *   npm run mapping-pipeline -- --decision-id "ECLI:BE:CASS:2023:ARR.20230131.1F.1" --language FR
  *   npm run mapping-pipeline -- --decision-id "ECLI:..." --language FR --state-file path/to/state.json
+ *   npm run mapping-pipeline -- --decision-id "ECLI:..." --language FR --max-cost 1 --max-escalation-cost 0.25
  */
 
-import dotenv from 'dotenv';
-dotenv.config();
-
 import { DatabaseConfig } from '../../config/database.js';
 import { MappingOrchestrator } from './MappingOrchestrator.js';
+import { MappingPipelineState } from './types.js';
+import { BudgetLimits, BudgetTracker, CostReport } from '../../core/BudgetTracker.js';
+
+export interface MappingRunOptions {
+  decisionId: string;
+  language: string;
+  stateFile?: string;
+  budget: BudgetLimits;
+}
 
-// ============================================================================
-// Parse CLI arguments
-// ============================================================================
-
-function parseArgs(): { decisionId: string; language: string; stateFile?: string } {
-  const args = process.argv.slice(2);
-  let decisionId = '';
-  let language = '';
-  let stateFile: string | undefined;
-
-  for (let i = 0; i < args.length; i++) {
-    if (args[i] === '--decision-id' && args[i + 1]) {
-      decisionId = args[++i];
-    } else if (args[i] === '--language' && args[i + 1]) {
-      language = args[++i].toUpperCase();
-    } else if (args[i] === '--state-file' && args[i + 1]) {
-      stateFile = args[++i];
-    }
-  }
-
-  if (!decisionId || !language) {
-    console.error('Usage: npm run mapping-pipeline -- --decision-id <ECLI> --language <FR|NL>');
-    console.error('  Options:');
-    console.error('    --decision-id  ECLI identifier (required)');
-    console.error('    --language     FR or NL (required)');
-    console.error('    --state-file   Path to state file for resume (optional)');
-    process.exit(1);
-  }
-
-  if (language !== 'FR' && language !== 'NL') {
-    console.error(`Invalid language: ${language}. Must be FR or NL.`);
-    process.exit(1);
-  }
-
-  return { decisionId, language, stateFile };
+export interface MappingRunResult {
+  success: boolean;
+  summary: MappingPipelineState;
+  cost: CostReport;
 }
 
 // ============================================================================
@@ -68,11 +42,15 @@ async function validateDecision(decisionId: string): Promise<void> {
 }
 
 // ============================================================================
-// Main
+// Run
 // ============================================================================
 
-async function main() {
-  const { decisionId, language, stateFile } = parseArgs();
+/**
+ * Run (or resume) the mapping pipeline for one decision and print the step summary
+ */
+export async function runMappingPipeline(options: MappingRunOptions): Promise<MappingRunResult> {
+  const { decisionId, language, stateFile } = options;
+  const budget = new BudgetTracker(options.budget);
 
   console.log(`\nMapping Pipeline`);
   console.log(`   Decision: ${decisionId}`);
@@ -84,7 +62,7 @@ async function main() {
   console.log('   Decision found.');
 
   // Create orchestrator
-  const orchestrator = new MappingOrchestrator(decisionId, language);
+  const orchestrator = new MappingOrchestrator(decisionId, language, undefined, undefined, budget);
 
   // Try to resume from state file
   if (stateFile) {
@@ -96,9 +74,6 @@ async function main() {
   // Run pipeline
   const { success, summary } = await orchestrator.run();
 
-  // Close database connection
-  await DatabaseConfig.close();
-
   // Print summary
   console.log('\nStep Summary:');
   for (const [stepId, stepState] of Object.entries(summary.steps)) {
@@ -109,17 +84,15 @@ async function main() {
     console.log(`   [${status}] ${stepId.padEnd(30)} ${duration.padEnd(8)} ${counts}`);
   }
 
-  if (!success) {
+  const cost = budget.buildReport();
+  BudgetTracker.printReport(cost);
+
+  if (summary.status === 'paused') {
+    console.log(`\nBudget reached (${budget.reason}). Re-run with the same arguments to resume.`);
+  } else if (!success) {
     console.error('\nPipeline failed. See logs above for details.');
     console.error('To resume, re-run with the same arguments (state is auto-saved).');
-    process.exit(1);
   }
 
-  process.exit(0);
+  return { success, summary, cost };
 }
-
-main().catch((error) => {
-  console.error('\nFatal error:', error.message);
-  DatabaseConfig.close().catch(() => {});
-  process.exit(1);
-});
@@ -18,6 +18,8 @@ import { PASS_1_CODE_FAMILY_PROMPT, PASS_2_EXACT_MATCH_PROMPT } from '../../jobs
 import { NO_DATE_MAPPING_PROMPT } from '../../jobs/map-provisions-no-date/prompt.js';
 import { CITED_DECISION_MAPPING_PROMPT } from '../../jobs/map-cited-decisions/prompt.js';
 import { loadAllProvisions, loadCitedDecisions } from './data-loader.js';
+import { ProvisionCandidateIndex } from './CandidateIndex.js';
+import { PreMatch, ProvisionPreMatcher } from './pre-matcher.js';
 import { MappingStep, ItemResult, StepContext } from './types.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -30,18 +32,12 @@ const __dirname = dirname(__filename);
 const standardPopularLawsRaw: Record<string, string> = JSON.parse(
   readFileSync(join(__dirname, '../../jobs/map-provisions-standard/popular-laws.json'), 'utf-8')
 );
-const standardPopularLaws: Record<string, string> = {};
-for (const [name, docNum] of Object.entries(standardPopularLawsRaw)) {
-  standardPopularLaws[name.toLowerCase().trim()] = docNum;
-}
+const standardPreMatcher = new ProvisionPreMatcher([standardPopularLawsRaw]);
 
 const noDatePopularLawsRaw: Record<string, string> = JSON.parse(
   readFileSync(join(__dirname, '../../jobs/map-provisions-no-date/popular-laws.json'), 'utf-8')
 );
-const noDatePopularLaws: Record<string, string> = {};
-for (const [name, docNum] of Object.entries(noDatePopularLawsRaw)) {
-  noDatePopularLaws[name.toLowerCase().trim()] = docNum;
-}
+const noDatePreMatcher = new ProvisionPreMatcher([noDatePopularLawsRaw]);
 
 const codeMapping: Record<string, string[]> = JSON.parse(
   readFileSync(join(__dirname, '../../jobs/map-provisions-code/code-mapping.json'), 'utf-8')
@@ -102,6 +98,116 @@ function isKnownMissingCourt(courtName: string): boolean {
   return missingCourts.has(normalizeCourtName(courtName));
 }
 
+// ============================================================================
+// Candidate Index (shared across items; DB queries when it cannot be loaded)
+// ============================================================================
+
+let candidateIndexUnavailable = false;
+
+async function getCandidateIndex(): Promise<ProvisionCandidateIndex | null> {
+  if (candidateIndexUnavailable || process.env.MAPPING_CANDIDATE_INDEX === 'off') return null;
+  try {
+    return await ProvisionCandidateIndex.shared();
+  } catch (error: any) {
+    candidateIndexUnavailable = true;
+    console.warn(`⚠️  Candidate index unavailable, querying documents per item: ${error.message}`);
+    return null;
+  }
+}
+
+// ============================================================================
+// Article existence lookup (batched across concurrently processed items)
+// ============================================================================
+
+interface ArticleLookupRequest {
+  article: string;
+  documentNumbers: string[];
+  resolve: (found: Set<string>) => void;
+  reject: (error: Error) => void;
+}
+
+let articleLookupQueue: ArticleLookupRequest[] = [];
+
+/**
+ * Documents among `documentNumbers` that contain `article`
+ *
+ * Requests made while other items are in flight are collected and sent as
+ * one query over (article_number, document_number) pairs.
+ */
+function documentsWithArticle(article: string, documentNumbers: string[]): Promise<Set<string>> {
+  return new Promise((resolve, reject) => {
+    articleLookupQueue.push({ article, documentNumbers, resolve, reject });
+    if (articleLookupQueue.length === 1) {
+      setImmediate(flushArticleLookups);
+    }
+  });
+}
+
+async function flushArticleLookups(): Promise<void> {
+  const requests = articleLookupQueue;
+  articleLookupQueue = [];
+
+  const articles: string[] = [];
+  const documentNumbers: string[] = [];
+  for (const request of requests) {
+    for (const documentNumber of request.documentNumbers) {
+      articles.push(request.article);
+      documentNumbers.push(documentNumber);
+    }
+  }
+
+  try {
+    const rows = await DatabaseConfig.executeReadOnlyQuery<{ article_number: string; document_number: string }>(
+      `SELECT DISTINCT ac.article_number, ac.document_number
+       FROM unnest($1::text[], $2::text[]) AS wanted(article_number, document_number)
+       JOIN article_contents ac
+         ON ac.article_number = wanted.article_number
+         AND ac.document_number = wanted.document_number`,
+      [articles, documentNumbers]
+    );
+    const found = new Set(rows.map((row) => `${row.article_number}|${row.document_number}`));
+    for (const request of requests) {
+      request.resolve(new Set(request.documentNumbers.filter((d) => found.has(`${request.article}|${d}`))));
+    }
+  } catch (error: any) {
+    for (const request of requests) request.reject(error);
+  }
+}
+
+/**
+ * Fast-path result for a pre-match (same shape as the LLM output)
+ */
+function preMatchResult(preMatch: PreMatch, parentActType: string, extra: Record<string, any> = {}): ItemResult {
+  return {
+    success: true,
+    skipped: true,
+    skipReason: `Pre-match (${preMatch.rule}, ${preMatch.confidence.toFixed(2)}): ${preMatch.reasoning}`,
+    data: {
+      citation_type: mapToCitationType(parentActType),
+      matches: [{
+        document_number: preMatch.documentNumber,
+        confidence: preMatch.confidence,
+        score: Math.round(preMatch.confidence * 100),
+        ...extra,
+        reasoning: preMatch.reasoning,
+        context_alignment: 'STRONG',
+        context_notes: `Matched deterministically (${preMatch.rule} rule) before the LLM`
+      }],
+      no_match_reason: null
+    },
+  };
+}
+
+/**
+ * Move a below-threshold pre-match to the top of the candidate list
+ */
+function prioritizeCandidate(candidates: any[], preMatch: PreMatch | null): any[] {
+  if (!preMatch) return candidates;
+  const position = candidates.findIndex((c: any) => c.document_number === preMatch.documentNumber);
+  if (position <= 0) return candidates;
+  return [candidates[position], ...candidates.slice(0, position), ...candidates.slice(position + 1)];
+}
+
 // ============================================================================
 // Standard LLM Call Helper (same pattern as extraction pipeline)
 // ============================================================================
@@ -297,51 +403,51 @@ const stepMapProvisionsStandard: MappingStep = {
 
   processItem: async (item: any, client: OpenAIConcurrentClient, context: StepContext): Promise<ItemResult> => {
     const { parent_act_name, parent_act_type, parent_act_date } = item;
-
-    // Fast-path: popular-laws exact match
-    const normalized = normalizeString(parent_act_name);
-    const fastMatchDocNumber = standardPopularLaws[normalized];
-    if (fastMatchDocNumber) {
-      return {
-        success: true,
-        skipped: true,
-        skipReason: `Popular law match: "${parent_act_name}"`,
-        data: {
-          citation_type: mapToCitationType(parent_act_type),
-          matches: [{
-            document_number: fastMatchDocNumber,
-            confidence: 1.0,
-            score: 100,
-            reasoning: `Exact match to popular law: "${parent_act_name}"`,
-            context_alignment: 'STRONG',
-            context_notes: 'Matched via exact string lookup (pre-verified mapping)'
-          }],
-          no_match_reason: null
-        },
-      };
-    }
-
-    // Fetch candidates from DB
     const searchDate = formatDate(parent_act_date);
     const strictTypes = mapToDocumentType(parent_act_type);
+    const paragraph = context.relatedCitations.get(item.internal_provision_id) || null;
+    const index = await getCandidateIndex();
 
-    let candidates: any[] = [];
-    try {
-      candidates = await DatabaseConfig.executeReadOnlyQuery(
-        `SELECT document_number, title, document_type FROM documents WHERE dossier_number LIKE $1 AND document_type = ANY($2)`,
-        [`${searchDate}%`, strictTypes]
-      );
+    // Fast-path: deterministic pre-match (popular laws, NUMAC/ELI, exact title and date)
+    const preMatch = standardPreMatcher.match(
+      { actName: parent_act_name, types: strictTypes, actDate: searchDate || null, citationParagraph: paragraph },
+      index
+    );
+    if (preMatch && preMatch.confidence >= ProvisionPreMatcher.getMinConfidence()) {
+      return preMatchResult(preMatch, parent_act_type);
+    }
 
-      if (candidates.length > 200) {
+    // Fetch candidates
+    let candidates: any[] = [];
+    if (index) {
+      // Date window ±3 days (and day/month swapped), title ranking when nothing is dated nearby
+      const { candidates: matches } = index.search(parent_act_name, { types: strictTypes, date: searchDate, limit: 200 });
+      candidates = matches.map((m) => ({ document_number: m.documentNumber, title: m.title, document_type: m.documentType }));
+
+      const preMatched = preMatch && index.get(preMatch.documentNumber);
+      if (preMatched && !candidates.some((c) => c.document_number === preMatched.documentNumber)) {
+        candidates.unshift({ document_number: preMatched.documentNumber, title: preMatched.title, document_type: preMatched.documentType });
+      }
+    } else {
+      try {
         candidates = await DatabaseConfig.executeReadOnlyQuery(
-          `SELECT document_number, title, document_type, similarity(title, $3) AS sim_score FROM documents WHERE dossier_number LIKE $1 AND document_type = ANY($2) ORDER BY sim_score DESC LIMIT 200`,
-          [`${searchDate}%`, strictTypes, parent_act_name]
+          `SELECT document_number, title, document_type FROM documents WHERE dossier_number LIKE $1 AND document_type = ANY($2)`,
+          [`${searchDate}%`, strictTypes]
         );
+
+        if (candidates.length > 200) {
+          candidates = await DatabaseConfig.executeReadOnlyQuery(
+            `SELECT document_number, title, document_type, similarity(title, $3) AS sim_score FROM documents WHERE dossier_number LIKE $1 AND document_type = ANY($2) ORDER BY sim_score DESC LIMIT 200`,
+            [`${searchDate}%`, strictTypes, parent_act_name]
+          );
+        }
+      } catch (error: any) {
+        console.error(`      Error fetching candidates for ${item.internal_parent_act_id}:`, error.message);
       }
-    } catch (error: any) {
-      console.error(`      Error fetching candidates for ${item.internal_parent_act_id}:`, error.message);
     }
 
+    candidates = prioritizeCandidate(candidates, preMatch);
+
     // Build prompt
     const candidatesList = candidates.length > 0
       ? candidates.map((c: any) => `- [${c.document_number}] (${c.document_type}) ${c.title}`).join('\n')
@@ -596,28 +702,17 @@ const stepMapProvisionsNoDate: MappingStep = {
   processItem: async (item: any, client: OpenAIConcurrentClient, context: StepContext): Promise<ItemResult> => {
     const { parent_act_name, parent_act_type, provision_number, provision_number_key } = item;
 
-    // Fast-path: popular-laws exact match
-    const normalized = normalizeString(parent_act_name);
-    const fastMatchDocNumber = noDatePopularLaws[normalized];
-    if (fastMatchDocNumber) {
-      return {
-        success: true,
-        skipped: true,
-        skipReason: `Popular law match: "${parent_act_name}"`,
-        data: {
-          citation_type: mapToCitationType(parent_act_type),
-          matches: [{
-            document_number: fastMatchDocNumber,
-            confidence: 1.0,
-            score: 100,
-            title_match: 'EXACT',
-            reasoning: `Exact match to popular law: "${parent_act_name}"`,
-            context_alignment: 'STRONG',
-            context_notes: 'Matched via exact string lookup (pre-verified mapping)'
-          }],
-          no_match_reason: null
-        },
-      };
+    const targetTypes = mapToDocumentType(parent_act_type);
+    const paragraph = context.relatedCitations.get(item.internal_provision_id) || null;
+    const index = await getCandidateIndex();
+
+    // Fast-path: deterministic pre-match (popular laws, NUMAC/ELI, unique exact title)
+    const preMatch = noDatePreMatcher.match(
+      { actName: parent_act_name, types: targetTypes, actDate: null, citationParagraph: paragraph },
+      index
+    );
+    if (preMatch && preMatch.confidence >= ProvisionPreMatcher.getMinConfidence()) {
+      return preMatchResult(preMatch, parent_act_type, { title_match: 'EXACT' });
     }
 
     // Determine article lookup key
@@ -639,40 +734,64 @@ const stepMapProvisionsNoDate: MappingStep = {
       : parent_act_name;
 
     // Fetch candidates
-    const targetTypes = mapToDocumentType(parent_act_type);
     const MAX_CANDIDATES = 200;
 
-    let query = `
-      SELECT d.document_number, d.title, d.dossier_number,
-             similarity(d.title, $1) AS sim_score
-      FROM documents d
-      JOIN article_contents ac ON d.document_number = ac.document_number
-      WHERE ac.article_number = $2
-        AND similarity(d.title, $1) >= 0.15
-    `;
-    const params: any[] = [searchName, articleLookup];
-    let paramIdx = 3;
+    let candidates: any[];
+    if (index) {
+      // Rank titles locally, then keep documents that have the cited article (batched lookup)
+      const { candidates: matches } = index.search(searchName, {
+        types: targetTypes,
+        before: context.decisionDate,
+        limit: MAX_CANDIDATES * 5,
+      });
+
+      let withArticle = new Set<string>();
+      if (matches.length > 0) {
+        try {
+          withArticle = await documentsWithArticle(articleLookup, matches.map((m) => m.documentNumber));
+        } catch (e: any) {
+          throw new Error(`DB query failed for ${item.internal_parent_act_id}: ${e.message}`);
+        }
+      }
 
-    if (context.decisionDate) {
-      query += ` AND TO_DATE(SUBSTRING(d.dossier_number, 1, 10), 'YYYY-MM-DD') < $${paramIdx}::date`;
-      params.push(context.decisionDate);
-      paramIdx++;
-    }
+      candidates = matches
+        .filter((m) => withArticle.has(m.documentNumber))
+        .slice(0, MAX_CANDIDATES)
+        .map((m) => ({ document_number: m.documentNumber, title: m.title, dossier_number: m.date }));
+    } else {
+      let query = `
+        SELECT d.document_number, d.title, d.dossier_number,
+               similarity(d.title, $1) AS sim_score
+        FROM documents d
+        JOIN article_contents ac ON d.document_number = ac.document_number
+        WHERE ac.article_number = $2
+          AND similarity(d.title, $1) >= 0.15
+      `;
+      const params: any[] = [searchName, articleLookup];
+      let paramIdx = 3;
+
+      if (context.decisionDate) {
+        query += ` AND TO_DATE(SUBSTRING(d.dossier_number, 1, 10), 'YYYY-MM-DD') < $${paramIdx}::date`;
+        params.push(context.decisionDate);
+        paramIdx++;
+      }
 
-    if (targetTypes.length > 0 && !targetTypes.includes('unknown')) {
-      query += ` AND d.document_type = ANY($${paramIdx})`;
-      params.push(targetTypes);
-    }
+      if (targetTypes.length > 0 && !targetTypes.includes('unknown')) {
+        query += ` AND d.document_type = ANY($${paramIdx})`;
+        params.push(targetTypes);
+      }
 
-    query += ` ORDER BY sim_score DESC LIMIT ${MAX_CANDIDATES}`;
+      query += ` ORDER BY sim_score DESC LIMIT ${MAX_CANDIDATES}`;
 
-    let candidates: any[];
-    try {
-      candidates = await DatabaseConfig.executeReadOnlyQuery(query, params);
-    } catch (e: any) {
-      throw new Error(`DB query failed for ${item.internal_parent_act_id}: ${e.message}`);
+      try {
+        candidates = await DatabaseConfig.executeReadOnlyQuery(query, params);
+      } catch (e: any) {
+        throw new Error(`DB query failed for ${item.internal_parent_act_id}: ${e.message}`);
+      }
     }
 
+    candidates = prioritizeCandidate(candidates, preMatch);
+
     // Build prompt
     const candidatesList = candidates.length > 0
       ? candidates.map((c: any) => {
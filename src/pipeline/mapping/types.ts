@@ -43,7 +43,8 @@ export interface MappingPipelineState {
   decisionId: string;
   language: string;
   startedAt: string;
-  status: 'running' | 'completed' | 'failed';
+  /** 'paused' when the budget stopped the run (resume re-runs pending items) */
+  status: 'running' | 'completed' | 'failed' | 'paused';
   currentStep: string | null;
   steps: Record<string, MappingStepState>;
   completedAt?: string;
@@ -0,0 +1,98 @@
+/**
+ * Multi-Decision Pipeline Run
+ *
+ * Backs `pipeline batch` in the CLI (src/cli/commands/pipeline.ts):
+ *   npm run pipeline:batch -- --file decisions.txt
+ *   npm run pipeline:batch -- --test-set evals/test-sets/comprehensive-197.csv --concurrency 8
+ *   npm run pipeline:batch -- --court CASS --from 2023-01-01 --limit 50
+ *   npm run pipeline:batch -- --file decisions.txt --max-cost 20 --max-escalation-cost 5
+ *
+ * Decision files contain one "<ECLI> <FR|NL>" (or "<ECLI>,<FR|NL>") per line;
+ * .csv and .json files are read as test sets.
+ */
+
+import { DecisionKey } from '../utils/failureLoader.js';
+import { BatchPipelineOptions, BatchPipelineReport, BatchPipelineRunner } from './BatchPipelineRunner.js';
+import {
+  DecisionFilter,
+  dedupeDecisionKeys,
+  hasDecisionFilter,
+  loadDecisionKeysFromFile,
+  loadDecisionKeysFromQuery,
+} from './decision-loader.js';
+
+export interface BatchRunOptions extends BatchPipelineOptions {
+  /** Decision list or test set (exclusive with filter) */
+  file?: string;
+  /** Database filter (exclusive with file) */
+  filter?: DecisionFilter;
+  limit?: number;
+}
+
+export interface BatchRunResult {
+  /** Null when no decisions matched */
+  report: BatchPipelineReport | null;
+  exitCode: number;
+}
+
+/**
+ * Run the pipeline over a set of decisions and print the batch report
+ */
+export async function runBatchPipeline(options: BatchRunOptions): Promise<BatchRunResult> {
+  const { file, filter, limit, ...runnerOptions } = options;
+  const filtered = filter !== undefined && hasDecisionFilter(filter);
+
+  if (!file && !filtered) {
+    throw new Error('One of --file/--test-set or a filter (--court, --decision-type, --language, --from, --to) is required.');
+  }
+  if (file && filtered) {
+    throw new Error('Use either --file/--test-set or filter flags, not both.');
+  }
+
+  console.log(`\n📋 Multi-Decision Pipeline`);
+
+  let keys: DecisionKey[];
+  if (file) {
+    console.log(`📥 Loading decisions from ${file}...`);
+    keys = await loadDecisionKeysFromFile(file);
+  } else {
+    console.log('📥 Querying decisions from database...');
+    keys = await loadDecisionKeysFromQuery(filter!, limit);
+  }
+
+  keys = dedupeDecisionKeys(keys);
+  if (limit && keys.length > limit) {
+    keys = keys.slice(0, limit);
+  }
+
+  const invalid = keys.filter(k => k.language !== 'FR' && k.language !== 'NL');
+  if (invalid.length > 0) {
+    throw new Error(
+      `Invalid language for ${invalid.length} decision(s), e.g. ${invalid[0].decision_id} (${invalid[0].language})`
+    );
+  }
+
+  if (keys.length === 0) {
+    console.log('⚠️  No decisions to process.');
+    return { report: null, exitCode: 0 };
+  }
+
+  console.log(`   Found ${keys.length} decisions`);
+
+  const runner = new BatchPipelineRunner(runnerOptions);
+  const report = await runner.run(keys);
+
+  BatchPipelineRunner.printReport(report);
+
+  if (report.failed > 0 || report.errors > 0) {
+    console.error('❌ Some decisions failed. Re-run the same command to resume (completed decisions are skipped).');
+    return { report, exitCode: 1 };
+  }
+
+  if (report.budgetStop) {
+    console.log('⏸️  Budget reached. Re-run the same command (with a higher budget) to resume.');
+    return { report, exitCode: runner.budgetAction === 'abort' ? 1 : 0 };
+  }
+
+  return { report, exitCode: 0 };
+}
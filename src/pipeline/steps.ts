@@ -8,6 +8,9 @@
 
 import { OpenAIConcurrentClient } from '../concurrent/OpenAIConcurrentClient.js';
 import { extractJsonFromResponse } from '../utils/validators.js';
+import { computeVersion, PromptSchemaVersion } from '../utils/versioning.js';
+import { SelfConsistencyConfig } from '../core/SelfConsistency.js';
+import { GROUNDING_FIELD, verifyGrounding } from '../utils/groundingVerifier.js';
 
 // ============================================================================
 // Safe imports (no module-level side effects)
@@ -19,15 +22,18 @@ import extractComprehensiveConfig from '../jobs/extract-comprehensive/config.js'
 
 // Step 2: extract-provisions-2a
 import { executeTwoStageExtraction as executeTwoStageProvisions } from '../jobs/extract-provisions-2a/two-stage-executor.js';
+import { STAGE_1_AGENTIC_SNIPPETS_PROMPT as PROVISIONS_STAGE_1_PROMPT } from '../jobs/extract-provisions-2a/stage1-prompt.js';
+import { STAGE_2_PARSING_PROMPT as PROVISIONS_STAGE_2_PROMPT } from '../jobs/extract-provisions-2a/stage2-prompt.js';
 // Step 3: extract-cited-decisions
 import { executeTwoStageExtraction as executeTwoStageDecisions } from '../jobs/extract-cited-decisions/two-stage-executor.js';
+import { STAGE_2_PARSING_PROMPT as CITED_DECISIONS_STAGE_2_PROMPT } from '../jobs/extract-cited-decisions/stage2-prompt.js';
 
 // Step 4: extract-keywords
 import { KEYWORD_EXTRACTION_PROMPT } from '../jobs/extract-keywords/prompt.js';
 import extractKeywordsConfig from '../jobs/extract-keywords/config.js';
 
 // Step 5: extract-micro-summary
-import { createMicroSummaryPrompt } from '../jobs/extract-micro-summary/prompt.js';
+import { createMicroSummaryPrompt, MICRO_SUMMARY_PROMPT_TEMPLATE } from '../jobs/extract-micro-summary/prompt.js';
 import extractMicroSummaryConfig from '../jobs/extract-micro-summary/config.js';
 
 // Step 6: enrich-provisions (regex, no LLM)
@@ -55,6 +61,12 @@ import {
   runStage2TopicSetSelection,
   runStage3WithRetry,
 } from '../jobs/classify-legal-issues/stages.js';
+import {
+  STAGE1_SYSTEM_PROMPT as CLASSIFY_STAGE1_PROMPT,
+  STAGE2_SYSTEM_PROMPT as CLASSIFY_STAGE2_PROMPT,
+  STAGE3_SYSTEM_PROMPT as CLASSIFY_STAGE3_PROMPT,
+} from '../jobs/classify-legal-issues/prompts.js';
+import { classifyLegalIssuesSchema } from '../jobs/classify-legal-issues/schema.js';
 import { buildFinalClassification, validateClassification } from '../jobs/classify-legal-issues/validation.js';
 
 // Step 9: convert-md-to-html (no LLM) + block extraction for citation steps
@@ -72,6 +84,22 @@ export interface PipelineStep {
   requiresLLM: boolean;
   execute: (row: any, upstreamResults: Record<string, any>, client: OpenAIConcurrentClient) => Promise<any>;
   postProcess?: (row: any, upstreamResults: Record<string, any>, rawResult: any) => any;
+  /** Prompt texts used by execute, for versioning */
+  versionedPrompts?: string[];
+  /** Output schemas used by execute, for versioning */
+  versionedSchemas?: object[];
+  /** How to reconcile samples of this step (sampled with `pipeline --samples`) */
+  selfConsistency?: SelfConsistencyConfig;
+}
+
+/**
+ * Prompt/schema version of a step
+ *
+ * Covers the declared prompts and schemas, so editing a prompt file or a
+ * schema changes the version. Step code is not hashed.
+ */
+export function computeStepVersion(step: PipelineStep): PromptSchemaVersion {
+  return computeVersion(step.versionedPrompts ?? [], step.versionedSchemas ?? []);
 }
 
 // ============================================================================
@@ -160,6 +188,8 @@ const stepExtractComprehensive: PipelineStep = {
   id: 'extract-comprehensive',
   dependsOn: [],
   requiresLLM: true,
+  versionedPrompts: [COMPREHENSIVE_PROMPT],
+  versionedSchemas: [extractComprehensiveConfig.outputSchema],
   execute: async (row, _upstream, client) => {
     const prompt = COMPREHENSIVE_PROMPT
       .replace('{decisionId}', row.decision_id || '')
@@ -182,6 +212,7 @@ const stepExtractProvisions2a: PipelineStep = {
   id: 'extract-provisions-2a',
   dependsOn: [],
   requiresLLM: true,
+  versionedPrompts: [PROVISIONS_STAGE_1_PROMPT, PROVISIONS_STAGE_2_PROMPT],
   execute: async (row, _upstream, client) => {
     return executeTwoStageProvisions(row, client);
   },
@@ -220,6 +251,7 @@ const stepExtractCitedDecisions: PipelineStep = {
   id: 'extract-cited-decisions',
   dependsOn: [],
   requiresLLM: true,
+  versionedPrompts: [CITED_DECISIONS_STAGE_2_PROMPT],
   execute: async (row, _upstream, client) => {
     return executeTwoStageDecisions(row, client);
   },
@@ -270,6 +302,8 @@ const stepExtractKeywords: PipelineStep = {
   id: 'extract-keywords',
   dependsOn: [],
   requiresLLM: true,
+  versionedPrompts: [KEYWORD_EXTRACTION_PROMPT],
+  versionedSchemas: [extractKeywordsConfig.outputSchema],
   execute: async (row, _upstream, client) => {
     const prompt = KEYWORD_EXTRACTION_PROMPT
       .replace('{decisionId}', row.decision_id || '')
@@ -292,6 +326,8 @@ const stepExtractMicroSummary: PipelineStep = {
   id: 'extract-micro-summary',
   dependsOn: [],
   requiresLLM: true,
+  versionedPrompts: [MICRO_SUMMARY_PROMPT_TEMPLATE],
+  versionedSchemas: [extractMicroSummaryConfig.outputSchema],
   execute: async (row, _upstream, client) => {
     // createMicroSummaryPrompt is the promptTemplate function from config
     const prompt = createMicroSummaryPrompt(row);
@@ -337,6 +373,7 @@ const stepInterpretProvisions: PipelineStep = {
   id: 'interpret-provisions',
   dependsOn: ['enrich-provisions'],
   requiresLLM: true,
+  versionedPrompts: [INTERPRET_PROVISIONS_PROMPT],
   execute: async (row, upstream, client) => {
     const enrichResult = upstream['enrich-provisions'];
     const citedProvisions = enrichResult?.citedProvisions || [];
@@ -440,6 +477,13 @@ const stepExtractLegalTeachings: PipelineStep = {
   id: 'extract-legal-teachings',
   dependsOn: ['interpret-provisions', 'extract-cited-decisions'],
   requiresLLM: true,
+  versionedPrompts: [EXTRACT_LEGAL_TEACHINGS_PROMPT],
+  versionedSchemas: [EXTRACT_LEGAL_TEACHINGS_SCHEMA],
+  // Teaching IDs are numbered per sample, so teachings are aligned by text
+  selfConsistency: {
+    samples: 1,
+    arrays: [{ path: 'legalTeachings', textField: 'text', reviewTierField: 'reviewTier' }],
+  },
   execute: async (row, upstream, client) => {
     const agent2cResult = upstream['interpret-provisions'];
     const agent3Result = upstream['extract-cited-decisions'];
@@ -461,6 +505,11 @@ const stepExtractLegalTeachings: PipelineStep = {
       { reasoningEffort: 'medium', maxOutputTokens: 128000 }
     );
   },
+  postProcess: (row, _upstream, result) => ({
+    ...result,
+    // courtVerbatim must be a verbatim quote of the decision markdown
+    [GROUNDING_FIELD]: verifyGrounding('extract-legal-teachings', result, { text: row.full_md || '' }),
+  }),
 };
 
 // ---------------------------------------------------------------------------
@@ -496,6 +545,8 @@ const stepEnrichProvisionCitations: PipelineStep = {
   id: 'enrich-provision-citations',
   dependsOn: ['interpret-provisions', 'extract-legal-teachings', 'extract-cited-decisions', 'convert-md-to-html'],
   requiresLLM: true,
+  versionedPrompts: [ENRICH_PROVISION_CITATIONS_PROMPT],
+  versionedSchemas: [enrichProvisionCitationsSchema],
   execute: async (row, upstream, client) => {
     const agent2cResult = upstream['interpret-provisions'];
     const agent5aResult = upstream['extract-legal-teachings'];
@@ -518,6 +569,11 @@ const stepEnrichProvisionCitations: PipelineStep = {
       { reasoningEffort: 'medium', maxOutputTokens: 64000 }
     );
   },
+  postProcess: (row, upstream, result) => ({
+    ...result,
+    // relevantSnippet must be a verbatim quote of its block
+    [GROUNDING_FIELD]: verifyGrounding('enrich-provision-citations', result, { blocks: loadHtmlBlocks(upstream, row).blocks }),
+  }),
 };
 
 // ---------------------------------------------------------------------------
@@ -527,6 +583,8 @@ const stepEnrichTeachingCitations: PipelineStep = {
   id: 'enrich-teaching-citations',
   dependsOn: ['extract-legal-teachings', 'interpret-provisions', 'extract-cited-decisions', 'convert-md-to-html'],
   requiresLLM: true,
+  versionedPrompts: [ENRICH_TEACHING_CITATIONS_PROMPT],
+  versionedSchemas: [enrichTeachingCitationsSchema],
   execute: async (row, upstream, client) => {
     const agent5aResult = upstream['extract-legal-teachings'];
     const agent2cResult = upstream['interpret-provisions'];
@@ -549,6 +607,11 @@ const stepEnrichTeachingCitations: PipelineStep = {
       { reasoningEffort: 'medium', maxOutputTokens: 64000 }
     );
   },
+  postProcess: (row, upstream, result) => ({
+    ...result,
+    // relevantSnippet must be a verbatim quote of its block
+    [GROUNDING_FIELD]: verifyGrounding('enrich-teaching-citations', result, { blocks: loadHtmlBlocks(upstream, row).blocks }),
+  }),
 };
 
 // ---------------------------------------------------------------------------
@@ -558,6 +621,18 @@ const stepClassifyLegalIssues: PipelineStep = {
   id: 'classify-legal-issues',
   dependsOn: ['extract-legal-teachings'],
   requiresLLM: true,
+  versionedPrompts: [CLASSIFY_STAGE1_PROMPT, CLASSIFY_STAGE2_PROMPT, CLASSIFY_STAGE3_PROMPT],
+  versionedSchemas: [classifyLegalIssuesSchema],
+  // A sample agrees on a teaching when it picks the same issue key
+  selfConsistency: {
+    samples: 1,
+    arrays: [{
+      path: 'classifications',
+      key: 'teaching_id',
+      compareFields: ['classification.issue_key'],
+      reviewTierField: 'review_tier',
+    }],
+  },
   execute: async (row, upstream, client) => {
     const teachingsResult = upstream['extract-legal-teachings'];
     const teachings = teachingsResult?.legalTeachings || [];
@@ -574,6 +649,7 @@ const stepClassifyLegalIssues: PipelineStep = {
           openaiProvider: 'azure',
           model: 'gpt-4.1',
           maxConcurrentApiCalls: 5,
+          costTier: 'fallback',
         });
       }
       return fallbackClient;
@@ -644,6 +720,8 @@ const stepClassifyLegalIssues: PipelineStep = {
 // ============================================================================
 // Ordered Step List
 // ============================================================================
+// Declaration order only; PipelineOrchestrator schedules steps by dependsOn,
+// so steps with no pending dependencies run concurrently.
 
 export const PIPELINE_STEPS: PipelineStep[] = [
   stepExtractComprehensive,        // 1. DB row only
@@ -0,0 +1,234 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ResultsDatabaseConfig } from '../config/resultsDatabase.js';
+import { applyResultsMigrations } from './migrations.js';
+
+/**
+ * Rows per INSERT statement (6 parameters each)
+ */
+const UPSERT_CHUNK_SIZE = 500;
+
+/**
+ * One validated extraction ready to persist
+ */
+export interface ResultRecord {
+  decisionId: string;
+  language: string;
+  data: any;
+}
+
+/**
+ * A run loaded from disk
+ */
+export interface ResultsRun {
+  jobId: string;
+  runTimestamp: string;
+  model: string | null;
+  sourceDirectory: string;
+  summary: any;
+  records: ResultRecord[];
+  /** Records without decision_id/language (not keyed, not written) */
+  skipped: number;
+  /** Records sharing a key with an earlier record in the same run (last one wins) */
+  duplicates: number;
+}
+
+/**
+ * Write-back statistics
+ */
+export interface WriteBackStats {
+  jobId: string;
+  runTimestamp: string;
+  upserted: number;
+  skipped: number;
+  duplicates: number;
+}
+
+/**
+ * Results Sink
+ *
+ * Persists validated extractions into the results database, keyed by
+ * (decision_id, language, job_id, run_timestamp). Every run is kept;
+ * `latest_extractions` exposes the newest row per job/decision/language.
+ *
+ * Reads the two on-disk layouts that only ever contain validated output:
+ * - full-data/<job>/<timestamp>/         (jsons/*.json + summary.json)
+ * - concurrent/results/... or results/... (extracted-data.json + summary.json)
+ *
+ * Writes go through ResultsDatabaseConfig only; DatabaseConfig is untouched.
+ */
+export class ResultsSink {
+  private static migrated = false;
+
+  /**
+   * Create the results schema and apply pending migrations
+   *
+   * @returns Versions applied by this call
+   */
+  static async migrate(): Promise<number[]> {
+    const { schema } = ResultsDatabaseConfig.getConfig();
+    const applied = await ResultsDatabaseConfig.transaction((client) =>
+      applyResultsMigrations(client, schema)
+    );
+    this.migrated = true;
+    return applied;
+  }
+
+  /**
+   * Load a run directory and upsert it
+   *
+   * @param runDirectory full-data run directory or results directory
+   * @param jobId Override the job id (default: summary.json jobType or parent dir name)
+   */
+  static async syncDirectory(runDirectory: string, jobId?: string): Promise<WriteBackStats> {
+    const run = await this.loadRun(runDirectory, jobId);
+    return this.writeRun(run);
+  }
+
+  /**
+   * Upsert one run and its records in a single transaction
+   */
+  static async writeRun(run: ResultsRun): Promise<WriteBackStats> {
+    if (!this.migrated) {
+      await this.migrate();
+    }
+
+    const { schema } = ResultsDatabaseConfig.getConfig();
+
+    await ResultsDatabaseConfig.transaction(async (client) => {
+      await client.query(
+        `INSERT INTO ${schema}.runs (job_id, run_timestamp, model, source_directory, summary)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (job_id, run_timestamp) DO UPDATE SET
+           model = EXCLUDED.model,
+           source_directory = EXCLUDED.source_directory,
+           summary = EXCLUDED.summary,
+           loaded_at = now()`,
+        [run.jobId, run.runTimestamp, run.model, run.sourceDirectory, run.summary]
+      );
+
+      for (let i = 0; i < run.records.length; i += UPSERT_CHUNK_SIZE) {
+        const chunk = run.records.slice(i, i + UPSERT_CHUNK_SIZE);
+        const params: any[] = [];
+        const values = chunk.map((record, index) => {
+          const base = index * 6;
+          params.push(
+            record.decisionId,
+            record.language,
+            run.jobId,
+            run.runTimestamp,
+            run.model,
+            JSON.stringify(record.data)
+          );
+          return `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6}::jsonb)`;
+        });
+
+        await client.query(
+          `INSERT INTO ${schema}.extractions (decision_id, language, job_id, run_timestamp, model, data)
+           VALUES ${values.join(', ')}
+           ON CONFLICT (decision_id, language, job_id, run_timestamp) DO UPDATE SET
+             model = EXCLUDED.model,
+             data = EXCLUDED.data,
+             updated_at = now()`,
+          params
+        );
+      }
+    });
+
+    return {
+      jobId: run.jobId,
+      runTimestamp: run.runTimestamp,
+      upserted: run.records.length,
+      skipped: run.skipped,
+      duplicates: run.duplicates,
+    };
+  }
+
+  /**
+   * Load validated records from a run directory
+   */
+  static async loadRun(runDirectory: string, jobId?: string): Promise<ResultsRun> {
+    const directory = path.resolve(runDirectory);
+    const summary = await readJsonIfExists(path.join(directory, 'summary.json'));
+
+    let rawRecords: any[];
+    const extractedData = await readJsonIfExists(path.join(directory, 'extracted-data.json'));
+    if (Array.isArray(extractedData)) {
+      rawRecords = extractedData;
+    } else {
+      const jsonDirectory = path.join(directory, 'jsons');
+      const files = (await fs.readdir(jsonDirectory)).filter((f) => f.endsWith('.json')).sort();
+      rawRecords = [];
+      for (const file of files) {
+        rawRecords.push(JSON.parse(await fs.readFile(path.join(jsonDirectory, file), 'utf-8')));
+      }
+    }
+
+    const byKey = new Map<string, ResultRecord>();
+    let skipped = 0;
+    let duplicates = 0;
+
+    for (const data of rawRecords) {
+      const decisionId = data?.decision_id ?? data?.decisionId ?? null;
+      const language =
+        data?.language ?? data?.language_metadata ?? data?.proceduralLanguage ?? data?.procedureLanguage ?? null;
+
+      if (!decisionId || !language) {
+        skipped++;
+        continue;
+      }
+
+      const key = `${decisionId}|${language}`;
+      if (byKey.has(key)) duplicates++;
+      byKey.set(key, { decisionId: String(decisionId), language: String(language), data });
+    }
+
+    return {
+      jobId: jobId || summary?.jobType || path.basename(path.dirname(directory)),
+      runTimestamp: ResultsSink.parseRunTimestamp(path.basename(directory), summary?.processedAt),
+      model: summary?.model ?? null,
+      sourceDirectory: directory,
+      summary: summary ?? null,
+      records: [...byKey.values()],
+      skipped,
+      duplicates,
+    };
+  }
+
+  /**
+   * Recover the run timestamp from a directory name
+   *
+   * Run directories are named `new Date().toISOString().replace(/[:.]/g, '-')`
+   * (e.g. 2025-10-13T12-00-00-000Z). Custom directories fall back to
+   * summary.processedAt.
+   */
+  static parseRunTimestamp(directoryName: string, fallback?: string): string {
+    const match = directoryName.match(/^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})(?:-(\d{3}))?Z?$/);
+    if (match) {
+      const [, date, hours, minutes, seconds, millis] = match;
+      return `${date}T${hours}:${minutes}:${seconds}.${millis || '000'}Z`;
+    }
+
+    if (fallback && !isNaN(Date.parse(fallback))) {
+      return new Date(fallback).toISOString();
+    }
+
+    throw new Error(
+      `Cannot determine run timestamp for "${directoryName}": ` +
+      'directory is not timestamp-named and summary.json has no processedAt'
+    );
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function readJsonIfExists(filePath: string): Promise<any> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return undefined;
+    throw error;
+  }
+}
@@ -0,0 +1,103 @@
+import pg from 'pg';
+
+/**
+ * Results schema migration
+ *
+ * Migrations are append-only: never edit one that has shipped, add a new
+ * version instead. `up` receives the (validated) target schema name.
+ */
+export interface ResultsMigration {
+  version: number;
+  name: string;
+  up: (schema: string) => string;
+}
+
+export const RESULTS_MIGRATIONS: ResultsMigration[] = [
+  {
+    version: 1,
+    name: 'create_runs_and_extractions',
+    up: (schema) => `
+      CREATE TABLE IF NOT EXISTS ${schema}.runs (
+        job_id            TEXT        NOT NULL,
+        run_timestamp     TIMESTAMPTZ NOT NULL,
+        model             TEXT,
+        source_directory  TEXT,
+        summary           JSONB,
+        loaded_at         TIMESTAMPTZ NOT NULL DEFAULT now(),
+        PRIMARY KEY (job_id, run_timestamp)
+      );
+
+      CREATE TABLE IF NOT EXISTS ${schema}.extractions (
+        decision_id    TEXT        NOT NULL,
+        language       TEXT        NOT NULL,
+        job_id         TEXT        NOT NULL,
+        run_timestamp  TIMESTAMPTZ NOT NULL,
+        model          TEXT,
+        data           JSONB       NOT NULL,
+        created_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+        updated_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+        PRIMARY KEY (decision_id, language, job_id, run_timestamp),
+        FOREIGN KEY (job_id, run_timestamp)
+          REFERENCES ${schema}.runs (job_id, run_timestamp) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS extractions_job_run_idx
+        ON ${schema}.extractions (job_id, run_timestamp);
+    `,
+  },
+  {
+    version: 2,
+    name: 'create_latest_extractions_view',
+    up: (schema) => `
+      CREATE INDEX IF NOT EXISTS extractions_latest_idx
+        ON ${schema}.extractions (job_id, decision_id, language, run_timestamp DESC);
+
+      CREATE OR REPLACE VIEW ${schema}.latest_extractions AS
+        SELECT DISTINCT ON (job_id, decision_id, language) *
+        FROM ${schema}.extractions
+        ORDER BY job_id, decision_id, language, run_timestamp DESC;
+    `,
+  },
+];
+
+/**
+ * Apply pending migrations
+ *
+ * Runs in one transaction guarded by an advisory lock, so concurrent
+ * processes cannot apply the same migration twice.
+ *
+ * @returns Versions applied by this call
+ */
+export async function applyResultsMigrations(
+  client: pg.PoolClient,
+  schema: string
+): Promise<number[]> {
+  await client.query(`SELECT pg_advisory_xact_lock(hashtext($1))`, [`${schema}.schema_migrations`]);
+  await client.query(`CREATE SCHEMA IF NOT EXISTS ${schema}`);
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS ${schema}.schema_migrations (
+      version     INTEGER     PRIMARY KEY,
+      name        TEXT        NOT NULL,
+      applied_at  TIMESTAMPTZ NOT NULL DEFAULT now()
+    )
+  `);
+
+  const { rows } = await client.query<{ version: number }>(
+    `SELECT version FROM ${schema}.schema_migrations`
+  );
+  const applied = new Set(rows.map((r) => r.version));
+
+  const newlyApplied: number[] = [];
+  for (const migration of RESULTS_MIGRATIONS) {
+    if (applied.has(migration.version)) continue;
+
+    await client.query(migration.up(schema));
+    await client.query(
+      `INSERT INTO ${schema}.schema_migrations (version, name) VALUES ($1, $2)`,
+      [migration.version, migration.name]
+    );
+    newlyApplied.push(migration.version);
+  }
+
+  return newlyApplied;
+}
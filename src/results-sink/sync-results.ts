@@ -0,0 +1,101 @@
+/**
+ * Results Write-Back Runs
+ *
+ * Applies results schema migrations and upserts validated extractions from
+ * run directories into the results database (RESULTS_PG* connection).
+ * Backs `results migrate` and `results sync` in the CLI
+ * (src/cli/commands/results.ts):
+ *   npm run results:sync -- migrate
+ *   npm run results:sync -- sync --run full-data/extract-keywords/2025-10-13T12-00-00-000Z
+ *   npm run results:sync -- sync --job-root full-data/extract-keywords
+ *   npm run results:sync -- sync --run concurrent/results/extract-parties/gpt-5-mini/2025-10-13T12-00-00-000Z --job extract-parties
+ *
+ * Re-syncing a run is idempotent: rows are upserted on
+ * (decision_id, language, job_id, run_timestamp).
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { ResultsDatabaseConfig } from '../config/resultsDatabase.js';
+import { ResultsSink, WriteBackStats } from './ResultsSink.js';
+
+export interface SyncRunOptions {
+  runs: string[];
+  jobRoots: string[];
+  jobId?: string;
+}
+
+export interface SyncRunResult {
+  migrationsApplied: number[];
+  synced: WriteBackStats[];
+  failed: Array<{ runDirectory: string; error: string }>;
+  totalUpserted: number;
+}
+
+/**
+ * Run directories under a job root, oldest first
+ */
+async function listRunDirectories(jobRoot: string): Promise<string[]> {
+  const entries = await fs.readdir(jobRoot, { withFileTypes: true });
+  return entries
+    .filter((e) => e.isDirectory())
+    .map((e) => e.name)
+    .sort()
+    .map((name) => path.join(jobRoot, name));
+}
+
+/**
+ * Create the results schema and apply pending migrations
+ *
+ * @returns Versions of the migrations applied
+ */
+export async function migrateResults(): Promise<number[]> {
+  const config = ResultsDatabaseConfig.getConfig();
+
+  console.log('\n🗄️  Results Write-Back');
+  console.log(`   Target: ${config.user}@${config.host}:${config.port}/${config.database}`);
+  console.log(`   Schema: ${config.schema}\n`);
+
+  const applied = await ResultsSink.migrate();
+  console.log(applied.length > 0
+    ? `✅ Applied migrations: ${applied.join(', ')}`
+    : '✅ Schema up to date');
+
+  return applied;
+}
+
+/**
+ * Migrate, then upsert validated results from run directories
+ *
+ * A run that fails to sync is reported and does not stop the others.
+ */
+export async function syncResults(options: SyncRunOptions): Promise<SyncRunResult> {
+  const migrationsApplied = await migrateResults();
+
+  const runDirectories = [...options.runs];
+  for (const jobRoot of options.jobRoots) {
+    runDirectories.push(...await listRunDirectories(jobRoot));
+  }
+
+  const result: SyncRunResult = { migrationsApplied, synced: [], failed: [], totalUpserted: 0 };
+
+  for (const runDirectory of runDirectories) {
+    try {
+      const stats = await ResultsSink.syncDirectory(runDirectory, options.jobId);
+      result.synced.push(stats);
+      result.totalUpserted += stats.upserted;
+      console.log(
+        `📤 ${stats.jobId} @ ${stats.runTimestamp}: ${stats.upserted} upserted` +
+        (stats.skipped > 0 ? `, ${stats.skipped} skipped (no decision_id/language)` : '') +
+        (stats.duplicates > 0 ? `, ${stats.duplicates} duplicate keys` : '')
+      );
+    } catch (error: any) {
+      result.failed.push({ runDirectory, error: error.message });
+      console.warn(`⚠️  ${runDirectory}: ${error.message}`);
+    }
+  }
+
+  console.log(`\n✅ ${result.totalUpserted} results upserted from ${result.synced.length}/${runDirectories.length} runs\n`);
+
+  return result;
+}
@@ -10,6 +10,9 @@
  * Filters:
  * - Only includes matches with score >= 80
  * - Skips files with empty matches or no qualifying matches
+ *
+ * Superseded by the `decision-mappings` export profile (src/export/profiles.ts):
+ *   npm run dev -- export bundle decision-mappings
  */
 
 import fs from 'fs/promises';
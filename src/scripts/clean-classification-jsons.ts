@@ -8,6 +8,9 @@
  *   topic_set: string[],
  *   issue_type_set: string[]
  * }
+ *
+ * Superseded by the `teaching-classifications` export profile (src/export/profiles.ts):
+ *   npm run dev -- export bundle teaching-classifications
  */
 
 import fs from 'fs';
@@ -97,5 +97,6 @@ export const EXCLUDED_FIELDS = [
   'decision_id',
   'language',
   'language_metadata',
-  'url_official_publication'
+  'url_official_publication',
+  'promptSchemaVersion'
 ];
@@ -6,6 +6,9 @@
  *
  * CRITICAL: Only merges decisions that exist in ALL jobs.
  * Skips and logs decisions missing from any job.
+ *
+ * Each job's results must come from a single prompt/schema version;
+ * mixed versions are reported (or refused with versionPolicy "strict").
  */
 
 import fs from 'fs/promises';
@@ -14,21 +17,26 @@ import {
   MergeOptions,
   JobLoadResult,
   MergeStatistics,
+  MergeResult,
   AggregatedDecision
 } from './types.js';
 import { JOB_MAPPINGS, EXCLUDED_FIELDS, getOutputField } from './jobMappings.js';
+import { VERSION_FIELD, versionKey } from '../versioning.js';
 
 /**
  * Main orchestrator for merging all job results
  *
  * @param options - Merge configuration options
+ * @returns Output directory and merge statistics
  */
-export async function mergeAllJobResults(options: MergeOptions): Promise<void> {
+export async function mergeAllJobResults(options: MergeOptions): Promise<MergeResult> {
   const baseDir = options.baseDir || 'concurrent/results';
+  const versionPolicy = options.versionPolicy || 'warn';
 
   console.log('\n📊 Starting job results aggregation...\n');
   console.log(`Model: ${options.model}`);
   console.log(`Base directory: ${baseDir}`);
+  console.log(`Version policy: ${versionPolicy}`);
   console.log(`Jobs to merge: ${JOB_MAPPINGS.length}\n`);
 
   // Step 1: Load all job results
@@ -41,7 +49,9 @@ export async function mergeAllJobResults(options: MergeOptions): Promise<void> {
     totalDecisionsAcrossJobs: 0,
     decisionsInAllJobs: 0,
     decisionsSkipped: 0,
-    skippedDecisions: []
+    skippedDecisions: [],
+    jobVersions: {},
+    versionMismatches: []
   };
 
   for (const mapping of JOB_MAPPINGS) {
@@ -50,6 +60,11 @@ export async function mergeAllJobResults(options: MergeOptions): Promise<void> {
       jobResults.push(result);
       stats.jobsLoaded++;
       stats.totalDecisionsAcrossJobs += result.decisionCount;
+      stats.jobVersions[mapping.jobId] = result.versions;
+
+      if (Object.keys(result.versions).length > 1) {
+        stats.versionMismatches.push(mapping.jobId);
+      }
 
       console.log(`✅ ${mapping.jobId.padEnd(30)} | ${result.decisionCount} decisions | ${result.timestamp}`);
     } catch (error: any) {
@@ -64,6 +79,25 @@ export async function mergeAllJobResults(options: MergeOptions): Promise<void> {
     throw new Error('No jobs loaded successfully. Cannot proceed with merge.');
   }
 
+  // Step 1b: Check prompt/schema versions
+  if (stats.versionMismatches.length > 0 && versionPolicy !== 'ignore') {
+    console.log('⚠️  Jobs with results from mixed prompt/schema versions:');
+    for (const jobId of stats.versionMismatches) {
+      const counts = Object.entries(stats.jobVersions[jobId])
+        .map(([version, count]) => `${version} (${count})`)
+        .join(', ');
+      console.log(`   ${jobId}: ${counts}`);
+    }
+    console.log('');
+
+    if (versionPolicy === 'strict') {
+      throw new Error(
+        `Mixed prompt/schema versions in ${stats.versionMismatches.join(', ')}. ` +
+        'Re-run these jobs or merge with --ignore-versions.'
+      );
+    }
+  }
+
   // Step 2: Find decisions present in ALL jobs
   console.log('🔍 Finding decisions present in ALL jobs...\n');
   const { completeDecisions, incompleteDecisions } = findCompleteDecisions(jobResults);
@@ -120,6 +154,8 @@ export async function mergeAllJobResults(options: MergeOptions): Promise<void> {
   console.log(`   ${statsFile}\n`);
 
   console.log('✅ Aggregation complete!\n');
+
+  return { outputPath, filesWritten, statistics: stats };
 }
 
 /**
@@ -172,6 +208,10 @@ async function loadJobResults(jobId: string, model: string, baseDir: string): Pr
       throw new Error('Expected array in extracted-data.json');
     }
 
+    // Older runs only record the version in summary.json (if at all)
+    const summary = await readSummary(path.join(baseDir, jobId, model, timestamp, 'summary.json'));
+    const runVersion = summary?.[VERSION_FIELD] ?? undefined;
+
     // Build Map keyed by "decision_id|language"
     const dataMap = new Map<string, any>();
     for (const decision of data) {
@@ -179,17 +219,37 @@ async function loadJobResults(jobId: string, model: string, baseDir: string): Pr
       dataMap.set(key, decision);
     }
 
+    // Count decisions per prompt/schema version
+    const versions: Record<string, number> = {};
+    for (const decision of dataMap.values()) {
+      const version = versionKey(decision[VERSION_FIELD] ?? runVersion);
+      versions[version] = (versions[version] || 0) + 1;
+    }
+
     return {
       jobId,
       timestamp,
       decisionCount: dataMap.size,
-      data: dataMap
+      data: dataMap,
+      versions,
+      runVersion
     };
   } catch (error: any) {
     throw new Error(`Failed to load ${dataFile}: ${error.message}`);
   }
 }
 
+/**
+ * Read a run's summary.json (undefined if missing or unreadable)
+ */
+async function readSummary(summaryFile: string): Promise<any> {
+  try {
+    return JSON.parse(await fs.readFile(summaryFile, 'utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Create composite key from decision_id and language
  */
@@ -257,7 +317,8 @@ function mergeDecisions(completeKeys: Set<string>, jobResults: JobLoadResult[]):
     // Build aggregated decision
     const merged: AggregatedDecision = {
       decision_id,
-      language
+      language,
+      promptSchemaVersions: {}
     };
 
     // Add data from each job
@@ -265,6 +326,8 @@ function mergeDecisions(completeKeys: Set<string>, jobResults: JobLoadResult[]):
       const decision = job.data.get(key)!;
       const outputField = getOutputField(job.jobId);
 
+      merged.promptSchemaVersions![job.jobId] = versionKey(decision[VERSION_FIELD] ?? job.runVersion);
+
       if (outputField) {
         // Extract job-specific fields (exclude metadata and common fields)
         const jobData = extractJobData(decision);
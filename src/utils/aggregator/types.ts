@@ -2,6 +2,8 @@
  * Type definitions for job results aggregator
  */
 
+import { PromptSchemaVersion, VersionPolicy } from '../versioning.js';
+
 /**
  * Composite key for uniquely identifying a decision
  */
@@ -25,6 +27,12 @@ export interface MergeOptions {
 
   /** Whether to log verbose output */
   verbose?: boolean;
+
+  /**
+   * What to do when a job's results were produced by more than one
+   * prompt/schema version (default: "warn")
+   */
+  versionPolicy?: VersionPolicy;
 }
 
 /**
@@ -44,6 +52,8 @@ export interface JobLoadResult {
   timestamp: string;
   decisionCount: number;
   data: Map<string, any>; // Key: "decision_id|language", Value: decision object
+  versions: Record<string, number>; // Key: versionKey(), Value: decision count
+  runVersion?: PromptSchemaVersion; // From summary.json, for decisions without a stamped version
 }
 
 /**
@@ -61,6 +71,18 @@ export interface MergeStatistics {
     language: string;
     missingFrom: string[];
   }>;
+  jobVersions: Record<string, Record<string, number>>;
+  versionMismatches: string[];
+}
+
+/**
+ * Result of a merge operation
+ */
+export interface MergeResult {
+  /** Directory with one {decision_id}_{language}.json per merged decision */
+  outputPath: string;
+  filesWritten: number;
+  statistics: MergeStatistics;
 }
 
 /**
@@ -82,6 +104,9 @@ export interface AggregatedDecision {
   microSummary?: any;
   relatedCitationsLegalProvisions?: any;
   relatedCitationsLegalTeachings?: any;
+
+  /** Prompt/schema version per job ("<promptHash>/<schemaHash>" or "unversioned") */
+  promptSchemaVersions?: Record<string, string>;
 }
 
 /**
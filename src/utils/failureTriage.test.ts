@@ -0,0 +1,127 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { JobConfig } from '../jobs/JobConfig.js';
+import { FailureRecord } from './failureLoader.js';
+import {
+  applyRemedy,
+  buildTriageReport,
+  classifyFailure,
+  DEFAULT_RETRY_POLICY,
+  resolveRetryPolicy,
+  triageFailures,
+} from './failureTriage.js';
+
+function failure(error: string, reason = 'API Error'): FailureRecord {
+  return { customId: 'row-1', decision_id: 'ECLI:BE:CASS:2020:ARR.1', language: 'FR', reason, error };
+}
+
+const CONFIG = { id: 'extract-comprehensive', maxCompletionTokens: 32_000 } as JobConfig;
+
+describe('classifyFailure', () => {
+  it('classifies API and network errors', () => {
+    const cases: Array<[string, string]> = [
+      ['429 Too Many Requests', 'rate_limit'],
+      ['Request timeout after 300000ms', 'timeout'],
+      ['Connection error.', 'timeout'],
+      ['fetch failed', 'timeout'],
+      ["This model's maximum context length is 272000 tokens", 'context_overflow'],
+      ['Response truncated - hit token limit (128000 tokens)', 'truncated'],
+      ['JSON parse error: Unexpected end of JSON input', 'json_parse'],
+      ['No content in response', 'empty_output'],
+      ['The response was filtered due to the content management policy', 'refusal'],
+      ['Something odd happened', 'other'],
+    ];
+    for (const [error, expected] of cases) {
+      assert.equal(classifyFailure(failure(error)).failureClass, expected, error);
+    }
+  });
+
+  it('classifies the inner error of chunk failures', () => {
+    assert.equal(classifyFailure(failure('Chunk 2/3 failed: 429 rate limit reached')).failureClass, 'rate_limit');
+  });
+
+  it('lists the failing fields of schema violations', () => {
+    const result = classifyFailure(failure(
+      'Schema validation failed:\n' +
+      "  • /legalTeachings/0/courtVerbatim: must NOT have fewer than 50 characters {\"limit\":50}\n" +
+      "  • /legalTeachings/3: must have required property 'text' {\"missingProperty\":\"text\"}\n" +
+      "  • root: must have required property 'metadata'",
+      'Schema Validation'
+    ));
+    assert.deepEqual(result, {
+      failureClass: 'schema_violation',
+      fields: ['legalTeachings[].courtVerbatim', 'legalTeachings[].text', 'metadata'],
+    });
+  });
+});
+
+describe('triageFailures', () => {
+  it('retries transient failures and sends unknown ones to manual review', () => {
+    const triaged = triageFailures([failure('fetch failed'), failure('Something odd happened')], DEFAULT_RETRY_POLICY);
+    assert.deepEqual(triaged.map((t) => t.remedy), ['retry', 'manual-review']);
+  });
+
+  it('sends escalations without an escalation model to manual review', () => {
+    const [triaged] = triageFailures([failure('JSON parse error: Unexpected token')], DEFAULT_RETRY_POLICY);
+    assert.equal(triaged.remedy, 'manual-review');
+    assert.equal(triaged.note, 'No escalation model configured');
+
+    const policy = resolveRetryPolicy({ escalationModel: 'gpt-5' });
+    assert.equal(triageFailures([failure('JSON parse error: Unexpected token')], policy)[0].remedy, 'escalate-model');
+  });
+
+  it('falls back to manual review when a remedy cannot apply', () => {
+    const [chunk, tokens] = triageFailures(
+      [failure('maximum context length exceeded'), failure('Response truncated - hit token limit')],
+      resolveRetryPolicy({ maxCompletionTokensCap: 32_000 }),
+      CONFIG
+    );
+    assert.deepEqual([chunk.remedy, chunk.note], ['manual-review', 'extract-comprehensive has no chunking config']);
+    assert.deepEqual([tokens.remedy, tokens.note], ['manual-review', 'maxCompletionTokens already at 32000']);
+
+    const [keyless] = triageFailures([{ ...failure('429'), decision_id: null }], DEFAULT_RETRY_POLICY);
+    assert.equal(keyless.note, 'Missing decision_id or language');
+  });
+});
+
+describe('resolveRetryPolicy', () => {
+  it('merges job and CLI overrides over the defaults, ignoring undefined settings', () => {
+    const policy = resolveRetryPolicy(
+      { escalationModel: 'gpt-5', remedies: { refusal: 'retry' } },
+      { escalationModel: undefined, remedies: { other: 'retry' } }
+    );
+    assert.equal(policy.escalationModel, 'gpt-5');
+    assert.equal(policy.remedies.refusal, 'retry');
+    assert.equal(policy.remedies.other, 'retry');
+    assert.equal(policy.remedies.truncated, 'raise-max-tokens');
+  });
+});
+
+describe('applyRemedy', () => {
+  it('adjusts the job config per remedy', () => {
+    const policy = resolveRetryPolicy({ escalationModel: 'gpt-5', maxCompletionTokensCap: 50_000 });
+    assert.equal(applyRemedy(CONFIG, 'escalate-model', policy).model, 'gpt-5');
+    assert.equal(applyRemedy(CONFIG, 'raise-max-tokens', policy).maxCompletionTokens, 50_000);
+    assert.equal(applyRemedy(CONFIG, 'retry', policy), CONFIG);
+  });
+});
+
+describe('buildTriageReport', () => {
+  it('counts classes, remedies, schema fields and fallbacks', () => {
+    const triaged = triageFailures(
+      [
+        failure('429'),
+        failure('JSON parse error: Unexpected token'),
+        failure("Schema validation failed:\n  • /parties/0/name: must be string", 'Schema Validation'),
+      ],
+      DEFAULT_RETRY_POLICY
+    ).map((entry) => ({ ...entry, jobId: 'extract-comprehensive' }));
+    const report = buildTriageReport(triaged, {});
+
+    assert.equal(report.total, 3);
+    assert.deepEqual(report.byJob['extract-comprehensive'], { rate_limit: 1, json_parse: 1, schema_violation: 1 });
+    assert.deepEqual(report.byRemedy, { retry: 1, 'manual-review': 2 });
+    assert.deepEqual(report.schemaFields, [{ field: 'parties[].name', count: 1 }]);
+    assert.deepEqual(report.fallbacks, { 'No escalation model configured': 2 });
+  });
+});
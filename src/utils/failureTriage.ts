@@ -0,0 +1,413 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { JobConfig } from '../jobs/JobConfig.js';
+import { resolveRunDirectory } from '../lineage/RunRegistry.js';
+import { FailureRecord } from './failureLoader.js';
+
+/**
+ * Failure Triage
+ *
+ * Sorts the failures of a run into typed classes and picks a remedy per
+ * class, so a retry only re-sends requests that can succeed:
+ *
+ *   rate_limit, timeout          → retry (transient)
+ *   truncated                    → raise maxCompletionTokens
+ *   context_overflow             → route to chunking (JobConfig.chunking)
+ *   json_parse, schema_violation → escalate to a stronger model
+ *   refusal, empty_output, other → manual review
+ *
+ * Remedies are configured per job (JobConfig.retryPolicy) and per retry
+ * (`retry --remedy <class>=<remedy>`). A remedy that cannot apply (no
+ * escalation model, no chunking config, tokens at the cap) falls back to
+ * manual review: re-sending the same request to the same model would fail
+ * the same way.
+ */
+
+export type FailureClass =
+  | 'rate_limit'
+  | 'timeout'
+  | 'context_overflow'
+  | 'truncated'
+  | 'schema_violation'
+  | 'json_parse'
+  | 'empty_output'
+  | 'refusal'
+  | 'other';
+
+export const FAILURE_CLASSES: readonly FailureClass[] = [
+  'rate_limit',
+  'timeout',
+  'context_overflow',
+  'truncated',
+  'schema_violation',
+  'json_parse',
+  'empty_output',
+  'refusal',
+  'other',
+];
+
+export type RetryRemedy = 'retry' | 'escalate-model' | 'raise-max-tokens' | 'chunk' | 'manual-review';
+
+export const RETRY_REMEDIES: readonly RetryRemedy[] = ['retry', 'escalate-model', 'raise-max-tokens', 'chunk', 'manual-review'];
+
+/**
+ * Remedy per failure class, and the settings the remedies need
+ */
+export interface RetryPolicy {
+  remedies: Record<FailureClass, RetryRemedy>;
+  /** Model for 'escalate-model' (without one, escalation falls back to manual review) */
+  escalationModel?: string;
+  /** 'raise-max-tokens' multiplies maxCompletionTokens by this factor (default: 2) */
+  maxTokensFactor: number;
+  /** Upper bound for the raised maxCompletionTokens (default: 128000) */
+  maxCompletionTokensCap: number;
+}
+
+/**
+ * Partial policy (JobConfig.retryPolicy, CLI flags) merged over the defaults
+ */
+export type RetryPolicyOverrides = Partial<Omit<RetryPolicy, 'remedies'>> & {
+  remedies?: Partial<Record<FailureClass, RetryRemedy>>;
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  remedies: {
+    rate_limit: 'retry',
+    timeout: 'retry',
+    context_overflow: 'chunk',
+    truncated: 'raise-max-tokens',
+    schema_violation: 'escalate-model',
+    json_parse: 'escalate-model',
+    empty_output: 'manual-review',
+    refusal: 'manual-review',
+    other: 'manual-review',
+  },
+  maxTokensFactor: 2,
+  maxCompletionTokensCap: 128_000,
+};
+
+/** maxCompletionTokens assumed when a job does not set one */
+const BASE_MAX_COMPLETION_TOKENS = 16_000;
+
+/**
+ * Failure with its class and planned remedy
+ */
+export interface TriagedFailure {
+  failure: FailureRecord;
+  failureClass: FailureClass;
+  /** Schema violations: failing fields (array indexes as []) */
+  fields?: string[];
+  remedy: RetryRemedy;
+  /** Why the remedy differs from the policy (fallback) */
+  note?: string;
+}
+
+/**
+ * Triage report of one or more runs (triage-report.json)
+ */
+export interface TriageReport {
+  generatedAt: string;
+  /** Run directory per job */
+  runs: Record<string, string>;
+  total: number;
+  byClass: Partial<Record<FailureClass, number>>;
+  byJob: Record<string, Partial<Record<FailureClass, number>>>;
+  byRemedy: Partial<Record<RetryRemedy, number>>;
+  /** Schema violations per field, most frequent first */
+  schemaFields: Array<{ field: string; count: number }>;
+  /** Sample error message per class */
+  samples: Partial<Record<FailureClass, string>>;
+  /** Failures whose policy remedy could not apply, per reason */
+  fallbacks: Record<string, number>;
+}
+
+// ============================================================================
+// Classification
+// ============================================================================
+
+/**
+ * Error patterns per class, checked in order (first match wins)
+ */
+const CLASS_PATTERNS: Array<[FailureClass, RegExp]> = [
+  // Our own messages first: they quote field paths and parameters that could match below
+  ['schema_violation', /Schema validation failed/i],
+  ['json_parse', /JSON parse error|Unexpected token|Unexpected end of JSON|not valid JSON|JSON at position/i],
+  ['rate_limit', /\b429\b|rate.?limit|too many requests|quota exceeded|insufficient_quota/i],
+  ['context_overflow', /context.?length|context window|maximum context|prompt is too long|input is too long|too many (input )?tokens|reduce the length/i],
+  ['truncated', /truncated|hit token limit|max_tokens|finish_reason.{0,5}length/i],
+  [
+    'timeout',
+    /timed? ?out|timeout|ETIMEDOUT|ECONNRESET|ECONNABORTED|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|EPIPE|socket hang up|connection error|fetch failed|network error|\b50[0234]\b|service unavailable|bad gateway/i,
+  ],
+  ['refusal', /refus|content.?filter|content management policy|responsible ai|I can(no|')t (help|assist)/i],
+  ['empty_output', /no content in response|empty (response|output|content)/i],
+];
+
+/**
+ * Class of a failure from its reason and error message
+ *
+ * Chunk and self-consistency failures wrap the inner error
+ * ("Chunk 2/3 failed: ..."), which is what gets classified.
+ */
+export function classifyFailure(failure: Pick<FailureRecord, 'reason' | 'error'>): { failureClass: FailureClass; fields?: string[] } {
+  if (failure.reason === 'Schema Validation') {
+    return { failureClass: 'schema_violation', fields: schemaFields(failure.error) };
+  }
+
+  const message = `${failure.error ?? ''}`;
+  for (const [failureClass, pattern] of CLASS_PATTERNS) {
+    if (pattern.test(message)) {
+      return failureClass === 'schema_violation'
+        ? { failureClass, fields: schemaFields(message) }
+        : { failureClass };
+    }
+  }
+  return { failureClass: 'other' };
+}
+
+/**
+ * Failing fields of a schema validation message (validator.formatErrors lines)
+ *
+ *   • /legalTeachings/0/courtVerbatim: must NOT have fewer than 50 characters {...}
+ *   → legalTeachings[].courtVerbatim
+ */
+function schemaFields(message: string): string[] {
+  const fields = new Set<string>();
+  for (const match of message.matchAll(/•\s*(\S+): ([^\n{]*)/g)) {
+    let field = match[1] === 'root'
+      ? ''
+      : match[1].replace(/^\//, '').split('/').map((s) => (/^\d+$/.test(s) ? '[]' : s)).join('.').replace(/\.\[\]/g, '[]');
+    const missing = match[2].match(/must have required property '([^']+)'/);
+    if (missing) field = field ? `${field}.${missing[1]}` : missing[1];
+    fields.add(field || '(root)');
+  }
+  return [...fields];
+}
+
+// ============================================================================
+// Policy
+// ============================================================================
+
+/**
+ * Default policy with the job's and the caller's overrides applied
+ */
+export function resolveRetryPolicy(...overrides: Array<RetryPolicyOverrides | undefined>): RetryPolicy {
+  return overrides.reduce<RetryPolicy>((policy, override) => {
+    const { remedies, ...settings } = override ?? {};
+    const defined = Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== undefined));
+    return { ...policy, ...defined, remedies: { ...policy.remedies, ...remedies } };
+  }, DEFAULT_RETRY_POLICY);
+}
+
+/**
+ * Classify failures and assign each its remedy
+ */
+export function triageFailures(failures: FailureRecord[], policy: RetryPolicy, config?: JobConfig): TriagedFailure[] {
+  return failures.map((failure) => {
+    const { failureClass, fields } = classifyFailure(failure);
+    let remedy = policy.remedies[failureClass];
+    let note: string | undefined;
+
+    let blocker: string | undefined;
+    if (remedy === 'escalate-model' && !policy.escalationModel) {
+      blocker = 'No escalation model configured';
+    } else if (remedy === 'chunk' && config && !config.chunking) {
+      blocker = `${config.id} has no chunking config`;
+    } else if (remedy === 'raise-max-tokens' && config && (config.maxCompletionTokens ?? 0) >= policy.maxCompletionTokensCap) {
+      blocker = `maxCompletionTokens already at ${policy.maxCompletionTokensCap}`;
+    } else if (remedy !== 'manual-review' && (!failure.decision_id || !failure.language)) {
+      blocker = 'Missing decision_id or language';
+    }
+    if (blocker) {
+      remedy = 'manual-review';
+      note = blocker;
+    }
+
+    return { failure, failureClass, ...(fields ? { fields } : {}), remedy, ...(note ? { note } : {}) };
+  });
+}
+
+/**
+ * Job config adjusted for a remedy (the config a remedy group is retried with)
+ */
+export function applyRemedy(config: JobConfig, remedy: RetryRemedy, policy: RetryPolicy): JobConfig {
+  switch (remedy) {
+    case 'escalate-model':
+      return { ...config, model: policy.escalationModel ?? config.model };
+    case 'raise-max-tokens':
+      return {
+        ...config,
+        maxCompletionTokens: Math.min(
+          policy.maxCompletionTokensCap,
+          Math.ceil((config.maxCompletionTokens ?? BASE_MAX_COMPLETION_TOKENS) * policy.maxTokensFactor)
+        ),
+      };
+    case 'chunk':
+      // Every retried row failed on size, so chunk it regardless of the estimate
+      return config.chunking ? { ...config, chunking: { ...config.chunking, maxInputTokens: 0 } } : config;
+    default:
+      return config;
+  }
+}
+
+// ============================================================================
+// Reports
+// ============================================================================
+
+/**
+ * Counts per class, job, remedy and schema field
+ */
+export function buildTriageReport(
+  triaged: Array<TriagedFailure & { jobId: string }>,
+  runs: Record<string, string>
+): TriageReport {
+  const report: TriageReport = {
+    generatedAt: new Date().toISOString(),
+    runs,
+    total: triaged.length,
+    byClass: {},
+    byJob: {},
+    byRemedy: {},
+    schemaFields: [],
+    samples: {},
+    fallbacks: {},
+  };
+
+  const fieldCounts = new Map<string, number>();
+  for (const entry of triaged) {
+    report.byClass[entry.failureClass] = (report.byClass[entry.failureClass] ?? 0) + 1;
+    report.byJob[entry.jobId] ??= {};
+    report.byJob[entry.jobId][entry.failureClass] = (report.byJob[entry.jobId][entry.failureClass] ?? 0) + 1;
+    report.byRemedy[entry.remedy] = (report.byRemedy[entry.remedy] ?? 0) + 1;
+    report.samples[entry.failureClass] ??= String(entry.failure.error ?? '').split('\n').slice(0, 3).join(' ').slice(0, 300);
+    if (entry.note) {
+      report.fallbacks[entry.note] = (report.fallbacks[entry.note] ?? 0) + 1;
+    }
+    for (const field of entry.fields ?? []) {
+      fieldCounts.set(field, (fieldCounts.get(field) ?? 0) + 1);
+    }
+  }
+
+  report.schemaFields = [...fieldCounts]
+    .map(([field, count]) => ({ field, count }))
+    .sort((a, b) => b.count - a.count || a.field.localeCompare(b.field));
+  return report;
+}
+
+/**
+ * Triage the failures.json of the latest run of each job (or the given runs)
+ *
+ * Writes triage-report.json and triage-report.md to outputDir.
+ */
+export async function triageRuns(options: {
+  jobs: string[];
+  baseDir?: string;
+  /** Run directory per job, instead of the latest run */
+  runs?: Record<string, string>;
+  policy?: RetryPolicyOverrides;
+  outputDir: string;
+}): Promise<TriageReport> {
+  const baseDir = options.baseDir ?? path.join(process.cwd(), 'full-data');
+  const policy = resolveRetryPolicy(options.policy);
+  const triaged: Array<TriagedFailure & { jobId: string }> = [];
+  const runs: Record<string, string> = {};
+
+  for (const jobId of options.jobs) {
+    const runDirectory = options.runs?.[jobId]
+      ? path.resolve(options.runs[jobId])
+      : await resolveRunDirectory(baseDir, jobId);
+    if (!runDirectory) {
+      console.log(`⏭️  ${jobId}: no run found`);
+      continue;
+    }
+
+    let failures: FailureRecord[];
+    try {
+      failures = JSON.parse(await fs.readFile(path.join(runDirectory, 'failures.json'), 'utf-8'));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+      failures = [];
+    }
+
+    runs[jobId] = runDirectory;
+    console.log(`📂 ${jobId}: ${failures.length} failures (${runDirectory})`);
+    triaged.push(...triageFailures(failures, policy).map((entry) => ({ ...entry, jobId })));
+  }
+
+  const report = buildTriageReport(triaged, runs);
+  await fs.mkdir(options.outputDir, { recursive: true });
+  await fs.writeFile(path.join(options.outputDir, 'triage-report.json'), JSON.stringify(report, null, 2), 'utf-8');
+  await fs.writeFile(path.join(options.outputDir, 'triage-report.md'), formatTriageMarkdown(report, policy), 'utf-8');
+  return report;
+}
+
+/**
+ * Print a triage report to the console
+ */
+export function printTriage(report: TriageReport, policy: RetryPolicy): void {
+  console.log('\n🩺 Failure Triage:\n');
+  console.log(`Total failures: ${report.total}`);
+  console.log('\nBy class (→ remedy):');
+  for (const failureClass of FAILURE_CLASSES) {
+    const count = report.byClass[failureClass];
+    if (!count) continue;
+    const percentage = ((count / report.total) * 100).toFixed(1);
+    console.log(`  ${failureClass}: ${count} (${percentage}%) → ${policy.remedies[failureClass]}`);
+  }
+
+  if (report.schemaFields.length > 0) {
+    console.log('\nSchema violations by field:');
+    for (const { field, count } of report.schemaFields.slice(0, 10)) {
+      console.log(`  ${field}: ${count}`);
+    }
+  }
+
+  console.log('\nPlanned remedies:');
+  for (const remedy of RETRY_REMEDIES) {
+    if (report.byRemedy[remedy]) console.log(`  ${remedy}: ${report.byRemedy[remedy]}`);
+  }
+
+  if (Object.keys(report.fallbacks).length > 0) {
+    console.log('\nSent to manual review instead (remedy could not apply):');
+    for (const [reason, count] of Object.entries(report.fallbacks)) {
+      console.log(`  ${reason}: ${count}`);
+    }
+  }
+  console.log('');
+}
+
+function formatTriageMarkdown(report: TriageReport, policy: RetryPolicy): string {
+  const classes = FAILURE_CLASSES.filter((c) => report.byClass[c]);
+  const header = ['# Failure Triage', '', `Generated: ${report.generatedAt} — ${report.total} failures`, ''];
+  if (report.total === 0) return header.join('\n');
+
+  const lines = [
+    ...header,
+    `| Job | ${classes.join(' | ')} |`,
+    `|-----|${classes.map(() => '---').join('|')}|`,
+    ...Object.entries(report.byJob).map(([job, counts]) => `| ${job} | ${classes.map((c) => counts[c] ?? 0).join(' | ')} |`),
+    `| **Total** | ${classes.map((c) => report.byClass[c]).join(' | ')} |`,
+    '',
+    '## Remedies',
+    '',
+    '| Class | Remedy | Sample |',
+    '|-------|--------|--------|',
+    ...classes.map((c) => `| ${c} | ${policy.remedies[c]} | ${(report.samples[c] ?? '').replace(/\|/g, '\\|')} |`),
+    '',
+    `Planned: ${RETRY_REMEDIES.filter((r) => report.byRemedy[r]).map((r) => `${r} ${report.byRemedy[r]}`).join(', ')}`,
+    '',
+  ];
+
+  if (Object.keys(report.fallbacks).length > 0) {
+    lines.push('## Manual Review Fallbacks', '', '| Reason | Failures |', '|--------|----------|');
+    for (const [reason, count] of Object.entries(report.fallbacks)) lines.push(`| ${reason} | ${count} |`);
+    lines.push('');
+  }
+
+  if (report.schemaFields.length > 0) {
+    lines.push('## Schema Violations by Field', '', '| Field | Failures |', '|-------|----------|');
+    for (const { field, count } of report.schemaFields) lines.push(`| ${field} | ${count} |`);
+    lines.push('');
+  }
+  return lines.join('\n');
+}
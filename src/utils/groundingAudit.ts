@@ -0,0 +1,207 @@
+/**
+ * Grounding Audit
+ *
+ * Loads the source a job quoted from (full_md or the transformed HTML
+ * blocks) and checks every verbatim claim with the grounding verifier.
+ * Backs `results grounding` in the CLI (src/cli/commands/results.ts):
+ *   npm run dev -- results grounding --run full-data/extract-legal-teachings/2025-10-13T12-00-00-000Z
+ *
+ * Writes grounding-report.json and grounding-report.md into the run directory.
+ * Can also be plugged into a job as postProcessRow (groundingPostProcessRow).
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { DatabaseConfig } from '../config/database.js';
+import { ResultsSink } from '../results-sink/ResultsSink.js';
+import { extractBlocksFromTransformedHtml } from './htmlTransformer.js';
+import { loadDecisionMarkdown } from './markdownToHtml.js';
+import {
+  GROUNDING_FIELD,
+  GroundingOptions,
+  GroundingReport,
+  GroundingSource,
+  QUOTE_FIELDS,
+  QuoteGrounding,
+  verifyGrounding,
+} from './groundingVerifier.js';
+
+export interface GroundingAuditOptions extends GroundingOptions {
+  runDirectory: string;
+  jobId?: string;
+}
+
+export interface GroundingAuditResult {
+  jobId: string;
+  runDirectory: string;
+  decisions: number;
+  /** Decisions whose source could not be loaded */
+  unavailable: Array<{ decisionId: string; language: string; error: string }>;
+  checked: number;
+  exact: number;
+  near: number;
+  missing: number;
+  blockMismatches: number;
+  groundingRate: number;
+  /** Decisions with at least one missing quote, worst first */
+  ungrounded: Array<{ decisionId: string; language: string; missing: number; quotes: QuoteGrounding[] }>;
+}
+
+/**
+ * Load the source a job's quotes must come from
+ *
+ * @throws Error when the job has no configured quote fields or the source is missing
+ */
+export async function loadGroundingSource(
+  jobType: string,
+  decisionId: string,
+  language: string
+): Promise<GroundingSource> {
+  const fields = QUOTE_FIELDS[jobType];
+  if (!fields) {
+    throw new Error(`No quote fields configured for job type: ${jobType}`);
+  }
+
+  if (fields.source === 'markdown') {
+    return { text: await loadDecisionMarkdown(decisionId, language) };
+  }
+
+  const rows: any = await DatabaseConfig.executeReadOnlyQuery(
+    `SELECT df.full_html
+     FROM decisions1 d
+     INNER JOIN decision_fulltext1 df ON df.decision_id = d.id
+     WHERE d.decision_id = $1
+       AND d.language_metadata = $2
+       AND df.full_html IS NOT NULL
+     LIMIT 1`,
+    [decisionId, language]
+  );
+  if (!rows || rows.length === 0) {
+    throw new Error(`HTML not found for decision: ${decisionId} (${language})`);
+  }
+  return { blocks: extractBlocksFromTransformedHtml(rows[0].full_html) };
+}
+
+/**
+ * postProcessRow hook writing a grounding report into each result
+ *
+ * Requires decision_id and language (or language_metadata) in the job's
+ * rowMetadataFields.
+ */
+export function groundingPostProcessRow(jobType: string, options: GroundingOptions = {}) {
+  return async (row: any, result: any) => {
+    const language = row.language ?? row.language_metadata;
+    const source = await loadGroundingSource(jobType, row.decision_id, language);
+    return { ...result, [GROUNDING_FIELD]: verifyGrounding(jobType, result, source, options) };
+  };
+}
+
+/**
+ * Check the quotes of every decision of a run directory
+ */
+export async function auditGrounding(options: GroundingAuditOptions): Promise<GroundingAuditResult> {
+  const run = await ResultsSink.loadRun(options.runDirectory, options.jobId);
+  if (!QUOTE_FIELDS[run.jobId]) {
+    throw new Error(
+      `No quote fields configured for job type: ${run.jobId}. ` +
+      `Configured job types: ${Object.keys(QUOTE_FIELDS).join(', ')}`
+    );
+  }
+
+  console.log(`\n🔎 Grounding audit: ${run.jobId}`);
+  console.log(`   Run: ${run.sourceDirectory}`);
+  console.log(`   Decisions: ${run.records.length}\n`);
+
+  const result: GroundingAuditResult = {
+    jobId: run.jobId,
+    runDirectory: run.sourceDirectory,
+    decisions: run.records.length,
+    unavailable: [],
+    checked: 0,
+    exact: 0,
+    near: 0,
+    missing: 0,
+    blockMismatches: 0,
+    groundingRate: 1,
+    ungrounded: [],
+  };
+
+  for (const record of run.records) {
+    let report: GroundingReport;
+    try {
+      const source = await loadGroundingSource(run.jobId, record.decisionId, record.language);
+      report = verifyGrounding(run.jobId, record.data, source, options);
+    } catch (error: any) {
+      result.unavailable.push({ decisionId: record.decisionId, language: record.language, error: error.message });
+      continue;
+    }
+
+    result.checked += report.checked;
+    result.exact += report.exact;
+    result.near += report.near;
+    result.missing += report.missing;
+    result.blockMismatches += report.blockMismatches;
+    if (report.missing > 0) {
+      result.ungrounded.push({
+        decisionId: record.decisionId,
+        language: record.language,
+        missing: report.missing,
+        quotes: report.quotes.filter((q) => q.status === 'missing'),
+      });
+    }
+  }
+
+  result.groundingRate = result.checked === 0 ? 1 : (result.exact + result.near) / result.checked;
+  result.ungrounded.sort((a, b) => b.missing - a.missing || a.decisionId.localeCompare(b.decisionId));
+
+  await fs.writeFile(
+    path.join(run.sourceDirectory, 'grounding-report.json'),
+    JSON.stringify(result, null, 2),
+    'utf-8'
+  );
+  await fs.writeFile(path.join(run.sourceDirectory, 'grounding-report.md'), formatAuditMarkdown(result), 'utf-8');
+
+  console.log(`✅ Checked ${result.checked} quotes: ${result.exact} exact, ${result.near} near, ${result.missing} missing`);
+  console.log(`   Grounding rate: ${(result.groundingRate * 100).toFixed(1)}%`);
+  if (result.blockMismatches > 0) console.log(`   ⚠️  ${result.blockMismatches} quotes found outside their claimed block`);
+  if (result.unavailable.length > 0) console.log(`   ⚠️  ${result.unavailable.length} decisions without source`);
+  console.log(`   Report: ${path.join(run.sourceDirectory, 'grounding-report.md')}\n`);
+
+  return result;
+}
+
+function formatAuditMarkdown(result: GroundingAuditResult): string {
+  const escape = (text: string) => text.replace(/\|/g, '\\|').replace(/\s+/g, ' ');
+  const lines = [
+    `# Grounding Audit: ${result.jobId}`,
+    '',
+    `Run: \`${result.runDirectory}\``,
+    '',
+    '| Decisions | Quotes | Exact | Near | Missing | Block mismatches | Grounding rate |',
+    '|-----------|--------|-------|------|---------|------------------|----------------|',
+    `| ${result.decisions} | ${result.checked} | ${result.exact} | ${result.near} | ${result.missing} | ` +
+      `${result.blockMismatches} | ${(result.groundingRate * 100).toFixed(1)}% |`,
+    '',
+  ];
+
+  if (result.ungrounded.length > 0) {
+    lines.push('## Missing Quotes', '', '| Decision | Language | Path | Similarity | Quote |', '|----------|----------|------|------------|-------|');
+    for (const decision of result.ungrounded) {
+      for (const quote of decision.quotes) {
+        lines.push(
+          `| ${decision.decisionId} | ${decision.language} | ${quote.path} | ` +
+          `${quote.similarity.toFixed(2)} | ${escape(quote.quote)} |`
+        );
+      }
+    }
+    lines.push('');
+  }
+
+  if (result.unavailable.length > 0) {
+    lines.push('## Source Unavailable', '');
+    for (const u of result.unavailable) lines.push(`- ${u.decisionId} (${u.language}): ${escape(u.error)}`);
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,428 @@
+import { Block } from './htmlTransformer.js';
+
+/**
+ * Grounding Verifier
+ *
+ * Checks that quotes claimed to be verbatim (courtVerbatim, relevantSnippet,
+ * ...) actually occur in the source text: the decision markdown (full_md)
+ * or the transformed HTML blocks.
+ *
+ * Source and quote are normalized the same way before matching: case,
+ * accents, whitespace, quote characters, dashes and markdown markup are
+ * ignored. Each quote is then:
+ * - exact:   found as-is after normalization
+ * - near:    a window of the source shares at least `nearThreshold` of the
+ *            quote's words (paraphrased or lightly edited quote)
+ * - missing: neither (likely hallucinated)
+ *
+ * Quotes with ellipses ("...", "[...]") are split and each part is located.
+ * Offsets refer to the original source text (or to the block's plainText).
+ */
+
+export type GroundingStatus = 'exact' | 'near' | 'missing';
+
+/**
+ * Text a quote is checked against: decision markdown and/or HTML blocks
+ */
+export interface GroundingSource {
+  text?: string;
+  blocks?: Block[];
+}
+
+export interface GroundingMatch {
+  status: GroundingStatus;
+  /** Share of quote words found in the best source window (1 for exact) */
+  similarity: number;
+  /** Character offsets in the source text, or in the block's plainText */
+  start: number | null;
+  end: number | null;
+  blockId: string | null;
+}
+
+/**
+ * Grounding of one quote of an output
+ */
+export interface QuoteGrounding extends GroundingMatch {
+  /** Location in the output, e.g. legalTeachings[2].courtVerbatim */
+  path: string;
+  /** Quote (truncated to 160 characters) */
+  quote: string;
+  /** Block the output claims the quote comes from */
+  claimedBlockId?: string;
+  /** Quote found, but not in the claimed block */
+  blockMismatch?: boolean;
+}
+
+/**
+ * Grounding of all quotes of an output (written as the `grounding` field)
+ */
+export interface GroundingReport {
+  checked: number;
+  exact: number;
+  near: number;
+  missing: number;
+  blockMismatches: number;
+  /** (exact + near) / checked, 1 when there is nothing to check */
+  groundingRate: number;
+  quotes: QuoteGrounding[];
+}
+
+/**
+ * Quote of an output, with its location and claimed block
+ */
+export interface QuoteRef {
+  path: string;
+  quote: string;
+  blockId?: string;
+}
+
+export interface GroundingOptions {
+  /** Minimum share of quote words for a near match (default: 0.8) */
+  nearThreshold?: number;
+}
+
+/**
+ * Field name used when writing grounding reports into results
+ */
+export const GROUNDING_FIELD = 'grounding';
+
+// ============================================================================
+// Quote fields per job
+// ============================================================================
+
+/**
+ * Where each job's verbatim claims live, and which source they quote
+ *
+ * Stage-1 snippets of extract-provisions-2a are synthesized on purpose and
+ * never stored, so they are checked ad hoc (parseAgenticSnippets) rather
+ * than here.
+ */
+export const QUOTE_FIELDS: Record<string, { source: 'markdown' | 'blocks'; collect: (output: any) => QuoteRef[] }> = {
+  'extract-legal-teachings': {
+    source: 'markdown',
+    collect: (output) => (output?.legalTeachings ?? []).flatMap((t: any, i: number) =>
+      typeof t?.courtVerbatim === 'string' && t.courtVerbatim.trim()
+        ? [{ path: `legalTeachings[${i}].courtVerbatim`, quote: t.courtVerbatim }]
+        : []
+    ),
+  },
+  'enrich-teaching-citations': {
+    source: 'blocks',
+    collect: (output) => collectCitations(output?.legalTeachings, 'legalTeachings'),
+  },
+  'enrich-provision-citations': {
+    source: 'blocks',
+    collect: (output) => collectCitations(output?.citedProvisions, 'citedProvisions'),
+  },
+};
+
+function collectCitations(items: any[] | undefined, field: string): QuoteRef[] {
+  return (items ?? []).flatMap((item: any, i: number) =>
+    (item?.citations ?? []).flatMap((c: any, j: number) =>
+      typeof c?.relevantSnippet === 'string' && c.relevantSnippet.trim()
+        ? [{ path: `${field}[${i}].citations[${j}].relevantSnippet`, quote: c.relevantSnippet, blockId: c.blockId }]
+        : []
+    )
+  );
+}
+
+/**
+ * Split extract-provisions-2a stage-1 output ("SNIPPET 1: ...") into snippets
+ */
+export function parseAgenticSnippets(text: string): QuoteRef[] {
+  return [...text.matchAll(/^SNIPPET\s+(\d+):\s*(.+)$/gm)].map((m) => ({
+    path: `snippet[${m[1]}]`,
+    quote: m[2].trim(),
+  }));
+}
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+const SINGLE_QUOTES = /[‘’‚‛′`´]/;
+const DROPPED = /["“”„‟«»″*_#>|\\]/;
+const DASHES = /[‐‑‒–—―]/;
+const ELLIPSIS = /\s*(?:\[\s*(?:\.\.\.|…)\s*\]|\(\s*(?:\.\.\.|…)\s*\)|\.\.\.|…)\s*/;
+
+/**
+ * Normalized text with the original offset of every normalized character
+ */
+interface NormalizedText {
+  text: string;
+  offsets: number[];
+}
+
+function normalize(source: string): NormalizedText {
+  let text = '';
+  const offsets: number[] = [];
+  let pendingSpace = false;
+
+  for (let i = 0; i < source.length; i++) {
+    let ch = source[i];
+    if (/\s/.test(ch)) {
+      pendingSpace = text.length > 0;
+      continue;
+    }
+    if (DROPPED.test(ch)) continue;
+    if (SINGLE_QUOTES.test(ch)) ch = "'";
+    else if (DASHES.test(ch)) ch = '-';
+
+    const folded = ch.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    if (!folded) continue;
+    if (pendingSpace) {
+      text += ' ';
+      offsets.push(i);
+      pendingSpace = false;
+    }
+    for (const c of folded) {
+      text += c;
+      offsets.push(i);
+    }
+  }
+  return { text, offsets };
+}
+
+/**
+ * Words of a normalized text with their start/end in that text
+ */
+function words(text: string): Array<{ word: string; start: number; end: number }> {
+  return [...text.matchAll(/[^ ]+/g)].map((m) => ({
+    // Punctuation is compared loosely ("faute," matches "faute")
+    word: m[0].replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ''),
+    start: m.index!,
+    end: m.index! + m[0].length,
+  }));
+}
+
+// ============================================================================
+// Verifier
+// ============================================================================
+
+/**
+ * Locates quotes in one source (normalized once, reused for every quote)
+ */
+export class GroundingVerifier {
+  private readonly document: NormalizedText;
+  private readonly documentWords: ReturnType<typeof words>;
+  /** Normalized start of each block in the document (blocks only) */
+  private readonly blockStarts: Array<{ block: Block; start: number; normalized: NormalizedText }> = [];
+  private readonly nearThreshold: number;
+
+  constructor(source: GroundingSource, options: GroundingOptions = {}) {
+    this.nearThreshold = options.nearThreshold ?? 0.8;
+
+    if (source.blocks?.length) {
+      // Blocks are searched as one document so quotes may span blocks
+      let text = '';
+      const offsets: number[] = [];
+      for (const block of source.blocks) {
+        const normalized = normalize(block.plainText);
+        if (text.length > 0) {
+          text += ' ';
+          offsets.push(-1);
+        }
+        this.blockStarts.push({ block, start: text.length, normalized });
+        text += normalized.text;
+        offsets.push(...normalized.offsets);
+      }
+      this.document = { text, offsets };
+    } else {
+      this.document = normalize(source.text ?? '');
+    }
+    this.documentWords = words(this.document.text);
+  }
+
+  /**
+   * Locate one quote
+   *
+   * @param quote - Claimed verbatim text
+   * @param claimedBlockId - Block the quote is claimed to come from (checked first)
+   */
+  locate(quote: string, claimedBlockId?: string): GroundingMatch & { blockMismatch?: boolean } {
+    if (claimedBlockId) {
+      const claimed = this.blockStarts.find((b) => b.block.blockId === claimedBlockId);
+      if (claimed) {
+        const inBlock = this.locateParts(quote, claimed.normalized, words(claimed.normalized.text));
+        if (inBlock.status !== 'missing') {
+          return { ...toMatch(claimed.normalized, inBlock), blockId: claimedBlockId, blockMismatch: false };
+        }
+      }
+    }
+
+    const match = this.locateParts(quote, this.document, this.documentWords);
+    if (match.status === 'missing' || this.blockStarts.length === 0) {
+      return { ...toMatch(this.document, match), blockId: null };
+    }
+
+    // Block holding the match start; offsets are relative to its plainText
+    const entry = [...this.blockStarts].reverse().find((b) => b.start <= match.start!) ?? this.blockStarts[0];
+    const result = { ...toMatch(this.document, match), blockId: entry.block.blockId };
+    return claimedBlockId ? { ...result, blockMismatch: entry.block.blockId !== claimedBlockId } : result;
+  }
+
+  /**
+   * Locate every quote of a job output
+   */
+  verify(quotes: QuoteRef[]): GroundingReport {
+    const results: QuoteGrounding[] = quotes.map((ref) => {
+      const match = this.locate(ref.quote, ref.blockId);
+      return {
+        path: ref.path,
+        quote: ref.quote.length > 160 ? `${ref.quote.slice(0, 157)}...` : ref.quote,
+        ...(ref.blockId ? { claimedBlockId: ref.blockId } : {}),
+        ...match,
+      };
+    });
+
+    const count = (status: GroundingStatus) => results.filter((r) => r.status === status).length;
+    const exact = count('exact');
+    const near = count('near');
+    return {
+      checked: results.length,
+      exact,
+      near,
+      missing: count('missing'),
+      blockMismatches: results.filter((r) => r.blockMismatch).length,
+      groundingRate: results.length === 0 ? 1 : (exact + near) / results.length,
+      quotes: results,
+    };
+  }
+
+  /**
+   * Locate a quote part by part (split on ellipses); the worst part decides
+   *
+   * Offsets are positions in the normalized text (see toMatch).
+   */
+  private locateParts(
+    quote: string,
+    doc: NormalizedText,
+    docWords: ReturnType<typeof words>
+  ): Omit<GroundingMatch, 'blockId'> {
+    const parts = quote
+      .split(ELLIPSIS)
+      .map((p) => normalize(p).text)
+      .filter((p) => p.length > 0);
+    if (parts.length === 0) {
+      return { status: 'missing', similarity: 0, start: null, end: null };
+    }
+
+    let status: GroundingStatus = 'exact';
+    let similarity = 1;
+    let start: number | null = null;
+    let end: number | null = null;
+    let from = 0;
+
+    for (const part of parts) {
+      let found = doc.text.indexOf(part, from);
+      if (found < 0) found = doc.text.indexOf(part);
+      let partStart: number;
+      let partEnd: number;
+      let partSimilarity = 1;
+
+      if (found >= 0) {
+        partStart = found;
+        partEnd = found + part.length;
+      } else {
+        const best = this.bestWindow(part, docWords);
+        if (!best || best.similarity < this.nearThreshold) {
+          return { status: 'missing', similarity: best?.similarity ?? 0, start: null, end: null };
+        }
+        status = 'near';
+        partStart = best.start;
+        partEnd = best.end;
+        partSimilarity = best.similarity;
+      }
+
+      similarity = Math.min(similarity, partSimilarity);
+      start ??= partStart;
+      end = partEnd;
+      from = partEnd;
+    }
+
+    return { status, similarity, start, end };
+  }
+
+  /**
+   * Source window (as many words as the part) sharing the most words with it
+   */
+  private bestWindow(
+    part: string,
+    docWords: ReturnType<typeof words>
+  ): { similarity: number; start: number; end: number } | null {
+    const partWords = words(part).map((w) => w.word);
+    const n = partWords.length;
+    // Too short for word overlap to mean anything
+    if (n < 3 || docWords.length === 0) return null;
+
+    const wanted = new Map<string, number>();
+    for (const w of partWords) wanted.set(w, (wanted.get(w) ?? 0) + 1);
+    const window = new Map<string, number>();
+    let overlap = 0;
+    let best = { overlap: -1, index: 0 };
+
+    for (let i = 0; i < docWords.length; i++) {
+      const added = docWords[i].word;
+      if ((window.get(added) ?? 0) < (wanted.get(added) ?? 0)) overlap++;
+      window.set(added, (window.get(added) ?? 0) + 1);
+
+      if (i >= n) {
+        const removed = docWords[i - n].word;
+        window.set(removed, window.get(removed)! - 1);
+        if (window.get(removed)! < (wanted.get(removed) ?? 0)) overlap--;
+      }
+      if (overlap > best.overlap) best = { overlap, index: Math.max(0, i - n + 1) };
+    }
+
+    const last = Math.min(docWords.length - 1, best.index + n - 1);
+    return {
+      similarity: best.overlap / n,
+      start: docWords[best.index].start,
+      end: docWords[last].end,
+    };
+  }
+}
+
+/**
+ * Map a match from normalized to original offsets
+ */
+function toMatch(doc: NormalizedText, match: Omit<GroundingMatch, 'blockId'>): Omit<GroundingMatch, 'blockId'> {
+  if (match.start === null || match.end === null) return match;
+  return {
+    ...match,
+    start: originalOffset(doc, match.start, 'start'),
+    end: originalOffset(doc, match.end - 1, 'end') + 1,
+  };
+}
+
+/**
+ * Original offset of a normalized character (skipping block joins)
+ */
+function originalOffset(doc: NormalizedText, index: number, side: 'start' | 'end'): number {
+  const step = side === 'start' ? 1 : -1;
+  for (let i = index; i >= 0 && i < doc.offsets.length; i += step) {
+    if (doc.offsets[i] >= 0) return doc.offsets[i];
+  }
+  return 0;
+}
+
+/**
+ * Check every quote of a job output against its source
+ *
+ * @throws Error for jobs without configured quote fields
+ */
+export function verifyGrounding(
+  jobType: string,
+  output: any,
+  source: GroundingSource,
+  options: GroundingOptions = {}
+): GroundingReport {
+  const fields = QUOTE_FIELDS[jobType];
+  if (!fields) {
+    throw new Error(
+      `No quote fields configured for job type: ${jobType}. ` +
+      `Configured job types: ${Object.keys(QUOTE_FIELDS).join(', ')}`
+    );
+  }
+  return new GroundingVerifier(source, options).verify(fields.collect(output));
+}
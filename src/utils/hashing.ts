@@ -0,0 +1,28 @@
+import crypto from 'crypto';
+
+/**
+ * JSON.stringify with object keys sorted, so the hash does not depend on
+ * property insertion order
+ */
+export function stableStringify(value: any): string {
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value)
+      .filter((k) => value[k] !== undefined)
+      .sort();
+    return `{${keys.map((k) => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Hex SHA-256 of a string
+ */
+export function sha256(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
@@ -161,7 +161,8 @@ export class JobResultLoader {
    *
    * @param jobType Job type to search for
    * @param baseDir Base directory (default: 'results', can use 'concurrent/results')
-   * @param timestamp Optional specific timestamp to load (e.g., '2025-10-31T00-48-32-418Z')
+   * @param timestamp Optional specific timestamp to load (e.g., '2025-10-31T00-48-32-418Z';
+   *   for concurrent results also '<model>/<timestamp>')
    * @returns Full path to latest results directory (or specific timestamp directory)
    * @throws Error if no results directory found
    */
@@ -172,7 +173,16 @@ export class JobResultLoader {
     if (timestamp) {
       const isConcurrent = baseDir.includes('concurrent');
 
-      if (isConcurrent) {
+      if (isConcurrent && timestamp.includes('/')) {
+        // Model given: concurrent/results/{jobType}/{model}/{timestamp}/
+        const modelPath = path.join(jobResultsDir, timestamp);
+        try {
+          await fs.access(modelPath);
+          return modelPath;
+        } catch {
+          throw new Error(`Timestamp directory not found: ${modelPath}`);
+        }
+      } else if (isConcurrent) {
         // For concurrent: concurrent/results/{jobType}/{model}/{timestamp}/
         // Try gpt-5-mini first (most common)
         const modelPath = path.join(jobResultsDir, 'gpt-5-mini', timestamp);
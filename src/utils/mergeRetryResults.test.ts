@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { checkRetryVersion } from './mergeRetryResults.js';
+import { PromptSchemaVersion } from './versioning.js';
+
+const V1: PromptSchemaVersion = { promptHash: 'aaaaaaaaaaaaaaaa', schemaHash: 'bbbbbbbbbbbbbbbb' };
+const V2: PromptSchemaVersion = { promptHash: 'cccccccccccccccc', schemaHash: 'bbbbbbbbbbbbbbbb' };
+
+describe('checkRetryVersion', () => {
+  let root: string;
+
+  async function run(name: string, version?: PromptSchemaVersion): Promise<string> {
+    const dir = path.join(root, name);
+    await fs.mkdir(dir, { recursive: true });
+    if (version) {
+      await fs.writeFile(path.join(dir, 'summary.json'), JSON.stringify({ promptSchemaVersion: version }), 'utf-8');
+    }
+    return dir;
+  }
+
+  before(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'merge-retry-'));
+  });
+
+  after(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('accepts a retry with the same version', async () => {
+    const check = await checkRetryVersion(await run('same', V1), await run('same-retry-1', V1), 'strict');
+    assert.equal(check.matches, true);
+  });
+
+  it('reports differing versions under the warn policy', async () => {
+    const check = await checkRetryVersion(await run('warn', V1), await run('warn-retry-1', V2), 'warn');
+    assert.equal(check.matches, false);
+    assert.deepEqual(check.original, V1);
+    assert.deepEqual(check.retry, V2);
+  });
+
+  it('refuses differing versions under the strict policy', async () => {
+    const original = await run('strict', V1);
+    const retry = await run('strict-retry-1', V2);
+    await assert.rejects(checkRetryVersion(original, retry, 'strict'), /version mismatch/);
+  });
+
+  it('merges differing versions under the ignore policy', async () => {
+    const check = await checkRetryVersion(await run('ignore', V1), await run('ignore-retry-1', V2), 'ignore');
+    assert.equal(check.matches, false);
+  });
+
+  it('does not compare runs without a summary', async () => {
+    const check = await checkRetryVersion(await run('old', V1), await run('old-retry-1'), 'strict');
+    assert.equal(check.matches, true);
+    assert.equal(check.retry, null);
+  });
+});
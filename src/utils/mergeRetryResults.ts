@@ -1,6 +1,8 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { logger } from './logger.js';
+import { RunRegistry, runId } from '../lineage/RunRegistry.js';
+import { PromptSchemaVersion, VersionPolicy, isSameVersion, versionKey } from './versioning.js';
 
 /**
  * Copy statistics for merge operation
@@ -135,6 +137,60 @@ async function copyRetryJsons(
   return stats;
 }
 
+/**
+ * Prompt/schema versions of an original run and its retry
+ */
+export interface RetryVersionCheck {
+  original: PromptSchemaVersion | null;
+  retry: PromptSchemaVersion | null;
+  /** False when both runs are versioned and the versions differ */
+  matches: boolean;
+}
+
+/**
+ * Compare the promptSchemaVersion in the summary.json of both runs
+ *
+ * A retry run after a prompt or schema change would mix outputs of two
+ * versions in the original run. Runs without a summary or version (older
+ * runs) are not compared.
+ *
+ * @throws Error when the versions differ and the policy is "strict"
+ */
+export async function checkRetryVersion(
+  originalDir: string,
+  retryDir: string,
+  versionPolicy: VersionPolicy = 'warn'
+): Promise<RetryVersionCheck> {
+  const readVersion = async (dir: string): Promise<PromptSchemaVersion | null> => {
+    try {
+      const summary = JSON.parse(await fs.readFile(path.join(dir, 'summary.json'), 'utf-8'));
+      return summary.promptSchemaVersion ?? null;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  };
+
+  const original = await readVersion(originalDir);
+  const retry = await readVersion(retryDir);
+  const matches = !original || !retry || isSameVersion(original, retry);
+
+  if (!matches && versionPolicy !== 'ignore') {
+    console.log('\n⚠️  Retry run was produced by a different prompt/schema version:');
+    console.log(`   Original: ${versionKey(original)}`);
+    console.log(`   Retry:    ${versionKey(retry)}\n`);
+
+    if (versionPolicy === 'strict') {
+      throw new Error(
+        `Prompt/schema version mismatch (${versionKey(original)} vs ${versionKey(retry)}). ` +
+        'Re-run the retry with the current job config or merge with --ignore-versions.'
+      );
+    }
+  }
+
+  return { original, retry, matches };
+}
+
 /**
  * Display merge report in terminal
  *
@@ -195,20 +251,23 @@ function displayMergeReport(
  *
  * Main orchestrator function that coordinates the entire merge process:
  * 1. Validates paths exist
- * 2. Counts JSONs before merge
- * 3. Detects duplicates
- * 4. Copies retry JSONs to original
- * 5. Counts JSONs after merge
- * 6. Displays comprehensive report
+ * 2. Compares prompt/schema versions of both runs
+ * 3. Counts JSONs before merge
+ * 4. Detects duplicates
+ * 5. Copies retry JSONs to original
+ * 6. Counts JSONs after merge
+ * 7. Displays comprehensive report
  *
  * @param jobId Job identifier (e.g., 'extract-comprehensive')
  * @param originalTimestamp Original run timestamp
  * @param retryTimestamp Retry run timestamp
+ * @param versionPolicy What to do when the versions differ (default: 'warn')
  */
 export async function mergeRetryResults(
   jobId: string,
   originalTimestamp: string,
-  retryTimestamp: string
+  retryTimestamp: string,
+  versionPolicy: VersionPolicy = 'warn'
 ): Promise<void> {
   // Build directory paths
   const baseDir = path.join(process.cwd(), 'full-data', jobId);
@@ -233,6 +292,9 @@ export async function mergeRetryResults(
     throw error;
   }
 
+  // Refuse (or report) a retry produced by another prompt/schema version
+  await checkRetryVersion(originalDir, retryDir, versionPolicy);
+
   // Count before merge
   const beforeCount = await countJsonFiles(originalDir);
 
@@ -258,4 +320,18 @@ export async function mergeRetryResults(
 
   // Display report
   displayMergeReport(jobId, originalTimestamp, retryTimestamp, stats);
+
+  // Record the merge in the run registry
+  const original = runId(jobId, originalTimestamp);
+  const retry = runId(jobId, retryTimestamp);
+  const registry = await RunRegistry.update((registry) => {
+    if (registry.get(original) && registry.get(retry)) {
+      registry.linkMerge(retry, original);
+    }
+  });
+  if (registry.get(retry)?.mergedInto === original) {
+    console.log(`🔗 Run registry: ${retry} merged into ${original}\n`);
+  } else {
+    console.log(`⚠️  ${original} or ${retry} is not in the run registry (register past runs with: npm run dev runs scan)\n`);
+  }
 }
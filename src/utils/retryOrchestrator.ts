@@ -1,9 +1,36 @@
+import fs from 'fs/promises';
+import path from 'path';
 import { JobConfig } from '../jobs/JobConfig.js';
 import { ConcurrentRunner } from '../concurrent/ConcurrentRunner.js';
-import { FailureLoader } from './failureLoader.js';
+import { FailureLoader, FailureRecord } from './failureLoader.js';
+import {
+  FailureClass,
+  RetryPolicy,
+  RetryPolicyOverrides,
+  RetryRemedy,
+  RETRY_REMEDIES,
+  applyRemedy,
+  buildTriageReport,
+  printTriage,
+  resolveRetryPolicy,
+  triageFailures,
+} from './failureTriage.js';
 import { RetryPathManager } from './retryPathManager.js';
 import { RetryMetadataGenerator } from './retryMetadataGenerator.js';
 import { logger } from './logger.js';
+import { RunRegistry, runId } from '../lineage/RunRegistry.js';
+import { ConcurrentSummary } from '../concurrent/ConcurrentProcessor.js';
+import { BudgetTracker, CostReport } from '../core/BudgetTracker.js';
+
+/**
+ * What one remedy group's run left in the retry directory
+ */
+interface GroupOutput {
+  remedy: RetryRemedy;
+  summary?: ConcurrentSummary;
+  failures: FailureRecord[];
+  costReport?: CostReport;
+}
 
 /**
  * Retry Options
@@ -20,6 +47,12 @@ export interface RetryOptions {
 
   /** Concurrency override (optional) */
   concurrencyLimit?: number;
+
+  /** Only retry failures of these classes (optional) */
+  failureClasses?: FailureClass[];
+
+  /** Policy overrides applied on top of the job's retryPolicy (optional) */
+  policy?: RetryPolicyOverrides;
 }
 
 /**
@@ -31,11 +64,13 @@ export interface RetryOptions {
  * Workflow:
  * 1. Load job configuration
  * 2. Load failures from source run
- * 3. Analyze failures and extract decision keys
+ * 3. Analyze and triage failures into classes with a remedy each
  * 4. Prepare retry paths and directories
  * 5. Generate retry metadata
- * 6. Create custom config with failed decision keys
- * 7. Execute concurrent processing
+ * 6. Create one custom config per remedy group (escalated model, raised
+ *    maxCompletionTokens, forced chunking, or unchanged)
+ * 7. Execute concurrent processing per group; manual-review failures are
+ *    written to manual-review.json instead of being re-sent
  * 8. Report results
  *
  * Features:
@@ -63,6 +98,7 @@ export class RetryOrchestrator {
       filterReason,
       dryRun = false,
       concurrencyLimit,
+      failureClasses,
     } = options;
 
     console.log('\n🔄 Starting Retry Operation\n');
@@ -93,19 +129,48 @@ export class RetryOrchestrator {
         console.log(`Filtered ${beforeCount} → ${failures.length} failures (reason: ${filterReason})`);
       }
 
-      // Step 3: Analyze failures
+      // Step 3: Analyze and triage failures
       console.log('📊 Analyzing failures...');
       const stats = FailureLoader.analyzeFailures(failures);
       FailureLoader.printAnalysis(stats);
 
-      if (stats.retryable === 0) {
-        console.log('⚠️  No retryable failures found. All failures are missing decision_id or language.');
+      const policy = resolveRetryPolicy(config.retryPolicy, options.policy);
+      let triaged = triageFailures(failures, policy, config);
+      if (failureClasses?.length) {
+        const beforeCount = triaged.length;
+        triaged = triaged.filter((entry) => failureClasses.includes(entry.failureClass));
+        console.log(`Filtered ${beforeCount} → ${triaged.length} failures (class: ${failureClasses.join(', ')})`);
+      }
+      const triageReport = buildTriageReport(
+        triaged.map((entry) => ({ ...entry, jobId })),
+        { [jobId]: originalTimestamp }
+      );
+      printTriage(triageReport, policy);
+
+      const manualReview = triaged.filter((entry) => entry.remedy === 'manual-review');
+      const groups = RETRY_REMEDIES
+        .filter((remedy) => remedy !== 'manual-review')
+        .map((remedy) => ({
+          remedy,
+          decisionKeys: FailureLoader.extractDecisionKeys(
+            triaged.filter((entry) => entry.remedy === remedy).map((entry) => entry.failure)
+          ),
+        }))
+        .filter((group) => group.decisionKeys.length > 0);
+
+      // Step 4: Extract decision keys
+      const decisionKeys = groups.flatMap((group) => group.decisionKeys);
+
+      if (decisionKeys.length === 0) {
+        console.log('⚠️  No failures to re-send. All remaining failures need manual review.');
         console.log('Cannot proceed with retry.\n');
         return;
       }
 
-      // Step 4: Extract decision keys
-      const decisionKeys = FailureLoader.extractDecisionKeys(failures);
+      for (const group of groups) {
+        console.log(`  ${group.remedy}: ${group.decisionKeys.length} decisions${this.describeRemedy(config, group.remedy, policy)}`);
+      }
+      console.log('');
 
       if (dryRun) {
         console.log('✅ Dry run complete. Exiting without execution.\n');
@@ -129,24 +194,68 @@ export class RetryOrchestrator {
       await RetryMetadataGenerator.saveMetadata(metadata, paths.retryDirectory);
       RetryMetadataGenerator.printMetadata(metadata);
 
-      // Step 7: Create custom config for retry with decision keys
-      console.log('⚙️  Creating retry configuration...');
-      const retryConfig = this.createRetryConfig(config, decisionKeys, paths.retryDirectory, concurrencyLimit);
-      console.log(`✓ Config will process ${decisionKeys.length} decisions`);
-      console.log(`✓ Custom output directory: ${retryConfig.customOutputDirectory}`);
-      console.log(`✓ Use full-data pipeline: ${retryConfig.useFullDataPipeline}\n`);
-
-      // Step 8: Execute concurrent processing
-      console.log('⚡ Starting concurrent processing...\n');
-      const runner = new ConcurrentRunner(retryConfig, {
-        concurrencyLimit: concurrencyLimit || config.concurrencyLimit,
-      });
+      await fs.writeFile(
+        path.join(paths.retryDirectory, 'triage-report.json'),
+        JSON.stringify(triageReport, null, 2),
+        'utf-8'
+      );
+      await fs.writeFile(
+        path.join(paths.retryDirectory, 'manual-review.json'),
+        JSON.stringify(manualReview, null, 2),
+        'utf-8'
+      );
 
-      await runner.run();
+      // Steps 7-8: One retry config and run per remedy group, all into the
+      // same retry directory. Each run overwrites summary.json, failures.json
+      // and its cost report, so they are moved under remedies/<remedy>/ and
+      // combined at the top level at the end (so the retry run can itself be
+      // retried, scanned and loaded like any other run).
+      const remainingFailures: FailureRecord[] = [];
+      const groupOutputs: GroupOutput[] = [];
+      for (const group of groups) {
+        console.log(`⚙️  Creating retry configuration (${group.remedy})...`);
+        const retryConfig = this.createRetryConfig(
+          applyRemedy(config, group.remedy, policy),
+          group.decisionKeys,
+          paths.retryDirectory,
+          concurrencyLimit
+        );
+        console.log(`✓ Config will process ${group.decisionKeys.length} decisions`);
+        console.log(`✓ Custom output directory: ${retryConfig.customOutputDirectory}`);
+        console.log(`✓ Use full-data pipeline: ${retryConfig.useFullDataPipeline}\n`);
+
+        console.log('⚡ Starting concurrent processing...\n');
+        const runner = new ConcurrentRunner(retryConfig, {
+          concurrencyLimit: concurrencyLimit || config.concurrencyLimit,
+        });
+
+        await runner.run();
+        const output = await this.stashGroupOutput(paths.retryDirectory, group.remedy);
+        remainingFailures.push(...output.failures);
+        groupOutputs.push(output);
+      }
+
+      await fs.writeFile(
+        path.join(paths.retryDirectory, 'failures.json'),
+        JSON.stringify(remainingFailures, null, 2),
+        'utf-8'
+      );
+      await this.writeCombinedOutput(paths.retryDirectory, groupOutputs);
+
+      // Each group registered the retry directory as a run; link it to its parent
+      await RunRegistry.update((registry) => {
+        const parent = runId(jobId, paths.sourceDirectory);
+        if (!registry.get(parent)) {
+          registry.register({ jobId, kind: 'full-data', directory: paths.sourceDirectory });
+        }
+        registry.linkRetry(runId(jobId, paths.retryDirectory), parent);
+      });
 
       console.log('\n✅ Retry operation completed!\n');
       console.log(`Results: ${paths.retryDirectory}`);
-      console.log(`Metadata: ${paths.retryDirectory}/retry-metadata.json\n`);
+      console.log(`Metadata: ${paths.retryDirectory}/retry-metadata.json`);
+      console.log(`Still failing: ${remainingFailures.length} (${paths.retryDirectory}/failures.json)`);
+      console.log(`Manual review: ${manualReview.length} (${paths.retryDirectory}/manual-review.json)\n`);
 
     } catch (error) {
       logger.error('Retry operation failed', { error });
@@ -155,6 +264,91 @@ export class RetryOrchestrator {
     }
   }
 
+  /**
+   * One-line description of what a remedy changes, for the retry plan
+   */
+  private static describeRemedy(config: JobConfig, remedy: RetryRemedy, policy: RetryPolicy): string {
+    const adjusted = applyRemedy(config, remedy, policy);
+    switch (remedy) {
+      case 'escalate-model':
+        return ` (model: ${adjusted.model})`;
+      case 'raise-max-tokens':
+        return ` (maxCompletionTokens: ${adjusted.maxCompletionTokens})`;
+      case 'chunk':
+        return ' (forced chunking)';
+      default:
+        return '';
+    }
+  }
+
+  /**
+   * Move a remedy group's summary.json, failures.json and budget files under
+   * remedies/<remedy>/ and return what the group wrote
+   */
+  private static async stashGroupOutput(retryDirectory: string, remedy: RetryRemedy): Promise<GroupOutput> {
+    const groupDirectory = path.join(retryDirectory, 'remedies', remedy);
+    await fs.mkdir(groupDirectory, { recursive: true });
+
+    const read = async <T>(file: string): Promise<T | undefined> => {
+      try {
+        await fs.rename(path.join(retryDirectory, file), path.join(groupDirectory, file));
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') throw error;
+        return undefined;
+      }
+      return JSON.parse(await fs.readFile(path.join(groupDirectory, file), 'utf-8'));
+    };
+
+    const summary = await read<ConcurrentSummary>('summary.json');
+    const failures = (await read<FailureRecord[]>('failures.json')) ?? [];
+    const costReport = await read<CostReport>(BudgetTracker.REPORT_FILE);
+    await read(BudgetTracker.STOP_FILE);
+    return { remedy, summary, failures, costReport };
+  }
+
+  /**
+   * Write the top-level summary.json and cost-report.json of a retry run:
+   * counts and costs summed over the remedy groups
+   */
+  private static async writeCombinedOutput(retryDirectory: string, groups: GroupOutput[]): Promise<void> {
+    const summaries = groups.filter((group) => group.summary !== undefined);
+    if (summaries.length > 0) {
+      const last = summaries[summaries.length - 1].summary!;
+      const sum = (field: 'totalRecords' | 'successfulRecords' | 'failedRecords' | 'validationErrors' | 'totalTokens') =>
+        summaries.reduce((total, group) => total + group.summary![field], 0);
+      const totalRecords = sum('totalRecords');
+      const successfulRecords = sum('successfulRecords');
+      const totalTokens = sum('totalTokens');
+
+      const errorsByType: Record<string, number> = {};
+      for (const group of summaries) {
+        for (const [type, count] of Object.entries(group.summary!.errorsByType ?? {})) {
+          errorsByType[type] = (errorsByType[type] ?? 0) + count;
+        }
+      }
+
+      const summary: ConcurrentSummary & { remedies: Record<string, ConcurrentSummary> } = {
+        ...last,
+        processedAt: new Date().toISOString(),
+        totalRecords,
+        successfulRecords,
+        failedRecords: sum('failedRecords'),
+        validationErrors: sum('validationErrors'),
+        totalTokens,
+        averageTokensPerRequest: totalRecords > 0 ? Math.round(totalTokens / totalRecords) : 0,
+        successRate: totalRecords > 0 ? `${((successfulRecords / totalRecords) * 100).toFixed(1)}%` : '0.0%',
+        errorsByType,
+        remedies: Object.fromEntries(summaries.map((group) => [group.remedy, group.summary!])),
+      };
+      await fs.writeFile(path.join(retryDirectory, 'summary.json'), JSON.stringify(summary, null, 2), 'utf-8');
+    }
+
+    const reports = groups.map((group) => group.costReport).filter((report): report is CostReport => !!report);
+    if (reports.length > 0) {
+      await BudgetTracker.writeReport(retryDirectory, BudgetTracker.mergeReports(reports));
+    }
+  }
+
   /**
    * Load job configuration dynamically
    *
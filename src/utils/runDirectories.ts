@@ -0,0 +1,36 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Run directories are named new Date().toISOString().replace(/[:.]/g, '-');
+ * retry directories add a -retry-N suffix and do not match
+ */
+export const RUN_DIRECTORY_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z$/;
+
+/**
+ * Latest timestamp-named run directory of a job that has a jsons/ directory
+ *
+ * Retry directories only hold the retried decisions and are never picked.
+ *
+ * @param baseDir - Directory holding <job>/<timestamp> (e.g. full-data)
+ * @returns null when the job has no such run
+ */
+export async function findLatestRun(baseDir: string, jobId: string): Promise<string | null> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(path.join(baseDir, jobId));
+  } catch {
+    return null;
+  }
+
+  for (const name of entries.filter((e) => RUN_DIRECTORY_PATTERN.test(e)).sort().reverse()) {
+    const runDirectory = path.join(baseDir, jobId, name);
+    try {
+      await fs.access(path.join(runDirectory, 'jsons'));
+      return runDirectory;
+    } catch {
+      continue;
+    }
+  }
+  return null;
+}
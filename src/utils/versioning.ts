@@ -0,0 +1,97 @@
+import { sha256, stableStringify } from './hashing.js';
+
+/**
+ * Prompt and schema version of a job or pipeline step
+ *
+ * Content hashes (16 hex chars) of what is sent to the model:
+ * - promptHash: prompt texts
+ * - schemaHash: output schema(s)
+ *
+ * Only strings and schemas are hashed, never function source, so a version
+ * does not change with refactors or transpiler output. Changes to how a
+ * prompt is assembled in code need an explicit `promptVersion`.
+ */
+export interface PromptSchemaVersion {
+  promptHash: string;
+  schemaHash: string;
+}
+
+/**
+ * What to do when results to be combined come from different versions
+ * - warn: combine and report the mismatch
+ * - strict: refuse to combine
+ * - ignore: combine silently
+ */
+export type VersionPolicy = 'warn' | 'strict' | 'ignore';
+
+/**
+ * Field name used when stamping a version into result JSONs
+ */
+export const VERSION_FIELD = 'promptSchemaVersion';
+
+/**
+ * Minimal job shape needed for versioning (structurally matches JobConfig)
+ */
+interface VersionedJob {
+  promptTemplate?: (row: any) => string;
+  outputSchema: object;
+  promptVersion?: string;
+  versionedPrompts?: string[];
+}
+
+/**
+ * Compute a version from prompt texts and schemas
+ */
+export function computeVersion(prompts: Array<string | null | undefined>, schemas: unknown[]): PromptSchemaVersion {
+  return {
+    promptHash: sha256(stableStringify(prompts.map((prompt) => prompt ?? null))).slice(0, 16),
+    schemaHash: sha256(stableStringify(schemas)).slice(0, 16),
+  };
+}
+
+/**
+ * Compute the version of a job config
+ *
+ * The prompt hash covers the template rendered against an empty row (which
+ * captures prompt constants imported from prompt.ts) and any
+ * `versionedPrompts`. An explicit `promptVersion` replaces the computed
+ * prompt hash.
+ */
+export function computeJobVersion(config: VersionedJob): PromptSchemaVersion {
+  const version = computeVersion(
+    [renderTemplate(config.promptTemplate), ...(config.versionedPrompts ?? [])],
+    [config.outputSchema]
+  );
+
+  return config.promptVersion ? { ...version, promptHash: config.promptVersion } : version;
+}
+
+/**
+ * Whether two versions are identical (undefined means "unversioned")
+ */
+export function isSameVersion(a?: PromptSchemaVersion | null, b?: PromptSchemaVersion | null): boolean {
+  return versionKey(a) === versionKey(b);
+}
+
+/**
+ * Compact key for grouping and display: "<promptHash>/<schemaHash>"
+ */
+export function versionKey(version?: PromptSchemaVersion | null): string {
+  return version ? `${version.promptHash}/${version.schemaHash}` : 'unversioned';
+}
+
+/**
+ * Render a prompt template against an empty row
+ *
+ * Templates default missing fields (`row.full_md || ''`), so this yields the
+ * static prompt text. Templates that need real data return null; such jobs
+ * list their prompts in `versionedPrompts` or set `promptVersion`.
+ */
+function renderTemplate(template?: (row: any) => string): string | null {
+  if (!template) return null;
+  try {
+    return template({});
+  } catch {
+    return null;
+  }
+}